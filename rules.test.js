@@ -0,0 +1,394 @@
+import fs from 'fs';
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import { assertFails, assertSucceeds, initializeTestEnvironment } from '@firebase/rules-unit-testing';
+
+// Checks database.rules.json, firestore.rules and storage.rules against the
+// Firebase emulators. `npm run test:rules` starts them and runs this file; a
+// plain `npm test` skips it, since the emulators need Java.
+
+const PROJECT_ID = 'demo-educonnect';
+const emulatorsRunning = Boolean(process.env.FIREBASE_EMULATOR_HUB);
+
+const readRules = (file) => fs.readFileSync(new URL(`./${file}`, import.meta.url), 'utf8');
+
+const SEED = {
+    users: {
+        admin: { name: 'Ada', role: 'admin' },
+        teacher: { name: 'Tess', role: 'teacher' },
+        other_teacher: { name: 'Otto', role: 'teacher' },
+        student: { name: 'Sam', role: 'student' },
+        other_student: { name: 'Olive', role: 'student' },
+    },
+    courses: {
+        c1: { title: 'Biology', instructor_id: 'teacher', is_archived: false },
+    },
+    enrollments: {
+        c1_student: { course_id: 'c1', student_id: 'student', enrolled_at: '2025-01-06', completed: false },
+    },
+    assignments: {
+        a1: { title: 'Essay', course_id: 'c1', teacher_id: 'teacher', points: 10 },
+    },
+    submissions: {
+        sub1: {
+            user_id: 'student',
+            assignment_id: 'a1',
+            course_id: 'c1',
+            content: 'Draft',
+            submitted_at: 1736150400000,
+            late: false,
+            version: 1,
+        },
+    },
+    grade_overrides: {
+        c1: {
+            student: {
+                final: { course_id: 'c1', student_id: 'student', score: 90, reason: 'Extra work', set_by: 'teacher', set_at: '2025-02-01' },
+            },
+        },
+    },
+    forum_threads: {
+        t1: { course_id: 'c1', author_id: 'teacher', title: 'Welcome', content: 'Hi all', status: 'visible', visible_in: 'c1' },
+        t2: { course_id: 'c1', author_id: 'teacher', title: 'Oops', content: 'Hidden', status: 'hidden' },
+    },
+};
+
+const newThread = (authorId) => ({
+    course_id: 'c1',
+    author_id: authorId,
+    title: 'Question',
+    content: 'How long should the essay be?',
+    status: 'visible',
+    visible_in: 'c1',
+    created_at: '2025-02-01T10:00:00.000Z',
+});
+
+const reportOf = (reporterId, extra = {}) => ({
+    course_id: 'c1',
+    thread_id: 't1',
+    target_type: 'thread',
+    target_id: 't1',
+    target_author_id: 'teacher',
+    reporter_id: reporterId,
+    reason: 'Spam',
+    status: 'open',
+    created_at: '2025-02-01T10:00:00.000Z',
+    ...extra,
+});
+
+const newSubmission = (userId) => ({
+    user_id: userId,
+    assignment_id: 'a1',
+    course_id: 'c1',
+    content: 'My essay',
+    submitted_at: { '.sv': 'timestamp' },
+    version: 1,
+});
+
+const notificationFrom = (senderId, userId, extra = {}) => ({
+    user_id: userId,
+    title: 'Hello',
+    type: 'announcement',
+    created_at: '2025-02-01T10:00:00.000Z',
+    read: false,
+    sender_id: senderId,
+    sent_at: { '.sv': 'timestamp' },
+    ...extra,
+});
+
+describe.skipIf(!emulatorsRunning)('security rules', () => {
+    let testEnv;
+
+    const database = (uid) => testEnv.authenticatedContext(uid).database();
+    const firestore = (uid) => testEnv.authenticatedContext(uid).firestore();
+    const storage = (uid) => testEnv.authenticatedContext(uid).storage();
+
+    beforeAll(async () => {
+        testEnv = await initializeTestEnvironment({
+            projectId: PROJECT_ID,
+            database: { rules: readRules('database.rules.json') },
+            firestore: { rules: readRules('firestore.rules') },
+            storage: { rules: readRules('storage.rules') },
+        });
+    });
+
+    afterAll(async () => {
+        await testEnv.cleanup();
+    });
+
+    beforeEach(async () => {
+        await Promise.all([testEnv.clearDatabase(), testEnv.clearFirestore(), testEnv.clearStorage()]);
+        await testEnv.withSecurityRulesDisabled((context) => context.database().ref().set(SEED));
+    });
+
+    describe('users', () => {
+        it('lets new users sign up as students or teachers, but not as admins', async () => {
+            const joinedAt = { '.sv': 'timestamp' };
+            await assertSucceeds(database('newcomer').ref('users/newcomer').set({ name: 'New', role: 'student', joined_at: joinedAt }));
+            await assertFails(database('climber').ref('users/climber').set({ name: 'Climber', role: 'admin', joined_at: joinedAt }));
+        });
+
+        it('takes the join time from the database, which welcome emails follow', async () => {
+            await assertFails(database('newcomer').ref('users/newcomer').set({ name: 'New', role: 'student', joined_at: 4102444800000 }));
+            await assertFails(database('student').ref('users/student/joined_at').set(4102444800000));
+        });
+
+        it('only lets admins change roles', async () => {
+            await assertFails(database('student').ref('users/student/role').set('teacher'));
+            await assertSucceeds(database('admin').ref('users/student/role').set('teacher'));
+        });
+
+        it('hides student profiles from other students', async () => {
+            await assertSucceeds(database('student').ref('users/student').get());
+            await assertFails(database('other_student').ref('users/student').get());
+            await assertSucceeds(database('teacher').ref('users/student').get());
+            await assertFails(database('student').ref('users').get());
+        });
+    });
+
+    describe('courses', () => {
+        it('lets teachers create courses they teach', async () => {
+            const course = { title: 'Chemistry', is_archived: false };
+            await assertSucceeds(database('teacher').ref('courses/c2').set({ ...course, instructor_id: 'teacher' }));
+            await assertFails(database('teacher').ref('courses/c3').set({ ...course, instructor_id: 'other_teacher' }));
+            await assertFails(database('student').ref('courses/c4').set({ ...course, instructor_id: 'student' }));
+        });
+
+        it('only lets the instructor change a course', async () => {
+            await assertSucceeds(database('teacher').ref('courses/c1/title').set('Biology I'));
+            await assertFails(database('other_teacher').ref('courses/c1/title').set('Mine now'));
+        });
+    });
+
+    describe('enrollments', () => {
+        it('leaves enrolling to the course teacher, under the course and student key', async () => {
+            const enrollment = { course_id: 'c1', student_id: 'other_student', enrolled_at: '2025-01-06', completed: false };
+            await assertFails(database('other_student').ref('enrollments/c1_other_student').set(enrollment));
+            await assertFails(database('teacher').ref('enrollments/wrong_key').set(enrollment));
+            await assertSucceeds(database('teacher').ref('enrollments/c1_other_student').set(enrollment));
+        });
+
+        it('shows an enrollment to its student and the course teacher only', async () => {
+            await assertSucceeds(database('student').ref('enrollments/c1_student').get());
+            await assertSucceeds(database('teacher').ref('enrollments/c1_student').get());
+            await assertFails(database('other_student').ref('enrollments/c1_student').get());
+        });
+    });
+
+    describe('assignments', () => {
+        it('shows assignments to enrolled students only', async () => {
+            await assertSucceeds(database('student').ref('assignments/a1').get());
+            await assertSucceeds(database('student').ref('assignments').orderByChild('course_id').equalTo('c1').get());
+            await assertFails(database('other_student').ref('assignments/a1').get());
+            await assertFails(database('other_student').ref('assignments').orderByChild('course_id').equalTo('c1').get());
+        });
+
+        it('only lets the course teacher write assignments', async () => {
+            await assertSucceeds(database('teacher').ref('assignments/a1/points').set(20));
+            await assertFails(database('other_teacher').ref('assignments/a1/points').set(20));
+            await assertFails(database('student').ref('assignments/a1/points').set(20));
+        });
+    });
+
+    describe('submissions', () => {
+        it('lets enrolled students hand in their own work', async () => {
+            await assertSucceeds(database('student').ref('submissions/sub2').set(newSubmission('student')));
+            await assertFails(database('student').ref('submissions/sub3').set(newSubmission('other_student')));
+            await assertFails(database('other_student').ref('submissions/sub4').set(newSubmission('other_student')));
+        });
+
+        it('leaves lateness to the database clock and the assignment', async () => {
+            await testEnv.withSecurityRulesDisabled((context) => context.database().ref('assignments/a1/late_after').set(1000));
+            const submission = { ...newSubmission('student'), late_after: 1000 };
+            await assertFails(database('student').ref('submissions/sub2').set({ ...submission, late: false }));
+            await assertFails(database('student').ref('submissions/sub2').set({ ...submission, late_after: Date.now() + 60000 }));
+            await assertSucceeds(database('student').ref('submissions/sub2').set(submission));
+        });
+
+        it('keeps students from grading themselves', async () => {
+            await assertFails(database('student').ref('submissions/sub1').update({ grade: 10 }));
+        });
+
+        it('lets the course teacher grade', async () => {
+            const grade = { grade: 9, feedback: 'Good work', graded_at: '2025-02-01T10:00:00.000Z', graded_version: 1 };
+            await assertSucceeds(database('teacher').ref('submissions/sub1').update(grade));
+            await assertFails(database('other_teacher').ref('submissions/sub1').update(grade));
+        });
+
+        it('shows a submission to its student and the course teacher only', async () => {
+            await assertSucceeds(database('student').ref('submissions/sub1').get());
+            await assertSucceeds(database('teacher').ref('submissions/sub1').get());
+            await assertFails(database('other_student').ref('submissions/sub1').get());
+            await assertFails(database('other_teacher').ref('submissions/sub1').get());
+        });
+    });
+
+    describe('grade overrides', () => {
+        it('shows students their own overrides and not the course’s', async () => {
+            await assertSucceeds(database('student').ref('grade_overrides/c1/student').get());
+            await assertFails(database('student').ref('grade_overrides/c1').get());
+            await assertSucceeds(database('teacher').ref('grade_overrides/c1').get());
+        });
+    });
+
+    describe('notifications', () => {
+        it('lets teachers notify the students of their courses', async () => {
+            await assertSucceeds(
+                database('teacher').ref('notifications/n1').set(notificationFrom('teacher', 'student', { course_id: 'c1' }))
+            );
+            await assertFails(
+                database('teacher').ref('notifications/n2').set(notificationFrom('teacher', 'other_student', { course_id: 'c1' }))
+            );
+        });
+
+        it('takes the send time from the database, which notification emails follow', async () => {
+            const notification = notificationFrom('student', 'student', { sent_at: 4102444800000 });
+            await assertFails(database('student').ref('notifications/n5').set(notification));
+
+            await assertSucceeds(database('student').ref('notifications/n6').set(notificationFrom('student', 'student')));
+            await assertSucceeds(database('student').ref('notifications/n6/read').set(true));
+            await assertFails(database('student').ref('notifications/n6/sent_at').set(4102444800000));
+        });
+
+        it('keeps students from notifying each other', async () => {
+            await assertSucceeds(database('student').ref('notifications/n3').set(notificationFrom('student', 'student')));
+            await assertFails(database('student').ref('notifications/n4').set(notificationFrom('student', 'other_student')));
+        });
+    });
+
+    describe('user_xp', () => {
+        it('leaves awarding XP to the server', async () => {
+            const entry = { user_id: 'student', activity_type: 'quiz_completion', earned_at: '2025-02-01T10:00:00.000Z' };
+            await assertFails(database('student').ref('user_xp/x1').set({ ...entry, xp_amount: 50 }));
+            await assertFails(database('student').ref('quiz_attempts/a1').set({ quiz_id: 'q1', user_id: 'student', xp_awarded: 50 }));
+            await assertFails(database('student').ref('quiz_xp_days/student/2025-02-01').set(0));
+        });
+    });
+
+    describe('forum', () => {
+        it('only lets course members post', async () => {
+            await assertSucceeds(database('student').ref('forum_threads/t3').set(newThread('student')));
+            await assertFails(database('other_student').ref('forum_threads/t4').set(newThread('other_student')));
+            const comment = {
+                thread_id: 't1', course_id: 'c1', content: 'Me too', status: 'visible', visible_in: 't1', created_at: '2025-02-01T10:00:00.000Z',
+            };
+            await assertSucceeds(database('student').ref('forum_comments/k1').set({ ...comment, author_id: 'student' }));
+            await assertFails(database('other_student').ref('forum_comments/k2').set({ ...comment, author_id: 'other_student' }));
+        });
+
+        it('keeps hidden threads from students', async () => {
+            await assertSucceeds(database('student').ref('forum_threads').orderByChild('visible_in').equalTo('c1').get());
+            await assertFails(database('student').ref('forum_threads').orderByChild('course_id').equalTo('c1').get());
+            await assertSucceeds(database('student').ref('forum_threads/t1').get());
+            await assertFails(database('student').ref('forum_threads/t2').get());
+            await assertSucceeds(database('teacher').ref('forum_threads').orderByChild('course_id').equalTo('c1').get());
+        });
+
+        it('takes a hidden thread out of the students\' list', async () => {
+            await assertFails(database('teacher').ref('forum_threads/t1/status').set('hidden'));
+            await assertSucceeds(database('teacher').ref('forum_threads/t1').update({ status: 'hidden', visible_in: null }));
+        });
+
+        it('only takes reports on posts of the reporter\'s course', async () => {
+            await assertSucceeds(database('student').ref('forum_reports/t1_student').set(reportOf('student')));
+            await assertFails(database('other_student').ref('forum_reports/t1_other_student').set(reportOf('other_student')));
+            await assertFails(
+                database('student').ref('forum_reports/t1_student').set(reportOf('student', { target_author_id: 'other_student' }))
+            );
+            await assertFails(database('student').ref('forum_reports/t1_student').set(reportOf('student', { course_id: 'c2' })));
+        });
+    });
+
+    describe('access code claims', () => {
+        it('lets each code be claimed once', async () => {
+            await assertSucceeds(database('teacher').ref('access_code_claims/ABC234').set('teacher'));
+            await assertFails(database('other_teacher').ref('access_code_claims/ABC234').set('other_teacher'));
+            await assertFails(database('student').ref('access_code_claims/XYZ789').set('student'));
+        });
+    });
+
+    describe('server-only records', () => {
+        it('keeps clients out of the mail cursors', async () => {
+            await assertFails(database('admin').ref('mail_events').get());
+            await assertFails(database('admin').ref('mail_events/digest_week').set('2025-02-03'));
+        });
+    });
+
+    describe('firestore', () => {
+        it('keeps study plans private to their owner', async () => {
+            const plan = { title: 'Finals', start_date: '2025-05-01', end_date: '2025-05-14', is_ai_generated: false };
+            await assertSucceeds(firestore('student').doc('study_plans/p1').set({ ...plan, user_id: 'student' }));
+            await assertFails(firestore('student').doc('study_plans/p2').set({ ...plan, user_id: 'other_student' }));
+            await assertSucceeds(firestore('student').doc('study_plans/p1').get());
+            await assertFails(firestore('other_student').doc('study_plans/p1').get());
+        });
+
+        it('keeps calendar feeds private to their owner', async () => {
+            await assertSucceeds(firestore('student').doc('calendar_feeds/student').set({ token: 'secret' }));
+            await assertFails(firestore('other_student').doc('calendar_feeds/student').get());
+        });
+
+        it('keeps clients out of the storage access copy', async () => {
+            await assertFails(firestore('teacher').doc('storage_roles/teacher').get());
+            await assertFails(firestore('student').doc('storage_courses/c1').set({ instructor_id: 'student' }));
+        });
+    });
+
+    describe('storage', () => {
+        const file = new Uint8Array([37, 80, 68, 70]);
+        const upload = (ref, contentType, uploadedBy, metadata = {}) =>
+            ref.put(file, { contentType, customMetadata: { uploaded_by: uploadedBy, ...metadata } }).then(() => null);
+
+        // The copy server/storage-access.cjs keeps of the database
+        beforeEach(async () => {
+            await testEnv.withSecurityRulesDisabled(async (context) => {
+                const db = context.firestore();
+                await Promise.all([
+                    db.doc('storage_courses/c1').set({ instructor_id: 'teacher', students: { student: true } }),
+                    db.doc('storage_assignments/a1').set({
+                        course_id: 'c1',
+                        attachments: { max_bytes: 1024, extensions: ['pdf', 'png'] },
+                    }),
+                    db.doc('storage_assignments/a2').set({ course_id: 'c1', attachments: null }),
+                    db.doc('storage_roles/teacher').set({ role: 'teacher' }),
+                ]);
+            });
+        });
+
+        it('lets enrolled students upload their own submissions', async () => {
+            const path = 'submissions/a1/student/essay.pdf';
+            await assertSucceeds(upload(storage('student').ref(path), 'application/pdf', 'student'));
+            await assertFails(upload(storage('student').ref(path), 'application/x-msdownload', 'student'));
+            await assertFails(upload(storage('student').ref('submissions/a1/other_student/essay.pdf'), 'application/pdf', 'student'));
+            await assertFails(
+                upload(storage('other_student').ref('submissions/a1/other_student/essay.pdf'), 'application/pdf', 'other_student')
+            );
+        });
+
+        it("holds submitted files to the assignment's own limits", async () => {
+            await assertFails(upload(storage('student').ref('submissions/a1/student/notes.txt'), 'text/plain', 'student'));
+            await assertFails(upload(storage('student').ref('submissions/a2/student/essay.pdf'), 'application/pdf', 'student'));
+            const large = new Uint8Array(2048);
+            await assertFails(
+                storage('student').ref('submissions/a1/student/big.pdf')
+                    .put(large, { contentType: 'application/pdf', customMetadata: { uploaded_by: 'student' } })
+                    .then(() => null)
+            );
+        });
+
+        it('leaves recording scan results to the server', async () => {
+            await assertFails(
+                upload(storage('student').ref('submissions/a1/student/essay.pdf'), 'application/pdf', 'student', { scan_status: 'clean' })
+            );
+        });
+
+        it('shows submitted files to the course teacher, not to classmates', async () => {
+            const path = 'submissions/a1/student/essay.pdf';
+            await testEnv.withSecurityRulesDisabled((context) =>
+                upload(context.storage().ref(path), 'application/pdf', 'student')
+            );
+            await assertSucceeds(storage('teacher').ref(path).getMetadata());
+            await assertFails(storage('other_teacher').ref(path).getMetadata());
+            await assertFails(storage('other_student').ref(path).getMetadata());
+        });
+    });
+});
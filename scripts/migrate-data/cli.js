@@ -0,0 +1,203 @@
+#!/usr/bin/env node
+import { parseArgs } from 'util';
+import { COLLECTIONS, COLLECTION_NAMES } from './schema.js';
+import { firebaseConnection, readFirestoreCollection, readRealtimeCollection } from './firebase-rest.js';
+import {
+    createSnapshot,
+    dropOrphans,
+    formatIssue,
+    normalizeSnapshot,
+    readSnapshot,
+    validateSnapshot,
+    writeSnapshot,
+} from './snapshot.js';
+import { TARGET_NAMES, createTarget } from './targets.js';
+
+const USAGE = `Usage: npm run migrate-data -- <command> [options]
+
+Commands:
+  export [--out FILE]           Read every collection into a JSON snapshot
+  normalize SNAPSHOT [--out FILE]
+                                Rename legacy fields to those in src/lib/types.ts
+                                and rekey enrollments, join requests and quiz
+                                attempts by course or quiz and student
+  validate SNAPSHOT             Report missing fields and dangling references;
+                                exits with 1 when there are any
+  import SNAPSHOT --to TARGET   Write a snapshot to ${TARGET_NAMES.join(', ')}
+
+Options:
+  --collections a,b    Only these collections (${COLLECTION_NAMES.join(', ')})
+  --production         Use the live project instead of the Firebase emulators;
+                       needs FIREBASE_ACCESS_TOKEN
+  --project ID         Firebase project id
+  --drop-orphans       import: leave out records with dangling references
+                       instead of refusing to import
+  --merge              import: write into collections that already hold data
+  --dry-run            import: show what would be written
+
+Emulator hosts come from FIREBASE_DATABASE_EMULATOR_HOST and
+FIRESTORE_EMULATOR_HOST (localhost:9000 and localhost:8085 by default). The
+supabase target needs SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY; Firebase ids
+are mapped to stable UUIDs and profiles must match existing auth users.`;
+
+const { values: options, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+        out: { type: 'string' },
+        to: { type: 'string' },
+        collections: { type: 'string' },
+        production: { type: 'boolean', default: false },
+        project: { type: 'string' },
+        'drop-orphans': { type: 'boolean', default: false },
+        merge: { type: 'boolean', default: false },
+        'dry-run': { type: 'boolean', default: false },
+        help: { type: 'boolean', short: 'h', default: false },
+    },
+});
+
+const [command, snapshotFile] = positionals;
+
+const selectedCollections = () => {
+    if (!options.collections) return COLLECTION_NAMES;
+    const names = options.collections.split(',').map((name) => name.trim());
+    const unknown = names.filter((name) => !COLLECTIONS[name]);
+    if (unknown.length > 0) {
+        throw new Error(`Unknown collections: ${unknown.join(', ')}`);
+    }
+    return names;
+};
+
+const connection = () =>
+    firebaseConnection({
+        projectId: options.project,
+        production: options.production,
+        token: process.env.FIREBASE_ACCESS_TOKEN,
+    });
+
+const requireSnapshot = () => {
+    if (!snapshotFile) {
+        throw new Error(`${command} needs a snapshot file`);
+    }
+    const snapshot = readSnapshot(snapshotFile);
+    const names = selectedCollections();
+    return {
+        ...snapshot,
+        collections: Object.fromEntries(
+            Object.entries(snapshot.collections).filter(([name]) => names.includes(name))
+        ),
+    };
+};
+
+const printIssues = (issues) => {
+    issues.forEach((issue) => console.log(`  ${formatIssue(issue)}`));
+};
+
+async function exportCommand() {
+    const firebase = connection();
+    const collections = {};
+    for (const name of selectedCollections()) {
+        const { store, path } = COLLECTIONS[name];
+        collections[name] =
+            store === 'rtdb' ? await readRealtimeCollection(firebase, path) : await readFirestoreCollection(firebase, path);
+        console.log(`${name}: ${collections[name].length} records`);
+    }
+
+    const out = options.out || `snapshot-${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
+    writeSnapshot(out, createSnapshot({ project: firebase.projectId, emulator: !firebase.production }, collections));
+    console.log(`Wrote ${out}`);
+}
+
+function normalizeCommand() {
+    const { snapshot, renamed } = normalizeSnapshot(requireSnapshot());
+    Object.entries(renamed).forEach(([rename, count]) => console.log(`${rename}: ${count}`));
+    if (Object.keys(renamed).length === 0) {
+        console.log('Nothing to rename');
+    }
+    const out = options.out || snapshotFile.replace(/\.json$/, '') + '.normalized.json';
+    writeSnapshot(out, snapshot);
+    console.log(`Wrote ${out}`);
+}
+
+function validateCommand() {
+    const { snapshot } = normalizeSnapshot(requireSnapshot());
+    const issues = validateSnapshot(snapshot);
+    if (issues.length === 0) {
+        console.log('No issues found');
+        return;
+    }
+    console.log(`${issues.length} issues:`);
+    printIssues(issues);
+    process.exitCode = 1;
+}
+
+async function importCommand() {
+    if (!options.to) {
+        throw new Error(`import needs --to ${TARGET_NAMES.join('|')}`);
+    }
+    const target = createTarget(options.to, {
+        connection: connection(),
+        supabase: { url: process.env.SUPABASE_URL, serviceRoleKey: process.env.SUPABASE_SERVICE_ROLE_KEY },
+    });
+
+    let { snapshot } = normalizeSnapshot(requireSnapshot());
+    const missingFields = validateSnapshot(snapshot).filter((issue) => issue.type === 'missing_field');
+    if (missingFields.length > 0) {
+        console.log(`Records with missing fields are imported as they are (${missingFields.length}):`);
+        printIssues(missingFields);
+    }
+
+    const orphans = validateSnapshot(snapshot).filter((issue) => issue.type === 'orphan');
+    if (orphans.length > 0 && !options['drop-orphans']) {
+        console.log(`${orphans.length} records have dangling references:`);
+        printIssues(orphans);
+        throw new Error('Refusing to import; fix the data or pass --drop-orphans');
+    }
+    if (orphans.length > 0) {
+        const result = dropOrphans(snapshot);
+        snapshot = result.snapshot;
+        console.log(`Leaving out ${result.dropped.length} orphaned records:`);
+        printIssues(result.dropped);
+    }
+
+    (target.unsupported?.(snapshot) || []).forEach((name) => console.log(`${name}: no table in ${target.label}, skipped`));
+
+    const writes = target.plan(snapshot).filter((write) => write.records.length > 0);
+    if (!options.merge && !options['dry-run']) {
+        const occupied = [];
+        for (const write of writes) {
+            if (!(await target.isEmpty(write))) occupied.push(write.destination);
+        }
+        if (occupied.length > 0) {
+            throw new Error(`${occupied.join(', ')} already hold data in ${target.label}; pass --merge to write anyway`);
+        }
+    }
+
+    for (const write of writes) {
+        if (options['dry-run']) {
+            console.log(`Would write ${write.records.length} ${write.name} records to ${write.destination}`);
+            continue;
+        }
+        await target.write(write);
+        console.log(`Wrote ${write.records.length} ${write.name} records to ${write.destination}`);
+    }
+    console.log(options['dry-run'] ? `Dry run against ${target.label}; nothing written` : `Imported into ${target.label}`);
+}
+
+const COMMANDS = {
+    export: exportCommand,
+    normalize: normalizeCommand,
+    validate: validateCommand,
+    import: importCommand,
+};
+
+if (options.help || !COMMANDS[command]) {
+    console.log(USAGE);
+    process.exitCode = options.help ? 0 : 1;
+} else {
+    try {
+        await COMMANDS[command]();
+    } catch (error) {
+        console.error(`Error: ${error.message}`);
+        process.exitCode = 1;
+    }
+}
@@ -0,0 +1,137 @@
+// Talks to the Realtime Database and Firestore over their REST APIs, so the
+// tool needs no service account SDK. Against the emulators the "owner" token
+// bypasses security rules; in production pass an OAuth access token, e.g. from
+// `gcloud auth print-access-token`.
+
+const DEFAULT_PROJECT_ID = 'educonnect-66985';
+const PRODUCTION_DATABASE_URL = 'https://educonnect-66985-default-rtdb.asia-southeast1.firebasedatabase.app';
+const FIRESTORE_BATCH_SIZE = 500;
+const FIRESTORE_PAGE_SIZE = 300;
+const RTDB_BATCH_SIZE = 500;
+
+export function firebaseConnection({ projectId = DEFAULT_PROJECT_ID, production = false, token } = {}) {
+    if (production && !token) {
+        throw new Error('FIREBASE_ACCESS_TOKEN is required outside the emulators');
+    }
+
+    const databaseHost = process.env.FIREBASE_DATABASE_EMULATOR_HOST || 'localhost:9000';
+    const firestoreHost = process.env.FIRESTORE_EMULATOR_HOST || 'localhost:8085';
+
+    return {
+        projectId,
+        production,
+        headers: { Authorization: `Bearer ${production ? token : 'owner'}`, 'Content-Type': 'application/json' },
+        // The emulator serves every database from one host, picked with ?ns=
+        databaseUrl: (path) =>
+            production
+                ? `${PRODUCTION_DATABASE_URL}/${path}.json`
+                : `http://${databaseHost}/${path}.json?ns=${projectId}-default-rtdb`,
+        firestoreUrl: (path) =>
+            `${production ? 'https://firestore.googleapis.com' : `http://${firestoreHost}`}/v1/projects/${projectId}/databases/(default)/${path}`,
+    };
+}
+
+async function request(connection, url, init = {}) {
+    const response = await fetch(url, { ...init, headers: connection.headers });
+    if (!response.ok) {
+        const body = await response.text();
+        throw new Error(`${init.method || 'GET'} ${url} failed with ${response.status}: ${body.slice(0, 300)}`);
+    }
+    return response.json();
+}
+
+const chunk = (values, size) =>
+    Array.from({ length: Math.ceil(values.length / size) }, (_, index) => values.slice(index * size, (index + 1) * size));
+
+// Realtime Database
+
+export async function readRealtimeCollection(connection, path) {
+    const value = await request(connection, connection.databaseUrl(path));
+    return Object.entries(value || {})
+        .filter(([, record]) => record && typeof record === 'object')
+        .map(([id, record]) => ({ ...record, id }));
+}
+
+export async function isRealtimeCollectionEmpty(connection, path) {
+    const url = connection.databaseUrl(path);
+    const value = await request(connection, `${url}${url.includes('?') ? '&' : '?'}shallow=true`);
+    return !value || Object.keys(value).length === 0;
+}
+
+// Multi-location PATCH, so existing records that are not in the snapshot stay
+export async function writeRealtimeCollection(connection, path, records, { keepId = true } = {}) {
+    for (const batch of chunk(records, RTDB_BATCH_SIZE)) {
+        const updates = Object.fromEntries(
+            batch.map(({ id, ...record }) => [id, keepId ? { ...record, id } : record])
+        );
+        await request(connection, connection.databaseUrl(path), { method: 'PATCH', body: JSON.stringify(updates) });
+    }
+}
+
+// Firestore values are tagged with their type
+
+const decodeValue = (value) => {
+    if ('nullValue' in value) return null;
+    if ('booleanValue' in value) return value.booleanValue;
+    if ('integerValue' in value) return Number(value.integerValue);
+    if ('doubleValue' in value) return value.doubleValue;
+    if ('timestampValue' in value) return value.timestampValue;
+    if ('stringValue' in value) return value.stringValue;
+    if ('referenceValue' in value) return value.referenceValue;
+    if ('arrayValue' in value) return (value.arrayValue.values || []).map(decodeValue);
+    if ('mapValue' in value) return decodeFields(value.mapValue.fields || {});
+    throw new Error(`Unsupported Firestore value: ${Object.keys(value).join(', ')}`);
+};
+
+const decodeFields = (fields) =>
+    Object.fromEntries(Object.entries(fields).map(([key, value]) => [key, decodeValue(value)]));
+
+const encodeValue = (value) => {
+    if (value === null || value === undefined) return { nullValue: null };
+    if (typeof value === 'boolean') return { booleanValue: value };
+    if (typeof value === 'number') {
+        return Number.isInteger(value) ? { integerValue: String(value) } : { doubleValue: value };
+    }
+    if (typeof value === 'string') return { stringValue: value };
+    if (Array.isArray(value)) return { arrayValue: { values: value.map(encodeValue) } };
+    return { mapValue: { fields: encodeFields(value) } };
+};
+
+const encodeFields = (record) =>
+    Object.fromEntries(
+        Object.entries(record)
+            .filter(([, value]) => value !== undefined)
+            .map(([key, value]) => [key, encodeValue(value)])
+    );
+
+export async function readFirestoreCollection(connection, path) {
+    const records = [];
+    let pageToken = '';
+    do {
+        const query = `pageSize=${FIRESTORE_PAGE_SIZE}${pageToken ? `&pageToken=${encodeURIComponent(pageToken)}` : ''}`;
+        const page = await request(connection, connection.firestoreUrl(`documents/${path}?${query}`));
+        (page.documents || []).forEach((document) => {
+            records.push({ ...decodeFields(document.fields || {}), id: document.name.split('/').pop() });
+        });
+        pageToken = page.nextPageToken || '';
+    } while (pageToken);
+    return records;
+}
+
+export async function isFirestoreCollectionEmpty(connection, path) {
+    const page = await request(connection, connection.firestoreUrl(`documents/${path}?pageSize=1`));
+    return !page.documents || page.documents.length === 0;
+}
+
+export async function writeFirestoreCollection(connection, path, records) {
+    const prefix = `projects/${connection.projectId}/databases/(default)/documents/${path}`;
+    for (const batch of chunk(records, FIRESTORE_BATCH_SIZE)) {
+        const writes = batch.map(({ id, ...record }) => ({
+            update: { name: `${prefix}/${id}`, fields: encodeFields({ ...record, id }) },
+        }));
+        await request(connection, connection.firestoreUrl('documents:commit'), {
+            method: 'POST',
+            body: JSON.stringify({ writes }),
+        });
+    }
+}
@@ -0,0 +1,141 @@
+// What the migration tool knows about each collection: where it lives today,
+// the legacy field names to rewrite to the canonical ones in src/lib/types.ts,
+// the fields every record needs and the records it points at.
+
+export const SNAPSHOT_FORMAT = 'educonnect-snapshot';
+export const SNAPSHOT_VERSION = 1;
+
+// `path` is the Realtime Database path or Firestore collection the data is read
+// from. AI-generated courses share the `courses` name in Firestore, so the
+// snapshot calls them `ai_courses`. `key` lists the fields a record's id is
+// built from, for collections the database rules look records up in by id.
+// `keepId: false` marks records that are written back without an `id` field:
+// users, which never stored one, and records keyed by their parent (a course,
+// an assignment or a user) that hold a map of child records or settings.
+// Left out are join_attempts and check_in_attempts, which only count recent
+// attempts, quiz_xp_days, which only counts XP per day, and access_code_claims,
+// whose entries are bare user ids rather than records.
+export const COLLECTIONS = {
+    users: { store: 'rtdb', path: 'users', required: ['name', 'role'], keepId: false },
+    moderator_assignments: { store: 'rtdb', path: 'moderator_assignments', required: [], keepId: false },
+    system_settings: { store: 'rtdb', path: 'system_settings', required: [], keepId: false },
+    notification_preferences: { store: 'rtdb', path: 'notification_preferences', required: [], keepId: false },
+    courses: { store: 'rtdb', path: 'courses', required: ['title', 'instructor_id'] },
+    access_codes: { store: 'rtdb', path: 'access_codes', required: ['code', 'course_id'] },
+    join_requests: {
+        store: 'rtdb',
+        path: 'join_requests',
+        required: ['course_id', 'student_id', 'status'],
+        key: ['course_id', 'student_id'],
+    },
+    enrollments: {
+        store: 'rtdb',
+        path: 'enrollments',
+        renames: { user_id: 'student_id' },
+        required: ['course_id', 'student_id'],
+        key: ['course_id', 'student_id'],
+    },
+    assignments: { store: 'rtdb', path: 'assignments', required: ['course_id', 'title'] },
+    // Hidden test cases of coding assignments, keyed by assignment
+    coding_tests: { store: 'rtdb', path: 'coding_tests', required: [], keepId: false },
+    submissions: {
+        store: 'rtdb',
+        path: 'submissions',
+        renames: { student_id: 'user_id' },
+        required: ['assignment_id', 'user_id'],
+    },
+    code_submissions: { store: 'rtdb', path: 'code_submissions', required: ['assignment_id', 'user_id'] },
+    ai_content_checks: { store: 'rtdb', path: 'ai_content_checks', required: ['submission_id'] },
+    rubrics: { store: 'rtdb', path: 'rubrics', required: ['teacher_id', 'title'] },
+    // Settings and per-student overrides, keyed by course
+    gradebooks: { store: 'rtdb', path: 'gradebooks', required: [], keepId: false },
+    grade_overrides: { store: 'rtdb', path: 'grade_overrides', required: [], keepId: false },
+    attendance: {
+        store: 'rtdb',
+        path: 'attendance',
+        renames: { course_id: 'courseId' },
+        required: ['courseId', 'student_id', 'date', 'status'],
+    },
+    attendance_sessions: {
+        store: 'rtdb',
+        path: 'attendance_sessions',
+        required: ['course_id', 'teacher_id', 'date', 'status'],
+    },
+    // Check-in codes of attendance sessions, keyed by session
+    attendance_session_tokens: { store: 'rtdb', path: 'attendance_session_tokens', required: ['course_id'] },
+    attendance_policies: { store: 'rtdb', path: 'attendance_policies', required: [], keepId: false },
+    attendance_alerts: { store: 'rtdb', path: 'attendance_alerts', required: [], keepId: false },
+    notifications: { store: 'rtdb', path: 'notifications', required: ['user_id', 'title'] },
+    teacher_connections: { store: 'rtdb', path: 'teacher_connections', required: ['teacher_id', 'student_id'] },
+    // Practice quizzes students generate for themselves, and the XP they earn
+    quizzes: { store: 'rtdb', path: 'quizzes', required: ['user_id'] },
+    quiz_attempts: { store: 'rtdb', path: 'quiz_attempts', required: ['quiz_id', 'user_id'] },
+    user_xp: { store: 'rtdb', path: 'user_xp', required: ['user_id', 'xp_amount'] },
+    // Teachers' question banks, keyed by course, and the quizzes built from them
+    question_banks: { store: 'rtdb', path: 'question_banks', required: [], keepId: false },
+    course_quizzes: { store: 'rtdb', path: 'course_quizzes', required: ['course_id', 'assignment_id', 'title'] },
+    course_quiz_attempts: {
+        store: 'rtdb',
+        path: 'course_quiz_attempts',
+        required: ['quiz_id', 'course_id', 'user_id', 'status'],
+        key: ['quiz_id', 'user_id'],
+    },
+    forum_threads: { store: 'rtdb', path: 'forum_threads', required: ['course_id', 'author_id', 'title'] },
+    forum_comments: { store: 'rtdb', path: 'forum_comments', required: ['thread_id', 'course_id', 'author_id'] },
+    forum_reports: { store: 'rtdb', path: 'forum_reports', required: ['course_id', 'target_id', 'reporter_id'] },
+    // Muted users, keyed by course
+    forum_mutes: { store: 'rtdb', path: 'forum_mutes', required: [], keepId: false },
+    user_sanctions: { store: 'rtdb', path: 'user_sanctions', required: ['user_id', 'course_id', 'type'] },
+    moderation_log: { store: 'rtdb', path: 'moderation_log', required: ['course_id', 'moderator_id', 'action'] },
+    ai_generated_courses: { store: 'rtdb', path: 'ai_generated_courses', required: [] },
+    study_plans: { store: 'firestore', path: 'study_plans', required: ['user_id'] },
+    study_plan_items: {
+        store: 'firestore',
+        path: 'study_plan_items',
+        required: ['study_plan_id', 'user_id', 'due_date'],
+    },
+    ai_courses: { store: 'firestore', path: 'courses', required: ['title'] },
+};
+
+// A record whose reference is missing is an orphan; --drop-orphans leaves it
+// out of the import
+export const REFERENCES = [
+    { collection: 'access_codes', field: 'course_id', target: 'courses' },
+    { collection: 'enrollments', field: 'course_id', target: 'courses' },
+    { collection: 'enrollments', field: 'student_id', target: 'users' },
+    { collection: 'assignments', field: 'course_id', target: 'courses' },
+    { collection: 'coding_tests', field: 'id', target: 'assignments' },
+    { collection: 'submissions', field: 'assignment_id', target: 'assignments' },
+    { collection: 'submissions', field: 'user_id', target: 'users' },
+    { collection: 'attendance', field: 'courseId', target: 'courses' },
+    { collection: 'attendance', field: 'student_id', target: 'users' },
+    { collection: 'teacher_connections', field: 'teacher_id', target: 'users' },
+    { collection: 'teacher_connections', field: 'student_id', target: 'users' },
+    { collection: 'join_requests', field: 'course_id', target: 'courses' },
+    { collection: 'join_requests', field: 'student_id', target: 'users' },
+    { collection: 'code_submissions', field: 'assignment_id', target: 'assignments' },
+    { collection: 'code_submissions', field: 'user_id', target: 'users' },
+    { collection: 'ai_content_checks', field: 'submission_id', target: 'submissions' },
+    { collection: 'gradebooks', field: 'id', target: 'courses' },
+    { collection: 'grade_overrides', field: 'id', target: 'courses' },
+    { collection: 'attendance_sessions', field: 'course_id', target: 'courses' },
+    { collection: 'attendance_session_tokens', field: 'id', target: 'attendance_sessions' },
+    { collection: 'attendance_policies', field: 'id', target: 'courses' },
+    { collection: 'attendance_alerts', field: 'id', target: 'courses' },
+    { collection: 'notifications', field: 'user_id', target: 'users' },
+    { collection: 'quiz_attempts', field: 'quiz_id', target: 'quizzes' },
+    { collection: 'question_banks', field: 'id', target: 'courses' },
+    { collection: 'course_quizzes', field: 'course_id', target: 'courses' },
+    { collection: 'course_quizzes', field: 'assignment_id', target: 'assignments' },
+    { collection: 'course_quiz_attempts', field: 'quiz_id', target: 'course_quizzes' },
+    { collection: 'course_quiz_attempts', field: 'user_id', target: 'users' },
+    { collection: 'forum_threads', field: 'course_id', target: 'courses' },
+    { collection: 'forum_comments', field: 'thread_id', target: 'forum_threads' },
+    { collection: 'forum_reports', field: 'course_id', target: 'courses' },
+    { collection: 'forum_mutes', field: 'id', target: 'courses' },
+    { collection: 'user_sanctions', field: 'user_id', target: 'users' },
+    { collection: 'moderation_log', field: 'course_id', target: 'courses' },
+    { collection: 'study_plan_items', field: 'study_plan_id', target: 'study_plans' },
+];
+
+export const COLLECTION_NAMES = Object.keys(COLLECTIONS);
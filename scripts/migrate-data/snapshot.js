@@ -0,0 +1,138 @@
+import fs from 'fs';
+import { COLLECTIONS, REFERENCES, SNAPSHOT_FORMAT, SNAPSHOT_VERSION } from './schema.js';
+
+export function createSnapshot(source, collections) {
+    return {
+        format: SNAPSHOT_FORMAT,
+        version: SNAPSHOT_VERSION,
+        exported_at: new Date().toISOString(),
+        source,
+        normalized: false,
+        collections,
+    };
+}
+
+export function readSnapshot(file) {
+    const snapshot = JSON.parse(fs.readFileSync(file, 'utf8'));
+    if (snapshot.format !== SNAPSHOT_FORMAT) {
+        throw new Error(`${file} is not a data snapshot`);
+    }
+    if (snapshot.version > SNAPSHOT_VERSION) {
+        throw new Error(`${file} is snapshot version ${snapshot.version}; this tool reads up to ${SNAPSHOT_VERSION}`);
+    }
+    return snapshot;
+}
+
+export function writeSnapshot(file, snapshot) {
+    fs.writeFileSync(file, JSON.stringify(snapshot, null, 2) + '\n');
+}
+
+// Rewrites legacy field names to the canonical ones. A legacy field is only
+// moved when the canonical one is absent; if both exist the legacy one is
+// dropped. Records of keyed collections get the id built from their key
+// fields, keeping the first of any records that end up with the same id.
+// Returns the new snapshot and how many fields were renamed.
+export function normalizeSnapshot(snapshot) {
+    const renamed = {};
+    const count = (change) => {
+        renamed[change] = (renamed[change] || 0) + 1;
+    };
+    const collections = Object.fromEntries(
+        Object.entries(snapshot.collections).map(([name, records]) => {
+            const renames = Object.entries(COLLECTIONS[name]?.renames || {});
+            const key = COLLECTIONS[name]?.key;
+            const renamedRecords = records.map((record) => {
+                const normalized = { ...record };
+                renames.forEach(([legacy, canonical]) => {
+                    if (!(legacy in normalized)) return;
+                    if (normalized[canonical] === undefined) {
+                        normalized[canonical] = normalized[legacy];
+                        count(`${name}.${legacy} -> ${canonical}`);
+                    }
+                    delete normalized[legacy];
+                });
+                return normalized;
+            });
+            if (!key) return [name, renamedRecords];
+
+            const byId = new Map();
+            renamedRecords.forEach((record) => {
+                const id = key.every((field) => record[field]) ? key.map((field) => record[field]).join('_') : record.id;
+                if (id !== record.id) count(`${name}.id -> ${key.join('_')}`);
+                if (byId.has(id)) {
+                    count(`${name} duplicates dropped`);
+                    return;
+                }
+                byId.set(id, { ...record, id });
+            });
+            return [name, [...byId.values()]];
+        })
+    );
+    return {
+        snapshot: { ...snapshot, normalized: true, collections },
+        renamed,
+    };
+}
+
+// Missing required fields and dangling references. Expects a normalized snapshot.
+export function validateSnapshot(snapshot) {
+    const issues = [];
+    const ids = Object.fromEntries(
+        Object.entries(snapshot.collections).map(([name, records]) => [name, new Set(records.map((record) => record.id))])
+    );
+
+    Object.entries(snapshot.collections).forEach(([name, records]) => {
+        const required = COLLECTIONS[name]?.required || [];
+        records.forEach((record) => {
+            required
+                .filter((field) => record[field] === undefined || record[field] === null || record[field] === '')
+                .forEach((field) => {
+                    issues.push({ type: 'missing_field', collection: name, id: record.id, field });
+                });
+        });
+    });
+
+    REFERENCES.forEach(({ collection, field, target }) => {
+        // A reference into a collection that was not exported cannot be checked
+        if (!snapshot.collections[collection] || !ids[target]) return;
+        snapshot.collections[collection].forEach((record) => {
+            const value = record[field];
+            if (value !== undefined && value !== null && value !== '' && !ids[target].has(value)) {
+                issues.push({ type: 'orphan', collection, id: record.id, field, value, target });
+            }
+        });
+    });
+
+    return issues;
+}
+
+// Dropping a record can orphan the records pointing at it (a submission for an
+// assignment of a deleted course), so this repeats until nothing changes
+export function dropOrphans(snapshot) {
+    let current = snapshot;
+    const dropped = [];
+    for (;;) {
+        const orphans = validateSnapshot(current).filter((issue) => issue.type === 'orphan');
+        if (orphans.length === 0) {
+            return { snapshot: current, dropped };
+        }
+        const orphanKeys = new Set(orphans.map((issue) => `${issue.collection}/${issue.id}`));
+        dropped.push(...orphans);
+        current = {
+            ...current,
+            collections: Object.fromEntries(
+                Object.entries(current.collections).map(([name, records]) => [
+                    name,
+                    records.filter((record) => !orphanKeys.has(`${name}/${record.id}`)),
+                ])
+            ),
+        };
+    }
+}
+
+export function formatIssue(issue) {
+    if (issue.type === 'missing_field') {
+        return `${issue.collection}/${issue.id}: missing ${issue.field}`;
+    }
+    return `${issue.collection}/${issue.id}: ${issue.field} ${issue.value} not found in ${issue.target}`;
+}
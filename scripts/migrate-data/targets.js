@@ -0,0 +1,188 @@
+import { createClient } from '@supabase/supabase-js';
+import { v5 as uuidv5, validate as isUuid } from 'uuid';
+import {
+    isFirestoreCollectionEmpty,
+    isRealtimeCollectionEmpty,
+    writeFirestoreCollection,
+    writeRealtimeCollection,
+} from './firebase-rest.js';
+import { COLLECTIONS } from './schema.js';
+
+// Each target turns a normalized snapshot into a list of writes, one per
+// destination table or collection, so an import can be previewed with
+// --dry-run and checked for existing data before anything is written.
+
+const SUPABASE_BATCH_SIZE = 500;
+
+// Firebase keys are not UUIDs; the same key always maps to the same UUID so
+// references stay intact and re-running an import updates rather than duplicates
+const ID_NAMESPACE = '6f1d3c7e-2b4a-5e8f-9c0d-1a2b3c4d5e6f';
+const toUuid = (id) => (id === undefined || id === null || isUuid(id) ? id ?? null : uuidv5(String(id), ID_NAMESPACE));
+
+const valueOrNull = (value) => (value === undefined ? null : value);
+
+// Submission times are milliseconds in Firebase, or ISO strings in older data
+const timestampOrNull = (value) => (typeof value === 'number' ? new Date(value).toISOString() : valueOrNull(value));
+
+// Columns from src/integrations/supabase/types.ts
+const SUPABASE_TABLES = {
+    users: {
+        table: 'profiles',
+        row: (user) => ({
+            id: toUuid(user.id),
+            name: valueOrNull(user.name),
+            role: valueOrNull(user.role),
+            avatar_url: user.avatar || null,
+            created_at: user.created_at || user.createdAt || timestampOrNull(user.joined_at),
+        }),
+    },
+    courses: {
+        table: 'courses',
+        row: (course) => ({
+            id: toUuid(course.id),
+            title: course.title,
+            description: valueOrNull(course.description),
+            instructor_id: toUuid(course.instructor_id),
+            category: valueOrNull(course.category),
+            prerequisites: valueOrNull(course.prerequisites),
+            is_archived: !!course.is_archived,
+            created_at: valueOrNull(course.created_at),
+            updated_at: valueOrNull(course.updated_at),
+        }),
+    },
+    enrollments: {
+        table: 'enrollments',
+        row: (enrollment) => ({
+            id: toUuid(enrollment.id),
+            course_id: toUuid(enrollment.course_id),
+            user_id: toUuid(enrollment.student_id),
+            enrolled_at: valueOrNull(enrollment.enrolled_at),
+            completed: !!enrollment.completed,
+            completion_date: valueOrNull(enrollment.completion_date),
+        }),
+    },
+    assignments: {
+        table: 'assignments',
+        row: (assignment) => ({
+            id: toUuid(assignment.id),
+            course_id: toUuid(assignment.course_id),
+            title: assignment.title,
+            description: valueOrNull(assignment.description),
+            due_date: valueOrNull(assignment.due_date),
+            points: valueOrNull(assignment.points),
+            created_at: valueOrNull(assignment.created_at),
+        }),
+    },
+    submissions: {
+        table: 'submissions',
+        row: (submission) => ({
+            id: toUuid(submission.id),
+            assignment_id: toUuid(submission.assignment_id),
+            user_id: toUuid(submission.user_id),
+            content: valueOrNull(submission.content),
+            file_url: valueOrNull(submission.file_url),
+            submitted_at: timestampOrNull(submission.submitted_at),
+            grade: valueOrNull(submission.grade),
+            feedback: valueOrNull(submission.feedback),
+        }),
+    },
+};
+
+// Course materials are nested in the course record in Firebase
+const courseMaterialRows = (courses) =>
+    courses.flatMap((course) =>
+        Object.entries(course.materials || {}).map(([key, material]) => ({
+            id: toUuid(material.id || `${course.id}/${key}`),
+            course_id: toUuid(course.id),
+            title: material.title,
+            type: material.type,
+            content: valueOrNull(material.content),
+            file_url: valueOrNull(material.file_url),
+            publish_date: valueOrNull(material.publish_date),
+            deadline: valueOrNull(material.deadline),
+            created_at: valueOrNull(material.created_at),
+            updated_at: valueOrNull(material.updated_at),
+        }))
+    );
+
+function realtimeTarget(connection) {
+    return {
+        label: `Realtime Database (${connection.production ? connection.projectId : 'emulator'})`,
+        plan: (snapshot) =>
+            Object.entries(snapshot.collections).map(([name, records]) => ({
+                name,
+                destination: name,
+                records,
+                keepId: COLLECTIONS[name]?.keepId !== false,
+            })),
+        isEmpty: (write) => isRealtimeCollectionEmpty(connection, write.destination),
+        write: (write) => writeRealtimeCollection(connection, write.destination, write.records, write),
+    };
+}
+
+function firestoreTarget(connection) {
+    return {
+        label: `Firestore (${connection.production ? connection.projectId : 'emulator'})`,
+        plan: (snapshot) =>
+            Object.entries(snapshot.collections).map(([name, records]) => ({ name, destination: name, records })),
+        isEmpty: (write) => isFirestoreCollectionEmpty(connection, write.destination),
+        write: (write) => writeFirestoreCollection(connection, write.destination, write.records),
+    };
+}
+
+function supabaseTarget({ url, serviceRoleKey }) {
+    if (!url || !serviceRoleKey) {
+        throw new Error('SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required for the supabase target');
+    }
+    const client = createClient(url, serviceRoleKey, { auth: { persistSession: false } });
+
+    return {
+        label: `Supabase (${new URL(url).host})`,
+        plan: (snapshot) => {
+            const writes = Object.entries(snapshot.collections)
+                .filter(([name]) => SUPABASE_TABLES[name])
+                .map(([name, records]) => ({
+                    name,
+                    destination: SUPABASE_TABLES[name].table,
+                    records: records.map(SUPABASE_TABLES[name].row),
+                }));
+            if (snapshot.collections.courses) {
+                writes.push({
+                    name: 'courses.materials',
+                    destination: 'course_materials',
+                    records: courseMaterialRows(snapshot.collections.courses),
+                });
+            }
+            return writes;
+        },
+        unsupported: (snapshot) => Object.keys(snapshot.collections).filter((name) => !SUPABASE_TABLES[name]),
+        async isEmpty(write) {
+            const { count, error } = await client.from(write.destination).select('id', { count: 'exact', head: true });
+            if (error) throw new Error(`${write.destination}: ${error.message}`);
+            return count === 0;
+        },
+        async write(write) {
+            for (let start = 0; start < write.records.length; start += SUPABASE_BATCH_SIZE) {
+                const { error } = await client
+                    .from(write.destination)
+                    .upsert(write.records.slice(start, start + SUPABASE_BATCH_SIZE));
+                if (error) throw new Error(`${write.destination}: ${error.message}`);
+            }
+        },
+    };
+}
+
+export const TARGET_NAMES = ['rtdb', 'firestore', 'supabase'];
+
+export function createTarget(name, { connection, supabase }) {
+    switch (name) {
+        case 'rtdb':
+            return realtimeTarget(connection);
+        case 'firestore':
+            return firestoreTarget(connection);
+        case 'supabase':
+            return supabaseTarget(supabase);
+        default:
+            throw new Error(`Unknown target "${name}"; use one of ${TARGET_NAMES.join(', ')}`);
+    }
+}
@@ -0,0 +1,197 @@
+const express = require('express');
+const cors = require('cors');
+const { requireUser } = require('./server/firebase.cjs');
+const { RUNTIMES, runSandboxed } = require('./server/sandbox.cjs');
+const { gradeCodeSubmission } = require('./server/grading.cjs');
+const { handleErrors, RequestError } = require('./server/errors.cjs');
+const { openQuiz, startAttempt, startQuizDeadlines, submitAttempt } = require('./server/quizzes.cjs');
+const { recordPracticeAttempt } = require('./server/practice-quizzes.cjs');
+const { connectTeacher, redeemAccessCode } = require('./server/join.cjs');
+const { checkIn } = require('./server/attendance.cjs');
+const { buildCalendarFeed } = require('./server/calendar.cjs');
+const { startStorageAccessMirror } = require('./server/storage-access.cjs');
+const { startAttachmentScans } = require('./server/attachment-scans.cjs');
+const { startAttendanceAlerts } = require('./server/attendance-alerts.cjs');
+const {
+    EMAIL_PATTERN,
+    clearBounce,
+    enqueueMail,
+    jobSummary,
+    listBounces,
+    listMailJobs,
+    processMailQueue,
+    renderMail,
+    reportBounce,
+    requireMailKey,
+    startMailQueue,
+} = require('./server/mail.cjs');
+const { startMailEvents } = require('./server/mail-events.cjs');
+const app = express();
+
+app.use(cors({
+    origin: 'http://localhost:8080', // Replace with your frontend URL
+    methods: ['GET', 'POST', 'DELETE'],
+    allowedHeaders: ['Content-Type', 'Authorization'],
+}));
+app.use(express.json({ limit: '1mb' }));
+
+app.post('/generate-assignment', (req, res) => {
+    // Your API logic here
+    res.json({ message: 'Assignment generated' });
+});
+
+// Code runner used by the CodeEditor for languages that cannot run in the
+// browser. Only signed-in users may run code, and every run is sandboxed.
+app.post('/run-code', requireUser, async (req, res) => {
+    const { language, code, stdin, limits } = req.body || {};
+
+    if (!RUNTIMES[language]) {
+        return res.status(400).json({ error: `Unsupported language: ${language}` });
+    }
+    if (typeof code !== 'string') {
+        return res.status(400).json({ error: 'Code is required' });
+    }
+
+    res.json(await runSandboxed(language, code, stdin, limits));
+});
+
+// Auto-grades a coding submission the student has just handed in, including
+// against the hidden test cases the browser never sees
+app.post('/grade-code', requireUser, async (req, res) => {
+    const { submissionId } = req.body || {};
+
+    if (typeof submissionId !== 'string' || !/^[\w-]+$/.test(submissionId)) {
+        return res.status(400).json({ error: 'A submission is required' });
+    }
+
+    try {
+        const graded = await gradeCodeSubmission(submissionId, req.user.uid);
+        if (!graded) {
+            return res.status(404).json({ error: 'Coding submission not found' });
+        }
+        res.json(graded);
+    } catch (error) {
+        console.error('Error grading submission:', error);
+        res.status(500).json({ error: 'The submission could not be graded' });
+    }
+});
+
+// Course quizzes. The server hands out questions without their answers,
+// keeps the quiz schedule and time limit, and grades the attempt.
+const requireQuizId = (req) => {
+    const { quizId } = req.body || {};
+    if (typeof quizId !== 'string' || !/^[\w-]+$/.test(quizId)) {
+        throw new RequestError(400, 'A quiz is required');
+    }
+    return quizId;
+};
+
+app.post('/quiz/open', requireUser, handleErrors('The quiz could not be loaded', async (req, res) => {
+    res.json(await openQuiz(requireQuizId(req), req.user.uid));
+}));
+
+app.post('/quiz/start', requireUser, handleErrors('The quiz could not be started', async (req, res) => {
+    res.json(await startAttempt(requireQuizId(req), req.user.uid));
+}));
+
+app.post('/quiz/submit', requireUser, handleErrors('The quiz could not be submitted', async (req, res) => {
+    res.json(await submitAttempt(requireQuizId(req), req.user.uid, req.body.answers));
+}));
+
+// Practice quizzes the student generated. The server scores the attempt and
+// awards its XP, so the daily XP cap holds.
+app.post('/practice-quiz/attempt', requireUser, handleErrors('Failed to save your quiz attempt', async (req, res) => {
+    const { selectedAnswers, startedAt } = req.body || {};
+    res.json(await recordPracticeAttempt(req.user.uid, requireQuizId(req), selectedAnswers, startedAt));
+}));
+
+// Access codes. Students redeem codes here rather than reading them, so the
+// attempt limit and the code's usage cap hold.
+app.post('/join/course', requireUser, handleErrors('Failed to join course', async (req, res) => {
+    res.json(await redeemAccessCode(req.user.uid, (req.body || {}).code));
+}));
+
+app.post('/join/teacher', requireUser, handleErrors('Failed to connect with teacher', async (req, res) => {
+    res.json(await connectTeacher(req.user.uid, (req.body || {}).code));
+}));
+
+// Attendance self check-in. Check-in codes are only readable by teachers, so
+// students send the code they were shown here.
+app.post('/attendance/check-in', requireUser, handleErrors('Failed to check in', async (req, res) => {
+    const { code, sessionId } = req.body || {};
+    if (sessionId !== undefined && (typeof sessionId !== 'string' || !/^[\w-]+$/.test(sessionId))) {
+        throw new RequestError(400, 'Unknown check-in session');
+    }
+    res.json(await checkIn(req.user.uid, code, sessionId));
+}));
+
+// Subscribable iCalendar feeds, built from the student's current data on every
+// poll. The token is checked against calendar_feeds in Firestore.
+app.get('/calendar/:token.ics', handleErrors('Failed to build calendar feed', async (req, res) => {
+    const calendar = await buildCalendarFeed(req.params.token);
+    if (!calendar) throw new RequestError(404, 'Calendar feed not found');
+    res.set('Cache-Control', 'no-cache');
+    res.type('text/calendar; charset=utf-8').send(calendar);
+}));
+
+// Outgoing email, queued from server/mail-events.cjs or by other services
+// through the endpoints below
+app.post('/mail/send', requireMailKey, (req, res) => {
+    const { template, to, data } = req.body || {};
+    if (typeof to !== 'string' || !EMAIL_PATTERN.test(to)) {
+        return res.status(400).json({ error: 'A valid recipient address is required' });
+    }
+    try {
+        const job = enqueueMail(template, to, data);
+        res.status(202).json(jobSummary(job));
+        processMailQueue();
+    } catch (error) {
+        res.status(400).json({ error: error.message });
+    }
+});
+
+// Renders a template without sending it, for checking copy
+app.post('/mail/preview', requireMailKey, (req, res) => {
+    const { template, data } = req.body || {};
+    try {
+        res.json(renderMail(template, data));
+    } catch (error) {
+        res.status(400).json({ error: error.message });
+    }
+});
+
+app.get('/mail/jobs', requireMailKey, (req, res) => {
+    res.json(listMailJobs(req.query.status));
+});
+
+app.get('/mail/bounces', requireMailKey, (req, res) => {
+    res.json(listBounces());
+});
+
+// Bounces that arrive later (as a delivery report or a provider webhook) are
+// reported here
+app.post('/mail/bounces', requireMailKey, (req, res) => {
+    const { email, reason } = req.body || {};
+    if (typeof email !== 'string' || !EMAIL_PATTERN.test(email)) {
+        return res.status(400).json({ error: 'A valid address is required' });
+    }
+    reportBounce(email, typeof reason === 'string' ? reason : 'Reported bounce');
+    res.json({ ok: true });
+});
+
+// Clears a bounce once the address has been fixed
+app.delete('/mail/bounces/:email', requireMailKey, (req, res) => {
+    clearBounce(req.params.email);
+    res.json({ ok: true });
+});
+
+startMailQueue();
+startMailEvents();
+startStorageAccessMirror();
+startAttachmentScans();
+startQuizDeadlines();
+startAttendanceAlerts();
+
+app.listen(3000, () => {
+    console.log('Server is running on port 3000');
+});
@@ -0,0 +1,79 @@
+const { bucket, database } = require('./firebase.cjs');
+const { scanBuffer } = require('./virus-scan.cjs');
+
+// Virus-scans every file a submission or an assignment points to, whoever
+// uploaded it, so a browser can neither skip the scan nor fake its result. The
+// result is kept in the file's own metadata as scan_status, which storage.rules
+// keeps clients from setting, and the app reads it from there. Infected files
+// are deleted, which also stops their download links from working. Files that
+// already carry a result are skipped, so a restart checks them again cheaply
+// rather than rescanning them.
+
+const SCANNED_PREFIXES = ['submissions/', 'materials/'];
+
+const logFailure = (path) => (error) => console.error(`Error scanning ${path}:`, error);
+
+// Paths checked by this process, so records that change often, like
+// submissions being graded, don't look their files up again each time
+const handled = new Set();
+const waiting = [];
+let scanning = false;
+
+const scanFile = async (path) => {
+    const file = bucket.file(path);
+    const [exists] = await file.exists();
+    if (!exists) return;
+    const [metadata] = await file.getMetadata();
+    if (metadata.metadata && metadata.metadata.scan_status) return;
+
+    const [contents] = await file.download();
+    const result = await scanBuffer(contents);
+    if (result.status === 'infected') {
+        await file.delete();
+        console.warn(`Deleted ${path}, which failed the virus scan: ${result.detail}`);
+        return;
+    }
+    await file.setMetadata({ metadata: { scan_status: result.status } });
+};
+
+// One file at a time, so large uploads arriving together don't all sit in memory
+const drain = async () => {
+    if (scanning) return;
+    scanning = true;
+    while (waiting.length > 0) {
+        const path = waiting.shift();
+        await scanFile(path).catch((error) => {
+            // Tried again the next time the record changes or the server starts
+            handled.delete(path);
+            logFailure(path)(error);
+        });
+    }
+    scanning = false;
+};
+
+const attachmentPaths = (files) => (Array.isArray(files) ? files : Object.values(files || {}))
+    .map((attachment) => attachment && attachment.path)
+    .filter((path) => typeof path === 'string' && SCANNED_PREFIXES.some((prefix) => path.startsWith(prefix)));
+
+const scanAttachments = (field) => (snapshot) => {
+    const paths = attachmentPaths((snapshot.val() || {})[field]).filter((path) => !handled.has(path));
+    paths.forEach((path) => {
+        handled.add(path);
+        waiting.push(path);
+    });
+    if (paths.length > 0) drain();
+};
+
+// Listening replays every existing record first, so files uploaded while the
+// server was down are scanned when it starts
+const startAttachmentScans = () => {
+    const submissions = database.ref('submissions');
+    submissions.on('child_added', scanAttachments('attachments'));
+    submissions.on('child_changed', scanAttachments('attachments'));
+
+    const assignments = database.ref('assignments');
+    assignments.on('child_added', scanAttachments('materials'));
+    assignments.on('child_changed', scanAttachments('materials'));
+};
+
+module.exports = { startAttachmentScans };
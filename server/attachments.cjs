@@ -0,0 +1,26 @@
+// The file types students may attach, by the groups a teacher picks from in an
+// assignment's attachment policy. Keep in step with FILE_TYPE_GROUPS and
+// MAX_FILE_SIZE_MB in src/lib/attachments.ts; server/attachments.test.js checks
+// that they match.
+
+const FILE_TYPE_GROUPS = {
+    documents: ['pdf', 'doc', 'docx', 'odt', 'rtf', 'txt', 'md'],
+    images: ['png', 'jpg', 'jpeg', 'gif', 'webp'],
+    code: ['js', 'jsx', 'ts', 'tsx', 'py', 'java', 'c', 'h', 'cpp', 'hpp', 'cs', 'go', 'rb', 'php', 'html', 'css', 'json', 'sql'],
+    archives: ['zip'],
+};
+
+const MAX_FILE_SIZE_MB = 25;
+
+// What storage.rules checks a submitted file against, or null when the
+// assignment takes no files
+const uploadLimits = (policy) => {
+    if (!policy || !Array.isArray(policy.allowed_types)) return null;
+    const sizeMb = Math.min(Number(policy.max_size_mb) || 0, MAX_FILE_SIZE_MB);
+    return {
+        max_bytes: sizeMb * 1024 * 1024,
+        extensions: policy.allowed_types.flatMap((group) => FILE_TYPE_GROUPS[group] || []),
+    };
+};
+
+module.exports = { FILE_TYPE_GROUPS, MAX_FILE_SIZE_MB, uploadLimits };
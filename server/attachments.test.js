@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import attachments from './attachments.cjs';
+import { FILE_TYPE_GROUPS, MAX_FILE_SIZE_MB, allowedExtensions } from '../src/lib/attachments';
+
+// The server turns attachment policies into the limits storage.rules enforces,
+// so it has to agree with the app on what each policy allows
+
+const policies = [
+    { allowed_types: ['documents', 'images'], max_size_mb: 10, max_files: 5 },
+    { allowed_types: ['code'], max_size_mb: 1, max_files: 1 },
+    { allowed_types: ['documents', 'images', 'code', 'archives'], max_size_mb: 25, max_files: 10 },
+];
+
+describe('uploadLimits', () => {
+    it('matches the file types the app offers', () => {
+        Object.entries(FILE_TYPE_GROUPS).forEach(([group, { extensions }]) => {
+            expect(attachments.FILE_TYPE_GROUPS[group]).toEqual(extensions);
+        });
+        expect(Object.keys(attachments.FILE_TYPE_GROUPS)).toEqual(Object.keys(FILE_TYPE_GROUPS));
+        expect(attachments.MAX_FILE_SIZE_MB).toBe(MAX_FILE_SIZE_MB);
+    });
+
+    it.each(policies)('allows what the app allows for $allowed_types', (policy) => {
+        expect(attachments.uploadLimits(policy)).toEqual({
+            max_bytes: policy.max_size_mb * 1024 * 1024,
+            extensions: allowedExtensions(policy),
+        });
+    });
+
+    it('caps the size at the overall limit', () => {
+        expect(attachments.uploadLimits({ allowed_types: ['images'], max_size_mb: 100 }).max_bytes).toBe(25 * 1024 * 1024);
+    });
+
+    it('accepts no files for assignments without a policy', () => {
+        expect(attachments.uploadLimits(undefined)).toBeNull();
+    });
+});
@@ -0,0 +1,21 @@
+const { database } = require('./firebase.cjs');
+const { RequestError } = require('./errors.cjs');
+
+// Counts an attempt at something guessable, like a code, in a fixed window per
+// user, and refuses it once the user has made `limit` in the window. Counts
+// live under `path`/{userId}, which only the user can read.
+const recordAttempt = async (path, userId, limit, windowMs) => {
+    const now = Date.now();
+    const { committed, snapshot } = await database.ref(`${path}/${userId}`).transaction((current) => {
+        if (!current || current.window_start + windowMs <= now) {
+            return { count: 1, window_start: now };
+        }
+        return current.count < limit ? { ...current, count: current.count + 1 } : undefined;
+    });
+    if (!committed) {
+        const minutes = Math.ceil((snapshot.val().window_start + windowMs - now) / (60 * 1000));
+        throw new RequestError(429, `Too many attempts. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`);
+    }
+};
+
+module.exports = { recordAttempt };
@@ -0,0 +1,156 @@
+const { ServerValue } = require('firebase-admin/database');
+const { database } = require('./firebase.cjs');
+
+// Tells students when their absences reach the limit their course's policy
+// allows. Standings are worked out again whenever a course's attendance or
+// policy changes, and the last alert per student is kept under
+// attendance_alerts, which only the server can reach. Each alert is decided in
+// a transaction, so however many times a course is looked at, a student is
+// notified once per threshold crossed. A student who drops back below every
+// threshold (say, after an absence is excused) is alerted again if they cross
+// it later.
+
+const logFailure = (courseId) => (error) => console.error(`Error updating attendance alerts for ${courseId}:`, error);
+
+// Matches DEFAULT_ATTENDANCE_POLICY in src/lib/attendance.ts
+const DEFAULT_ATTENDANCE_POLICY = {
+    at_risk_absences: 3,
+    lates_per_absence: 3,
+    notify_students: true,
+};
+
+const LEVEL_ORDER = { warning: 1, at_risk: 2 };
+
+// Absences plus the ones lates add up to, as in attendanceStanding in src/lib/attendance.ts
+const effectiveAbsences = (records, policy) => {
+    const count = (status) => records.filter((record) => record.status === status).length;
+    return count('absent') + (policy.lates_per_absence > 0 ? Math.floor(count('late') / policy.lates_per_absence) : 0);
+};
+
+// Matches alertLevel in src/lib/attendance.ts
+const alertLevel = (effective, policy) => {
+    if (effective > policy.at_risk_absences) return 'at_risk';
+    // One more absence puts the student at risk
+    if (effective === policy.at_risk_absences && effective > 0) return 'warning';
+    return null;
+};
+
+const alertMessage = (level, courseTitle, policy, effective) => (level === 'at_risk'
+    ? {
+        title: `Attendance alert: ${courseTitle}`,
+        content: `You have ${effective} absences in ${courseTitle}, more than the ${policy.at_risk_absences} allowed. Please talk to your teacher.`,
+    }
+    : {
+        title: `Attendance warning: ${courseTitle}`,
+        content: `You have ${effective} absences in ${courseTitle}. One more will put you over the limit of ${policy.at_risk_absences}.`,
+    });
+
+// The alert to keep given the last one, or undefined to leave it as it is. A
+// new alert, which the student is to be told about, has a fresh notified_at.
+const nextAlert = (previous, level, effective, policy, notifiedAt) => {
+    if (!level) return previous ? null : undefined;
+    if (previous && LEVEL_ORDER[level] <= LEVEL_ORDER[previous.level]) {
+        return level === previous.level ? undefined : { ...previous, level, effective_absences: effective };
+    }
+    // Left unrecorded, so turning notifications on later still alerts the student
+    if (!policy.notify_students) return undefined;
+    return { level, effective_absences: effective, notified_at: notifiedAt };
+};
+
+const notifyStudent = async (studentId, courseId, message, now) => {
+    const preferences = (await database.ref(`notification_preferences/${studentId}`).get()).val() || {};
+    if (preferences.attendance === false) return;
+
+    const notificationRef = database.ref('notifications').push();
+    await notificationRef.set({
+        id: notificationRef.key,
+        user_id: studentId,
+        type: 'attendance',
+        link: '/student/attendance',
+        course_id: courseId,
+        ...message,
+        created_at: new Date(now).toISOString(),
+        read: false,
+        sent_at: ServerValue.TIMESTAMP,
+    });
+};
+
+const updateStudent = async (courseId, studentId, records, policy, courseTitle) => {
+    const now = Date.now();
+    const notifiedAt = new Date(now).toISOString();
+    const effective = effectiveAbsences(records, policy);
+    const level = alertLevel(effective, policy);
+    // Set by the last run of the transaction, which is the one that commits
+    let isNew = false;
+    const { committed } = await database.ref(`attendance_alerts/${courseId}/${studentId}`).transaction((previous) => {
+        const next = nextAlert(previous, level, effective, policy, notifiedAt);
+        isNew = Boolean(next && next.notified_at === notifiedAt);
+        return next;
+    });
+    if (committed && isNew) {
+        await notifyStudent(studentId, courseId, alertMessage(level, courseTitle, policy, effective), now);
+    }
+};
+
+const updateCourse = async (courseId) => {
+    const [policy, attendance, course, alerts] = await Promise.all([
+        database.ref(`attendance_policies/${courseId}`).get(),
+        database.ref('attendance').orderByChild('courseId').equalTo(courseId).get(),
+        database.ref(`courses/${courseId}`).get(),
+        database.ref(`attendance_alerts/${courseId}`).get(),
+    ]);
+
+    const byStudent = {};
+    attendance.forEach((snapshot) => {
+        const record = snapshot.val();
+        byStudent[record.student_id] = [...(byStudent[record.student_id] || []), record];
+    });
+    // Students whose records are all gone may still have an alert to clear
+    Object.keys(alerts.val() || {}).forEach((studentId) => {
+        byStudent[studentId] = byStudent[studentId] || [];
+    });
+
+    const coursePolicy = { ...DEFAULT_ATTENDANCE_POLICY, ...policy.val() };
+    const courseTitle = (course.val() || {}).title || 'your course';
+    for (const [studentId, records] of Object.entries(byStudent)) {
+        await updateStudent(courseId, studentId, records, coursePolicy, courseTitle);
+    }
+};
+
+// One course at a time; a course changed again while it waits is looked at once
+const waiting = new Set();
+let updating = false;
+
+const drain = async () => {
+    if (updating) return;
+    updating = true;
+    while (waiting.size > 0) {
+        const [courseId] = waiting;
+        waiting.delete(courseId);
+        await updateCourse(courseId).catch(logFailure(courseId));
+    }
+    updating = false;
+};
+
+const queueCourse = (courseId) => {
+    if (typeof courseId !== 'string' || !courseId) return;
+    waiting.add(courseId);
+    drain();
+};
+
+// Listening replays every existing record first, so attendance taken while
+// the server was down is caught up on when it starts
+const startAttendanceAlerts = () => {
+    const fromRecord = (snapshot) => queueCourse((snapshot.val() || {}).courseId);
+    const attendance = database.ref('attendance');
+    attendance.on('child_added', fromRecord);
+    attendance.on('child_changed', fromRecord);
+    attendance.on('child_removed', fromRecord);
+
+    const fromPolicy = (snapshot) => queueCourse(snapshot.key);
+    const policies = database.ref('attendance_policies');
+    policies.on('child_added', fromPolicy);
+    policies.on('child_changed', fromPolicy);
+};
+
+module.exports = { alertLevel, effectiveAbsences, nextAlert, startAttendanceAlerts };
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import alerts from './attendance-alerts.cjs';
+import { DEFAULT_ATTENDANCE_POLICY, attendanceStanding } from '../src/lib/attendance';
+
+// Alerts are sent here from the standings the teacher and the student see in
+// the app, so both have to count absences and levels the same way
+
+const policies = [
+    DEFAULT_ATTENDANCE_POLICY,
+    { at_risk_absences: 1, lates_per_absence: 2, notify_students: true },
+    { at_risk_absences: 0, lates_per_absence: 0, notify_students: false },
+];
+
+const records = (...statuses) => statuses.map((status, day) => ({
+    id: `record-${day}`,
+    courseId: 'course-1',
+    student_id: 'student-1',
+    date: `2026-06-${String(day + 1).padStart(2, '0')}`,
+    status,
+}));
+
+const histories = {
+    empty: records(),
+    'all present': records('present', 'present', 'excused'),
+    'one absence': records('present', 'absent'),
+    'absences and lates': records('absent', 'late', 'late', 'absent', 'late'),
+    'at the limit': records('absent', 'absent', 'absent', 'excused'),
+    'over the limit': records('absent', 'absent', 'late', 'late', 'late', 'absent', 'absent'),
+};
+
+describe('alertLevel', () => {
+    policies.forEach((policy) => {
+        it.each(Object.entries(histories))(`gives a student with %s the same standing as the app (${JSON.stringify(policy)})`, (_, history) => {
+            const standing = attendanceStanding(history, policy);
+            const effective = alerts.effectiveAbsences(history, policy);
+            expect(effective).toBe(standing.effective_absences);
+            expect(alerts.alertLevel(effective, policy)).toBe(standing.level);
+        });
+    });
+});
+
+describe('nextAlert', () => {
+    const at = '2026-06-10T09:00:00.000Z';
+    const warned = { level: 'warning', effective_absences: 3, notified_at: '2026-06-01T09:00:00.000Z' };
+
+    it('records a new alert the first time a threshold is crossed', () => {
+        expect(alerts.nextAlert(null, 'warning', 3, DEFAULT_ATTENDANCE_POLICY, at))
+            .toEqual({ level: 'warning', effective_absences: 3, notified_at: at });
+        expect(alerts.nextAlert(warned, 'at_risk', 4, DEFAULT_ATTENDANCE_POLICY, at))
+            .toEqual({ level: 'at_risk', effective_absences: 4, notified_at: at });
+    });
+
+    it('leaves an alert for the same level alone, so it is not sent twice', () => {
+        expect(alerts.nextAlert(warned, 'warning', 3, DEFAULT_ATTENDANCE_POLICY, at)).toBeUndefined();
+    });
+
+    it('lowers the level without notifying again', () => {
+        const atRisk = { ...warned, level: 'at_risk', effective_absences: 4 };
+        expect(alerts.nextAlert(atRisk, 'warning', 3, DEFAULT_ATTENDANCE_POLICY, at)).toEqual(warned);
+    });
+
+    it('clears the alert once the student is back below every threshold', () => {
+        expect(alerts.nextAlert(warned, null, 2, DEFAULT_ATTENDANCE_POLICY, at)).toBeNull();
+        expect(alerts.nextAlert(null, null, 2, DEFAULT_ATTENDANCE_POLICY, at)).toBeUndefined();
+    });
+
+    it('records nothing while the course does not notify students', () => {
+        const silent = { ...DEFAULT_ATTENDANCE_POLICY, notify_students: false };
+        expect(alerts.nextAlert(null, 'warning', 3, silent, at)).toBeUndefined();
+    });
+});
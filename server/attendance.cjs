@@ -0,0 +1,101 @@
+const { database } = require('./firebase.cjs');
+const { recordAttempt } = require('./attempts.cjs');
+const { RequestError } = require('./errors.cjs');
+
+// Self check-in for attendance sessions. The rotating codes live under
+// attendance_session_tokens, which only the course teacher can read, so
+// students check in here: the server matches the code, checks the student is
+// enrolled and decides present or late by its own clock. Attempts are counted
+// per student, since the codes are short enough to guess otherwise.
+
+// Matches TOKEN_LENGTH in src/lib/attendance-sessions.ts
+const CODE_PATTERN = /^\d{6}$/;
+const MAX_CHECK_IN_ATTEMPTS = 10;
+const CHECK_IN_ATTEMPT_WINDOW_MS = 10 * 60 * 1000;
+
+const isAcceptingCheckIns = (session, now) => session.status === 'open' && now < session.closes_at;
+
+// Sessions whose current or previous code is `code`, with their codes
+const findSessions = async (code, sessionId) => {
+    if (sessionId) {
+        const [sessionSnapshot, tokenSnapshot] = await Promise.all([
+            database.ref(`attendance_sessions/${sessionId}`).get(),
+            database.ref(`attendance_session_tokens/${sessionId}`).get(),
+        ]);
+        // The codes are removed when the session closes
+        if (!sessionSnapshot.exists() || !tokenSnapshot.exists()) return [];
+        return [{ ...sessionSnapshot.val(), ...tokenSnapshot.val(), id: sessionId }];
+    }
+
+    const tokens = database.ref('attendance_session_tokens');
+    const [current, previous] = await Promise.all([
+        tokens.orderByChild('token').equalTo(code).get(),
+        tokens.orderByChild('previous_token').equalTo(code).get(),
+    ]);
+    const matches = [];
+    [current, previous].forEach((snapshot) => snapshot.forEach((child) => {
+        matches.push({ id: child.key, tokens: child.val() });
+    }));
+    const sessions = await Promise.all(matches.map(async ({ id, tokens: sessionTokens }) => {
+        const session = (await database.ref(`attendance_sessions/${id}`).get()).val();
+        return session ? { ...session, ...sessionTokens, id } : null;
+    }));
+    return sessions.filter(Boolean);
+};
+
+const checkIn = async (userId, input, sessionId) => {
+    await recordAttempt('check_in_attempts', userId, MAX_CHECK_IN_ATTEMPTS, CHECK_IN_ATTEMPT_WINDOW_MS);
+    const code = typeof input === 'string' ? input.trim() : '';
+    if (!CODE_PATTERN.test(code)) throw new RequestError(400, 'Enter the code shown by your teacher.');
+    const now = Date.now();
+
+    const candidates = (await findSessions(code, sessionId)).filter((session) => isAcceptingCheckIns(session, now));
+    // Codes are short, so two open sessions could share one; only the student's own courses count
+    let session;
+    for (const candidate of candidates) {
+        if ((await database.ref(`enrollments/${candidate.course_id}_${userId}`).get()).exists()) {
+            session = candidate;
+            break;
+        }
+    }
+    if (!session) {
+        throw new RequestError(404, candidates.length > 0 || !sessionId
+            ? 'That check-in code is not valid for any of your courses.'
+            : 'This check-in session has ended.');
+    }
+    if (code !== session.token && code !== session.previous_token) {
+        throw new RequestError(409, 'That code has changed. Enter the code currently shown by your teacher.');
+    }
+
+    const records = await database.ref('attendance').orderByChild('student_id').equalTo(userId).get();
+    let existing = null;
+    records.forEach((child) => {
+        const record = child.val();
+        if (record.courseId === session.course_id && record.date === session.date) existing = record;
+    });
+    if (existing) {
+        throw new RequestError(409, `Your attendance for today has already been recorded as ${existing.status}.`);
+    }
+
+    const status = now <= session.late_after ? 'present' : 'late';
+    const record = {
+        student_id: userId,
+        teacher_id: session.teacher_id,
+        courseId: session.course_id,
+        date: session.date,
+        status,
+        recorded_at: new Date(now).toISOString(),
+        session_id: session.id,
+        check_in_token: code,
+        checked_in_at: now,
+    };
+    // Keyed by session and student, so checking in twice at once records one
+    const { committed } = await database.ref(`attendance/${session.id}_${userId}`)
+        .transaction((current) => (current === null ? record : undefined));
+    if (!committed) throw new RequestError(409, 'Your attendance for today has already been recorded.');
+
+    const course = (await database.ref(`courses/${session.course_id}`).get()).val();
+    return { status, course_title: (course && course.title) || 'your course' };
+};
+
+module.exports = { checkIn };
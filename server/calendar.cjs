@@ -0,0 +1,238 @@
+const { database, firestore } = require('./firebase.cjs');
+
+// Subscribable iCalendar feeds. Each student's secret token is kept in
+// calendar_feeds/{uid} in Firestore, and the feed is built from the student's
+// current courses, assignments and study plan every time a calendar client
+// polls it. Building mirrors buildStudentCalendar in
+// src/components/student/utils/calendar-export-utils.ts and the writer in
+// src/lib/ical.ts, which the web app uses for downloads; server/calendar.test.js
+// checks that both write the same calendar.
+
+const FEED_TOKEN_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
+const PRODUCT_ID = '-//EduConnect//Study Calendar//EN';
+const MAX_LINE_OCTETS = 75;
+const UID_DOMAIN = 'educonnect';
+
+// iCalendar writer
+
+const escapeText = (value) =>
+    value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets are split, continuing with a single space. Never
+// splits inside a multi-byte UTF-8 character.
+const foldLine = (line) => {
+    const parts = [];
+    let current = '';
+    let octets = 0;
+
+    for (const char of line) {
+        const size = Buffer.byteLength(char);
+        const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+        if (octets + size > limit) {
+            parts.push(current);
+            current = '';
+            octets = 0;
+        }
+        current += char;
+        octets += size;
+    }
+    parts.push(current);
+
+    return parts.join('\r\n ');
+};
+
+const pad = (value) => String(value).padStart(2, '0');
+
+const formatUtc = (date) =>
+    `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T${pad(date.getUTCHours())}${pad(
+        date.getUTCMinutes()
+    )}${pad(date.getUTCSeconds())}Z`;
+
+const compactDate = (date) => date.replace(/-/g, '');
+
+const addDays = (date, days) => {
+    const value = new Date(`${date}T00:00:00Z`);
+    value.setUTCDate(value.getUTCDate() + days);
+    return value.toISOString().slice(0, 10);
+};
+
+const timeProperty = (name, time) => {
+    if ('date' in time) return `${name};VALUE=DATE:${compactDate(time.date)}`;
+    if ('dateTime' in time) return `${name}:${formatUtc(time.dateTime)}`;
+    return `${name}:${compactDate(time.localDateTime).replace(':', '')}00`;
+};
+
+const eventLines = (event, stamp) => {
+    const end = event.end || ('date' in event.start ? { date: addDays(event.start.date, 1) } : event.start);
+    const lines = [
+        'BEGIN:VEVENT',
+        `UID:${event.uid}`,
+        `DTSTAMP:${stamp}`,
+        timeProperty('DTSTART', event.start),
+        timeProperty('DTEND', end),
+        `SUMMARY:${escapeText(event.summary)}`,
+    ];
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+    if (event.categories && event.categories.length) lines.push(`CATEGORIES:${event.categories.map(escapeText).join(',')}`);
+    if (event.rrule) lines.push(`RRULE:${event.rrule}`);
+    lines.push('END:VEVENT');
+    return lines;
+};
+
+const buildCalendar = ({ name, events, now = new Date() }) => {
+    const stamp = formatUtc(now);
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        `PRODID:${PRODUCT_ID}`,
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        `X-WR-CALNAME:${escapeText(name)}`,
+        ...events.flatMap((event) => eventLines(event, stamp)),
+        'END:VCALENDAR',
+    ];
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+// Events
+
+// Stored dates are either plain yyyy-MM-dd days or full ISO timestamps
+const eventTime = (value) => (/^\d{4}-\d{2}-\d{2}$/.test(value) ? { date: value } : { dateTime: new Date(value) });
+
+const DAY_CODES = {
+    sun: { code: 'SU', index: 0 },
+    mon: { code: 'MO', index: 1 },
+    tue: { code: 'TU', index: 2 },
+    wed: { code: 'WE', index: 3 },
+    thu: { code: 'TH', index: 4 },
+    fri: { code: 'FR', index: 5 },
+    sat: { code: 'SA', index: 6 },
+};
+
+// e.g. "Monday 10:00 AM - 11:30 AM, Science Hall 101" or "Wed 14:00-15:30 @ Lab 2"
+const SCHEDULE_PATTERN =
+    /^\s*(sun|mon|tue|wed|thu|fri|sat)[a-z]*\.?\s+(\d{1,2})(?::(\d{2}))?\s*(am|pm)?\s*[-–]\s*(\d{1,2})(?::(\d{2}))?\s*(am|pm)?\s*(?:[,@|]\s*(.+))?$/i;
+
+const to24Hour = (hours, minutes, meridiem) => {
+    let hour = parseInt(hours) % (meridiem ? 12 : 24);
+    if (meridiem && meridiem.toLowerCase() === 'pm') hour += 12;
+    return `${String(hour).padStart(2, '0')}:${minutes || '00'}`;
+};
+
+// Weekly class meetings in floating local time, from the first matching day of
+// the course until its end date. Entries that cannot be read are left out.
+const scheduleEvents = (course, today = new Date()) => (course.schedule || []).flatMap((entry, index) => {
+    const text = typeof entry === 'string'
+        ? entry
+        : [`${entry.day} ${entry.time}`, entry.location].filter(Boolean).join(', ');
+    const match = SCHEDULE_PATTERN.exec(text);
+    if (!match) return [];
+
+    const [, day, startHour, startMinute, startMeridiem, endHour, endMinute, endMeridiem, location] = match;
+    const weekday = DAY_CODES[day.toLowerCase()];
+    const startTime = to24Hour(startHour, startMinute, startMeridiem || endMeridiem);
+    const endTime = to24Hour(endHour, endMinute, endMeridiem || startMeridiem);
+
+    const from = course.startDate ? course.startDate.slice(0, 10) : today.toISOString().slice(0, 10);
+    const first = addDays(from, (weekday.index - new Date(`${from}T00:00:00Z`).getUTCDay() + 7) % 7);
+    // A floating DTSTART needs a floating UNTIL
+    const until = course.endDate ? `;UNTIL=${compactDate(course.endDate.slice(0, 10))}T235959` : '';
+
+    const event = {
+        uid: `class-${course.id}-${index}@${UID_DOMAIN}`,
+        summary: course.title,
+        start: { localDateTime: `${first}T${startTime}` },
+        end: { localDateTime: `${first}T${endTime}` },
+        rrule: `FREQ=WEEKLY;BYDAY=${weekday.code}${until}`,
+        categories: ['Class'],
+    };
+    if (location) event.location = location.trim();
+    return [event];
+});
+
+const materialEvents = (course) => Object.values(course.materials || {})
+    .filter((material) => material.deadline)
+    .map((material) => ({
+        uid: `material-${course.id}-${material.id}@${UID_DOMAIN}`,
+        summary: `Deadline: ${material.title}`,
+        start: eventTime(material.deadline),
+        description: course.title,
+        categories: ['Course material'],
+    }));
+
+const assignmentEvent = (assignment, courseName, submitted) => ({
+    uid: `assignment-${assignment.id}@${UID_DOMAIN}`,
+    summary: `Due: ${assignment.title}`,
+    start: eventTime(assignment.due_date),
+    description: [courseName, `${assignment.points} points`, submitted ? 'Submitted' : 'Not submitted yet']
+        .filter(Boolean)
+        .join('\n'),
+    categories: ['Assignment'],
+});
+
+const studyEvent = (item) => {
+    const start = new Date(item.due_date);
+    const event = {
+        uid: `study-${item.id}@${UID_DOMAIN}`,
+        summary: item.is_completed ? `${item.title} (done)` : item.title,
+        start: { dateTime: start },
+        end: { dateTime: new Date(start.getTime() + (item.duration_minutes || 0) * 60 * 1000) },
+        categories: ['Study'],
+    };
+    const description = [item.course, item.description].filter(Boolean).join('\n');
+    if (description) event.description = description;
+    return event;
+};
+
+// Student data
+
+const listWhere = async (path, child, value) => {
+    const records = [];
+    (await database.ref(path).orderByChild(child).equalTo(value).get()).forEach((snapshot) => {
+        records.push({ ...snapshot.val(), id: snapshot.key });
+    });
+    return records;
+};
+
+const buildStudentCalendar = async (userId) => {
+    const enrollments = await listWhere('enrollments', 'student_id', userId);
+    const courseIds = [...new Set(enrollments.map((enrollment) => enrollment.course_id))];
+
+    const [courses, courseAssignments, submissions, items] = await Promise.all([
+        Promise.all(courseIds.map(async (courseId) => {
+            const snapshot = await database.ref(`courses/${courseId}`).get();
+            return snapshot.exists() ? { ...snapshot.val(), id: courseId } : null;
+        })),
+        Promise.all(courseIds.map((courseId) => listWhere('assignments', 'course_id', courseId))),
+        listWhere('submissions', 'user_id', userId),
+        firestore.collection('study_plan_items').where('user_id', '==', userId).get(),
+    ]);
+
+    const enrolled = courses.filter(Boolean).map((course) => ({ ...course, title: course.title || 'Untitled course' }));
+    const courseNames = new Map(enrolled.map((course) => [course.id, course.title]));
+    const submitted = new Set(submissions.map((submission) => submission.assignment_id));
+
+    const events = [
+        ...courseAssignments.flat()
+            .filter((assignment) => assignment.due_date)
+            .map((assignment) => assignmentEvent(
+                assignment,
+                courseNames.get(assignment.course_id) || 'Unknown Course',
+                submitted.has(assignment.id)
+            )),
+        ...enrolled.flatMap((course) => [...scheduleEvents(course), ...materialEvents(course)]),
+        ...items.docs.map((itemDoc) => studyEvent({ ...itemDoc.data(), id: itemDoc.id })),
+    ];
+    return buildCalendar({ name: 'EduConnect', events });
+};
+
+// The feed for a token, or null when no student has it. Knowing the token is
+// the only authorization, so it is never listed or logged.
+const buildCalendarFeed = async (token) => {
+    if (!FEED_TOKEN_PATTERN.test(token)) return null;
+    const feeds = await firestore.collection('calendar_feeds').where('token', '==', token).limit(1).get();
+    return feeds.empty ? null : buildStudentCalendar(feeds.docs[0].id);
+};
+
+module.exports = { buildCalendar, buildCalendarFeed, scheduleEvents };
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import calendar from './calendar.cjs';
+import { buildCalendar } from '../src/lib/ical';
+import { scheduleEvents } from '../src/components/student/utils/calendar-export-utils';
+
+// Subscribed feeds are written here and downloads in the app, so a student
+// gets the same calendar either way
+
+const now = new Date('2026-06-01T08:00:00Z');
+
+const events = [
+    { uid: 'due-1', summary: 'Essay; draft', start: { date: '2026-12-31' }, description: 'Biology\n10 points', categories: ['Assignment'] },
+    {
+        uid: 'class-1',
+        summary: 'Biology, section 2',
+        start: { localDateTime: '2026-06-01T10:00' },
+        end: { localDateTime: '2026-06-01T11:30' },
+        location: 'Hall 2',
+        rrule: 'FREQ=WEEKLY;BYDAY=MO;UNTIL=20260731T235959',
+        categories: ['Class'],
+    },
+    {
+        uid: 'study-1',
+        summary: `Révision ${'très '.repeat(20)}longue`,
+        start: { dateTime: new Date('2026-06-02T15:00:00Z') },
+        end: { dateTime: new Date('2026-06-02T16:30:00Z') },
+        description: 'Chapitre 1\\2, « notes »',
+        categories: ['Study', 'Bio, 101'],
+    },
+    { uid: 'bare', summary: 'Meeting', start: { dateTime: new Date('2026-06-03T09:00:00Z') } },
+];
+
+const course = (schedule, fields = {}) => ({ id: 'course-1', title: 'Biology', schedule, ...fields });
+
+const schedules = [
+    ['Monday 10:00 AM - 11:30 AM, Science Hall 101'],
+    ['Wed 14:00-15:30 @ Lab 2', 'Fri. 9 - 10am | Room 4', 'Sun 11:30 pm - 12 am'],
+    [{ day: 'Tuesday', time: '1:00 PM - 2:00 PM', location: 'Room 7' }, { day: 'Thu', time: '8-9' }],
+    ['Whenever the teacher says', 'Someday 10-11'],
+];
+
+describe('buildCalendar', () => {
+    it('writes the same calendar as the app', () => {
+        const options = { name: "Sam's calendar, spring", events, now };
+        expect(calendar.buildCalendar(options)).toBe(buildCalendar(options));
+    });
+});
+
+describe('scheduleEvents', () => {
+    it.each(schedules)('reads class times like the app: %j', (...schedule) => {
+        const withDates = course(schedule, { startDate: '2026-06-03', endDate: '2026-08-28' });
+        expect(calendar.scheduleEvents(withDates)).toEqual(scheduleEvents(withDates));
+    });
+
+    it('starts from the given day when the course has no dates', () => {
+        const today = new Date('2026-06-03T12:00:00Z');
+        const withoutDates = course(schedules[1]);
+        expect(calendar.scheduleEvents(withoutDates, today)).toEqual(scheduleEvents(withoutDates, today));
+    });
+});
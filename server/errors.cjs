@@ -0,0 +1,24 @@
+// A problem with the request the caller can act on; its message is sent back
+// as the error
+class RequestError extends Error {
+    constructor(status, message) {
+        super(message);
+        this.status = status;
+    }
+}
+
+// Wraps an async route handler. Request errors are answered with their status
+// and message; anything else is logged and answered with `failure`.
+const handleErrors = (failure, handler) => async (req, res) => {
+    try {
+        await handler(req, res);
+    } catch (error) {
+        if (error instanceof RequestError) {
+            return res.status(error.status).json({ error: error.message });
+        }
+        console.error(`${failure}:`, error);
+        res.status(500).json({ error: failure });
+    }
+};
+
+module.exports = { RequestError, handleErrors };
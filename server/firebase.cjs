@@ -0,0 +1,42 @@
+const { initializeApp } = require('firebase-admin/app');
+const { getAuth } = require('firebase-admin/auth');
+const { getDatabase } = require('firebase-admin/database');
+const { getFirestore } = require('firebase-admin/firestore');
+const { getStorage } = require('firebase-admin/storage');
+
+// Admin access for the endpoints that act for a signed-in user. Credentials
+// come from GOOGLE_APPLICATION_CREDENTIALS; with FIREBASE_AUTH_EMULATOR_HOST,
+// FIREBASE_DATABASE_EMULATOR_HOST, FIRESTORE_EMULATOR_HOST and
+// FIREBASE_STORAGE_EMULATOR_HOST set the SDK uses the local emulators.
+const app = initializeApp({
+    projectId: process.env.FIREBASE_PROJECT_ID || 'educonnect-66985',
+    databaseURL: process.env.FIREBASE_DATABASE_URL
+        || 'https://educonnect-66985-default-rtdb.asia-southeast1.firebasedatabase.app',
+    storageBucket: process.env.FIREBASE_STORAGE_BUCKET || 'educonnect-66985.appspot.com',
+});
+
+const database = getDatabase(app);
+const firestore = getFirestore(app);
+const bucket = getStorage(app).bucket();
+
+// Verifies the Firebase ID token the web app sends as a bearer token and
+// attaches the caller's uid and role to the request
+const requireUser = async (req, res, next) => {
+    const match = /^Bearer (.+)$/.exec(req.get('Authorization') || '');
+    if (!match) {
+        return res.status(401).json({ error: 'Sign in to continue' });
+    }
+
+    let user;
+    try {
+        const { uid } = await getAuth(app).verifyIdToken(match[1]);
+        const role = (await database.ref(`users/${uid}/role`).get()).val();
+        user = { uid, role };
+    } catch (error) {
+        return res.status(401).json({ error: 'Your session has expired. Sign in again.' });
+    }
+    req.user = user;
+    next();
+};
+
+module.exports = { app, bucket, database, firestore, requireUser };
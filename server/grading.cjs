@@ -0,0 +1,121 @@
+const { database } = require('./firebase.cjs');
+const { RUNTIMES, runSandboxed } = require('./sandbox.cjs');
+
+// Auto-grading for coding assignments. Hidden test cases live under
+// coding_tests/{assignmentId}, which only the course teacher can read, so
+// submissions are graded here against the code as saved in the database and
+// the score is written with admin access.
+
+// Outputs are compared line by line, ignoring trailing whitespace and a
+// trailing newline, as the browser runner does for example tests.
+// server/grading.test.js checks that both grade the same runs alike.
+const normalizeOutput = (output) => output
+    .replace(/\r\n/g, '\n')
+    .split('\n')
+    .map((line) => line.trimEnd())
+    .join('\n')
+    .trim();
+
+// `sandbox` runs the code; tests pass canned runs instead
+const gradeTestCases = async (language, code, testCases, sandbox = runSandboxed) => {
+    if (testCases.length === 0) {
+        return { status: 'failed', score: 0, results: [], error: 'This assignment has no test cases' };
+    }
+    if (!RUNTIMES[language]) {
+        return { status: 'failed', score: 0, results: [], error: `${language} submissions cannot be graded automatically` };
+    }
+
+    const results = [];
+    let earned = 0;
+    let total = 0;
+
+    for (const testCase of testCases) {
+        const weight = testCase.weight ?? 1;
+        const run = await sandbox(language, code, testCase.input);
+
+        if (run.status === 'unavailable') {
+            return { status: 'failed', score: 0, results, error: run.error };
+        }
+
+        const passed = run.status === 'ok'
+            && normalizeOutput(run.stdout) === normalizeOutput(testCase.expected_output);
+
+        total += weight;
+        if (passed) earned += weight;
+
+        const result = {
+            test_case_id: testCase.id,
+            passed,
+            actual_output: run.stdout,
+            duration_ms: run.durationMs,
+        };
+        if (run.status !== 'ok') result.error = run.error || run.status;
+        results.push(result);
+    }
+
+    return {
+        status: 'completed',
+        score: total > 0 ? Math.round((earned / total) * 100) : 0,
+        results,
+    };
+};
+
+// Grades the student's current version of a coding submission and records the
+// result on it. Resolves to null when the submission is not the student's or
+// not for a coding assignment.
+const gradeCodeSubmission = async (submissionId, userId) => {
+    const submissionRef = database.ref(`submissions/${submissionId}`);
+    const submission = (await submissionRef.get()).val();
+    if (!submission || submission.user_id !== userId) return null;
+
+    const [assignmentSnapshot, hiddenSnapshot] = await Promise.all([
+        database.ref(`assignments/${submission.assignment_id}`).get(),
+        database.ref(`coding_tests/${submission.assignment_id}`).get(),
+    ]);
+    const assignment = assignmentSnapshot.val();
+    if (!assignment || !assignment.coding) return null;
+
+    const exampleTests = assignment.coding.test_cases || [];
+    const hiddenTests = Object.values(hiddenSnapshot.val() || {});
+    const report = await gradeTestCases(submission.language, submission.content || '', [...exampleTests, ...hiddenTests]);
+
+    const codeSubmissionRef = database.ref('code_submissions').push();
+    const codeSubmission = {
+        id: codeSubmissionRef.key,
+        user_id: submission.user_id,
+        assignment_id: submission.assignment_id,
+        language: submission.language,
+        code_content: submission.content || '',
+        submitted_at: submission.submitted_at,
+        auto_grade_status: report.status,
+        auto_grade_result: report.score,
+        test_results: report.results,
+    };
+    if (report.error) codeSubmission.feedback = report.error;
+    await codeSubmissionRef.set(codeSubmission);
+
+    const graded = {
+        code_submission_id: codeSubmission.id,
+        auto_grade_status: report.status,
+        auto_grade: report.status === 'completed' ? Math.round(report.score * (assignment.points || 0)) / 100 : null,
+    };
+    // A resubmission while the tests ran replaces the graded version, so the
+    // score is only recorded while that version is still the current one
+    const { snapshot } = await submissionRef.transaction((current) => {
+        if (current === null) return current;
+        if (current.submitted_at !== submission.submitted_at) return undefined;
+        return { ...current, ...graded };
+    });
+
+    // Students only see how they did on the example tests
+    const exampleIds = new Set(exampleTests.map((testCase) => testCase.id));
+    return {
+        status: report.status,
+        score: report.score,
+        results: report.results.filter((result) => exampleIds.has(result.test_case_id)),
+        ...(report.error ? { error: report.error } : {}),
+        submission: { id: submissionId, ...snapshot.val() },
+    };
+};
+
+module.exports = { gradeCodeSubmission, gradeTestCases, normalizeOutput };
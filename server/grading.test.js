@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import grading from './grading.cjs';
+import { gradeTestCases, normalizeOutput, registerRunner } from '../src/components/student/utils/code-runner';
+
+// The browser grades the example tests and the server grades every test, so
+// the same runs must pass or fail alike. Both are fed canned runs keyed by the
+// test case's input instead of running the code.
+
+const runs = {
+    exact: { status: 'ok', stdout: '1\n2\n3\n', stderr: '', durationMs: 5 },
+    spaces: { status: 'ok', stdout: '1  \r\n2\t\r\n3\r\n\r\n', stderr: '', durationMs: 5 },
+    wrong: { status: 'ok', stdout: '1\n2\n4\n', stderr: '', durationMs: 6 },
+    inner: { status: 'ok', stdout: '1\n\n2\n3', stderr: '', durationMs: 6 },
+    crash: { status: 'runtime_error', stdout: '1\n2\n3\n', stderr: 'Traceback', error: 'ZeroDivisionError', durationMs: 7 },
+    slow: { status: 'timeout', stdout: '', stderr: '', durationMs: 5000 },
+    down: { status: 'unavailable', stdout: '', stderr: '', error: 'Sandbox is not installed', durationMs: 0 },
+};
+
+const cannedRun = (input) => Promise.resolve(runs[input]);
+const sandbox = (language, code, stdin) => cannedRun(stdin);
+
+registerRunner({ name: 'Canned', languages: ['python'], run: (request) => cannedRun(request.stdin) });
+
+const testCase = (input, weight) => ({ id: input, input, expected_output: '1\n2\n3', ...(weight ? { weight } : {}) });
+
+const gradeBoth = async (testCases) => [
+    await grading.gradeTestCases('python', 'print()', testCases, sandbox),
+    await gradeTestCases('python', 'print()', testCases),
+];
+
+describe('normalizeOutput', () => {
+    it.each(Object.entries(runs))('reads the %s output like the browser', (_, run) => {
+        expect(grading.normalizeOutput(run.stdout)).toBe(normalizeOutput(run.stdout));
+    });
+});
+
+describe('gradeTestCases', () => {
+    it('passes and fails the same tests, weighted the same', async () => {
+        const [server, browser] = await gradeBoth([
+            testCase('exact', 2),
+            testCase('spaces'),
+            testCase('wrong', 3),
+            testCase('inner'),
+            testCase('crash'),
+            testCase('slow'),
+        ]);
+        expect(server).toEqual(browser);
+        expect(server.results.map((result) => result.passed)).toEqual([true, true, false, false, false, false]);
+        expect(server.score).toBe(33);
+    });
+
+    it('fails the whole grading the same way when the sandbox is down', async () => {
+        const [server, browser] = await gradeBoth([testCase('exact'), testCase('down'), testCase('wrong')]);
+        expect(server).toEqual(browser);
+        expect(server).toMatchObject({ status: 'failed', score: 0, error: 'Sandbox is not installed' });
+    });
+
+    it('refuses an assignment without test cases the same way', async () => {
+        const [server, browser] = await gradeBoth([]);
+        expect(server).toEqual(browser);
+    });
+});
@@ -0,0 +1,152 @@
+const { database } = require('./firebase.cjs');
+const { recordAttempt } = require('./attempts.cjs');
+const { RequestError } = require('./errors.cjs');
+
+// Joining a course or connecting with a teacher by access code. Codes are only
+// readable by their course's teacher, so students redeem them here, where each
+// student's attempts are counted and a code's uses are reserved before the
+// student is enrolled.
+
+// Matches ACCESS_CODE_LENGTH in src/lib/access-codes.ts
+const CODE_PATTERN = /^[A-Z0-9]{6}$/;
+const MAX_JOIN_ATTEMPTS = 10;
+const JOIN_ATTEMPT_WINDOW_MS = 15 * 60 * 1000;
+
+const STATUS_ERRORS = {
+    revoked: 'This access code is no longer valid. Ask your teacher for a new one.',
+    expired: 'This access code has expired. Ask your teacher for a new one.',
+    used_up: 'This access code has reached its maximum number of uses.',
+};
+
+// Mirrors accessCodeStatus in src/lib/access-codes.ts, as server/join.test.js checks
+const accessCodeStatus = (code, now = Date.now()) => {
+    if (!code.is_active) return 'revoked';
+    if (code.expires_at !== undefined && code.expires_at <= now) return 'expired';
+    if (code.max_uses !== undefined && (code.use_count || 0) >= code.max_uses) return 'used_up';
+    return 'active';
+};
+
+// Finds the code, preferring an active one when an old code shares its value
+const findAccessCode = async (userId, input) => {
+    // Counted whether or not the code turns out to be valid
+    await recordAttempt('join_attempts', userId, MAX_JOIN_ATTEMPTS, JOIN_ATTEMPT_WINDOW_MS);
+
+    const value = typeof input === 'string' ? input.trim().toUpperCase() : '';
+    if (!CODE_PATTERN.test(value)) {
+        throw new RequestError(404, 'Invalid access code. Please check and try again.');
+    }
+
+    const matches = [];
+    (await database.ref('access_codes').orderByChild('code').equalTo(value).get()).forEach((child) => {
+        matches.push({ ...child.val(), id: child.key });
+    });
+    if (matches.length === 0) {
+        throw new RequestError(404, 'Invalid access code. Please check and try again.');
+    }
+    const code = matches.find((match) => accessCodeStatus(match) === 'active') || matches[0];
+    const status = accessCodeStatus(code);
+    if (status !== 'active') throw new RequestError(409, STATUS_ERRORS[status]);
+    return code;
+};
+
+// Takes one use of the code, as long as it is still active. Two students
+// redeeming the last use at once cannot both get it.
+const reserveUse = async (code) => {
+    let status = 'active';
+    const { committed, snapshot } = await database.ref(`access_codes/${code.id}`).transaction((current) => {
+        if (current === null) return current;
+        status = accessCodeStatus(current);
+        return status === 'active' ? { ...current, use_count: (current.use_count || 0) + 1 } : undefined;
+    });
+    if (!snapshot.exists()) throw new RequestError(404, 'Invalid access code. Please check and try again.');
+    if (!committed) throw new RequestError(409, STATUS_ERRORS[status]);
+};
+
+const releaseUse = (code) => database.ref(`access_codes/${code.id}/use_count`)
+    .transaction((count) => (count ? count - 1 : count));
+
+const requestToJoin = async (code, course, student, userId) => {
+    const id = `${course.id}_${userId}`;
+    const request = {
+        id,
+        course_id: course.id,
+        student_id: userId,
+        student_name: student.name || 'Unknown Student',
+        access_code_id: code.id,
+        ...(code.section ? { section: code.section } : {}),
+        requested_at: new Date().toISOString(),
+        status: 'pending',
+    };
+    let existing = null;
+    // A student files one request per course; a declined one stays declined
+    const { committed } = await database.ref(`join_requests/${id}`).transaction((current) => {
+        existing = current;
+        return !current || current.status === 'approved' ? request : undefined;
+    });
+    if (committed) return 'pending';
+    if (existing.status === 'rejected') throw new RequestError(403, 'Your request to join this course was declined.');
+    return 'already_requested';
+};
+
+// Enrolls the student with the code, or files a join request when the code
+// needs the teacher's approval
+const redeemAccessCode = async (userId, input) => {
+    const code = await findAccessCode(userId, input);
+
+    const [courseSnapshot, studentSnapshot] = await Promise.all([
+        database.ref(`courses/${code.course_id}`).get(),
+        database.ref(`users/${userId}`).get(),
+    ]);
+    if (!courseSnapshot.exists()) throw new RequestError(404, 'Error finding course');
+    const course = { ...courseSnapshot.val(), id: courseSnapshot.key };
+    const student = studentSnapshot.val() || {};
+    const result = (status) => ({ status, course_title: course.title });
+
+    const enrollmentRef = database.ref(`enrollments/${course.id}_${userId}`);
+    if ((await enrollmentRef.get()).exists()) return result('already_enrolled');
+
+    if (code.requires_approval) {
+        return result(await requestToJoin(code, course, student, userId));
+    }
+
+    await reserveUse(code);
+    const enrollment = {
+        id: enrollmentRef.key,
+        course_id: course.id,
+        student_id: userId,
+        student_name: student.name || 'Unknown Student',
+        enrolled_at: new Date().toISOString(),
+        completed: false,
+        progress: 0,
+        ...(code.section ? { section: code.section } : {}),
+        access_code_id: code.id,
+    };
+    try {
+        const { committed } = await enrollmentRef.transaction((current) => (current === null ? enrollment : undefined));
+        if (committed) return result('enrolled');
+    } catch (error) {
+        await releaseUse(code);
+        throw error;
+    }
+    // Enrolled by another request in the meantime
+    await releaseUse(code);
+    return result('already_enrolled');
+};
+
+// Connects the student with the teacher who made the code
+const connectTeacher = async (userId, input) => {
+    const code = await findAccessCode(userId, input);
+    const teacher = (await database.ref(`users/${code.teacher_id}`).get()).val() || {};
+    const connection = {
+        teacher_id: code.teacher_id,
+        student_id: userId,
+        access_code: code.code,
+        connected_at: new Date().toISOString(),
+        status: 'active',
+    };
+    const { committed } = await database.ref(`teacher_connections/${code.teacher_id}_${userId}`)
+        .transaction((current) => (current && current.status === 'active' ? undefined : connection));
+    return { status: committed ? 'connected' : 'already_connected', teacher_name: teacher.name || '' };
+};
+
+module.exports = { accessCodeStatus, connectTeacher, redeemAccessCode };
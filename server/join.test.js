@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import join from './join.cjs';
+import { accessCodeStatus } from '../src/lib/access-codes';
+
+// Codes are redeemed here and listed with their status in the teacher's app,
+// so both must agree on which codes still work
+
+const now = Date.parse('2026-06-01T12:00:00Z');
+
+const code = (fields) => ({
+    id: 'code-1',
+    code: 'ABC234',
+    teacher_id: 'teacher-1',
+    course_id: 'course-1',
+    created_at: '',
+    is_active: true,
+    ...fields,
+});
+
+const codes = {
+    active: code({}),
+    'active until later': code({ expires_at: now + 1, max_uses: 5, use_count: 4 }),
+    'expiring now': code({ expires_at: now }),
+    expired: code({ expires_at: now - 1 }),
+    'used up': code({ max_uses: 3, use_count: 3 }),
+    'over its cap': code({ max_uses: 3, use_count: 4 }),
+    'never used, no uses allowed': code({ max_uses: 0 }),
+    'no use count yet': code({ max_uses: 1 }),
+    revoked: code({ is_active: false }),
+    'revoked and expired': code({ is_active: false, expires_at: now - 1, max_uses: 1, use_count: 1 }),
+    'expired and used up': code({ expires_at: now - 1, max_uses: 1, use_count: 1 }),
+};
+
+describe('accessCodeStatus', () => {
+    it.each(Object.entries(codes))('gives a code that is %s the same status as the app', (_, accessCode) => {
+        expect(join.accessCodeStatus(accessCode, now)).toBe(accessCodeStatus(accessCode, now));
+    });
+
+    it('tells each reason apart', () => {
+        expect(Object.values(codes).map((accessCode) => join.accessCodeStatus(accessCode, now))).toEqual([
+            'active',
+            'active',
+            'expired',
+            'expired',
+            'used_up',
+            'used_up',
+            'used_up',
+            'active',
+            'revoked',
+            'revoked',
+            'expired',
+        ]);
+    });
+});
@@ -0,0 +1,248 @@
+const { getAuth } = require('firebase-admin/auth');
+const { ServerValue } = require('firebase-admin/database');
+const { app, database } = require('./firebase.cjs');
+const { EMAIL_PATTERN, enqueueMail, processMailQueue } = require('./mail.cjs');
+
+// Email for what happens in the app: every in-app notification is sent on by
+// email, new users are welcomed, students are reminded a day before an
+// assignment they haven't submitted is due, and each Monday they get a digest
+// of the notifications they haven't read. Nothing is emailed unless an admin
+// has turned email on under system_settings/notifications. How far the
+// notifications and users have been emailed is kept under mail_events, which
+// only the server can reach, so a restart neither repeats nor skips any. The
+// cursors follow sent_at and joined_at, which the rules only let the database
+// set, so a client cannot move them past mail still to be sent.
+
+const SETTINGS_PATH = 'system_settings/notifications';
+const SCHEDULE_INTERVAL_MS = 60 * 60 * 1000;
+const DUE_SOON_MS = 24 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_DIGEST_ITEMS = 20;
+
+const logFailure = (what) => (error) => console.error(`Error emailing ${what}:`, error);
+
+// Defaults match DEFAULT_NOTIFICATION_SETTINGS in src/lib/notifications.ts
+const readSettings = async () => ({
+    assignment_reminders: true,
+    email_notifications: false,
+    ...(await database.ref(SETTINGS_PATH).get()).val(),
+});
+
+// Like dueTime in src/lib/gradebook.ts, except that plain days end at midnight
+// UTC rather than in the student's time zone
+const dueTime = (dueDate) => (/^\d{4}-\d{2}-\d{2}$/.test(dueDate)
+    ? new Date(`${dueDate}T23:59:59.999Z`)
+    : new Date(dueDate));
+
+const formatDue = (date) => `${date.toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short', timeZone: 'UTC' })} UTC`;
+
+// The user's name and email address, or null when there is no address to send to
+const recipientOf = async (userId) => {
+    const user = (await database.ref(`users/${userId}`).get()).val() || {};
+    let email = user.email;
+    if (!email) {
+        email = await getAuth(app).getUser(userId).then((record) => record.email, () => undefined);
+    }
+    return typeof email === 'string' && EMAIL_PATTERN.test(email) ? { name: user.name, email } : null;
+};
+
+const queue = (template, recipient, data) => {
+    enqueueMail(template, recipient.email, { name: recipient.name, ...data });
+    processMailQueue();
+};
+
+// Moves a cursor forward, never back
+const advance = (cursorRef, value) => cursorRef.transaction((current) => (!current || current < value ? value : undefined));
+
+// Calls `onAdded` for each record of `path` whose database time in `field` is
+// after the stored cursor. The first run starts from now rather than emailing
+// everything already there.
+const watchCreated = async (path, field, cursorName, onAdded) => {
+    const cursorRef = database.ref(`mail_events/${cursorName}`);
+    let after = (await cursorRef.get()).val();
+    if (!after) {
+        after = Date.now();
+        await cursorRef.set(after);
+    }
+    database.ref(path).orderByChild(field).startAfter(after).on('child_added', (snapshot) => {
+        const record = { ...snapshot.val(), id: snapshot.key };
+        onAdded(record)
+            .then(() => advance(cursorRef, record[field]))
+            .catch(logFailure(`${path}/${snapshot.key}`));
+    });
+};
+
+// Due-date reminders are keyed due_soon_{assignmentId}_{userId}, by the server
+// below and by sendDueSoonReminders in src/lib/notifications.ts
+const reminderAssignmentId = (notification) => {
+    const prefix = 'due_soon_';
+    const suffix = `_${notification.user_id}`;
+    const { id } = notification;
+    return id.startsWith(prefix) && id.endsWith(suffix) ? id.slice(prefix.length, -suffix.length) : null;
+};
+
+const listWhere = async (path, child, value) => {
+    const records = [];
+    (await database.ref(path).orderByChild(child).equalTo(value).get()).forEach((snapshot) => {
+        records.push({ ...snapshot.val(), id: snapshot.key });
+    });
+    return records;
+};
+
+// What a grade notification is about, read from the graded submission itself
+// rather than from the notification the teacher's browser wrote
+const gradeOf = async (userId, assignmentId) => {
+    const assignment = (await database.ref(`assignments/${assignmentId}`).get()).val();
+    if (!assignment) return null;
+    const graded = (await listWhere('submissions', 'user_id', userId))
+        .filter((submission) => submission.assignment_id === assignmentId && typeof submission.grade === 'number')
+        .sort((a, b) => b.submitted_at - a.submitted_at)[0];
+    if (!graded) return null;
+    const course = (await database.ref(`courses/${assignment.course_id}`).get()).val();
+    return {
+        assignment: assignment.title,
+        course: course && course.title,
+        grade: graded.grade,
+        points: assignment.points,
+    };
+};
+
+const emailNotification = async (notification) => {
+    if (!(await readSettings()).email_notifications) return;
+    const recipient = await recipientOf(notification.user_id);
+    if (!recipient) return;
+
+    const assignmentId = notification.type === 'due_soon' ? reminderAssignmentId(notification) : null;
+    const assignment = assignmentId && (await database.ref(`assignments/${assignmentId}`).get()).val();
+    if (assignment && assignment.due_date) {
+        const course = (await database.ref(`courses/${assignment.course_id}`).get()).val();
+        queue('deadline_reminder', recipient, {
+            assignment: assignment.title,
+            course: course && course.title,
+            due: formatDue(dueTime(assignment.due_date)),
+        });
+        return;
+    }
+
+    const graded = notification.type === 'grade' && notification.assignment_id
+        && await gradeOf(notification.user_id, notification.assignment_id);
+    if (graded) {
+        queue('grade_posted', recipient, graded);
+        return;
+    }
+
+    queue('notification', recipient, {
+        title: notification.title,
+        content: notification.content,
+        link: notification.link,
+    });
+};
+
+const emailWelcome = async (user) => {
+    if (!(await readSettings()).email_notifications) return;
+    const recipient = await recipientOf(user.id);
+    if (recipient) queue('welcome', recipient, {});
+};
+
+// Writes the in-app reminder, which is then emailed like any other
+// notification. Students who turned reminders off are skipped.
+const remindStudent = async (assignment, studentId, now) => {
+    const preferences = (await database.ref(`notification_preferences/${studentId}`).get()).val() || {};
+    if (preferences.due_soon === false) return;
+
+    const key = `due_soon_${assignment.id}_${studentId}`;
+    const notification = {
+        id: key,
+        user_id: studentId,
+        title: `${assignment.title} is due soon`,
+        type: 'due_soon',
+        content: `Due ${formatDue(dueTime(assignment.due_date))}. You haven't submitted it yet.`,
+        link: '/student/assignments',
+        course_id: assignment.course_id,
+        created_at: new Date(now).toISOString(),
+        read: false,
+        sent_at: ServerValue.TIMESTAMP,
+    };
+    await database.ref(`notifications/${key}`).transaction((current) => (current === null ? notification : undefined));
+};
+
+const sendDeadlineReminders = async (now = Date.now()) => {
+    if (!(await readSettings()).assignment_reminders) return;
+
+    // Due dates are yyyy-MM-dd days or ISO timestamps, which both sort by day
+    const from = new Date(now - DAY_MS).toISOString().slice(0, 10);
+    const to = new Date(now + DUE_SOON_MS).toISOString().slice(0, 10);
+    const candidates = [];
+    (await database.ref('assignments').orderByChild('due_date').startAt(from).endAt(`${to}\uf8ff`).get())
+        .forEach((snapshot) => {
+            candidates.push({ ...snapshot.val(), id: snapshot.key });
+        });
+    const dueSoon = candidates.filter((assignment) => {
+        const left = dueTime(assignment.due_date).getTime() - now;
+        return left > 0 && left <= DUE_SOON_MS;
+    });
+
+    for (const assignment of dueSoon) {
+        const [enrollments, submissions] = await Promise.all([
+            listWhere('enrollments', 'course_id', assignment.course_id),
+            listWhere('submissions', 'assignment_id', assignment.id),
+        ]);
+        const submitted = new Set(submissions.map((submission) => submission.user_id));
+        for (const { student_id: studentId } of enrollments) {
+            if (!submitted.has(studentId)) await remindStudent(assignment, studentId, now);
+        }
+    }
+};
+
+// Monday of the week `time` falls in, as yyyy-MM-dd in UTC
+const weekOf = (time) => {
+    const date = new Date(time);
+    date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+    return date.toISOString().slice(0, 10);
+};
+
+// Once a week, the unread notifications of the past seven days
+const sendWeeklyDigests = async (now = Date.now()) => {
+    const week = weekOf(now);
+    if (!(await readSettings()).email_notifications) return;
+    let previous = null;
+    const { committed } = await database.ref('mail_events/digest_week').transaction((current) => {
+        previous = current;
+        return current === week ? undefined : week;
+    });
+    // The first run only marks the week, so turning email on doesn't send a digest midweek
+    if (!committed || !previous) return;
+
+    const since = new Date(now - 7 * DAY_MS).toISOString();
+    const unread = new Map();
+    (await database.ref('notifications').orderByChild('created_at').startAt(since).get()).forEach((snapshot) => {
+        const notification = snapshot.val();
+        if (notification.read || !notification.user_id) return;
+        unread.set(notification.user_id, [...(unread.get(notification.user_id) || []), notification]);
+    });
+
+    for (const [userId, notifications] of unread) {
+        const recipient = await recipientOf(userId);
+        if (!recipient) continue;
+        const items = notifications
+            .sort((a, b) => a.created_at.localeCompare(b.created_at))
+            .slice(-MAX_DIGEST_ITEMS)
+            .map((notification) => ({ title: notification.title, detail: notification.content }));
+        queue('weekly_digest', recipient, { week: weekOf(now - 7 * DAY_MS), items });
+    }
+};
+
+const runSchedule = () => {
+    sendDeadlineReminders().catch(logFailure('deadline reminders'));
+    sendWeeklyDigests().catch(logFailure('weekly digests'));
+};
+
+const startMailEvents = () => {
+    watchCreated('notifications', 'sent_at', 'notifications_after', emailNotification)
+        .catch(logFailure('notifications'));
+    watchCreated('users', 'joined_at', 'users_after', emailWelcome).catch(logFailure('welcome messages'));
+    runSchedule();
+    setInterval(runSchedule, SCHEDULE_INTERVAL_MS);
+};
+
+module.exports = { startMailEvents };
@@ -0,0 +1,408 @@
+const crypto = require('crypto');
+const fs = require('fs');
+const net = require('net');
+const os = require('os');
+const path = require('path');
+const tls = require('tls');
+
+// Outgoing email. Messages are rendered from the templates below when they are
+// queued, then delivered by a small SMTP client so no mail service SDK is
+// needed. The defaults point at a local catcher such as MailHog
+// (localhost:1025); set SMTP_HOST and friends for a real relay. Mail about
+// what happens in the app is queued by server/mail-events.cjs; other services
+// queue it through the /mail endpoints with MAIL_API_KEY, and the endpoints
+// stay off without it.
+const MAIL_CONFIG = {
+    host: process.env.SMTP_HOST || 'localhost',
+    port: Number(process.env.SMTP_PORT) || 1025,
+    secure: process.env.SMTP_SECURE === 'true', // TLS from the start, usually port 465
+    user: process.env.SMTP_USER,
+    pass: process.env.SMTP_PASS,
+    from: process.env.MAIL_FROM || 'EduConnect <no-reply@educonnect.local>',
+    appUrl: process.env.APP_URL || 'http://localhost:8080',
+    apiKey: process.env.MAIL_API_KEY,
+    queueFile: process.env.MAIL_QUEUE_FILE || path.join(__dirname, '..', 'mail-queue.json'),
+};
+
+const SMTP_TIMEOUT_MS = 30000;
+const MAIL_POLL_MS = 5000;
+const MAX_MAIL_ATTEMPTS = 5;
+const RETRY_DELAYS_MS = [60 * 1000, 5 * 60 * 1000, 30 * 60 * 1000, 2 * 60 * 60 * 1000];
+const KEPT_FINISHED_JOBS = 500;
+const EMAIL_PATTERN = /^[^\s@<>,;"]+@[^\s@<>,;"]+\.[^\s@<>,;"]+$/;
+
+const escapeHtml = (value) => String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const appLink = (linkPath) => `${MAIL_CONFIG.appUrl}${linkPath}`;
+
+// Every template gets a plain text part and the same content as simple HTML
+const layout = (heading, paragraphs, action) => ({
+    text: [heading, '', ...paragraphs.flatMap((paragraph) => [paragraph, '']), action ? `${action.label}: ${action.url}` : '']
+        .join('\n')
+        .trim(),
+    html: [
+        '<div style="font-family: sans-serif; max-width: 560px; margin: 0 auto;">',
+        `<h2>${escapeHtml(heading)}</h2>`,
+        ...paragraphs.map((paragraph) => `<p>${escapeHtml(paragraph)}</p>`),
+        action ? `<p><a href="${escapeHtml(action.url)}">${escapeHtml(action.label)}</a></p>` : '',
+        '<p style="color: #888; font-size: 12px;">Sent by EduConnect</p>',
+        '</div>',
+    ].join('\n'),
+});
+
+const MAIL_TEMPLATES = {
+    welcome: ({ name }) => ({
+        subject: 'Welcome to EduConnect',
+        ...layout(`Welcome, ${name || 'there'}!`, [
+            'Your EduConnect account is ready. Join a course with the access code from your teacher to get started.',
+        ], { label: 'Open EduConnect', url: appLink('/dashboard') }),
+    }),
+    grade_posted: ({ name, assignment, course, grade, points }) => ({
+        subject: `Grade posted: ${assignment}`,
+        ...layout(`${assignment} has been graded`, [
+            `Hi ${name || 'there'}, your work for ${assignment}${course ? ` in ${course}` : ''} has been graded.`,
+            points ? `You scored ${grade} out of ${points}.` : `You scored ${grade}.`,
+        ], { label: 'View your assignments', url: appLink('/student/assignments') }),
+    }),
+    deadline_reminder: ({ name, assignment, course, due }) => ({
+        subject: `Reminder: ${assignment} is due soon`,
+        ...layout(`${assignment} is due soon`, [
+            `Hi ${name || 'there'}, ${assignment}${course ? ` for ${course}` : ''} is due ${due}. You haven't submitted it yet.`,
+        ], { label: 'Submit your work', url: appLink('/student/assignments') }),
+    }),
+    // In-app notifications, sent on by email when the admins turn email on
+    notification: ({ name, title, content, link }) => ({
+        subject: title,
+        ...layout(title, [
+            `Hi ${name || 'there'},`,
+            ...(content ? [content] : []),
+        ], { label: 'Open EduConnect', url: appLink(link || '/dashboard') }),
+    }),
+    weekly_digest: ({ name, week, items = [] }) => ({
+        subject: `Your week on EduConnect${week ? `: ${week}` : ''}`,
+        ...layout(`Your week${week ? ` of ${week}` : ''}`, [
+            `Hi ${name || 'there'}, here is what happened in your courses.`,
+            ...(items.length > 0
+                ? items.map((item) => (item.detail ? `${item.title}: ${item.detail}` : item.title))
+                : ['Nothing new this week.']),
+        ], { label: 'Open your dashboard', url: appLink('/dashboard') }),
+    }),
+};
+
+const REQUIRED_TEMPLATE_DATA = {
+    welcome: [],
+    grade_posted: ['assignment', 'grade'],
+    deadline_reminder: ['assignment', 'due'],
+    notification: ['title'],
+    weekly_digest: [],
+};
+
+const renderMail = (template, data = {}) => {
+    const render = MAIL_TEMPLATES[template];
+    if (!render) throw new Error(`Unknown email template: ${template}`);
+    const missing = REQUIRED_TEMPLATE_DATA[template].filter((field) => data[field] === undefined || data[field] === '');
+    if (missing.length > 0) throw new Error(`Missing template data: ${missing.join(', ')}`);
+    if (data.items !== undefined && !Array.isArray(data.items)) throw new Error('items must be a list');
+    if (data.link !== undefined && !/^\/(?!\/)/.test(data.link)) throw new Error('link must be a path in the app');
+    return render(data);
+};
+
+// MIME encoding. Both parts are base64 so any text survives the SMTP line
+// rules; headers with non-ASCII text use encoded words.
+const encodeHeader = (value) => (/^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`);
+
+const base64Lines = (text) => Buffer.from(text, 'utf8').toString('base64').replace(/.{1,76}/g, '$&\r\n');
+
+const addressOf = (mailbox) => (mailbox.match(/<([^>]+)>/) || [null, mailbox])[1].trim();
+
+const buildMessage = (job) => {
+    const boundary = `----=_Part_${job.id}`;
+    const domain = addressOf(MAIL_CONFIG.from).split('@')[1] || 'localhost';
+    return [
+        `From: ${MAIL_CONFIG.from}`,
+        `To: ${job.to}`,
+        `Subject: ${encodeHeader(job.subject)}`,
+        `Date: ${new Date().toUTCString()}`,
+        `Message-ID: <${job.id}@${domain}>`,
+        'MIME-Version: 1.0',
+        `Content-Type: multipart/alternative; boundary="${boundary}"`,
+        '',
+        `--${boundary}`,
+        'Content-Type: text/plain; charset=utf-8',
+        'Content-Transfer-Encoding: base64',
+        '',
+        base64Lines(job.text),
+        `--${boundary}`,
+        'Content-Type: text/html; charset=utf-8',
+        'Content-Transfer-Encoding: base64',
+        '',
+        base64Lines(job.html),
+        `--${boundary}--`,
+        '',
+    ].join('\r\n');
+};
+
+class SmtpError extends Error {
+    constructor(message, code, stage) {
+        super(message);
+        this.code = code; // Reply code, or undefined for connection problems
+        this.stage = stage;
+    }
+}
+
+// One SMTP conversation per message: connect, EHLO, STARTTLS and AUTH when
+// available, then the envelope and the message. The connection closing early
+// fails the send, so a server that hangs up never leaves a job stuck.
+const sendSmtp = (job) => new Promise((resolve, reject) => {
+    let socket;
+    let buffer = '';
+    let lines = [];
+    const replies = [];
+    let waiting = null;
+    let closed = null;
+    let settled = false;
+    let stage = 'connect';
+
+    const fail = (error) => {
+        if (settled) return;
+        settled = true;
+        socket.destroy();
+        reject(error instanceof SmtpError ? error : new SmtpError(error.message, undefined, stage));
+    };
+
+    const onData = (chunk) => {
+        buffer += chunk.toString('utf8');
+        let index;
+        while ((index = buffer.indexOf('\r\n')) !== -1) {
+            const line = buffer.slice(0, index);
+            buffer = buffer.slice(index + 2);
+            lines.push(line);
+            // "250-" continues a reply, "250 " ends it
+            if (/^\d{3}(?: |$)/.test(line)) {
+                replies.push({ code: Number(line.slice(0, 3)), lines: lines.map((l) => l.slice(4)) });
+                lines = [];
+                if (waiting) {
+                    const next = waiting;
+                    waiting = null;
+                    next.resolve(replies.shift());
+                }
+            }
+        }
+    };
+
+    // Rejects the reply being waited for, and any asked for later
+    const onClose = () => {
+        closed = new SmtpError(`SMTP connection closed during ${stage}`, undefined, stage);
+        if (waiting) {
+            const next = waiting;
+            waiting = null;
+            next.reject(closed);
+        }
+        fail(closed);
+    };
+
+    const attach = (target) => {
+        target.setTimeout(SMTP_TIMEOUT_MS, () => fail(new SmtpError('SMTP connection timed out', undefined, stage)));
+        target.on('data', onData);
+        target.on('error', fail);
+        target.on('close', onClose);
+    };
+
+    const reply = () => new Promise((resolveReply, rejectReply) => {
+        if (replies.length > 0) resolveReply(replies.shift());
+        else if (closed) rejectReply(closed);
+        else waiting = { resolve: resolveReply, reject: rejectReply };
+    });
+
+    const command = async (nextStage, line, expected) => {
+        stage = nextStage;
+        if (line !== null) socket.write(`${line}\r\n`);
+        const response = await reply();
+        if (!expected.includes(response.code)) {
+            throw new SmtpError(`${nextStage}: ${response.code} ${response.lines.join(' ')}`, response.code, nextStage);
+        }
+        return response;
+    };
+
+    const converse = async () => {
+        await command('connect', null, [220]);
+        let hello = await command('ehlo', `EHLO ${os.hostname()}`, [250]);
+        const supports = (extension) => hello.lines.some((line) => line.toUpperCase().startsWith(extension));
+
+        if (!MAIL_CONFIG.secure && supports('STARTTLS')) {
+            await command('starttls', 'STARTTLS', [220]);
+            socket.removeListener('data', onData);
+            socket.removeListener('close', onClose);
+            socket = tls.connect({ socket, servername: MAIL_CONFIG.host });
+            attach(socket);
+            hello = await command('ehlo', `EHLO ${os.hostname()}`, [250]);
+        }
+        if (MAIL_CONFIG.user) {
+            const credentials = Buffer.from(`\0${MAIL_CONFIG.user}\0${MAIL_CONFIG.pass || ''}`).toString('base64');
+            await command('auth', `AUTH PLAIN ${credentials}`, [235]);
+        }
+
+        await command('mail', `MAIL FROM:<${addressOf(MAIL_CONFIG.from)}>`, [250]);
+        await command('rcpt', `RCPT TO:<${job.to}>`, [250, 251]);
+        await command('data', 'DATA', [354]);
+        // Lines starting with a dot are escaped by doubling it
+        const message = buildMessage(job).replace(/^\./gm, '..');
+        await command('message', `${message}.`, [250]);
+        stage = 'quit';
+        settled = true;
+        socket.end('QUIT\r\n');
+    };
+
+    socket = MAIL_CONFIG.secure
+        ? tls.connect({ host: MAIL_CONFIG.host, port: MAIL_CONFIG.port, servername: MAIL_CONFIG.host })
+        : net.connect({ host: MAIL_CONFIG.host, port: MAIL_CONFIG.port });
+    attach(socket);
+    converse().then(resolve, fail);
+});
+
+// The queue and the bounce list are kept in one JSON file so pending retries
+// survive a restart. A recipient the server rejects outright is recorded as
+// bounced and skipped until the bounce is cleared.
+const loadMailState = () => {
+    try {
+        return JSON.parse(fs.readFileSync(MAIL_CONFIG.queueFile, 'utf8'));
+    } catch {
+        return { jobs: [], bounces: {} };
+    }
+};
+
+const mailState = loadMailState();
+
+// A send interrupted by a restart is tried again
+mailState.jobs.filter((job) => job.status === 'sending').forEach((job) => { job.status = 'queued'; });
+
+const saveMailState = () => {
+    const finished = mailState.jobs.filter((job) => !['queued', 'sending'].includes(job.status));
+    if (finished.length > KEPT_FINISHED_JOBS) {
+        const dropped = new Set(finished.slice(0, finished.length - KEPT_FINISHED_JOBS));
+        mailState.jobs = mailState.jobs.filter((job) => !dropped.has(job));
+    }
+    fs.writeFileSync(MAIL_CONFIG.queueFile, JSON.stringify(mailState, null, 2));
+};
+
+const recordBounce = (email, reason) => {
+    const key = email.toLowerCase();
+    const previous = mailState.bounces[key];
+    mailState.bounces[key] = { reason, bounced_at: new Date().toISOString(), count: (previous?.count || 0) + 1 };
+};
+
+const enqueueMail = (template, to, data) => {
+    const rendered = renderMail(template, data);
+    const now = new Date().toISOString();
+    const job = {
+        id: crypto.randomUUID(),
+        template,
+        to,
+        subject: rendered.subject,
+        text: rendered.text,
+        html: rendered.html,
+        status: mailState.bounces[to.toLowerCase()] ? 'suppressed' : 'queued',
+        attempts: 0,
+        created_at: now,
+        next_attempt_at: now,
+    };
+    mailState.jobs.push(job);
+    saveMailState();
+    return job;
+};
+
+const deliver = async (job) => {
+    job.status = 'sending';
+    job.attempts += 1;
+    try {
+        await sendSmtp(job);
+        job.status = 'sent';
+        job.sent_at = new Date().toISOString();
+        delete job.last_error;
+    } catch (error) {
+        job.last_error = error.message;
+        const permanent = error.code >= 500;
+        if (permanent && error.stage === 'rcpt') {
+            job.status = 'bounced';
+            recordBounce(job.to, error.message);
+        } else if (permanent || job.attempts >= MAX_MAIL_ATTEMPTS) {
+            job.status = 'failed';
+        } else {
+            job.status = 'queued';
+            const delay = RETRY_DELAYS_MS[Math.min(job.attempts - 1, RETRY_DELAYS_MS.length - 1)];
+            job.next_attempt_at = new Date(Date.now() + delay).toISOString();
+        }
+        console.error(`Email ${job.id} to ${job.to} ${job.status === 'queued' ? 'will be retried' : job.status}:`, error.message);
+    }
+    saveMailState();
+};
+
+let isDelivering = false;
+
+const processMailQueue = async () => {
+    if (isDelivering) return;
+    isDelivering = true;
+    try {
+        const now = new Date().toISOString();
+        for (const job of mailState.jobs.filter((j) => j.status === 'queued' && j.next_attempt_at <= now)) {
+            await deliver(job);
+        }
+    } catch (error) {
+        console.error('Error processing the mail queue:', error.message);
+    } finally {
+        isDelivering = false;
+    }
+};
+
+
+const jobSummary = ({ text, html, ...job }) => job;
+
+// Newest first, without the rendered bodies
+const listMailJobs = (status) => (status ? mailState.jobs.filter((job) => job.status === status) : mailState.jobs)
+    .map(jobSummary)
+    .reverse();
+
+const listBounces = () => mailState.bounces;
+
+const reportBounce = (email, reason) => {
+    recordBounce(email, reason);
+    saveMailState();
+};
+
+const clearBounce = (email) => {
+    delete mailState.bounces[email.toLowerCase()];
+    saveMailState();
+};
+
+const startMailQueue = () => setInterval(processMailQueue, MAIL_POLL_MS);
+
+const requireMailKey = (req, res, next) => {
+    if (!MAIL_CONFIG.apiKey) {
+        return res.status(503).json({ error: 'Email is not configured' });
+    }
+    if (req.get('Authorization') !== `Bearer ${MAIL_CONFIG.apiKey}`) {
+        return res.status(401).json({ error: 'Unauthorized' });
+    }
+    next();
+};
+
+module.exports = {
+    EMAIL_PATTERN,
+    clearBounce,
+    enqueueMail,
+    jobSummary,
+    listBounces,
+    listMailJobs,
+    processMailQueue,
+    renderMail,
+    reportBounce,
+    requireMailKey,
+    sendSmtp,
+    startMailQueue,
+};
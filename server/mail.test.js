@@ -0,0 +1,155 @@
+import fs from 'fs';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+
+// Runs the mail module against a small SMTP server on a local port. Each test
+// picks how the server behaves.
+
+let smtpServer;
+let behaviour;
+let received;
+let queueDir;
+let mail;
+
+const startSmtpServer = () => new Promise((resolve) => {
+    smtpServer = net.createServer((socket) => {
+        let buffer = '';
+        let inData = false;
+        socket.write('220 localhost ready\r\n');
+        socket.on('data', (chunk) => {
+            buffer += chunk.toString('utf8');
+            if (inData) {
+                const end = buffer.indexOf('\r\n.\r\n');
+                if (end === -1) return;
+                received.push(buffer.slice(0, end));
+                buffer = buffer.slice(end + 5);
+                inData = false;
+                socket.write('250 Queued\r\n');
+            }
+            let index;
+            while (!inData && (index = buffer.indexOf('\r\n')) !== -1) {
+                const line = buffer.slice(0, index);
+                buffer = buffer.slice(index + 2);
+                const verb = line.split(/[ :]/)[0].toUpperCase();
+                if (behaviour.hangUpAt === verb) {
+                    socket.destroy();
+                    return;
+                }
+                if (verb === 'EHLO') socket.write('250-localhost\r\n250 SIZE 1000000\r\n');
+                else if (verb === 'RCPT') socket.write(behaviour.rcptReply || '250 OK\r\n');
+                else if (verb === 'DATA') {
+                    inData = true;
+                    socket.write('354 Go ahead\r\n');
+                } else if (verb === 'QUIT') socket.end('221 Bye\r\n');
+                else socket.write('250 OK\r\n');
+            }
+        });
+        socket.on('error', () => {});
+    });
+    smtpServer.listen(0, '127.0.0.1', () => resolve(smtpServer.address().port));
+});
+
+const job = (to = 'student@example.com') => ({
+    id: 'test-job',
+    to,
+    subject: 'Grade posted: Essay',
+    text: 'Hello',
+    html: '<p>Hello</p>',
+});
+
+beforeAll(async () => {
+    const port = await startSmtpServer();
+    queueDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mail-test-'));
+    process.env.SMTP_HOST = '127.0.0.1';
+    process.env.SMTP_PORT = String(port);
+    process.env.MAIL_QUEUE_FILE = path.join(queueDir, 'mail-queue.json');
+    mail = (await import('./mail.cjs')).default;
+});
+
+afterAll(async () => {
+    await new Promise((resolve) => smtpServer.close(resolve));
+    fs.rmSync(queueDir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+    behaviour = {};
+    received = [];
+});
+
+describe('renderMail', () => {
+    it('escapes notification text in the HTML part', () => {
+        const rendered = mail.renderMail('notification', {
+            name: 'Ana',
+            title: 'New quiz in <Biology>',
+            content: 'Due Friday',
+            link: '/student/assignments',
+        });
+        expect(rendered.subject).toBe('New quiz in <Biology>');
+        expect(rendered.html).toContain('New quiz in &lt;Biology&gt;');
+        expect(rendered.text).toContain('Due Friday');
+        expect(rendered.text).toContain('http://localhost:8080/student/assignments');
+    });
+
+    it('rejects missing fields and links outside the app', () => {
+        expect(() => mail.renderMail('grade_posted', { assignment: 'Essay' })).toThrow('Missing template data: grade');
+        expect(() => mail.renderMail('notification', { title: 'Hi', link: '//evil.example' })).toThrow('link');
+        expect(() => mail.renderMail('unknown', {})).toThrow('Unknown email template');
+    });
+});
+
+describe('sendSmtp', () => {
+    it('delivers the message', async () => {
+        await mail.sendSmtp(job());
+        expect(received).toHaveLength(1);
+        expect(received[0]).toContain('To: student@example.com');
+        expect(received[0]).toContain('Subject: Grade posted: Essay');
+    });
+
+    it('fails instead of waiting when the server hangs up', async () => {
+        behaviour.hangUpAt = 'MAIL';
+        await expect(mail.sendSmtp(job())).rejects.toMatchObject({ stage: 'mail', code: undefined });
+    });
+
+    it('reports a rejected recipient with its reply code', async () => {
+        behaviour.rcptReply = '550 No such user\r\n';
+        await expect(mail.sendSmtp(job())).rejects.toMatchObject({ stage: 'rcpt', code: 550 });
+    });
+});
+
+describe('mail queue', () => {
+    it('sends queued mail', async () => {
+        const queued = mail.enqueueMail('welcome', 'new@example.com', { name: 'Ana' });
+        await mail.processMailQueue();
+        expect(mail.listMailJobs('sent').map((sent) => sent.id)).toContain(queued.id);
+        expect(received[0]).toContain('To: new@example.com');
+    });
+
+    it('queues a retry when the connection closes, and keeps processing', async () => {
+        behaviour.hangUpAt = 'EHLO';
+        const queued = mail.enqueueMail('welcome', 'retry@example.com', {});
+        await mail.processMailQueue();
+        const [retry] = mail.listMailJobs('queued').filter((pending) => pending.id === queued.id);
+        expect(retry.attempts).toBe(1);
+        expect(retry.last_error).toContain('closed');
+        expect(retry.next_attempt_at > new Date().toISOString()).toBe(true);
+
+        behaviour = {};
+        const next = mail.enqueueMail('welcome', 'next@example.com', {});
+        await mail.processMailQueue();
+        expect(mail.listMailJobs('sent').map((sent) => sent.id)).toContain(next.id);
+    });
+
+    it('records a bounce and suppresses later mail to the address', async () => {
+        behaviour.rcptReply = '550 No such user\r\n';
+        const bounced = mail.enqueueMail('welcome', 'gone@example.com', {});
+        await mail.processMailQueue();
+        expect(mail.listMailJobs('bounced').map((entry) => entry.id)).toContain(bounced.id);
+        expect(mail.listBounces()['gone@example.com'].count).toBe(1);
+
+        expect(mail.enqueueMail('welcome', 'Gone@example.com', {}).status).toBe('suppressed');
+        mail.clearBounce('gone@example.com');
+        expect(mail.enqueueMail('welcome', 'gone@example.com', {}).status).toBe('queued');
+    });
+});
@@ -0,0 +1,98 @@
+const { database } = require('./firebase.cjs');
+const { RequestError } = require('./errors.cjs');
+
+// Practice quizzes are generated by the students who take them, so the XP they
+// earn is awarded here rather than by the browser: only for correct answers
+// beyond the best previous attempt at the quiz, and only up to a daily cap.
+// The XP awarded each day is counted under quiz_xp_days/{userId}/{day}, which
+// only the server writes.
+
+const XP_PER_CORRECT_ANSWER = 10;
+const DAILY_QUIZ_XP_CAP = 100;
+
+// Days are UTC days, so a student can't move the cap by changing time zones
+const dayKey = (time) => new Date(time).toISOString().slice(0, 10);
+
+const requireAnswers = (questions, selectedAnswers) => {
+    const valid = Array.isArray(selectedAnswers)
+        && selectedAnswers.length === questions.length
+        && selectedAnswers.every((answer) => Number.isInteger(answer) && answer >= -1);
+    if (!valid) {
+        throw new RequestError(400, 'An answer is required for every question');
+    }
+    return selectedAnswers;
+};
+
+const bestPreviousCount = async (quizId, userId) => {
+    const snapshot = await database.ref('quiz_attempts').orderByChild('quiz_id').equalTo(quizId).get();
+    let best = 0;
+    snapshot.forEach((child) => {
+        const attempt = child.val();
+        if (attempt.user_id === userId) best = Math.max(best, attempt.correct_count || 0);
+    });
+    return best;
+};
+
+// Adds up to `earned` XP to today's count and returns what was awarded and the
+// new total. A transaction, so attempts submitted together can't both get in
+// under the cap.
+const claimDailyXP = async (userId, earned, now) => {
+    let awarded = 0;
+    const { snapshot } = await database.ref(`quiz_xp_days/${userId}/${dayKey(now)}`).transaction((total) => {
+        awarded = Math.min(earned, Math.max(0, DAILY_QUIZ_XP_CAP - (total || 0)));
+        return (total || 0) + awarded;
+    });
+    return { awarded, total: snapshot.val() || 0 };
+};
+
+const recordPracticeAttempt = async (userId, quizId, selectedAnswers, startedAt) => {
+    const quiz = (await database.ref(`quizzes/${quizId}`).get()).val();
+    if (!quiz || quiz.user_id !== userId) {
+        throw new RequestError(404, 'Quiz not found');
+    }
+
+    const questions = quiz.questions || [];
+    const answers = requireAnswers(questions, selectedAnswers);
+    const now = Date.now();
+    const started = Date.parse(startedAt);
+    if (!Number.isFinite(started) || started > now) {
+        throw new RequestError(400, 'A start time is required');
+    }
+
+    const correctCount = questions.filter((question, index) => answers[index] === question.correctAnswer).length;
+    const best = await bestPreviousCount(quizId, userId);
+    const earned = Math.max(0, correctCount - best) * XP_PER_CORRECT_ANSWER;
+    const { awarded, total } = await claimDailyXP(userId, earned, now);
+
+    const attemptRef = database.ref('quiz_attempts').push();
+    const attempt = {
+        id: attemptRef.key,
+        quiz_id: quizId,
+        user_id: userId,
+        selected_answers: answers,
+        correct_count: correctCount,
+        score: questions.length > 0 ? Math.round((correctCount / questions.length) * 100) : 0,
+        started_at: new Date(started).toISOString(),
+        completed_at: new Date(now).toISOString(),
+        duration_seconds: Math.round((now - started) / 1000),
+        xp_awarded: awarded,
+    };
+
+    const updates = { [`quiz_attempts/${attempt.id}`]: attempt };
+    if (awarded > 0) {
+        const xpRef = database.ref('user_xp').push();
+        updates[`user_xp/${xpRef.key}`] = {
+            id: xpRef.key,
+            user_id: userId,
+            activity_type: 'quiz_completion',
+            activity_id: attempt.id,
+            xp_amount: awarded,
+            earned_at: attempt.completed_at,
+        };
+    }
+    await database.ref().update(updates);
+
+    return { attempt, reached_daily_cap: total >= DAILY_QUIZ_XP_CAP };
+};
+
+module.exports = { recordPracticeAttempt };
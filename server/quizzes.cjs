@@ -0,0 +1,297 @@
+const { database } = require('./firebase.cjs');
+const { RequestError } = require('./errors.cjs');
+
+// Course quizzes are taken through the server. Question banks hold the
+// answers, so only teachers can read them; students get the questions without
+// answers until their attempt is in, and the server keeps the schedule and
+// time limit and grades the attempt.
+
+const TRUE_FALSE_OPTIONS = ['True', 'False'];
+const ANSWER_FIELDS = ['correct_options', 'accepted_answers', 'numeric_answer', 'tolerance', 'explanation'];
+// The automatic submission at the deadline needs a moment to arrive
+const SUBMIT_GRACE_MS = 60 * 1000;
+const DEADLINE_CHECK_INTERVAL_MS = 60 * 1000;
+const MAX_TEXT_ANSWER_LENGTH = 1000;
+
+// Grading mirrors gradeQuestion in src/lib/quiz-grading.ts, which teachers'
+// analytics use on submitted attempts; server/quizzes.test.js grades the same
+// answers with both
+
+const normalizeText = (value) => value.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const gradeQuestion = (question, answer) => {
+    if (answer === undefined || answer === null) return 0;
+    const correct = question.correct_options || [];
+
+    switch (question.type) {
+        case 'multiple_choice':
+        case 'true_false': {
+            const selected = Array.isArray(answer) ? answer : [];
+            return selected.length === 1 && correct.includes(selected[0]) ? question.points : 0;
+        }
+        case 'multi_select': {
+            const selected = Array.isArray(answer) ? answer : [];
+            if (correct.length === 0) return 0;
+            const right = selected.filter((index) => correct.includes(index)).length;
+            const wrong = selected.length - right;
+            const ratio = Math.max(0, right - wrong) / correct.length;
+            return Math.round(ratio * question.points * 100) / 100;
+        }
+        case 'short_answer': {
+            if (typeof answer !== 'string' || !answer.trim()) return 0;
+            const accepted = (question.accepted_answers || []).map(normalizeText);
+            return accepted.includes(normalizeText(answer)) ? question.points : 0;
+        }
+        case 'numeric': {
+            const value = typeof answer === 'string' ? parseFloat(answer) : NaN;
+            if (!Number.isFinite(value) || question.numeric_answer === undefined) return 0;
+            return Math.abs(value - question.numeric_answer) <= (question.tolerance || 0) ? question.points : 0;
+        }
+        default:
+            return 0;
+    }
+};
+
+const gradeQuizAnswers = (questions, answers) => {
+    const questionScores = {};
+    let score = 0;
+    for (const question of questions) {
+        const earned = gradeQuestion(question, answers[question.id]);
+        questionScores[question.id] = earned;
+        score += earned;
+    }
+    return { questionScores, score: Math.round(score * 100) / 100 };
+};
+
+// Keeps answers to the quiz's own questions, in the shape each question takes
+const cleanAnswers = (questions, answers) => {
+    const cleaned = {};
+    if (!answers || typeof answers !== 'object') return cleaned;
+    for (const question of questions) {
+        const answer = answers[question.id];
+        const options = question.type === 'true_false' ? TRUE_FALSE_OPTIONS : question.options || [];
+        if (Array.isArray(answer)) {
+            const selected = [...new Set(answer)].filter((index) => Number.isInteger(index) && index >= 0 && index < options.length);
+            if (selected.length > 0) cleaned[question.id] = selected.sort((a, b) => a - b);
+        } else if (typeof answer === 'string' && answer.trim()) {
+            cleaned[question.id] = answer.slice(0, MAX_TEXT_ANSWER_LENGTH);
+        }
+    }
+    return cleaned;
+};
+
+const withoutAnswers = (question) => Object.fromEntries(
+    Object.entries(question).filter(([field]) => !ANSWER_FIELDS.includes(field))
+);
+
+// The quiz and its questions, in the quiz's order and without questions deleted
+// from the bank since publishing, or null when the quiz is gone
+const readQuiz = async (quizId) => {
+    const quiz = (await database.ref(`course_quizzes/${quizId}`).get()).val();
+    if (!quiz) return null;
+    const bank = (await database.ref(`question_banks/${quiz.course_id}`).get()).val() || {};
+    const questions = (quiz.question_ids || [])
+        .filter((id) => bank[id])
+        .map((id) => ({ ...bank[id], id }));
+    return { quiz: { ...quiz, id: quizId }, questions };
+};
+
+// Only students of the course may take it
+const loadQuiz = async (quizId, userId) => {
+    const loaded = await readQuiz(quizId);
+    if (!loaded) throw new RequestError(404, 'This quiz is no longer available');
+    const enrollment = await database.ref(`enrollments/${loaded.quiz.course_id}_${userId}`).get();
+    if (!enrollment.exists()) throw new RequestError(403, 'Only students of this course can take the quiz');
+    return loaded;
+};
+
+const findAttempt = async (quizId, userId) => {
+    const snapshot = await database.ref('course_quiz_attempts').orderByChild('user_id').equalTo(userId).get();
+    let attempt = null;
+    snapshot.forEach((child) => {
+        if (child.val().quiz_id === quizId) attempt = { ...child.val(), id: child.key };
+    });
+    return attempt;
+};
+
+// The earlier of the time limit and the closing time, in ms, or null
+const attemptDeadline = (quiz, attempt) => {
+    const deadlines = [];
+    if (quiz.time_limit_minutes) {
+        deadlines.push(Date.parse(attempt.started_at) + quiz.time_limit_minutes * 60 * 1000);
+    }
+    if (quiz.closes_at) deadlines.push(Date.parse(quiz.closes_at));
+    return deadlines.length > 0 ? Math.min(...deadlines) : null;
+};
+
+const openQuiz = async (quizId, userId) => {
+    const { quiz, questions } = await loadQuiz(quizId, userId);
+    const attempt = await findAttempt(quizId, userId);
+    return {
+        quiz,
+        // Questions are shown once the attempt starts, and the answers once it is in
+        questions: !attempt ? [] : attempt.status === 'submitted' ? questions : questions.map(withoutAnswers),
+        question_count: questions.length,
+        attempt,
+    };
+};
+
+const startAttempt = async (quizId, userId) => {
+    const { quiz, questions } = await loadQuiz(quizId, userId);
+    const now = Date.now();
+    if (quiz.opens_at && Date.parse(quiz.opens_at) > now) throw new RequestError(409, 'This quiz is not open yet');
+    if (quiz.closes_at && Date.parse(quiz.closes_at) <= now) throw new RequestError(409, 'This quiz is closed');
+    if (questions.length === 0) throw new RequestError(409, 'This quiz has no questions');
+    if (await findAttempt(quizId, userId)) throw new RequestError(409, 'You have already started this quiz');
+
+    const student = (await database.ref(`users/${userId}`).get()).val() || {};
+    const attempt = {
+        quiz_id: quizId,
+        course_id: quiz.course_id,
+        user_id: userId,
+        student_name: student.name || '',
+        status: 'in_progress',
+        total_points: quiz.total_points,
+        started_at: new Date(now).toISOString(),
+    };
+    // Keyed by quiz and student, so starting twice at once still makes one attempt
+    const attemptRef = database.ref(`course_quiz_attempts/${quizId}_${userId}`);
+    const { committed } = await attemptRef.transaction((current) => (current === null ? attempt : undefined));
+    if (!committed) throw new RequestError(409, 'You have already started this quiz');
+
+    return { attempt: { ...attempt, id: attemptRef.key }, questions: questions.map(withoutAnswers) };
+};
+
+const findSubmission = async (assignmentId, userId) => {
+    const snapshot = await database.ref('submissions').orderByChild('user_id').equalTo(userId).get();
+    let submission = null;
+    snapshot.forEach((child) => {
+        if (child.val().assignment_id === assignmentId) submission = { ...child.val(), id: child.key };
+    });
+    return submission;
+};
+
+// Quiz results are handed in like any other assignment, so they show in the
+// teacher's submissions list and the gradebook. The quiz's closing time is its
+// due date and no answers are taken after it, so quiz results are never late.
+const recordSubmission = async (quiz, attempt) => {
+    const assignment = (await database.ref(`assignments/${quiz.assignment_id}`).get()).val() || {};
+    const existing = await findSubmission(quiz.assignment_id, attempt.user_id);
+    const current = {
+        content: `Quiz attempt: ${attempt.score} / ${attempt.total_points} points`,
+        submitted_at: Date.parse(attempt.submitted_at),
+        late: false,
+        auto_grade: attempt.score,
+        auto_grade_status: 'completed',
+    };
+
+    if (!existing) {
+        const submissionRef = database.ref('submissions').push();
+        const submission = {
+            assignment_id: quiz.assignment_id,
+            user_id: attempt.user_id,
+            student_name: attempt.student_name,
+            course_id: quiz.course_id,
+            ...(assignment.teacher_id ? { teacher_id: assignment.teacher_id } : {}),
+            assignment_title: assignment.title || quiz.title,
+            points: assignment.points ?? quiz.total_points,
+            ...current,
+            version: 1,
+        };
+        await submissionRef.set(submission);
+        return { ...submission, id: submissionRef.key };
+    }
+
+    const version = existing.version || 1;
+    const previous = Object.fromEntries(Object.entries({
+        version,
+        content: existing.content || '',
+        language: existing.language,
+        file_url: existing.file_url,
+        attachments: existing.attachments,
+        submitted_at: existing.submitted_at,
+        late: existing.late ?? false,
+    }).filter(([, value]) => value !== undefined));
+    const changes = {
+        ...current,
+        code_submission_id: null,
+        version: version + 1,
+        versions: [...(existing.versions || []), previous],
+    };
+    await database.ref(`submissions/${existing.id}`).update(changes);
+    return { ...existing, ...changes, code_submission_id: undefined };
+};
+
+// Grades the attempt and hands the result in. The attempt is only closed if it
+// is still in progress, so a student's own submission and the one made for
+// them at the deadline cannot both count.
+const closeAttempt = async (quiz, questions, attempt, answers) => {
+    const { questionScores, score } = gradeQuizAnswers(questions, answers);
+
+    const { id, ...stored } = attempt;
+    const graded = {
+        ...stored,
+        status: 'submitted',
+        answers,
+        question_scores: questionScores,
+        score,
+        submitted_at: new Date().toISOString(),
+    };
+    const { committed, snapshot } = await database.ref(`course_quiz_attempts/${id}`).transaction((current) => {
+        if (current === null) return current;
+        return current.status === 'in_progress' ? graded : undefined;
+    });
+    if (!committed || !snapshot.exists()) throw new RequestError(409, 'This quiz has already been submitted');
+
+    const submission = await recordSubmission(quiz, graded);
+    return { attempt: { ...graded, id }, submission };
+};
+
+// Answers that arrive after the deadline are not counted, but the attempt is
+// still closed so the student sees it as submitted
+const submitAttempt = async (quizId, userId, answers) => {
+    const { quiz, questions } = await loadQuiz(quizId, userId);
+    const attempt = await findAttempt(quizId, userId);
+    if (!attempt) throw new RequestError(409, 'Start the quiz before submitting it');
+    if (attempt.status === 'submitted') throw new RequestError(409, 'This quiz has already been submitted');
+
+    const deadline = attemptDeadline(quiz, attempt);
+    const inTime = deadline === null || Date.now() <= deadline + SUBMIT_GRACE_MS;
+    const counted = inTime ? cleanAnswers(questions, answers) : {};
+    const { attempt: graded, submission } = await closeAttempt(quiz, questions, attempt, counted);
+    return { attempt: graded, questions, submission, counted: inTime };
+};
+
+// Attempts left open past their deadline, e.g. when the student closed the
+// tab, are closed with no answers once the browser's own submission could no
+// longer arrive, so the quiz still shows up in the gradebook
+const closeExpiredAttempts = async (now = Date.now()) => {
+    const open = [];
+    (await database.ref('course_quiz_attempts').orderByChild('status').equalTo('in_progress').get())
+        .forEach((snapshot) => {
+            open.push({ ...snapshot.val(), id: snapshot.key });
+        });
+
+    const quizzes = new Map();
+    for (const attempt of open) {
+        if (!quizzes.has(attempt.quiz_id)) quizzes.set(attempt.quiz_id, await readQuiz(attempt.quiz_id));
+        const loaded = quizzes.get(attempt.quiz_id);
+        if (!loaded) continue;
+        const deadline = attemptDeadline(loaded.quiz, attempt);
+        if (deadline === null || now <= deadline + SUBMIT_GRACE_MS) continue;
+
+        await closeAttempt(loaded.quiz, loaded.questions, attempt, {}).catch((error) => {
+            // A RequestError means the student submitted in the meantime
+            if (!(error instanceof RequestError)) console.error(`Error closing quiz attempt ${attempt.id}:`, error);
+        });
+    }
+};
+
+const startQuizDeadlines = () => {
+    const run = () => closeExpiredAttempts()
+        .catch((error) => console.error('Error closing expired quiz attempts:', error));
+    run();
+    setInterval(run, DEADLINE_CHECK_INTERVAL_MS);
+};
+
+module.exports = { gradeQuestion, gradeQuizAnswers, openQuiz, startAttempt, startQuizDeadlines, submitAttempt };
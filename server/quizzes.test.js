@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import quizzes from './quizzes.cjs';
+import { gradeQuestion, gradeQuizAnswers } from '../src/lib/quiz-grading';
+
+// Quizzes are graded here and the attempts are analysed in the app, so both
+// have to give every answer the same score
+
+const question = (id, fields) => ({ id, course_id: 'course-1', prompt: id, points: 4, source: 'manual', created_at: '', ...fields });
+
+const questions = [
+    question('choice', { type: 'multiple_choice', options: ['a', 'b', 'c'], correct_options: [1] }),
+    question('truth', { type: 'true_false', correct_options: [0] }),
+    question('multi', { type: 'multi_select', options: ['a', 'b', 'c', 'd'], correct_options: [0, 2, 3], points: 3 }),
+    question('multi-empty', { type: 'multi_select', options: ['a', 'b'], correct_options: [] }),
+    question('short', { type: 'short_answer', accepted_answers: ['Photo  Synthesis', 'chlorophyll'] }),
+    question('number', { type: 'numeric', numeric_answer: 9.81, tolerance: 0.05 }),
+    question('exact', { type: 'numeric', numeric_answer: 3 }),
+    question('unset', { type: 'numeric' }),
+    question('other', { type: 'essay' }),
+];
+
+const answers = {
+    choice: [[1], [0], [1, 2], [], 'b', undefined, null],
+    truth: [[0], [1], [0, 1]],
+    multi: [[0, 2, 3], [0, 2], [0, 1, 2], [0, 1], [1], [0, 1, 2, 3], 'a'],
+    'multi-empty': [[0], []],
+    short: ['photo synthesis', '  CHLOROPHYLL ', 'photosynthesis', '', [0]],
+    number: ['9.8', '9.86', '9.87', '9.81 m/s', 'fast', '', [1]],
+    exact: ['3', '3.0', '3.01'],
+    unset: ['1'],
+    other: ['Anything'],
+};
+
+describe('gradeQuestion', () => {
+    questions.forEach((q) => {
+        it.each(answers[q.id].map((answer) => [answer]))(`scores ${q.id} answers like the app: %j`, (answer) => {
+            expect(quizzes.gradeQuestion(q, answer)).toBe(gradeQuestion(q, answer));
+        });
+    });
+
+    it('covers full, partial and no credit', () => {
+        const multi = questions.find((q) => q.id === 'multi');
+        expect([[0, 2, 3], [0, 2], [0, 1, 2], [1]].map((answer) => quizzes.gradeQuestion(multi, answer))).toEqual([3, 2, 1, 0]);
+    });
+});
+
+describe('gradeQuizAnswers', () => {
+    it('totals a whole attempt like the app', () => {
+        const attempt = { choice: [1], truth: [1], multi: [0, 2], short: 'Chlorophyll', number: '9.79' };
+        expect(quizzes.gradeQuizAnswers(questions, attempt)).toEqual(gradeQuizAnswers(questions, attempt));
+        expect(quizzes.gradeQuizAnswers(questions, attempt).score).toBe(14);
+    });
+});
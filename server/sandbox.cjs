@@ -0,0 +1,198 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { spawn, spawnSync } = require('child_process');
+
+// Runs untrusted code in a throwaway bubblewrap sandbox: no network, no view
+// of the host filesystem beyond read-only system directories, its own process
+// tree, and prlimit caps on CPU time, address space, process count and file
+// size. When bwrap is missing the runner reports itself unavailable rather
+// than fall back to running code unsandboxed.
+const SANDBOX_CONFIG = {
+    bwrap: process.env.SANDBOX_BWRAP || 'bwrap',
+    python: process.env.SANDBOX_PYTHON || '/usr/bin/python3',
+    node: process.env.SANDBOX_NODE || '/usr/bin/node',
+    maxProcesses: 16,
+    maxFileMb: 8,
+};
+
+// Limits mirror DEFAULT_RUN_LIMITS on the client
+const MAX_TIME_LIMIT_MS = 10000;
+const MAX_MEMORY_LIMIT_MB = 512;
+const MAX_OUTPUT_CHARS = 100000;
+
+// The browser runner gives JavaScript programs readLine(), prompt(), input and
+// a console that prints values as JSON; the server matches it so programs
+// print the same output wherever they run.
+const JAVASCRIPT_PRELUDE = [
+    "'use strict';",
+    "const input = require('fs').readFileSync(0, 'utf8');",
+    "const inputLines = input.length > 0 ? input.replace(/\\r\\n/g, '\\n').split('\\n') : [];",
+    'let cursor = 0;',
+    'const readLine = () => (cursor < inputLines.length ? inputLines[cursor++] : null);',
+    'const prompt = readLine;',
+    'const formatValue = (value) => {',
+    "    if (typeof value === 'string') return value;",
+    '    if (value instanceof Error) return `${value.name}: ${value.message}`;',
+    '    try { return JSON.stringify(value) ?? String(value); } catch { return String(value); }',
+    '};',
+    "const write = (stream) => (...args) => stream.write(`${args.map(formatValue).join(' ')}\\n`);",
+    'console.log = console.info = console.debug = write(process.stdout);',
+    'console.warn = console.error = write(process.stderr);',
+].join('\n');
+
+const RUNTIMES = {
+    python: {
+        fileName: 'main.py',
+        source: (code) => code,
+        command: (file) => [SANDBOX_CONFIG.python, '-I', file],
+        addressSpace: true,
+    },
+    javascript: {
+        fileName: 'main.js',
+        source: (code) => `${JAVASCRIPT_PRELUDE}\n(async () => {\n${code}\n})().catch((error) => {\n    console.error(formatValue(error));\n    process.exitCode = 1;\n});\n`,
+        command: (file, limits) => [SANDBOX_CONFIG.node, `--max-old-space-size=${limits.memoryLimitMb}`, file],
+        // V8 reserves far more address space than it uses, so its heap flag
+        // is the memory limit instead
+        addressSpace: false,
+    },
+};
+
+// RLIMIT_NPROC counts every process of the user, and root is exempt from it,
+// so a server running as root drops to nobody for the sandboxed process
+const SANDBOX_USER = process.getuid && process.getuid() === 0 ? { uid: 65534, gid: 65534 } : {};
+
+let bwrapAvailable;
+const hasBwrap = () => {
+    if (bwrapAvailable === undefined) {
+        bwrapAvailable = spawnSync(SANDBOX_CONFIG.bwrap, ['--version'], { stdio: 'ignore' }).status === 0;
+    }
+    return bwrapAvailable;
+};
+
+const clamp = (value, fallback, max) => {
+    const number = Number(value);
+    if (!Number.isFinite(number) || number <= 0) return fallback;
+    return Math.min(number, max);
+};
+
+const resolveLimits = (limits = {}) => ({
+    timeLimitMs: clamp(limits.timeLimitMs, 5000, MAX_TIME_LIMIT_MS),
+    memoryLimitMb: clamp(limits.memoryLimitMb, 128, MAX_MEMORY_LIMIT_MB),
+    maxOutputChars: clamp(limits.maxOutputChars, 20000, MAX_OUTPUT_CHARS),
+});
+
+const sandboxArgs = (runtime, workDir, limits) => {
+    const cpuSeconds = Math.ceil(limits.timeLimitMs / 1000);
+    const prlimit = [
+        'prlimit',
+        `--cpu=${cpuSeconds}`,
+        `--nproc=${SANDBOX_CONFIG.maxProcesses}`,
+        `--fsize=${SANDBOX_CONFIG.maxFileMb * 1024 * 1024}`,
+        '--core=0',
+    ];
+    if (runtime.addressSpace) prlimit.push(`--as=${limits.memoryLimitMb * 1024 * 1024}`);
+
+    return [
+        '--unshare-all',
+        '--die-with-parent',
+        '--new-session',
+        '--clearenv',
+        '--setenv', 'PATH', '/usr/bin:/bin',
+        '--setenv', 'HOME', '/sandbox',
+        '--ro-bind', '/usr', '/usr',
+        '--symlink', 'usr/bin', '/bin',
+        '--symlink', 'usr/lib', '/lib',
+        '--symlink', 'usr/lib64', '/lib64',
+        '--ro-bind-try', '/etc/alternatives', '/etc/alternatives',
+        '--ro-bind-try', '/etc/ld.so.cache', '/etc/ld.so.cache',
+        '--proc', '/proc',
+        '--dev', '/dev',
+        '--tmpfs', '/tmp',
+        '--bind', workDir, '/sandbox',
+        '--chdir', '/sandbox',
+        '--',
+        ...prlimit,
+        '--',
+        ...runtime.command(`/sandbox/${runtime.fileName}`, limits),
+    ];
+};
+
+const unavailable = (error) => ({ status: 'unavailable', stdout: '', stderr: '', error, durationMs: 0 });
+
+const runSandboxed = (language, code, stdin, requestedLimits) => new Promise((resolve) => {
+    const runtime = RUNTIMES[language];
+    if (!runtime) {
+        resolve(unavailable(`Unsupported language: ${language}`));
+        return;
+    }
+    if (!hasBwrap()) {
+        resolve(unavailable('The code sandbox (bubblewrap) is not installed on the server'));
+        return;
+    }
+
+    const limits = resolveLimits(requestedLimits);
+    const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'code-runner-'));
+    fs.writeFileSync(path.join(workDir, runtime.fileName), runtime.source(code));
+    if (SANDBOX_USER.uid !== undefined) {
+        fs.chownSync(workDir, SANDBOX_USER.uid, SANDBOX_USER.gid);
+        fs.chownSync(path.join(workDir, runtime.fileName), SANDBOX_USER.uid, SANDBOX_USER.gid);
+    }
+
+    const startedAt = Date.now();
+    let stdout = '';
+    let stderr = '';
+    let status = null;
+
+    const child = spawn(SANDBOX_CONFIG.bwrap, sandboxArgs(runtime, workDir, limits), { cwd: workDir, env: {}, ...SANDBOX_USER });
+
+    const stop = (reason) => {
+        if (!status) status = reason;
+        child.kill('SIGKILL');
+    };
+
+    const timer = setTimeout(() => stop('timeout'), limits.timeLimitMs);
+
+    const collect = (chunk, append) => {
+        append(chunk.toString());
+        if (stdout.length + stderr.length > limits.maxOutputChars) stop('output_limit');
+    };
+
+    child.stdout.on('data', (chunk) => collect(chunk, (text) => { stdout += text; }));
+    child.stderr.on('data', (chunk) => collect(chunk, (text) => { stderr += text; }));
+
+    const finish = (result) => {
+        clearTimeout(timer);
+        fs.rmSync(workDir, { recursive: true, force: true });
+        resolve({ ...result, durationMs: Date.now() - startedAt });
+    };
+
+    child.on('error', (error) => {
+        finish({ status: 'unavailable', stdout: '', stderr: '', error: error.message });
+    });
+
+    child.on('close', (exitCode, signal) => {
+        if (!status && /MemoryError|JavaScript heap out of memory/.test(stderr)) status = 'memory_limit';
+        // bwrap reports a child killed by a signal as 128 + the signal number
+        if (!status && (signal === 'SIGXCPU' || exitCode === 128 + os.constants.signals.SIGXCPU)) status = 'timeout';
+        if (!status) status = exitCode === 0 ? 'ok' : 'runtime_error';
+
+        const result = {
+            status,
+            stdout: stdout.slice(0, limits.maxOutputChars),
+            stderr: stderr.slice(0, limits.maxOutputChars),
+        };
+        if (status === 'timeout') result.error = `Time limit of ${limits.timeLimitMs} ms exceeded`;
+        if (status === 'memory_limit') result.error = `Memory limit of ${limits.memoryLimitMb} MB exceeded`;
+        if (status === 'output_limit') result.error = `Output limit of ${limits.maxOutputChars} characters exceeded`;
+        if (status === 'runtime_error') result.error = stderr.trim().split('\n').pop() || `Process exited with code ${exitCode}`;
+        finish(result);
+    });
+
+    child.stdin.on('error', () => {
+        // The process may exit before reading all of its input
+    });
+    child.stdin.end(stdin || '');
+});
+
+module.exports = { RUNTIMES, resolveLimits, runSandboxed };
@@ -0,0 +1,71 @@
+const { FieldValue } = require('firebase-admin/firestore');
+const { database, firestore } = require('./firebase.cjs');
+const { uploadLimits } = require('./attachments.cjs');
+
+// storage.rules can read Firestore but not the Realtime Database, so this keeps
+// a copy of who may reach which files in Firestore: each course's instructor
+// and students under storage_courses/{courseId}, the course of each assignment
+// and the files it accepts under storage_assignments/{assignmentId}, and
+// teachers' and admins' roles under storage_roles/{uid}. firestore.rules keeps
+// clients out of all three.
+
+const STAFF_ROLES = ['teacher', 'admin'];
+
+const logFailure = (what) => (error) => console.error(`Error mirroring ${what} for storage access:`, error);
+
+const mirrorCourse = (snapshot) => {
+    const course = snapshot.val() || {};
+    firestore.doc(`storage_courses/${snapshot.key}`)
+        .set({ instructor_id: course.instructor_id || null }, { merge: true })
+        .catch(logFailure('a course'));
+};
+
+const mirrorEnrollment = (present) => (snapshot) => {
+    const { course_id: courseId, student_id: studentId } = snapshot.val() || {};
+    if (!courseId || !studentId) return;
+    firestore.doc(`storage_courses/${courseId}`)
+        .set({ students: { [studentId]: present ? true : FieldValue.delete() } }, { merge: true })
+        .catch(logFailure('an enrollment'));
+};
+
+const mirrorAssignment = (snapshot) => {
+    const { course_id: courseId, attachment_policy: policy } = snapshot.val() || {};
+    firestore.doc(`storage_assignments/${snapshot.key}`)
+        .set({ course_id: courseId || null, attachments: uploadLimits(policy) })
+        .catch(logFailure('an assignment'));
+};
+
+const mirrorRole = (snapshot) => {
+    const { role } = snapshot.val() || {};
+    const roleDoc = firestore.doc(`storage_roles/${snapshot.key}`);
+    (STAFF_ROLES.includes(role) ? roleDoc.set({ role }) : roleDoc.delete()).catch(logFailure('a role'));
+};
+
+const removeDoc = (collection) => (snapshot) => {
+    firestore.doc(`${collection}/${snapshot.key}`).delete().catch(logFailure(collection));
+};
+
+// Listening replays every existing record first, so the copy catches up with
+// changes made while the server was down
+const startStorageAccessMirror = () => {
+    const courses = database.ref('courses');
+    courses.on('child_added', mirrorCourse);
+    courses.on('child_changed', mirrorCourse);
+    courses.on('child_removed', removeDoc('storage_courses'));
+
+    const enrollments = database.ref('enrollments');
+    enrollments.on('child_added', mirrorEnrollment(true));
+    enrollments.on('child_removed', mirrorEnrollment(false));
+
+    const assignments = database.ref('assignments');
+    assignments.on('child_added', mirrorAssignment);
+    assignments.on('child_changed', mirrorAssignment);
+    assignments.on('child_removed', removeDoc('storage_assignments'));
+
+    const users = database.ref('users');
+    users.on('child_added', mirrorRole);
+    users.on('child_changed', mirrorRole);
+    users.on('child_removed', removeDoc('storage_roles'));
+};
+
+module.exports = { startStorageAccessMirror };
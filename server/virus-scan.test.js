@@ -0,0 +1,73 @@
+import net from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+
+// Runs the scanner against a small clamd stand-in on a local port, which
+// reassembles the streamed file and answers as each test asks
+
+let clamdServer;
+let reply;
+let streamed;
+let scan;
+
+const startClamd = () => new Promise((resolve) => {
+    clamdServer = net.createServer((socket) => {
+        let buffer = Buffer.alloc(0);
+        socket.on('data', (chunk) => {
+            buffer = Buffer.concat([buffer, chunk]);
+            const command = 'zINSTREAM\0';
+            if (buffer.length < command.length) return;
+            let offset = command.length;
+            const parts = [];
+            while (offset + 4 <= buffer.length) {
+                const size = buffer.readUInt32BE(offset);
+                if (size === 0) {
+                    streamed.push(Buffer.concat(parts).toString('utf8'));
+                    socket.end(reply);
+                    return;
+                }
+                if (offset + 4 + size > buffer.length) return;
+                parts.push(buffer.subarray(offset + 4, offset + 4 + size));
+                offset += 4 + size;
+            }
+        });
+        socket.on('error', () => {});
+    });
+    clamdServer.listen(0, '127.0.0.1', () => resolve(clamdServer.address().port));
+});
+
+beforeAll(async () => {
+    const port = await startClamd();
+    process.env.CLAMD_HOST = '127.0.0.1';
+    process.env.CLAMD_PORT = String(port);
+    scan = (await import('./virus-scan.cjs')).default;
+});
+
+afterAll(async () => {
+    await new Promise((resolve) => clamdServer.close(resolve));
+});
+
+beforeEach(() => {
+    reply = 'stream: OK\0';
+    streamed = [];
+});
+
+describe('scanBuffer', () => {
+    it('streams the whole file and reports a clean result', async () => {
+        const contents = 'x'.repeat(200 * 1024);
+        await expect(scan.scanBuffer(Buffer.from(contents))).resolves.toEqual({ status: 'clean' });
+        expect(streamed).toEqual([contents]);
+    });
+
+    it('reports the signature clamd found', async () => {
+        reply = 'stream: Eicar-Test-Signature FOUND\0';
+        await expect(scan.scanBuffer(Buffer.from('X5O!P%@AP'))).resolves.toEqual({
+            status: 'infected',
+            detail: 'Eicar-Test-Signature',
+        });
+    });
+
+    it('fails rather than passing the file when clamd reports an error', async () => {
+        reply = 'INSTREAM size limit exceeded. ERROR\0';
+        await expect(scan.scanBuffer(Buffer.from('large'))).rejects.toThrow('Unexpected reply from the virus scanner');
+    });
+});
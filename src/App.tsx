@@ -1,12 +1,17 @@
 import React from 'react';
 import { BrowserRouter as Router, Route, Routes, Navigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
+import { RequireRole } from '@/components/auth/RequireRole';
+import { USER_ROLES, getHomePath } from '@/lib/roles';
+import Index from './pages/Index';
 import Login from './pages/Login';
 import Auth from './pages/Auth';
+import Courses from './pages/Courses';
 import StudentDashboard from './pages/StudentDashboard';
 import TeacherDashboard from './pages/TeacherDashboard';
-import { Header } from './components/layout/Header';
-import { Footer } from './components/layout/Footer';
+import AdminDashboard from './pages/AdminDashboard';
+import ModeratorDashboard from './pages/ModeratorDashboard';
+import NotFound from './pages/NotFound';
 
 function App() {
   const { isAuthenticated, user } = useAuth();
@@ -14,16 +19,34 @@ function App() {
   return (
     <Router>
       <Routes>
+        <Route path="/" element={<Index />} />
         <Route path="/login" element={!isAuthenticated ? <Login /> : <Navigate to="/dashboard" />} />
         <Route path="/auth" element={!isAuthenticated ? <Auth /> : <Navigate to="/dashboard" />} />
-        <Route path="/dashboard" element={
-          isAuthenticated ? (
-            user?.role === 'teacher' ? <TeacherDashboard /> : <StudentDashboard />
-          ) : (
-            <Navigate to="/login" />
-          )
-        } />
-        <Route path="/" element={<Navigate to="/dashboard" />} />
+        <Route path="/courses" element={<Courses />} />
+
+        <Route element={<RequireRole roles={USER_ROLES} />}>
+          <Route path="/dashboard" element={<Navigate to={getHomePath(user?.role)} replace />} />
+        </Route>
+
+        <Route element={<RequireRole roles={['admin']} />}>
+          <Route path="/admin/:tab?" element={<AdminDashboard />} />
+        </Route>
+
+        <Route element={<RequireRole roles={['teacher']} />}>
+          <Route path="/teacher" element={<TeacherDashboard />} />
+          <Route path="/teacher/courses/:courseId/:tab?" element={<TeacherDashboard />} />
+        </Route>
+
+        <Route element={<RequireRole roles={['student']} />}>
+          <Route path="/student/:tab?" element={<StudentDashboard />} />
+        </Route>
+
+        {/* Admins can moderate too */}
+        <Route element={<RequireRole roles={['moderator', 'admin']} />}>
+          <Route path="/moderator/:tab?" element={<ModeratorDashboard />} />
+        </Route>
+
+        <Route path="*" element={<NotFound />} />
       </Routes>
     </Router>
   );
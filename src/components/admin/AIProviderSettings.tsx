@@ -0,0 +1,234 @@
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Bot, Save, Send, Loader2, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/contexts/AuthContext";
+import { AISettings } from "@/lib/types";
+import {
+  AI_PROVIDER_OPTIONS,
+  invokeAIFunction,
+  saveAISettings,
+  subscribeToAISettings,
+} from "@/lib/ai-client";
+import { DEFAULT_MODELS } from "../../../supabase/functions/_shared/ai-provider";
+
+interface ProviderStatus {
+  provider: AISettings["provider"];
+  configured: boolean;
+}
+
+interface TestResult {
+  provider: string;
+  model: string;
+  text: string;
+  durationMs: number;
+}
+
+export const AIProviderSettings = () => {
+  const { user } = useAuth();
+  const [settings, setSettings] = useState<AISettings | null>(null);
+  const [provider, setProvider] = useState<AISettings["provider"]>("gemini");
+  const [model, setModel] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [statuses, setStatuses] = useState<ProviderStatus[] | null>(null);
+  const [isCheckingStatus, setIsCheckingStatus] = useState(false);
+  const [prompt, setPrompt] = useState("");
+  const [isTesting, setIsTesting] = useState(false);
+  const [testResult, setTestResult] = useState<TestResult | null>(null);
+
+  useEffect(() => {
+    return subscribeToAISettings((value) => {
+      setSettings(value);
+      if (value) {
+        setProvider(value.provider);
+        setModel(value.model || "");
+      }
+    });
+  }, []);
+
+  const checkStatus = useCallback(async () => {
+    setIsCheckingStatus(true);
+    try {
+      const data = await invokeAIFunction<{ providers: ProviderStatus[] }>("ai-gateway", { action: "status" });
+      setStatuses(data.providers);
+    } catch (error) {
+      console.error("Error checking AI providers:", error);
+      toast.error("Could not reach the AI gateway");
+    } finally {
+      setIsCheckingStatus(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    checkStatus();
+  }, [checkStatus]);
+
+  const handleSave = async () => {
+    if (!user?.id) {
+      toast.error("You must be logged in to change settings");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await saveAISettings({ provider, model }, user.id);
+      toast.success("AI provider settings saved");
+    } catch (error) {
+      console.error("Error saving AI settings:", error);
+      toast.error("Failed to save AI provider settings");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Tests use the saved settings, the same ones every AI feature will use
+  const handleTest = async () => {
+    if (!prompt.trim()) {
+      toast.error("Enter a prompt to send");
+      return;
+    }
+
+    setIsTesting(true);
+    setTestResult(null);
+    try {
+      const result = await invokeAIFunction<TestResult>("ai-gateway", { action: "test", prompt });
+      setTestResult(result);
+    } catch (error) {
+      console.error("Error testing AI provider:", error);
+      toast.error(error instanceof Error ? error.message : "AI provider test failed");
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const isDirty = !settings || settings.provider !== provider || (settings.model || "") !== model.trim();
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Bot className="h-5 w-5 text-primary" />
+          <CardTitle>AI Provider</CardTitle>
+        </div>
+        <CardDescription>
+          Choose the model used for quizzes, courses, assignments and study plans
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-[200px_1fr_auto] gap-2 items-end">
+          <div className="space-y-2">
+            <Label>Provider</Label>
+            <Select value={provider} onValueChange={(value) => setProvider(value as AISettings["provider"])}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select provider" />
+              </SelectTrigger>
+              <SelectContent>
+                {AI_PROVIDER_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="ai-model">Model</Label>
+            <Input
+              id="ai-model"
+              value={model}
+              onChange={(e) => setModel(e.target.value)}
+              placeholder={DEFAULT_MODELS[provider]}
+              disabled={provider === "mock"}
+            />
+          </div>
+          <Button onClick={handleSave} disabled={isSaving || !isDirty}>
+            {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+            Save
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex justify-between items-center">
+            <h3 className="font-medium text-sm">Configured Providers</h3>
+            <Button variant="ghost" size="sm" onClick={checkStatus} disabled={isCheckingStatus}>
+              <RefreshCw className={`h-4 w-4 mr-1 ${isCheckingStatus ? "animate-spin" : ""}`} />
+              Refresh
+            </Button>
+          </div>
+          <div className="space-y-2">
+            {AI_PROVIDER_OPTIONS.map((option) => {
+              const status = statuses?.find((s) => s.provider === option.value);
+              return (
+                <div key={option.value} className="flex items-center justify-between p-3 border rounded-md">
+                  <div>
+                    <p className="font-medium">
+                      {option.label}
+                      {settings?.provider === option.value && (
+                        <Badge variant="secondary" className="ml-2">Active</Badge>
+                      )}
+                    </p>
+                    <p className="text-sm text-muted-foreground">{option.description}</p>
+                  </div>
+                  {status && (
+                    <Badge variant="outline" className={status.configured ? "text-green-600" : "text-amber-600"}>
+                      {status.configured ? "Key configured" : "Key missing"}
+                    </Badge>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="ai-test-prompt">Test Active Provider</Label>
+          <div className="flex gap-2">
+            <Input
+              id="ai-test-prompt"
+              placeholder="Enter a prompt"
+              value={prompt}
+              onChange={(e) => setPrompt(e.target.value)}
+              className="flex-1"
+            />
+            <Button onClick={handleTest} disabled={isTesting}>
+              {isTesting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+              Send
+            </Button>
+          </div>
+          {testResult && (
+            <div className="mt-4 p-3 border rounded-md bg-muted space-y-2">
+              <p className="text-xs text-muted-foreground">
+                {testResult.provider} / {testResult.model} • {testResult.durationMs} ms
+              </p>
+              <pre className="text-sm whitespace-pre-wrap">{testResult.text}</pre>
+            </div>
+          )}
+        </div>
+      </CardContent>
+      <CardFooter>
+        <p className="text-sm text-muted-foreground">
+          API keys are stored as edge function secrets (for example{" "}
+          <code>supabase secrets set GEMINI_API_KEY=...</code>) and are never sent to the browser.
+        </p>
+      </CardFooter>
+    </Card>
+  );
+};
@@ -1,5 +1,5 @@
 
-import React from "react";
+import React, { useState, useEffect } from "react";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -8,9 +8,86 @@ import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
-import { MessageSquare, Mail, Bell, Users, Send } from "lucide-react";
+import { MessageSquare, Mail, Bell, Users, Send, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { getRepositories } from "@/lib/repositories";
+import { notifyUsers } from "@/lib/notifications";
+import { Course, User } from "@/lib/types";
+
+type RecipientType = "all" | "students" | "teachers" | "admins" | "course" | "user";
 
 export const Communications = () => {
+  const [users, setUsers] = useState<User[]>([]);
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [recipientType, setRecipientType] = useState<RecipientType>("all");
+  const [courseId, setCourseId] = useState("");
+  const [userId, setUserId] = useState("");
+  const [subject, setSubject] = useState("");
+  const [message, setMessage] = useState("");
+  const [isSending, setIsSending] = useState(false);
+
+  useEffect(() => {
+    const { users: userRepository, courses: courseRepository } = getRepositories();
+    Promise.all([userRepository.list(), courseRepository.list()])
+      .then(([allUsers, allCourses]) => {
+        setUsers(allUsers.sort((a, b) => a.name.localeCompare(b.name)));
+        setCourses(allCourses.sort((a, b) => a.title.localeCompare(b.title)));
+      })
+      .catch((error) => console.error("Error fetching recipients:", error));
+  }, []);
+
+  const recipientIds = async () => {
+    switch (recipientType) {
+      case "all":
+        return users.map((user) => user.id);
+      case "students":
+        return users.filter((user) => user.role === "student").map((user) => user.id);
+      case "teachers":
+        return users.filter((user) => user.role === "teacher").map((user) => user.id);
+      case "admins":
+        return users.filter((user) => user.role === "admin").map((user) => user.id);
+      case "course":
+        return (await getRepositories().enrollments.listByCourse(courseId)).map((enrollment) => enrollment.student_id);
+      case "user":
+        return [userId];
+    }
+  };
+
+  const handleSend = async () => {
+    if (!subject.trim()) {
+      toast.error("Please enter a subject");
+      return;
+    }
+    if ((recipientType === "course" && !courseId) || (recipientType === "user" && !userId)) {
+      toast.error("Please choose who to send to");
+      return;
+    }
+
+    setIsSending(true);
+    try {
+      const ids = await recipientIds();
+      if (ids.length === 0) {
+        toast.error("There is no one to send this to");
+        return;
+      }
+      const sent = await notifyUsers(ids, {
+        type: "announcement",
+        title: subject.trim(),
+        content: message.trim() || undefined,
+      });
+      toast.success(`Sent to ${sent} user${sent === 1 ? "" : "s"}`, {
+        description: sent < ids.length ? `${ids.length - sent} have announcements turned off` : undefined,
+      });
+      setSubject("");
+      setMessage("");
+    } catch (error) {
+      console.error("Error sending announcement:", error);
+      toast.error("Failed to send message");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
   return (
     <div className="space-y-6">
       <div>
@@ -47,7 +124,7 @@ export const Communications = () => {
             <CardContent className="space-y-4">
               <div className="space-y-2">
                 <Label htmlFor="recipient-type">Send To</Label>
-                <Select defaultValue="all">
+                <Select value={recipientType} onValueChange={(value) => setRecipientType(value as RecipientType)}>
                   <SelectTrigger>
                     <SelectValue placeholder="Select recipients" />
                   </SelectTrigger>
@@ -61,10 +138,51 @@ export const Communications = () => {
                   </SelectContent>
                 </Select>
               </div>
+
+              {recipientType === "course" && (
+                <div className="space-y-2">
+                  <Label>Course</Label>
+                  <Select value={courseId} onValueChange={setCourseId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a course" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {courses.map((course) => (
+                        <SelectItem key={course.id} value={course.id}>
+                          {course.title}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {recipientType === "user" && (
+                <div className="space-y-2">
+                  <Label>User</Label>
+                  <Select value={userId} onValueChange={setUserId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a user" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {users.map((user) => (
+                        <SelectItem key={user.id} value={user.id}>
+                          {user.name} ({user.role})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
               
               <div className="space-y-2">
                 <Label htmlFor="subject">Subject</Label>
-                <Input id="subject" placeholder="Enter message subject" />
+                <Input
+                  id="subject"
+                  placeholder="Enter message subject"
+                  value={subject}
+                  onChange={(e) => setSubject(e.target.value)}
+                />
               </div>
               
               <div className="space-y-2">
@@ -73,12 +191,14 @@ export const Communications = () => {
                   id="message" 
                   placeholder="Type your message here..." 
                   className="min-h-[200px]"
+                  value={message}
+                  onChange={(e) => setMessage(e.target.value)}
                 />
               </div>
               
               <div className="flex items-center gap-4 pt-4">
-                <Button>
-                  <Send className="h-4 w-4 mr-2" />
+                <Button onClick={handleSend} disabled={isSending}>
+                  {isSending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
                   Send Message
                 </Button>
                 <Button variant="outline">Save Draft</Button>
@@ -9,10 +9,10 @@ import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardFooter } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
-import { Loader2, Search, Trash, Pencil, Plus, BookOpen, Calendar, Clock, CheckCircle, XCircle } from "lucide-react";
+import { Loader2, Search, Trash, Pencil, Plus, BookOpen, Calendar, Clock, CheckCircle, XCircle, FileSpreadsheet } from "lucide-react";
 import { toast } from "sonner";
-import { ref, set, get, remove, update, query, orderByChild, equalTo } from "firebase/database";
-import { database } from "@/firebase";
+import { getRepositories } from "@/lib/repositories";
+import { CourseDataDialog } from "@/components/teacher/CourseDataDialog";
 
 export const CourseManagement = () => {
   const { user } = useAuth();
@@ -20,6 +20,7 @@ export const CourseManagement = () => {
   const [isAddCourseOpen, setIsAddCourseOpen] = useState(false);
   const [isEditCourseOpen, setIsEditCourseOpen] = useState(false);
   const [isDeleteCourseOpen, setIsDeleteCourseOpen] = useState(false);
+  const [isCourseDataOpen, setIsCourseDataOpen] = useState(false);
   const [selectedCourse, setSelectedCourse] = useState<Course | null>(null);
   const [newCourse, setNewCourse] = useState<Partial<Course>>({
     title: "",
@@ -37,51 +38,16 @@ export const CourseManagement = () => {
     const fetchData = async () => {
       setIsLoading(true);
       try {
-        // Fetch courses
-        const coursesRef = ref(database, 'courses');
-        const coursesSnapshot = await get(coursesRef);
-        
-        const coursesData: Course[] = [];
-        if (coursesSnapshot.exists()) {
-          coursesSnapshot.forEach((childSnapshot) => {
-            const courseData = childSnapshot.val();
-            coursesData.push({
-              id: childSnapshot.key,
-              title: courseData.title,
-              description: courseData.description,
-              instructor_id: courseData.instructor_id,
-              category: courseData.category,
-              prerequisites: courseData.prerequisites || [],
-              is_archived: courseData.is_archived || false,
-              created_at: courseData.created_at,
-              updated_at: courseData.updated_at
-            });
-          });
-        }
-        setCourses(coursesData);
+        const { courses: courseRepository, users } = getRepositories();
+        const coursesData = await courseRepository.list();
+        setCourses(coursesData.map((course) => ({
+          ...course,
+          prerequisites: course.prerequisites || [],
+          is_archived: course.is_archived || false
+        })));
         
         // Fetch instructors (users with teacher role)
-        const teachersRef = query(
-          ref(database, 'users'),
-          orderByChild('role'),
-          equalTo('teacher')
-        );
-        
-        const teachersSnapshot = await get(teachersRef);
-        
-        const teachersData: User[] = [];
-        if (teachersSnapshot.exists()) {
-          teachersSnapshot.forEach((childSnapshot) => {
-            const userData = childSnapshot.val();
-            teachersData.push({
-              id: childSnapshot.key,
-              name: userData.name,
-              email: userData.email,
-              role: userData.role as User['role'],
-              avatar: userData.avatar || ''
-            });
-          });
-        }
+        const teachersData = await users.listByRole('teacher');
         setInstructors(teachersData);
       } catch (error) {
         console.error("Error fetching data:", error);
@@ -106,14 +72,10 @@ export const CourseManagement = () => {
 
   const handleAddCourse = async () => {
     try {
-      // Generate unique ID
-      const courseId = `course_${Date.now()}`;
-      
-      // Save to Firebase
-      await set(ref(database, `courses/${courseId}`), {
-        title: newCourse.title,
-        description: newCourse.description,
-        instructor_id: newCourse.instructor_id,
+      const created = await getRepositories().courses.create({
+        title: newCourse.title!,
+        description: newCourse.description || "",
+        instructor_id: newCourse.instructor_id!,
         category: newCourse.category,
         prerequisites: newCourse.prerequisites || [],
         is_archived: false,
@@ -125,17 +87,7 @@ export const CourseManagement = () => {
       setIsAddCourseOpen(false);
       
       // Add to local state
-      setCourses(prev => [...prev, {
-        id: courseId,
-        title: newCourse.title!,
-        description: newCourse.description,
-        instructor_id: newCourse.instructor_id!,
-        category: newCourse.category,
-        prerequisites: newCourse.prerequisites || [],
-        is_archived: false,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
-      }]);
+      setCourses(prev => [...prev, created]);
       
       // Reset form
       setNewCourse({
@@ -156,8 +108,7 @@ export const CourseManagement = () => {
     if (!selectedCourse) return;
     
     try {
-      // Update in Firebase
-      await update(ref(database, `courses/${selectedCourse.id}`), {
+      await getRepositories().courses.update(selectedCourse.id, {
         title: selectedCourse.title,
         description: selectedCourse.description,
         instructor_id: selectedCourse.instructor_id,
@@ -184,8 +135,7 @@ export const CourseManagement = () => {
     if (!selectedCourse) return;
     
     try {
-      // Delete from Firebase
-      await remove(ref(database, `courses/${selectedCourse.id}`));
+      await getRepositories().courses.remove(selectedCourse.id);
       
       toast.success("Course deleted successfully");
       setIsDeleteCourseOpen(false);
@@ -200,8 +150,7 @@ export const CourseManagement = () => {
 
   const handleArchiveCourse = async (course: Course, archive: boolean) => {
     try {
-      // Update in Firebase
-      await update(ref(database, `courses/${course.id}`), {
+      await getRepositories().courses.update(course.id, {
         is_archived: archive,
         updated_at: new Date().toISOString()
       });
@@ -299,6 +248,17 @@ export const CourseManagement = () => {
                   >
                     <Trash className="h-4 w-4" />
                   </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Import / Export"
+                    onClick={() => {
+                      setSelectedCourse(course);
+                      setIsCourseDataOpen(true);
+                    }}
+                  >
+                    <FileSpreadsheet className="h-4 w-4" />
+                  </Button>
                 </div>
                 <Button
                   variant="outline"
@@ -487,6 +447,15 @@ export const CourseManagement = () => {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {selectedCourse && (
+        <CourseDataDialog
+          open={isCourseDataOpen}
+          onOpenChange={setIsCourseDataOpen}
+          courseId={selectedCourse.id}
+          courseTitle={selectedCourse.title}
+        />
+      )}
     </div>
   );
 };
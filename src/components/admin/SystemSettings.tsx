@@ -1,13 +1,39 @@
 
-import React from "react";
+import React, { useState, useEffect } from "react";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Settings, Lock, Bell, Users, Database, CloudUpload, Key } from "lucide-react";
-import { ApiKeyManager } from "./ApiKeyManager";
+import { toast } from "sonner";
+import { useAuth } from "@/contexts/AuthContext";
+import { NotificationSettings } from "@/lib/types";
+import { saveNotificationSettings, subscribeToNotificationSettings } from "@/lib/notifications";
+import { AIProviderSettings } from "./AIProviderSettings";
 
 export const SystemSettings = () => {
+  const { user } = useAuth();
+  const [notificationSettings, setNotificationSettings] = useState<NotificationSettings | null>(null);
+
+  useEffect(() => {
+    return subscribeToNotificationSettings(setNotificationSettings);
+  }, []);
+
+  const handleNotificationSettingChange = async (
+    setting: "assignment_reminders" | "email_notifications",
+    enabled: boolean
+  ) => {
+    if (!user || !notificationSettings) return;
+    try {
+      await saveNotificationSettings({ ...notificationSettings, [setting]: enabled }, user.id);
+      const label = setting === "email_notifications" ? "Email notifications" : "Assignment reminders";
+      toast.success(`${label} turned ${enabled ? "on" : "off"}`);
+    } catch (error) {
+      console.error("Error saving notification settings:", error);
+      toast.error("Failed to save notification settings");
+    }
+  };
+
   return (
     <div className="space-y-6">
       <div>
@@ -17,8 +43,8 @@ export const SystemSettings = () => {
         </p>
       </div>
 
-      {/* API Key Manager */}
-      <ApiKeyManager />
+      {/* AI Provider */}
+      <AIProviderSettings />
 
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         <Card>
@@ -83,7 +109,11 @@ export const SystemSettings = () => {
                   Send email for important events
                 </p>
               </div>
-              <Switch />
+              <Switch
+                checked={notificationSettings?.email_notifications ?? false}
+                onCheckedChange={(enabled) => handleNotificationSettingChange("email_notifications", enabled)}
+                disabled={!notificationSettings}
+              />
             </div>
             <div className="flex items-center justify-between">
               <div className="space-y-0.5">
@@ -92,7 +122,11 @@ export const SystemSettings = () => {
                   Send reminders about upcoming deadlines
                 </p>
               </div>
-              <Switch />
+              <Switch
+                checked={notificationSettings?.assignment_reminders ?? false}
+                onCheckedChange={(enabled) => handleNotificationSettingChange("assignment_reminders", enabled)}
+                disabled={!notificationSettings}
+              />
             </div>
             <div className="flex items-center justify-between">
               <div className="space-y-0.5">
@@ -7,6 +7,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Card, CardContent } from "@/components/ui/card";
 import { Loader2, Search, Trash, Pencil, Plus, User as UserIcon } from "lucide-react";
 import { toast } from "sonner";
@@ -16,8 +17,13 @@ import {
   updateProfile, 
   deleteUser
 } from "firebase/auth";
-import { ref, set, get, remove, update } from "firebase/database";
-import { database } from "@/firebase";
+import { getRepositories } from "@/lib/repositories";
+import {
+  ModeratedCourse,
+  fetchModeratedCourses,
+  fetchModeratorAssignments,
+  saveModeratorAssignments,
+} from "@/components/moderator/utils/moderation-utils";
 
 export const UserManagement = () => {
   const { user: currentUser } = useAuth();
@@ -34,31 +40,21 @@ export const UserManagement = () => {
   });
   const [users, setUsers] = useState<User[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [allCourses, setAllCourses] = useState<ModeratedCourse[]>([]);
+  const [moderatedCourseIds, setModeratedCourseIds] = useState<string[]>([]);
 
   useEffect(() => {
     const fetchUsers = async () => {
       setIsLoading(true);
       try {
-        const usersRef = ref(database, 'users');
-        const snapshot = await get(usersRef);
-        
-        if (!snapshot.exists()) {
-          setUsers([]);
-          setIsLoading(false);
-          return;
-        }
-        
-        const usersData: User[] = [];
-        snapshot.forEach((childSnapshot) => {
-          const userData = childSnapshot.val();
-          usersData.push({
-            id: childSnapshot.key,
-            name: userData.name || '',
-            email: userData.email || '',
-            role: userData.role as UserRole,
-            avatar: userData.avatar || ''
-          });
-        });
+        const stored = await getRepositories().users.list();
+        const usersData: User[] = stored.map((userData) => ({
+          id: userData.id,
+          name: userData.name || '',
+          email: userData.email || '',
+          role: userData.role,
+          avatar: userData.avatar || ''
+        }));
         
         setUsers(usersData);
       } catch (error) {
@@ -93,11 +89,11 @@ export const UserManagement = () => {
         displayName: newUser.name
       });
       
-      await set(ref(database, `users/${firebaseUser.uid}`), {
+      await getRepositories().users.create({
+        id: firebaseUser.uid,
         name: newUser.name,
         email: newUser.email,
-        role: newUser.role,
-        createdAt: new Date().toISOString()
+        role: newUser.role
       });
       
       toast.success("User created successfully");
@@ -122,15 +118,34 @@ export const UserManagement = () => {
     }
   };
 
+  const openEditUser = async (user: User) => {
+    setSelectedUser(user);
+    setIsEditUserOpen(true);
+    setModeratedCourseIds([]);
+
+    try {
+      const [courses, assigned] = await Promise.all([
+        allCourses.length > 0 || !currentUser ? Promise.resolve(allCourses) : fetchModeratedCourses(currentUser),
+        fetchModeratorAssignments(user.id),
+      ]);
+      setAllCourses(courses);
+      setModeratedCourseIds(assigned);
+    } catch (error) {
+      console.error("Error loading moderator assignments:", error);
+    }
+  };
+
   const handleEditUser = async () => {
     if (!selectedUser) return;
     
     try {
-      await update(ref(database, `users/${selectedUser.id}`), {
+      await getRepositories().users.update(selectedUser.id, {
         name: selectedUser.name,
-        role: selectedUser.role,
-        updatedAt: new Date().toISOString()
+        role: selectedUser.role
       });
+
+      // Assignments only mean something for moderators, so other roles lose them
+      await saveModeratorAssignments(selectedUser.id, selectedUser.role === "moderator" ? moderatedCourseIds : []);
       
       toast.success("User updated successfully");
       setIsEditUserOpen(false);
@@ -148,7 +163,7 @@ export const UserManagement = () => {
     if (!selectedUser) return;
     
     try {
-      await remove(ref(database, `users/${selectedUser.id}`));
+      await getRepositories().users.remove(selectedUser.id);
       
       toast.success("User deleted successfully");
       setIsDeleteUserOpen(false);
@@ -214,10 +229,7 @@ export const UserManagement = () => {
                       <Button 
                         variant="ghost" 
                         size="icon"
-                        onClick={() => {
-                          setSelectedUser(user);
-                          setIsEditUserOpen(true);
-                        }}
+                        onClick={() => openEditUser(user)}
                       >
                         <Pencil className="h-4 w-4" />
                       </Button>
@@ -371,6 +383,33 @@ export const UserManagement = () => {
                   </div>
                 </RadioGroup>
               </div>
+              {selectedUser.role === "moderator" && (
+                <div className="space-y-2">
+                  <Label>Moderated Courses</Label>
+                  <div className="max-h-48 overflow-y-auto space-y-2 border rounded-md p-3">
+                    {allCourses.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">No courses yet.</p>
+                    ) : (
+                      allCourses.map((course) => (
+                        <div key={course.id} className="flex items-center space-x-2">
+                          <Checkbox
+                            id={`moderate-${course.id}`}
+                            checked={moderatedCourseIds.includes(course.id)}
+                            onCheckedChange={(checked) =>
+                              setModeratedCourseIds((prev) =>
+                                checked ? [...prev, course.id] : prev.filter((id) => id !== course.id)
+                              )
+                            }
+                          />
+                          <Label htmlFor={`moderate-${course.id}`} className="cursor-pointer font-normal">
+                            {course.title}
+                          </Label>
+                        </div>
+                      ))
+                    )}
+                  </div>
+                </div>
+              )}
             </div>
           )}
           <DialogFooter>
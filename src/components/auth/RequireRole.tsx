@@ -0,0 +1,39 @@
+import React from "react";
+import { Navigate, Outlet } from "react-router-dom";
+import { useAuth } from "@/contexts/AuthContext";
+import { UserRole } from "@/lib/types";
+import { Header } from "@/components/layout/Header";
+import { Footer } from "@/components/layout/Footer";
+import Forbidden from "@/pages/Forbidden";
+
+interface RequireRoleProps {
+  roles: UserRole[];
+}
+
+// Route guard for a tree of routes: signed-out visitors go to the login page
+// and signed-in users without one of the given roles get the 403 page.
+export const RequireRole: React.FC<RequireRoleProps> = ({ roles }) => {
+  const { user, loading } = useAuth();
+
+  if (loading) {
+    return (
+      <div className="flex flex-col min-h-screen">
+        <Header />
+        <main className="flex-1 flex items-center justify-center">
+          <p className="text-muted-foreground">Loading...</p>
+        </main>
+        <Footer />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/login" replace />;
+  }
+
+  if (!roles.includes(user.role)) {
+    return <Forbidden />;
+  }
+
+  return <Outlet />;
+};
@@ -3,6 +3,7 @@ import React from "react";
 import { Link } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { useAuth } from "@/contexts/AuthContext";
+import { NotificationBell } from "./NotificationBell";
 
 export function Header() {
   const { user, logout, isAuthenticated } = useAuth();
@@ -34,6 +35,7 @@ export function Header() {
           <nav className="flex items-center space-x-2">
             {isAuthenticated ? (
               <div className="flex items-center gap-4">
+                <NotificationBell />
                 <span className="text-sm hidden md:inline-block">
                   {user?.name}
                 </span>
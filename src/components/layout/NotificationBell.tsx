@@ -0,0 +1,187 @@
+import React, { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Bell, CheckCheck, Settings } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { useAuth } from "@/contexts/AuthContext";
+import { Notification, NotificationPreferences, NotificationSettings, NotificationType } from "@/lib/types";
+import {
+  DEFAULT_NOTIFICATION_SETTINGS,
+  NOTIFICATION_TYPE_OPTIONS,
+  markAllNotificationsRead,
+  markNotificationRead,
+  saveNotificationPreferences,
+  sendDueSoonReminders,
+  subscribeToNotificationPreferences,
+  subscribeToNotificationSettings,
+  subscribeToNotifications,
+  wantsNotification,
+} from "@/lib/notifications";
+
+export function NotificationBell() {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [preferences, setPreferences] = useState<NotificationPreferences>({});
+  const [settings, setSettings] = useState<NotificationSettings>(DEFAULT_NOTIFICATION_SETTINGS);
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+    const unsubscribers = [
+      subscribeToNotifications(user.id, setNotifications),
+      subscribeToNotificationPreferences(user.id, setPreferences),
+      subscribeToNotificationSettings(setSettings),
+    ];
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [user]);
+
+  useEffect(() => {
+    if (user?.role !== "student") return;
+    sendDueSoonReminders(user.id).catch((error) => console.error("Error sending due date reminders:", error));
+  }, [user]);
+
+  if (!user) return null;
+
+  const unreadCount = notifications.filter((notification) => !notification.read).length;
+  const options = NOTIFICATION_TYPE_OPTIONS.filter((option) => user.role === "student" || !option.studentsOnly);
+
+  const handleOpen = (notification: Notification) => {
+    setIsOpen(false);
+    if (!notification.read) {
+      markNotificationRead(notification.id).catch((error) => console.error("Error marking notification read:", error));
+    }
+    if (notification.link) navigate(notification.link);
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await markAllNotificationsRead(notifications);
+    } catch (error) {
+      console.error("Error marking notifications read:", error);
+      toast.error("Failed to mark notifications as read");
+    }
+  };
+
+  const handleToggle = async (type: NotificationType, enabled: boolean) => {
+    try {
+      await saveNotificationPreferences(user.id, { ...preferences, [type]: enabled });
+    } catch (error) {
+      console.error("Error saving notification preferences:", error);
+      toast.error("Failed to save notification preferences");
+    }
+  };
+
+  return (
+    <>
+      <Popover open={isOpen} onOpenChange={setIsOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size="icon" className="relative" aria-label="Notifications">
+            <Bell className="h-5 w-5" />
+            {unreadCount > 0 && (
+              <span className="absolute -top-0.5 -right-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-destructive px-1 text-[10px] font-medium text-destructive-foreground">
+                {unreadCount > 99 ? "99+" : unreadCount}
+              </span>
+            )}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-80 p-0">
+          <div className="flex items-center justify-between border-b px-4 py-2">
+            <span className="font-medium">Notifications</span>
+            <div className="flex items-center gap-1">
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                onClick={handleMarkAllRead}
+                disabled={unreadCount === 0}
+                title="Mark all as read"
+              >
+                <CheckCheck className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                onClick={() => {
+                  setIsOpen(false);
+                  setIsSettingsOpen(true);
+                }}
+                title="Notification settings"
+              >
+                <Settings className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+          {notifications.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">You're all caught up</p>
+          ) : (
+            <div className="max-h-96 overflow-y-auto">
+              {notifications.map((notification) => (
+                <button
+                  key={notification.id}
+                  type="button"
+                  onClick={() => handleOpen(notification)}
+                  className={cn(
+                    "flex w-full gap-3 border-b px-4 py-3 text-left last:border-b-0 hover:bg-muted/50",
+                    !notification.read && "bg-primary/5"
+                  )}
+                >
+                  <span
+                    className={cn("mt-1.5 h-2 w-2 shrink-0 rounded-full", notification.read ? "bg-transparent" : "bg-primary")}
+                  />
+                  <span className="space-y-1">
+                    <span className="block text-sm font-medium">{notification.title}</span>
+                    {notification.content && (
+                      <span className="block text-sm text-muted-foreground">{notification.content}</span>
+                    )}
+                    <span className="block text-xs text-muted-foreground">
+                      {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                    </span>
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
+        </PopoverContent>
+      </Popover>
+
+      <Dialog open={isSettingsOpen} onOpenChange={setIsSettingsOpen}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>Notification Settings</DialogTitle>
+            <DialogDescription>Choose which notifications you receive.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            {options.map((option) => {
+              const disabledBySystem = option.value === "due_soon" && !settings.assignment_reminders;
+              return (
+                <div key={option.value} className="flex items-center justify-between gap-4">
+                  <div className="space-y-0.5">
+                    <Label htmlFor={`notify-${option.value}`}>{option.label}</Label>
+                    <p className="text-sm text-muted-foreground">
+                      {disabledBySystem ? "Turned off for everyone by an administrator" : option.description}
+                    </p>
+                  </div>
+                  <Switch
+                    id={`notify-${option.value}`}
+                    checked={!disabledBySystem && wantsNotification(preferences, option.value)}
+                    onCheckedChange={(checked) => handleToggle(option.value, checked)}
+                    disabled={disabledBySystem}
+                  />
+                </div>
+              );
+            })}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,105 @@
+import React, { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ModerationLogEntry } from "@/lib/types";
+import { ACTION_LABELS, ModeratedCourse, fetchUserNames, subscribeToModerationLog } from "./utils/moderation-utils";
+
+interface ModerationLogProps {
+  courses: ModeratedCourse[];
+}
+
+export const ModerationLog: React.FC<ModerationLogProps> = ({ courses }) => {
+  const [entries, setEntries] = useState<ModerationLogEntry[]>([]);
+  const [courseFilter, setCourseFilter] = useState("all");
+  const [names, setNames] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    return subscribeToModerationLog(
+      courses.map((course) => course.id),
+      setEntries
+    );
+  }, [courses]);
+
+  useEffect(() => {
+    const missing = entries
+      .map((entry) => entry.target_user_id)
+      .filter((id): id is string => !!id && !(id in names));
+    if (missing.length === 0) return;
+    fetchUserNames(missing)
+      .then((loaded) => setNames((prev) => ({ ...prev, ...loaded })))
+      .catch((error) => console.error("Error loading user names:", error));
+  }, [entries, names]);
+
+  const courseTitle = (courseId: string) => courses.find((course) => course.id === courseId)?.title || "Unknown course";
+  const filtered = entries.filter((entry) => courseFilter === "all" || entry.course_id === courseFilter);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col md:flex-row justify-between md:items-center gap-4">
+          <div>
+            <CardTitle>Audit Log</CardTitle>
+            <CardDescription>Every moderation action in your courses, newest first</CardDescription>
+          </div>
+          <Select value={courseFilter} onValueChange={setCourseFilter}>
+            <SelectTrigger className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All courses</SelectItem>
+              {courses.map((course) => (
+                <SelectItem key={course.id} value={course.id}>
+                  {course.title}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>When</TableHead>
+              <TableHead>Moderator</TableHead>
+              <TableHead>Action</TableHead>
+              <TableHead>Target</TableHead>
+              <TableHead>Course</TableHead>
+              <TableHead>Reason</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {filtered.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground">
+                  No moderation actions yet.
+                </TableCell>
+              </TableRow>
+            ) : (
+              filtered.map((entry) => (
+                <TableRow key={entry.id}>
+                  <TableCell className="whitespace-nowrap">{format(new Date(entry.created_at), "PPp")}</TableCell>
+                  <TableCell>{entry.moderator_name}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{ACTION_LABELS[entry.action]}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    {entry.target_type === "user" || entry.target_type === "report"
+                      ? entry.target_type
+                      : `${entry.target_type} by`}{" "}
+                    {entry.target_user_id ? names[entry.target_user_id] || "…" : ""}
+                  </TableCell>
+                  <TableCell>{courseTitle(entry.course_id)}</TableCell>
+                  <TableCell className="max-w-xs">{entry.reason || "—"}</TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
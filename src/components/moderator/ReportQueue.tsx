@@ -0,0 +1,237 @@
+import React, { useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { AlertTriangle, Check, EyeOff, Flag, Lock, VolumeX } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/contexts/AuthContext";
+import { ForumComment, ForumReport, ForumThread } from "@/lib/types";
+import {
+  ModeratedCourse,
+  dismissReport,
+  fetchReportTarget,
+  setContentStatus,
+  setThreadLocked,
+  subscribeToReports,
+} from "./utils/moderation-utils";
+import { SanctionDialog, SanctionRequest } from "./SanctionDialog";
+
+interface ReportQueueProps {
+  courses: ModeratedCourse[];
+}
+
+type ReportTargetContent = ForumThread | ForumComment;
+
+export const ReportQueue: React.FC<ReportQueueProps> = ({ courses }) => {
+  const { user } = useAuth();
+  const [reports, setReports] = useState<ForumReport[]>([]);
+  const [targets, setTargets] = useState<Record<string, ReportTargetContent | null>>({});
+  const [showResolved, setShowResolved] = useState(false);
+  const [busyReport, setBusyReport] = useState<string | null>(null);
+  const [sanction, setSanction] = useState<SanctionRequest | null>(null);
+
+  useEffect(() => {
+    return subscribeToReports(
+      courses.map((course) => course.id),
+      setReports
+    );
+  }, [courses]);
+
+  // Load the reported post for each report so moderators see what they act on
+  useEffect(() => {
+    const missing = reports.filter((report) => !(report.target_id in targets));
+    if (missing.length === 0) return;
+
+    Promise.all(missing.map(async (report) => [report.target_id, await fetchReportTarget(report)] as const))
+      .then((loaded) => setTargets((prev) => ({ ...prev, ...Object.fromEntries(loaded) })))
+      .catch((error) => console.error("Error loading reported content:", error));
+  }, [reports, targets]);
+
+  const courseTitle = (courseId: string) => courses.find((course) => course.id === courseId)?.title || "Unknown course";
+  const visibleReports = reports.filter((report) => showResolved || report.status === "open");
+  const openCount = reports.filter((report) => report.status === "open").length;
+
+  const runAction = async (report: ForumReport, action: () => Promise<void>, message: string) => {
+    setBusyReport(report.id);
+    try {
+      await action();
+      toast.success(message);
+    } catch (error) {
+      console.error("Error applying moderation action:", error);
+      toast.error("Failed to apply moderation action");
+    } finally {
+      setBusyReport(null);
+    }
+  };
+
+  const handleHide = (report: ForumReport) => {
+    if (!user) return;
+    runAction(
+      report,
+      async () => {
+        await setContentStatus(
+          user,
+          {
+            type: report.target_type,
+            id: report.target_id,
+            thread_id: report.thread_id,
+            course_id: report.course_id,
+            author_id: report.target_author_id,
+          },
+          "hidden",
+          { reason: report.reason, report }
+        );
+        setTargets((prev) => {
+          const target = prev[report.target_id];
+          return target ? { ...prev, [report.target_id]: { ...target, status: "hidden" } } : prev;
+        });
+      },
+      "Content hidden"
+    );
+  };
+
+  const handleLock = (report: ForumReport) => {
+    const thread = targets[report.thread_id];
+    if (!user || !thread || !("title" in thread)) return;
+    runAction(report, () => setThreadLocked(user, thread, true, { reason: report.reason, report }), "Thread locked");
+  };
+
+  const handleDismiss = (report: ForumReport) => {
+    if (!user) return;
+    runAction(report, () => dismissReport(user, report), "Report dismissed");
+  };
+
+  const authorName = (report: ForumReport) => targets[report.target_id]?.author_name || "this user";
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row justify-between md:items-center gap-4">
+        <div>
+          <h2 className="text-2xl font-bold">Report Queue</h2>
+          <p className="text-muted-foreground">
+            {openCount} open report{openCount !== 1 ? "s" : ""} across {courses.length} course{courses.length !== 1 ? "s" : ""}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch id="show-resolved" checked={showResolved} onCheckedChange={setShowResolved} />
+          <Label htmlFor="show-resolved">Show resolved</Label>
+        </div>
+      </div>
+
+      {visibleReports.length === 0 ? (
+        <Card>
+          <CardContent className="py-8 text-center text-muted-foreground">
+            <Check className="h-8 w-8 mx-auto mb-2" />
+            Nothing to review.
+          </CardContent>
+        </Card>
+      ) : (
+        visibleReports.map((report) => {
+          const target = targets[report.target_id];
+          const isOpen = report.status === "open";
+          const busy = busyReport === report.id;
+
+          return (
+            <Card key={report.id}>
+              <CardHeader>
+                <div className="flex justify-between items-start gap-4">
+                  <div>
+                    <CardTitle className="text-lg flex items-center gap-2">
+                      <Flag className="h-4 w-4 text-red-500" />
+                      Reported {report.target_type}
+                    </CardTitle>
+                    <CardDescription>
+                      {courseTitle(report.course_id)} • reported by {report.reporter_name}{" "}
+                      {formatDistanceToNow(new Date(report.created_at), { addSuffix: true })}
+                    </CardDescription>
+                  </div>
+                  <Badge variant={isOpen ? "destructive" : "secondary"}>{report.status}</Badge>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div>
+                  <h4 className="text-sm font-medium mb-1">Reason</h4>
+                  <p className="text-sm">{report.reason}</p>
+                </div>
+
+                <div>
+                  <h4 className="text-sm font-medium mb-1 flex items-center gap-2">
+                    Content by {target?.author_name || "unknown"}
+                    {target?.status === "hidden" && <Badge variant="outline">Hidden</Badge>}
+                  </h4>
+                  {target === null ? (
+                    <p className="text-sm text-muted-foreground">The reported content no longer exists.</p>
+                  ) : target ? (
+                    <div className="text-sm bg-muted p-3 rounded-md whitespace-pre-wrap">
+                      {"title" in target && <p className="font-medium mb-1">{target.title}</p>}
+                      {target.content}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">Loading...</p>
+                  )}
+                </div>
+
+                {isOpen && (
+                  <div className="flex flex-wrap gap-2">
+                    <Button size="sm" variant="destructive" disabled={busy || !target} onClick={() => handleHide(report)}>
+                      <EyeOff className="h-4 w-4 mr-1" />
+                      Hide
+                    </Button>
+                    {report.target_type === "thread" && (
+                      <Button size="sm" variant="outline" disabled={busy || !target} onClick={() => handleLock(report)}>
+                        <Lock className="h-4 w-4 mr-1" />
+                        Lock Thread
+                      </Button>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={busy}
+                      onClick={() =>
+                        setSanction({
+                          type: "warn",
+                          userId: report.target_author_id,
+                          userName: authorName(report),
+                          courseId: report.course_id,
+                          report,
+                        })
+                      }
+                    >
+                      <AlertTriangle className="h-4 w-4 mr-1" />
+                      Warn Author
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={busy}
+                      onClick={() =>
+                        setSanction({
+                          type: "mute",
+                          userId: report.target_author_id,
+                          userName: authorName(report),
+                          courseId: report.course_id,
+                          report,
+                        })
+                      }
+                    >
+                      <VolumeX className="h-4 w-4 mr-1" />
+                      Mute Author
+                    </Button>
+                    <Button size="sm" variant="ghost" disabled={busy} onClick={() => handleDismiss(report)}>
+                      Dismiss
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          );
+        })
+      )}
+
+      <SanctionDialog request={sanction} onOpenChange={(open) => !open && setSanction(null)} />
+    </div>
+  );
+};
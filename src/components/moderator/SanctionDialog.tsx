@@ -0,0 +1,107 @@
+import React, { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/contexts/AuthContext";
+import { ForumReport } from "@/lib/types";
+import { MUTE_DURATIONS, muteUser, warnUser } from "./utils/moderation-utils";
+
+export interface SanctionRequest {
+  type: "warn" | "mute";
+  userId: string;
+  userName: string;
+  courseId: string;
+  report?: ForumReport;
+}
+
+interface SanctionDialogProps {
+  request: SanctionRequest | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const SanctionDialog: React.FC<SanctionDialogProps> = ({ request, onOpenChange }) => {
+  const { user } = useAuth();
+  const [reason, setReason] = useState("");
+  const [hours, setHours] = useState(String(MUTE_DURATIONS[1].hours));
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setReason(request?.report?.reason || "");
+  }, [request]);
+
+  const handleConfirm = async () => {
+    if (!user || !request || !reason.trim()) return;
+
+    setSaving(true);
+    try {
+      if (request.type === "warn") {
+        await warnUser(user, request.userId, request.courseId, reason, { report: request.report });
+        toast.success(`Warning sent to ${request.userName}`);
+      } else {
+        await muteUser(user, request.userId, request.courseId, Number(hours), reason, { report: request.report });
+        toast.success(`${request.userName} has been muted`);
+      }
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error issuing sanction:", error);
+      toast.error("Failed to apply the sanction");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={request !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{request?.type === "mute" ? "Mute" : "Warn"} {request?.userName}</DialogTitle>
+          <DialogDescription>
+            {request?.type === "mute"
+              ? "A muted user can read but not post or reply in this course until the mute ends."
+              : "The user sees the warning the next time they open the forums."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {request?.type === "mute" && (
+            <div className="space-y-2">
+              <Label>Duration</Label>
+              <Select value={hours} onValueChange={setHours}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MUTE_DURATIONS.map((duration) => (
+                    <SelectItem key={duration.hours} value={String(duration.hours)}>
+                      {duration.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label>Reason</Label>
+            <Textarea value={reason} onChange={(e) => setReason(e.target.value)} rows={3} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button
+            variant={request?.type === "mute" ? "destructive" : "default"}
+            onClick={handleConfirm}
+            disabled={saving || !reason.trim()}
+          >
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {request?.type === "mute" ? "Mute User" : "Send Warning"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,210 @@
+import React, { useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, ChevronDown, ChevronUp, Eye, EyeOff, Lock, Unlock, VolumeX } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/contexts/AuthContext";
+import { ForumComment, ForumThread } from "@/lib/types";
+import { subscribeToComments, subscribeToThreads } from "@/lib/forum";
+import { ModeratedCourse, ModerationTarget, setContentStatus, setThreadLocked } from "./utils/moderation-utils";
+import { SanctionDialog, SanctionRequest } from "./SanctionDialog";
+
+interface ThreadModerationProps {
+  courses: ModeratedCourse[];
+}
+
+interface ModerationControlsProps {
+  target: ModerationTarget;
+  authorName: string;
+  hidden: boolean;
+  onSanction: (request: SanctionRequest) => void;
+}
+
+const ModerationControls: React.FC<ModerationControlsProps> = ({ target, authorName, hidden, onSanction }) => {
+  const { user } = useAuth();
+
+  const toggleHidden = async () => {
+    if (!user) return;
+    try {
+      await setContentStatus(user, target, hidden ? "visible" : "hidden");
+      toast.success(hidden ? "Content restored" : "Content hidden");
+    } catch (error) {
+      console.error("Error changing content visibility:", error);
+      toast.error("Failed to update content");
+    }
+  };
+
+  const sanction = (type: SanctionRequest["type"]) =>
+    onSanction({ type, userId: target.author_id, userName: authorName, courseId: target.course_id });
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      <Button size="sm" variant="ghost" className="h-7 px-2" onClick={toggleHidden}>
+        {hidden ? <Eye className="h-4 w-4 mr-1" /> : <EyeOff className="h-4 w-4 mr-1" />}
+        {hidden ? "Restore" : "Hide"}
+      </Button>
+      <Button size="sm" variant="ghost" className="h-7 px-2" onClick={() => sanction("warn")}>
+        <AlertTriangle className="h-4 w-4 mr-1" />
+        Warn
+      </Button>
+      <Button size="sm" variant="ghost" className="h-7 px-2" onClick={() => sanction("mute")}>
+        <VolumeX className="h-4 w-4 mr-1" />
+        Mute
+      </Button>
+    </div>
+  );
+};
+
+const ThreadComments: React.FC<{ thread: ForumThread; onSanction: (request: SanctionRequest) => void }> = ({
+  thread,
+  onSanction,
+}) => {
+  const [comments, setComments] = useState<ForumComment[]>([]);
+
+  useEffect(() => {
+    return subscribeToComments(thread.id, setComments);
+  }, [thread.id]);
+
+  if (comments.length === 0) {
+    return <p className="text-sm text-muted-foreground">No replies.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {comments.map((comment) => (
+        <div key={comment.id} className="border-l-2 pl-3">
+          <div className="flex items-center gap-2 text-sm">
+            <span className="font-medium">{comment.author_name}</span>
+            <span className="text-xs text-muted-foreground">
+              {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}
+            </span>
+            {comment.status === "hidden" && <Badge variant="outline">Hidden</Badge>}
+          </div>
+          <p className={`text-sm whitespace-pre-wrap ${comment.status === "hidden" ? "text-muted-foreground" : ""}`}>
+            {comment.content}
+          </p>
+          <ModerationControls
+            target={{
+              type: "comment",
+              id: comment.id,
+              thread_id: comment.thread_id,
+              course_id: comment.course_id,
+              author_id: comment.author_id,
+            }}
+            authorName={comment.author_name}
+            hidden={comment.status === "hidden"}
+            onSanction={onSanction}
+          />
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export const ThreadModeration: React.FC<ThreadModerationProps> = ({ courses }) => {
+  const { user } = useAuth();
+  const [selectedCourse, setSelectedCourse] = useState(courses[0]?.id || "");
+  const [threads, setThreads] = useState<ForumThread[]>([]);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [sanction, setSanction] = useState<SanctionRequest | null>(null);
+
+  useEffect(() => {
+    if (!selectedCourse) return;
+    return subscribeToThreads(selectedCourse, setThreads);
+  }, [selectedCourse]);
+
+  const toggleLock = async (thread: ForumThread) => {
+    if (!user) return;
+    try {
+      await setThreadLocked(user, thread, !thread.locked);
+      toast.success(thread.locked ? "Thread unlocked" : "Thread locked");
+    } catch (error) {
+      console.error("Error locking thread:", error);
+      toast.error("Failed to update thread");
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row justify-between md:items-center gap-4">
+        <div>
+          <h2 className="text-2xl font-bold">Threads</h2>
+          <p className="text-muted-foreground">Hide, restore or lock discussions, including hidden ones</p>
+        </div>
+        <Select value={selectedCourse} onValueChange={setSelectedCourse}>
+          <SelectTrigger className="w-56">
+            <SelectValue placeholder="Select a course" />
+          </SelectTrigger>
+          <SelectContent>
+            {courses.map((course) => (
+              <SelectItem key={course.id} value={course.id}>
+                {course.title}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {threads.length === 0 ? (
+        <Card>
+          <CardContent className="py-8 text-center text-muted-foreground">No threads in this course.</CardContent>
+        </Card>
+      ) : (
+        threads.map((thread) => (
+          <Card key={thread.id}>
+            <CardHeader>
+              <div className="flex justify-between items-start gap-4">
+                <div>
+                  <CardTitle className="text-lg flex items-center gap-2">
+                    {thread.title}
+                    {thread.status === "hidden" && <Badge variant="outline">Hidden</Badge>}
+                    {thread.locked && <Badge variant="secondary">Locked</Badge>}
+                  </CardTitle>
+                  <CardDescription>
+                    {thread.author_name} • {formatDistanceToNow(new Date(thread.created_at), { addSuffix: true })}
+                  </CardDescription>
+                </div>
+                <Button size="sm" variant="outline" onClick={() => toggleLock(thread)}>
+                  {thread.locked ? <Unlock className="h-4 w-4 mr-1" /> : <Lock className="h-4 w-4 mr-1" />}
+                  {thread.locked ? "Unlock" : "Lock"}
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <p className={`text-sm whitespace-pre-wrap ${thread.status === "hidden" ? "text-muted-foreground" : ""}`}>
+                {thread.content}
+              </p>
+              <ModerationControls
+                target={{
+                  type: "thread",
+                  id: thread.id,
+                  thread_id: thread.id,
+                  course_id: thread.course_id,
+                  author_id: thread.author_id,
+                }}
+                authorName={thread.author_name}
+                hidden={thread.status === "hidden"}
+                onSanction={setSanction}
+              />
+              <Button
+                size="sm"
+                variant="link"
+                className="px-0"
+                onClick={() => setExpanded(expanded === thread.id ? null : thread.id)}
+              >
+                {expanded === thread.id ? <ChevronUp className="h-4 w-4 mr-1" /> : <ChevronDown className="h-4 w-4 mr-1" />}
+                Replies
+              </Button>
+              {expanded === thread.id && <ThreadComments thread={thread} onSanction={setSanction} />}
+            </CardContent>
+          </Card>
+        ))
+      )}
+
+      <SanctionDialog request={sanction} onOpenChange={(open) => !open && setSanction(null)} />
+    </div>
+  );
+};
@@ -0,0 +1,142 @@
+import React, { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "sonner";
+import { useAuth } from "@/contexts/AuthContext";
+import { ActiveMute, UserSanction } from "@/lib/types";
+import { isMuteActive } from "@/lib/forum";
+import {
+  ModeratedCourse,
+  fetchUserNames,
+  subscribeToCourseMutes,
+  subscribeToSanctions,
+  unmuteUser,
+} from "./utils/moderation-utils";
+
+interface UserSanctionsProps {
+  courses: ModeratedCourse[];
+}
+
+export const UserSanctions: React.FC<UserSanctionsProps> = ({ courses }) => {
+  const { user } = useAuth();
+  const [sanctions, setSanctions] = useState<UserSanction[]>([]);
+  const [mutes, setMutes] = useState<Record<string, Record<string, ActiveMute>>>({});
+  const [names, setNames] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    const unsubscribeSanctions = subscribeToSanctions(
+      courses.map((course) => course.id),
+      setSanctions
+    );
+    const unsubscribeMutes = courses.map((course) =>
+      subscribeToCourseMutes(course.id, (courseMutes) => setMutes((prev) => ({ ...prev, [course.id]: courseMutes })))
+    );
+    return () => {
+      unsubscribeSanctions();
+      unsubscribeMutes.forEach((unsubscribe) => unsubscribe());
+    };
+  }, [courses]);
+
+  useEffect(() => {
+    const missing = sanctions.map((sanction) => sanction.user_id).filter((id) => !(id in names));
+    if (missing.length === 0) return;
+    fetchUserNames(missing)
+      .then((loaded) => setNames((prev) => ({ ...prev, ...loaded })))
+      .catch((error) => console.error("Error loading user names:", error));
+  }, [sanctions, names]);
+
+  const courseTitle = (courseId: string) => courses.find((course) => course.id === courseId)?.title || "Unknown course";
+
+  const activeMutes = Object.entries(mutes).flatMap(([courseId, courseMutes]) =>
+    Object.entries(courseMutes)
+      .filter(([, mute]) => isMuteActive(mute))
+      .map(([userId, mute]) => ({ courseId, userId, mute }))
+  );
+
+  const handleUnmute = async (userId: string, courseId: string) => {
+    if (!user) return;
+    try {
+      await unmuteUser(user, userId, courseId);
+      toast.success("Mute lifted");
+    } catch (error) {
+      console.error("Error lifting mute:", error);
+      toast.error("Failed to lift mute");
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Active Mutes</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {activeMutes.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No one is muted right now.</p>
+          ) : (
+            <div className="space-y-3">
+              {activeMutes.map(({ courseId, userId, mute }) => (
+                <div key={`${courseId}_${userId}`} className="flex justify-between items-center gap-4">
+                  <div>
+                    <p className="font-medium">{names[userId] || "Loading..."}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {courseTitle(courseId)} • until {format(new Date(mute.until), "PPp")}
+                    </p>
+                  </div>
+                  <Button size="sm" variant="outline" onClick={() => handleUnmute(userId, courseId)}>
+                    Lift Mute
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Warnings and Mutes</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>User</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Course</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Issued</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sanctions.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground">
+                    No sanctions issued.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                sanctions.map((sanction) => (
+                  <TableRow key={sanction.id}>
+                    <TableCell>{names[sanction.user_id] || "Loading..."}</TableCell>
+                    <TableCell>
+                      <Badge variant={sanction.type === "mute" ? "destructive" : "secondary"}>
+                        {sanction.type === "mute" ? "Mute" : "Warning"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{courseTitle(sanction.course_id)}</TableCell>
+                    <TableCell className="max-w-xs">{sanction.reason}</TableCell>
+                    <TableCell>{format(new Date(sanction.issued_at), "PPp")}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
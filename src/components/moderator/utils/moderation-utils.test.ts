@@ -0,0 +1,169 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createMemoryRepositories, getRepositories, setRepositories } from "@/lib/repositories";
+import { ActiveMute, ForumReport, ForumThread, ModerationLogEntry, User, UserSanction } from "@/lib/types";
+import {
+  dismissReport,
+  fetchModeratedCourses,
+  fetchReportTarget,
+  muteUser,
+  saveModeratorAssignments,
+  setContentStatus,
+  subscribeToCourseMutes,
+  subscribeToModerationLog,
+  subscribeToSanctions,
+  unmuteUser,
+} from "./moderation-utils";
+
+// Runs the moderation actions against the in-memory backend
+
+const moderator: User = { id: "mod-1", name: "Morgan", role: "moderator" };
+
+const thread: ForumThread = {
+  id: "thread-1",
+  course_id: "course-1",
+  author_id: "student-1",
+  author_name: "Sam",
+  title: "Homework help",
+  content: "Spam",
+  status: "visible",
+  visible_in: "course-1",
+  created_at: "2026-01-01T00:00:00.000Z",
+};
+
+const report: ForumReport = {
+  id: "report-1",
+  course_id: "course-1",
+  thread_id: "thread-1",
+  target_type: "thread",
+  target_id: "thread-1",
+  target_author_id: "student-1",
+  reporter_id: "student-2",
+  reporter_name: "Alex",
+  reason: "Spam",
+  status: "open",
+  created_at: "2026-01-02T00:00:00.000Z",
+};
+
+const latest = <T>(subscribe: (callback: (items: T) => void) => () => void) => {
+  let value: T | undefined;
+  subscribe((items) => {
+    value = items;
+  })();
+  return value!;
+};
+
+const moderationLog = () =>
+  latest<ModerationLogEntry[]>((callback) => subscribeToModerationLog(["course-1"], callback));
+
+beforeEach(() => {
+  setRepositories(
+    createMemoryRepositories({
+      courses: [
+        { id: "course-1", title: "Biology", description: "", instructor_id: "teacher-1", is_archived: false, created_at: "", updated_at: "" },
+        { id: "course-2", title: "Algebra", description: "", instructor_id: "teacher-1", is_archived: false, created_at: "", updated_at: "" },
+      ],
+      forumThreads: [thread],
+      forumReports: [report],
+    })
+  );
+});
+
+describe("fetchModeratedCourses", () => {
+  it("lists only the courses a moderator was assigned", async () => {
+    await saveModeratorAssignments(moderator.id, ["course-1"]);
+    expect(await fetchModeratedCourses(moderator)).toEqual([{ id: "course-1", title: "Biology" }]);
+  });
+
+  it("lists every course for an admin, by title", async () => {
+    const admin: User = { id: "admin-1", name: "Ada", role: "admin" };
+    expect((await fetchModeratedCourses(admin)).map((course) => course.title)).toEqual(["Algebra", "Biology"]);
+  });
+});
+
+describe("setContentStatus", () => {
+  it("hides the post from students, resolves the report and logs the action", async () => {
+    await setContentStatus(
+      moderator,
+      { type: "thread", id: "thread-1", thread_id: "thread-1", course_id: "course-1", author_id: "student-1" },
+      "hidden",
+      { reason: " Spam ", report }
+    );
+
+    const hidden = await fetchReportTarget(report);
+    expect(hidden).toMatchObject({ status: "hidden" });
+    expect(hidden).not.toHaveProperty("visible_in");
+
+    const reports = latest<ForumReport[]>((callback) =>
+      getRepositories().moderation.subscribeReportsByCourse("course-1", callback)
+    );
+    expect(reports[0]).toMatchObject({ status: "resolved", resolved_by: "mod-1" });
+    expect(moderationLog()).toEqual([
+      expect.objectContaining({
+        action: "hide",
+        target_id: "thread-1",
+        target_user_id: "student-1",
+        moderator_id: "mod-1",
+        reason: "Spam",
+        report_id: "report-1",
+      }),
+    ]);
+  });
+
+  it("makes a restored post visible again", async () => {
+    const target = { type: "thread" as const, id: "thread-1", thread_id: "thread-1", course_id: "course-1", author_id: "student-1" };
+    await setContentStatus(moderator, target, "hidden");
+    await setContentStatus(moderator, target, "visible");
+
+    expect(await fetchReportTarget(report)).toMatchObject({ status: "visible", visible_in: "course-1" });
+    expect(moderationLog().map((entry) => entry.action).sort()).toEqual(["hide", "restore"]);
+  });
+
+  it("changes nothing when the post is gone", async () => {
+    await expect(
+      setContentStatus(
+        moderator,
+        { type: "comment", id: "missing", thread_id: "thread-1", course_id: "course-1", author_id: "student-1" },
+        "hidden",
+        { report }
+      )
+    ).rejects.toThrow();
+    expect(moderationLog()).toEqual([]);
+  });
+});
+
+describe("muteUser", () => {
+  it("records the sanction and starts a mute tied to it", async () => {
+    await muteUser(moderator, "student-1", "course-1", 24, "Repeated spam");
+
+    const sanctions = latest<UserSanction[]>((callback) => subscribeToSanctions(["course-1"], callback));
+    expect(sanctions).toEqual([
+      expect.objectContaining({ user_id: "student-1", type: "mute", reason: "Repeated spam", issued_by: "mod-1" }),
+    ]);
+
+    const mutes = latest<Record<string, ActiveMute>>((callback) => subscribeToCourseMutes("course-1", callback));
+    expect(mutes["student-1"].sanction_id).toBe(sanctions[0].id);
+    expect(mutes["student-1"].until).toBe(new Date(sanctions[0].expires_at!).getTime());
+  });
+
+  it("is lifted by unmuteUser", async () => {
+    await muteUser(moderator, "student-1", "course-1", 1, "Spam");
+    await unmuteUser(moderator, "student-1", "course-1");
+
+    expect(latest<Record<string, ActiveMute>>((callback) => subscribeToCourseMutes("course-1", callback))).toEqual({});
+    expect(moderationLog().map((entry) => entry.action).sort()).toEqual(["mute", "unmute"]);
+  });
+});
+
+describe("dismissReport", () => {
+  it("marks the report dismissed and logs it", async () => {
+    await dismissReport(moderator, report, "Not spam");
+
+    const reports = latest<ForumReport[]>((callback) =>
+      getRepositories().moderation.subscribeReportsByCourse("course-1", callback)
+    );
+    expect(reports[0]).toMatchObject({ status: "dismissed", resolved_by: "mod-1" });
+    expect(moderationLog()).toEqual([
+      expect.objectContaining({ action: "dismiss_report", target_type: "report", target_id: "report-1", reason: "Not spam" }),
+    ]);
+  });
+});
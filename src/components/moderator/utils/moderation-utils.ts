@@ -0,0 +1,259 @@
+import {
+  ActiveMute,
+  ForumComment,
+  ForumContentStatus,
+  ForumReport,
+  ForumThread,
+  ModerationActionType,
+  ModerationLogEntry,
+  User,
+  UserSanction,
+} from "@/lib/types";
+import { getRepositories, ModerationChanges, Unsubscribe } from "@/lib/repositories";
+
+export interface ModeratedCourse {
+  id: string;
+  title: string;
+}
+
+export const MUTE_DURATIONS = [
+  { hours: 1, label: "1 hour" },
+  { hours: 24, label: "1 day" },
+  { hours: 24 * 7, label: "1 week" },
+];
+
+// Admins moderate every course; moderators only the courses an admin assigned
+// them
+export async function fetchModeratedCourses(user: User): Promise<ModeratedCourse[]> {
+  const { courses, moderation } = getRepositories();
+  const [allCourses, assigned] = await Promise.all([
+    courses.list(),
+    user.role === "admin" ? null : moderation.getAssignments(user.id),
+  ]);
+
+  return allCourses
+    .filter((course) => !assigned || assigned.includes(course.id))
+    .map((course) => ({ id: course.id, title: course.title || "Untitled course" }))
+    .sort((a, b) => a.title.localeCompare(b.title));
+}
+
+export const fetchModeratorAssignments = (userId: string) => getRepositories().moderation.getAssignments(userId);
+
+export const saveModeratorAssignments = (userId: string, courseIds: string[]) =>
+  getRepositories().moderation.saveAssignments(userId, courseIds);
+
+// Subscribes to one query per course and reports the merged, newest-first list
+function subscribeByCourse<T extends { id: string }>(
+  subscribe: (courseId: string, callback: (items: T[]) => void) => Unsubscribe,
+  courseIds: string[],
+  sortKey: (item: T) => string,
+  callback: (items: T[]) => void
+) {
+  const byCourse: Record<string, T[]> = {};
+  const emit = () => {
+    const items = Object.values(byCourse).flat();
+    callback(items.sort((a, b) => sortKey(b).localeCompare(sortKey(a))));
+  };
+
+  const unsubscribes = courseIds.map((courseId) =>
+    subscribe(courseId, (items) => {
+      byCourse[courseId] = items;
+      emit();
+    })
+  );
+
+  if (courseIds.length === 0) {
+    callback([]);
+  }
+
+  return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+}
+
+export const subscribeToReports = (courseIds: string[], callback: (reports: ForumReport[]) => void) =>
+  subscribeByCourse(getRepositories().moderation.subscribeReportsByCourse, courseIds, (report) => report.created_at, callback);
+
+export const subscribeToModerationLog = (courseIds: string[], callback: (entries: ModerationLogEntry[]) => void) =>
+  subscribeByCourse(getRepositories().moderation.subscribeLogByCourse, courseIds, (entry) => entry.created_at, callback);
+
+export const subscribeToSanctions = (courseIds: string[], callback: (sanctions: UserSanction[]) => void) =>
+  subscribeByCourse(getRepositories().moderation.subscribeSanctionsByCourse, courseIds, (sanction) => sanction.issued_at, callback);
+
+export const subscribeToCourseMutes = (courseId: string, callback: (mutes: Record<string, ActiveMute>) => void) =>
+  getRepositories().moderation.subscribeMutesByCourse(courseId, callback);
+
+export const fetchReportTarget = (report: ForumReport): Promise<ForumThread | ForumComment | null> =>
+  getRepositories().forum.getPost(report.target_type, report.target_id);
+
+interface ActionOptions {
+  reason?: string;
+  report?: ForumReport; // Resolved by the action when given
+}
+
+// Every moderation action goes through here: the change itself, the audit
+// log entry and the report resolution are applied together, so the log
+// cannot miss an action that took effect.
+async function applyModeration(
+  moderator: User,
+  courseId: string,
+  entry: Pick<ModerationLogEntry, "action" | "target_type" | "target_id"> & { target_user_id?: string },
+  changes: Omit<ModerationChanges, "log" | "report">,
+  options: ActionOptions
+) {
+  const now = new Date().toISOString();
+
+  const log: ModerationChanges["log"] = {
+    course_id: courseId,
+    moderator_id: moderator.id,
+    moderator_name: moderator.name,
+    ...entry,
+    created_at: now,
+  };
+  if (options.reason?.trim()) {
+    log.reason = options.reason.trim();
+  }
+  if (options.report) {
+    log.report_id = options.report.id;
+  }
+
+  const report: ModerationChanges["report"] = options.report && {
+    id: options.report.id,
+    changes: {
+      status: entry.action === "dismiss_report" ? "dismissed" : "resolved",
+      resolved_by: moderator.id,
+      resolved_at: now,
+    },
+  };
+
+  await getRepositories().moderation.apply({ ...changes, log, report });
+}
+
+export interface ModerationTarget {
+  type: "thread" | "comment";
+  id: string;
+  thread_id: string; // A thread's own id
+  course_id: string;
+  author_id: string;
+}
+
+export function setContentStatus(
+  moderator: User,
+  target: ModerationTarget,
+  status: ForumContentStatus,
+  options: ActionOptions = {}
+) {
+  // Students list posts by visible_in, so clearing it is what hides a post from them
+  const visibleIn = target.type === "thread" ? target.course_id : target.thread_id;
+  return applyModeration(
+    moderator,
+    target.course_id,
+    {
+      action: status === "hidden" ? "hide" : "restore",
+      target_type: target.type,
+      target_id: target.id,
+      target_user_id: target.author_id,
+    },
+    {
+      post: {
+        type: target.type,
+        id: target.id,
+        changes: { status, visible_in: status === "visible" ? visibleIn : undefined },
+      },
+    },
+    options
+  );
+}
+
+export function setThreadLocked(moderator: User, thread: ForumThread, locked: boolean, options: ActionOptions = {}) {
+  return applyModeration(
+    moderator,
+    thread.course_id,
+    { action: locked ? "lock" : "unlock", target_type: "thread", target_id: thread.id, target_user_id: thread.author_id },
+    { post: { type: "thread", id: thread.id, changes: { locked } } },
+    options
+  );
+}
+
+function issueSanction(
+  moderator: User,
+  action: Extract<ModerationActionType, "warn" | "mute">,
+  userId: string,
+  courseId: string,
+  reason: string,
+  options: ActionOptions,
+  expiresAt?: Date
+) {
+  const sanction: ModerationChanges["sanction"] = {
+    user_id: userId,
+    course_id: courseId,
+    type: action === "warn" ? "warning" : "mute",
+    reason: reason.trim(),
+    issued_by: moderator.id,
+    issued_at: new Date().toISOString(),
+  };
+
+  const changes: Omit<ModerationChanges, "log" | "report"> = { sanction };
+  if (expiresAt) {
+    sanction.expires_at = expiresAt.toISOString();
+    changes.mute = { user_id: userId, until: expiresAt.getTime() };
+  }
+
+  return applyModeration(
+    moderator,
+    courseId,
+    { action, target_type: "user", target_id: userId, target_user_id: userId },
+    changes,
+    { ...options, reason }
+  );
+}
+
+export const warnUser = (moderator: User, userId: string, courseId: string, reason: string, options: ActionOptions = {}) =>
+  issueSanction(moderator, "warn", userId, courseId, reason, options);
+
+export const muteUser = (
+  moderator: User,
+  userId: string,
+  courseId: string,
+  hours: number,
+  reason: string,
+  options: ActionOptions = {}
+) => issueSanction(moderator, "mute", userId, courseId, reason, options, new Date(Date.now() + hours * 60 * 60 * 1000));
+
+export const unmuteUser = (moderator: User, userId: string, courseId: string, options: ActionOptions = {}) =>
+  applyModeration(
+    moderator,
+    courseId,
+    { action: "unmute", target_type: "user", target_id: userId, target_user_id: userId },
+    { mute: { user_id: userId, until: null } },
+    options
+  );
+
+export const dismissReport = (moderator: User, report: ForumReport, reason?: string) =>
+  applyModeration(
+    moderator,
+    report.course_id,
+    { action: "dismiss_report", target_type: "report", target_id: report.id },
+    {},
+    { report, reason }
+  );
+
+export const ACTION_LABELS: Record<ModerationActionType, string> = {
+  hide: "Hid content",
+  restore: "Restored content",
+  lock: "Locked thread",
+  unlock: "Unlocked thread",
+  warn: "Warned user",
+  mute: "Muted user",
+  unmute: "Lifted mute",
+  dismiss_report: "Dismissed report",
+};
+
+export async function fetchUserNames(userIds: string[]): Promise<Record<string, string>> {
+  const names: Record<string, string> = {};
+  await Promise.all(
+    [...new Set(userIds)].map(async (userId) => {
+      const user = await getRepositories().users.get(userId);
+      names[userId] = user?.name || "Unknown user";
+    })
+  );
+  return names;
+}
@@ -4,77 +4,99 @@ import { useAuth } from "@/contexts/AuthContext";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Loader2, FileText, Clock, CheckCircle2, AlertCircle, AlignLeft, Send, FileImage } from "lucide-react";
+import { Loader2, FileText, Clock, CheckCircle2, AlertCircle, AlignLeft, Send, FileImage, Code, ListChecks } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogTrigger } from "@/components/ui/dialog";
 import { Textarea } from "@/components/ui/textarea";
 import { toast } from "sonner";
-import { ref, push, set } from "firebase/database";
-import { database } from "@/firebase";
-import { Assignment } from "./types/assignment-types";
+import { submissionWindow, submitWork } from "@/lib/submissions";
+import { submissionFilePath } from "@/lib/attachments";
+import { FileAttachment } from "@/lib/types";
+import { AttachmentList } from "@/components/teacher/AttachmentList";
+import { FileAttachmentInput } from "@/components/teacher/FileAttachmentInput";
+import { Assignment, Submission } from "./types/assignment-types";
 
 interface AssignmentCardProps {
   assignment: Assignment;
   setAssignments: React.Dispatch<React.SetStateAction<Assignment[]>>;
+  onOpenCodeEditor?: (assignment: Assignment) => void;
+  onOpenQuiz?: (assignment: Assignment) => void;
 }
 
-export const AssignmentCard = ({ assignment, setAssignments }: AssignmentCardProps) => {
+export const AssignmentCard = ({ assignment, setAssignments, onOpenCodeEditor, onOpenQuiz }: AssignmentCardProps) => {
   const { user } = useAuth();
   const [submissionContent, setSubmissionContent] = useState('');
   const [submissionError, setSubmissionError] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isResubmitting, setIsResubmitting] = useState(false);
+  const [attachments, setAttachments] = useState<FileAttachment[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
   
   const dueDate = assignment.due_date ? new Date(assignment.due_date) : null;
   const isPastDue = dueDate ? dueDate < new Date() : false;
+  const availability = submissionWindow(assignment, assignment.submission);
+  const closedLabel = availability.reason || "Past Due Date";
+  
+  const startResubmission = () => {
+    setSubmissionContent(assignment.submission?.content || '');
+    setAttachments(assignment.submission?.attachments || []);
+    setIsResubmitting(true);
+  };
   
   const handleSubmit = async () => {
     setSubmissionError('');
     
-    if (!submissionContent.trim()) {
-      setSubmissionError("Please enter your response for this assignment");
+    if (!submissionContent.trim() && attachments.length === 0) {
+      setSubmissionError(
+        assignment.attachment_policy
+          ? "Please enter your response or attach a file"
+          : "Please enter your response for this assignment"
+      );
       return;
     }
     
     setIsSubmitting(true);
     
     try {
-      const submissionRef = push(ref(database, 'submissions'));
-      
-      const submissionData = {
-        id: submissionRef.key,
-        assignment_id: assignment.id,
-        user_id: user.id,
-        student_name: user.name,
+      const submission = await submitWork(assignment, user, {
         content: submissionContent,
-        submitted_at: new Date().toISOString(),
-        teacher_id: assignment.teacher_id,
-        assignment_title: assignment.title,
-        points: assignment.points,
-        course_id: assignment.course_id
-      };
-      
-      await set(submissionRef, submissionData);
+        attachments: attachments.length > 0 ? attachments : undefined,
+      });
       
-      toast.success("Assignment submitted successfully");
+      toast.success(
+        submission.late
+          ? "Assignment submitted after the due date; it is marked late"
+          : "Assignment submitted successfully"
+      );
       
       setAssignments(prevAssignments => 
         prevAssignments.map(a => 
           a.id === assignment.id 
-            ? {...a, submitted: true, submission: submissionData} 
+            ? {...a, submitted: true, submission: submission as Submission} 
             : a
         )
       );
       
+      setIsResubmitting(false);
       setIsDialogOpen(false);
     } catch (error) {
       console.error("Error submitting assignment:", error);
-      toast.error("Failed to submit assignment. Please try again.");
+      toast.error(error instanceof Error && error.message ? error.message : "Failed to submit assignment. Please try again.");
     } finally {
       setIsSubmitting(false);
     }
   };
   
   const getStatusBadge = () => {
+    if (assignment.submission?.late) {
+      return (
+        <Badge variant="outline" className="border-amber-500 text-amber-500">
+          <CheckCircle2 className="h-3 w-3 mr-1" />
+          Submitted Late
+        </Badge>
+      );
+    }
+    
     if (assignment.submitted) {
       return (
         <Badge className="bg-green-500">
@@ -135,6 +157,12 @@ export const AssignmentCard = ({ assignment, setAssignments }: AssignmentCardPro
           </div>
         )}
         
+        {assignment.materials && assignment.materials.length > 0 && (
+          <div className="mb-4">
+            <AttachmentList attachments={assignment.materials} />
+          </div>
+        )}
+        
         {assignment.assignmentType === "text" && assignment.textContent && (
           <div className="mb-4">
             <p className="text-sm flex items-center text-primary mb-2">
@@ -147,106 +175,189 @@ export const AssignmentCard = ({ assignment, setAssignments }: AssignmentCardPro
           </div>
         )}
         
-        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-          {assignment.submitted ? (
-            <DialogTrigger asChild>
-              <Button variant="outline" className="w-full">
-                View Submission
-              </Button>
-            </DialogTrigger>
-          ) : (
-            <DialogTrigger asChild>
-              <Button variant="default" className="w-full" disabled={isPastDue}>
-                {isPastDue ? "Past Due Date" : "Start Assignment"}
-              </Button>
-            </DialogTrigger>
-          )}
+        {assignment.assignmentType === "coding" ? (
+          <div className="space-y-2">
+            {assignment.submission?.auto_grade !== undefined && (
+              <p className="text-sm text-muted-foreground">
+                Auto-score: {assignment.submission.auto_grade} / {assignment.points} points
+              </p>
+            )}
+            <Button
+              variant={assignment.submitted ? "outline" : "default"}
+              className="w-full"
+              disabled={!availability.open && !assignment.submitted}
+              onClick={() => onOpenCodeEditor?.(assignment)}
+            >
+              <Code className="h-4 w-4 mr-2" />
+              {assignment.submitted ? "Open Submission in Code Editor" : !availability.open ? closedLabel : "Open in Code Editor"}
+            </Button>
+          </div>
+        ) : assignment.assignmentType === "quiz" ? (
+          <div className="space-y-2">
+            {(assignment.submission?.grade ?? assignment.submission?.auto_grade) !== undefined && (
+              <p className="text-sm text-muted-foreground">
+                Quiz score: {assignment.submission.grade ?? assignment.submission.auto_grade} / {assignment.points} points
+              </p>
+            )}
+            <Button
+              variant={assignment.submitted ? "outline" : "default"}
+              className="w-full"
+              disabled={isPastDue && !assignment.submitted}
+              onClick={() => onOpenQuiz?.(assignment)}
+            >
+              <ListChecks className="h-4 w-4 mr-2" />
+              {assignment.submitted ? "Review Quiz Results" : isPastDue ? "Quiz Closed" : "Take Quiz"}
+            </Button>
+          </div>
+        ) : (
+          <Dialog
+            open={isDialogOpen}
+            onOpenChange={(open) => {
+              setIsDialogOpen(open);
+              setIsResubmitting(false);
+            }}
+          >
+            {assignment.submitted ? (
+              <DialogTrigger asChild>
+                <Button variant="outline" className="w-full">
+                  View Submission
+                </Button>
+              </DialogTrigger>
+            ) : (
+              <DialogTrigger asChild>
+                <Button variant="default" className="w-full" disabled={!availability.open}>
+                  {!availability.open ? closedLabel : "Start Assignment"}
+                </Button>
+              </DialogTrigger>
+            )}
           
-          <DialogContent className="sm:max-w-[525px]">
-            <DialogHeader>
-              <DialogTitle>
-                {assignment.submitted ? "Your Submission" : "Submit Assignment"}
-              </DialogTitle>
-            </DialogHeader>
+            <DialogContent className="sm:max-w-[525px]">
+              <DialogHeader>
+                <DialogTitle>
+                  {isResubmitting ? "Resubmit Assignment" : assignment.submitted ? "Your Submission" : "Submit Assignment"}
+                </DialogTitle>
+              </DialogHeader>
             
-            {assignment.submitted ? (
-              <div className="space-y-4">
-                <div>
-                  <h4 className="text-sm font-medium mb-2">Your Response:</h4>
-                  <p className="text-sm bg-muted p-3 rounded-md whitespace-pre-wrap">{assignment.submission.content}</p>
-                </div>
-                
-                <div>
-                  <h4 className="text-sm font-medium mb-2">Submitted on:</h4>
-                  <p className="text-sm">
-                    {new Date(assignment.submission.submitted_at).toLocaleString()}
-                  </p>
-                </div>
+              {assignment.submitted && !isResubmitting ? (
+                <div className="space-y-4">
+                  <div>
+                    <h4 className="text-sm font-medium mb-2">Your Response:</h4>
+                    <p className="text-sm bg-muted p-3 rounded-md whitespace-pre-wrap">{assignment.submission.content}</p>
+                  </div>
+                  
+                  {assignment.submission.attachments?.length > 0 && (
+                    <div>
+                      <h4 className="text-sm font-medium mb-2">Attached Files:</h4>
+                      <AttachmentList attachments={assignment.submission.attachments} />
+                    </div>
+                  )}
                 
-                {assignment.submission.grade !== undefined && (
                   <div>
-                    <h4 className="text-sm font-medium mb-2">Grade:</h4>
-                    <p className="text-sm">{assignment.submission.grade} / {assignment.points} points</p>
-                    
-                    {assignment.submission.feedback && (
-                      <div className="mt-3">
-                        <h4 className="text-sm font-medium mb-2">Teacher Feedback:</h4>
-                        <p className="text-sm bg-muted p-3 rounded-md whitespace-pre-wrap">{assignment.submission.feedback}</p>
-                      </div>
-                    )}
+                    <h4 className="text-sm font-medium mb-2">Submitted on:</h4>
+                    <p className="text-sm">
+                      {new Date(assignment.submission.submitted_at).toLocaleString()}
+                      {assignment.submission.late && <span className="text-amber-500"> (late)</span>}
+                      {(assignment.submission.version || 1) > 1 && ` · version ${assignment.submission.version}`}
+                    </p>
                   </div>
-                )}
-              </div>
-            ) : (
-              <div className="space-y-4">
-                <div>
-                  <h4 className="text-sm font-medium mb-2">Assignment:</h4>
-                  <p className="text-sm">{assignment.description}</p>
-                </div>
                 
-                {assignment.assignmentType === "text" && assignment.textContent && (
+                  {assignment.submission.grade !== undefined && (
+                    <div>
+                      <h4 className="text-sm font-medium mb-2">Grade:</h4>
+                      <p className="text-sm">{assignment.submission.grade} / {assignment.points} points</p>
+                    
+                      {assignment.submission.feedback && (
+                        <div className="mt-3">
+                          <h4 className="text-sm font-medium mb-2">Teacher Feedback:</h4>
+                          <p className="text-sm bg-muted p-3 rounded-md whitespace-pre-wrap">{assignment.submission.feedback}</p>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                  
+                  {availability.open && (
+                    <DialogFooter className="sm:items-center">
+                      <p className="text-xs text-muted-foreground mr-auto">
+                        {availability.attempts_left === null
+                          ? "You can submit a new version."
+                          : `${availability.attempts_left} attempt${availability.attempts_left === 1 ? "" : "s"} left.`}
+                      </p>
+                      <Button variant="outline" onClick={startResubmission}>
+                        Resubmit
+                      </Button>
+                    </DialogFooter>
+                  )}
+                </div>
+              ) : (
+                <div className="space-y-4">
                   <div>
-                    <h4 className="text-sm font-medium mb-2">Assignment Content:</h4>
-                    <div className="text-sm bg-muted p-3 rounded-md max-h-48 overflow-y-auto mb-4">
-                      {assignment.textContent}
+                    <h4 className="text-sm font-medium mb-2">Assignment:</h4>
+                    <p className="text-sm">{assignment.description}</p>
+                  </div>
+                
+                  {assignment.assignmentType === "text" && assignment.textContent && (
+                    <div>
+                      <h4 className="text-sm font-medium mb-2">Assignment Content:</h4>
+                      <div className="text-sm bg-muted p-3 rounded-md max-h-48 overflow-y-auto mb-4">
+                        {assignment.textContent}
+                      </div>
                     </div>
+                  )}
+                
+                  <div className="space-y-2">
+                    <h4 className="text-sm font-medium">Your Response:</h4>
+                    <Textarea 
+                      value={submissionContent}
+                      onChange={(e) => setSubmissionContent(e.target.value)}
+                      placeholder="Type your answer here..."
+                      rows={6}
+                      error={submissionError}
+                    />
                   </div>
-                )}
+                  
+                  {assignment.attachment_policy && (
+                    <div className="space-y-2">
+                      <h4 className="text-sm font-medium">Attach Files:</h4>
+                      <FileAttachmentInput
+                        id={`attachments-${assignment.id}`}
+                        policy={assignment.attachment_policy}
+                        value={attachments}
+                        onChange={setAttachments}
+                        pathFor={(file) => submissionFilePath(assignment.id, user.id, file.name)}
+                        onUploadingChange={setIsUploading}
+                        disabled={isSubmitting}
+                      />
+                    </div>
+                  )}
+                  
+                  {availability.late && (
+                    <p className="text-sm text-amber-500">The due date has passed, so this submission will be marked late.</p>
+                  )}
                 
-                <div className="space-y-2">
-                  <h4 className="text-sm font-medium">Your Response:</h4>
-                  <Textarea 
-                    value={submissionContent}
-                    onChange={(e) => setSubmissionContent(e.target.value)}
-                    placeholder="Type your answer here..."
-                    rows={6}
-                    error={submissionError}
-                  />
+                  <DialogFooter>
+                    <Button 
+                      onClick={handleSubmit} 
+                      disabled={isSubmitting || isUploading}
+                      className="gap-2"
+                    >
+                      {isSubmitting ? (
+                        <>
+                          <Loader2 className="h-4 w-4 animate-spin" /> 
+                          Submitting...
+                        </>
+                      ) : (
+                        <>
+                          <Send className="h-4 w-4" />
+                          {isResubmitting ? "Submit New Version" : "Submit Assignment"}
+                        </>
+                      )}
+                    </Button>
+                  </DialogFooter>
                 </div>
-                
-                <DialogFooter>
-                  <Button 
-                    onClick={handleSubmit} 
-                    disabled={isSubmitting}
-                    className="gap-2"
-                  >
-                    {isSubmitting ? (
-                      <>
-                        <Loader2 className="h-4 w-4 animate-spin" /> 
-                        Submitting...
-                      </>
-                    ) : (
-                      <>
-                        <Send className="h-4 w-4" />
-                        Submit Assignment
-                      </>
-                    )}
-                  </Button>
-                </DialogFooter>
-              </div>
-            )}
-          </DialogContent>
-        </Dialog>
+              )}
+            </DialogContent>
+          </Dialog>
+        )}
       </CardContent>
     </Card>
   );
@@ -7,8 +7,13 @@ import { Label } from "@/components/ui/label";
 import { Loader2 } from "lucide-react";
 import { useAuth } from "@/contexts/AuthContext";
 import { toast } from "sonner";
-import { ref, set } from "firebase/database";
-import { database } from "@/firebase";
+import { submissionWindow, submitWork } from "@/lib/submissions";
+import { submissionFilePath } from "@/lib/attachments";
+import { FileAttachment } from "@/lib/types";
+import { AttachmentList } from "@/components/teacher/AttachmentList";
+import { FileAttachmentInput } from "@/components/teacher/FileAttachmentInput";
+import { AnnotatedSubmission } from "@/components/teacher/AnnotatedSubmission";
+import { RubricGradeView } from "@/components/teacher/RubricGradeView";
 
 interface AssignmentDetailViewProps {
   assignment: any;
@@ -26,10 +31,14 @@ export const AssignmentDetailView: React.FC<AssignmentDetailViewProps> = ({
     assignment.submission?.content || ""
   );
   const [submitting, setSubmitting] = useState(false);
+  const [resubmitting, setResubmitting] = useState(false);
+  const [attachments, setAttachments] = useState<FileAttachment[]>(assignment.submission?.attachments || []);
+  const [uploading, setUploading] = useState(false);
+  const availability = submissionWindow(assignment, assignment.submission);
 
   const handleAssignmentSubmit = async () => {
-    if (!submissionContent.trim()) {
-      toast.error("Please enter your answer");
+    if (!submissionContent.trim() && attachments.length === 0) {
+      toast.error(assignment.attachment_policy ? "Please enter your answer or attach a file" : "Please enter your answer");
       return;
     }
     
@@ -41,34 +50,29 @@ export const AssignmentDetailView: React.FC<AssignmentDetailViewProps> = ({
     setSubmitting(true);
     
     try {
-      const submissionRef = ref(database, `submissions/submission_${Date.now()}`);
-      
-      const submissionData = {
-        assignment_id: assignment.id,
-        user_id: user.id,
-        student_name: user.name,
+      const submission = await submitWork(assignment, user, {
         content: submissionContent,
-        submitted_at: new Date().toISOString(),
-        teacher_id: assignment.teacher_id,
-        assignment_title: assignment.title,
-        points: assignment.points
-      };
+        attachments: attachments.length > 0 ? attachments : undefined,
+      });
       
-      await set(submissionRef, submissionData);
-      
-      toast.success("Assignment submitted successfully");
+      toast.success(
+        submission.late
+          ? "Assignment submitted after the due date; it is marked late"
+          : "Assignment submitted successfully"
+      );
       
       // Update the assignment with submission data
       const updatedAssignment = {
         ...assignment,
         submitted: true,
-        submission: submissionData
+        submission
       };
       
+      setResubmitting(false);
       onSubmit(updatedAssignment);
     } catch (error) {
       console.error("Error submitting assignment:", error);
-      toast.error("Failed to submit assignment");
+      toast.error(error instanceof Error && error.message ? error.message : "Failed to submit assignment");
     } finally {
       setSubmitting(false);
     }
@@ -106,17 +110,51 @@ export const AssignmentDetailView: React.FC<AssignmentDetailViewProps> = ({
             <p className="text-muted-foreground">{assignment.points || 0} points</p>
           </div>
           
-          {assignment.submitted ? (
+          {assignment.materials?.length > 0 && (
+            <div>
+              <h4 className="font-semibold">Materials</h4>
+              <div className="mt-2">
+                <AttachmentList attachments={assignment.materials} />
+              </div>
+            </div>
+          )}
+          
+          {assignment.submitted && !resubmitting ? (
             <div>
               <h4 className="font-semibold">Your Submission</h4>
-              <div className="mt-2 p-4 bg-muted rounded-md">
-                <p>{assignment.submission.content}</p>
+              <div className="mt-2">
+                <AnnotatedSubmission
+                  content={assignment.submission.content || ""}
+                  comments={assignment.submission.comments || []}
+                  language={assignment.submission.language}
+                />
               </div>
               
+              {assignment.submission.attachments?.length > 0 && (
+                <div className="mt-2">
+                  <AttachmentList attachments={assignment.submission.attachments} />
+                </div>
+              )}
+              
               <p className="text-sm text-muted-foreground mt-2">
                 Submitted on {new Date(assignment.submission.submitted_at).toLocaleString()}
+                {assignment.submission.late && <span className="text-amber-500"> (late)</span>}
+                {(assignment.submission.version || 1) > 1 && ` · version ${assignment.submission.version}`}
               </p>
               
+              {availability.open && (
+                <div className="flex items-center gap-3 mt-2">
+                  <Button variant="outline" size="sm" onClick={() => setResubmitting(true)}>
+                    Resubmit
+                  </Button>
+                  {availability.attempts_left !== null && (
+                    <span className="text-sm text-muted-foreground">
+                      {availability.attempts_left} attempt{availability.attempts_left === 1 ? "" : "s"} left
+                    </span>
+                  )}
+                </div>
+              )}
+              
               {assignment.submission.grade !== undefined && (
                 <div className="mt-4">
                   <h4 className="font-semibold">Grade</h4>
@@ -124,6 +162,12 @@ export const AssignmentDetailView: React.FC<AssignmentDetailViewProps> = ({
                     {assignment.submission.grade} / {assignment.points} points
                   </p>
                   
+                  {assignment.submission.rubric_grade && (
+                    <div className="mt-2">
+                      <RubricGradeView grade={assignment.submission.rubric_grade} />
+                    </div>
+                  )}
+                  
                   {assignment.submission.feedback && (
                     <div className="mt-2">
                       <h4 className="font-semibold">Feedback</h4>
@@ -149,19 +193,52 @@ export const AssignmentDetailView: React.FC<AssignmentDetailViewProps> = ({
                 />
               </div>
               
+              {assignment.attachment_policy && (
+                <div className="space-y-2">
+                  <Label htmlFor="submission-files">Attach Files</Label>
+                  <FileAttachmentInput
+                    id="submission-files"
+                    policy={assignment.attachment_policy}
+                    value={attachments}
+                    onChange={setAttachments}
+                    pathFor={(file) => submissionFilePath(assignment.id, user!.id, file.name)}
+                    onUploadingChange={setUploading}
+                    disabled={submitting}
+                  />
+                </div>
+              )}
+              
+              {!availability.open ? (
+                <p className="text-sm text-muted-foreground">{availability.reason}</p>
+              ) : availability.late && (
+                <p className="text-sm text-amber-500">The due date has passed, so this submission will be marked late.</p>
+              )}
+              
               <Button 
                 onClick={handleAssignmentSubmit}
-                disabled={submitting || !submissionContent.trim()}
+                disabled={
+                  submitting ||
+                  uploading ||
+                  (!submissionContent.trim() && attachments.length === 0) ||
+                  !availability.open
+                }
               >
                 {submitting ? (
                   <>
                     <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                     Submitting...
                   </>
+                ) : resubmitting ? (
+                  'Submit New Version'
                 ) : (
                   'Submit Assignment'
                 )}
               </Button>
+              {resubmitting && (
+                <Button variant="ghost" className="ml-2" onClick={() => setResubmitting(false)}>
+                  Cancel
+                </Button>
+              )}
             </div>
           )}
         </div>
@@ -8,9 +8,11 @@ import { FileText } from "lucide-react";
 interface AssignmentListProps {
   assignments: Assignment[];
   setAssignments: React.Dispatch<React.SetStateAction<Assignment[]>>;
+  onOpenCodeEditor?: (assignment: Assignment) => void;
+  onOpenQuiz?: (assignment: Assignment) => void;
 }
 
-export const AssignmentList = ({ assignments, setAssignments }: AssignmentListProps) => {
+export const AssignmentList = ({ assignments, setAssignments, onOpenCodeEditor, onOpenQuiz }: AssignmentListProps) => {
   const [filter, setFilter] = useState<'all' | 'pending' | 'completed'>('all');
 
   const filteredAssignments = assignments?.filter(assignment => {
@@ -42,6 +44,8 @@ export const AssignmentList = ({ assignments, setAssignments }: AssignmentListPr
               key={assignment.id} 
               assignment={assignment} 
               setAssignments={setAssignments} 
+              onOpenCodeEditor={onOpenCodeEditor}
+              onOpenQuiz={onOpenQuiz}
             />
           ))}
         </div>
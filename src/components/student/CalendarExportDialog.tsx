@@ -0,0 +1,191 @@
+import React, { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Copy, Download, Link2, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { downloadCalendar } from "@/lib/ical";
+import {
+  CalendarFeed,
+  buildStudentCalendar,
+  calendarFeedUrl,
+  createCalendarFeed,
+  fetchCalendarFeed,
+  fetchEnrolledCourses,
+  revokeCalendarFeed,
+} from "./utils/calendar-export-utils";
+
+interface CalendarExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  userId: string;
+}
+
+const ALL_COURSES = "all";
+
+export const CalendarExportDialog: React.FC<CalendarExportDialogProps> = ({ open, onOpenChange, userId }) => {
+  const [courses, setCourses] = useState<{ id: string; title: string }[]>([]);
+  const [courseId, setCourseId] = useState(ALL_COURSES);
+  const [feed, setFeed] = useState<CalendarFeed | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busy, setBusy] = useState<"download" | "feed" | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const loadExportOptions = async () => {
+      setIsLoading(true);
+      try {
+        const [enrolled, existingFeed] = await Promise.all([fetchEnrolledCourses(userId), fetchCalendarFeed(userId)]);
+        setCourses(enrolled.map((course) => ({ id: course.id, title: course.title })));
+        setFeed(existingFeed);
+      } catch (error) {
+        console.error("Error loading calendar export options:", error);
+        toast.error("Failed to load calendar export options");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadExportOptions();
+  }, [open, userId]);
+
+  const handleDownload = async () => {
+    setBusy("download");
+    try {
+      const { name, calendar } = await buildStudentCalendar(
+        userId,
+        courseId === ALL_COURSES ? undefined : courseId
+      );
+      downloadCalendar(name.replace(/[^\w-]+/g, "-").toLowerCase(), calendar);
+    } catch (error) {
+      console.error("Error exporting calendar:", error);
+      toast.error("Failed to export calendar");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const runFeedAction = async (action: () => Promise<CalendarFeed | null>, success: string) => {
+    setBusy("feed");
+    try {
+      setFeed(await action());
+      toast.success(success);
+    } catch (error) {
+      console.error("Error updating calendar feed:", error);
+      toast.error("Failed to update calendar feed");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleCopy = () => {
+    if (!feed) return;
+    navigator.clipboard.writeText(calendarFeedUrl(feed.token))
+      .then(() => toast.success("Feed URL copied to clipboard"))
+      .catch(() => toast.error("Failed to copy to clipboard"));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Export Calendar</DialogTitle>
+          <DialogDescription>
+            Assignment deadlines, class times, material deadlines and study tasks in iCalendar format.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="space-y-2">
+              <Label>Download .ics file</Label>
+              <div className="flex gap-2">
+                <Select value={courseId} onValueChange={setCourseId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_COURSES}>All courses and study tasks</SelectItem>
+                    {courses.map((course) => (
+                      <SelectItem key={course.id} value={course.id}>
+                        {course.title}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button className="gap-2" onClick={handleDownload} disabled={busy !== null}>
+                  {busy === "download" ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+                  Download
+                </Button>
+              </div>
+            </div>
+
+            <Separator />
+
+            <div className="space-y-2">
+              <Label>Subscribe from Google Calendar, Outlook or Apple Calendar</Label>
+              {feed ? (
+                <>
+                  <div className="flex gap-2">
+                    <Input readOnly value={calendarFeedUrl(feed.token)} onFocus={(e) => e.target.select()} />
+                    <Button variant="outline" size="icon" onClick={handleCopy} aria-label="Copy feed URL">
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Anyone with this link can see your calendar. Your calendar app picks up changes each time it
+                    refreshes the feed.
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={busy !== null}
+                      onClick={() =>
+                        runFeedAction(() => createCalendarFeed(userId), "New feed URL created; the old one no longer works")
+                      }
+                    >
+                      Regenerate URL
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-destructive"
+                      disabled={busy !== null}
+                      onClick={() =>
+                        runFeedAction(async () => {
+                          await revokeCalendarFeed(userId);
+                          return null;
+                        }, "Calendar feed turned off")
+                      }
+                    >
+                      Turn Off
+                    </Button>
+                  </div>
+                </>
+              ) : (
+                <Button
+                  variant="outline"
+                  className="gap-2"
+                  disabled={busy !== null}
+                  onClick={() => runFeedAction(() => createCalendarFeed(userId), "Calendar feed created")}
+                >
+                  {busy === "feed" ? <Loader2 className="h-4 w-4 animate-spin" /> : <Link2 className="h-4 w-4" />}
+                  Create Feed URL
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -7,74 +7,230 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
-import { Loader2, Code, Play, CheckCircle, XCircle, FileCode, Download, Upload, Copy } from "lucide-react";
+import { Loader2, Code, Play, CheckCircle, XCircle, FileCode, Download, Upload, Copy, Send, ChevronLeft } from "lucide-react";
 import { toast } from "sonner";
+import { useAuth } from "@/contexts/AuthContext";
+import { CodeLanguage, CodeTestCase, CodeTestResult } from "@/lib/types";
+import { submissionWindow, submitWork } from "@/lib/submissions";
+import { RunResult } from "./types/code-runner-types";
+import { Assignment, Submission } from "./types/assignment-types";
+import { getRunner, gradeSubmission, gradeTestCases, runCode, SubmissionGradeReport } from "./utils/code-runner";
 
-export const CodeEditor = () => {
-  const [language, setLanguage] = useState("javascript");
+interface CodeEditorProps {
+  assignment?: Assignment;
+  onBack?: () => void;
+  onSubmitted?: (submission: Submission) => void;
+}
+
+const LANGUAGE_OPTIONS: { value: CodeLanguage; label: string }[] = [
+  { value: "javascript", label: "JavaScript" },
+  { value: "python", label: "Python" },
+  { value: "java", label: "Java" },
+  { value: "cpp", label: "C++" },
+  { value: "csharp", label: "C#" },
+];
+
+// Practice exercise shown when the editor is opened without an assignment
+const PRACTICE_TITLE = "String Manipulation Challenge";
+const PRACTICE_DESCRIPTION = "Create a function that takes a string and returns it with the first and last characters swapped. If the string is less than 2 characters long, return the string unchanged.";
+const PRACTICE_TEST_CASES: CodeTestCase[] = [
+  { id: "example-1", input: "hello", expected_output: "oellh" },
+  { id: "example-2", input: "a", expected_output: "a" },
+  { id: "example-3", input: "ab", expected_output: "ba" },
+];
+const PRACTICE_CODE = `// Write your code here\n// Use readLine() to read a line of input\n\nfunction swapEnds(str) {\n  return str;\n}\n\nconsole.log(swapEnds(readLine()));`;
+
+const formatDueLabel = (dueDate?: string) => {
+  if (!dueDate) return "No due date";
+  const days = Math.ceil((new Date(dueDate).getTime() - Date.now()) / (1000 * 60 * 60 * 24));
+  if (days < 0) return "Past due";
+  if (days === 0) return "Due today";
+  return `Due in ${days} day${days === 1 ? "" : "s"}`;
+};
+
+export const CodeEditor: React.FC<CodeEditorProps> = ({ assignment, onBack, onSubmitted }) => {
+  const { user } = useAuth();
+  const coding = assignment?.coding;
+  const title = assignment?.title || PRACTICE_TITLE;
+  const description = assignment ? assignment.description || "" : PRACTICE_DESCRIPTION;
+  const testCases = coding?.test_cases || (assignment ? [] : PRACTICE_TEST_CASES);
+  const availableLanguages = coding?.languages?.length
+    ? LANGUAGE_OPTIONS.filter((option) => coding.languages.includes(option.value))
+    : LANGUAGE_OPTIONS;
+
+  const starterFor = (lang: CodeLanguage) =>
+    coding ? coding.starter_code?.[lang] || "" : lang === "javascript" ? PRACTICE_CODE : "";
+
+  const previous = assignment?.submission;
+  const initialLanguage: CodeLanguage = previous?.language || availableLanguages[0].value;
+
+  const [language, setLanguage] = useState<CodeLanguage>(initialLanguage);
   const [theme, setTheme] = useState("dark");
   const [currentCode, setCurrentCode] = useState(
-    `// Write your code here\n\nfunction greet(name) {\n  return "Hello, " + name + "!";\n}\n\nconsole.log(greet("World"));`
+    previous?.language ? previous.content : starterFor(initialLanguage)
   );
-  const [output, setOutput] = useState<{result?: string, error?: string} | null>(null);
+  const [stdin, setStdin] = useState("");
+  const [output, setOutput] = useState<RunResult | null>(null);
   const [isRunning, setIsRunning] = useState(false);
-  
-  const runCode = () => {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [testResults, setTestResults] = useState<Record<string, CodeTestResult>>({});
+  const [gradeError, setGradeError] = useState<string | null>(null);
+  const [latest, setLatest] = useState(previous);
+  const availability = assignment ? submissionWindow(assignment, latest) : null;
+
+  const handleLanguageChange = (value: string) => {
+    const next = value as CodeLanguage;
+    // Only swap in the starter code when the student hasn't written anything yet
+    if (!currentCode.trim() || currentCode === starterFor(language)) {
+      setCurrentCode(starterFor(next));
+    }
+    setLanguage(next);
+  };
+
+  const runner = getRunner(language);
+  const visibleTestCases = testCases.filter((testCase) => !testCase.hidden);
+  const hiddenCount = coding?.hidden_test_count ?? testCases.length - visibleTestCases.length;
+
+  const handleRunCode = async () => {
     setIsRunning(true);
     setOutput(null);
-    
-    // Mock execution
-    setTimeout(() => {
-      try {
-        if (language === "javascript") {
-          // Simulate code execution
-          if (currentCode.includes("console.log")) {
-            setOutput({
-              result: "Hello, World!"
-            });
-          } else if (currentCode.includes("error") || Math.random() < 0.1) {
-            throw new Error("Unexpected token error");
-          } else {
-            setOutput({
-              result: "Code executed successfully, but no output was generated."
-            });
-          }
-        } else {
-          setOutput({
-            result: `[${language.toUpperCase()} Output]\nHello, World!`
-          });
-        }
+
+    try {
+      const result = await runCode({ language, code: currentCode, stdin });
+      setOutput(result);
+
+      if (result.status === "ok") {
         toast.success("Code executed successfully!");
-      } catch (err: any) {
-        setOutput({
-          error: err.message || "An error occurred during execution"
-        });
+      } else {
         toast.error("Execution failed. Check the error message.");
-      } finally {
-        setIsRunning(false);
       }
-    }, 1500);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const applyResults = (results: CodeTestResult[]) => {
+    setTestResults(
+      results.reduce<Record<string, CodeTestResult>>((acc, result) => {
+        acc[result.test_case_id] = result;
+        return acc;
+      }, {})
+    );
+  };
+
+  const handleRunTests = async () => {
+    setIsRunning(true);
+    setGradeError(null);
+
+    try {
+      const report = await gradeTestCases(language, currentCode, visibleTestCases);
+      applyResults(report.results);
+
+      if (report.status === "failed") {
+        setGradeError(report.error || "Tests could not be run");
+        toast.error("Tests could not be run");
+      } else {
+        const passed = report.results.filter((result) => result.passed).length;
+        toast.info(`${passed} of ${report.results.length} example tests passed`);
+      }
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!user?.id) {
+      toast.error("You must be logged in to submit");
+      return;
+    }
+
+    if (!assignment) {
+      toast.error("Open this editor from an assignment to submit your code");
+      return;
+    }
+
+    if (availability && !availability.open) {
+      toast.error(availability.reason);
+      return;
+    }
+
+    setIsSubmitting(true);
+    setGradeError(null);
+
+    try {
+      const submission = (await submitWork(assignment, user, { content: currentCode, language })) as Submission;
+
+      // Grading runs on the server, which has the hidden test cases
+      let report: SubmissionGradeReport | null = null;
+      try {
+        report = await gradeSubmission(submission.id);
+      } catch (error) {
+        console.error("Error grading code:", error);
+        setGradeError(error instanceof Error ? error.message : "Auto-grading failed");
+      }
+
+      const graded = (report?.submission || submission) as Submission;
+      setLatest(graded);
+      onSubmitted?.(graded);
+
+      if (report) applyResults(report.results);
+      if (report?.status === "completed") {
+        toast.success(`Code submitted. Auto-grade: ${report.score}%`);
+      } else {
+        if (report) setGradeError(report.error || "Auto-grading failed");
+        toast.warning("Code submitted, but auto-grading failed");
+      }
+    } catch (error) {
+      console.error("Error submitting code:", error);
+      toast.error("Failed to submit code. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderTestStatus = (testCase: CodeTestCase) => {
+    const result = testResults[testCase.id];
+    if (!result) {
+      return <Badge variant="outline">Not run</Badge>;
+    }
+    return result.passed ? (
+      <Badge variant="outline" className="text-green-500">
+        <CheckCircle className="h-3 w-3 mr-1" />
+        Passed
+      </Badge>
+    ) : (
+      <Badge variant="outline" className="text-red-500">
+        <XCircle className="h-3 w-3 mr-1" />
+        Failed
+      </Badge>
+    );
   };
   
   return (
     <div className="space-y-6">
       <div className="flex flex-col md:flex-row justify-between md:items-center gap-4">
-        <div>
-          <h2 className="text-2xl font-bold">Code Editor</h2>
-          <p className="text-muted-foreground">Write, test, and submit your code</p>
+        <div className="flex items-center gap-4">
+          {onBack && (
+            <Button variant="outline" size="sm" onClick={onBack}>
+              <ChevronLeft className="h-4 w-4 mr-1" />
+              Back
+            </Button>
+          )}
+          <div>
+            <h2 className="text-2xl font-bold">Code Editor</h2>
+            <p className="text-muted-foreground">Write, test, and submit your code</p>
+          </div>
         </div>
         
         <div className="flex gap-2">
-          <Select value={language} onValueChange={setLanguage}>
+          <Select value={language} onValueChange={handleLanguageChange}>
             <SelectTrigger className="w-[140px]">
               <SelectValue placeholder="Language" />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="javascript">JavaScript</SelectItem>
-              <SelectItem value="python">Python</SelectItem>
-              <SelectItem value="java">Java</SelectItem>
-              <SelectItem value="cpp">C++</SelectItem>
-              <SelectItem value="csharp">C#</SelectItem>
+              {availableLanguages.map((option) => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
             </SelectContent>
           </Select>
           
@@ -137,20 +293,11 @@ export const CodeEditor = () => {
             <CardFooter className="border-t pt-4 flex justify-between">
               <div className="flex items-center text-sm text-muted-foreground">
                 <Code className="h-4 w-4 mr-1" />
-                {language === "javascript"
-                  ? "Node.js v16.14.0"
-                  : language === "python"
-                    ? "Python 3.9.7"
-                    : language === "java"
-                      ? "OpenJDK 17"
-                      : language === "cpp"
-                        ? "G++ 11.2.0"
-                        : "C# 10.0 (.NET 6.0)"
-                }
+                {runner ? `${runner.name} runner` : "No runner available for this language"}
               </div>
               <Button 
-                onClick={runCode} 
-                disabled={isRunning} 
+                onClick={handleRunCode} 
+                disabled={isRunning || isSubmitting} 
                 className="gap-2"
               >
                 {isRunning ? (
@@ -172,7 +319,14 @@ export const CodeEditor = () => {
             <CardHeader className="pb-3">
               <CardTitle>Output</CardTitle>
             </CardHeader>
-            <CardContent>
+            <CardContent className="space-y-4">
+              <Textarea
+                value={stdin}
+                onChange={(e) => setStdin(e.target.value)}
+                className="font-mono text-sm"
+                placeholder="Program input (read with readLine() in JavaScript or input() in Python)"
+                rows={2}
+              />
               <div className={`font-mono text-sm p-4 rounded-md min-h-[120px] ${
                 theme === "dark" 
                   ? "bg-black text-white" 
@@ -184,15 +338,24 @@ export const CodeEditor = () => {
                     <span className="ml-2">Running code...</span>
                   </div>
                 ) : output ? (
-                  output.error ? (
-                    <div className="text-red-500">
-                      Error: {output.error}
-                    </div>
-                  ) : (
-                    <div>
-                      {output.result}
+                  <div className="space-y-2">
+                    {output.stdout && (
+                      <pre className="whitespace-pre-wrap">{output.stdout}</pre>
+                    )}
+                    {output.stderr && (
+                      <pre className="whitespace-pre-wrap text-yellow-500">{output.stderr}</pre>
+                    )}
+                    {output.error ? (
+                      <div className="text-red-500">
+                        Error: {output.error}
+                      </div>
+                    ) : !output.stdout && !output.stderr && (
+                      <div>Code executed successfully, but no output was generated.</div>
+                    )}
+                    <div className="text-xs text-muted-foreground">
+                      Finished in {output.durationMs} ms
                     </div>
-                  )
+                  </div>
                 ) : (
                   <div className="text-muted-foreground">
                     Run your code to see output here.
@@ -211,59 +374,93 @@ export const CodeEditor = () => {
             <CardContent>
               <div className="space-y-4">
                 <div>
-                  <h3 className="font-medium text-lg">String Manipulation Challenge</h3>
-                  <p className="text-sm text-muted-foreground mt-1">Due in 3 days</p>
+                  <h3 className="font-medium text-lg">{title}</h3>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    {assignment ? `${formatDueLabel(assignment.due_date)} • ${assignment.points} points` : "Practice exercise"}
+                  </p>
                 </div>
                 
                 <div>
                   <h4 className="font-medium mb-1">Description</h4>
-                  <p className="text-sm">
-                    Create a function that takes a string and returns it with the first and last characters swapped.
-                    If the string is less than 2 characters long, return the string unchanged.
-                  </p>
+                  <p className="text-sm whitespace-pre-wrap">{description}</p>
                 </div>
                 
                 <div>
-                  <h4 className="font-medium mb-1">Example</h4>
-                  <div className={`font-mono text-xs p-2 rounded-md ${theme === "dark" ? "bg-zinc-900" : "bg-gray-200"}`}>
-                    <p>Input: "hello"</p>
-                    <p>Output: "oellh"</p>
-                    <br />
-                    <p>Input: "a"</p>
-                    <p>Output: "a"</p>
+                  <div className="flex justify-between items-center mb-1">
+                    <h4 className="font-medium">Test Cases</h4>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={handleRunTests}
+                      disabled={isRunning || isSubmitting || visibleTestCases.length === 0}
+                    >
+                      Run Tests
+                    </Button>
                   </div>
-                </div>
-                
-                <div>
-                  <h4 className="font-medium mb-1">Test Cases</h4>
                   <div className="space-y-2">
-                    <div className="flex justify-between items-center text-sm">
-                      <span>swapEnds("hello") → "oellh"</span>
-                      <Badge variant="outline" className="text-green-500">
-                        <CheckCircle className="h-3 w-3 mr-1" />
-                        Passed
-                      </Badge>
-                    </div>
-                    <div className="flex justify-between items-center text-sm">
-                      <span>swapEnds("a") → "a"</span>
-                      <Badge variant="outline" className="text-green-500">
-                        <CheckCircle className="h-3 w-3 mr-1" />
-                        Passed
-                      </Badge>
-                    </div>
-                    <div className="flex justify-between items-center text-sm">
-                      <span>swapEnds("ab") → "ba"</span>
-                      <Badge variant="outline" className="text-red-500">
-                        <XCircle className="h-3 w-3 mr-1" />
-                        Failed
-                      </Badge>
-                    </div>
+                    {visibleTestCases.map((testCase) => (
+                      <div key={testCase.id} className="space-y-1">
+                        <div className="flex justify-between items-center text-sm">
+                          <span className="font-mono text-xs">
+                            {testCase.name || `"${testCase.input}" → "${testCase.expected_output}"`}
+                          </span>
+                          {renderTestStatus(testCase)}
+                        </div>
+                        {testResults[testCase.id] && !testResults[testCase.id].passed && (
+                          <div className={`font-mono text-xs p-2 rounded-md ${theme === "dark" ? "bg-zinc-900" : "bg-gray-200"}`}>
+                            {testResults[testCase.id].error || `Got: "${testResults[testCase.id].actual_output.trim()}"`}
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                    {hiddenCount > 0 && (
+                      <p className="text-xs text-muted-foreground">
+                        + {hiddenCount} hidden test{hiddenCount === 1 ? "" : "s"} run on submission
+                      </p>
+                    )}
                   </div>
                 </div>
+
+                {gradeError && (
+                  <Alert variant="destructive">
+                    <AlertDescription>{gradeError}</AlertDescription>
+                  </Alert>
+                )}
               </div>
             </CardContent>
             <CardFooter className="border-t pt-4">
-              <Button className="w-full">Submit Assignment</Button>
+              <div className="w-full">
+                {availability && (!availability.open || availability.late || availability.attempts_left !== null) && (
+                  <p className={`text-sm mb-2 ${availability.open ? "text-muted-foreground" : "text-destructive"}`}>
+                    {!availability.open
+                      ? availability.reason
+                      : [
+                          availability.late && "Submitting now will be marked late.",
+                          availability.attempts_left !== null &&
+                            `${availability.attempts_left} attempt${availability.attempts_left === 1 ? "" : "s"} left.`,
+                        ]
+                          .filter(Boolean)
+                          .join(" ")}
+                  </p>
+                )}
+                <Button
+                  className="w-full gap-2"
+                  onClick={handleSubmit}
+                  disabled={isRunning || isSubmitting || (availability !== null && !availability.open)}
+                >
+                  {isSubmitting ? (
+                    <>
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                      Grading...
+                    </>
+                  ) : (
+                    <>
+                      <Send className="h-4 w-4" />
+                      Submit Assignment
+                    </>
+                  )}
+                </Button>
+              </div>
             </CardFooter>
           </Card>
           
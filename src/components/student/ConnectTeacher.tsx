@@ -5,8 +5,8 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { toast } from "sonner";
-import { ref, set, get, query, orderByChild, equalTo, onValue } from "firebase/database";
-import { database } from "@/firebase";
+import { getRepositories } from "@/lib/repositories";
+import { connectTeacher } from "@/lib/access-codes";
 import { Loader2, UserCheck } from "lucide-react";
 
 export const ConnectTeacher = () => {
@@ -18,47 +18,31 @@ export const ConnectTeacher = () => {
   useEffect(() => {
     if (user?.id && user.role === "student") {
       // Fetch already connected teachers
-      const connectionsRef = query(
-        ref(database, 'teacher_connections'),
-        orderByChild('student_id'),
-        equalTo(user.id)
-      );
-      
-      const unsubscribe = onValue(connectionsRef, (snapshot) => {
-        const teachers: any[] = [];
-        
-        if (snapshot.exists()) {
-          const promises: Promise<void>[] = [];
-          
-          snapshot.forEach((childSnapshot) => {
-            const connection = childSnapshot.val();
-            if (connection.status === "active") {
-              // Get teacher details
-              const promise = get(ref(database, `users/${connection.teacher_id}`))
-                .then((teacherSnapshot) => {
-                  if (teacherSnapshot.exists()) {
-                    teachers.push({
+      const { teacherConnections, users } = getRepositories();
+      const unsubscribe = teacherConnections.subscribeByStudent(user.id, (connections) => {
+        const active = connections.filter((connection) => connection.status === "active");
+        Promise.all(
+          active.map((connection) =>
+            users
+              .get(connection.teacher_id)
+              .then((teacher) =>
+                teacher
+                  ? {
                       id: connection.teacher_id,
-                      name: teacherSnapshot.val().name || 'Unknown Teacher',
-                      email: teacherSnapshot.val().email || 'No email provided',
+                      name: teacher.name || 'Unknown Teacher',
+                      email: teacher.email || 'No email provided',
                       connected_at: connection.connected_at
-                    });
-                  }
-                })
-                .catch(error => {
-                  console.error("Error fetching teacher:", error);
-                });
-              
-              promises.push(promise);
-            }
-          });
-          
-          Promise.all(promises).then(() => {
-            setConnectedTeachers([...teachers]);
-          });
-        } else {
-          setConnectedTeachers([]);
-        }
+                    }
+                  : null
+              )
+              .catch((error) => {
+                console.error("Error fetching teacher:", error);
+                return null;
+              })
+          )
+        ).then((teachers) => {
+          setConnectedTeachers(teachers.filter(Boolean));
+        });
       });
       
       return () => unsubscribe();
@@ -71,66 +55,17 @@ export const ConnectTeacher = () => {
     setIsLoading(true);
     
     try {
-      // Lookup teacher ID by access code
-      const accessCodeRef = ref(database, `access_codes/${code.trim().toUpperCase()}`);
-      const snapshot = await get(accessCodeRef);
-      
-      if (!snapshot.exists()) {
-        toast.error("Invalid access code. Please check and try again.");
-        return;
-      }
-      
-      const teacherId = snapshot.val().teacher_id;
-      
-      // Check if already connected
-      const connectionCheckRef = query(
-        ref(database, 'teacher_connections'),
-        orderByChild('student_id'),
-        equalTo(user.id)
-      );
-      
-      const connectionSnapshot = await get(connectionCheckRef);
-      let alreadyConnected = false;
-      
-      if (connectionSnapshot.exists()) {
-        connectionSnapshot.forEach((childSnapshot) => {
-          const conn = childSnapshot.val();
-          if (conn.teacher_id === teacherId && conn.status === "active") {
-            alreadyConnected = true;
-          }
-        });
-      }
-      
-      if (alreadyConnected) {
+      const result = await connectTeacher(code);
+      if (result.status === "already_connected") {
         toast.info("You are already connected with this teacher.");
         return;
       }
-      
-      // Create a new connection
-      const connectionId = `${teacherId}_${user.id}`;
-      await set(ref(database, `teacher_connections/${connectionId}`), {
-        teacher_id: teacherId,
-        student_id: user.id,
-        access_code: code.trim().toUpperCase(),
-        connected_at: new Date().toISOString(),
-        status: "active"
-      });
-      
-      // Get teacher details for immediate UI update
-      const teacherRef = ref(database, `users/${teacherId}`);
-      const teacherSnapshot = await get(teacherRef);
-      
-      if (teacherSnapshot.exists()) {
-        const teacherData = teacherSnapshot.val();
-        toast.success(`Successfully connected with ${teacherData.name || 'teacher'}!`);
-      } else {
-        toast.success("Successfully connected with teacher!");
-      }
+      toast.success(`Successfully connected with ${result.teacher_name || 'teacher'}!`);
       
       setCode("");
     } catch (error) {
       console.error("Error connecting with teacher:", error);
-      toast.error("Failed to connect with teacher. Please try again.");
+      toast.error(error instanceof Error ? error.message : "Failed to connect with teacher. Please try again.");
     } finally {
       setIsLoading(false);
     }
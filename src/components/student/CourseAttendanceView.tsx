@@ -32,6 +32,10 @@ export const CourseAttendanceView: React.FC<CourseAttendanceViewProps> = ({ atte
             Late
           </Badge>
         );
+      case "excused":
+        return (
+          <Badge variant="secondary">Excused</Badge>
+        );
       default:
         return (
           <Badge variant="outline">Unknown</Badge>
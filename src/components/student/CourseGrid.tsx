@@ -5,8 +5,7 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { BookOpen, Calendar, Play, Trash2 } from "lucide-react";
-import { ref, remove } from "firebase/database";
-import { database } from "@/firebase";
+import { getRepositories } from "@/lib/repositories";
 import { toast } from "sonner";
 
 interface CourseGridProps {
@@ -35,7 +34,7 @@ export const CourseGrid: React.FC<CourseGridProps> = ({
     
     try {
       // Delete the enrollment from the database
-      await remove(ref(database, `enrollments/${enrollmentId}`));
+      await getRepositories().enrollments.remove(enrollmentId);
       toast.success("Course removed successfully");
       
       // Force reload to refresh the enrollments list
@@ -0,0 +1,396 @@
+import React, { useState, useEffect, useRef, useCallback } from "react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Loader2, ChevronLeft, Clock, Send, CheckCircle, XCircle, Lock } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/contexts/AuthContext";
+import { BankQuestion, CourseQuiz, CourseQuizAttempt, QuizAnswer } from "@/lib/types";
+import { getQuestionOptions } from "@/lib/quiz-grading";
+import { Assignment, Submission } from "./types/assignment-types";
+import { getAttemptDeadline, openCourseQuiz, startQuizAttempt, submitQuizAttempt } from "./utils/course-quiz-utils";
+
+interface CourseQuizTakerProps {
+  assignment: Assignment;
+  onBack: () => void;
+  onSubmitted?: (submission: Submission) => void;
+}
+
+const formatRemaining = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+};
+
+const formatAnswer = (question: BankQuestion, answer: QuizAnswer | undefined) => {
+  if (answer === undefined || answer === "" || (Array.isArray(answer) && answer.length === 0)) {
+    return "No answer";
+  }
+  if (Array.isArray(answer)) {
+    const options = getQuestionOptions(question);
+    return answer.map((index) => options[index]).join(", ");
+  }
+  return answer;
+};
+
+const formatCorrectAnswer = (question: BankQuestion) => {
+  switch (question.type) {
+    case "short_answer":
+      return (question.accepted_answers || []).join(" / ");
+    case "numeric":
+      return question.tolerance
+        ? `${question.numeric_answer} (± ${question.tolerance})`
+        : String(question.numeric_answer);
+    default: {
+      const options = getQuestionOptions(question);
+      return (question.correct_options || []).map((index) => options[index]).join(", ");
+    }
+  }
+};
+
+export const CourseQuizTaker: React.FC<CourseQuizTakerProps> = ({ assignment, onBack, onSubmitted }) => {
+  const { user } = useAuth();
+  const [quiz, setQuiz] = useState<CourseQuiz | null>(null);
+  const [questions, setQuestions] = useState<BankQuestion[]>([]);
+  const [questionCount, setQuestionCount] = useState(0);
+  const [attempt, setAttempt] = useState<CourseQuizAttempt | null>(null);
+  const [answers, setAnswers] = useState<Record<string, QuizAnswer>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isStarting, setIsStarting] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [now, setNow] = useState(Date.now());
+  const submittingRef = useRef(false);
+
+  useEffect(() => {
+    const loadQuiz = async () => {
+      if (!assignment.quiz_id || !user?.id) {
+        setIsLoading(false);
+        return;
+      }
+
+      try {
+        const data = await openCourseQuiz(assignment.quiz_id);
+        setQuiz(data.quiz);
+        setQuestions(data.questions);
+        setQuestionCount(data.question_count);
+        setAttempt(data.attempt);
+        setAnswers(data.attempt?.answers || {});
+      } catch (error) {
+        console.error("Error loading quiz:", error);
+        toast.error(error instanceof Error ? error.message : "Failed to load the quiz");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadQuiz();
+  }, [assignment.quiz_id, user?.id]);
+
+  const isInProgress = attempt?.status === "in_progress";
+  const deadline = quiz && attempt ? getAttemptDeadline(quiz, attempt) : null;
+
+  useEffect(() => {
+    if (!isInProgress) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isInProgress]);
+
+  const handleSubmit = useCallback(
+    async (automatic = false) => {
+      if (!quiz || !attempt || submittingRef.current) return;
+
+      submittingRef.current = true;
+      setIsSubmitting(true);
+      try {
+        const result = await submitQuizAttempt(quiz.id, answers);
+        setAttempt(result.attempt);
+        setQuestions(result.questions);
+        onSubmitted?.(result.submission);
+        if (!result.counted) {
+          toast.error("Your answers arrived after the time was up, so they were not counted.");
+        } else if (automatic) {
+          toast.info("Time is up. Your answers were submitted automatically.");
+        } else {
+          toast.success(`Quiz submitted: ${result.attempt.score} / ${result.attempt.total_points} points`);
+        }
+      } catch (error) {
+        console.error("Error submitting quiz:", error);
+        toast.error(error instanceof Error ? error.message : "Failed to submit the quiz");
+        submittingRef.current = false;
+      } finally {
+        setIsSubmitting(false);
+      }
+    },
+    [quiz, attempt, answers, onSubmitted]
+  );
+
+  // Auto-submit whatever has been answered once the deadline passes
+  useEffect(() => {
+    if (isInProgress && deadline && now >= deadline.getTime()) {
+      handleSubmit(true);
+    }
+  }, [isInProgress, deadline, now, handleSubmit]);
+
+  const handleStart = async () => {
+    if (!quiz) return;
+
+    setIsStarting(true);
+    try {
+      const started = await startQuizAttempt(quiz.id);
+      setAttempt(started.attempt);
+      setQuestions(started.questions);
+      setAnswers({});
+      setNow(Date.now());
+    } catch (error) {
+      console.error("Error starting quiz:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to start the quiz");
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const setAnswer = (questionId: string, answer: QuizAnswer) => {
+    setAnswers((current) => ({ ...current, [questionId]: answer }));
+  };
+
+  const toggleOption = (questionId: string, optionIndex: number, checked: boolean) => {
+    const current = Array.isArray(answers[questionId]) ? (answers[questionId] as number[]) : [];
+    const next = checked ? [...current, optionIndex] : current.filter((index) => index !== optionIndex);
+    setAnswer(questionId, next.sort((a, b) => a - b));
+  };
+
+  const header = (
+    <div className="flex items-center gap-4">
+      <Button variant="outline" size="sm" onClick={onBack}>
+        <ChevronLeft className="h-4 w-4 mr-1" />
+        Back
+      </Button>
+      <div>
+        <h2 className="text-2xl font-bold">{quiz?.title || assignment.title}</h2>
+        {assignment.course_name && <p className="text-muted-foreground">{assignment.course_name}</p>}
+      </div>
+    </div>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!quiz) {
+    return (
+      <div className="space-y-6">
+        {header}
+        <p className="text-muted-foreground">This quiz is no longer available.</p>
+      </div>
+    );
+  }
+
+  const renderQuestionInput = (question: BankQuestion) => {
+    const answer = answers[question.id];
+    const options = getQuestionOptions(question);
+
+    switch (question.type) {
+      case "multiple_choice":
+      case "true_false":
+        return (
+          <RadioGroup
+            value={Array.isArray(answer) && answer.length > 0 ? String(answer[0]) : ""}
+            onValueChange={(value) => setAnswer(question.id, [parseInt(value)])}
+          >
+            {options.map((option, index) => (
+              <div key={index} className="flex items-center space-x-2">
+                <RadioGroupItem value={String(index)} id={`${question.id}-${index}`} />
+                <Label htmlFor={`${question.id}-${index}`}>{option}</Label>
+              </div>
+            ))}
+          </RadioGroup>
+        );
+      case "multi_select":
+        return (
+          <div className="space-y-2">
+            <p className="text-xs text-muted-foreground">Select all that apply.</p>
+            {options.map((option, index) => (
+              <label key={index} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={Array.isArray(answer) && answer.includes(index)}
+                  onCheckedChange={(checked) => toggleOption(question.id, index, checked === true)}
+                />
+                {option}
+              </label>
+            ))}
+          </div>
+        );
+      case "numeric":
+        return (
+          <Input
+            type="number"
+            step="any"
+            value={typeof answer === "string" ? answer : ""}
+            onChange={(e) => setAnswer(question.id, e.target.value)}
+            placeholder="Enter a number"
+          />
+        );
+      default:
+        return (
+          <Input
+            value={typeof answer === "string" ? answer : ""}
+            onChange={(e) => setAnswer(question.id, e.target.value)}
+            placeholder="Your answer"
+          />
+        );
+    }
+  };
+
+  if (attempt?.status === "submitted") {
+    return (
+      <div className="space-y-6">
+        {header}
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              Score: {attempt.score} / {attempt.total_points}
+            </CardTitle>
+            <CardDescription>
+              Submitted {attempt.submitted_at ? new Date(attempt.submitted_at).toLocaleString() : ""}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Progress value={attempt.total_points ? ((attempt.score || 0) / attempt.total_points) * 100 : 0} />
+          </CardContent>
+        </Card>
+
+        {questions.map((question, index) => {
+          const earned = attempt.question_scores?.[question.id] ?? 0;
+          const fullCredit = earned >= question.points;
+
+          return (
+            <Card key={question.id}>
+              <CardHeader className="pb-2">
+                <div className="flex justify-between items-start gap-4">
+                  <CardTitle className="text-base">
+                    {index + 1}. {question.prompt}
+                  </CardTitle>
+                  <Badge variant="outline" className={fullCredit ? "text-green-500" : "text-red-500"}>
+                    {fullCredit ? <CheckCircle className="h-3 w-3 mr-1" /> : <XCircle className="h-3 w-3 mr-1" />}
+                    {earned} / {question.points}
+                  </Badge>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-1 text-sm">
+                <p>
+                  <span className="font-medium">Your answer:</span> {formatAnswer(question, attempt.answers?.[question.id])}
+                </p>
+                {!fullCredit && (
+                  <p>
+                    <span className="font-medium">Correct answer:</span> {formatCorrectAnswer(question)}
+                  </p>
+                )}
+                {question.explanation && <p className="text-muted-foreground">{question.explanation}</p>}
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+    );
+  }
+
+  const opensAt = quiz.opens_at ? new Date(quiz.opens_at) : null;
+  const closesAt = quiz.closes_at ? new Date(quiz.closes_at) : null;
+  const notYetOpen = opensAt !== null && opensAt.getTime() > now;
+  const isClosed = closesAt !== null && closesAt.getTime() <= now;
+
+  if (!attempt) {
+    return (
+      <div className="space-y-6">
+        {header}
+        <Card>
+          <CardHeader>
+            <CardTitle>Before you start</CardTitle>
+            {quiz.description && <CardDescription className="whitespace-pre-wrap">{quiz.description}</CardDescription>}
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm">
+            <p>
+              {questionCount} questions • {quiz.total_points} points
+            </p>
+            <p className="flex items-center gap-1">
+              <Clock className="h-4 w-4" />
+              {quiz.time_limit_minutes
+                ? `${quiz.time_limit_minutes} minute time limit. The timer keeps running if you leave the page.`
+                : "No time limit"}
+            </p>
+            {closesAt && <p>Closes {closesAt.toLocaleString()}</p>}
+            <p className="text-muted-foreground">You have one attempt. Answers are submitted automatically when time runs out.</p>
+          </CardContent>
+          <CardFooter>
+            {notYetOpen || isClosed ? (
+              <Button disabled className="w-full">
+                <Lock className="h-4 w-4 mr-2" />
+                {notYetOpen ? `Opens ${opensAt!.toLocaleString()}` : "This quiz is closed"}
+              </Button>
+            ) : (
+              <Button className="w-full" onClick={handleStart} disabled={isStarting || questionCount === 0}>
+                {isStarting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Start Quiz
+              </Button>
+            )}
+          </CardFooter>
+        </Card>
+      </div>
+    );
+  }
+
+  const answeredCount = questions.filter((q) => {
+    const answer = answers[q.id];
+    return Array.isArray(answer) ? answer.length > 0 : !!answer?.trim();
+  }).length;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row justify-between md:items-center gap-4">
+        {header}
+        {deadline && (
+          <Badge variant="outline" className="text-base py-1 px-3">
+            <Clock className="h-4 w-4 mr-2" />
+            {formatRemaining(deadline.getTime() - now)}
+          </Badge>
+        )}
+      </div>
+
+      {questions.map((question, index) => (
+        <Card key={question.id}>
+          <CardHeader className="pb-2">
+            <div className="flex justify-between items-start gap-4">
+              <CardTitle className="text-base">
+                {index + 1}. {question.prompt}
+              </CardTitle>
+              <span className="text-xs text-muted-foreground whitespace-nowrap">
+                {question.points} pt{question.points === 1 ? "" : "s"}
+              </span>
+            </div>
+          </CardHeader>
+          <CardContent>{renderQuestionInput(question)}</CardContent>
+        </Card>
+      ))}
+
+      <div className="flex justify-between items-center">
+        <p className="text-sm text-muted-foreground">
+          {answeredCount} of {questions.length} answered
+        </p>
+        <Button onClick={() => handleSubmit()} disabled={isSubmitting}>
+          {isSubmitting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+          Submit Quiz
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -20,9 +20,11 @@ import { FileText, BookOpen, Save } from "lucide-react";
 interface CourseViewerProps {
   course: AIGeneratedCourse;
   onSave?: () => void;
+  // Only passed for saved courses, whose progress can be tracked
+  onToggleModule?: (moduleId: string) => void;
 }
 
-export const CourseViewer: React.FC<CourseViewerProps> = ({ course, onSave }) => {
+export const CourseViewer: React.FC<CourseViewerProps> = ({ course, onSave, onToggleModule }) => {
   const [viewMode, setViewMode] = useState<"course" | "pdfs">("course");
   
   return (
@@ -61,7 +63,12 @@ export const CourseViewer: React.FC<CourseViewerProps> = ({ course, onSave }) =>
               <h3 className="text-lg font-semibold mt-2 mb-4">Modules</h3>
               <Accordion type="single" collapsible className="w-full">
                 {course.modules.map((module) => (
-                  <ModuleItem key={module.id} module={module} />
+                  <ModuleItem
+                    key={module.id}
+                    module={module}
+                    completed={course.completedModuleIds?.includes(module.id)}
+                    onToggleCompleted={onToggleModule && (() => onToggleModule(module.id))}
+                  />
                 ))}
               </Accordion>
             </TabsContent>
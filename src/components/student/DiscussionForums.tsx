@@ -1,20 +1,120 @@
-
-import React, { useState } from "react";
-import { Card, CardContent, CardHeader, CardTitle, CardFooter } from "@/components/ui/card";
+import React, { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
-import { MessageSquare, Video, Mic, Plus, ThumbsUp, MessageCircle, Clock, UserCircle2 } from "lucide-react";
+import { AlertTriangle, Loader2, MessageSquare, VolumeX } from "lucide-react";
 import { toast } from "sonner";
+import { useAuth } from "@/contexts/AuthContext";
+import { ActiveMute, ForumThread, UserSanction } from "@/lib/types";
+import { getRepositories } from "@/lib/repositories";
+import {
+  ReportTarget,
+  acknowledgeWarning,
+  createThread,
+  isMuteActive,
+  subscribeToMute,
+  subscribeToUnacknowledgedWarnings,
+  subscribeToVisibleThreads,
+} from "@/lib/forum";
+import { ForumThreadCard } from "./ForumThreadCard";
+import { ReportContentDialog } from "./ReportContentDialog";
+
+interface EnrolledCourse {
+  id: string;
+  title: string;
+}
 
 export const DiscussionForums = () => {
-  const [activeTab, setActiveTab] = useState("discussions");
+  const { user } = useAuth();
+  const [courses, setCourses] = useState<EnrolledCourse[]>([]);
+  const [selectedCourse, setSelectedCourse] = useState<string>("");
+  const [threads, setThreads] = useState<ForumThread[]>([]);
+  const [mute, setMute] = useState<ActiveMute | null>(null);
+  const [warnings, setWarnings] = useState<UserSanction[]>([]);
+  const [loading, setLoading] = useState(true);
   const [isNewPostDialogOpen, setIsNewPostDialogOpen] = useState(false);
-  const [postType, setPostType] = useState<"text" | "audio" | "video">("text");
+  const [newTitle, setNewTitle] = useState("");
+  const [newContent, setNewContent] = useState("");
+  const [posting, setPosting] = useState(false);
+  const [reportTarget, setReportTarget] = useState<ReportTarget | null>(null);
+
+  useEffect(() => {
+    if (!user?.id) return;
+
+    const fetchCourses = async () => {
+      try {
+        const { enrollments, courses: courseRepository } = getRepositories();
+        const courseIds = new Set((await enrollments.listByStudent(user.id)).map((enrollment) => enrollment.course_id));
+
+        const enrolled: EnrolledCourse[] = [];
+        for (const courseId of courseIds) {
+          const course = await courseRepository.get(courseId);
+          if (course) {
+            enrolled.push({ id: courseId, title: course.title || "Untitled course" });
+          }
+        }
+
+        setCourses(enrolled);
+        if (enrolled.length > 0) {
+          setSelectedCourse((current) => current || enrolled[0].id);
+        }
+      } catch (error) {
+        console.error("Error fetching courses for forums:", error);
+        toast.error("Failed to load your courses");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchCourses();
+    return subscribeToUnacknowledgedWarnings(user.id, setWarnings);
+  }, [user?.id]);
+
+  useEffect(() => {
+    if (!selectedCourse || !user?.id) return;
+
+    const unsubscribeThreads = subscribeToVisibleThreads(selectedCourse, user.id, setThreads);
+    const unsubscribeMute = subscribeToMute(selectedCourse, user.id, setMute);
+    return () => {
+      unsubscribeThreads();
+      unsubscribeMute();
+    };
+  }, [selectedCourse, user?.id]);
+
+  const muted = isMuteActive(mute);
+  const courseTitle = (courseId: string) => courses.find((course) => course.id === courseId)?.title || "a course";
+
+  const handleCreateThread = async () => {
+    if (!user || !selectedCourse || !newTitle.trim() || !newContent.trim()) return;
+
+    setPosting(true);
+    try {
+      await createThread(selectedCourse, user, newTitle, newContent);
+      toast.success("Your post has been created!");
+      setNewTitle("");
+      setNewContent("");
+      setIsNewPostDialogOpen(false);
+    } catch (error) {
+      console.error("Error creating thread:", error);
+      toast.error("Failed to create post");
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  const handleAcknowledge = async (warningId: string) => {
+    try {
+      await acknowledgeWarning(warningId);
+    } catch (error) {
+      console.error("Error acknowledging warning:", error);
+      toast.error("Failed to dismiss warning");
+    }
+  };
 
   return (
     <div className="space-y-6">
@@ -23,307 +123,104 @@ export const DiscussionForums = () => {
           <h2 className="text-2xl font-bold">Discussion Forums</h2>
           <p className="text-muted-foreground">Engage with your peers and instructors</p>
         </div>
-        
+
         <div className="flex gap-2">
-          <Button variant="outline" onClick={() => {
-            setPostType("text");
-            setIsNewPostDialogOpen(true);
-          }}>
+          <Select value={selectedCourse} onValueChange={setSelectedCourse} disabled={courses.length === 0}>
+            <SelectTrigger className="w-56">
+              <SelectValue placeholder="Select a course" />
+            </SelectTrigger>
+            <SelectContent>
+              {courses.map((course) => (
+                <SelectItem key={course.id} value={course.id}>
+                  {course.title}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={() => setIsNewPostDialogOpen(true)} disabled={!selectedCourse || muted}>
             <MessageSquare className="h-4 w-4 mr-2" />
-            Text Post
-          </Button>
-          <Button variant="outline" onClick={() => {
-            setPostType("audio");
-            setIsNewPostDialogOpen(true);
-          }}>
-            <Mic className="h-4 w-4 mr-2" />
-            Audio Post
-          </Button>
-          <Button onClick={() => {
-            setPostType("video");
-            setIsNewPostDialogOpen(true);
-          }}>
-            <Video className="h-4 w-4 mr-2" />
-            Video Post
+            New Post
           </Button>
         </div>
       </div>
 
-      <Tabs value={activeTab} onValueChange={setActiveTab}>
-        <TabsList className="mb-6">
-          <TabsTrigger value="discussions">All Discussions</TabsTrigger>
-          <TabsTrigger value="my-posts">My Posts</TabsTrigger>
-          <TabsTrigger value="course-specific">Course Specific</TabsTrigger>
-        </TabsList>
+      {warnings.map((warning) => (
+        <Alert key={warning.id} variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Warning from a moderator in {courseTitle(warning.course_id)}</AlertTitle>
+          <AlertDescription className="flex justify-between items-center gap-4">
+            <span>{warning.reason}</span>
+            <Button variant="outline" size="sm" onClick={() => handleAcknowledge(warning.id)}>
+              Dismiss
+            </Button>
+          </AlertDescription>
+        </Alert>
+      ))}
 
-        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-          <div className="lg:col-span-2 space-y-6">
-            {["Web Development", "Database Design", "Mobile App Development"].map((course, i) => (
-              <Card key={i} className="overflow-hidden">
-                <CardHeader>
-                  <div className="flex justify-between items-start">
-                    <div>
-                      <Badge className="mb-2">{course}</Badge>
-                      <CardTitle className="text-lg">Understanding {course === "Web Development" ? "CSS Grid vs Flexbox" : course === "Database Design" ? "SQL Joins" : "React Native Navigation"}</CardTitle>
-                    </div>
-                    <Badge variant="outline" className="flex items-center gap-1">
-                      <MessageCircle className="h-3 w-3" />
-                      {12 - i * 3}
-                    </Badge>
-                  </div>
-                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                    <Avatar className="h-6 w-6">
-                      <AvatarImage src={`https://i.pravatar.cc/150?u=${i}`} />
-                      <AvatarFallback>U{i}</AvatarFallback>
-                    </Avatar>
-                    <span>Sarah Johnson</span>
-                    <span>•</span>
-                    <Clock className="h-3 w-3" />
-                    <span>{i + 1} day{i !== 0 ? 's' : ''} ago</span>
-                  </div>
-                </CardHeader>
-                <CardContent>
-                  <p className="mb-4">
-                    {course === "Web Development" 
-                      ? "I'm having trouble understanding when to use CSS Grid versus Flexbox. Could someone explain the key differences and use cases for each?" 
-                      : course === "Database Design"
-                        ? "Can someone explain the difference between INNER JOIN, LEFT JOIN, and RIGHT JOIN in SQL? I'm especially confused about when to use each type." 
-                        : "I'm struggling with setting up a stack navigator in React Native. Has anyone implemented a nested navigation structure they could share?"
-                    }
-                  </p>
-                  
-                  {i === 1 && (
-                    <div className="mb-4">
-                      <div className="relative aspect-video rounded-md overflow-hidden bg-muted">
-                        <div className="absolute inset-0 flex items-center justify-center">
-                          <Mic className="h-12 w-12 text-muted-foreground" />
-                        </div>
-                        <div className="absolute bottom-2 left-2 right-2">
-                          <div className="bg-background/80 backdrop-blur-sm p-2 rounded-md">
-                            <div className="h-2 bg-primary rounded-full relative">
-                              <div className="absolute top-1/2 -translate-y-1/2 left-1/4 w-2 h-2 bg-white rounded-full"></div>
-                            </div>
-                          </div>
-                        </div>
-                      </div>
-                      <p className="text-sm text-muted-foreground mt-2">Audio recording: 1:24</p>
-                    </div>
-                  )}
-                  
-                  {i === 2 && (
-                    <div className="mb-4">
-                      <div className="relative aspect-video rounded-md overflow-hidden bg-muted">
-                        <div className="absolute inset-0 flex items-center justify-center">
-                          <Video className="h-12 w-12 text-muted-foreground" />
-                        </div>
-                        <div className="absolute bottom-2 left-2 right-2">
-                          <div className="bg-background/80 backdrop-blur-sm p-2 rounded-md">
-                            <div className="h-2 bg-muted-foreground rounded-full relative">
-                              <div className="absolute top-1/2 -translate-y-1/2 left-3/4 w-2 h-2 bg-white rounded-full"></div>
-                            </div>
-                          </div>
-                        </div>
-                      </div>
-                      <p className="text-sm text-muted-foreground mt-2">Video: Screen recording of navigation setup (2:45)</p>
-                    </div>
-                  )}
-                  
-                  <div className="flex items-center gap-4">
-                    <Button variant="ghost" size="sm" className="gap-1">
-                      <ThumbsUp className="h-4 w-4" />
-                      {5 - i}
-                    </Button>
-                    <Button variant="ghost" size="sm" className="gap-1">
-                      <MessageCircle className="h-4 w-4" />
-                      Reply
-                    </Button>
-                  </div>
-                </CardContent>
-                
-                <div className="border-t px-6 py-4">
-                  <h4 className="font-medium text-sm mb-3">Recent Replies</h4>
-                  <div className="space-y-4">
-                    <div className="flex gap-3">
-                      <Avatar className="h-8 w-8">
-                        <AvatarImage src={`https://i.pravatar.cc/150?u=${i+10}`} />
-                        <AvatarFallback>P</AvatarFallback>
-                      </Avatar>
-                      <div>
-                        <div className="flex items-center gap-2 mb-1">
-                          <span className="text-sm font-medium">Professor Anderson</span>
-                          <Badge variant="outline" className="text-xs">Instructor</Badge>
-                        </div>
-                        <p className="text-sm">
-                          {course === "Web Development" 
-                            ? "Grid is 2-dimensional while Flexbox is 1-dimensional. Use Grid for overall page layout and Flexbox for components."
-                            : course === "Database Design"
-                              ? "INNER JOIN returns matches in both tables, LEFT keeps all from first, RIGHT keeps all from second table."
-                              : "Stack Navigator is for screen-to-screen navigation. Check out my example repository for nested navigation patterns."
-                          }
-                        </p>
-                        <div className="flex items-center gap-2 mt-1">
-                          <Button variant="ghost" size="sm" className="h-6 px-2 text-xs gap-1">
-                            <ThumbsUp className="h-3 w-3" />
-                            3
-                          </Button>
-                          <span className="text-xs text-muted-foreground">2 hours ago</span>
-                        </div>
-                      </div>
-                    </div>
-                  </div>
-                </div>
-                
-                <CardFooter className="border-t p-4">
-                  <div className="flex items-center gap-2 w-full">
-                    <Avatar className="h-8 w-8">
-                      <AvatarFallback>
-                        <UserCircle2 className="h-4 w-4" />
-                      </AvatarFallback>
-                    </Avatar>
-                    <Input placeholder="Add your reply..." className="flex-1" />
-                    <Button size="sm">Reply</Button>
-                  </div>
-                </CardFooter>
-              </Card>
-            ))}
-          </div>
-          
-          <div className="space-y-6">
-            <Card>
-              <CardHeader>
-                <CardTitle>Active Forums</CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-4">
-                  {[
-                    { name: "Web Development", count: 24 },
-                    { name: "Database Design", count: 18 },
-                    { name: "Mobile App Development", count: 15 },
-                    { name: "UI/UX Design", count: 12 },
-                    { name: "Machine Learning", count: 10 },
-                  ].map((forum, i) => (
-                    <div key={i} className="flex justify-between items-center">
-                      <Button variant="link" className="p-0 h-auto font-normal justify-start">
-                        {forum.name}
-                      </Button>
-                      <Badge variant="outline">{forum.count}</Badge>
-                    </div>
-                  ))}
-                </div>
-              </CardContent>
-              <CardFooter>
-                <Button variant="outline" className="w-full gap-2">
-                  <Plus className="h-4 w-4" />
-                  Browse All Forums
-                </Button>
-              </CardFooter>
-            </Card>
-            
-            <Card>
-              <CardHeader>
-                <CardTitle>Most Active Users</CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-4">
-                  {[1, 2, 3, 4, 5].map((i) => (
-                    <div key={i} className="flex items-center justify-between">
-                      <div className="flex items-center gap-2">
-                        <Avatar className="h-8 w-8">
-                          <AvatarImage src={`https://i.pravatar.cc/150?u=${i+20}`} />
-                          <AvatarFallback>U{i}</AvatarFallback>
-                        </Avatar>
-                        <div>
-                          <div className="font-medium text-sm">
-                            {["John Smith", "Sarah Johnson", "Alex Chen", "Maria Garcia", "David Kim"][i-1]}
-                          </div>
-                          <div className="text-xs text-muted-foreground">
-                            {[
-                              "Web Development",
-                              "Database Design",
-                              "UI/UX Design",
-                              "Mobile App Development",
-                              "Machine Learning"
-                            ][i-1]}
-                          </div>
-                        </div>
-                      </div>
-                      <Badge variant="outline" className="ml-2">{56 - (i * 8)} posts</Badge>
-                    </div>
-                  ))}
-                </div>
-              </CardContent>
-            </Card>
-          </div>
+      {muted && mute && (
+        <Alert>
+          <VolumeX className="h-4 w-4" />
+          <AlertTitle>You are muted in this course</AlertTitle>
+          <AlertDescription>
+            You can read discussions but cannot post or reply until {format(new Date(mute.until), "PPp")}.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : courses.length === 0 ? (
+        <Card>
+          <CardContent className="py-8 text-center text-muted-foreground">
+            Join a course to take part in its discussions.
+          </CardContent>
+        </Card>
+      ) : threads.length === 0 ? (
+        <Card>
+          <CardContent className="py-8 text-center text-muted-foreground">
+            No discussions yet. Start the first one!
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-6">
+          {threads.map((thread) => (
+            <ForumThreadCard key={thread.id} thread={thread} canPost={!muted} onReport={setReportTarget} />
+          ))}
         </div>
-      </Tabs>
-      
-      {/* New Post Dialog */}
+      )}
+
       <Dialog open={isNewPostDialogOpen} onOpenChange={setIsNewPostDialogOpen}>
         <DialogContent className="sm:max-w-md">
           <DialogHeader>
             <DialogTitle className="flex items-center gap-2">
-              {postType === "text" ? (
-                <>
-                  <MessageSquare className="h-5 w-5" />
-                  Create Text Post
-                </>
-              ) : postType === "audio" ? (
-                <>
-                  <Mic className="h-5 w-5" />
-                  Create Audio Post
-                </>
-              ) : (
-                <>
-                  <Video className="h-5 w-5" />
-                  Create Video Post
-                </>
-              )}
+              <MessageSquare className="h-5 w-5" />
+              Create Post
             </DialogTitle>
           </DialogHeader>
-          
+
           <div className="space-y-4 py-4">
-            <div className="space-y-2">
-              <Input placeholder="Post title" />
-            </div>
-            
-            {postType === "text" ? (
-              <Textarea placeholder="What would you like to discuss?" rows={5} />
-            ) : (
-              <div className="border-2 border-dashed rounded-lg p-8 text-center">
-                <div className="flex flex-col items-center justify-center gap-2">
-                  {postType === "audio" ? (
-                    <>
-                      <Mic className="h-8 w-8 text-muted-foreground" />
-                      <div className="flex flex-col items-center">
-                        <span className="text-sm font-medium">Record Audio or Upload File</span>
-                        <span className="text-xs text-muted-foreground">MP3, WAV files up to 10MB</span>
-                      </div>
-                      <Button className="mt-2">Start Recording</Button>
-                    </>
-                  ) : (
-                    <>
-                      <Video className="h-8 w-8 text-muted-foreground" />
-                      <div className="flex flex-col items-center">
-                        <span className="text-sm font-medium">Record Video or Upload File</span>
-                        <span className="text-xs text-muted-foreground">MP4, WebM files up to 50MB</span>
-                      </div>
-                      <Button className="mt-2">Start Recording</Button>
-                    </>
-                  )}
-                </div>
-              </div>
-            )}
+            <Input placeholder="Post title" value={newTitle} onChange={(e) => setNewTitle(e.target.value)} />
+            <Textarea
+              placeholder="What would you like to discuss?"
+              rows={5}
+              value={newContent}
+              onChange={(e) => setNewContent(e.target.value)}
+            />
           </div>
-          
+
           <DialogFooter>
             <Button variant="outline" onClick={() => setIsNewPostDialogOpen(false)}>Cancel</Button>
-            <Button onClick={() => {
-              toast.success("Your post has been created!");
-              setIsNewPostDialogOpen(false);
-            }}>Post</Button>
+            <Button onClick={handleCreateThread} disabled={posting || !newTitle.trim() || !newContent.trim()}>
+              {posting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Post
+            </Button>
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <ReportContentDialog target={reportTarget} onOpenChange={(open) => !open && setReportTarget(null)} />
     </div>
   );
 };
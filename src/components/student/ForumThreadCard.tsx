@@ -0,0 +1,177 @@
+import React, { useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle, CardFooter } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Clock, EyeOff, Flag, Lock, MessageCircle } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/contexts/AuthContext";
+import { ForumComment, ForumThread } from "@/lib/types";
+import { ReportTarget, addComment, subscribeToVisibleComments } from "@/lib/forum";
+
+interface ForumThreadCardProps {
+  thread: ForumThread;
+  canPost: boolean; // False while the user is muted in this course
+  onReport: (target: ReportTarget) => void;
+}
+
+const initials = (name: string) =>
+  name
+    .split(" ")
+    .map((part) => part[0])
+    .join("")
+    .slice(0, 2)
+    .toUpperCase() || "?";
+
+export const ForumThreadCard: React.FC<ForumThreadCardProps> = ({ thread, canPost, onReport }) => {
+  const { user } = useAuth();
+  const [comments, setComments] = useState<ForumComment[]>([]);
+  const [reply, setReply] = useState("");
+  const [posting, setPosting] = useState(false);
+
+  useEffect(() => {
+    if (!user?.id) return;
+    return subscribeToVisibleComments(thread.id, user.id, setComments);
+  }, [thread.id, user?.id]);
+
+  const handleReply = async () => {
+    if (!user || !reply.trim()) return;
+
+    setPosting(true);
+    try {
+      await addComment(thread, user, reply);
+      setReply("");
+    } catch (error) {
+      console.error("Error posting reply:", error);
+      toast.error("Failed to post reply");
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  const isHidden = thread.status === "hidden";
+
+  return (
+    <Card className="overflow-hidden">
+      <CardHeader>
+        <div className="flex justify-between items-start gap-2">
+          <div>
+            <div className="flex gap-2 mb-2">
+              {thread.locked && (
+                <Badge variant="secondary" className="flex items-center gap-1">
+                  <Lock className="h-3 w-3" />
+                  Locked
+                </Badge>
+              )}
+              {isHidden && (
+                <Badge variant="destructive" className="flex items-center gap-1">
+                  <EyeOff className="h-3 w-3" />
+                  Hidden by a moderator
+                </Badge>
+              )}
+            </div>
+            <CardTitle className="text-lg">{thread.title}</CardTitle>
+          </div>
+          <Badge variant="outline" className="flex items-center gap-1">
+            <MessageCircle className="h-3 w-3" />
+            {comments.length}
+          </Badge>
+        </div>
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Avatar className="h-6 w-6">
+            <AvatarFallback className="text-xs">{initials(thread.author_name)}</AvatarFallback>
+          </Avatar>
+          <span>{thread.author_name}</span>
+          <span>•</span>
+          <Clock className="h-3 w-3" />
+          <span>{formatDistanceToNow(new Date(thread.created_at), { addSuffix: true })}</span>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <p className="mb-4 whitespace-pre-wrap">{thread.content}</p>
+        {thread.author_id !== user?.id && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="gap-1 text-muted-foreground"
+            onClick={() =>
+              onReport({ type: "thread", id: thread.id, thread_id: thread.id, course_id: thread.course_id, author_id: thread.author_id })
+            }
+          >
+            <Flag className="h-4 w-4" />
+            Report
+          </Button>
+        )}
+      </CardContent>
+
+      {comments.length > 0 && (
+        <div className="border-t px-6 py-4 space-y-4">
+          {comments.map((comment) => (
+            <div key={comment.id} className="flex gap-3">
+              <Avatar className="h-8 w-8">
+                <AvatarFallback className="text-xs">{initials(comment.author_name)}</AvatarFallback>
+              </Avatar>
+              <div className="flex-1">
+                <div className="flex items-center gap-2 mb-1">
+                  <span className="text-sm font-medium">{comment.author_name}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}
+                  </span>
+                  {comment.status === "hidden" && (
+                    <Badge variant="destructive" className="text-xs">Hidden by a moderator</Badge>
+                  )}
+                </div>
+                <p className="text-sm whitespace-pre-wrap">{comment.content}</p>
+                {comment.author_id !== user?.id && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-2 text-xs gap-1 text-muted-foreground"
+                    onClick={() =>
+                      onReport({
+                        type: "comment",
+                        id: comment.id,
+                        thread_id: thread.id,
+                        course_id: thread.course_id,
+                        author_id: comment.author_id,
+                      })
+                    }
+                  >
+                    <Flag className="h-3 w-3" />
+                    Report
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <CardFooter className="border-t p-4">
+        {thread.locked ? (
+          <p className="text-sm text-muted-foreground">This thread is locked; no new replies can be added.</p>
+        ) : isHidden ? (
+          <p className="text-sm text-muted-foreground">Replies are closed while this thread is hidden.</p>
+        ) : (
+          <div className="flex items-center gap-2 w-full">
+            <Input
+              placeholder={canPost ? "Add your reply..." : "You are muted in this course"}
+              className="flex-1"
+              value={reply}
+              disabled={!canPost}
+              onChange={(e) => setReply(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") handleReply();
+              }}
+            />
+            <Button size="sm" onClick={handleReply} disabled={!canPost || posting || !reply.trim()}>
+              Reply
+            </Button>
+          </div>
+        )}
+      </CardFooter>
+    </Card>
+  );
+};
@@ -6,8 +6,8 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { toast } from "sonner";
 import { useAuth } from "@/contexts/AuthContext";
-import { ref, get, push, set, query, orderByChild, equalTo } from "firebase/database";
-import { database } from "@/firebase";
+import { redeemAccessCode } from "@/lib/access-codes";
+import { announceJoinResult } from "./utils/join-course-utils";
 import { Key } from "lucide-react";
 
 interface JoinCourseProps {
@@ -35,107 +35,13 @@ export const JoinCourse: React.FC<JoinCourseProps> = ({ onJoinSuccess }) => {
     setLoading(true);
     
     try {
-      // First check in access_codes collection
-      const accessCodesRef = query(
-        ref(database, 'access_codes'),
-        orderByChild('code'),
-        equalTo(accessCode.trim().toUpperCase())
-      );
-      
-      const accessCodesSnapshot = await get(accessCodesRef);
-      
-      let courseId = null;
-      
-      if (accessCodesSnapshot.exists()) {
-        // Get the course ID from the access code
-        accessCodesSnapshot.forEach((childSnapshot) => {
-          const codeData = childSnapshot.val();
-          courseId = codeData.course_id;
-        });
-      } else {
-        try {
-          // If not found in access_codes, try to find all courses and filter locally
-          // This avoids the indexing issue with direct queries
-          const coursesRef = ref(database, 'courses');
-          const coursesSnapshot = await get(coursesRef);
-          
-          if (coursesSnapshot.exists()) {
-            coursesSnapshot.forEach((childSnapshot) => {
-              const course = childSnapshot.val();
-              if (course.access_code === accessCode.trim().toUpperCase()) {
-                courseId = childSnapshot.key;
-              }
-            });
-          }
-        } catch (error) {
-          console.error("Error searching for courses:", error);
-        }
-      }
-      
-      if (!courseId) {
-        toast.error("Invalid access code. Please check and try again.");
-        setLoading(false);
-        return;
-      }
-      
-      // Get the course data
-      const courseRef = ref(database, `courses/${courseId}`);
-      const courseSnapshot = await get(courseRef);
-      
-      if (!courseSnapshot.exists()) {
-        toast.error("Error finding course");
-        setLoading(false);
-        return;
+      if (announceJoinResult(await redeemAccessCode(accessCode))) {
+        onJoinSuccess?.();
       }
-      
-      const courseData = courseSnapshot.val();
-      
-      // Check if already enrolled
-      const enrollmentsRef = query(
-        ref(database, 'enrollments'),
-        orderByChild('student_id'),
-        equalTo(user.id)
-      );
-      
-      const enrollmentsSnapshot = await get(enrollmentsRef);
-      
-      let alreadyEnrolled = false;
-      
-      if (enrollmentsSnapshot.exists()) {
-        enrollmentsSnapshot.forEach((childSnapshot) => {
-          const enrollment = childSnapshot.val();
-          if (enrollment.course_id === courseId) {
-            alreadyEnrolled = true;
-          }
-        });
-      }
-      
-      if (alreadyEnrolled) {
-        toast.info("You are already enrolled in this course");
-        setLoading(false);
-        return;
-      }
-      
-      // Create the enrollment
-      const enrollmentRef = push(ref(database, 'enrollments'));
-      await set(enrollmentRef, {
-        course_id: courseId,
-        student_id: user.id,
-        student_name: user.name || 'Unknown Student',
-        enrolled_at: new Date().toISOString(),
-        completed: false,
-        progress: 0
-      });
-      
-      toast.success(`Successfully enrolled in ${courseData.title}`);
       setAccessCode("");
-      
-      if (onJoinSuccess) {
-        onJoinSuccess();
-      }
     } catch (error) {
       console.error("Error joining course:", error);
-      toast.error("Failed to join course");
+      toast.error(error instanceof Error ? error.message : "Failed to join course");
     } finally {
       setLoading(false);
     }
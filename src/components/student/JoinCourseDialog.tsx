@@ -7,8 +7,8 @@ import { Label } from "@/components/ui/label";
 import { toast } from "sonner";
 import { Key, Loader2 } from "lucide-react";
 import { useAuth } from "@/contexts/AuthContext";
-import { ref, get, query, orderByChild, equalTo, set } from "firebase/database";
-import { database } from "@/firebase";
+import { redeemAccessCode } from "@/lib/access-codes";
+import { announceJoinResult } from "./utils/join-course-utils";
 
 interface JoinCourseDialogProps {
   open: boolean;
@@ -37,107 +37,17 @@ export const JoinCourseDialog: React.FC<JoinCourseDialogProps> = ({
     setIsJoining(true);
     
     try {
-      // First check in access_codes collection
-      const accessCodesRef = query(
-        ref(database, 'access_codes'),
-        orderByChild('code'),
-        equalTo(accessCode.trim().toUpperCase())
-      );
-      
-      const accessCodesSnapshot = await get(accessCodesRef);
-      
-      let courseId = null;
-      let courseData = null;
-      
-      if (accessCodesSnapshot.exists()) {
-        // Get the course ID from the access code
-        accessCodesSnapshot.forEach((childSnapshot) => {
-          const codeData = childSnapshot.val();
-          courseId = codeData.course_id;
-        });
-        
-        // If we found an access code, get the course data
-        if (courseId) {
-          const courseRef = ref(database, `courses/${courseId}`);
-          const courseSnapshot = await get(courseRef);
-          
-          if (courseSnapshot.exists()) {
-            courseData = courseSnapshot.val();
-          }
-        }
-      } else {
-        try {
-          // If not found in access_codes, get all courses and filter locally
-          // This avoids the indexing issue
-          const coursesRef = ref(database, 'courses');
-          const coursesSnapshot = await get(coursesRef);
-          
-          if (coursesSnapshot.exists()) {
-            coursesSnapshot.forEach((childSnapshot) => {
-              const course = childSnapshot.val();
-              if (course.access_code === accessCode.trim().toUpperCase()) {
-                courseId = childSnapshot.key;
-                courseData = course;
-              }
-            });
-          }
-        } catch (error) {
-          console.error("Error searching for courses:", error);
-        }
-      }
-      
-      if (!courseId || !courseData) {
-        toast.error("Invalid access code. Please check and try again.");
-        setIsJoining(false);
-        return;
-      }
-      
-      // Check if already enrolled
-      const enrollmentsRef = query(
-        ref(database, 'enrollments'),
-        orderByChild('student_id'),
-        equalTo(user.id)
-      );
-      
-      const enrollmentsSnapshot = await get(enrollmentsRef);
-      
-      let alreadyEnrolled = false;
-      
-      if (enrollmentsSnapshot.exists()) {
-        enrollmentsSnapshot.forEach((childSnapshot) => {
-          const enrollment = childSnapshot.val();
-          if (enrollment.course_id === courseId) {
-            alreadyEnrolled = true;
-          }
-        });
-      }
-      
-      if (alreadyEnrolled) {
-        toast.info("You are already enrolled in this course");
-        setIsJoining(false);
-        return;
-      }
-      
-      // Create the enrollment
-      const enrollmentRef = ref(database, `enrollments/enrollment_${Date.now()}`);
-      await set(enrollmentRef, {
-        course_id: courseId,
-        student_id: user.id,
-        student_name: user.name || 'Unknown Student',
-        enrolled_at: new Date().toISOString(),
-        completed: false,
-        progress: 0
-      });
-      
-      toast.success(`Successfully enrolled in ${courseData.title}`);
+      const enrolled = announceJoinResult(await redeemAccessCode(accessCode));
       setAccessCode("");
       onOpenChange(false);
       
       // Refresh enrollments
-      window.location.reload();
+      if (enrolled) {
+        window.location.reload();
+      }
     } catch (error) {
       console.error("Error joining course:", error);
-      toast.error("Failed to join course");
+      toast.error(error instanceof Error ? error.message : "Failed to join course");
     } finally {
       setIsJoining(false);
     }
@@ -6,26 +6,36 @@ import {
   AccordionContent,
 } from "@/components/ui/accordion";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import { Accordion } from "@/components/ui/accordion";
-import { BookOpen, Youtube, Globe, FileText } from "lucide-react";
+import { BookOpen, Youtube, Globe, FileText, CheckCircle2 } from "lucide-react";
 import { AICourseModule } from "./types/ai-course-types";
 
 interface ModuleItemProps {
   module: AICourseModule;
+  completed?: boolean;
+  onToggleCompleted?: () => void;
 }
 
-export const ModuleItem: React.FC<ModuleItemProps> = ({ module }) => {
+export const ModuleItem: React.FC<ModuleItemProps> = ({ module, completed, onToggleCompleted }) => {
   return (
     <AccordionItem value={module.id}>
       <AccordionTrigger className="hover:no-underline">
         <div className="flex items-center">
           <Badge className="mr-2 bg-primary">{`Day ${module.day}`}</Badge>
           <span>{module.title}</span>
+          {completed && <CheckCircle2 className="h-4 w-4 ml-2 text-green-500" />}
         </div>
       </AccordionTrigger>
       <AccordionContent>
         <div className="pl-2 border-l-2 border-muted space-y-4">
           <p className="text-sm">{module.description}</p>
+          {onToggleCompleted && (
+            <Button size="sm" variant={completed ? "outline" : "default"} onClick={onToggleCompleted}>
+              <CheckCircle2 className="h-4 w-4 mr-2" />
+              {completed ? "Mark as not done" : "Mark as done"}
+            </Button>
+          )}
 
           {module.topics.map((topic) => (
             <div key={topic.id} className="mt-4 space-y-3">
@@ -6,11 +6,15 @@ import { toast } from "sonner";
 import { Assignment } from "./types/assignment-types";
 import { fetchStudentAssignments } from "./utils/assignment-utils";
 import { AssignmentList } from "./AssignmentList";
+import { CodeEditor } from "./CodeEditor";
+import { CourseQuizTaker } from "./CourseQuizTaker";
 
 export const MyAssignments = () => {
   const { user } = useAuth();
   const [assignments, setAssignments] = useState<Assignment[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [codingAssignment, setCodingAssignment] = useState<Assignment | null>(null);
+  const [quizAssignment, setQuizAssignment] = useState<Assignment | null>(null);
   
   useEffect(() => {
     const loadAssignments = async () => {
@@ -47,5 +51,42 @@ export const MyAssignments = () => {
     );
   }
 
-  return <AssignmentList assignments={assignments} setAssignments={setAssignments} />;
+  if (codingAssignment) {
+    return (
+      <CodeEditor
+        key={codingAssignment.id}
+        assignment={codingAssignment}
+        onBack={() => setCodingAssignment(null)}
+        onSubmitted={(submission) => {
+          const updated = { ...codingAssignment, submitted: true, submission };
+          setCodingAssignment(updated);
+          setAssignments(prev => prev.map(a => a.id === updated.id ? updated : a));
+        }}
+      />
+    );
+  }
+
+  if (quizAssignment) {
+    return (
+      <CourseQuizTaker
+        key={quizAssignment.id}
+        assignment={quizAssignment}
+        onBack={() => setQuizAssignment(null)}
+        onSubmitted={(submission) => {
+          const updated = { ...quizAssignment, submitted: true, submission };
+          setQuizAssignment(updated);
+          setAssignments(prev => prev.map(a => a.id === updated.id ? updated : a));
+        }}
+      />
+    );
+  }
+
+  return (
+    <AssignmentList
+      assignments={assignments}
+      setAssignments={setAssignments}
+      onOpenCodeEditor={setCodingAssignment}
+      onOpenQuiz={setQuizAssignment}
+    />
+  );
 };
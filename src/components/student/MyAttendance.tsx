@@ -1,124 +1,115 @@
 
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useCallback } from "react";
+import { useSearchParams } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Calendar } from "@/components/ui/calendar";
 import { Button } from "@/components/ui/button";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
-import { database } from "@/firebase";
-import { ref, onValue, query, orderByChild, equalTo } from "firebase/database";
+import { Input } from "@/components/ui/input";
 import { useAuth } from "@/contexts/AuthContext";
 import { useToast } from "@/hooks/use-toast";
 import { format } from "date-fns";
-import { CalendarDays, Calendar as CalendarIcon, Check, X, AlertTriangle, Loader2 } from "lucide-react";
-import { AttendanceRecord } from "@/lib/types";
+import { CalendarDays, Calendar as CalendarIcon, Check, X, AlertTriangle, Loader2, QrCode } from "lucide-react";
+import { AttendancePolicy, AttendanceRecord } from "@/lib/types";
+import { getRepositories } from "@/lib/repositories";
+import { DEFAULT_ATTENDANCE_POLICY, attendanceStanding, fetchAttendancePolicy } from "@/lib/attendance";
+import { StandingBadge } from "@/components/teacher/AttendanceAnalytics";
+import { checkIn } from "@/lib/attendance-sessions";
 
 export const MyAttendance = () => {
   const [attendance, setAttendance] = useState<AttendanceRecord[]>([]);
   const [teachers, setTeachers] = useState<Record<string, string>>({});
   const [courses, setCourses] = useState<Record<string, string>>({});
+  const [policies, setPolicies] = useState<Record<string, AttendancePolicy>>({});
   const [selectedDate, setSelectedDate] = useState<Date>(new Date());
   const [isLoading, setIsLoading] = useState(true);
+  const [checkInCode, setCheckInCode] = useState("");
+  const [isCheckingIn, setIsCheckingIn] = useState(false);
+  const [searchParams, setSearchParams] = useSearchParams();
   const { user } = useAuth();
   const { toast } = useToast();
 
   useEffect(() => {
     if (!user?.id) return;
 
-    const fetchAttendanceRecords = async () => {
-      try {
-        const attendanceRef = query(
-          ref(database, 'attendance'),
-          orderByChild('student_id'),
-          equalTo(user.id)
-        );
-        
-        onValue(attendanceRef, (snapshot) => {
-          const records: AttendanceRecord[] = [];
-          
-          if (snapshot.exists()) {
-            snapshot.forEach((childSnapshot) => {
-              const data = childSnapshot.val();
-              records.push({
-                id: childSnapshot.key || "",
-                courseId: data.course_id || "default",
-                date: data.date,
-                status: data.status,
-                student_id: data.student_id,
-                teacher_id: data.teacher_id,
-              });
-            });
-            
-            // Fetch teacher names
-            const teacherIds = Array.from(new Set(records.filter(record => record.teacher_id).map(record => record.teacher_id || "")));
-            fetchTeachers(teacherIds);
-            
-            // Fetch course names
-            const courseIds = Array.from(new Set(records.filter(record => record.courseId).map(record => record.courseId)));
-            fetchCourses(courseIds);
-          }
-          
-          setAttendance(records);
-          setIsLoading(false);
-        });
-      } catch (error) {
+    const { attendance: attendanceRecords, users, courses: courseRepository } = getRepositories();
+
+    // Names are looked up once per distinct teacher and course
+    const fetchNames = async (records: AttendanceRecord[]) => {
+      const teacherIds = [...new Set(records.map((record) => record.teacher_id).filter(Boolean))];
+      const courseIds = [...new Set(records.map((record) => record.courseId || "default"))];
+
+      const [teacherUsers, courseRecords, coursePolicies] = await Promise.all([
+        Promise.all(teacherIds.map((id) => users.get(id))),
+        Promise.all(courseIds.map((id) => (id === "default" ? null : courseRepository.get(id)))),
+        Promise.all(courseIds.map((id) => (id === "default" ? DEFAULT_ATTENDANCE_POLICY : fetchAttendancePolicy(id)))),
+      ]);
+
+      setTeachers(
+        Object.fromEntries(teacherIds.map((id, index) => [id, teacherUsers[index]?.name || `Teacher ${id.substring(0, 5)}`]))
+      );
+      setCourses(
+        Object.fromEntries(
+          courseIds.map((id, index) => [
+            id,
+            id === "default" ? "General" : courseRecords[index]?.title || "Unknown Course",
+          ])
+        )
+      );
+      setPolicies(Object.fromEntries(courseIds.map((id, index) => [id, coursePolicies[index]])));
+    };
+
+    const unsubscribe = attendanceRecords.subscribeByStudent(user.id, (records) => {
+      setAttendance(records.map((record) => ({ ...record, courseId: record.courseId || "default" })));
+      setIsLoading(false);
+      fetchNames(records).catch((error) => {
         console.error("Error fetching attendance records:", error);
         toast({
           title: "Error",
           description: "Failed to load your attendance records",
           variant: "destructive",
         });
-        setIsLoading(false);
-      }
-    };
-    
-    fetchAttendanceRecords();
-  }, [user?.id, toast]);
-
-  const fetchTeachers = async (teacherIds: string[]) => {
-    if (teacherIds.length === 0) return;
-    
-    const teacherData: Record<string, string> = {};
-    
-    for (const id of teacherIds) {
-      const teacherRef = ref(database, `users/${id}`);
-      
-      onValue(teacherRef, (snapshot) => {
-        if (snapshot.exists()) {
-          const data = snapshot.val();
-          teacherData[id] = data.name || `Teacher ${id.substring(0, 5)}`;
-        }
       });
-    }
-    
-    setTeachers(teacherData);
-  };
+    });
+
+    return () => unsubscribe();
+  }, [user?.id, toast]);
 
-  const fetchCourses = async (courseIds: string[]) => {
-    if (courseIds.length === 0) return;
-    
-    const courseData: Record<string, string> = {};
-    
-    for (const id of courseIds) {
-      if (id === "default") {
-        courseData[id] = "General";
-        continue;
+  const submitCheckIn = useCallback(
+    async (code: string, sessionId?: string) => {
+      if (!user) return;
+      setIsCheckingIn(true);
+      try {
+        const result = await checkIn(code, sessionId);
+        toast({
+          title: "Checked in",
+          description: `You are marked ${result.status} in ${result.course_title} for today`,
+        });
+        setCheckInCode("");
+      } catch (error) {
+        console.error("Error checking in:", error);
+        toast({
+          title: "Check-in failed",
+          description: error instanceof Error ? error.message : "Failed to check in",
+          variant: "destructive",
+        });
+      } finally {
+        setIsCheckingIn(false);
       }
-      
-      const courseRef = ref(database, `courses/${id}`);
-      
-      onValue(courseRef, (snapshot) => {
-        if (snapshot.exists()) {
-          const data = snapshot.val();
-          courseData[id] = data.title || `Course ${id.substring(0, 5)}`;
-        } else {
-          courseData[id] = "Unknown Course";
-        }
-      });
-    }
-    
-    setCourses(courseData);
-  };
+    },
+    [user, toast]
+  );
+
+  // Scanning the teacher's QR code opens this tab with the code in the link
+  useEffect(() => {
+    const code = searchParams.get("code");
+    if (!user?.id || !code) return;
+    const sessionId = searchParams.get("session") || undefined;
+    setSearchParams({}, { replace: true });
+    setCheckInCode(code);
+    submitCheckIn(code, sessionId);
+  }, [user?.id, searchParams, setSearchParams, submitCheckIn]);
 
   const getAttendanceForDate = (date: Date) => {
     const dateString = format(date, 'yyyy-MM-dd');
@@ -150,6 +141,10 @@ export const MyAttendance = () => {
             Late
           </Badge>
         );
+      case "excused":
+        return (
+          <Badge variant="secondary">Excused</Badge>
+        );
       default:
         return (
           <Badge variant="outline">Unknown</Badge>
@@ -158,11 +153,21 @@ export const MyAttendance = () => {
   };
 
   // Get attendance stats
-  const totalDays = attendance.length;
-  const presentDays = attendance.filter(record => record.status === "present").length;
-  const absentDays = attendance.filter(record => record.status === "absent").length;
-  const lateDays = attendance.filter(record => record.status === "late").length;
-  const attendanceRate = totalDays > 0 ? Math.round((presentDays / totalDays) * 100) : 0;
+  const overall = attendanceStanding(attendance, DEFAULT_ATTENDANCE_POLICY);
+  const presentDays = overall.present;
+  const absentDays = overall.absent;
+  const lateDays = overall.late;
+  const attendanceRate = Math.round(overall.rate ?? 0);
+
+  // Standing in each course, counted under that course's policy
+  const courseStandings = Object.keys(courses).map((courseId) => ({
+    courseId,
+    standing: attendanceStanding(
+      attendance.filter((record) => record.courseId === courseId),
+      policies[courseId] || DEFAULT_ATTENDANCE_POLICY
+    ),
+    policy: policies[courseId] || DEFAULT_ATTENDANCE_POLICY,
+  }));
 
   return (
     <div className="space-y-6">
@@ -190,6 +195,37 @@ export const MyAttendance = () => {
         </Popover>
       </div>
 
+      <Card>
+        <CardContent className="pt-6">
+          <form
+            className="flex flex-col sm:flex-row sm:items-center gap-3"
+            onSubmit={(e) => {
+              e.preventDefault();
+              submitCheckIn(checkInCode);
+            }}
+          >
+            <div className="flex items-center gap-2 flex-1">
+              <QrCode className="h-5 w-5 text-muted-foreground" />
+              <p className="text-sm text-muted-foreground">
+                In class? Scan the QR code or enter the check-in code your teacher is showing.
+              </p>
+            </div>
+            <Input
+              value={checkInCode}
+              onChange={(e) => setCheckInCode(e.target.value.replace(/\D/g, ""))}
+              placeholder="Check-in code"
+              inputMode="numeric"
+              maxLength={6}
+              className="sm:w-40 font-mono"
+            />
+            <Button type="submit" disabled={isCheckingIn || checkInCode.length === 0}>
+              {isCheckingIn && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Check In
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
       <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
         <Card>
           <CardContent className="pt-6">
@@ -242,6 +278,33 @@ export const MyAttendance = () => {
         </Card>
       </div>
 
+      {courseStandings.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>By Course</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {courseStandings.map(({ courseId, standing, policy }) => (
+              <div key={courseId} className="flex items-center justify-between p-3 border rounded-md">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium">{courses[courseId]}</p>
+                    <StandingBadge standing={standing} />
+                  </div>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    {standing.effective_absences} of {policy.at_risk_absences} allowed absences used
+                    {policy.lates_per_absence > 0 && ` · every ${policy.lates_per_absence} lates count as an absence`}
+                    {standing.current_streak?.attended && standing.current_streak.length > 1 &&
+                      ` · ${standing.current_streak.length} classes in a row`}
+                  </p>
+                </div>
+                <p className="text-2xl font-bold">{standing.rate === null ? "—" : `${Math.round(standing.rate)}%`}</p>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       <Card>
         <CardHeader>
           <CardTitle>Attendance for {format(selectedDate, 'MMMM d, yyyy')}</CardTitle>
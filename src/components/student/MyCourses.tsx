@@ -3,20 +3,22 @@ import { useAuth } from "@/contexts/AuthContext";
 import { Button } from "@/components/ui/button";
 import { toast } from "sonner";
 import { Loader2, Plus } from "lucide-react";
-import { ref, get, query, orderByChild, equalTo } from "firebase/database";
-import { database } from "@/firebase";
+import { getRepositories } from "@/lib/repositories";
+import { AttendanceRecord, Course, Enrollment } from "@/lib/types";
 import { CourseGrid } from "./CourseGrid";
 import { JoinCourseDialog } from "./JoinCourseDialog";
 import { CourseDetailView } from "./CourseDetailView";
 
+type EnrolledCourse = Enrollment & { course?: Course & { instructor_name: string } };
+
 export const MyCourses = () => {
   const { user } = useAuth();
-  const [enrollments, setEnrollments] = useState<any[]>([]);
+  const [enrollments, setEnrollments] = useState<EnrolledCourse[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [showJoinDialog, setShowJoinDialog] = useState(false);
-  const [selectedCourse, setSelectedCourse] = useState<any>(null);
+  const [selectedCourse, setSelectedCourse] = useState<EnrolledCourse | null>(null);
   const [courseAssignments, setCourseAssignments] = useState<any[]>([]);
-  const [courseAttendance, setCourseAttendance] = useState<any[]>([]);
+  const [courseAttendance, setCourseAttendance] = useState<AttendanceRecord[]>([]);
   
   useEffect(() => {
     const fetchData = async () => {
@@ -28,55 +30,26 @@ export const MyCourses = () => {
       try {
         setIsLoading(true);
         
-        // Get enrollments
-        const enrollmentsRef = query(
-          ref(database, 'enrollments'),
-          orderByChild('student_id'),
-          equalTo(user.id)
-        );
-        
-        const enrollmentsSnapshot = await get(enrollmentsRef);
-        
-        const enrollmentData: any[] = [];
-        
-        if (enrollmentsSnapshot.exists()) {
-          enrollmentsSnapshot.forEach((childSnapshot) => {
-            const data = childSnapshot.val();
-            enrollmentData.push({
-              id: childSnapshot.key,
-              ...data
-            });
-          });
-        }
+        const { enrollments: enrollmentRepository, courses, users } = getRepositories();
+        const enrollmentData = await enrollmentRepository.listByStudent(user.id);
         
         // Fetch course details for each enrollment
         const enrollmentsWithCourses = await Promise.all(
           enrollmentData.map(async (enrollment) => {
-            const courseRef = ref(database, `courses/${enrollment.course_id}`);
-            const courseSnapshot = await get(courseRef);
-            
-            if (courseSnapshot.exists()) {
-              const courseData = courseSnapshot.val();
-              // Get instructor info
-              let instructorName = "Unknown Instructor";
-              if (courseData.instructor_id) {
-                const instructorRef = ref(database, `users/${courseData.instructor_id}`);
-                const instructorSnapshot = await get(instructorRef);
-                if (instructorSnapshot.exists()) {
-                  instructorName = instructorSnapshot.val().name || "Unknown Instructor";
-                }
-              }
-              
-              return {
-                ...enrollment,
-                course: {
-                  id: enrollment.course_id,
-                  ...courseData,
-                  instructor_name: instructorName
-                }
-              };
+            const course = await courses.get(enrollment.course_id);
+            if (!course) {
+              return enrollment;
             }
-            return enrollment;
+
+            // Get instructor info
+            const instructor = course.instructor_id ? await users.get(course.instructor_id) : null;
+            return {
+              ...enrollment,
+              course: {
+                ...course,
+                instructor_name: instructor?.name || "Unknown Instructor"
+              }
+            };
           })
         );
         
@@ -92,51 +65,22 @@ export const MyCourses = () => {
     fetchData();
   }, [user?.id]);
 
-  const handleCourseSelect = async (enrollment: any) => {
+  const handleCourseSelect = async (enrollment: EnrolledCourse) => {
     setSelectedCourse(enrollment);
+    if (!user) return;
     
     // Fetch assignments for this course
     try {
-      const assignmentsRef = query(
-        ref(database, 'assignments'),
-        orderByChild('course_id'),
-        equalTo(enrollment.course.id)
-      );
-      
-      const assignmentsSnapshot = await get(assignmentsRef);
-      const assignmentsData: any[] = [];
-      
-      if (assignmentsSnapshot.exists()) {
-        assignmentsSnapshot.forEach((childSnapshot) => {
-          assignmentsData.push({
-            id: childSnapshot.key,
-            ...childSnapshot.val()
-          });
-        });
-      }
-      
-      // Get submissions for each assignment
-      const submissionsRef = query(
-        ref(database, 'submissions'),
-        orderByChild('user_id'),
-        equalTo(user?.id)
-      );
-      
-      const submissionsSnapshot = await get(submissionsRef);
-      const submissions: any[] = [];
-      
-      if (submissionsSnapshot.exists()) {
-        submissionsSnapshot.forEach((childSnapshot) => {
-          submissions.push({
-            id: childSnapshot.key,
-            ...childSnapshot.val()
-          });
-        });
-      }
+      const { assignments, submissions, attendance } = getRepositories();
+      const [assignmentsData, userSubmissions, attendanceRecords] = await Promise.all([
+        assignments.listByCourse(enrollment.course.id),
+        submissions.listByUser(user.id),
+        attendance.listByStudent(user.id),
+      ]);
       
       // Attach submissions to assignments
       const assignmentsWithSubmissions = assignmentsData.map(assignment => {
-        const submission = submissions.find(s => s.assignment_id === assignment.id);
+        const submission = userSubmissions.find(s => s.assignment_id === assignment.id);
         return {
           ...assignment,
           submitted: !!submission,
@@ -146,28 +90,8 @@ export const MyCourses = () => {
       
       setCourseAssignments(assignmentsWithSubmissions);
       
-      // Fetch attendance for this course
-      const attendanceRef = query(
-        ref(database, 'attendance'),
-        orderByChild('student_id'),
-        equalTo(user?.id)
-      );
-      
-      const attendanceSnapshot = await get(attendanceRef);
-      const attendanceData: any[] = [];
-      
-      if (attendanceSnapshot.exists()) {
-        attendanceSnapshot.forEach((childSnapshot) => {
-          const data = childSnapshot.val();
-          if (data.course_id === enrollment.course.id) {
-            attendanceData.push({
-              id: childSnapshot.key,
-              ...data
-            });
-          }
-        });
-      }
-      
+      // Attendance for this course
+      const attendanceData = attendanceRecords.filter((record) => record.courseId === enrollment.course.id);
       setCourseAttendance(attendanceData);
       
     } catch (error) {
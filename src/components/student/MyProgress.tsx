@@ -1,5 +1,5 @@
 
-import React, { useState } from "react";
+import React, { useState, useEffect } from "react";
 import { useAuth } from "@/contexts/AuthContext";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
@@ -17,11 +17,36 @@ import {
   TrendingUp,
   BookOpen
 } from "lucide-react";
+import { fetchUserXP } from "./utils/xp-utils";
+import { CourseStanding, fetchCourseStandings } from "./utils/grade-utils";
+
+const XP_PER_LEVEL = 200;
 
 export const MyProgress = () => {
   const { user } = useAuth();
   const [timeframe, setTimeframe] = useState("weekly");
   const [selectedSkill, setSelectedSkill] = useState("Web Development");
+  const [totalXP, setTotalXP] = useState(0);
+  const [courseStandings, setCourseStandings] = useState<CourseStanding[]>([]);
+
+  useEffect(() => {
+    if (!user?.id) return;
+
+    fetchUserXP(user.id)
+      .then((entries) => setTotalXP(entries.reduce((sum, entry) => sum + entry.xp_amount, 0)))
+      .catch((error) => console.error("Error fetching XP:", error));
+
+    fetchCourseStandings(user.id)
+      .then(setCourseStandings)
+      .catch((error) => console.error("Error fetching grades:", error));
+  }, [user?.id]);
+
+  const level = Math.floor(totalXP / XP_PER_LEVEL) + 1;
+  const xpIntoLevel = totalXP % XP_PER_LEVEL;
+
+  const submittedTasks = courseStandings.reduce((sum, course) => sum + course.standing.submitted, 0);
+  const totalTasks = courseStandings.reduce((sum, course) => sum + course.standing.total, 0);
+  const completedPercent = totalTasks > 0 ? Math.round((submittedTasks / totalTasks) * 100) : 0;
 
   // Mock data for charts - restructured to match the expected format
   const activityData = {
@@ -37,17 +62,6 @@ export const MyProgress = () => {
     ]
   };
 
-  const courseProgressData = {
-    labels: ["Web Dev", "Python", "Database", "UI/UX", "Mobile App"],
-    datasets: [
-      {
-        label: "Completion",
-        data: [75, 45, 90, 30, 60],
-        backgroundColor: "#8b5cf6"
-      }
-    ]
-  };
-
   const timeDistributionData = {
     labels: ["Watching Videos", "Reading Materials", "Assignments", "Quizzes", "Forums"],
     datasets: [
@@ -122,9 +136,9 @@ export const MyProgress = () => {
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
         <ProgressStatCard 
           title="XP Level" 
-          value="Level 15" 
-          detail="2,540 / 3,000 XP"
-          progress={84}
+          value={`Level ${level}`} 
+          detail={`${xpIntoLevel} / ${XP_PER_LEVEL} XP to next level`}
+          progress={Math.round((xpIntoLevel / XP_PER_LEVEL) * 100)}
           icon={<Trophy className="h-5 w-5 text-primary" />}
         />
         <ProgressStatCard 
@@ -136,9 +150,9 @@ export const MyProgress = () => {
         />
         <ProgressStatCard 
           title="Completed Tasks" 
-          value="75%" 
-          detail="45/60 assignments"
-          progress={75}
+          value={`${completedPercent}%`} 
+          detail={`${submittedTasks}/${totalTasks} assignments`}
+          progress={completedPercent}
           icon={<CheckCircle2 className="h-5 w-5 text-primary" />}
         />
       </div>
@@ -231,10 +245,47 @@ export const MyProgress = () => {
             <CardTitle className="text-lg">Course Progress</CardTitle>
           </CardHeader>
           <CardContent>
-            {/* Placeholder for Course Progress Chart */}
-            <div className="h-[250px] flex items-center justify-center border rounded-md p-4 bg-slate-50 dark:bg-slate-900">
-              <p className="text-muted-foreground">Course Progress Chart</p>
-            </div>
+            {courseStandings.length === 0 ? (
+              <div className="h-[250px] flex items-center justify-center border rounded-md p-4 bg-slate-50 dark:bg-slate-900">
+                <p className="text-muted-foreground">Join a course to see your grades here</p>
+              </div>
+            ) : (
+              <div className="space-y-4 max-h-[250px] overflow-y-auto">
+                {courseStandings.map(({ course_id, course_title, standing }) => {
+                  const overrides = standing.categories
+                    .flatMap((category) => category.items)
+                    .filter((item) => item.override);
+                  return (
+                    <div key={course_id} className="space-y-1">
+                      <div className="flex justify-between items-center">
+                        <p className="font-medium">{course_title}</p>
+                        <div className="flex items-center gap-2">
+                          {standing.letter && <Badge variant="outline">{standing.letter}</Badge>}
+                          <span>{standing.percent === null ? "No grades yet" : `${standing.percent.toFixed(1)}%`}</span>
+                        </div>
+                      </div>
+                      <Progress value={standing.percent ?? 0} className="h-2" />
+                      <p className="text-xs text-muted-foreground">
+                        {standing.categories
+                          .filter((category) => category.percent !== null)
+                          .map((category) => `${category.category.name} ${category.percent!.toFixed(0)}%`)
+                          .join(" · ") || `${standing.submitted}/${standing.total} assignments submitted`}
+                      </p>
+                      {standing.final_override && (
+                        <p className="text-xs text-muted-foreground">
+                          Final grade set by your teacher: {standing.final_override.reason}
+                        </p>
+                      )}
+                      {overrides.map((item) => (
+                        <p key={item.assignment.id} className="text-xs text-muted-foreground">
+                          {item.assignment.title} adjusted to {item.earned}/{item.possible}: {item.override!.reason}
+                        </p>
+                      ))}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
           </CardContent>
         </Card>
       </div>
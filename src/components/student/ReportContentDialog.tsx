@@ -0,0 +1,64 @@
+import React, { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/contexts/AuthContext";
+import { ReportTarget, reportContent } from "@/lib/forum";
+
+interface ReportContentDialogProps {
+  target: ReportTarget | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const ReportContentDialog: React.FC<ReportContentDialogProps> = ({ target, onOpenChange }) => {
+  const { user } = useAuth();
+  const [reason, setReason] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async () => {
+    if (!user || !target || !reason.trim()) return;
+
+    setSubmitting(true);
+    try {
+      const created = await reportContent(target, user, reason);
+      if (created) {
+        toast.success("Thanks, a moderator will review this");
+      } else {
+        toast.info("You have already reported this");
+      }
+      setReason("");
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error reporting content:", error);
+      toast.error("Failed to send report");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={target !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Report {target?.type === "comment" ? "Comment" : "Thread"}</DialogTitle>
+          <DialogDescription>Tell the course moderators what is wrong with this post.</DialogDescription>
+        </DialogHeader>
+        <Textarea
+          placeholder="Reason for reporting"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          rows={4}
+        />
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSubmit} disabled={submitting || !reason.trim()}>
+            {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Send Report
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
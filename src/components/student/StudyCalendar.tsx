@@ -0,0 +1,180 @@
+import React, { useState } from "react";
+import { format, isSameMonth, isToday } from "date-fns";
+import { AlertTriangle, Check, Repeat } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { StudyPlanItem } from "@/lib/types";
+import {
+  CalendarView,
+  StudyDeadline,
+  calendarDays,
+  deadlinesOnDay,
+  isOverdue,
+  itemsOnDay,
+} from "./utils/study-calendar-utils";
+
+interface StudyCalendarProps {
+  view: CalendarView;
+  anchor: Date;
+  items: StudyPlanItem[];
+  deadlines: StudyDeadline[];
+  conflicts: Record<string, string[]>;
+  onMove: (item: StudyPlanItem, day: Date) => void;
+  onToggleCompleted: (item: StudyPlanItem) => void;
+  onOpen: (item: StudyPlanItem) => void;
+  onSelectDay: (day: Date) => void;
+}
+
+const MONTH_VISIBLE_ITEMS = 3;
+
+const WEEKDAY_LABELS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+interface TaskChipProps {
+  item: StudyPlanItem;
+  compact: boolean;
+  conflicts?: string[];
+  onToggleCompleted: (item: StudyPlanItem) => void;
+  onOpen: (item: StudyPlanItem) => void;
+}
+
+const TaskChip: React.FC<TaskChipProps> = ({ item, compact, conflicts, onToggleCompleted, onOpen }) => {
+  const overdue = isOverdue(item, new Date());
+
+  return (
+    <div
+      draggable
+      onDragStart={(e) => {
+        e.dataTransfer.setData("text/plain", item.id);
+        e.dataTransfer.effectAllowed = "move";
+      }}
+      onClick={() => onOpen(item)}
+      title={conflicts?.join("\n")}
+      className={cn(
+        "flex items-start gap-1.5 rounded border px-1.5 py-1 text-xs cursor-grab active:cursor-grabbing bg-background",
+        item.is_completed && "border-green-200 bg-green-50 dark:bg-green-900/10 text-muted-foreground",
+        overdue && "border-red-300",
+        conflicts && !item.is_completed && "border-amber-400"
+      )}
+    >
+      <button
+        type="button"
+        aria-label={item.is_completed ? "Mark as not done" : "Mark as done"}
+        className={cn(
+          "mt-0.5 h-3.5 w-3.5 flex-shrink-0 rounded-full flex items-center justify-center",
+          item.is_completed ? "bg-green-500" : "border border-muted-foreground/50"
+        )}
+        onClick={(e) => {
+          e.stopPropagation();
+          onToggleCompleted(item);
+        }}
+      >
+        {item.is_completed && <Check className="h-2.5 w-2.5 text-white" />}
+      </button>
+      <div className="min-w-0 flex-1">
+        <div className={cn("font-medium truncate", item.is_completed && "line-through")}>{item.title}</div>
+        {!compact && (
+          <div className="text-muted-foreground truncate">
+            {format(new Date(item.due_date), "HH:mm")} • {item.duration_minutes} min
+            {item.course && ` • ${item.course}`}
+          </div>
+        )}
+      </div>
+      {item.recurrence_id && <Repeat className="h-3 w-3 flex-shrink-0 text-muted-foreground" />}
+      {conflicts && !item.is_completed && <AlertTriangle className="h-3 w-3 flex-shrink-0 text-amber-500" />}
+    </div>
+  );
+};
+
+export const StudyCalendar: React.FC<StudyCalendarProps> = ({
+  view,
+  anchor,
+  items,
+  deadlines,
+  conflicts,
+  onMove,
+  onToggleCompleted,
+  onOpen,
+  onSelectDay,
+}) => {
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const days = calendarDays(anchor, view);
+  const compact = view === "month";
+
+  const handleDrop = (e: React.DragEvent, day: Date) => {
+    e.preventDefault();
+    setDropTarget(null);
+    const item = items.find((candidate) => candidate.id === e.dataTransfer.getData("text/plain"));
+    if (item) {
+      onMove(item, day);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-7 border-l border-t rounded-md overflow-hidden">
+      {WEEKDAY_LABELS.map((label) => (
+        <div key={label} className="border-r border-b bg-muted/50 px-2 py-1 text-xs font-medium text-muted-foreground">
+          {label}
+        </div>
+      ))}
+
+      {days.map((day) => {
+        const key = format(day, "yyyy-MM-dd");
+        const dayItems = itemsOnDay(items, day);
+        const visible = compact ? dayItems.slice(0, MONTH_VISIBLE_ITEMS) : dayItems;
+
+        return (
+          <div
+            key={key}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setDropTarget(key);
+            }}
+            onDragLeave={() => setDropTarget((current) => (current === key ? null : current))}
+            onDrop={(e) => handleDrop(e, day)}
+            className={cn(
+              "border-r border-b p-1.5 space-y-1",
+              compact ? "min-h-24" : "min-h-64",
+              view === "month" && !isSameMonth(day, anchor) && "bg-muted/30",
+              dropTarget === key && "bg-primary/10"
+            )}
+          >
+            <button
+              type="button"
+              onClick={() => onSelectDay(day)}
+              className={cn(
+                "text-xs font-medium w-6 h-6 flex items-center justify-center rounded-full hover:bg-muted",
+                isToday(day) && "bg-primary text-primary-foreground hover:bg-primary"
+              )}
+            >
+              {format(day, "d")}
+            </button>
+
+            {deadlinesOnDay(deadlines, day).map((deadline) => (
+              <div
+                key={deadline.id}
+                className="rounded bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 px-1.5 py-0.5 text-xs truncate"
+                title={deadline.course ? `${deadline.title} (${deadline.course})` : deadline.title}
+              >
+                Due: {deadline.title}
+              </div>
+            ))}
+
+            {visible.map((item) => (
+              <TaskChip
+                key={item.id}
+                item={item}
+                compact={compact}
+                conflicts={conflicts[item.id]}
+                onToggleCompleted={onToggleCompleted}
+                onOpen={onOpen}
+              />
+            ))}
+
+            {dayItems.length > visible.length && (
+              <div className="text-xs text-muted-foreground px-1">+{dayItems.length - visible.length} more</div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
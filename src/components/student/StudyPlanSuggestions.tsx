@@ -0,0 +1,182 @@
+import React, { useState } from "react";
+import { format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Check, Clock, Pencil, X } from "lucide-react";
+import { SuggestedStudyItem } from "../../../supabase/functions/_shared/study-plan";
+
+export interface StudySuggestion extends SuggestedStudyItem {
+  key: string;
+}
+
+interface StudyPlanSuggestionsProps {
+  suggestions: StudySuggestion[];
+  source: string;
+  onAccept: (suggestion: StudySuggestion) => void;
+  onReject: (key: string) => void;
+  onChange: (suggestion: StudySuggestion) => void;
+  onAcceptAll: () => void;
+  onDismiss: () => void;
+}
+
+const SuggestionEditor: React.FC<{
+  suggestion: StudySuggestion;
+  onSave: (suggestion: StudySuggestion) => void;
+  onCancel: () => void;
+}> = ({ suggestion, onSave, onCancel }) => {
+  const [draft, setDraft] = useState(suggestion);
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1">
+        <Label htmlFor={`title-${suggestion.key}`}>Title</Label>
+        <Input
+          id={`title-${suggestion.key}`}
+          value={draft.title}
+          onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+        />
+      </div>
+      <div className="grid grid-cols-3 gap-2">
+        <div className="space-y-1">
+          <Label htmlFor={`date-${suggestion.key}`}>Date</Label>
+          <Input
+            id={`date-${suggestion.key}`}
+            type="date"
+            value={draft.date}
+            onChange={(e) => setDraft({ ...draft, date: e.target.value })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`time-${suggestion.key}`}>Start</Label>
+          <Input
+            id={`time-${suggestion.key}`}
+            type="time"
+            value={draft.start_time}
+            onChange={(e) => setDraft({ ...draft, start_time: e.target.value })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`duration-${suggestion.key}`}>Minutes</Label>
+          <Input
+            id={`duration-${suggestion.key}`}
+            type="number"
+            min="5"
+            step="5"
+            value={draft.duration_minutes}
+            onChange={(e) => setDraft({ ...draft, duration_minutes: parseInt(e.target.value) || 0 })}
+          />
+        </div>
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button size="sm" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button
+          size="sm"
+          disabled={!draft.title.trim() || !draft.date || !draft.start_time || draft.duration_minutes <= 0}
+          onClick={() => onSave({ ...draft, title: draft.title.trim() })}
+        >
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export const StudyPlanSuggestions: React.FC<StudyPlanSuggestionsProps> = ({
+  suggestions,
+  source,
+  onAccept,
+  onReject,
+  onChange,
+  onAcceptAll,
+  onDismiss,
+}) => {
+  const [editing, setEditing] = useState<string | null>(null);
+
+  return (
+    <Card className="border-primary/40">
+      <CardHeader>
+        <div className="flex justify-between items-start gap-4">
+          <div>
+            <CardTitle>Suggested Plan</CardTitle>
+            <CardDescription>
+              {source === "heuristic"
+                ? "Scheduled from your deadlines and modules (no AI model is configured)"
+                : `Generated by ${source} from your deadlines and modules`}
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" onClick={onDismiss}>
+              Discard
+            </Button>
+            <Button size="sm" onClick={onAcceptAll} disabled={suggestions.length === 0}>
+              Accept All
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {suggestions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Nothing to schedule: no open deadlines or unfinished modules were found.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {suggestions.map((suggestion) => (
+              <div key={suggestion.key} className="p-4 border rounded-lg">
+                {editing === suggestion.key ? (
+                  <SuggestionEditor
+                    suggestion={suggestion}
+                    onCancel={() => setEditing(null)}
+                    onSave={(updated) => {
+                      onChange(updated);
+                      setEditing(null);
+                    }}
+                  />
+                ) : (
+                  <div className="flex items-center justify-between gap-4">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <h4 className="font-medium">{suggestion.title}</h4>
+                        <Badge variant="outline">{suggestion.type}</Badge>
+                      </div>
+                      <p className="text-sm text-muted-foreground">{suggestion.course}</p>
+                      <div className="flex items-center gap-1 mt-1 text-sm text-muted-foreground">
+                        <Clock className="h-3.5 w-3.5" />
+                        {format(new Date(`${suggestion.date}T00:00:00`), "EEE, MMM d")} at {suggestion.start_time} •{" "}
+                        {suggestion.duration_minutes} min
+                      </div>
+                      {suggestion.description && (
+                        <p className="text-xs text-muted-foreground mt-1">{suggestion.description}</p>
+                      )}
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="text-green-600 border-green-200"
+                        onClick={() => onAccept(suggestion)}
+                      >
+                        <Check className="h-4 w-4" />
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => setEditing(suggestion.key)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => onReject(suggestion.key)}>
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
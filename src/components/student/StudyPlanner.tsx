@@ -1,467 +1,580 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo, useRef } from "react";
 import { useAuth } from "@/contexts/AuthContext";
-import { Card, CardContent, CardHeader, CardTitle, CardFooter } from "@/components/ui/card";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
-import { 
-  Calendar as CalendarIcon, 
-  Clock, 
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Calendar as CalendarIcon,
+  ChevronLeft,
+  ChevronRight,
+  Clock,
   BookOpen,
-  Check,
   Plus,
   RotateCw,
   FileText,
-  Trash2,
-  Bot
+  Bot,
+  Loader2,
+  AlertTriangle,
+  CalendarClock,
+  Share2
 } from "lucide-react";
-import { format } from "date-fns";
-import { cn } from "@/lib/utils";
+import { addMonths, addWeeks, endOfWeek, format, startOfWeek } from "date-fns";
 import { toast } from "sonner";
-import { db } from "../../firebase.js"; // Adjust the import path
-import { collection, query, where, getDocs, doc, updateDoc, deleteDoc, addDoc } from "firebase/firestore";
-
-interface StudyPlanTask {
-  id: string;
-  title: string;
-  course: string;
-  time: string;
-  duration: number;
-  completed: boolean;
-  user_id: string;
-  created_at: string;
-}
-
-interface CourseGroup {
-  title: string;
-  tasks: StudyPlanTask[];
-}
+import { v4 as uuidv4 } from "uuid";
+import { StudyPlan, StudyPlanItem } from "@/lib/types";
+import { StudyPlanSuggestions, StudySuggestion } from "./StudyPlanSuggestions";
+import { StudyCalendar } from "./StudyCalendar";
+import { StudyTaskDialog, StudyTaskFormValues } from "./StudyTaskDialog";
+import { CalendarExportDialog } from "./CalendarExportDialog";
+import {
+  NewStudyPlanItem,
+  addStudyPlanItems,
+  createStudyPlan,
+  deleteStudyPlanItems,
+  fetchStudyPlanContext,
+  fetchStudyPlans,
+  generateStudyPlan,
+  getDefaultStudyPlan,
+  rescheduleStudyPlanItems,
+  setStudyPlanItemCompleted,
+  updateStudyPlanItem,
+} from "./utils/study-plan-utils";
+import {
+  CalendarView,
+  StudyDeadline,
+  findConflicts,
+  isOverdue,
+  moveToDay,
+  planRollover,
+  recurrenceDates,
+} from "./utils/study-calendar-utils";
+import { fetchStudentAssignments } from "./utils/assignment-utils";
+import { MAX_PLAN_DAYS } from "../../../supabase/functions/_shared/study-plan";
 
 export const StudyPlanner = () => {
-  const { user, isAuthenticated } = useAuth();
-  const [date, setDate] = useState<Date | undefined>(new Date());
-  const [studyPlanData, setStudyPlanData] = useState<CourseGroup[]>([]);
+  const { user } = useAuth();
+  const [date, setDate] = useState<Date>(new Date());
+  const [view, setView] = useState<CalendarView>("week");
+  const [plans, setPlans] = useState<StudyPlan[]>([]);
+  const [items, setItems] = useState<StudyPlanItem[]>([]);
+  const [deadlines, setDeadlines] = useState<StudyDeadline[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [taskDialogOpen, setTaskDialogOpen] = useState(false);
+  const [editedItem, setEditedItem] = useState<StudyPlanItem | null>(null);
+  const [exportDialogOpen, setExportDialogOpen] = useState(false);
+  const [hoursPerDay, setHoursPerDay] = useState("2");
+  const [planDays, setPlanDays] = useState("7");
+  const [dayStart, setDayStart] = useState("16:00");
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [suggestions, setSuggestions] = useState<StudySuggestion[] | null>(null);
+  const [suggestionSource, setSuggestionSource] = useState("");
+  // Suggestions accepted from one generated plan all go into the same StudyPlan
+  const generatedPlan = useRef<Promise<StudyPlan> | null>(null);
 
-  // Fetch study plan data from Firestore
-  const fetchStudyPlan = async () => {
-    if (!isAuthenticated || !user) return;
+  useEffect(() => {
+    if (!user) return;
+
+    const loadPlanner = async () => {
+      try {
+        const [loaded, assignments] = await Promise.all([
+          fetchStudyPlans(user.id),
+          fetchStudentAssignments(user.id),
+        ]);
+        setPlans(loaded.plans);
+        setItems(loaded.items);
+        setDeadlines(
+          assignments
+            .filter((assignment) => !assignment.submitted && assignment.due_date)
+            .map((assignment) => ({
+              id: assignment.id,
+              title: assignment.title,
+              course: assignment.course_name,
+              due_date: assignment.due_date!,
+            }))
+        );
+      } catch (error) {
+        console.error("Error fetching study plan:", error);
+        toast.error("Failed to fetch study plan");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadPlanner();
+  }, [user]);
+
+  const conflicts = useMemo(() => findConflicts(items, deadlines), [items, deadlines]);
+  const conflictCount = Object.keys(conflicts).length;
+  const overdueCount = items.filter((item) => isOverdue(item, new Date())).length;
+
+  const applyMoves = (moves: { id: string; due_date: string }[]) => {
+    const byId = new Map(moves.map((move) => [move.id, move.due_date]));
+    setItems((prev) => prev.map((item) => (byId.has(item.id) ? { ...item, due_date: byId.get(item.id)! } : item)));
+  };
+
+  const addItems = async (plan: StudyPlan, newItems: NewStudyPlanItem[]) => {
+    const added = await addStudyPlanItems(plan, newItems);
+    setItems((prev) => [...prev, ...added]);
+    setPlans((prev) => (prev.some((p) => p.id === plan.id) ? prev : [...prev, plan]));
+    return added;
+  };
+
+  const handleMove = async (item: StudyPlanItem, day: Date) => {
+    const due_date = moveToDay(item, day).toISOString();
+    if (due_date === item.due_date) return;
+
+    applyMoves([{ id: item.id, due_date }]);
+    try {
+      await rescheduleStudyPlanItems([{ id: item.id, due_date }]);
+      toast.success(`Moved to ${format(day, "EEE, MMM d")}`);
+    } catch (error) {
+      applyMoves([{ id: item.id, due_date: item.due_date }]);
+      console.error("Error rescheduling task:", error);
+      toast.error("Failed to move task");
+    }
+  };
 
+  const handleToggleCompleted = async (item: StudyPlanItem) => {
+    const completed = !item.is_completed;
     try {
-      const querySnapshot = await getDocs(
-        query(
-          collection(db, "study_plans"),
-          where("user_id", "==", user.id) // Change from user.uid to user.id
+      await setStudyPlanItemCompleted(item.id, completed);
+      setItems((prev) =>
+        prev.map((existing) =>
+          existing.id === item.id
+            ? { ...existing, is_completed: completed, completed_at: completed ? new Date().toISOString() : undefined }
+            : existing
         )
       );
-
-      const tasks = querySnapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data()
-      })) as StudyPlanTask[];
-
-      // Group tasks by course
-      const groupedData = tasks.reduce<CourseGroup[]>((acc, task) => {
-        const course = acc.find(c => c.title === task.course);
-        if (course) {
-          course.tasks.push(task);
-        } else {
-          acc.push({ title: task.course, tasks: [task] });
-        }
-        return acc;
-      }, []);
-
-      setStudyPlanData(groupedData);
+      toast.success(completed ? "Task completed!" : "Task marked as incomplete");
     } catch (error) {
-      console.error("Error fetching study plan:", error);
-      toast.error("Failed to fetch study plan");
-    } finally {
-      setIsLoading(false);
+      console.error("Error toggling task completion:", error);
+      toast.error("Failed to update task");
     }
   };
 
-  useEffect(() => {
-    fetchStudyPlan();
-  }, [isAuthenticated, user]);
-
-  // Add a new task to Firestore
-  const addTask = async (formData: { title: string; course: string; time: string; duration: string }) => {
-    if (!isAuthenticated || !user) {
-      toast.error("Please login to add a task");
+  const handleRollover = async () => {
+    const moves = planRollover(items, new Date());
+    if (moves.length === 0) {
+      toast.error("No free slots found for your overdue tasks");
       return;
     }
-
     try {
-      const { title, course, time, duration } = formData;
-      const newTask = {
-        user_id: user.id, // Change from user.uid to user.id
-        course,
-        title,
-        duration: parseInt(duration),
-        time,
-        completed: false,
-        created_at: new Date().toISOString()
-      };
-
-      const docRef = await addDoc(collection(db, "study_plans"), newTask);
-      toast.success("Task added successfully!");
-
-      // Update local state
-      setStudyPlanData(prevData => {
-        const courseIndex = prevData.findIndex(c => c.title === course);
-        if (courseIndex !== -1) {
-          const updatedCourse = {
-            ...prevData[courseIndex],
-            tasks: [...prevData[courseIndex].tasks, { id: docRef.id, ...newTask }]
-          };
-          return [...prevData.slice(0, courseIndex), updatedCourse, ...prevData.slice(courseIndex + 1)];
-        } else {
-          return [...prevData, { title: course, tasks: [{ id: docRef.id, ...newTask }] }];
-        }
-      });
+      await rescheduleStudyPlanItems(moves);
+      applyMoves(moves);
+      toast.success(`Rolled ${moves.length} overdue task${moves.length === 1 ? "" : "s"} over to the next free slots`);
     } catch (error) {
-      console.error("Error adding task:", error);
-      toast.error("Failed to add task");
+      console.error("Error rolling over tasks:", error);
+      toast.error("Failed to reschedule overdue tasks");
     }
   };
 
-  // Add the missing toggleTaskCompletion function
-  const toggleTaskCompletion = async (courseId: string, taskId: string) => {
+  const openTaskDialog = (item: StudyPlanItem | null) => {
+    setEditedItem(item);
+    setTaskDialogOpen(true);
+  };
+
+  // Resolves to whether the dialog can close
+  const handleSubmitTask = async (values: StudyTaskFormValues) => {
+    if (!user) return false;
+    const fields = {
+      title: values.title,
+      course: values.course || undefined,
+      description: values.description || undefined,
+      duration_minutes: values.duration_minutes,
+      type: values.type,
+    };
+
     try {
-      const courseIndex = studyPlanData.findIndex(c => c.title === courseId);
-      if (courseIndex === -1) return;
-      
-      const taskIndex = studyPlanData[courseIndex].tasks.findIndex(t => t.id === taskId);
-      if (taskIndex === -1) return;
-      
-      const task = studyPlanData[courseIndex].tasks[taskIndex];
-      const newCompletedStatus = !task.completed;
-      
-      // Update in Firestore
-      await updateDoc(doc(db, "study_plans", taskId), {
-        completed: newCompletedStatus
-      });
-      
-      // Update local state
-      setStudyPlanData(prevData => {
-        const newData = [...prevData];
-        newData[courseIndex] = {
-          ...newData[courseIndex],
-          tasks: [
-            ...newData[courseIndex].tasks.slice(0, taskIndex),
-            { ...task, completed: newCompletedStatus },
-            ...newData[courseIndex].tasks.slice(taskIndex + 1)
-          ]
+      if (editedItem) {
+        // Empty strings rather than undefined, so cleared fields are saved
+        const changes = {
+          ...fields,
+          course: values.course,
+          description: values.description,
+          due_date: values.start.toISOString(),
         };
-        return newData;
-      });
-      
-      toast.success(newCompletedStatus ? "Task completed!" : "Task marked as incomplete");
+        await updateStudyPlanItem(editedItem.id, changes);
+        setItems((prev) => prev.map((item) => (item.id === editedItem.id ? { ...item, ...changes } : item)));
+        toast.success("Task updated");
+        return true;
+      }
+
+      const recurrenceId = values.weekdays.length > 0 ? uuidv4() : undefined;
+      const starts = recurrenceDates(values.start, values.weekdays, values.until);
+      if (starts.length === 0) {
+        toast.error("The repeat days never fall within the chosen dates");
+        return false;
+      }
+
+      const plan = await getDefaultStudyPlan(user.id, plans);
+      await addItems(
+        plan,
+        starts.map((start) => ({ ...fields, due_date: start.toISOString(), recurrence_id: recurrenceId }))
+      );
+      toast.success(starts.length === 1 ? "Task added successfully!" : `Added ${starts.length} recurring tasks`);
+      return true;
     } catch (error) {
-      console.error("Error toggling task completion:", error);
-      toast.error("Failed to update task");
+      console.error("Error saving task:", error);
+      toast.error("Failed to save task");
+      return false;
     }
   };
-  
-  // Add the missing deleteTask function
-  const deleteTask = async (courseId: string, taskId: string) => {
+
+  // Deleting a series removes this occurrence and every later unfinished one,
+  // so finished sessions stay in the history
+  const handleDeleteTask = async (item: StudyPlanItem, wholeSeries: boolean) => {
+    const ids = wholeSeries
+      ? items
+          .filter(
+            (other) =>
+              other.recurrence_id === item.recurrence_id && !other.is_completed && other.due_date >= item.due_date
+          )
+          .map((other) => other.id)
+      : [item.id];
+
     try {
-      // Delete from Firestore
-      await deleteDoc(doc(db, "study_plans", taskId));
-      
-      // Update local state
-      setStudyPlanData(prevData => {
-        const courseIndex = prevData.findIndex(c => c.title === courseId);
-        if (courseIndex === -1) return prevData;
-        
-        const newTasks = prevData[courseIndex].tasks.filter(t => t.id !== taskId);
-        
-        if (newTasks.length === 0) {
-          // Remove the course if it has no more tasks
-          return prevData.filter(c => c.title !== courseId);
-        }
-        
-        const newData = [...prevData];
-        newData[courseIndex] = {
-          ...newData[courseIndex],
-          tasks: newTasks
-        };
-        return newData;
-      });
-      
-      toast.success("Task deleted successfully");
+      await deleteStudyPlanItems(ids);
+      setItems((prev) => prev.filter((other) => !ids.includes(other.id)));
+      toast.success(ids.length === 1 ? "Task deleted successfully" : `Deleted ${ids.length} tasks`);
+      return true;
     } catch (error) {
       console.error("Error deleting task:", error);
       toast.error("Failed to delete task");
+      return false;
     }
   };
 
-  // Handle form submission for adding a new task
-  const handleFormSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
-    e.preventDefault(); // Prevent the default form submission behavior
-
-    // Get form data
-    const formData = new FormData(e.currentTarget);
-    const formValues = {
-      title: formData.get('task-title') as string,
-      course: formData.get('course') as string,
-      time: formData.get('time') as string,
-      duration: formData.get('duration') as string
-    };
+  // Builds the plan from the student's enrollments, open deadlines and
+  // unfinished AI-course modules, starting on the selected date
+  const handleGeneratePlan = async () => {
+    if (!user) return;
 
-    // Validate form fields
-    if (!formValues.title || !formValues.course || !formValues.time || !formValues.duration) {
-      toast.error("Please fill out all fields");
+    const hours = parseFloat(hoursPerDay);
+    const days = parseInt(planDays);
+    if (!(hours > 0) || !(days > 0)) {
+      toast.error("Enter how many hours and days you want to plan");
       return;
     }
 
-    // Add the task to Firestore
-    await addTask(formValues);
+    setIsGenerating(true);
+    try {
+      const context = await fetchStudyPlanContext(user.id, {
+        startDate: date,
+        days: Math.min(days, MAX_PLAN_DAYS),
+        hoursPerDay: Math.min(hours, 12),
+        dayStart,
+      });
+      const plan = await generateStudyPlan(context);
+      generatedPlan.current = null;
+      setSuggestions(plan.items.map((item, index) => ({ ...item, key: `${index}-${item.date}-${item.start_time}` })));
+      setSuggestionSource(plan.source);
+    } catch (error) {
+      console.error("Error generating study plan:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to generate study plan");
+    } finally {
+      setIsGenerating(false);
+    }
+  };
 
-    // Reset the form
-    (e.target as HTMLFormElement).reset();
+  const getGeneratedPlan = (accepted: StudySuggestion[]) => {
+    if (!generatedPlan.current && user) {
+      const days = accepted.map((suggestion) => suggestion.date).sort();
+      generatedPlan.current = createStudyPlan(user.id, {
+        title: `Generated plan from ${format(date, "MMM d")}`,
+        description: suggestionSource === "heuristic" ? "Heuristic schedule" : `Generated by ${suggestionSource}`,
+        start_date: days[0],
+        end_date: days[days.length - 1],
+        is_ai_generated: true,
+      });
+      // A failed create is retried on the next accept
+      generatedPlan.current.catch(() => {
+        generatedPlan.current = null;
+      });
+    }
+    return generatedPlan.current!;
   };
 
+  const acceptSuggestions = async (accepted: StudySuggestion[]) => {
+    try {
+      const plan = await getGeneratedPlan(accepted);
+      await addItems(
+        plan,
+        accepted.map((suggestion) => ({
+          title: suggestion.title,
+          course: suggestion.course,
+          description: suggestion.description,
+          due_date: new Date(`${suggestion.date}T${suggestion.start_time}:00`).toISOString(),
+          duration_minutes: suggestion.duration_minutes,
+          type: suggestion.type,
+          source_id: suggestion.source_id,
+        }))
+      );
+      const keys = new Set(accepted.map((suggestion) => suggestion.key));
+      setSuggestions((prev) => prev && prev.filter((suggestion) => !keys.has(suggestion.key)));
+      toast.success(
+        accepted.length === 1 ? "Added to your plan" : `Added ${accepted.length} study sessions to your plan`
+      );
+    } catch (error) {
+      console.error("Error accepting suggestions:", error);
+      toast.error("Failed to add to your plan");
+    }
+  };
+
+  const shift = (direction: 1 | -1) =>
+    setDate((current) => (view === "week" ? addWeeks(current, direction) : addMonths(current, direction)));
+
+  const rangeLabel =
+    view === "week"
+      ? `${format(startOfWeek(date, { weekStartsOn: 1 }), "MMM d")} – ${format(
+          endOfWeek(date, { weekStartsOn: 1 }),
+          "MMM d, yyyy"
+        )}`
+      : format(date, "MMMM yyyy");
+
   return (
     <div className="space-y-6">
-      <div className="space-y-6">
-        <div className="flex flex-col md:flex-row justify-between md:items-center gap-4">
-          <div>
-            <h2 className="text-2xl font-bold">Study Planner</h2>
-            <p className="text-muted-foreground">
-              Plan your study sessions and track your progress
-            </p>
-          </div>
+      <div className="flex flex-col md:flex-row justify-between md:items-center gap-4">
+        <div>
+          <h2 className="text-2xl font-bold">Study Planner</h2>
+          <p className="text-muted-foreground">
+            Plan your study sessions and track your progress
+          </p>
+        </div>
 
-          <div className="flex gap-2">
-            <Popover>
-              <PopoverTrigger asChild>
-                <Button
-                  variant="outline"
-                  className="w-fit flex items-center gap-2"
-                >
-                  <CalendarIcon className="h-4 w-4" />
-                  {date ? format(date, "PPP") : "Pick a date"}
-                </Button>
-              </PopoverTrigger>
-              <PopoverContent className="w-auto p-0">
-                <Calendar
-                  mode="single"
-                  selected={date}
-                  onSelect={setDate}
-                  initialFocus
-                />
-              </PopoverContent>
-            </Popover>
-
-            <Button
-              className="gap-2"
-              disabled={true} // Disable the button for now
-            >
-              <Bot className="h-4 w-4" />
-              Generate AI Plan (Coming Soon)
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" className="gap-2" onClick={() => openTaskDialog(null)}>
+            <Plus className="h-4 w-4" />
+            Add Task
+          </Button>
+          <Button variant="outline" className="gap-2" onClick={() => setExportDialogOpen(true)}>
+            <Share2 className="h-4 w-4" />
+            Export Calendar
+          </Button>
+          {overdueCount > 0 && (
+            <Button variant="outline" className="gap-2" onClick={handleRollover}>
+              <CalendarClock className="h-4 w-4" />
+              Roll Over {overdueCount} Overdue
             </Button>
-          </div>
+          )}
+          <Button
+            className="gap-2"
+            onClick={handleGeneratePlan}
+            disabled={isGenerating}
+          >
+            {isGenerating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Bot className="h-4 w-4" />}
+            Generate AI Plan
+          </Button>
         </div>
+      </div>
 
-        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-          <div className="lg:col-span-2 space-y-6">
-            {studyPlanData.map((course) => (
-              <Card key={course.title}>
-                <CardHeader>
-                  <CardTitle>{course.title}</CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <div className="space-y-4">
-                    {course.tasks.map((task) => (
-                      <div
-                        key={task.id}
-                        className={cn(
-                          "flex items-center justify-between p-4 border rounded-lg",
-                          task.completed
-                            ? "border-green-200 bg-green-50 dark:bg-green-900/10"
-                            : "border-border"
-                        )}
-                      >
-                        <div className="flex items-start gap-3">
-                          <div
-                            className={cn(
-                              "w-6 h-6 rounded-full flex items-center justify-center flex-shrink-0 mt-0.5 cursor-pointer",
-                              task.completed
-                                ? "bg-green-500"
-                                : "border border-muted"
-                            )}
-                            onClick={() =>
-                              toggleTaskCompletion(course.title, task.id)
-                            }
-                          >
-                            {task.completed && (
-                              <Check className="h-4 w-4 text-white" />
-                            )}
-                          </div>
-                          <div>
-                            <h4 className="font-medium">{task.title}</h4>
-                            <div className="flex items-center gap-3 mt-1 text-sm text-muted-foreground">
-                              <div className="flex items-center">
-                                <Clock className="h-3.5 w-3.5 mr-1" />
-                                {task.time}
-                              </div>
-                              <div className="flex items-center">
-                                <Clock className="h-3.5 w-3.5 mr-1" />
-                                {task.duration} min
-                              </div>
-                            </div>
-                          </div>
-                        </div>
-
-                        <div className="flex gap-2">
-                          {!task.completed && (
-                            <Button
-                              variant="outline"
-                              size="sm"
-                              className="text-green-600 border-green-200"
-                              onClick={() =>
-                                toggleTaskCompletion(course.title, task.id)
-                              }
-                            >
-                              <Check className="h-4 w-4" />
-                            </Button>
-                          )}
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => deleteTask(course.title, task.id)}
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
-                        </div>
-                      </div>
-                    ))}
-                  </div>
-                </CardContent>
-                <CardFooter>
-                  <Button variant="outline" className="w-full gap-2">
-                    <Plus className="h-4 w-4" />
-                    Add Task
+      {suggestions && (
+        <StudyPlanSuggestions
+          suggestions={suggestions}
+          source={suggestionSource}
+          onAccept={(suggestion) => acceptSuggestions([suggestion])}
+          onReject={(key) => setSuggestions((prev) => prev && prev.filter((s) => s.key !== key))}
+          onChange={(updated) =>
+            setSuggestions((prev) => prev && prev.map((s) => (s.key === updated.key ? updated : s)))
+          }
+          onAcceptAll={() => acceptSuggestions(suggestions)}
+          onDismiss={() => setSuggestions(null)}
+        />
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col md:flex-row justify-between md:items-center gap-4">
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="icon" onClick={() => shift(-1)}>
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" size="icon" onClick={() => shift(1)}>
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" onClick={() => setDate(new Date())}>
+                Today
+              </Button>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="ghost" className="gap-2 font-semibold">
+                    <CalendarIcon className="h-4 w-4" />
+                    {rangeLabel}
                   </Button>
-                </CardFooter>
-              </Card>
-            ))}
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0">
+                  <Calendar
+                    mode="single"
+                    selected={date}
+                    onSelect={(selected) => selected && setDate(selected)}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
+            <Tabs value={view} onValueChange={(value) => setView(value as CalendarView)}>
+              <TabsList>
+                <TabsTrigger value="week">Week</TabsTrigger>
+                <TabsTrigger value="month">Month</TabsTrigger>
+              </TabsList>
+            </Tabs>
           </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {conflictCount > 0 && (
+            <Alert>
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                {conflictCount} task{conflictCount === 1 ? " clashes" : "s clash"} with a deadline or another task.
+                Hover a marked task to see why, and drag it to another day to fix it.
+              </AlertDescription>
+            </Alert>
+          )}
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : (
+            <StudyCalendar
+              view={view}
+              anchor={date}
+              items={items}
+              deadlines={deadlines}
+              conflicts={conflicts}
+              onMove={handleMove}
+              onToggleCompleted={handleToggleCompleted}
+              onOpen={openTaskDialog}
+              onSelectDay={(day) => {
+                setDate(day);
+                setView("week");
+              }}
+            />
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Plan Settings</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Generated plans start on the selected date and fit your deadlines into the time you have.
+            </p>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="hours-per-day">Hours/day</Label>
+                <Input
+                  id="hours-per-day"
+                  type="number"
+                  min="0.5"
+                  max="12"
+                  step="0.5"
+                  value={hoursPerDay}
+                  onChange={(e) => setHoursPerDay(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="plan-days">Days</Label>
+                <Input
+                  id="plan-days"
+                  type="number"
+                  min="1"
+                  max={MAX_PLAN_DAYS}
+                  value={planDays}
+                  onChange={(e) => setPlanDays(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="day-start">From</Label>
+                <Input
+                  id="day-start"
+                  type="time"
+                  value={dayStart}
+                  onChange={(e) => setDayStart(e.target.value)}
+                />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Study Tips</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-4">
+              <div className="flex gap-3">
+                <div className="bg-primary/10 p-2 rounded-full h-fit">
+                  <Clock className="h-4 w-4 text-primary" />
+                </div>
+                <div>
+                  <h4 className="font-medium">Pomodoro Technique</h4>
+                  <p className="text-sm text-muted-foreground">
+                    Study for 25 minutes, then take a 5-minute break.
+                  </p>
+                </div>
+              </div>
 
-          <div className="space-y-6">
-            <Card>
-              <CardHeader>
-                <CardTitle>Add Study Session</CardTitle>
-              </CardHeader>
-              <CardContent>
-                <form className="space-y-4" onSubmit={handleFormSubmit}>
-                  <div className="space-y-2">
-                    <Label htmlFor="task-title">Task Title</Label>
-                    <Input
-                      id="task-title"
-                      name="task-title"
-                      placeholder="Enter task title"
-                    />
-                  </div>
-
-                  <div className="space-y-2">
-                    <Label htmlFor="course">Course</Label>
-                    <Input
-                      id="course"
-                      name="course"
-                      placeholder="Select course"
-                    />
-                  </div>
-
-                  <div className="grid grid-cols-2 gap-4">
-                    <div className="space-y-2">
-                      <Label htmlFor="time">Start Time</Label>
-                      <Input id="time" name="time" type="time" />
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="duration">Duration (min)</Label>
-                      <Input
-                        id="duration"
-                        name="duration"
-                        type="number"
-                        min="5"
-                        step="5"
-                        defaultValue="30"
-                      />
-                    </div>
-                  </div>
-
-                  <Button type="submit" className="w-full mt-2">
-                    Add to Plan
-                  </Button>
-                </form>
-              </CardContent>
-            </Card>
-
-            <Card>
-              <CardHeader>
-                <CardTitle>Study Tips</CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-4">
-                  <div className="flex gap-3">
-                    <div className="bg-primary/10 p-2 rounded-full h-fit">
-                      <Clock className="h-4 w-4 text-primary" />
-                    </div>
-                    <div>
-                      <h4 className="font-medium">Pomodoro Technique</h4>
-                      <p className="text-sm text-muted-foreground">
-                        Study for 25 minutes, then take a 5-minute break.
-                      </p>
-                    </div>
-                  </div>
-
-                  <div className="flex gap-3">
-                    <div className="bg-primary/10 p-2 rounded-full h-fit">
-                      <RotateCw className="h-4 w-4 text-primary" />
-                    </div>
-                    <div>
-                      <h4 className="font-medium">Spaced Repetition</h4>
-                      <p className="text-sm text-muted-foreground">
-                        Review material at increasing intervals for better
-                        retention.
-                      </p>
-                    </div>
-                  </div>
-
-                  <div className="flex gap-3">
-                    <div className="bg-primary/10 p-2 rounded-full h-fit">
-                      <BookOpen className="h-4 w-4 text-primary" />
-                    </div>
-                    <div>
-                      <h4 className="font-medium">Active Recall</h4>
-                      <p className="text-sm text-muted-foreground">
-                        Test yourself rather than passively reviewing notes.
-                      </p>
-                    </div>
-                  </div>
-
-                  <div className="flex gap-3">
-                    <div className="bg-primary/10 p-2 rounded-full h-fit">
-                      <FileText className="h-4 w-4 text-primary" />
-                    </div>
-                    <div>
-                      <h4 className="font-medium">Cornell Note-Taking</h4>
-                      <p className="text-sm text-muted-foreground">
-                        Divide your notes into main points, details, and
-                        summary.
-                      </p>
-                    </div>
-                  </div>
+              <div className="flex gap-3">
+                <div className="bg-primary/10 p-2 rounded-full h-fit">
+                  <RotateCw className="h-4 w-4 text-primary" />
                 </div>
-              </CardContent>
-            </Card>
-          </div>
-        </div>
+                <div>
+                  <h4 className="font-medium">Spaced Repetition</h4>
+                  <p className="text-sm text-muted-foreground">
+                    Review material at increasing intervals for better
+                    retention.
+                  </p>
+                </div>
+              </div>
+
+              <div className="flex gap-3">
+                <div className="bg-primary/10 p-2 rounded-full h-fit">
+                  <BookOpen className="h-4 w-4 text-primary" />
+                </div>
+                <div>
+                  <h4 className="font-medium">Active Recall</h4>
+                  <p className="text-sm text-muted-foreground">
+                    Test yourself rather than passively reviewing notes.
+                  </p>
+                </div>
+              </div>
+
+              <div className="flex gap-3">
+                <div className="bg-primary/10 p-2 rounded-full h-fit">
+                  <FileText className="h-4 w-4 text-primary" />
+                </div>
+                <div>
+                  <h4 className="font-medium">Cornell Note-Taking</h4>
+                  <p className="text-sm text-muted-foreground">
+                    Divide your notes into main points, details, and
+                    summary.
+                  </p>
+                </div>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
       </div>
+
+      <StudyTaskDialog
+        open={taskDialogOpen}
+        onOpenChange={setTaskDialogOpen}
+        item={editedItem}
+        defaultDate={date}
+        onSubmit={handleSubmitTask}
+        onDelete={handleDeleteTask}
+      />
+
+      {user && (
+        <CalendarExportDialog open={exportDialogOpen} onOpenChange={setExportDialogOpen} userId={user.id} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,225 @@
+import React, { useEffect, useState } from "react";
+import { addWeeks, format } from "date-fns";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Loader2, Trash2 } from "lucide-react";
+import { StudyPlanItem } from "@/lib/types";
+import { STUDY_ITEM_TYPES } from "../../../supabase/functions/_shared/study-plan";
+
+export interface StudyTaskFormValues {
+  title: string;
+  course: string;
+  description: string;
+  start: Date;
+  duration_minutes: number;
+  type: StudyPlanItem["type"];
+  // Empty for a one-off task
+  weekdays: number[];
+  until: Date;
+}
+
+interface StudyTaskDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Edited task; a new one is created when absent
+  item?: StudyPlanItem | null;
+  defaultDate: Date;
+  // Both resolve to whether the dialog should close
+  onSubmit: (values: StudyTaskFormValues) => Promise<boolean>;
+  onDelete: (item: StudyPlanItem, wholeSeries: boolean) => Promise<boolean>;
+}
+
+const WEEKDAYS = [
+  { value: 1, label: "Mon" },
+  { value: 2, label: "Tue" },
+  { value: 3, label: "Wed" },
+  { value: 4, label: "Thu" },
+  { value: 5, label: "Fri" },
+  { value: 6, label: "Sat" },
+  { value: 0, label: "Sun" },
+];
+
+export const StudyTaskDialog: React.FC<StudyTaskDialogProps> = ({
+  open,
+  onOpenChange,
+  item,
+  defaultDate,
+  onSubmit,
+  onDelete,
+}) => {
+  const [title, setTitle] = useState("");
+  const [course, setCourse] = useState("");
+  const [description, setDescription] = useState("");
+  const [day, setDay] = useState("");
+  const [time, setTime] = useState("16:00");
+  const [duration, setDuration] = useState("30");
+  const [type, setType] = useState<StudyPlanItem["type"]>("other");
+  const [weekdays, setWeekdays] = useState<string[]>([]);
+  const [until, setUntil] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    const start = item ? new Date(item.due_date) : defaultDate;
+    setTitle(item?.title || "");
+    setCourse(item?.course || "");
+    setDescription(item?.description || "");
+    setDay(format(start, "yyyy-MM-dd"));
+    setTime(item ? format(start, "HH:mm") : "16:00");
+    setDuration(String(item?.duration_minutes || 30));
+    setType(item?.type || "other");
+    setWeekdays([]);
+    setUntil(format(addWeeks(start, 4), "yyyy-MM-dd"));
+  }, [open, item, defaultDate]);
+
+  const handleSubmit = async () => {
+    setSaving(true);
+    try {
+      const done = await onSubmit({
+        title: title.trim(),
+        course: course.trim(),
+        description: description.trim(),
+        start: new Date(`${day}T${time}:00`),
+        duration_minutes: parseInt(duration),
+        type,
+        weekdays: weekdays.map(Number),
+        until: new Date(`${until}T00:00:00`),
+      });
+      if (done) onOpenChange(false);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (wholeSeries: boolean) => {
+    if (!item) return;
+    setSaving(true);
+    try {
+      if (await onDelete(item, wholeSeries)) onOpenChange(false);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const valid = title.trim() && day && time && parseInt(duration) > 0 && (weekdays.length === 0 || until >= day);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{item ? "Edit Study Task" : "Add Study Task"}</DialogTitle>
+          {item?.recurrence_id && (
+            <DialogDescription>Changes apply to this occurrence only.</DialogDescription>
+          )}
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="study-task-title">Title</Label>
+            <Input id="study-task-title" value={title} onChange={(e) => setTitle(e.target.value)} />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="study-task-course">Course</Label>
+              <Input id="study-task-course" value={course} onChange={(e) => setCourse(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={type} onValueChange={(value) => setType(value as StudyPlanItem["type"])}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {STUDY_ITEM_TYPES.map((option) => (
+                    <SelectItem key={option} value={option} className="capitalize">
+                      {option}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="study-task-date">Date</Label>
+              <Input id="study-task-date" type="date" value={day} onChange={(e) => setDay(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="study-task-time">Start</Label>
+              <Input id="study-task-time" type="time" value={time} onChange={(e) => setTime(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="study-task-duration">Minutes</Label>
+              <Input
+                id="study-task-duration"
+                type="number"
+                min="5"
+                step="5"
+                value={duration}
+                onChange={(e) => setDuration(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="study-task-description">Notes</Label>
+            <Textarea
+              id="study-task-description"
+              rows={2}
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+
+          {!item && (
+            <div className="space-y-2">
+              <Label>Repeat on</Label>
+              <ToggleGroup type="multiple" variant="outline" size="sm" value={weekdays} onValueChange={setWeekdays}>
+                {WEEKDAYS.map((weekday) => (
+                  <ToggleGroupItem key={weekday.value} value={String(weekday.value)}>
+                    {weekday.label}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+              {weekdays.length > 0 && (
+                <div className="flex items-center gap-2">
+                  <Label htmlFor="study-task-until" className="whitespace-nowrap">
+                    Until
+                  </Label>
+                  <Input id="study-task-until" type="date" value={until} onChange={(e) => setUntil(e.target.value)} />
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          <div className="flex gap-2">
+            {item && (
+              <Button variant="outline" onClick={() => handleDelete(false)} disabled={saving}>
+                <Trash2 className="h-4 w-4 mr-2" />
+                {item.recurrence_id ? "Delete This" : "Delete"}
+              </Button>
+            )}
+            {item?.recurrence_id && (
+              <Button variant="outline" onClick={() => handleDelete(true)} disabled={saving}>
+                Delete Upcoming
+              </Button>
+            )}
+          </div>
+          <Button onClick={handleSubmit} disabled={!valid || saving}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {item ? "Save" : "Add to Plan"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
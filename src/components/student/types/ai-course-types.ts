@@ -48,4 +48,6 @@ export interface AIGeneratedCourse {
   modules: AICourseModule[];
   topicPdfs?: TopicPdf[];
   createdAt: string;
+  user_id?: string; // Set once the course is saved to the student's account
+  completedModuleIds?: string[];
 }
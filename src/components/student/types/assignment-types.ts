@@ -1,3 +1,13 @@
+import {
+  AttachmentPolicy,
+  CodeLanguage,
+  CodingAssignmentConfig,
+  FileAttachment,
+  InlineComment,
+  RubricGrade,
+  SubmissionPolicy,
+  SubmissionVersion,
+} from "@/lib/types";
 
 export interface Assignment {
   id: string;
@@ -6,11 +16,19 @@ export interface Assignment {
   course_id: string;
   course_name?: string;
   due_date?: string;
+  late_after?: number;
+  submissions_close_at?: number;
+  resubmissions_close_at?: number;
   points: number;
   teacher_id: string;
   assignmentType?: string;
   textContent?: string;
+  coding?: CodingAssignmentConfig; // Present when assignmentType is "coding"
+  quiz_id?: string; // Present when assignmentType is "quiz"
   fileURL?: string;
+  submission_policy?: SubmissionPolicy;
+  attachment_policy?: AttachmentPolicy;
+  materials?: FileAttachment[];
   submitted?: boolean;
   submission?: Submission | null;
 }
@@ -21,11 +39,22 @@ export interface Submission {
   user_id: string;
   student_name: string;
   content: string;
-  submitted_at: string;
+  attachments?: FileAttachment[];
+  submitted_at: number;
   teacher_id: string;
   assignment_title: string;
   points: number;
   course_id: string;
   grade?: number;
   feedback?: string;
+  language?: CodeLanguage;
+  code_submission_id?: string;
+  auto_grade?: number; // Points earned from test cases
+  auto_grade_status?: "pending" | "completed" | "failed";
+  rubric_grade?: RubricGrade;
+  comments?: InlineComment[]; // Teacher comments on passages of the content
+  version?: number;
+  versions?: SubmissionVersion[];
+  late?: boolean;
+  graded_version?: number;
 }
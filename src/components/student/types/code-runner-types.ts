@@ -0,0 +1,52 @@
+import { CodeLanguage } from "@/lib/types";
+
+export interface RunLimits {
+  timeLimitMs: number;
+  memoryLimitMb: number;
+  maxOutputChars: number;
+}
+
+export interface RunRequest {
+  language: CodeLanguage;
+  code: string;
+  stdin?: string;
+  limits?: Partial<RunLimits>;
+}
+
+export type RunStatus =
+  | "ok"
+  | "runtime_error"
+  | "timeout"
+  | "memory_limit"
+  | "output_limit"
+  | "unavailable";
+
+export interface RunResult {
+  status: RunStatus;
+  stdout: string;
+  stderr: string;
+  error?: string;
+  durationMs: number;
+}
+
+// A runner executes untrusted code for one or more languages. The browser ships
+// with a Web Worker runner for JavaScript; other languages go through a
+// process-based runner exposed by the local server.
+export interface CodeRunner {
+  name: string;
+  languages: CodeLanguage[];
+  run: (request: RunRequest) => Promise<RunResult>;
+}
+
+export interface SandboxRequest {
+  code: string;
+  stdin: string;
+  limits: RunLimits;
+}
+
+export interface SandboxResponse {
+  status: Exclude<RunStatus, "timeout" | "unavailable">;
+  stdout: string;
+  stderr: string;
+  error?: string;
+}
@@ -0,0 +1,26 @@
+import { QuizQuestion } from "../../../../supabase/functions/_shared/quiz-schema";
+
+export type { QuizQuestion };
+
+export interface Quiz {
+  id: string;
+  user_id: string;
+  title: string;
+  topic: string;
+  difficulty: string;
+  questions: QuizQuestion[];
+  created_at: string;
+}
+
+export interface QuizAttempt {
+  id: string;
+  quiz_id: string;
+  user_id: string;
+  selected_answers: number[]; // -1 for unanswered questions
+  correct_count: number;
+  score: number; // Percentage 0-100
+  started_at: string;
+  completed_at: string;
+  duration_seconds: number;
+  xp_awarded: number;
+}
@@ -3,6 +3,7 @@ import { v4 as uuidv4 } from 'uuid';
 import { AIGeneratedCourse } from '../types/ai-course-types';
 import { ref, push, serverTimestamp } from 'firebase/database';
 import { database } from '@/firebase';
+import { invokeAIFunction } from '@/lib/ai-client';
 
 export async function generateCourseContent(
   syllabus: string, 
@@ -13,25 +14,11 @@ export async function generateCourseContent(
     console.log("Generating course for:", title, "with duration:", durationDays, "days");
     
     // Call the Supabase Edge Function to generate the course
-    const response = await fetch("https://educonnect-66985.supabase.co/functions/v1/generate-course", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        syllabus,
-        durationDays,
-        title,
-      }),
+    const course = await invokeAIFunction<AIGeneratedCourse>("generate-course", {
+      syllabus,
+      durationDays,
+      title,
     });
-
-    if (!response.ok) {
-      const errorData = await response.json();
-      throw new Error(errorData.error || "Failed to generate course");
-    }
-
-    // Parse the response from the API
-    const course = await response.json();
     
     // Clean markdown formatting in PDF content
     if (course.topicPdfs) {
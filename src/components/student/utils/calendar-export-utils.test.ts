@@ -0,0 +1,34 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createMemoryRepositories, setRepositories } from "@/lib/repositories";
+import { createCalendarFeed, fetchCalendarFeed, revokeCalendarFeed } from "./calendar-export-utils";
+
+// Runs the calendar feed tokens against the in-memory backend
+
+beforeEach(() => {
+  setRepositories(createMemoryRepositories());
+});
+
+describe("calendar feeds", () => {
+  it("has no feed until one is created", async () => {
+    expect(await fetchCalendarFeed("student-1")).toBeNull();
+
+    const feed = await createCalendarFeed("student-1");
+    expect(await fetchCalendarFeed("student-1")).toEqual(feed);
+    expect(await fetchCalendarFeed("student-2")).toBeNull();
+  });
+
+  it("replaces the token when a new feed is created", async () => {
+    const first = await createCalendarFeed("student-1");
+    const second = await createCalendarFeed("student-1");
+
+    expect(second.token).not.toBe(first.token);
+    expect(await fetchCalendarFeed("student-1")).toEqual(second);
+  });
+
+  it("forgets the token when the feed is revoked", async () => {
+    await createCalendarFeed("student-1");
+    await revokeCalendarFeed("student-1");
+
+    expect(await fetchCalendarFeed("student-1")).toBeNull();
+  });
+});
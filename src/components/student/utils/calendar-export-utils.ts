@@ -0,0 +1,180 @@
+import { addDays, addMinutes, format, parseISO } from "date-fns";
+import { v4 as uuidv4 } from "uuid";
+import { CalendarFeed, Course, CourseMaterial } from "@/lib/types";
+import { getRepositories } from "@/lib/repositories";
+import { CalendarEvent, CalendarEventTime, buildCalendar } from "@/lib/ical";
+import { fetchStudentAssignments } from "./assignment-utils";
+import { fetchStudyPlans } from "./study-plan-utils";
+
+const CALENDAR_FEED_URL = import.meta.env.VITE_CALENDAR_FEED_URL || "http://localhost:3000/calendar";
+const UID_DOMAIN = "educonnect";
+
+// Older course records store { day, time, location } objects instead of strings
+type ScheduleEntry = string | { day?: string; time?: string; location?: string };
+
+type EnrolledCourse = Pick<Course, "id" | "title" | "startDate" | "endDate"> & {
+  schedule?: ScheduleEntry[];
+  materials?: CourseMaterial[] | Record<string, CourseMaterial>;
+};
+
+export type { CalendarFeed };
+
+export const fetchEnrolledCourses = async (userId: string): Promise<EnrolledCourse[]> => {
+  const { enrollments, courses } = getRepositories();
+  const courseIds = new Set((await enrollments.listByStudent(userId)).map((enrollment) => enrollment.course_id));
+  const enrolled = await Promise.all([...courseIds].map((courseId) => courses.get(courseId)));
+  return enrolled
+    .filter((course) => course !== null)
+    .map((course) => ({ ...(course as EnrolledCourse), title: course.title || "Untitled course" }));
+};
+
+// Stored dates are either plain yyyy-MM-dd days or full ISO timestamps
+const eventTime = (value: string): CalendarEventTime =>
+  /^\d{4}-\d{2}-\d{2}$/.test(value) ? { date: value } : { dateTime: new Date(value) };
+
+const DAY_CODES: Record<string, { code: string; index: number }> = {
+  sun: { code: "SU", index: 0 },
+  mon: { code: "MO", index: 1 },
+  tue: { code: "TU", index: 2 },
+  wed: { code: "WE", index: 3 },
+  thu: { code: "TH", index: 4 },
+  fri: { code: "FR", index: 5 },
+  sat: { code: "SA", index: 6 },
+};
+
+// e.g. "Monday 10:00 AM - 11:30 AM, Science Hall 101" or "Wed 14:00-15:30 @ Lab 2"
+const SCHEDULE_PATTERN =
+  /^\s*(sun|mon|tue|wed|thu|fri|sat)[a-z]*\.?\s+(\d{1,2})(?::(\d{2}))?\s*(am|pm)?\s*[-–]\s*(\d{1,2})(?::(\d{2}))?\s*(am|pm)?\s*(?:[,@|]\s*(.+))?$/i;
+
+const to24Hour = (hours: string, minutes: string | undefined, meridiem: string | undefined) => {
+  let hour = parseInt(hours) % (meridiem ? 12 : 24);
+  if (meridiem?.toLowerCase() === "pm") hour += 12;
+  return `${String(hour).padStart(2, "0")}:${minutes || "00"}`;
+};
+
+// Weekly class meetings in local time, starting the first matching day of the
+// course and repeating until its end date. Entries that cannot be read are
+// left out.
+export function scheduleEvents(course: EnrolledCourse, today = new Date()): CalendarEvent[] {
+  return (course.schedule || []).flatMap((entry, index) => {
+    const text =
+      typeof entry === "string" ? entry : [`${entry.day} ${entry.time}`, entry.location].filter(Boolean).join(", ");
+    const match = SCHEDULE_PATTERN.exec(text);
+    if (!match) return [];
+
+    const [, day, startHour, startMinute, startMeridiem, endHour, endMinute, endMeridiem, location] = match;
+    const weekday = DAY_CODES[day.toLowerCase()];
+    const startTime = to24Hour(startHour, startMinute, startMeridiem || endMeridiem);
+    const endTime = to24Hour(endHour, endMinute, endMeridiem || startMeridiem);
+
+    // The day, in UTC without a start date, as the server's feed has no time zone to go by
+    const from = parseISO(course.startDate ? course.startDate.slice(0, 10) : today.toISOString().slice(0, 10));
+    const first = format(addDays(from, (weekday.index - from.getDay() + 7) % 7), "yyyy-MM-dd");
+    // A floating DTSTART needs a floating UNTIL
+    const until = course.endDate ? `;UNTIL=${course.endDate.slice(0, 10).replace(/-/g, "")}T235959` : "";
+
+    const event: CalendarEvent = {
+      uid: `class-${course.id}-${index}@${UID_DOMAIN}`,
+      summary: course.title,
+      start: { localDateTime: `${first}T${startTime}` },
+      end: { localDateTime: `${first}T${endTime}` },
+      rrule: `FREQ=WEEKLY;BYDAY=${weekday.code}${until}`,
+      categories: ["Class"],
+    };
+    if (location) {
+      event.location = location.trim();
+    }
+    return [event];
+  });
+}
+
+const materialEvents = (course: EnrolledCourse): CalendarEvent[] =>
+  Object.values(course.materials || {})
+    .filter((material) => material.deadline)
+    .map((material) => ({
+      uid: `material-${course.id}-${material.id}@${UID_DOMAIN}`,
+      summary: `Deadline: ${material.title}`,
+      start: eventTime(material.deadline!),
+      description: course.title,
+      categories: ["Course material"],
+    }));
+
+// Everything with a date the student should know about: assignment due dates,
+// class meetings, course material deadlines and study tasks. With `courseId`,
+// only what belongs to that course.
+export async function buildStudentCalendar(userId: string, courseId?: string) {
+  const [courses, assignments, { items }] = await Promise.all([
+    fetchEnrolledCourses(userId),
+    fetchStudentAssignments(userId),
+    fetchStudyPlans(userId),
+  ]);
+
+  const scopedCourses = courseId ? courses.filter((course) => course.id === courseId) : courses;
+  const scopedAssignments = courseId
+    ? assignments.filter((assignment) => assignment.course_id === courseId)
+    : assignments;
+  const courseTitles = new Set(scopedCourses.map((course) => course.title));
+  const assignmentIds = new Set(scopedAssignments.map((assignment) => assignment.id));
+  const scopedItems = courseId
+    ? items.filter(
+        (item) => (item.course && courseTitles.has(item.course)) || (item.source_id && assignmentIds.has(item.source_id))
+      )
+    : items;
+
+  const events: CalendarEvent[] = [
+    ...scopedAssignments
+      .filter((assignment) => assignment.due_date)
+      .map((assignment) => ({
+        uid: `assignment-${assignment.id}@${UID_DOMAIN}`,
+        summary: `Due: ${assignment.title}`,
+        start: eventTime(assignment.due_date!),
+        description: [
+          assignment.course_name,
+          `${assignment.points} points`,
+          assignment.submitted ? "Submitted" : "Not submitted yet",
+        ]
+          .filter(Boolean)
+          .join("\n"),
+        categories: ["Assignment"],
+      })),
+    ...scopedCourses.flatMap((course) => [...scheduleEvents(course), ...materialEvents(course)]),
+    ...scopedItems.map((item) => {
+      const start = new Date(item.due_date);
+      const event: CalendarEvent = {
+        uid: `study-${item.id}@${UID_DOMAIN}`,
+        summary: item.is_completed ? `${item.title} (done)` : item.title,
+        start: { dateTime: start },
+        end: { dateTime: addMinutes(start, item.duration_minutes) },
+        categories: ["Study"],
+      };
+      const description = [item.course, item.description].filter(Boolean).join("\n");
+      if (description) {
+        event.description = description;
+      }
+      return event;
+    }),
+  ];
+
+  const name = courseId ? scopedCourses[0]?.title || "Course calendar" : "EduConnect";
+  return { name, calendar: buildCalendar({ name, events }) };
+}
+
+export const calendarFeedUrl = (token: string) => `${CALENDAR_FEED_URL}/${token}.ics`;
+
+// Secret feed tokens are kept per student where only the student can read
+// them. The server looks the token up and builds the feed from the student's
+// current data each time it is polled.
+export async function fetchCalendarFeed(userId: string): Promise<CalendarFeed | null> {
+  return getRepositories().calendarFeeds.get(userId);
+}
+
+// A new token replaces the old one, so a leaked URL stops working
+export async function createCalendarFeed(userId: string) {
+  const feed: CalendarFeed = { token: uuidv4(), created_at: new Date().toISOString() };
+  await getRepositories().calendarFeeds.save(userId, feed);
+  return feed;
+}
+
+export async function revokeCalendarFeed(userId: string) {
+  await getRepositories().calendarFeeds.remove(userId);
+}
@@ -0,0 +1,206 @@
+import { CodeLanguage, CodeTestCase, CodeTestResult, Submission } from "@/lib/types";
+import { postAsUser } from "@/lib/server-api";
+import {
+  CodeRunner,
+  RunLimits,
+  RunRequest,
+  RunResult,
+  SandboxRequest,
+  SandboxResponse,
+} from "../types/code-runner-types";
+
+export const DEFAULT_RUN_LIMITS: RunLimits = {
+  timeLimitMs: 5000,
+  memoryLimitMb: 128,
+  maxOutputChars: 20000,
+};
+
+const CODE_RUNNER_URL = import.meta.env.VITE_CODE_RUNNER_URL || "http://localhost:3000/run-code";
+const CODE_GRADER_URL = import.meta.env.VITE_CODE_GRADER_URL || "http://localhost:3000/grade-code";
+
+const resolveLimits = (limits?: Partial<RunLimits>): RunLimits => ({
+  ...DEFAULT_RUN_LIMITS,
+  ...limits,
+});
+
+// Runs JavaScript inside a dedicated Web Worker. A new worker is created for every
+// run so that state never leaks between executions, and it is terminated when the
+// time limit is reached.
+export const webWorkerRunner: CodeRunner = {
+  name: "Web Worker",
+  languages: ["javascript"],
+  run: (request: RunRequest) => {
+    const limits = resolveLimits(request.limits);
+    const startedAt = performance.now();
+
+    return new Promise<RunResult>((resolve) => {
+      let worker: Worker;
+      try {
+        worker = new Worker(new URL("./js-sandbox.worker.ts", import.meta.url), { type: "module" });
+      } catch (error) {
+        resolve({
+          status: "unavailable",
+          stdout: "",
+          stderr: "",
+          error: error instanceof Error ? error.message : "Web Workers are not supported in this browser",
+          durationMs: 0,
+        });
+        return;
+      }
+
+      const finish = (result: Omit<RunResult, "durationMs">) => {
+        clearTimeout(timer);
+        worker.terminate();
+        resolve({ ...result, durationMs: Math.round(performance.now() - startedAt) });
+      };
+
+      const timer = setTimeout(() => {
+        finish({
+          status: "timeout",
+          stdout: "",
+          stderr: "",
+          error: `Time limit of ${limits.timeLimitMs} ms exceeded`,
+        });
+      }, limits.timeLimitMs);
+
+      worker.onmessage = (event: MessageEvent<SandboxResponse>) => finish(event.data);
+      worker.onerror = (event: ErrorEvent) => {
+        event.preventDefault();
+        finish({ status: "runtime_error", stdout: "", stderr: "", error: event.message });
+      };
+
+      const message: SandboxRequest = {
+        code: request.code,
+        stdin: request.stdin || "",
+        limits,
+      };
+      worker.postMessage(message);
+    });
+  },
+};
+
+// Delegates execution to the local server (see server.cjs), which runs the code
+// in a sandbox with no network or filesystem access. Runs are made as the
+// signed-in user.
+export const createProcessRunner = (languages: CodeLanguage[], endpoint = CODE_RUNNER_URL): CodeRunner => ({
+  name: "Local process",
+  languages,
+  run: async (request: RunRequest) => {
+    const limits = resolveLimits(request.limits);
+    try {
+      return await postAsUser<RunResult>(endpoint, {
+        language: request.language,
+        code: request.code,
+        stdin: request.stdin || "",
+        limits,
+      });
+    } catch (error) {
+      return {
+        status: "unavailable",
+        stdout: "",
+        stderr: "",
+        error: error instanceof Error ? error.message : "Code runner is not reachable",
+        durationMs: 0,
+      };
+    }
+  },
+});
+
+const runners: CodeRunner[] = [webWorkerRunner, createProcessRunner(["python"])];
+
+// Later registrations take precedence, so a deployment can swap in its own runner
+// for a language without touching the defaults.
+export const registerRunner = (runner: CodeRunner) => {
+  runners.unshift(runner);
+};
+
+export const getRunner = (language: CodeLanguage): CodeRunner | undefined =>
+  runners.find((runner) => runner.languages.includes(language));
+
+export const runCode = async (request: RunRequest): Promise<RunResult> => {
+  const runner = getRunner(request.language);
+  if (!runner) {
+    return {
+      status: "unavailable",
+      stdout: "",
+      stderr: "",
+      error: `No runner is configured for ${request.language}`,
+      durationMs: 0,
+    };
+  }
+  return runner.run(request);
+};
+
+// Outputs are compared line by line, ignoring trailing whitespace and a trailing
+// newline, which is what students expect from print-based exercises.
+export const normalizeOutput = (output: string) =>
+  output
+    .replace(/\r\n/g, "\n")
+    .split("\n")
+    .map((line) => line.trimEnd())
+    .join("\n")
+    .trim();
+
+export interface GradeReport {
+  status: "completed" | "failed";
+  score: number; // 0-100, weighted by test case weight
+  results: CodeTestResult[];
+  error?: string;
+}
+
+export const gradeTestCases = async (
+  language: CodeLanguage,
+  code: string,
+  testCases: CodeTestCase[],
+  limits?: Partial<RunLimits>
+): Promise<GradeReport> => {
+  if (testCases.length === 0) {
+    return { status: "failed", score: 0, results: [], error: "This assignment has no test cases" };
+  }
+
+  const results: CodeTestResult[] = [];
+  let earned = 0;
+  let total = 0;
+
+  for (const testCase of testCases) {
+    const weight = testCase.weight ?? 1;
+    const run = await runCode({ language, code, stdin: testCase.input, limits });
+
+    if (run.status === "unavailable") {
+      return { status: "failed", score: 0, results, error: run.error };
+    }
+
+    const passed =
+      run.status === "ok" && normalizeOutput(run.stdout) === normalizeOutput(testCase.expected_output);
+
+    total += weight;
+    if (passed) earned += weight;
+
+    const result: CodeTestResult = {
+      test_case_id: testCase.id,
+      passed,
+      actual_output: run.stdout,
+      duration_ms: run.durationMs,
+    };
+    // Firebase rejects undefined values, so only attach the error when there is one
+    if (run.status !== "ok") {
+      result.error = run.error || run.status;
+    }
+    results.push(result);
+  }
+
+  return {
+    status: "completed",
+    score: total > 0 ? Math.round((earned / total) * 100) : 0,
+    results,
+  };
+};
+
+export interface SubmissionGradeReport extends GradeReport {
+  submission: Submission; // With the auto-grade recorded
+}
+
+// Grades a handed-in coding submission on the server, which also runs the
+// hidden test cases. Only results for the example tests come back.
+export const gradeSubmission = (submissionId: string, endpoint = CODE_GRADER_URL) =>
+  postAsUser<SubmissionGradeReport>(endpoint, { submissionId });
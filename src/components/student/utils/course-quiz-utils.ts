@@ -0,0 +1,43 @@
+import { BankQuestion, CourseQuiz, CourseQuizAttempt, QuizAnswer } from "@/lib/types";
+import { postAsUser } from "@/lib/server-api";
+import { Submission } from "../types/assignment-types";
+
+// Quizzes are taken through the server (see server.cjs), which holds the
+// answers, keeps the schedule and time limit and grades the attempt. Questions
+// come without their answers until the attempt is submitted.
+const QUIZ_API_URL = import.meta.env.VITE_QUIZ_API_URL || "http://localhost:3000/quiz";
+
+export interface OpenedQuiz {
+  quiz: CourseQuiz;
+  questions: BankQuestion[]; // Empty until the attempt starts
+  question_count: number;
+  attempt: CourseQuizAttempt | null;
+}
+
+export interface SubmittedQuiz {
+  attempt: CourseQuizAttempt;
+  questions: BankQuestion[]; // With their answers
+  submission: Submission;
+  counted: boolean; // False when the answers arrived after the deadline
+}
+
+export const openCourseQuiz = (quizId: string) => postAsUser<OpenedQuiz>(`${QUIZ_API_URL}/open`, { quizId });
+
+export const startQuizAttempt = (quizId: string) =>
+  postAsUser<{ attempt: CourseQuizAttempt; questions: BankQuestion[] }>(`${QUIZ_API_URL}/start`, { quizId });
+
+export const submitQuizAttempt = (quizId: string, answers: Record<string, QuizAnswer>) =>
+  postAsUser<SubmittedQuiz>(`${QUIZ_API_URL}/submit`, { quizId, answers });
+
+// The attempt deadline is the earlier of the time limit and the quiz closing
+// time. This drives the countdown; the server applies the same deadline.
+export function getAttemptDeadline(quiz: CourseQuiz, attempt: CourseQuizAttempt): Date | null {
+  const deadlines: number[] = [];
+  if (quiz.time_limit_minutes) {
+    deadlines.push(new Date(attempt.started_at).getTime() + quiz.time_limit_minutes * 60 * 1000);
+  }
+  if (quiz.closes_at) {
+    deadlines.push(new Date(quiz.closes_at).getTime());
+  }
+  return deadlines.length > 0 ? new Date(Math.min(...deadlines)) : null;
+}
@@ -0,0 +1,34 @@
+import { getRepositories } from "@/lib/repositories";
+import { GradeStanding, computeStanding, fetchGradebookSettings, fetchStudentOverrides } from "@/lib/gradebook";
+
+export interface CourseStanding {
+  course_id: string;
+  course_title: string;
+  standing: GradeStanding;
+}
+
+// The same standing the teacher sees in the course gradebook
+export const fetchCourseStandings = async (userId: string): Promise<CourseStanding[]> => {
+  const { enrollments, courses, assignments, submissions } = getRepositories();
+  const courseIds = [...new Set((await enrollments.listByStudent(userId)).map((enrollment) => enrollment.course_id))];
+  const studentSubmissions = await submissions.listByUser(userId);
+
+  const standings = await Promise.all(
+    courseIds.map(async (courseId) => {
+      const [course, courseAssignments, settings, overrides] = await Promise.all([
+        courses.get(courseId),
+        assignments.listByCourse(courseId),
+        fetchGradebookSettings(courseId),
+        fetchStudentOverrides(courseId, userId),
+      ]);
+      if (!course) return null;
+      return {
+        course_id: courseId,
+        course_title: course.title,
+        standing: computeStanding(courseAssignments, studentSubmissions, overrides, settings),
+      };
+    })
+  );
+
+  return standings.filter((standing): standing is CourseStanding => standing !== null);
+};
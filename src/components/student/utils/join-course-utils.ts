@@ -0,0 +1,20 @@
+import { toast } from "sonner";
+import { JoinResult } from "@/lib/access-codes";
+
+// Returns whether the student is now enrolled
+export const announceJoinResult = ({ status, course_title }: JoinResult) => {
+  switch (status) {
+    case "enrolled":
+      toast.success(`Successfully enrolled in ${course_title}`);
+      return true;
+    case "pending":
+      toast.success(`Request sent. You will be added to ${course_title} once your teacher approves it.`);
+      return false;
+    case "already_requested":
+      toast.info(`Your request to join ${course_title} is still waiting for approval`);
+      return false;
+    case "already_enrolled":
+      toast.info("You are already enrolled in this course");
+      return false;
+  }
+};
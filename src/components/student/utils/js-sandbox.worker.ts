@@ -0,0 +1,107 @@
+import { SandboxRequest, SandboxResponse } from "../types/code-runner-types";
+
+// Each run gets a fresh worker which is terminated afterwards, so it is safe to
+// strip network and messaging globals before any student code is evaluated.
+const BLOCKED_GLOBALS = [
+  "fetch",
+  "XMLHttpRequest",
+  "WebSocket",
+  "EventSource",
+  "importScripts",
+  "indexedDB",
+  "caches",
+  "BroadcastChannel",
+];
+
+class LimitExceededError extends Error {
+  constructor(public status: "memory_limit" | "output_limit", message: string) {
+    super(message);
+  }
+}
+
+const formatValue = (value: unknown): string => {
+  if (typeof value === "string") return value;
+  if (value instanceof Error) return `${value.name}: ${value.message}`;
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+};
+
+// performance.memory is non-standard (Chromium only); where it is missing the
+// time limit is what ends runaway allocations.
+const usedHeapMb = (): number | null => {
+  const memory = (performance as Performance & { memory?: { usedJSHeapSize: number } }).memory;
+  return memory ? memory.usedJSHeapSize / (1024 * 1024) : null;
+};
+
+const postResult = (response: SandboxResponse) => {
+  (self as unknown as Worker).postMessage(response);
+};
+
+self.onmessage = async (event: MessageEvent<SandboxRequest>) => {
+  const { code, stdin, limits } = event.data;
+  const stdout: string[] = [];
+  const stderr: string[] = [];
+  let outputChars = 0;
+
+  const checkMemory = () => {
+    const used = usedHeapMb();
+    if (used !== null && used > limits.memoryLimitMb) {
+      throw new LimitExceededError("memory_limit", `Memory limit of ${limits.memoryLimitMb} MB exceeded`);
+    }
+  };
+
+  const write = (target: string[]) => (...args: unknown[]) => {
+    const line = args.map(formatValue).join(" ");
+    outputChars += line.length + 1;
+    if (outputChars > limits.maxOutputChars) {
+      throw new LimitExceededError("output_limit", `Output limit of ${limits.maxOutputChars} characters exceeded`);
+    }
+    target.push(line);
+    checkMemory();
+  };
+
+  const sandboxConsole = {
+    log: write(stdout),
+    info: write(stdout),
+    debug: write(stdout),
+    warn: write(stderr),
+    error: write(stderr),
+  };
+
+  const inputLines = stdin.length > 0 ? stdin.replace(/\r\n/g, "\n").split("\n") : [];
+  let cursor = 0;
+  const readLine = () => (cursor < inputLines.length ? inputLines[cursor++] : null);
+
+  for (const name of BLOCKED_GLOBALS) {
+    try {
+      Object.defineProperty(self, name, { value: undefined, configurable: false, writable: false });
+    } catch {
+      // Some globals are non-configurable in certain browsers; they are also
+      // shadowed as function parameters below.
+    }
+  }
+
+  try {
+    const program = new Function(
+      "console",
+      "readLine",
+      "prompt",
+      "input",
+      ...BLOCKED_GLOBALS,
+      `"use strict";\nreturn (async () => {\n${code}\n})();`
+    );
+    await program(sandboxConsole, readLine, readLine, stdin, ...BLOCKED_GLOBALS.map(() => undefined));
+    checkMemory();
+    postResult({ status: "ok", stdout: stdout.join("\n"), stderr: stderr.join("\n") });
+  } catch (error) {
+    postResult({
+      status: error instanceof LimitExceededError ? error.status : "runtime_error",
+      stdout: stdout.join("\n"),
+      stderr: stderr.join("\n"),
+      error: formatValue(error),
+    });
+  }
+};
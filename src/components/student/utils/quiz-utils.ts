@@ -0,0 +1,44 @@
+import { getRepositories } from "@/lib/repositories";
+import { postAsUser } from "@/lib/server-api";
+import { Quiz, QuizAttempt } from "../types/quiz-types";
+
+const PRACTICE_QUIZ_API_URL = import.meta.env.VITE_PRACTICE_QUIZ_API_URL || "http://localhost:3000/practice-quiz";
+
+export const saveQuiz = (quiz: Omit<Quiz, "id" | "created_at">): Promise<Quiz> =>
+  getRepositories().practiceQuizzes.create({ ...quiz, created_at: new Date().toISOString() });
+
+// Attempts are scored on the server (see server/practice-quizzes.cjs), which
+// also awards their XP: only for correct answers beyond the best previous
+// attempt, so retaking a quiz can improve a score without farming XP, and only
+// up to a daily cap, so generating new quizzes can't either.
+export const recordQuizAttempt = (quiz: Quiz, selectedAnswers: number[], startedAt: Date) =>
+  postAsUser<{ attempt: QuizAttempt; reached_daily_cap: boolean }>(`${PRACTICE_QUIZ_API_URL}/attempt`, {
+    quizId: quiz.id,
+    selectedAnswers,
+    startedAt: startedAt.toISOString(),
+  });
+
+// Subscribes to a user's quizzes and attempts, newest first. Returns an unsubscribe function.
+export function subscribeToQuizHistory(
+  userId: string,
+  onChange: (quizzes: Quiz[], attempts: QuizAttempt[]) => void
+) {
+  const { practiceQuizzes } = getRepositories();
+  let quizzes: Quiz[] = [];
+  let attempts: QuizAttempt[] = [];
+
+  const unsubscribeQuizzes = practiceQuizzes.subscribeByUser(userId, (userQuizzes) => {
+    quizzes = [...userQuizzes].sort((a, b) => b.created_at.localeCompare(a.created_at));
+    onChange(quizzes, attempts);
+  });
+
+  const unsubscribeAttempts = practiceQuizzes.subscribeAttemptsByUser(userId, (userAttempts) => {
+    attempts = [...userAttempts].sort((a, b) => b.completed_at.localeCompare(a.completed_at));
+    onChange(quizzes, attempts);
+  });
+
+  return () => {
+    unsubscribeQuizzes();
+    unsubscribeAttempts();
+  };
+}
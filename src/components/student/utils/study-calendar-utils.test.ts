@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { StudyPlanItem } from "@/lib/types";
+import { findNextFreeSlot, planRollover } from "./study-calendar-utils";
+
+// Times are local, as the calendar shows them, in a week without a clock change
+
+const at = (day: number, hours: number, minutes = 0) => new Date(2026, 5, day, hours, minutes);
+
+const task = (id: string, start: Date, durationMinutes = 60, fields: Partial<StudyPlanItem> = {}): StudyPlanItem => ({
+  id,
+  study_plan_id: "plan-1",
+  user_id: "student-1",
+  title: `Task ${id}`,
+  due_date: start.toISOString(),
+  duration_minutes: durationMinutes,
+  is_completed: false,
+  type: "other",
+  ...fields,
+});
+
+describe("findNextFreeSlot", () => {
+  it("rounds up to the next quarter hour", () => {
+    expect(findNextFreeSlot([], 30, at(8, 10, 5))).toEqual(at(8, 10, 15));
+    expect(findNextFreeSlot([], 30, at(8, 10, 45))).toEqual(at(8, 10, 45));
+  });
+
+  it("waits for study hours to start", () => {
+    expect(findNextFreeSlot([], 30, at(8, 5, 30))).toEqual(at(8, 8));
+  });
+
+  it("moves to the next morning when the task would run past the end of the day", () => {
+    expect(findNextFreeSlot([], 90, at(8, 21))).toEqual(at(9, 8));
+    expect(findNextFreeSlot([], 60, at(8, 21))).toEqual(at(8, 21));
+    expect(findNextFreeSlot([], 30, at(8, 23, 50))).toEqual(at(9, 8));
+  });
+
+  it("starts after tasks in the way", () => {
+    const items = [task("a", at(8, 9), 60), task("b", at(8, 10), 50), task("c", at(8, 12), 60)];
+    // 11:00 fits an hour before c; 10:50 is rounded up to 11:00 first
+    expect(findNextFreeSlot(items, 60, at(8, 9))).toEqual(at(8, 11));
+    expect(findNextFreeSlot(items, 90, at(8, 9))).toEqual(at(8, 13));
+  });
+
+  it("lets tasks touch without overlapping", () => {
+    expect(findNextFreeSlot([task("a", at(8, 9), 60)], 60, at(8, 8))).toEqual(at(8, 8));
+  });
+
+  it("gives up when nothing fits", () => {
+    expect(findNextFreeSlot([], 15 * 60, at(8, 8))).toBeNull();
+  });
+});
+
+describe("planRollover", () => {
+  const now = at(10, 14, 10);
+
+  it("moves overdue tasks, oldest first, into free slots from now", () => {
+    const items = [
+      task("later", at(9, 9), 30),
+      task("earlier", at(8, 9), 60),
+      task("busy", at(10, 14, 15), 45),
+    ];
+    expect(planRollover(items, now)).toEqual([
+      { id: "earlier", due_date: at(10, 15).toISOString() },
+      { id: "later", due_date: at(10, 16).toISOString() },
+    ]);
+  });
+
+  it("leaves finished, upcoming and still running tasks alone", () => {
+    const items = [
+      task("done", at(8, 9), 60, { is_completed: true }),
+      task("running", at(10, 13, 30), 60),
+      task("upcoming", at(11, 9), 60),
+    ];
+    expect(planRollover(items, now)).toEqual([]);
+  });
+
+  it("skips tasks too long for any study day", () => {
+    expect(planRollover([task("marathon", at(8, 8), 15 * 60)], now)).toEqual([]);
+  });
+});
@@ -0,0 +1,159 @@
+import {
+  addDays,
+  addMinutes,
+  eachDayOfInterval,
+  endOfDay,
+  endOfMonth,
+  endOfWeek,
+  isSameDay,
+  parseISO,
+  set,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import { StudyPlanItem } from "@/lib/types";
+
+export type CalendarView = "week" | "month";
+
+export interface StudyDeadline {
+  id: string;
+  title: string;
+  course?: string;
+  due_date: string;
+}
+
+// Study tasks are only rescheduled into these hours
+export const STUDY_DAY_START_HOUR = 8;
+export const STUDY_DAY_END_HOUR = 22;
+const SLOT_STEP_MINUTES = 15;
+const MAX_SEARCH_DAYS = 60;
+export const MAX_OCCURRENCES = 100;
+
+const WEEK_OPTIONS = { weekStartsOn: 1 } as const;
+
+export const itemStart = (item: StudyPlanItem) => new Date(item.due_date);
+export const itemEnd = (item: StudyPlanItem) => addMinutes(itemStart(item), item.duration_minutes);
+export const byStart = (a: StudyPlanItem, b: StudyPlanItem) => a.due_date.localeCompare(b.due_date);
+
+// Assignment due dates are stored as plain yyyy-MM-dd days, due by the end of that day
+export const deadlineTime = (dueDate: string) =>
+  /^\d{4}-\d{2}-\d{2}$/.test(dueDate) ? endOfDay(parseISO(dueDate)) : new Date(dueDate);
+
+export const calendarDays = (anchor: Date, view: CalendarView) =>
+  view === "week"
+    ? eachDayOfInterval({ start: startOfWeek(anchor, WEEK_OPTIONS), end: endOfWeek(anchor, WEEK_OPTIONS) })
+    : eachDayOfInterval({
+        start: startOfWeek(startOfMonth(anchor), WEEK_OPTIONS),
+        end: endOfWeek(endOfMonth(anchor), WEEK_OPTIONS),
+      });
+
+export const itemsOnDay = (items: StudyPlanItem[], day: Date) =>
+  items.filter((item) => isSameDay(itemStart(item), day)).sort(byStart);
+
+export const deadlinesOnDay = (deadlines: StudyDeadline[], day: Date) =>
+  deadlines.filter((deadline) => isSameDay(deadlineTime(deadline.due_date), day));
+
+// Keeps the time of day when a task is dragged to another day
+export const moveToDay = (item: StudyPlanItem, day: Date) => {
+  const start = itemStart(item);
+  return set(day, { hours: start.getHours(), minutes: start.getMinutes(), seconds: 0, milliseconds: 0 });
+};
+
+const overlaps = (startA: Date, endA: Date, startB: Date, endB: Date) => startA < endB && startB < endA;
+
+const roundUpToStep = (date: Date) => {
+  const minutes = date.getHours() * 60 + date.getMinutes();
+  const rounded = Math.ceil(minutes / SLOT_STEP_MINUTES) * SLOT_STEP_MINUTES;
+  return set(date, { hours: 0, minutes: rounded, seconds: 0, milliseconds: 0 });
+};
+
+// First slot at or after `from`, inside study hours, that does not overlap any
+// of `items`. Returns null when nothing is free within MAX_SEARCH_DAYS.
+export function findNextFreeSlot(items: StudyPlanItem[], durationMinutes: number, from: Date): Date | null {
+  const limit = addDays(from, MAX_SEARCH_DAYS);
+  let candidate = roundUpToStep(from);
+
+  while (candidate < limit) {
+    const dayStart = set(candidate, { hours: STUDY_DAY_START_HOUR, minutes: 0, seconds: 0, milliseconds: 0 });
+    const dayEnd = set(candidate, { hours: STUDY_DAY_END_HOUR, minutes: 0, seconds: 0, milliseconds: 0 });
+
+    if (candidate < dayStart) {
+      candidate = dayStart;
+    }
+    const end = addMinutes(candidate, durationMinutes);
+    if (end > dayEnd) {
+      candidate = addDays(dayStart, 1);
+      continue;
+    }
+
+    const blocking = items.find((item) => overlaps(candidate, end, itemStart(item), itemEnd(item)));
+    if (!blocking) {
+      return candidate;
+    }
+    candidate = roundUpToStep(itemEnd(blocking));
+  }
+
+  return null;
+}
+
+export const isOverdue = (item: StudyPlanItem, now: Date) => !item.is_completed && itemEnd(item) < now;
+
+// Moves every overdue task, oldest first, to the next free slot from `now`.
+// Each moved task claims its slot before the next one is placed.
+export function planRollover(items: StudyPlanItem[], now: Date): { id: string; due_date: string }[] {
+  const overdue = items.filter((item) => isOverdue(item, now)).sort(byStart);
+  const overdueIds = new Set(overdue.map((item) => item.id));
+  const placed = items.filter((item) => !overdueIds.has(item.id));
+  const moves: { id: string; due_date: string }[] = [];
+
+  for (const item of overdue) {
+    const slot = findNextFreeSlot(placed, item.duration_minutes, now);
+    if (!slot) continue;
+    const moved = { ...item, due_date: slot.toISOString() };
+    placed.push(moved);
+    moves.push({ id: item.id, due_date: moved.due_date });
+  }
+
+  return moves;
+}
+
+// Start times of a task repeated on the given weekdays (0 = Sunday) from
+// `start` until the end of `until`, capped at MAX_OCCURRENCES
+export function recurrenceDates(start: Date, weekdays: number[], until: Date): Date[] {
+  if (weekdays.length === 0) return [start];
+  return eachDayOfInterval({ start, end: endOfDay(until) })
+    .filter((day) => weekdays.includes(day.getDay()))
+    .slice(0, MAX_OCCURRENCES)
+    .map((day) => set(day, { hours: start.getHours(), minutes: start.getMinutes(), seconds: 0, milliseconds: 0 }));
+}
+
+// Why each unfinished task needs attention, keyed by task id: it ends after
+// the assignment it works towards is due, it overlaps another task, or it
+// sits on a day something else is due
+export function findConflicts(items: StudyPlanItem[], deadlines: StudyDeadline[]): Record<string, string[]> {
+  const deadlineById = new Map(deadlines.map((deadline) => [deadline.id, deadline]));
+  const open = items.filter((item) => !item.is_completed).sort(byStart);
+  const conflicts: Record<string, string[]> = {};
+  const flag = (id: string, reason: string) => {
+    (conflicts[id] ||= []).push(reason);
+  };
+
+  open.forEach((item, index) => {
+    const deadline = item.source_id ? deadlineById.get(item.source_id) : undefined;
+    if (deadline && itemEnd(item) > deadlineTime(deadline.due_date)) {
+      flag(item.id, `Ends after "${deadline.title}" is due`);
+    }
+
+    for (const other of open.slice(index + 1)) {
+      if (itemStart(other) >= itemEnd(item)) break;
+      flag(item.id, `Overlaps "${other.title}"`);
+      flag(other.id, `Overlaps "${item.title}"`);
+    }
+
+    deadlines
+      .filter((due) => due.id !== item.source_id && isSameDay(deadlineTime(due.due_date), itemStart(item)))
+      .forEach((due) => flag(item.id, `"${due.title}" is due the same day`));
+  });
+
+  return conflicts;
+}
@@ -0,0 +1,65 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createMemoryRepositories, enrollmentId, setRepositories } from "@/lib/repositories";
+import { AIGeneratedCourse } from "../types/ai-course-types";
+import { fetchStudyPlanContext } from "./study-plan-utils";
+
+// Builds the scheduler's input from data in the in-memory backend
+
+const module = (id: string, day: number) => ({ id, title: `Module ${id}`, description: "", topics: [], day });
+
+const aiCourse: AIGeneratedCourse = {
+  id: "ai-1",
+  title: "Intro to Chemistry",
+  description: "",
+  syllabus: "",
+  durationDays: 7,
+  modules: [module("m3", 3), module("m1", 1), module("m2", 2)],
+  createdAt: "2026-03-01T00:00:00.000Z",
+  user_id: "student-1",
+  completedModuleIds: ["m1"],
+};
+
+const options = { startDate: new Date(2026, 2, 10), days: 7, hoursPerDay: 2, dayStart: "09:00" };
+
+beforeEach(() => {
+  setRepositories(
+    createMemoryRepositories({
+      courses: [
+        { id: "course-1", title: "Biology", description: "", instructor_id: "teacher-1", is_archived: false, created_at: "", updated_at: "" },
+      ],
+      enrollments: [
+        { id: enrollmentId("course-1", "student-1"), course_id: "course-1", student_id: "student-1", enrolled_at: "", completed: false },
+      ],
+      assignments: [
+        { id: "later", course_id: "course-1", title: "Lab report", due_date: "2026-03-20T12:00:00", points: 10, created_at: "" },
+        { id: "sooner", course_id: "course-1", title: "Reading", due_date: "2026-03-12T12:00:00", points: 10, created_at: "" },
+        { id: "past", course_id: "course-1", title: "Quiz 1", due_date: "2026-03-01T12:00:00", points: 10, created_at: "" },
+        { id: "handed-in", course_id: "course-1", title: "Essay", due_date: "2026-03-15T12:00:00", points: 10, created_at: "" },
+      ],
+      submissions: [{ id: "submission-1", assignment_id: "handed-in", user_id: "student-1", submitted_at: 1 }],
+      aiCourses: [aiCourse, { ...aiCourse, id: "ai-2", title: "Someone else's", user_id: "student-2" }],
+    })
+  );
+});
+
+describe("fetchStudyPlanContext", () => {
+  it("lists the enrolled courses and upcoming unsubmitted deadlines, soonest first", async () => {
+    const context = await fetchStudyPlanContext("student-1", options);
+
+    expect(context).toMatchObject({ startDate: "2026-03-10", days: 7, hoursPerDay: 2, dayStart: "09:00" });
+    expect(context.courses).toEqual([{ id: "course-1", title: "Biology" }]);
+    expect(context.deadlines).toEqual([
+      { id: "sooner", title: "Reading", course: "Biology", dueDate: "2026-03-12" },
+      { id: "later", title: "Lab report", course: "Biology", dueDate: "2026-03-20" },
+    ]);
+  });
+
+  it("includes the student's unfinished AI course modules in order", async () => {
+    const { modules } = await fetchStudyPlanContext("student-1", options);
+
+    expect(modules).toEqual([
+      { id: "m2", title: "Module m2", course: "Intro to Chemistry", day: 2 },
+      { id: "m3", title: "Module m3", course: "Intro to Chemistry", day: 3 },
+    ]);
+  });
+});
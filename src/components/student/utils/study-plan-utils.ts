@@ -0,0 +1,150 @@
+import { format } from "date-fns";
+import { invokeAIFunction } from "@/lib/ai-client";
+import { getRepositories } from "@/lib/repositories";
+import { StudyPlan, StudyPlanItem } from "@/lib/types";
+import { fetchStudentAssignments } from "./assignment-utils";
+import {
+  StudyPlanContext,
+  StudyPlanResponse,
+} from "../../../../supabase/functions/_shared/study-plan";
+
+export interface StudyPlanOptions {
+  startDate: Date;
+  days: number;
+  hoursPerDay: number;
+  dayStart: string;
+}
+
+// Keeps the prompt small; the scheduler could not fit more in two weeks anyway
+const MAX_DEADLINES = 20;
+const MAX_MODULES_PER_COURSE = 5;
+
+const fetchEnrolledCourses = async (userId: string): Promise<StudyPlanContext["courses"]> => {
+  const { enrollments, courses } = getRepositories();
+  const courseIds = new Set((await enrollments.listByStudent(userId)).map((enrollment) => enrollment.course_id));
+  const enrolled = await Promise.all([...courseIds].map((courseId) => courses.get(courseId)));
+  return enrolled
+    .filter((course) => course !== null)
+    .map((course) => ({ id: course.id, title: course.title || "Untitled course" }));
+};
+
+// From the AI-generated courses the student saved
+const fetchUnfinishedModules = async (userId: string) => {
+  const aiCourses = await getRepositories().aiCourses.listByUser(userId);
+  const modules: StudyPlanContext["modules"] = [];
+
+  aiCourses.forEach((course) => {
+    const completed = new Set(course.completedModuleIds || []);
+    (course.modules || [])
+      .filter((module) => !completed.has(module.id))
+      .sort((a, b) => a.day - b.day)
+      .slice(0, MAX_MODULES_PER_COURSE)
+      .forEach((module) => {
+        modules.push({ id: module.id, title: module.title, course: course.title, day: module.day });
+      });
+  });
+
+  return modules;
+};
+
+export async function fetchStudyPlanContext(userId: string, options: StudyPlanOptions): Promise<StudyPlanContext> {
+  const startDate = format(options.startDate, "yyyy-MM-dd");
+
+  const [courses, assignments, modules] = await Promise.all([
+    fetchEnrolledCourses(userId),
+    fetchStudentAssignments(userId),
+    fetchUnfinishedModules(userId),
+  ]);
+
+  const deadlines = assignments
+    .filter((assignment) => !assignment.submitted && assignment.due_date)
+    .map((assignment) => ({
+      id: assignment.id,
+      title: assignment.title,
+      course: assignment.course_name || "Unknown Course",
+      dueDate: format(new Date(assignment.due_date!), "yyyy-MM-dd"),
+    }))
+    .filter((deadline) => deadline.dueDate >= startDate)
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate))
+    .slice(0, MAX_DEADLINES);
+
+  return {
+    startDate,
+    days: options.days,
+    hoursPerDay: options.hoursPerDay,
+    dayStart: options.dayStart,
+    courses,
+    deadlines,
+    modules,
+  };
+}
+
+// Falls back to the heuristic scheduler on the server when the selected
+// provider has no key configured; `source` says which one produced the plan
+export const generateStudyPlan = (context: StudyPlanContext) =>
+  invokeAIFunction<StudyPlanResponse>("generate-study-plan", { context });
+
+const DEFAULT_PLAN_TITLE = "My Study Plan";
+
+export type NewStudyPlanItem = Omit<StudyPlanItem, "id" | "study_plan_id" | "user_id" | "is_completed" | "completed_at">;
+
+export async function createStudyPlan(
+  userId: string,
+  plan: Pick<StudyPlan, "title" | "start_date" | "end_date" | "is_ai_generated"> & { description?: string }
+): Promise<StudyPlan> {
+  return getRepositories().studyPlans.createPlan({ ...plan, user_id: userId, created_at: new Date().toISOString() });
+}
+
+// Plans are listed first: listing them moves any legacy task documents into items
+export async function fetchStudyPlans(userId: string): Promise<{ plans: StudyPlan[]; items: StudyPlanItem[] }> {
+  const { studyPlans } = getRepositories();
+  const plans = await studyPlans.listPlans(userId);
+  const items = await studyPlans.listItems(userId);
+  return { plans, items };
+}
+
+// Tasks added by hand go into the student's default plan, created on first use
+export async function getDefaultStudyPlan(userId: string, plans: StudyPlan[]): Promise<StudyPlan> {
+  const existing = plans.find((plan) => !plan.is_ai_generated);
+  if (existing) return existing;
+  const today = format(new Date(), "yyyy-MM-dd");
+  return createStudyPlan(userId, { title: DEFAULT_PLAN_TITLE, start_date: today, end_date: today, is_ai_generated: false });
+}
+
+export async function addStudyPlanItems(plan: StudyPlan, newItems: NewStudyPlanItem[]): Promise<StudyPlanItem[]> {
+  const { studyPlans } = getRepositories();
+  const items = await studyPlans.createItems(
+    newItems.map((newItem) => ({ ...newItem, study_plan_id: plan.id, user_id: plan.user_id, is_completed: false }))
+  );
+
+  // Keep the plan's date range covering its items
+  const days = items.map((item) => format(new Date(item.due_date), "yyyy-MM-dd"));
+  const startDate = [plan.start_date, ...days].sort()[0];
+  const endDate = [plan.end_date, ...days].sort().reverse()[0];
+  if (startDate !== plan.start_date || endDate !== plan.end_date) {
+    await studyPlans.updatePlan(plan.id, { start_date: startDate, end_date: endDate });
+  }
+
+  return items;
+}
+
+export async function rescheduleStudyPlanItems(moves: { id: string; due_date: string }[]) {
+  await getRepositories().studyPlans.updateItems(moves.map(({ id, due_date }) => ({ id, changes: { due_date } })));
+}
+
+export async function updateStudyPlanItem(
+  id: string,
+  changes: Partial<Pick<StudyPlanItem, "title" | "course" | "due_date" | "duration_minutes" | "type" | "description">>
+) {
+  await getRepositories().studyPlans.updateItems([{ id, changes }]);
+}
+
+export async function setStudyPlanItemCompleted(id: string, completed: boolean) {
+  await getRepositories().studyPlans.updateItems([
+    { id, changes: { is_completed: completed, completed_at: completed ? new Date().toISOString() : undefined } },
+  ]);
+}
+
+export async function deleteStudyPlanItems(ids: string[]) {
+  await getRepositories().studyPlans.removeItems(ids);
+}
@@ -0,0 +1,5 @@
+import { getRepositories } from "@/lib/repositories";
+
+// XP is awarded by the server (see server/practice-quizzes.cjs); the database
+// rules keep students from writing it themselves.
+export const fetchUserXP = (userId: string) => getRepositories().practiceQuizzes.listXPByUser(userId);
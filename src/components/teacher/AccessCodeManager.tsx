@@ -1,171 +1,155 @@
-
 import React, { useState, useEffect } from "react";
+import { format } from "date-fns";
 import { useAuth } from "@/contexts/AuthContext";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
-import { Copy, Key, RefreshCw, Loader2 } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Ban, Copy, Key, Plus, RefreshCw, Loader2 } from "lucide-react";
 import { toast } from "sonner";
-import { ref, push, set, get, query, orderByChild, equalTo, onValue } from "firebase/database";
-import { database } from "@/firebase";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AccessCode, Course } from "@/lib/types";
+import { getRepositories } from "@/lib/repositories";
+import {
+  AccessCodeStatus,
+  accessCodeStatus,
+  createAccessCode,
+  revokeAccessCode,
+  rotateAccessCode,
+  setSharedAccessCode,
+  sharedAccessCode,
+  subscribeToAccessCodes,
+} from "@/lib/access-codes";
 
-const generateRandomCode = () => {
-  const chars = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789"; // Removed similar looking characters
-  let code = "";
-  for (let i = 0; i < 6; i++) {
-    code += chars.charAt(Math.floor(Math.random() * chars.length));
-  }
-  return code;
+interface AccessCodeManagerProps {
+  courseId?: string; // Manage one course's codes instead of all of the teacher's
+}
+
+const STATUS_BADGES: Record<AccessCodeStatus, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  active: { label: "Active", variant: "default" },
+  expired: { label: "Expired", variant: "secondary" },
+  used_up: { label: "Used up", variant: "secondary" },
+  revoked: { label: "Revoked", variant: "destructive" },
 };
 
-export const AccessCodeManager = () => {
+export const AccessCodeManager: React.FC<AccessCodeManagerProps> = ({ courseId }) => {
   const { user } = useAuth();
-  const [codes, setCodes] = useState([]);
+  const [codes, setCodes] = useState<AccessCode[]>([]);
   const [isGenerating, setIsGenerating] = useState(false);
-  const [selectedCourse, setSelectedCourse] = useState("");
-  const [courses, setCourses] = useState<any[]>([]);
+  const [selectedCourse, setSelectedCourse] = useState(courseId || "");
+  const [courses, setCourses] = useState<Course[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [section, setSection] = useState("");
+  const [expiresAt, setExpiresAt] = useState("");
+  const [maxUses, setMaxUses] = useState("");
+  const [requiresApproval, setRequiresApproval] = useState(false);
+  const [busyCodeId, setBusyCodeId] = useState<string | null>(null);
 
   useEffect(() => {
     if (!user?.id) return;
-    
+
     // Fetch courses created by this teacher
-    const coursesRef = ref(database, 'courses');
-    const coursesQuery = query(
-      coursesRef,
-      orderByChild('instructor_id'),
-      equalTo(user.id)
-    );
-    
-    const coursesUnsubscribe = onValue(coursesQuery, (snapshot) => {
-      if (!snapshot.exists()) {
-        setCourses([]);
-        return;
-      }
-      
-      const coursesData: any[] = [];
-      snapshot.forEach((childSnapshot) => {
-        const courseData = childSnapshot.val();
-        if (!courseData.is_archived) {
-          coursesData.push({
-            id: childSnapshot.key,
-            ...courseData
-          });
-        }
-      });
-      
+    const coursesUnsubscribe = getRepositories().courses.subscribeByInstructor(user.id, (teacherCourses) => {
+      const coursesData = teacherCourses.filter((course) => !course.is_archived);
       setCourses(coursesData);
-      
+
       // Auto-select first course if none selected
-      if (coursesData.length > 0 && !selectedCourse) {
-        setSelectedCourse(coursesData[0].id);
+      if (coursesData.length > 0) {
+        setSelectedCourse(current => current || coursesData[0].id);
       }
     });
-    
-    // Fetch access codes for this teacher
-    const codesRef = ref(database, 'access_codes');
-    const codesQuery = query(
-      codesRef,
-      orderByChild('teacher_id'),
-      equalTo(user.id)
-    );
-    
-    const codesUnsubscribe = onValue(codesQuery, (snapshot) => {
-      setIsLoading(false);
-      
-      if (!snapshot.exists()) {
-        setCodes([]);
-        return;
-      }
-      
-      const codesData: any[] = [];
-      snapshot.forEach((childSnapshot) => {
-        codesData.push({
-          id: childSnapshot.key,
-          ...childSnapshot.val()
+
+    const codesUnsubscribe = courseId
+      ? subscribeToAccessCodes('course_id', courseId, (courseCodes) => {
+          setCodes(courseCodes);
+          setIsLoading(false);
+        })
+      : subscribeToAccessCodes('teacher_id', user.id, (teacherCodes) => {
+          setCodes(teacherCodes);
+          setIsLoading(false);
         });
-      });
-      
-      setCodes(codesData);
-    });
-    
+
     return () => {
       coursesUnsubscribe();
       codesUnsubscribe();
     };
-  }, [user?.id]);
+  }, [user?.id, courseId]);
 
   const handleGenerateCode = async () => {
     if (!user?.id) {
       toast.error("You must be logged in to generate an access code");
       return;
     }
-    
+
     if (!selectedCourse) {
       toast.error("Please select a course first");
       return;
     }
-    
+
+    const expires = expiresAt ? new Date(expiresAt).getTime() : undefined;
+    if (expires !== undefined && expires <= Date.now()) {
+      toast.error("The expiry date must be in the future");
+      return;
+    }
+
     setIsGenerating(true);
-    
+
     try {
-      // Check course exists
-      const courseRef = ref(database, `courses/${selectedCourse}`);
-      const courseSnapshot = await get(courseRef);
-      
-      if (!courseSnapshot.exists()) {
-        toast.error("Selected course does not exist");
-        return;
-      }
-      
-      // Generate a new code and ensure it's unique
-      let newCode = generateRandomCode();
-      let isUnique = false;
-      let attempts = 0;
-      
-      while (!isUnique && attempts < 5) {
-        const codeQuery = query(
-          ref(database, 'access_codes'),
-          orderByChild('code'),
-          equalTo(newCode)
-        );
-        
-        const codeSnapshot = await get(codeQuery);
-        isUnique = !codeSnapshot.exists();
-        
-        if (!isUnique) {
-          newCode = generateRandomCode();
-        }
-        
-        attempts++;
-      }
-      
-      if (!isUnique) {
-        toast.error("Failed to generate a unique code. Please try again.");
-        return;
-      }
-      
-      // Create the access code
-      const codeRef = push(ref(database, 'access_codes'));
-      await set(codeRef, {
-        code: newCode,
-        teacher_id: user.id,
-        course_id: selectedCourse,
-        created_at: new Date().toISOString(),
-        is_active: true
+      const course = courses.find(c => c.id === selectedCourse);
+      const hadSharedCode = course && sharedAccessCode(codes, course);
+      const code = await createAccessCode(user.id, selectedCourse, {
+        section,
+        expires_at: expires,
+        max_uses: maxUses ? Math.max(1, parseInt(maxUses) || 1) : undefined,
+        requires_approval: requiresApproval,
       });
-      
+
+      // Courses without a shareable code show the first one generated
+      if (course && !hadSharedCode) {
+        await setSharedAccessCode(selectedCourse, code);
+      }
+
+      setSection("");
+      setExpiresAt("");
+      setMaxUses("");
+      setRequiresApproval(false);
       toast.success("Access code generated successfully");
     } catch (error) {
       console.error("Error generating access code:", error);
-      toast.error("Failed to generate access code");
+      toast.error(error instanceof Error ? error.message : "Failed to generate access code");
     } finally {
       setIsGenerating(false);
     }
   };
 
+  const handleRevoke = async (code: AccessCode) => {
+    setBusyCodeId(code.id);
+    try {
+      await revokeAccessCode(code);
+      toast.success(`Access code ${code.code} revoked`);
+    } catch (error) {
+      console.error("Error revoking access code:", error);
+      toast.error("Failed to revoke access code");
+    } finally {
+      setBusyCodeId(null);
+    }
+  };
+
+  const handleRotate = async (code: AccessCode) => {
+    setBusyCodeId(code.id);
+    try {
+      const replacement = await rotateAccessCode(code);
+      toast.success(`Access code ${code.code} replaced by ${replacement.code}`);
+    } catch (error) {
+      console.error("Error rotating access code:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to rotate access code");
+    } finally {
+      setBusyCodeId(null);
+    }
+  };
+
   const handleCopyCode = (code: string) => {
     navigator.clipboard.writeText(code);
     toast.success("Access code copied to clipboard");
@@ -191,39 +175,83 @@ export const AccessCodeManager = () => {
       </CardHeader>
       <CardContent className="space-y-4">
         <p className="text-sm text-muted-foreground mb-4">
-          Generate access codes for your students to join your courses.
+          Generate access codes for your students to join {courseId ? "this course" : "your courses"}.
         </p>
-        
+
         <div className="space-y-4">
-          <div className="space-y-2">
-            <Label htmlFor="course-select">Select Course</Label>
-            <Select
-              value={selectedCourse}
-              onValueChange={setSelectedCourse}
-            >
-              <SelectTrigger id="course-select">
-                <SelectValue placeholder="Select a course" />
-              </SelectTrigger>
-              <SelectContent>
-                {courses.length === 0 ? (
-                  <SelectItem value="no-courses" disabled>
-                    No courses available
-                  </SelectItem>
-                ) : (
-                  courses.map((course) => (
-                    <SelectItem key={course.id} value={course.id}>
-                      {course.title}
+          {!courseId && (
+            <div className="space-y-2">
+              <Label htmlFor="course-select">Select Course</Label>
+              <Select
+                value={selectedCourse}
+                onValueChange={setSelectedCourse}
+              >
+                <SelectTrigger id="course-select">
+                  <SelectValue placeholder="Select a course" />
+                </SelectTrigger>
+                <SelectContent>
+                  {courses.length === 0 ? (
+                    <SelectItem value="no-courses" disabled>
+                      No courses available
                     </SelectItem>
-                  ))
-                )}
-              </SelectContent>
-            </Select>
+                  ) : (
+                    courses.map((course) => (
+                      <SelectItem key={course.id} value={course.id}>
+                        {course.title}
+                      </SelectItem>
+                    ))
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="code-section">Section</Label>
+              <Input
+                id="code-section"
+                value={section}
+                onChange={(e) => setSection(e.target.value)}
+                placeholder="Optional, e.g. Period 2"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="code-expires">Expires</Label>
+              <Input
+                id="code-expires"
+                type="datetime-local"
+                value={expiresAt}
+                onChange={(e) => setExpiresAt(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="code-max-uses">Maximum uses</Label>
+              <Input
+                id="code-max-uses"
+                type="number"
+                min="1"
+                value={maxUses}
+                onChange={(e) => setMaxUses(e.target.value)}
+                placeholder="Unlimited"
+              />
+            </div>
           </div>
-          
-          <Button 
-            onClick={handleGenerateCode} 
+
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="code-approval">Require approval</Label>
+              <p className="text-xs text-muted-foreground">
+                Students who use the code wait for you to approve them.
+              </p>
+            </div>
+            <Switch id="code-approval" checked={requiresApproval} onCheckedChange={setRequiresApproval} />
+          </div>
+
+          <Button
+            onClick={handleGenerateCode}
             className="w-full"
-            disabled={isGenerating || courses.length === 0 || !selectedCourse}
+            disabled={isGenerating || !selectedCourse || (!courseId && courses.length === 0)}
           >
             {isGenerating ? (
               <>
@@ -232,44 +260,80 @@ export const AccessCodeManager = () => {
               </>
             ) : (
               <>
-                <RefreshCw className="h-4 w-4 mr-2" />
+                <Plus className="h-4 w-4 mr-2" />
                 Generate New Code
               </>
             )}
           </Button>
         </div>
-        
+
         <div className="border-t pt-4 mt-4">
-          <h3 className="text-sm font-medium mb-3">Your Access Codes</h3>
-          
+          <h3 className="text-sm font-medium mb-3">{courseId ? "Course Access Codes" : "Your Access Codes"}</h3>
+
           {codes.length === 0 ? (
             <p className="text-sm text-muted-foreground">
               No access codes generated yet.
             </p>
           ) : (
             <div className="space-y-2">
-              {codes.map((code: any) => {
+              {codes.map((code) => {
                 const course = courses.find(c => c.id === code.course_id);
+                const status = accessCodeStatus(code);
+                const replacement = code.replaced_by ? codes.find(c => c.id === code.replaced_by) : undefined;
                 return (
-                  <div key={code.id} className="flex items-center justify-between p-2 bg-secondary/20 rounded-md">
-                    <div className="flex items-center">
-                      <Key className="h-4 w-4 mr-2 text-muted-foreground" />
-                      <div>
-                        <span className="font-mono font-medium">{code.code}</span>
-                        {course && (
-                          <p className="text-xs text-muted-foreground">
-                            {course.title}
-                          </p>
-                        )}
+                  <div key={code.id} className="flex items-center justify-between gap-2 p-2 bg-secondary/20 rounded-md">
+                    <div className="flex items-center min-w-0">
+                      <Key className="h-4 w-4 mr-2 text-muted-foreground shrink-0" />
+                      <div className="min-w-0">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className={`font-mono font-medium ${status === "active" ? "" : "text-muted-foreground line-through"}`}>
+                            {code.code}
+                          </span>
+                          <Badge variant={STATUS_BADGES[status].variant}>{STATUS_BADGES[status].label}</Badge>
+                          {code.section && <Badge variant="outline">{code.section}</Badge>}
+                          {code.requires_approval && <Badge variant="outline">Needs approval</Badge>}
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          {!courseId && course ? `${course.title} · ` : ""}
+                          {code.use_count || 0}{code.max_uses !== undefined ? ` / ${code.max_uses}` : ""} uses
+                          {code.expires_at !== undefined && ` · ${status === "expired" ? "Expired" : "Expires"} ${format(code.expires_at, "MMM d, yyyy h:mm a")}`}
+                          {replacement && ` · Replaced by ${replacement.code}`}
+                        </p>
                       </div>
                     </div>
-                    <Button 
-                      variant="ghost" 
-                      size="icon" 
-                      onClick={() => handleCopyCode(code.code)}
-                    >
-                      <Copy className="h-4 w-4" />
-                    </Button>
+                    <div className="flex shrink-0">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleCopyCode(code.code)}
+                        disabled={status !== "active"}
+                        title="Copy"
+                      >
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                      {code.is_active && (
+                        <>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleRotate(code)}
+                            disabled={busyCodeId === code.id}
+                            title="Replace with a new code"
+                          >
+                            <RefreshCw className={`h-4 w-4 ${busyCodeId === code.id ? 'animate-spin' : ''}`} />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleRevoke(code)}
+                            disabled={busyCodeId === code.id}
+                            title="Revoke"
+                          >
+                            <Ban className="h-4 w-4" />
+                          </Button>
+                        </>
+                      )}
+                    </div>
                   </div>
                 );
               })}
@@ -0,0 +1,98 @@
+import React, { useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { X } from "lucide-react";
+import { InlineComment, TextSpan } from "@/lib/types";
+import { segmentByComments } from "@/lib/rubrics";
+
+export interface TextSelection extends TextSpan {
+  quote: string;
+}
+
+interface AnnotatedSubmissionProps {
+  content: string;
+  comments: InlineComment[];
+  language?: string; // Code submissions are shown in a monospace block
+  onSelect?: (selection: TextSelection | null) => void;
+  onRemoveComment?: (commentId: string) => void;
+}
+
+// Character offsets of the selection within the container's text, which is
+// the submission content because highlights only wrap it in <mark>s
+const selectionIn = (container: HTMLElement): TextSelection | null => {
+  const selection = window.getSelection();
+  if (!selection || selection.rangeCount === 0 || selection.isCollapsed) return null;
+  const range = selection.getRangeAt(0);
+  if (!container.contains(range.startContainer) || !container.contains(range.endContainer)) return null;
+
+  const before = range.cloneRange();
+  before.selectNodeContents(container);
+  before.setEnd(range.startContainer, range.startOffset);
+  const start = before.toString().length;
+  const quote = range.toString();
+  return quote.trim() ? { start, end: start + quote.length, quote } : null;
+};
+
+export const AnnotatedSubmission: React.FC<AnnotatedSubmissionProps> = ({
+  content,
+  comments,
+  language,
+  onSelect,
+  onRemoveComment,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const ordered = [...comments].sort((a, b) => a.start - b.start);
+  const numbers = new Map(ordered.map((comment, index) => [comment.id, index + 1]));
+
+  const handleMouseUp = () => {
+    if (onSelect && containerRef.current) {
+      onSelect(selectionIn(containerRef.current));
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div
+        ref={containerRef}
+        onMouseUp={handleMouseUp}
+        className={
+          language
+            ? "text-xs font-mono bg-muted p-3 rounded-md overflow-x-auto whitespace-pre"
+            : "text-sm bg-muted p-3 rounded-md whitespace-pre-wrap"
+        }
+      >
+        {segmentByComments(content, ordered).map((segment) =>
+          segment.comments.length > 0 ? (
+            <mark
+              key={segment.start}
+              className="bg-yellow-200 dark:bg-yellow-900 rounded-sm"
+              title={segment.comments.map((comment) => `${numbers.get(comment.id)}. ${comment.comment}`).join("\n")}
+            >
+              {segment.text}
+            </mark>
+          ) : (
+            <React.Fragment key={segment.start}>{segment.text}</React.Fragment>
+          )
+        )}
+      </div>
+
+      {ordered.length > 0 && (
+        <ol className="space-y-1">
+          {ordered.map((comment) => (
+            <li key={comment.id} className="flex items-start gap-2 text-sm">
+              <span className="font-medium">{numbers.get(comment.id)}.</span>
+              <div className="flex-1">
+                <span className="text-muted-foreground italic">"{comment.quote}"</span>
+                <p>{comment.comment}</p>
+              </div>
+              {onRemoveComment && (
+                <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => onRemoveComment(comment.id)}>
+                  <X className="h-3 w-3" />
+                </Button>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,114 @@
+import React, { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Eye, EyeOff, Paperclip, Download, Loader2 } from "lucide-react";
+import { FileAttachment, FileScanStatus } from "@/lib/types";
+import { fetchAttachmentText, fetchScanStatus, formatFileSize, previewKind } from "@/lib/attachments";
+
+interface AttachmentListProps {
+  attachments: FileAttachment[];
+  preview?: boolean; // Offer in-app previews of PDFs, images and source files
+}
+
+const TextPreview: React.FC<{ attachment: FileAttachment }> = ({ attachment }) => {
+  const [content, setContent] = useState<{ text: string; truncated: boolean } | null>(null);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    fetchAttachmentText(attachment)
+      .then(setContent)
+      .catch((fetchError) => {
+        console.error("Error loading file preview:", fetchError);
+        setError(true);
+      });
+  }, [attachment]);
+
+  if (error) {
+    return <p className="text-sm text-muted-foreground">The file could not be loaded for preview.</p>;
+  }
+  if (!content) {
+    return <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />;
+  }
+  return (
+    <div>
+      <pre className="text-sm font-mono bg-muted p-3 rounded-md max-h-96 overflow-auto whitespace-pre">{content.text}</pre>
+      {content.truncated && <p className="text-xs text-muted-foreground mt-1">Only the start of the file is shown.</p>}
+    </div>
+  );
+};
+
+const AttachmentPreview: React.FC<{ attachment: FileAttachment }> = ({ attachment }) => {
+  switch (previewKind(attachment)) {
+    case "pdf":
+      return <iframe src={attachment.url} title={attachment.name} className="w-full h-[32rem] border rounded-md" />;
+    case "image":
+      return <img src={attachment.url} alt={attachment.name} className="max-h-96 rounded-md border" />;
+    case "code":
+      return <TextPreview attachment={attachment} />;
+    default:
+      return null;
+  }
+};
+
+const SCAN_LABELS: Partial<Record<FileScanStatus, string>> = {
+  pending: "Virus scan pending",
+  unscanned: "Not virus-scanned",
+  removed: "Removed by virus scan",
+};
+
+const ScanBadge: React.FC<{ attachment: FileAttachment }> = ({ attachment }) => {
+  const [status, setStatus] = useState<FileScanStatus | null>(null);
+
+  useEffect(() => {
+    fetchScanStatus(attachment)
+      .then(setStatus)
+      .catch((fetchError) => console.error("Error checking the virus scan:", fetchError));
+  }, [attachment]);
+
+  const label = status && SCAN_LABELS[status];
+  if (!label) return null;
+  return (
+    <Badge variant={status === "removed" ? "destructive" : "outline"} className="text-xs">
+      {label}
+    </Badge>
+  );
+};
+
+export const AttachmentList: React.FC<AttachmentListProps> = ({ attachments, preview = false }) => {
+  const [previewPath, setPreviewPath] = useState<string | null>(null);
+
+  return (
+    <div className="space-y-2">
+      {attachments.map((attachment) => (
+        <div key={attachment.path} className="space-y-2">
+          <div className="flex items-center gap-2 text-sm">
+            <Paperclip className="h-4 w-4 text-muted-foreground" />
+            <a href={attachment.url} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline truncate">
+              {attachment.name}
+            </a>
+            <span className="text-muted-foreground whitespace-nowrap">{formatFileSize(attachment.size)}</span>
+            <ScanBadge attachment={attachment} />
+            <div className="ml-auto flex">
+              {preview && previewKind(attachment) && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setPreviewPath(previewPath === attachment.path ? null : attachment.path)}
+                >
+                  {previewPath === attachment.path ? <EyeOff className="h-4 w-4 mr-1" /> : <Eye className="h-4 w-4 mr-1" />}
+                  {previewPath === attachment.path ? "Hide" : "Preview"}
+                </Button>
+              )}
+              <Button variant="ghost" size="sm" asChild>
+                <a href={attachment.url} download={attachment.name} target="_blank" rel="noopener noreferrer">
+                  <Download className="h-4 w-4" />
+                </a>
+              </Button>
+            </div>
+          </div>
+          {previewPath === attachment.path && <AttachmentPreview attachment={attachment} />}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+import React from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { AttachmentPolicy, FileTypeGroup } from "@/lib/types";
+import { DEFAULT_ATTACHMENT_POLICY, FILE_TYPE_GROUPS, MAX_FILE_SIZE_MB } from "@/lib/attachments";
+
+interface AttachmentPolicyEditorProps {
+  value: AttachmentPolicy | null; // Null when students cannot attach files
+  onChange: (value: AttachmentPolicy | null) => void;
+}
+
+export const AttachmentPolicyEditor: React.FC<AttachmentPolicyEditorProps> = ({ value, onChange }) => {
+  const toggleType = (group: FileTypeGroup, checked: boolean) => {
+    if (!value) return;
+    const allowed_types = checked
+      ? [...value.allowed_types, group]
+      : value.allowed_types.filter((type) => type !== group);
+    if (allowed_types.length === 0) return;
+    onChange({ ...value, allowed_types });
+  };
+
+  return (
+    <div className="space-y-4 border rounded-md p-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h4 className="text-sm font-medium">File uploads</h4>
+          <p className="text-xs text-muted-foreground">Let students attach files to their submissions.</p>
+        </div>
+        <Switch checked={value !== null} onCheckedChange={(checked) => onChange(checked ? DEFAULT_ATTACHMENT_POLICY : null)} />
+      </div>
+
+      {value && (
+        <>
+          <div className="flex flex-wrap gap-4">
+            {(Object.keys(FILE_TYPE_GROUPS) as FileTypeGroup[]).map((group) => (
+              <div key={group} className="flex items-center gap-2">
+                <Checkbox
+                  id={`file-type-${group}`}
+                  checked={value.allowed_types.includes(group)}
+                  onCheckedChange={(checked) => toggleType(group, checked === true)}
+                />
+                <Label htmlFor={`file-type-${group}`} className="text-sm" title={FILE_TYPE_GROUPS[group].extensions.join(", ")}>
+                  {FILE_TYPE_GROUPS[group].label}
+                </Label>
+              </div>
+            ))}
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="max-size">Maximum size per file (MB)</Label>
+              <Input
+                id="max-size"
+                type="number"
+                min="1"
+                max={MAX_FILE_SIZE_MB}
+                value={value.max_size_mb}
+                onChange={(e) =>
+                  onChange({ ...value, max_size_mb: Math.min(MAX_FILE_SIZE_MB, Math.max(1, parseInt(e.target.value) || 1)) })
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="max-files">Maximum number of files</Label>
+              <Input
+                id="max-files"
+                type="number"
+                min="1"
+                value={value.max_files}
+                onChange={(e) => onChange({ ...value, max_files: Math.max(1, parseInt(e.target.value) || 1) })}
+              />
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
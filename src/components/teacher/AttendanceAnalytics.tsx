@@ -0,0 +1,207 @@
+import React, { useState, useEffect } from "react";
+import { format, parseISO } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { LineChart } from "@/components/ui/recharts";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/contexts/AuthContext";
+import { AttendancePolicy, AttendanceRecord } from "@/lib/types";
+import { AttendanceStanding, attendanceStanding, weeklyAttendanceTrend } from "@/lib/attendance";
+import { saveAttendancePolicy } from "./utils/attendance-utils";
+
+interface AttendanceAnalyticsProps {
+  courseId: string;
+  students: { id: string; name: string }[];
+  attendance: Record<string, AttendanceRecord[]>; // By student id
+  policy: AttendancePolicy;
+}
+
+const COURSE_TREND = "course";
+
+export const StandingBadge: React.FC<{ standing: AttendanceStanding }> = ({ standing }) => {
+  if (standing.level === "at_risk") return <Badge variant="destructive">At risk</Badge>;
+  if (standing.level === "warning") return <Badge className="bg-yellow-500">At the limit</Badge>;
+  return null;
+};
+
+const streakLabel = (standing: AttendanceStanding) => {
+  if (!standing.current_streak) return "—";
+  const { attended, length } = standing.current_streak;
+  return `${length} ${attended ? "attended" : "absent"}`;
+};
+
+export const AttendanceAnalytics: React.FC<AttendanceAnalyticsProps> = ({ courseId, students, attendance, policy }) => {
+  const { user } = useAuth();
+  const [draft, setDraft] = useState<AttendancePolicy>(policy);
+  const [isSaving, setIsSaving] = useState(false);
+  const [trendFor, setTrendFor] = useState(COURSE_TREND);
+
+  useEffect(() => {
+    setDraft(policy);
+  }, [policy]);
+
+  const standings = students
+    .map((student) => ({ student, standing: attendanceStanding(attendance[student.id] || [], policy) }))
+    .sort((a, b) => b.standing.effective_absences - a.standing.effective_absences || a.student.name.localeCompare(b.student.name));
+
+  const trendRecords = trendFor === COURSE_TREND ? Object.values(attendance).flat() : attendance[trendFor] || [];
+  const trend = weeklyAttendanceTrend(trendRecords).filter((point) => point.rate !== null);
+
+  const handleSave = async () => {
+    if (!user) return;
+    setIsSaving(true);
+    try {
+      await saveAttendancePolicy(courseId, draft, user.id);
+      toast.success("Attendance policy saved");
+    } catch (error) {
+      console.error("Error saving attendance policy:", error);
+      toast.error("Failed to save attendance policy");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Attendance Policy</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="at-risk-absences">At risk after more than this many absences</Label>
+              <Input
+                id="at-risk-absences"
+                type="number"
+                min="0"
+                value={draft.at_risk_absences}
+                onChange={(e) => setDraft({ ...draft, at_risk_absences: Math.max(0, parseInt(e.target.value) || 0) })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="lates-per-absence">Lates that count as one absence</Label>
+              <Input
+                id="lates-per-absence"
+                type="number"
+                min="0"
+                value={draft.lates_per_absence}
+                onChange={(e) => setDraft({ ...draft, lates_per_absence: Math.max(0, parseInt(e.target.value) || 0) })}
+              />
+              <p className="text-xs text-muted-foreground">Set to 0 so lates never count as absences.</p>
+            </div>
+          </div>
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="notify-students">Notify students</Label>
+              <p className="text-xs text-muted-foreground">
+                Students get a notification when they reach the limit and again when they go over it.
+              </p>
+            </div>
+            <Switch
+              id="notify-students"
+              checked={draft.notify_students}
+              onCheckedChange={(checked) => setDraft({ ...draft, notify_students: checked })}
+            />
+          </div>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save Policy
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>Weekly Attendance Rate</CardTitle>
+          <Select value={trendFor} onValueChange={setTrendFor}>
+            <SelectTrigger className="w-[220px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={COURSE_TREND}>Whole course</SelectItem>
+              {students.map((student) => (
+                <SelectItem key={student.id} value={student.id}>
+                  {student.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          {trend.length === 0 ? (
+            <p className="text-center py-6 text-muted-foreground">No attendance recorded yet</p>
+          ) : (
+            <LineChart
+              height={280}
+              data={{
+                labels: trend.map((point) => format(parseISO(point.week), "MMM d")),
+                datasets: [
+                  {
+                    label: "Attendance (%)",
+                    data: trend.map((point) => point.rate!),
+                    borderColor: "hsl(var(--primary))",
+                    backgroundColor: "hsla(var(--primary), 0.1)",
+                  },
+                ],
+              }}
+            />
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Students</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Student</TableHead>
+                <TableHead className="text-right">Rate</TableHead>
+                <TableHead className="text-right">Present</TableHead>
+                <TableHead className="text-right">Late</TableHead>
+                <TableHead className="text-right">Absent</TableHead>
+                <TableHead className="text-right">Excused</TableHead>
+                <TableHead className="text-right" title="Absences plus the absences lates add up to">
+                  Counted Absences
+                </TableHead>
+                <TableHead>Current Streak</TableHead>
+                <TableHead className="text-right">Best Streak</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {standings.map(({ student, standing }) => (
+                <TableRow key={student.id}>
+                  <TableCell className="font-medium">{student.name}</TableCell>
+                  <TableCell className="text-right">{standing.rate === null ? "—" : `${standing.rate}%`}</TableCell>
+                  <TableCell className="text-right">{standing.present}</TableCell>
+                  <TableCell className="text-right">{standing.late}</TableCell>
+                  <TableCell className="text-right">{standing.absent}</TableCell>
+                  <TableCell className="text-right">{standing.excused}</TableCell>
+                  <TableCell className="text-right">
+                    {standing.effective_absences} / {policy.at_risk_absences}
+                  </TableCell>
+                  <TableCell>{streakLabel(standing)}</TableCell>
+                  <TableCell className="text-right">{standing.longest_attended_streak}</TableCell>
+                  <TableCell>
+                    <StandingBadge standing={standing} />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -1,17 +1,24 @@
 
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useCallback } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Badge } from "@/components/ui/badge";
-import { database } from "@/firebase";
-import { ref, onValue, push, set, update, query, orderByChild, equalTo } from "firebase/database";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
 import { useAuth } from "@/contexts/AuthContext";
 import { toast } from "sonner";
-import { format } from "date-fns";
-import { CalendarCheck, Users, Check, X, UserCheck } from "lucide-react";
-import { AttendanceRecord } from "@/lib/types";
+import { format, parseISO } from "date-fns";
+import { CalendarCheck, Users, Check, X, UserCheck, CheckCheck } from "lucide-react";
+import { AttendancePolicy, AttendanceRecord, AttendanceSession, AttendanceStatus } from "@/lib/types";
+import { getRepositories } from "@/lib/repositories";
+import { DEFAULT_ATTENDANCE_POLICY, attendanceStanding, subscribeToAttendancePolicy } from "@/lib/attendance";
+import { CheckInSession } from "./CheckInSession";
+import { AttendanceAnalytics, StandingBadge } from "./AttendanceAnalytics";
+import { markAllPresent } from "./utils/attendance-utils";
 
 interface AttendanceTrackerProps {
   courseId?: string;
@@ -23,79 +30,52 @@ export const AttendanceTracker: React.FC<AttendanceTrackerProps> = ({ courseId }
   const [selectedDate, setSelectedDate] = useState<Date>(new Date());
   const [loading, setLoading] = useState(true);
   const [savingAttendance, setSavingAttendance] = useState(false);
+  const [checkInDate, setCheckInDate] = useState<string | null>(null);
+  const [policy, setPolicy] = useState<AttendancePolicy>(DEFAULT_ATTENDANCE_POLICY);
+  const [excusing, setExcusing] = useState<{ id: string; name: string } | null>(null);
+  const [excuseNote, setExcuseNote] = useState("");
   const { user } = useAuth();
 
+  // Show the day being checked in while a session is open
+  const handleSessionChange = useCallback((session: AttendanceSession | null) => setCheckInDate(session?.date ?? null), []);
+
+  useEffect(() => {
+    if (checkInDate) setSelectedDate(parseISO(checkInDate));
+  }, [checkInDate]);
+
   useEffect(() => {
     if (!user || !courseId) return;
 
+    const { enrollments, attendance: attendanceRecords } = getRepositories();
+
     // Find students enrolled in this course
-    const enrollmentsRef = query(
-      ref(database, 'enrollments'),
-      orderByChild('course_id'),
-      equalTo(courseId)
-    );
-    
-    const unsubscribe = onValue(enrollmentsRef, (snapshot) => {
-      if (!snapshot.exists()) {
-        setStudents([]);
-        setLoading(false);
-        return;
-      }
-      
-      const enrolledStudents: any[] = [];
-      snapshot.forEach((childSnapshot) => {
-        const enrollment = childSnapshot.val();
-        enrolledStudents.push({
+    const unsubscribeEnrollments = enrollments.subscribeByCourse(courseId, (courseEnrollments) => {
+      setStudents(
+        courseEnrollments.map((enrollment) => ({
           id: enrollment.student_id,
           name: enrollment.student_name || `Student ${enrollment.student_id.substring(0, 6)}`,
           enrolled_at: enrollment.enrolled_at,
-        });
-      });
-      
-      setStudents(enrolledStudents);
-      
-      // Now fetch attendance for these students
-      fetchAttendanceRecords(enrolledStudents, courseId);
+        }))
+      );
+      setLoading(false);
     });
-    
-    return () => unsubscribe();
-  }, [user, courseId]);
 
-  const fetchAttendanceRecords = (studentList: any[], courseId: string) => {
-    if (studentList.length === 0) {
-      setLoading(false);
-      return;
-    }
-    
-    const attendanceRef = query(
-      ref(database, 'attendance'),
-      orderByChild('courseId'),
-      equalTo(courseId)
-    );
-    
-    onValue(attendanceRef, (snapshot) => {
+    const unsubscribeAttendance = attendanceRecords.subscribeByCourse(courseId, (records) => {
       const attendanceByStudent: Record<string, AttendanceRecord[]> = {};
-      
-      studentList.forEach(student => {
-        attendanceByStudent[student.id] = [];
+      records.forEach((record) => {
+        attendanceByStudent[record.student_id] = [...(attendanceByStudent[record.student_id] || []), record];
       });
-      
-      if (snapshot.exists()) {
-        snapshot.forEach((childSnapshot) => {
-          const record = childSnapshot.val();
-          if (attendanceByStudent[record.student_id]) {
-            attendanceByStudent[record.student_id].push({
-              id: childSnapshot.key || '',
-              ...record
-            });
-          }
-        });
-      }
-      
       setAttendance(attendanceByStudent);
-      setLoading(false);
     });
-  };
+
+    const unsubscribePolicy = subscribeToAttendancePolicy(courseId, setPolicy);
+
+    return () => {
+      unsubscribeEnrollments();
+      unsubscribeAttendance();
+      unsubscribePolicy();
+    };
+  }, [user, courseId]);
 
   const getAttendanceForDateAndStudent = (studentId: string, date: Date) => {
     const dateString = format(date, 'yyyy-MM-dd');
@@ -106,7 +86,7 @@ export const AttendanceTracker: React.FC<AttendanceTrackerProps> = ({ courseId }
     );
   };
 
-  const markAttendance = async (studentId: string, status: "present" | "absent" | "late") => {
+  const markAttendance = async (studentId: string, status: AttendanceStatus, note?: string) => {
     if (!user || !courseId) return;
     
     setSavingAttendance(true);
@@ -114,50 +94,54 @@ export const AttendanceTracker: React.FC<AttendanceTrackerProps> = ({ courseId }
     const existingRecord = getAttendanceForDateAndStudent(studentId, selectedDate);
     
     try {
+      const { attendance: attendanceRecords } = getRepositories();
       if (existingRecord) {
-        // Update existing record
-        const recordRef = ref(database, `attendance/${existingRecord.id}`);
-        await update(recordRef, { status });
+        await attendanceRecords.update(existingRecord.id, { status, note });
       } else {
-        // Create new record
-        const attendanceRef = push(ref(database, 'attendance'));
-        const newRecord = {
-          id: attendanceRef.key,
+        await attendanceRecords.create({
           student_id: studentId,
-          courseId: courseId,
+          teacher_id: user.id,
+          courseId,
           date: dateString,
           status,
+          note,
           recorded_at: new Date().toISOString(),
-        };
-        
-        await set(attendanceRef, newRecord);
+        });
       }
-      
+
+      // The subscription above picks up the change
       toast.success(`Marked student as ${status} for ${format(selectedDate, 'PP')}`);
-      
-      // Update local state
-      setAttendance(prev => {
-        const newAttendance = { ...prev };
-        const studentRecords = [...(newAttendance[studentId] || [])];
-        
-        if (existingRecord) {
-          const index = studentRecords.findIndex(r => r.id === existingRecord.id);
-          if (index !== -1) {
-            studentRecords[index] = { ...existingRecord, status };
-          }
-        } else {
-          studentRecords.push({
-            id: Math.random().toString(36).substring(2, 11), 
-            student_id: studentId,
-            courseId, 
-            date: dateString,
-            status,
-          } as AttendanceRecord);
-        }
-        
-        newAttendance[studentId] = studentRecords;
-        return newAttendance;
-      });
+    } catch (error) {
+      console.error("Error recording attendance:", error);
+      toast.error("Failed to record attendance");
+    } finally {
+      setSavingAttendance(false);
+    }
+  };
+
+  const handleExcuse = async () => {
+    if (!excusing) return;
+    await markAttendance(excusing.id, "excused", excuseNote.trim() || undefined);
+    setExcusing(null);
+    setExcuseNote("");
+  };
+
+  const handleMarkAllPresent = async () => {
+    if (!user || !courseId) return;
+
+    setSavingAttendance(true);
+    try {
+      const marked = await markAllPresent(
+        courseId,
+        user.id,
+        students.map((student) => student.id),
+        format(selectedDate, 'yyyy-MM-dd')
+      );
+      toast.success(
+        marked === 0
+          ? "Everyone already has attendance recorded for this day"
+          : `Marked ${marked} student${marked === 1 ? "" : "s"} present for ${format(selectedDate, 'PP')}`
+      );
     } catch (error) {
       console.error("Error recording attendance:", error);
       toast.error("Failed to record attendance");
@@ -176,6 +160,8 @@ export const AttendanceTracker: React.FC<AttendanceTrackerProps> = ({ courseId }
         return <Badge variant="destructive">Absent</Badge>;
       case "late":
         return <Badge className="bg-yellow-500">Late</Badge>;
+      case "excused":
+        return <Badge variant="secondary">Excused</Badge>;
       default:
         return <Badge variant="outline">Unknown</Badge>;
     }
@@ -217,82 +203,153 @@ export const AttendanceTracker: React.FC<AttendanceTrackerProps> = ({ courseId }
         </Popover>
       </div>
 
-      {loading ? (
-        <div className="flex justify-center py-8">
-          <p>Loading students...</p>
-        </div>
-      ) : students.length === 0 ? (
-        <Card>
-          <CardContent className="py-8">
-            <div className="text-center">
-              <Users className="mx-auto h-12 w-12 text-muted-foreground opacity-50" />
-              <h3 className="mt-4 text-lg font-medium">No enrolled students</h3>
-              <p className="mt-2 text-sm text-muted-foreground">
-                Share your course access code with students so they can enroll.
-              </p>
+      <CheckInSession
+        courseId={courseId}
+        studentCount={students.length}
+        records={Object.values(attendance).flat()}
+        onSessionChange={handleSessionChange}
+      />
+
+      <Tabs defaultValue="register">
+        <TabsList>
+          <TabsTrigger value="register">Register</TabsTrigger>
+          <TabsTrigger value="analytics">Analytics</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="register">
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <p>Loading students...</p>
             </div>
-          </CardContent>
-        </Card>
-      ) : (
-        <Card>
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <UserCheck className="h-5 w-5" />
-              <span>Attendance for {format(selectedDate, 'MMMM d, yyyy')}</span>
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="space-y-4">
-              {students.map((student) => {
-                const record = getAttendanceForDateAndStudent(student.id, selectedDate);
+          ) : students.length === 0 ? (
+            <Card>
+              <CardContent className="py-8">
+                <div className="text-center">
+                  <Users className="mx-auto h-12 w-12 text-muted-foreground opacity-50" />
+                  <h3 className="mt-4 text-lg font-medium">No enrolled students</h3>
+                  <p className="mt-2 text-sm text-muted-foreground">
+                    Share your course access code with students so they can enroll.
+                  </p>
+                </div>
+              </CardContent>
+            </Card>
+          ) : (
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <CardTitle className="flex items-center gap-2">
+                  <UserCheck className="h-5 w-5" />
+                  <span>Attendance for {format(selectedDate, 'MMMM d, yyyy')}</span>
+                </CardTitle>
+                <Button variant="outline" size="sm" onClick={handleMarkAllPresent} disabled={savingAttendance}>
+                  <CheckCheck className="h-4 w-4 mr-1" />
+                  Mark All Present
+                </Button>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  {students.map((student) => {
+                    const record = getAttendanceForDateAndStudent(student.id, selectedDate);
+                    const standing = attendanceStanding(attendance[student.id] || [], policy);
                 
-                return (
-                  <div key={student.id} className="flex items-center justify-between border-b pb-3">
-                    <div>
-                      <p className="font-medium">{student.name}</p>
-                      <div className="mt-1">
-                        {getStatusBadge(record?.status)}
-                      </div>
-                    </div>
+                    return (
+                      <div key={student.id} className="flex items-center justify-between border-b pb-3">
+                        <div>
+                          <div className="flex items-center gap-2">
+                            <p className="font-medium">{student.name}</p>
+                            <StandingBadge standing={standing} />
+                          </div>
+                          <div className="mt-1 flex items-center gap-2">
+                            {getStatusBadge(record?.status)}
+                            {record?.status === "excused" && record.note && (
+                              <span className="text-xs text-muted-foreground">{record.note}</span>
+                            )}
+                          </div>
+                        </div>
                     
-                    <div className="flex space-x-2">
-                      <Button 
-                        size="sm"
-                        variant={record?.status === "present" ? "default" : "outline"}
-                        onClick={() => markAttendance(student.id, "present")}
-                        disabled={savingAttendance}
-                      >
-                        <Check className="h-4 w-4 mr-1" />
-                        Present
-                      </Button>
+                        <div className="flex space-x-2">
+                          <Button 
+                            size="sm"
+                            variant={record?.status === "present" ? "default" : "outline"}
+                            onClick={() => markAttendance(student.id, "present")}
+                            disabled={savingAttendance}
+                          >
+                            <Check className="h-4 w-4 mr-1" />
+                            Present
+                          </Button>
                       
-                      <Button 
-                        size="sm"
-                        variant={record?.status === "late" ? "default" : "outline"}
-                        className={record?.status === "late" ? "bg-yellow-500 hover:bg-yellow-600" : ""}
-                        onClick={() => markAttendance(student.id, "late")}
-                        disabled={savingAttendance}
-                      >
-                        Late
-                      </Button>
+                          <Button 
+                            size="sm"
+                            variant={record?.status === "late" ? "default" : "outline"}
+                            className={record?.status === "late" ? "bg-yellow-500 hover:bg-yellow-600" : ""}
+                            onClick={() => markAttendance(student.id, "late")}
+                            disabled={savingAttendance}
+                          >
+                            Late
+                          </Button>
                       
-                      <Button 
-                        size="sm"
-                        variant={record?.status === "absent" ? "destructive" : "outline"}
-                        onClick={() => markAttendance(student.id, "absent")}
-                        disabled={savingAttendance}
-                      >
-                        <X className="h-4 w-4 mr-1" />
-                        Absent
-                      </Button>
-                    </div>
-                  </div>
-                );
-              })}
-            </div>
-          </CardContent>
-        </Card>
-      )}
+                          <Button 
+                            size="sm"
+                            variant={record?.status === "absent" ? "destructive" : "outline"}
+                            onClick={() => markAttendance(student.id, "absent")}
+                            disabled={savingAttendance}
+                          >
+                            <X className="h-4 w-4 mr-1" />
+                            Absent
+                          </Button>
+                      
+                          <Button 
+                            size="sm"
+                            variant={record?.status === "excused" ? "secondary" : "outline"}
+                            onClick={() => {
+                              setExcuseNote(record?.status === "excused" ? record.note || "" : "");
+                              setExcusing({ id: student.id, name: student.name });
+                            }}
+                            disabled={savingAttendance}
+                          >
+                            Excused
+                          </Button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </TabsContent>
+
+        <TabsContent value="analytics">
+          <AttendanceAnalytics courseId={courseId} students={students} attendance={attendance} policy={policy} />
+        </TabsContent>
+      </Tabs>
+
+      <Dialog open={excusing !== null} onOpenChange={(open) => !open && setExcusing(null)}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Excuse {excusing?.name}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2 py-2">
+            <Label htmlFor="excuse-note">Note</Label>
+            <Textarea
+              id="excuse-note"
+              value={excuseNote}
+              onChange={(e) => setExcuseNote(e.target.value)}
+              placeholder="e.g. Doctor's appointment"
+            />
+            <p className="text-xs text-muted-foreground">
+              Excused days on {format(selectedDate, 'PP')} do not count toward the attendance rate or absences.
+            </p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setExcusing(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleExcuse} disabled={savingAttendance}>
+              Excuse Absence
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
@@ -0,0 +1,232 @@
+import React, { useState, useEffect } from "react";
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Progress } from "@/components/ui/progress";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Loader2, Maximize2, QrCode as QrCodeIcon, Square } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/contexts/AuthContext";
+import { AttendanceRecord, AttendanceSession } from "@/lib/types";
+import {
+  DEFAULT_CHECK_IN_SETTINGS,
+  TOKEN_ROTATE_SECONDS,
+  checkInUrl,
+  closeCheckInSession,
+  isAcceptingCheckIns,
+  openCheckInSession,
+  rotateSessionToken,
+  subscribeToOpenSession,
+} from "@/lib/attendance-sessions";
+import { QrCode } from "./QrCode";
+
+interface CheckInSessionProps {
+  courseId: string;
+  studentCount: number;
+  records: AttendanceRecord[]; // The course's attendance records
+  onSessionChange?: (session: AttendanceSession | null) => void; // Called again whenever the code rotates
+}
+
+// The live check-in screen. Codes rotate while this is open on the teacher's
+// screen; overrides go through the attendance list as usual.
+export const CheckInSession: React.FC<CheckInSessionProps> = ({ courseId, studentCount, records, onSessionChange }) => {
+  const { user } = useAuth();
+  const [session, setSession] = useState<AttendanceSession | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [isStartOpen, setIsStartOpen] = useState(false);
+  const [isScreenOpen, setIsScreenOpen] = useState(false);
+  const [durationMinutes, setDurationMinutes] = useState(DEFAULT_CHECK_IN_SETTINGS.duration_minutes);
+  const [lateAfterMinutes, setLateAfterMinutes] = useState(DEFAULT_CHECK_IN_SETTINGS.late_after_minutes);
+  const [markRestAbsent, setMarkRestAbsent] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    return subscribeToOpenSession(courseId, (openSession) => {
+      setSession(openSession);
+      onSessionChange?.(openSession);
+    });
+  }, [courseId, onSessionChange]);
+
+  useEffect(() => {
+    if (!session) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [session]);
+
+  useEffect(() => {
+    if (!session || !isAcceptingCheckIns(session)) return;
+    const delay = Math.max(0, session.token_rotated_at + TOKEN_ROTATE_SECONDS * 1000 - Date.now());
+    const timer = setTimeout(() => {
+      rotateSessionToken(session).catch((error) => console.error("Error rotating check-in code:", error));
+    }, delay);
+    return () => clearTimeout(timer);
+  }, [session]);
+
+  const handleStart = async () => {
+    if (!user) return;
+    if (lateAfterMinutes > durationMinutes) {
+      toast.error("Students cannot be marked late after check-in closes");
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await openCheckInSession(courseId, user.id, {
+        duration_minutes: durationMinutes,
+        late_after_minutes: lateAfterMinutes,
+      });
+      setIsStartOpen(false);
+      setIsScreenOpen(true);
+    } catch (error) {
+      console.error("Error starting check-in:", error);
+      toast.error("Failed to start check-in");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleClose = async () => {
+    if (!session) return;
+    setIsSaving(true);
+    try {
+      await closeCheckInSession(session, markRestAbsent);
+      setIsScreenOpen(false);
+      toast.success("Check-in closed");
+    } catch (error) {
+      console.error("Error closing check-in:", error);
+      toast.error("Failed to close check-in");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!session) {
+    return (
+      <div className="flex justify-end">
+        <Button variant="outline" onClick={() => setIsStartOpen(true)}>
+          <QrCodeIcon className="h-4 w-4 mr-2" />
+          Start Check-in
+        </Button>
+
+        <Dialog open={isStartOpen} onOpenChange={setIsStartOpen}>
+          <DialogContent className="sm:max-w-[425px]">
+            <DialogHeader>
+              <DialogTitle>Start Self Check-in</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-4 py-2">
+              <p className="text-sm text-muted-foreground">
+                Students check in for today by scanning the QR code or typing the code shown on your screen.
+                The code changes every {TOKEN_ROTATE_SECONDS} seconds.
+              </p>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="check-in-duration">Open for (minutes)</Label>
+                  <Input
+                    id="check-in-duration"
+                    type="number"
+                    min="1"
+                    value={durationMinutes}
+                    onChange={(e) => setDurationMinutes(Math.max(1, parseInt(e.target.value) || 1))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="check-in-late">Late after (minutes)</Label>
+                  <Input
+                    id="check-in-late"
+                    type="number"
+                    min="0"
+                    value={lateAfterMinutes}
+                    onChange={(e) => setLateAfterMinutes(Math.max(0, parseInt(e.target.value) || 0))}
+                  />
+                </div>
+              </div>
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setIsStartOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleStart} disabled={isSaving}>
+                {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Start
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+    );
+  }
+
+  const accepting = isAcceptingCheckIns(session, now);
+  const checkedIn = records.filter((record) => record.session_id === session.id && record.checked_in_at !== undefined);
+  const late = checkedIn.filter((record) => record.status === "late").length;
+  const secondsLeft = Math.max(0, Math.ceil((session.token_rotated_at + TOKEN_ROTATE_SECONDS * 1000 - now) / 1000));
+
+  const summary = (
+    <p className="text-sm text-muted-foreground">
+      {checkedIn.length} of {studentCount} checked in{late > 0 ? ` (${late} late)` : ""} ·{" "}
+      {accepting
+        ? now <= session.late_after
+          ? `late after ${format(session.late_after, "h:mm a")}`
+          : `closes at ${format(session.closes_at, "h:mm a")}`
+        : "check-in window has ended"}
+    </p>
+  );
+
+  const closeControls = (
+    <div className="flex flex-wrap items-center gap-4">
+      <div className="flex items-center gap-2">
+        <Switch id="mark-rest-absent" checked={markRestAbsent} onCheckedChange={setMarkRestAbsent} />
+        <Label htmlFor="mark-rest-absent" className="text-sm">Mark students who did not check in as absent</Label>
+      </div>
+      <Button variant="destructive" onClick={handleClose} disabled={isSaving}>
+        {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Square className="h-4 w-4 mr-2" />}
+        Close Check-in
+      </Button>
+    </div>
+  );
+
+  return (
+    <>
+      <Card className="w-full">
+        <CardHeader className="pb-3">
+          <CardTitle className="flex items-center gap-2">
+            Self Check-in
+            <Badge variant={accepting ? "default" : "secondary"}>{accepting ? "Open" : "Ended"}</Badge>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-center gap-4">
+            {accepting && <span className="font-mono text-3xl font-bold tracking-widest">{session.token}</span>}
+            <Button variant="outline" size="sm" onClick={() => setIsScreenOpen(true)} disabled={!accepting}>
+              <Maximize2 className="h-4 w-4 mr-2" />
+              Show Check-in Screen
+            </Button>
+          </div>
+          {summary}
+          {closeControls}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isScreenOpen && accepting} onOpenChange={setIsScreenOpen}>
+        <DialogContent className="sm:max-w-[640px]">
+          <DialogHeader>
+            <DialogTitle>Check in for {format(now, "MMMM d, yyyy")}</DialogTitle>
+          </DialogHeader>
+          <div className="flex flex-col items-center gap-4 py-2">
+            <QrCode value={checkInUrl(session)} size={320} />
+            <p className="text-sm text-muted-foreground">Scan the code, or open Attendance and enter</p>
+            <span className="font-mono text-6xl font-bold tracking-widest">{session.token}</span>
+            <div className="w-full max-w-xs space-y-1">
+              <Progress value={(secondsLeft / TOKEN_ROTATE_SECONDS) * 100} />
+              <p className="text-xs text-center text-muted-foreground">New code in {secondsLeft}s</p>
+            </div>
+            {summary}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
@@ -0,0 +1,193 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Plus, Trash2, EyeOff } from "lucide-react";
+import { v4 as uuidv4 } from "uuid";
+import { CodeLanguage, CodeTestCase, CodingAssignmentConfig } from "@/lib/types";
+import { CODING_LANGUAGES } from "./utils/coding-assignment-utils";
+
+interface CodingAssignmentEditorProps {
+  value: CodingAssignmentConfig;
+  onChange: (value: CodingAssignmentConfig) => void;
+}
+
+export const CodingAssignmentEditor: React.FC<CodingAssignmentEditorProps> = ({ value, onChange }) => {
+  const [activeLanguage, setActiveLanguage] = useState<CodeLanguage>(value.languages[0] || "javascript");
+
+  const toggleLanguage = (language: CodeLanguage, checked: boolean) => {
+    const languages = checked
+      ? [...value.languages, language]
+      : value.languages.filter((l) => l !== language);
+
+    if (languages.length === 0) return;
+
+    const starter_code = { ...value.starter_code };
+    if (!checked) {
+      delete starter_code[language];
+    }
+
+    onChange({ ...value, languages, starter_code });
+    if (!languages.includes(activeLanguage)) {
+      setActiveLanguage(languages[0]);
+    }
+  };
+
+  const updateStarterCode = (language: CodeLanguage, code: string) => {
+    onChange({ ...value, starter_code: { ...value.starter_code, [language]: code } });
+  };
+
+  const addTestCase = (hidden: boolean) => {
+    const testCase: CodeTestCase = {
+      id: uuidv4(),
+      input: "",
+      expected_output: "",
+      weight: 1,
+      hidden,
+    };
+    onChange({ ...value, test_cases: [...value.test_cases, testCase] });
+  };
+
+  const updateTestCase = (id: string, changes: Partial<CodeTestCase>) => {
+    onChange({
+      ...value,
+      test_cases: value.test_cases.map((t) => (t.id === id ? { ...t, ...changes } : t)),
+    });
+  };
+
+  const removeTestCase = (id: string) => {
+    onChange({ ...value, test_cases: value.test_cases.filter((t) => t.id !== id) });
+  };
+
+  const totalWeight = value.test_cases.reduce((sum, t) => sum + (t.weight ?? 1), 0);
+
+  return (
+    <div className="space-y-6 border rounded-lg p-4">
+      <div className="space-y-2">
+        <Label>Languages</Label>
+        <div className="flex gap-4">
+          {CODING_LANGUAGES.map((language) => (
+            <label key={language.value} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={value.languages.includes(language.value)}
+                onCheckedChange={(checked) => toggleLanguage(language.value, checked === true)}
+              />
+              {language.label}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Starter Code</Label>
+        <Tabs value={activeLanguage} onValueChange={(v) => setActiveLanguage(v as CodeLanguage)}>
+          <TabsList>
+            {value.languages.map((language) => (
+              <TabsTrigger key={language} value={language}>
+                {CODING_LANGUAGES.find((l) => l.value === language)?.label || language}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+          {value.languages.map((language) => (
+            <TabsContent key={language} value={language}>
+              <Textarea
+                value={value.starter_code[language] || ""}
+                onChange={(e) => updateStarterCode(language, e.target.value)}
+                className="font-mono text-sm"
+                rows={8}
+                placeholder="Code students start from"
+              />
+            </TabsContent>
+          ))}
+        </Tabs>
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex justify-between items-center">
+          <div>
+            <Label>Test Cases</Label>
+            <p className="text-xs text-muted-foreground">
+              Each test feeds its input on stdin and compares the program's output. Weights decide each test's share of the points.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" size="sm" onClick={() => addTestCase(false)}>
+              <Plus className="h-4 w-4 mr-1" />
+              Example
+            </Button>
+            <Button type="button" variant="outline" size="sm" onClick={() => addTestCase(true)}>
+              <EyeOff className="h-4 w-4 mr-1" />
+              Hidden
+            </Button>
+          </div>
+        </div>
+
+        {value.test_cases.length === 0 && (
+          <p className="text-sm text-muted-foreground">No test cases yet. Add at least one to enable auto-grading.</p>
+        )}
+
+        {value.test_cases.map((testCase, index) => (
+          <div key={testCase.id} className="border rounded-md p-3 space-y-3">
+            <div className="flex justify-between items-center">
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium">Test {index + 1}</span>
+                <Badge variant={testCase.hidden ? "secondary" : "outline"}>
+                  {testCase.hidden ? "Hidden" : "Example"}
+                </Badge>
+              </div>
+              <div className="flex items-center gap-3">
+                <label className="flex items-center gap-2 text-xs">
+                  Hidden
+                  <Switch
+                    checked={!!testCase.hidden}
+                    onCheckedChange={(checked) => updateTestCase(testCase.id, { hidden: checked })}
+                  />
+                </label>
+                <Button type="button" variant="ghost" size="icon" onClick={() => removeTestCase(testCase.id)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <Textarea
+                value={testCase.input}
+                onChange={(e) => updateTestCase(testCase.id, { input: e.target.value })}
+                className="font-mono text-xs"
+                rows={3}
+                placeholder="Input (stdin)"
+              />
+              <Textarea
+                value={testCase.expected_output}
+                onChange={(e) => updateTestCase(testCase.id, { expected_output: e.target.value })}
+                className="font-mono text-xs"
+                rows={3}
+                placeholder="Expected output"
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Label className="text-xs">Weight</Label>
+              <Input
+                type="number"
+                min="0"
+                step="0.5"
+                className="w-24 h-8"
+                value={testCase.weight ?? 1}
+                onChange={(e) => updateTestCase(testCase.id, { weight: parseFloat(e.target.value) || 0 })}
+              />
+              {totalWeight > 0 && (
+                <span className="text-xs text-muted-foreground">
+                  {Math.round(((testCase.weight ?? 1) / totalWeight) * 100)}% of the grade
+                </span>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,90 @@
+import React from "react";
+import { Progress } from "@/components/ui/progress";
+import { Badge } from "@/components/ui/badge";
+import { CheckCircle } from "lucide-react";
+import { TextSpan } from "@/lib/types";
+import { ContentAnalysis, getScoreColor } from "./utils/content-check-utils";
+
+interface ContentCheckReportProps {
+  content: string;
+  report: ContentAnalysis;
+}
+
+const HighlightedText = ({ content, spans }: { content: string; spans: TextSpan[] }) => {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+
+  spans.forEach((span, index) => {
+    if (span.start > cursor) {
+      parts.push(content.slice(cursor, span.start));
+    }
+    parts.push(
+      <mark key={index} className="bg-red-200 dark:bg-red-900 rounded-sm px-0.5">
+        {content.slice(span.start, span.end)}
+      </mark>
+    );
+    cursor = span.end;
+  });
+  parts.push(content.slice(cursor));
+
+  return <p className="text-sm bg-muted p-3 rounded-md whitespace-pre-wrap max-h-80 overflow-y-auto">{parts}</p>;
+};
+
+export const ContentCheckReport: React.FC<ContentCheckReportProps> = ({ content, report }) => {
+  const matches = report.matches || [];
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <div className="flex justify-between mb-1 text-sm">
+            <span>Similarity</span>
+            <span className={getScoreColor(report.plagiarism_score)}>{report.plagiarism_score.toFixed(1)}%</span>
+          </div>
+          <Progress value={report.plagiarism_score} />
+        </div>
+        {report.ai_probability !== undefined && (
+          <div>
+            <div className="flex justify-between mb-1 text-sm">
+              <span>AI Generation Probability</span>
+              <span className={getScoreColor(report.ai_probability)}>{report.ai_probability.toFixed(1)}%</span>
+            </div>
+            <Progress value={report.ai_probability} />
+          </div>
+        )}
+      </div>
+
+      {(report.overlap_spans || []).length > 0 && (
+        <div>
+          <h4 className="text-sm font-medium mb-1">Overlapping passages</h4>
+          <HighlightedText content={content} spans={report.overlap_spans || []} />
+        </div>
+      )}
+
+      {matches.length > 0 && (
+        <div>
+          <h4 className="text-sm font-medium mb-1">Matching sources</h4>
+          <div className="space-y-1">
+            {matches.map((match) => (
+              <div key={match.source_submission_id} className="flex justify-between items-center text-sm">
+                <span>{match.source_label}</span>
+                <Badge variant="outline" className={getScoreColor(match.score)}>
+                  {match.score.toFixed(1)}%
+                </Badge>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <ul className="space-y-2">
+        {report.analysis_results.map((item, index) => (
+          <li key={index} className="flex items-start gap-2 text-sm">
+            <CheckCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <span>{item}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
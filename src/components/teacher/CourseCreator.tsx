@@ -3,8 +3,9 @@ import React, { useState, useEffect } from "react";
 import { useAuth } from "@/contexts/AuthContext";
 import { CourseList } from "./CourseList";
 import { CourseForm } from "./CourseForm";
-import { ref, onValue } from "firebase/database";
-import { database } from "@/firebase";
+import { AccessCode, Course } from "@/lib/types";
+import { getRepositories } from "@/lib/repositories";
+import { sharedAccessCode, subscribeToAccessCodes } from "@/lib/access-codes";
 
 interface CourseCreatorProps {
   onCourseSelect: (courseId: string) => void;
@@ -12,33 +13,28 @@ interface CourseCreatorProps {
 
 export const CourseCreator: React.FC<CourseCreatorProps> = ({ onCourseSelect }) => {
   const { user } = useAuth();
-  const [courses, setCourses] = useState<any[]>([]);
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [accessCodes, setAccessCodes] = useState<AccessCode[]>([]);
 
   useEffect(() => {
     if (!user?.id) return;
     
     // Fetch existing courses created by this teacher
-    const coursesRef = ref(database, 'courses');
-    const unsubscribe = onValue(coursesRef, (snapshot) => {
-      if (!snapshot.exists()) return;
-      
-      const coursesData: any[] = [];
-      snapshot.forEach((childSnapshot) => {
-        const courseData = childSnapshot.val();
-        if (courseData.instructor_id === user.id) {
-          coursesData.push({
-            id: childSnapshot.key,
-            ...courseData
-          });
-        }
-      });
-      
-      setCourses(coursesData);
-    });
+    const unsubscribe = getRepositories().courses.subscribeByInstructor(user.id, setCourses);
     
-    return () => unsubscribe();
+    const unsubscribeCodes = subscribeToAccessCodes('teacher_id', user.id, setAccessCodes);
+    
+    return () => {
+      unsubscribe();
+      unsubscribeCodes();
+    };
   }, [user?.id]);
 
+  const coursesWithCodes = courses.map(course => ({
+    ...course,
+    access_code: sharedAccessCode(accessCodes, course)?.code,
+  }));
+
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
@@ -48,7 +44,7 @@ export const CourseCreator: React.FC<CourseCreatorProps> = ({ onCourseSelect })
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         <div className="lg:col-span-2">
           <h3 className="text-lg font-semibold mb-4">Your Courses</h3>
-          <CourseList courses={courses} onCourseSelect={onCourseSelect} />
+          <CourseList courses={coursesWithCodes} onCourseSelect={onCourseSelect} />
         </div>
         
         <div>
@@ -0,0 +1,325 @@
+import React, { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Download, Upload, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/contexts/AuthContext";
+import { SpreadsheetFormat, parseCsv } from "@/lib/spreadsheet";
+import { COURSE_EXPORTS, CourseExportKind, exportCourseData } from "./utils/course-export-utils";
+import {
+  ColumnMapping,
+  CourseImportKind,
+  ImportContext,
+  ImportRowResult,
+  applyImport,
+  autoMapColumns,
+  importFields,
+  loadImportContext,
+  planImport,
+} from "./utils/course-import-utils";
+
+interface CourseDataDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  courseId: string;
+  courseTitle: string;
+}
+
+const PREVIEW_ROWS = 5;
+
+export const CourseDataDialog: React.FC<CourseDataDialogProps> = ({ open, onOpenChange, courseId, courseTitle }) => {
+  const { user } = useAuth();
+  const [exporting, setExporting] = useState<string | null>(null);
+  const [importKind, setImportKind] = useState<CourseImportKind>("roster");
+  const [context, setContext] = useState<ImportContext | null>(null);
+  const [fileName, setFileName] = useState("");
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [dryRun, setDryRun] = useState(true);
+  const [results, setResults] = useState<ImportRowResult[] | null>(null);
+  const [running, setRunning] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setContext(null);
+    loadImportContext(courseId)
+      .then(setContext)
+      .catch((error) => {
+        console.error("Error loading course data:", error);
+        toast.error("Failed to load course data for import");
+      });
+  }, [open, courseId]);
+
+  const headers = rows[0] || [];
+  const fields = importFields(importKind, context?.assignments || []);
+
+  useEffect(() => {
+    setMapping(autoMapColumns(headers, fields));
+    setResults(null);
+    // Re-map only when a different file or import type is chosen
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [rows, importKind, context]);
+
+  const handleExport = async (kind: CourseExportKind, format: SpreadsheetFormat) => {
+    setExporting(`${kind}-${format}`);
+    try {
+      await exportCourseData(courseId, kind, format);
+    } catch (error) {
+      console.error("Error exporting course data:", error);
+      toast.error("Failed to export course data");
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      const parsed = parseCsv(await file.text());
+      if (parsed.length < 2) {
+        toast.error("The file has no rows below the header");
+        return;
+      }
+      setFileName(file.name);
+      setRows(parsed);
+    } catch (error) {
+      console.error("Error reading CSV:", error);
+      toast.error("Could not read the file as CSV");
+    }
+  };
+
+  const handleRun = async () => {
+    if (!context || !user) return;
+    if ((mapping.email ?? -1) < 0 && (mapping.student_id ?? -1) < 0) {
+      toast.error("Map an email or student ID column");
+      return;
+    }
+
+    const planned = planImport(importKind, rows, mapping, context);
+    setResults(planned);
+    if (dryRun) return;
+
+    setRunning(true);
+    try {
+      const applied = await applyImport(planned, context, user.id);
+      const skipped = planned.filter((result) => result.errors.length > 0).length;
+      toast.success(`Imported ${applied} changes${skipped > 0 ? `; ${skipped} rows with errors were skipped` : ""}`);
+      setContext(await loadImportContext(courseId));
+    } catch (error) {
+      console.error("Error importing:", error);
+      toast.error("The import stopped part way; run a dry run to see what is left");
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const changeCount = results?.filter((r) => r.errors.length === 0).reduce((sum, r) => sum + r.actions.length, 0) ?? 0;
+  const errorRows = results?.filter((r) => r.errors.length > 0).length ?? 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[820px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import / Export · {courseTitle}</DialogTitle>
+        </DialogHeader>
+
+        <Tabs defaultValue="export">
+          <TabsList className="mb-4">
+            <TabsTrigger value="export">
+              <Download className="h-4 w-4 mr-2" />
+              Export
+            </TabsTrigger>
+            <TabsTrigger value="import">
+              <Upload className="h-4 w-4 mr-2" />
+              Import
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="export" className="space-y-3">
+            {COURSE_EXPORTS.map(({ kind, label, description }) => (
+              <div key={kind} className="flex items-center justify-between gap-4 border rounded-md p-3">
+                <div>
+                  <p className="font-medium">{label}</p>
+                  <p className="text-sm text-muted-foreground">{description}</p>
+                </div>
+                <div className="flex gap-2">
+                  {(["csv", "xlsx"] as const).map((format) => (
+                    <Button
+                      key={format}
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleExport(kind, format)}
+                      disabled={exporting !== null}
+                    >
+                      {exporting === `${kind}-${format}` ? (
+                        <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                      ) : (
+                        <Download className="h-4 w-4 mr-1" />
+                      )}
+                      {format.toUpperCase()}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </TabsContent>
+
+          <TabsContent value="import" className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Import</Label>
+                <Select value={importKind} onValueChange={(value) => setImportKind(value as CourseImportKind)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="roster">Student roster</SelectItem>
+                    <SelectItem value="grades">Offline grades</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="import-file">CSV file</Label>
+                <Input id="import-file" type="file" accept=".csv,text/csv" onChange={handleFileChange} />
+              </div>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {importKind === "roster"
+                ? "Enrolls existing student accounts by email or ID. Students without an account need to sign up first."
+                : "Records scores per assignment. Gradebook exports from this app or Canvas can be imported as they are."}
+            </p>
+
+            {!context && (
+              <div className="flex justify-center py-4">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            )}
+
+            {context && rows.length > 1 && (
+              <>
+                <div className="space-y-2">
+                  <h4 className="text-sm font-medium">Columns in {fileName}</h4>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                    {fields.map((field) => (
+                      <div key={field.key} className="grid grid-cols-[1fr_1fr] gap-2 items-center">
+                        <span className="text-sm truncate" title={field.label}>{field.label}</span>
+                        <Select
+                          value={String(mapping[field.key] ?? -1)}
+                          onValueChange={(value) => {
+                            setMapping({ ...mapping, [field.key]: Number(value) });
+                            setResults(null);
+                          }}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="-1">Not imported</SelectItem>
+                            {headers.map((header, index) => (
+                              <SelectItem key={index} value={String(index)}>
+                                {header || `Column ${index + 1}`}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="overflow-x-auto border rounded-md">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        {headers.map((header, index) => (
+                          <TableHead key={index} className="whitespace-nowrap">{header}</TableHead>
+                        ))}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {rows.slice(1, PREVIEW_ROWS + 1).map((row, rowIndex) => (
+                        <TableRow key={rowIndex}>
+                          {headers.map((_, index) => (
+                            <TableCell key={index} className="whitespace-nowrap">{row[index]}</TableCell>
+                          ))}
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Showing {Math.min(PREVIEW_ROWS, rows.length - 1)} of {rows.length - 1} rows
+                </p>
+
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <Switch id="dry-run" checked={dryRun} onCheckedChange={setDryRun} />
+                    <Label htmlFor="dry-run" className="text-sm">Dry run (check only, change nothing)</Label>
+                  </div>
+                  <Button onClick={handleRun} disabled={running}>
+                    {running && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    {dryRun ? "Check Rows" : "Import"}
+                  </Button>
+                </div>
+
+                {results && (
+                  <div className="space-y-2">
+                    <p className="text-sm">
+                      {dryRun ? "Would make" : "Made"} {changeCount} changes from {results.length - errorRows} rows
+                      {errorRows > 0 && `; ${errorRows} rows have errors and ${dryRun ? "would be" : "were"} skipped`}.
+                    </p>
+                    {results.some((r) => r.errors.length > 0 || r.warnings.length > 0) && (
+                      <div className="border rounded-md max-h-64 overflow-y-auto">
+                        <Table>
+                          <TableHeader>
+                            <TableRow>
+                              <TableHead className="w-16">Row</TableHead>
+                              <TableHead>Student</TableHead>
+                              <TableHead>Problems</TableHead>
+                            </TableRow>
+                          </TableHeader>
+                          <TableBody>
+                            {results
+                              .filter((r) => r.errors.length > 0 || r.warnings.length > 0)
+                              .map((result) => (
+                                <TableRow key={result.line}>
+                                  <TableCell>{result.line}</TableCell>
+                                  <TableCell>{result.student || "—"}</TableCell>
+                                  <TableCell className="space-y-1">
+                                    {result.errors.map((error, index) => (
+                                      <div key={`e${index}`} className="flex items-start gap-2">
+                                        <Badge variant="destructive">Error</Badge>
+                                        <span className="text-sm">{error}</span>
+                                      </div>
+                                    ))}
+                                    {result.warnings.map((warning, index) => (
+                                      <div key={`w${index}`} className="flex items-start gap-2">
+                                        <Badge variant="outline">Note</Badge>
+                                        <span className="text-sm">{warning}</span>
+                                      </div>
+                                    ))}
+                                  </TableCell>
+                                </TableRow>
+                              ))}
+                          </TableBody>
+                        </Table>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </>
+            )}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+};
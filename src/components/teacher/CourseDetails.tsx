@@ -3,37 +3,46 @@ import React, { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { ChevronLeft, Copy, RefreshCw, Users, FileText, MessageSquare, CalendarCheck } from "lucide-react";
-import { ref, onValue, update, push, set } from "firebase/database";
-import { database } from "@/firebase";
+import { ChevronLeft, Copy, RefreshCw, Users, FileText, MessageSquare, CalendarCheck, ListChecks, BookOpenCheck, FileSpreadsheet } from "lucide-react";
 import { useAuth } from "@/contexts/AuthContext";
 import { toast } from "sonner";
 import { AssignmentUploader } from "./AssignmentUploader";
 import { StudentResponses } from "./StudentResponses";
 import { AttendanceTracker } from "./AttendanceTracker";
+import { QuestionBank } from "./QuestionBank";
+import { CourseQuizManager } from "./CourseQuizManager";
+import { Gradebook } from "./Gradebook";
+import { CourseDataDialog } from "./CourseDataDialog";
+import { AccessCodeManager } from "./AccessCodeManager";
+import { JoinRequestQueue } from "./JoinRequestQueue";
 import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AccessCode, Course, Enrollment } from "@/lib/types";
+import { getRepositories } from "@/lib/repositories";
+import { createAccessCode, rotateAccessCode, setSharedAccessCode, sharedAccessCode, subscribeToAccessCodes } from "@/lib/access-codes";
 
 interface CourseDetailsProps {
   courseId: string;
   onBack: () => void;
+  activeTab?: string;
+  onTabChange?: (tab: string) => void;
 }
 
-export const CourseDetails: React.FC<CourseDetailsProps> = ({ courseId, onBack }) => {
+export const CourseDetails: React.FC<CourseDetailsProps> = ({ courseId, onBack, activeTab, onTabChange }) => {
   const { user } = useAuth();
-  const [course, setCourse] = useState<any>(null);
+  const [course, setCourse] = useState<Course | null>(null);
   const [loading, setLoading] = useState(true);
   const [generatingCode, setGeneratingCode] = useState(false);
+  const [isCourseDataOpen, setIsCourseDataOpen] = useState(false);
+  const [accessCodes, setAccessCodes] = useState<AccessCode[]>([]);
+  const [students, setStudents] = useState<Enrollment[]>([]);
 
   useEffect(() => {
     if (!courseId) return;
     
-    const courseRef = ref(database, `courses/${courseId}`);
-    const unsubscribe = onValue(courseRef, (snapshot) => {
-      if (snapshot.exists()) {
-        setCourse({
-          id: snapshot.key,
-          ...snapshot.val()
-        });
+    const unsubscribe = getRepositories().courses.subscribe(courseId, (found) => {
+      if (found) {
+        setCourse(found);
       }
       setLoading(false);
     });
@@ -41,56 +50,49 @@ export const CourseDetails: React.FC<CourseDetailsProps> = ({ courseId, onBack }
     return () => unsubscribe();
   }, [courseId]);
 
+  useEffect(() => {
+    if (!courseId) return;
+    const unsubscribeCodes = subscribeToAccessCodes('course_id', courseId, setAccessCodes);
+    const unsubscribeStudents = getRepositories().enrollments.subscribeByCourse(courseId, (enrollments) =>
+      setStudents(enrollments.sort((a, b) => (a.student_name || "").localeCompare(b.student_name || "")))
+    );
+    return () => {
+      unsubscribeCodes();
+      unsubscribeStudents();
+    };
+  }, [courseId]);
+
+  const shared = course ? sharedAccessCode(accessCodes, course) : undefined;
+
+  // Replaces the shared code, keeping its settings, or creates one when the
+  // course has none
   const handleGenerateAccessCode = async () => {
     if (!user?.id || !courseId) return;
     
     setGeneratingCode(true);
     try {
-      // Generate a new access code
-      const newCode = generateUniqueCode();
-      
-      // Update the course with the new access code
-      await update(ref(database, `courses/${courseId}`), {
-        access_code: newCode,
-        updated_at: new Date().toISOString()
-      });
-      
-      // Create an entry in access_codes collection
-      const codeRef = push(ref(database, 'access_codes'));
-      await set(codeRef, {
-        code: newCode,
-        teacher_id: user.id,
-        course_id: courseId,
-        created_at: new Date().toISOString(),
-        is_active: true
-      });
+      if (shared) {
+        await rotateAccessCode(shared);
+      } else {
+        await setSharedAccessCode(courseId, await createAccessCode(user.id, courseId));
+      }
       
       toast.success("New access code generated successfully");
     } catch (error) {
       console.error("Error generating access code:", error);
-      toast.error("Failed to generate access code");
+      toast.error(error instanceof Error ? error.message : "Failed to generate access code");
     } finally {
       setGeneratingCode(false);
     }
   };
 
   const copyAccessCode = () => {
-    if (course?.access_code) {
-      navigator.clipboard.writeText(course.access_code);
+    if (shared) {
+      navigator.clipboard.writeText(shared.code);
       toast.success("Access code copied to clipboard");
     }
   };
 
-  // Function to generate a unique 6-character code
-  const generateUniqueCode = () => {
-    const chars = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789"; // Removed similar looking characters
-    let code = "";
-    for (let i = 0; i < 6; i++) {
-      code += chars.charAt(Math.floor(Math.random() * chars.length));
-    }
-    return code;
-  };
-
   if (loading) {
     return <div>Loading course details...</div>;
   }
@@ -110,7 +112,18 @@ export const CourseDetails: React.FC<CourseDetailsProps> = ({ courseId, onBack }
         {course.category && (
           <Badge variant="outline">{course.category}</Badge>
         )}
+        <Button variant="outline" size="sm" className="ml-auto" onClick={() => setIsCourseDataOpen(true)}>
+          <FileSpreadsheet className="h-4 w-4 mr-1" />
+          Import / Export
+        </Button>
       </div>
+
+      <CourseDataDialog
+        open={isCourseDataOpen}
+        onOpenChange={setIsCourseDataOpen}
+        courseId={course.id}
+        courseTitle={course.title}
+      />
       
       <Card>
         <CardHeader className="pb-3">
@@ -120,18 +133,19 @@ export const CourseDetails: React.FC<CourseDetailsProps> = ({ courseId, onBack }
           <div className="flex flex-col space-y-4">
             <p className="text-sm text-muted-foreground">
               Share this access code with your students. They can use it to join this course.
+              Codes with sections, expiry dates, usage limits or approval are managed under Enrolled Students.
             </p>
             
             <div className="flex items-center gap-2">
               <div className="bg-muted p-2 rounded font-mono flex-1">
-                {course.access_code || "No access code generated yet"}
+                {shared?.code || "No access code generated yet"}
               </div>
               
               <Button
                 variant="outline"
                 size="icon"
                 onClick={copyAccessCode}
-                disabled={!course.access_code}
+                disabled={!shared}
               >
                 <Copy className="h-4 w-4" />
               </Button>
@@ -143,14 +157,16 @@ export const CourseDetails: React.FC<CourseDetailsProps> = ({ courseId, onBack }
                 disabled={generatingCode}
               >
                 <RefreshCw className={`h-4 w-4 mr-1 ${generatingCode ? 'animate-spin' : ''}`} />
-                {generatingCode ? 'Generating...' : 'Generate New Code'}
+                {generatingCode ? 'Generating...' : shared ? 'Replace Code' : 'Generate Code'}
               </Button>
             </div>
           </div>
         </CardContent>
       </Card>
       
-      <Tabs defaultValue="assignments">
+      <JoinRequestQueue courseId={course.id} />
+      
+      <Tabs defaultValue="assignments" value={activeTab} onValueChange={onTabChange}>
         <TabsList className="mb-4">
           <TabsTrigger value="assignments">
             <FileText className="h-4 w-4 mr-2" />
@@ -160,6 +176,14 @@ export const CourseDetails: React.FC<CourseDetailsProps> = ({ courseId, onBack }
             <MessageSquare className="h-4 w-4 mr-2" />
             Student Responses
           </TabsTrigger>
+          <TabsTrigger value="quizzes">
+            <ListChecks className="h-4 w-4 mr-2" />
+            Quizzes
+          </TabsTrigger>
+          <TabsTrigger value="gradebook">
+            <BookOpenCheck className="h-4 w-4 mr-2" />
+            Gradebook
+          </TabsTrigger>
           <TabsTrigger value="attendance">
             <CalendarCheck className="h-4 w-4 mr-2" />
             Attendance
@@ -178,22 +202,52 @@ export const CourseDetails: React.FC<CourseDetailsProps> = ({ courseId, onBack }
           <StudentResponses courseId={course.id} />
         </TabsContent>
         
+        <TabsContent value="quizzes" className="space-y-6">
+          <QuestionBank courseId={course.id} />
+          <CourseQuizManager courseId={course.id} />
+        </TabsContent>
+        
+        <TabsContent value="gradebook">
+          <Gradebook courseId={course.id} />
+        </TabsContent>
+        
         <TabsContent value="attendance">
           <AttendanceTracker courseId={course.id} />
         </TabsContent>
         
-        <TabsContent value="students">
+        <TabsContent value="students" className="space-y-6">
           <Card>
             <CardHeader>
               <CardTitle>Enrolled Students</CardTitle>
             </CardHeader>
             <CardContent>
-              {/* Student list would be implemented here */}
-              <p className="text-muted-foreground">
-                Students who have enrolled using your access code will appear here.
-              </p>
+              {students.length === 0 ? (
+                <p className="text-muted-foreground">
+                  Students who have enrolled using your access code will appear here.
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Student</TableHead>
+                      <TableHead>Section</TableHead>
+                      <TableHead>Enrolled</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {students.map((enrollment) => (
+                      <TableRow key={enrollment.id}>
+                        <TableCell>{enrollment.student_name || "Unknown Student"}</TableCell>
+                        <TableCell>{enrollment.section || "—"}</TableCell>
+                        <TableCell>{new Date(enrollment.enrolled_at).toLocaleDateString()}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
             </CardContent>
           </Card>
+          <AccessCodeManager courseId={course.id} />
         </TabsContent>
       </Tabs>
     </div>
@@ -7,8 +7,8 @@ import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Plus } from "lucide-react";
 import { toast } from "sonner";
-import { ref, set, push } from "firebase/database";
-import { database } from "@/firebase";
+import { getRepositories } from "@/lib/repositories";
+import { createAccessCode, setSharedAccessCode } from "@/lib/access-codes";
 
 interface CourseFormProps {
   userId: string;
@@ -38,48 +38,30 @@ export const CourseForm: React.FC<CourseFormProps> = ({ userId, userName }) => {
     setIsLoading(true);
     
     try {
-      // Use Firebase's push() to generate a unique ID
-      const courseRef = push(ref(database, 'courses'));
-      const courseId = courseRef.key;
-      
-      if (!courseId) {
-        throw new Error("Failed to generate a unique course ID");
-      }
-      
       // Prepare prerequisites as an array
       const prerequisitesArray = prerequisites
         .split(',')
         .map(item => item.trim())
         .filter(Boolean);
       
-      // Generate a unique access code for this course
-      const accessCode = generateUniqueCode();
-      
-      // Save the course to Firebase
-      await set(courseRef, {
+      const { id: courseId } = await getRepositories().courses.create({
         title,
         description,
         category,
         prerequisites: prerequisitesArray,
         instructor_id: userId,
         instructor_name: userName || 'Unknown Teacher',
-        access_code: accessCode,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
         is_archived: false
       });
       
-      // Also create an access code entry in the access_codes collection
-      const codeRef = push(ref(database, 'access_codes'));
-      await set(codeRef, {
-        code: accessCode,
-        teacher_id: userId,
-        course_id: courseId,
-        created_at: new Date().toISOString(),
-        is_active: true
-      });
+      // The access code rules check the course's instructor, so the course is
+      // saved before its first code
+      const accessCode = await createAccessCode(userId, courseId);
+      await setSharedAccessCode(courseId, accessCode);
       
-      toast.success("Course created successfully with access code: " + accessCode);
+      toast.success("Course created successfully with access code: " + accessCode.code);
       
       // Reset form
       setTitle("");
@@ -95,16 +77,6 @@ export const CourseForm: React.FC<CourseFormProps> = ({ userId, userName }) => {
     }
   };
 
-  // Function to generate a unique 6-character code
-  const generateUniqueCode = () => {
-    const chars = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789"; // Removed similar looking characters
-    let code = "";
-    for (let i = 0; i < 6; i++) {
-      code += chars.charAt(Math.floor(Math.random() * chars.length));
-    }
-    return code;
-  };
-
   return (
     <Card>
       <CardContent className="pt-6">
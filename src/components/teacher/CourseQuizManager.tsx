@@ -0,0 +1,294 @@
+import React, { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import { Send, Loader2, BarChart3, Clock, CalendarRange } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/contexts/AuthContext";
+import { BankQuestion, CourseQuiz, CourseQuizAttempt } from "@/lib/types";
+import { analyzeQuestion, getQuestionOptions, isChoiceQuestion } from "@/lib/quiz-grading";
+import {
+  QUESTION_TYPE_LABELS,
+  publishCourseQuiz,
+  subscribeToCourseQuizAttempts,
+  subscribeToCourseQuizzes,
+  subscribeToQuestionBank,
+} from "./utils/quiz-bank-utils";
+
+interface CourseQuizManagerProps {
+  courseId: string;
+}
+
+// datetime-local inputs work in local time without a timezone suffix
+const toIsoOrUndefined = (value: string) => (value ? new Date(value).toISOString() : undefined);
+
+const formatSchedule = (quiz: CourseQuiz) => {
+  const opens = quiz.opens_at ? new Date(quiz.opens_at).toLocaleString() : "now";
+  const closes = quiz.closes_at ? new Date(quiz.closes_at).toLocaleString() : "no closing date";
+  return `Opens ${opens} • Closes ${closes}`;
+};
+
+export const CourseQuizManager: React.FC<CourseQuizManagerProps> = ({ courseId }) => {
+  const { user } = useAuth();
+  const [bank, setBank] = useState<BankQuestion[]>([]);
+  const [quizzes, setQuizzes] = useState<CourseQuiz[]>([]);
+  const [attempts, setAttempts] = useState<CourseQuizAttempt[]>([]);
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [timeLimit, setTimeLimit] = useState("");
+  const [opensAt, setOpensAt] = useState("");
+  const [closesAt, setClosesAt] = useState("");
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [analyticsQuizId, setAnalyticsQuizId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!courseId) return;
+
+    const unsubscribeBank = subscribeToQuestionBank(courseId, setBank);
+    const unsubscribeQuizzes = subscribeToCourseQuizzes(courseId, setQuizzes);
+    const unsubscribeAttempts = subscribeToCourseQuizAttempts(courseId, setAttempts);
+    return () => {
+      unsubscribeBank();
+      unsubscribeQuizzes();
+      unsubscribeAttempts();
+    };
+  }, [courseId]);
+
+  const selectedQuestions = bank.filter((q) => selectedIds.includes(q.id));
+  const totalPoints = selectedQuestions.reduce((sum, q) => sum + q.points, 0);
+
+  const toggleQuestion = (questionId: string, checked: boolean) => {
+    setSelectedIds((current) => (checked ? [...current, questionId] : current.filter((id) => id !== questionId)));
+  };
+
+  const handlePublish = async () => {
+    if (!user?.id) {
+      toast.error("You must be logged in to publish a quiz");
+      return;
+    }
+    if (!title.trim()) {
+      toast.error("Please enter a quiz title");
+      return;
+    }
+    if (selectedQuestions.length === 0) {
+      toast.error("Select at least one question from the bank");
+      return;
+    }
+    if (opensAt && closesAt && new Date(opensAt) >= new Date(closesAt)) {
+      toast.error("The quiz must close after it opens");
+      return;
+    }
+
+    setIsPublishing(true);
+    try {
+      await publishCourseQuiz(
+        {
+          course_id: courseId,
+          title: title.trim(),
+          description: description.trim() || undefined,
+          question_ids: selectedQuestions.map((q) => q.id),
+          total_points: totalPoints,
+          time_limit_minutes: parseInt(timeLimit) || undefined,
+          opens_at: toIsoOrUndefined(opensAt),
+          closes_at: toIsoOrUndefined(closesAt),
+          created_by: user.id,
+        },
+        user.id
+      );
+
+      toast.success("Quiz published to enrolled students");
+      setTitle("");
+      setDescription("");
+      setSelectedIds([]);
+      setTimeLimit("");
+      setOpensAt("");
+      setClosesAt("");
+    } catch (error) {
+      console.error("Error publishing quiz:", error);
+      toast.error("Failed to publish quiz");
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  const renderAnalytics = (quiz: CourseQuiz) => {
+    const quizAttempts = attempts.filter((a) => a.quiz_id === quiz.id);
+    const questions = (quiz.question_ids || [])
+      .map((id) => bank.find((q) => q.id === id))
+      .filter((q): q is BankQuestion => !!q);
+
+    if (quizAttempts.filter((a) => a.status === "submitted").length === 0) {
+      return <p className="text-sm text-muted-foreground">No submitted attempts yet.</p>;
+    }
+
+    return (
+      <div className="space-y-4">
+        {questions.map((question, index) => {
+          const stats = analyzeQuestion(question, quizAttempts);
+          const options = getQuestionOptions(question);
+
+          return (
+            <div key={question.id} className="border rounded-md p-3 space-y-2">
+              <div className="flex justify-between items-start gap-4">
+                <p className="text-sm font-medium">
+                  {index + 1}. {question.prompt}
+                </p>
+                <Badge variant="outline" className="whitespace-nowrap">
+                  Difficulty index: {stats.difficultyIndex === null ? "—" : stats.difficultyIndex.toFixed(2)}
+                </Badge>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {stats.responses} response{stats.responses === 1 ? "" : "s"} • {QUESTION_TYPE_LABELS[question.type]}
+              </p>
+              {isChoiceQuestion(question) && (
+                <div className="space-y-1">
+                  {options.map((option, optionIndex) => {
+                    const isCorrect = question.correct_options?.includes(optionIndex);
+                    const rate = Math.round((stats.optionRates[optionIndex] || 0) * 100);
+                    return (
+                      <div key={optionIndex} className="grid grid-cols-[1fr_120px_40px] items-center gap-2 text-xs">
+                        <span className={isCorrect ? "font-medium text-green-600" : ""}>
+                          {option}
+                          {isCorrect && " ✓"}
+                        </span>
+                        <Progress value={rate} className="h-2" />
+                        <span className="text-right">{rate}%</span>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Publish a Quiz</CardTitle>
+          <CardDescription>
+            Pick questions from the bank, set a time limit and schedule. Results are added to the course gradebook.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="quiz-title">Title</Label>
+            <Input id="quiz-title" value={title} onChange={(e) => setTitle(e.target.value)} placeholder="e.g. Week 3 Check-in" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="quiz-description">Instructions</Label>
+            <Textarea id="quiz-description" value={description} onChange={(e) => setDescription(e.target.value)} rows={2} />
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="quiz-time-limit">Time Limit (minutes)</Label>
+              <Input
+                id="quiz-time-limit"
+                type="number"
+                min="1"
+                value={timeLimit}
+                onChange={(e) => setTimeLimit(e.target.value)}
+                placeholder="Untimed"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="quiz-opens">Opens</Label>
+              <Input id="quiz-opens" type="datetime-local" value={opensAt} onChange={(e) => setOpensAt(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="quiz-closes">Closes</Label>
+              <Input id="quiz-closes" type="datetime-local" value={closesAt} onChange={(e) => setClosesAt(e.target.value)} />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Questions ({selectedQuestions.length} selected, {totalPoints} points)</Label>
+            {bank.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Add questions to the question bank first.</p>
+            ) : (
+              <div className="max-h-64 overflow-y-auto border rounded-md divide-y">
+                {bank.map((question) => (
+                  <label key={question.id} className="flex items-center gap-3 p-2 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={selectedIds.includes(question.id)}
+                      onCheckedChange={(checked) => toggleQuestion(question.id, checked === true)}
+                    />
+                    <span className="flex-1">{question.prompt}</span>
+                    <Badge variant="outline">{QUESTION_TYPE_LABELS[question.type]}</Badge>
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+          <Button className="w-full" onClick={handlePublish} disabled={isPublishing}>
+            {isPublishing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+            Publish Quiz
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Published Quizzes</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {quizzes.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No quizzes published yet.</p>
+          ) : (
+            <div className="space-y-4">
+              {quizzes.map((quiz) => {
+                const submitted = attempts.filter((a) => a.quiz_id === quiz.id && a.status === "submitted");
+                const average = submitted.length
+                  ? submitted.reduce((sum, a) => sum + (a.score || 0), 0) / submitted.length
+                  : null;
+
+                return (
+                  <div key={quiz.id} className="border rounded-md p-4 space-y-3">
+                    <div className="flex justify-between items-start">
+                      <div>
+                        <h4 className="font-medium">{quiz.title}</h4>
+                        <p className="text-xs text-muted-foreground flex items-center gap-1 mt-1">
+                          <CalendarRange className="h-3 w-3" />
+                          {formatSchedule(quiz)}
+                        </p>
+                        <p className="text-xs text-muted-foreground flex items-center gap-1">
+                          <Clock className="h-3 w-3" />
+                          {quiz.time_limit_minutes ? `${quiz.time_limit_minutes} minutes` : "Untimed"} •{" "}
+                          {(quiz.question_ids || []).length} questions • {quiz.total_points} points
+                        </p>
+                      </div>
+                      <div className="text-right text-sm">
+                        <p>{submitted.length} submitted</p>
+                        {average !== null && (
+                          <p className="text-muted-foreground">Avg {average.toFixed(1)} / {quiz.total_points}</p>
+                        )}
+                      </div>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setAnalyticsQuizId(analyticsQuizId === quiz.id ? null : quiz.id)}
+                    >
+                      <BarChart3 className="h-4 w-4 mr-1" />
+                      {analyticsQuizId === quiz.id ? "Hide Analytics" : "Question Analytics"}
+                    </Button>
+                    {analyticsQuizId === quiz.id && renderAnalytics(quiz)}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,140 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { Paperclip, X } from "lucide-react";
+import { toast } from "sonner";
+import { AttachmentPolicy, FileAttachment } from "@/lib/types";
+import {
+  FILE_TYPE_GROUPS,
+  acceptAttribute,
+  fileError,
+  formatFileSize,
+  removeAttachment,
+  uploadAttachment,
+} from "@/lib/attachments";
+
+interface FileAttachmentInputProps {
+  id: string;
+  policy: AttachmentPolicy;
+  value: FileAttachment[];
+  onChange: (value: FileAttachment[]) => void;
+  pathFor: (file: File) => string;
+  onUploadingChange?: (uploading: boolean) => void;
+  disabled?: boolean;
+}
+
+interface PendingUpload {
+  key: string;
+  name: string;
+  percent: number;
+}
+
+// Uploads files to Storage as soon as they are picked, so the form only has to
+// save the resulting attachments
+export const FileAttachmentInput: React.FC<FileAttachmentInputProps> = ({
+  id,
+  policy,
+  value,
+  onChange,
+  pathFor,
+  onUploadingChange,
+  disabled,
+}) => {
+  const [pending, setPending] = useState<PendingUpload[]>([]);
+  // Files carried over from an earlier version stay in Storage for its history
+  const [uploadedPaths, setUploadedPaths] = useState<string[]>([]);
+
+  const setProgress = (key: string, percent: number) =>
+    setPending((uploads) => uploads.map((upload) => (upload.key === key ? { ...upload, percent } : upload)));
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = "";
+
+    const accepted: File[] = [];
+    for (const file of files) {
+      const error = fileError(file, policy, value.length + pending.length + accepted.length);
+      if (error) {
+        toast.error(error);
+      } else {
+        accepted.push(file);
+      }
+    }
+    if (accepted.length === 0) return;
+
+    const uploads = accepted.map((file) => ({ file, key: `${file.name}-${Date.now()}-${Math.random()}` }));
+    setPending((current) => [...current, ...uploads.map(({ file, key }) => ({ key, name: file.name, percent: 0 }))]);
+    onUploadingChange?.(true);
+
+    const results = await Promise.all(
+      uploads.map(async ({ file, key }) => {
+        try {
+          return await uploadAttachment(file, pathFor(file), (percent) => setProgress(key, percent));
+        } catch (error) {
+          console.error("Error uploading file:", error);
+          toast.error(error instanceof Error && error.message ? error.message : `Failed to upload ${file.name}`);
+          return null;
+        } finally {
+          setPending((current) => current.filter((upload) => upload.key !== key));
+        }
+      })
+    );
+
+    const uploaded = results.filter((result): result is FileAttachment => result !== null);
+    setUploadedPaths((paths) => [...paths, ...uploaded.map((attachment) => attachment.path)]);
+    onChange([...value, ...uploaded]);
+    onUploadingChange?.(false);
+  };
+
+  const handleRemove = async (attachment: FileAttachment) => {
+    onChange(value.filter((a) => a.path !== attachment.path));
+    if (!uploadedPaths.includes(attachment.path)) return;
+    try {
+      await removeAttachment(attachment);
+    } catch (error) {
+      // The file is no longer referenced, so a leftover only takes up space
+      console.error("Error deleting file:", error);
+    }
+  };
+
+  const full = value.length + pending.length >= policy.max_files;
+
+  return (
+    <div className="space-y-2">
+      <Input
+        id={id}
+        type="file"
+        multiple={policy.max_files > 1}
+        accept={acceptAttribute(policy)}
+        onChange={handleFiles}
+        disabled={disabled || full}
+      />
+      <p className="text-xs text-muted-foreground">
+        {policy.allowed_types.map((group) => FILE_TYPE_GROUPS[group].label).join(", ")} · up to {policy.max_size_mb} MB
+        each · {policy.max_files} file{policy.max_files === 1 ? "" : "s"} at most
+      </p>
+
+      {value.map((attachment) => (
+        <div key={attachment.path} className="flex items-center gap-2 text-sm">
+          <Paperclip className="h-4 w-4 text-muted-foreground" />
+          <span className="truncate flex-1">{attachment.name}</span>
+          <span className="text-muted-foreground">{formatFileSize(attachment.size)}</span>
+          <Button type="button" variant="ghost" size="icon" className="h-6 w-6" onClick={() => handleRemove(attachment)} disabled={disabled}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+
+      {pending.map((upload) => (
+        <div key={upload.key} className="space-y-1">
+          <div className="flex justify-between text-sm">
+            <span className="truncate">{upload.name}</span>
+            <span className="text-muted-foreground">{upload.percent}%</span>
+          </div>
+          <Progress value={upload.percent} />
+        </div>
+      ))}
+    </div>
+  );
+};
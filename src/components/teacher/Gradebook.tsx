@@ -0,0 +1,375 @@
+import React, { useState, useEffect, useMemo } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { BookOpenCheck, Settings, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/contexts/AuthContext";
+import { getRepositories } from "@/lib/repositories";
+import { CourseOverrides, GradebookSettings } from "@/lib/types";
+import {
+  DEFAULT_GRADEBOOK_SETTINGS,
+  GradeStanding,
+  GradedItem,
+  categoryIdFor,
+  computeStanding,
+  subscribeToCourseOverrides,
+  subscribeToGradebookSettings,
+} from "@/lib/gradebook";
+import { GradebookSettingsDialog } from "./GradebookSettingsDialog";
+import {
+  GradebookCourseData,
+  clearGradeOverride,
+  fetchGradebookCourseData,
+  setGradeOverride,
+} from "./utils/gradebook-utils";
+
+interface GradebookProps {
+  courseId: string;
+}
+
+interface GradebookStudent {
+  id: string;
+  name: string;
+}
+
+// What the override dialog is editing: one assignment, or the final grade
+interface OverrideTarget {
+  student: GradebookStudent;
+  item?: GradedItem;
+  standing: GradeStanding;
+}
+
+const formatPercent = (percent: number | null) => (percent === null ? "—" : `${percent.toFixed(1)}%`);
+
+export const Gradebook: React.FC<GradebookProps> = ({ courseId }) => {
+  const { user } = useAuth();
+  const [students, setStudents] = useState<GradebookStudent[]>([]);
+  const [data, setData] = useState<GradebookCourseData>({ assignments: [], submissions: {} });
+  const [settings, setSettings] = useState<GradebookSettings>(DEFAULT_GRADEBOOK_SETTINGS);
+  const [overrides, setOverrides] = useState<CourseOverrides>({});
+  const [loading, setLoading] = useState(true);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [overrideTarget, setOverrideTarget] = useState<OverrideTarget | null>(null);
+  const [overrideScore, setOverrideScore] = useState("");
+  const [overrideReason, setOverrideReason] = useState("");
+  const [savingOverride, setSavingOverride] = useState(false);
+
+  useEffect(() => {
+    const unsubscribeEnrollments = getRepositories().enrollments.subscribeByCourse(courseId, (enrollments) => {
+      setStudents(
+        enrollments
+          .map((enrollment) => ({
+            id: enrollment.student_id,
+            name: enrollment.student_name || `Student ${enrollment.student_id.substring(0, 6)}`,
+          }))
+          .sort((a, b) => a.name.localeCompare(b.name))
+      );
+    });
+    const unsubscribeSettings = subscribeToGradebookSettings(courseId, setSettings);
+    const unsubscribeOverrides = subscribeToCourseOverrides(courseId, setOverrides);
+
+    return () => {
+      unsubscribeEnrollments();
+      unsubscribeSettings();
+      unsubscribeOverrides();
+    };
+  }, [courseId]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchGradebookCourseData(courseId)
+      .then(setData)
+      .catch((error) => {
+        console.error("Error loading gradebook:", error);
+        toast.error("Failed to load gradebook");
+      })
+      .finally(() => setLoading(false));
+  }, [courseId, reloadKey]);
+
+  const standings = useMemo(
+    () =>
+      Object.fromEntries(
+        students.map((student) => [
+          student.id,
+          computeStanding(data.assignments, data.submissions[student.id] || [], overrides[student.id] || {}, settings),
+        ])
+      ),
+    [students, data, overrides, settings]
+  );
+
+  const categoryNames = useMemo(
+    () => Object.fromEntries(settings.categories.map((category) => [category.id, category.name])),
+    [settings]
+  );
+
+  const openOverride = (student: GradebookStudent, standing: GradeStanding, item?: GradedItem) => {
+    const current = item ? item.override : standing.final_override;
+    setOverrideTarget({ student, item, standing });
+    setOverrideScore(current ? String(current.score) : "");
+    setOverrideReason(current?.reason || "");
+  };
+
+  const handleSaveOverride = async () => {
+    if (!overrideTarget || !user) return;
+    const score = Number(overrideScore);
+    if (overrideScore === "" || Number.isNaN(score) || score < 0) {
+      toast.error("Enter a valid score");
+      return;
+    }
+    if (!overrideReason.trim()) {
+      toast.error("Enter a reason for the override");
+      return;
+    }
+
+    setSavingOverride(true);
+    try {
+      await setGradeOverride({
+        course_id: courseId,
+        student_id: overrideTarget.student.id,
+        assignment_id: overrideTarget.item?.assignment.id,
+        score,
+        reason: overrideReason,
+        set_by: user.id,
+      });
+      toast.success("Grade override saved");
+      setOverrideTarget(null);
+    } catch (error) {
+      console.error("Error saving grade override:", error);
+      toast.error("Failed to save grade override");
+    } finally {
+      setSavingOverride(false);
+    }
+  };
+
+  const handleClearOverride = async () => {
+    if (!overrideTarget) return;
+
+    setSavingOverride(true);
+    try {
+      await clearGradeOverride(courseId, overrideTarget.student.id, overrideTarget.item?.assignment.id);
+      toast.success("Grade override removed");
+      setOverrideTarget(null);
+    } catch (error) {
+      console.error("Error removing grade override:", error);
+      toast.error("Failed to remove grade override");
+    } finally {
+      setSavingOverride(false);
+    }
+  };
+
+  const renderItem = (item: GradedItem) => {
+    if (item.status === "upcoming") {
+      return <span className="text-muted-foreground">—</span>;
+    }
+    if (item.status === "pending") {
+      return <span className="text-muted-foreground text-xs">Ungraded</span>;
+    }
+    return (
+      <div className={item.dropped ? "line-through text-muted-foreground" : undefined}>
+        <span className={item.status === "missing" ? "text-destructive" : undefined}>
+          {item.status === "missing" ? "Missing" : `${item.earned}/${item.possible}`}
+          {item.override && "*"}
+        </span>
+        {item.penalty > 0 && (
+          <div className="text-xs text-orange-600">
+            −{item.penalty} late ({item.late_days}d)
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const itemTitle = (item: GradedItem) =>
+    [
+      item.override && `Override: ${item.override.reason}`,
+      item.penalty > 0 && `Scored ${item.raw}, ${item.late_days} day(s) late`,
+      item.dropped && "Dropped as one of the lowest scores in its category",
+    ]
+      .filter(Boolean)
+      .join("\n") || undefined;
+
+  const overrideItem = overrideTarget?.item;
+  const existingOverride = overrideTarget && (overrideItem ? overrideItem.override : overrideTarget.standing.final_override);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row justify-between md:items-center gap-4">
+        <div>
+          <h2 className="text-2xl font-bold">Gradebook</h2>
+          <p className="text-muted-foreground">
+            {settings.categories.map((category) => `${category.name} ${category.weight}%`).join(" · ")}
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => setIsSettingsOpen(true)}>
+          <Settings className="h-4 w-4 mr-2" />
+          Settings
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="flex items-center gap-2">
+            <BookOpenCheck className="h-5 w-5" />
+            Grades
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : students.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">No students are enrolled in this course yet</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="min-w-[160px]">Student</TableHead>
+                    {data.assignments.map((assignment) => (
+                      <TableHead key={assignment.id} className="min-w-[110px] text-center">
+                        <div className="font-medium text-foreground truncate max-w-[140px]" title={assignment.title}>
+                          {assignment.title}
+                        </div>
+                        <div className="text-xs font-normal">
+                          {assignment.points} pts ·{" "}
+                          {categoryNames[categoryIdFor(assignment, settings.categories)] || "Uncategorized"}
+                        </div>
+                      </TableHead>
+                    ))}
+                    <TableHead className="text-center">Final</TableHead>
+                    <TableHead className="text-center">Letter</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {students.map((student) => {
+                    const standing = standings[student.id];
+                    const items = standing.categories.flatMap((category) => category.items);
+                    return (
+                      <TableRow key={student.id}>
+                        <TableCell className="font-medium">{student.name}</TableCell>
+                        {data.assignments.map((assignment) => {
+                          const item = items.find((graded) => graded.assignment.id === assignment.id);
+                          return (
+                            <TableCell key={assignment.id} className="text-center p-1">
+                              {item ? (
+                                <button
+                                  type="button"
+                                  className="w-full rounded px-2 py-1 hover:bg-muted"
+                                  title={itemTitle(item)}
+                                  onClick={() => openOverride(student, standing, item)}
+                                >
+                                  {renderItem(item)}
+                                </button>
+                              ) : (
+                                <span className="text-muted-foreground">—</span>
+                              )}
+                            </TableCell>
+                          );
+                        })}
+                        <TableCell className="text-center p-1">
+                          <button
+                            type="button"
+                            className="w-full rounded px-2 py-1 hover:bg-muted font-medium"
+                            title={
+                              standing.final_override
+                                ? `Override: ${standing.final_override.reason} (computed ${formatPercent(standing.computed_percent)})`
+                                : undefined
+                            }
+                            onClick={() => openOverride(student, standing)}
+                          >
+                            {formatPercent(standing.percent)}
+                            {standing.final_override && "*"}
+                          </button>
+                        </TableCell>
+                        <TableCell className="text-center">
+                          {standing.letter ? <Badge variant="outline">{standing.letter}</Badge> : "—"}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+              <p className="text-xs text-muted-foreground mt-3">
+                * Overridden by hand. Click a grade to override it. Struck-through scores are dropped.
+              </p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!overrideTarget} onOpenChange={(open) => !open && setOverrideTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              Override {overrideItem ? overrideItem.assignment.title : "Final Grade"}
+            </DialogTitle>
+          </DialogHeader>
+          {overrideTarget && (
+            <div className="space-y-4 py-2">
+              <p className="text-sm text-muted-foreground">
+                {overrideTarget.student.name}
+                {overrideItem
+                  ? overrideItem.status === "graded" || overrideItem.status === "missing"
+                    ? ` · currently ${overrideItem.earned}/${overrideItem.possible}`
+                    : ""
+                  : ` · computed ${formatPercent(overrideTarget.standing.computed_percent)}`}
+              </p>
+              <div className="space-y-2">
+                <Label htmlFor="override-score">
+                  {overrideItem ? `Points (out of ${overrideItem.possible})` : "Final percent"}
+                </Label>
+                <Input
+                  id="override-score"
+                  type="number"
+                  min={0}
+                  value={overrideScore}
+                  onChange={(e) => setOverrideScore(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="override-reason">Reason</Label>
+                <Textarea
+                  id="override-reason"
+                  placeholder="Shown to the student with their grade"
+                  value={overrideReason}
+                  onChange={(e) => setOverrideReason(e.target.value)}
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            {existingOverride && (
+              <Button variant="outline" onClick={handleClearOverride} disabled={savingOverride}>
+                Remove Override
+              </Button>
+            )}
+            <Button onClick={handleSaveOverride} disabled={savingOverride}>
+              {savingOverride && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save Override
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {user && (
+        <GradebookSettingsDialog
+          open={isSettingsOpen}
+          onOpenChange={setIsSettingsOpen}
+          courseId={courseId}
+          userId={user.id}
+          settings={settings}
+          assignments={data.assignments}
+          onAssignmentsChanged={() => setReloadKey((key) => key + 1)}
+        />
+      )}
+    </div>
+  );
+};
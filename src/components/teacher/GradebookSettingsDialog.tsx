@@ -0,0 +1,279 @@
+import React, { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { v4 as uuidv4 } from "uuid";
+import { Assignment, GradebookSettings } from "@/lib/types";
+import { categoryIdFor } from "@/lib/gradebook";
+import { saveGradebookSettings, setAssignmentCategory } from "./utils/gradebook-utils";
+
+interface GradebookSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  courseId: string;
+  userId: string;
+  settings: GradebookSettings;
+  assignments: Assignment[];
+  onAssignmentsChanged: () => void;
+}
+
+const toNumber = (value: string) => (value === "" ? 0 : Number(value));
+
+export const GradebookSettingsDialog: React.FC<GradebookSettingsDialogProps> = ({
+  open,
+  onOpenChange,
+  courseId,
+  userId,
+  settings,
+  assignments,
+  onAssignmentsChanged,
+}) => {
+  const [draft, setDraft] = useState<GradebookSettings>(settings);
+  const [assignmentCategories, setAssignmentCategories] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setDraft(settings);
+    setAssignmentCategories(
+      Object.fromEntries(assignments.map((assignment) => [assignment.id, categoryIdFor(assignment, settings.categories)]))
+    );
+  }, [open, settings, assignments]);
+
+  const totalWeight = draft.categories.reduce((sum, category) => sum + category.weight, 0);
+
+  const updateCategory = (index: number, changes: Partial<GradebookSettings["categories"][number]>) => {
+    setDraft({
+      ...draft,
+      categories: draft.categories.map((category, i) => (i === index ? { ...category, ...changes } : category)),
+    });
+  };
+
+  const updateLetter = (index: number, changes: Partial<GradebookSettings["scale"][number]>) => {
+    setDraft({
+      ...draft,
+      scale: draft.scale.map((grade, i) => (i === index ? { ...grade, ...changes } : grade)),
+    });
+  };
+
+  const handleSave = async () => {
+    if (draft.categories.length === 0) {
+      toast.error("Add at least one category");
+      return;
+    }
+    if (draft.categories.some((category) => !category.name.trim())) {
+      toast.error("Every category needs a name");
+      return;
+    }
+    if (totalWeight !== 100) {
+      toast.error(`Category weights must add up to 100% (currently ${totalWeight}%)`);
+      return;
+    }
+    if (draft.scale.some((grade) => !grade.letter.trim())) {
+      toast.error("Every grade in the scale needs a letter");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveGradebookSettings(
+        courseId,
+        {
+          ...draft,
+          categories: draft.categories.map((category) => ({ ...category, name: category.name.trim() })),
+          scale: [...draft.scale]
+            .map((grade) => ({ ...grade, letter: grade.letter.trim() }))
+            .sort((a, b) => b.min_percent - a.min_percent),
+        },
+        userId
+      );
+
+      const changed = assignments.filter(
+        (assignment) => assignmentCategories[assignment.id] !== categoryIdFor(assignment, settings.categories)
+      );
+      await Promise.all(changed.map((assignment) => setAssignmentCategory(assignment.id, assignmentCategories[assignment.id])));
+      if (changed.length > 0) {
+        onAssignmentsChanged();
+      }
+
+      toast.success("Gradebook settings saved");
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error saving gradebook settings:", error);
+      toast.error("Failed to save gradebook settings");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Gradebook Settings</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6 py-2">
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label>Categories</Label>
+              <span className={`text-sm ${totalWeight === 100 ? "text-muted-foreground" : "text-destructive"}`}>
+                Total weight: {totalWeight}%
+              </span>
+            </div>
+            <div className="grid grid-cols-[1fr_90px_110px_auto] gap-2 text-xs text-muted-foreground">
+              <span>Name</span>
+              <span>Weight %</span>
+              <span>Drop lowest</span>
+              <span />
+            </div>
+            {draft.categories.map((category, index) => (
+              <div key={category.id} className="grid grid-cols-[1fr_90px_110px_auto] gap-2">
+                <Input value={category.name} onChange={(e) => updateCategory(index, { name: e.target.value })} />
+                <Input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={category.weight}
+                  onChange={(e) => updateCategory(index, { weight: toNumber(e.target.value) })}
+                />
+                <Input
+                  type="number"
+                  min={0}
+                  value={category.drop_lowest}
+                  onChange={(e) => updateCategory(index, { drop_lowest: Math.max(0, Math.floor(toNumber(e.target.value))) })}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setDraft({ ...draft, categories: draft.categories.filter((_, i) => i !== index) })}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                setDraft({
+                  ...draft,
+                  categories: [...draft.categories, { id: uuidv4(), name: "", weight: 0, drop_lowest: 0 }],
+                })
+              }
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add Category
+            </Button>
+          </div>
+
+          <div className="space-y-3">
+            <Label>Late Penalty</Label>
+            <p className="text-xs text-muted-foreground">
+              Counted from the end of each assignment's grace period, when submissions start being marked late.
+            </p>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <span className="text-xs text-muted-foreground">% off per day late</span>
+                <Input
+                  type="number"
+                  min={0}
+                  value={draft.late_penalty.percent_per_day}
+                  onChange={(e) =>
+                    setDraft({ ...draft, late_penalty: { ...draft.late_penalty, percent_per_day: toNumber(e.target.value) } })
+                  }
+                />
+              </div>
+              <div className="space-y-1">
+                <span className="text-xs text-muted-foreground">Maximum % off</span>
+                <Input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={draft.late_penalty.max_percent}
+                  onChange={(e) =>
+                    setDraft({ ...draft, late_penalty: { ...draft.late_penalty, max_percent: toNumber(e.target.value) } })
+                  }
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <Label>Letter Grades</Label>
+            {draft.scale.map((grade, index) => (
+              <div key={index} className="grid grid-cols-[80px_1fr_auto] gap-2 items-center">
+                <Input value={grade.letter} onChange={(e) => updateLetter(index, { letter: e.target.value })} />
+                <div className="flex items-center gap-2">
+                  <span className="text-sm text-muted-foreground">from</span>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={grade.min_percent}
+                    onChange={(e) => updateLetter(index, { min_percent: toNumber(e.target.value) })}
+                  />
+                  <span className="text-sm text-muted-foreground">%</span>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setDraft({ ...draft, scale: draft.scale.filter((_, i) => i !== index) })}
+                  disabled={draft.scale.length === 1}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setDraft({ ...draft, scale: [...draft.scale, { letter: "", min_percent: 0 }] })}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add Grade
+            </Button>
+          </div>
+
+          {assignments.length > 0 && (
+            <div className="space-y-3">
+              <Label>Assignment Categories</Label>
+              {assignments.map((assignment) => (
+                <div key={assignment.id} className="grid grid-cols-[1fr_200px] gap-2 items-center">
+                  <span className="text-sm truncate">{assignment.title}</span>
+                  <Select
+                    value={assignmentCategories[assignment.id]}
+                    onValueChange={(value) => setAssignmentCategories({ ...assignmentCategories, [assignment.id]: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Category" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {draft.categories.map((category) => (
+                        <SelectItem key={category.id} value={category.id}>
+                          {category.name || "Untitled"}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save Settings
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,82 @@
+import React, { useState, useEffect } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Check, X } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/contexts/AuthContext";
+import { JoinRequest } from "@/lib/types";
+import { approveJoinRequest, rejectJoinRequest, subscribeToJoinRequests } from "@/lib/access-codes";
+
+interface JoinRequestQueueProps {
+  courseId: string;
+}
+
+// Students who joined with a code that requires approval
+export const JoinRequestQueue: React.FC<JoinRequestQueueProps> = ({ courseId }) => {
+  const { user } = useAuth();
+  const [requests, setRequests] = useState<JoinRequest[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    return subscribeToJoinRequests(courseId, (all) => setRequests(all.filter((request) => request.status === "pending")));
+  }, [courseId]);
+
+  const decide = async (request: JoinRequest, approve: boolean) => {
+    if (!user) return;
+    setBusyId(request.id);
+    try {
+      if (approve) {
+        await approveJoinRequest(request, user);
+        toast.success(`${request.student_name} was added to the course`);
+      } else {
+        await rejectJoinRequest(request, user);
+        toast.success(`Declined ${request.student_name}'s request`);
+      }
+    } catch (error) {
+      console.error("Error updating join request:", error);
+      toast.error("Failed to update join request");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (requests.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2">
+          Pending Join Requests
+          <Badge variant="secondary">{requests.length}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {requests.map((request) => (
+          <div key={request.id} className="flex items-center justify-between gap-2 p-2 bg-secondary/20 rounded-md">
+            <div>
+              <div className="flex items-center gap-2">
+                <span className="font-medium">{request.student_name}</span>
+                {request.section && <Badge variant="outline">{request.section}</Badge>}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Requested {formatDistanceToNow(new Date(request.requested_at), { addSuffix: true })}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button size="sm" onClick={() => decide(request, true)} disabled={busyId === request.id}>
+                <Check className="h-4 w-4 mr-1" />
+                Approve
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => decide(request, false)} disabled={busyId === request.id}>
+                <X className="h-4 w-4 mr-1" />
+                Decline
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
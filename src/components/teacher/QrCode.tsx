@@ -0,0 +1,36 @@
+import React, { useMemo } from "react";
+import { encodeQrCode } from "@/lib/qr-code";
+
+interface QrCodeProps {
+  value: string;
+  size?: number; // Rendered width and height in pixels
+  className?: string;
+}
+
+const QUIET_ZONE = 4;
+
+export const QrCode: React.FC<QrCodeProps> = ({ value, size = 256, className }) => {
+  const { path, dimension } = useMemo(() => {
+    const modules = encodeQrCode(value);
+    // One square per dark module, drawn as a single path
+    const squares = modules.flatMap((row, y) =>
+      row.map((dark, x) => (dark ? `M${x + QUIET_ZONE} ${y + QUIET_ZONE}h1v1h-1z` : "")).filter(Boolean)
+    );
+    return { path: squares.join(""), dimension: modules.length + QUIET_ZONE * 2 };
+  }, [value]);
+
+  return (
+    <svg
+      viewBox={`0 0 ${dimension} ${dimension}`}
+      width={size}
+      height={size}
+      className={className}
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label="QR code"
+    >
+      <rect width={dimension} height={dimension} fill="#fff" />
+      <path d={path} fill="#000" />
+    </svg>
+  );
+};
@@ -0,0 +1,465 @@
+import React, { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Pencil, Trash2, Sparkles, Loader2, Database } from "lucide-react";
+import { toast } from "sonner";
+import { BankQuestion, QuestionType } from "@/lib/types";
+import { TRUE_FALSE_OPTIONS } from "@/lib/quiz-grading";
+import {
+  QUESTION_TYPE_LABELS,
+  deleteBankQuestion,
+  saveBankQuestion,
+  seedQuestionsFromAI,
+  subscribeToQuestionBank,
+} from "./utils/quiz-bank-utils";
+
+interface QuestionBankProps {
+  courseId: string;
+}
+
+type QuestionDraft = Omit<BankQuestion, "id" | "created_at" | "course_id"> & { id?: string; created_at?: string };
+
+const emptyDraft = (): QuestionDraft => ({
+  type: "multiple_choice",
+  prompt: "",
+  options: ["", "", "", ""],
+  correct_options: [0],
+  accepted_answers: [],
+  points: 1,
+  explanation: "",
+  source: "manual",
+});
+
+const validateDraft = (draft: QuestionDraft): string | null => {
+  if (!draft.prompt.trim()) return "Question text is required";
+  if (draft.points <= 0) return "Points must be greater than zero";
+
+  switch (draft.type) {
+    case "multiple_choice":
+    case "multi_select": {
+      const options = (draft.options || []).map((o) => o.trim());
+      if (options.filter(Boolean).length < 2) return "Add at least two options";
+      if (options.some((o) => !o)) return "Remove empty options";
+      if (!draft.correct_options?.length) return "Mark the correct answer";
+      return null;
+    }
+    case "true_false":
+      return draft.correct_options?.length ? null : "Mark the correct answer";
+    case "short_answer":
+      return draft.accepted_answers?.length ? null : "Add at least one accepted answer";
+    case "numeric":
+      return Number.isFinite(draft.numeric_answer) ? null : "Enter the numeric answer";
+    default:
+      return null;
+  }
+};
+
+// Drops fields that don't apply to the chosen question type before saving
+const cleanDraft = (draft: QuestionDraft): QuestionDraft => {
+  const base = {
+    id: draft.id,
+    created_at: draft.created_at,
+    type: draft.type,
+    prompt: draft.prompt.trim(),
+    points: draft.points,
+    explanation: draft.explanation?.trim() || undefined,
+    source: draft.source,
+  };
+
+  switch (draft.type) {
+    case "multiple_choice":
+    case "multi_select":
+      return { ...base, options: draft.options!.map((o) => o.trim()), correct_options: draft.correct_options };
+    case "true_false":
+      return { ...base, correct_options: draft.correct_options };
+    case "short_answer":
+      return { ...base, accepted_answers: draft.accepted_answers };
+    case "numeric":
+      return { ...base, numeric_answer: draft.numeric_answer, tolerance: draft.tolerance || 0 };
+  }
+};
+
+export const QuestionBank: React.FC<QuestionBankProps> = ({ courseId }) => {
+  const [questions, setQuestions] = useState<BankQuestion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [draft, setDraft] = useState<QuestionDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isSeedOpen, setIsSeedOpen] = useState(false);
+  const [isSeeding, setIsSeeding] = useState(false);
+  const [seedTopic, setSeedTopic] = useState("");
+  const [seedDifficulty, setSeedDifficulty] = useState("medium");
+  const [seedCount, setSeedCount] = useState("5");
+
+  useEffect(() => {
+    if (!courseId) return;
+
+    const unsubscribe = subscribeToQuestionBank(courseId, (bank) => {
+      setQuestions(bank);
+      setLoading(false);
+    });
+    return () => unsubscribe();
+  }, [courseId]);
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    const error = validateDraft(draft);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await saveBankQuestion({ ...cleanDraft(draft), course_id: courseId });
+      toast.success(draft.id ? "Question updated" : "Question added to bank");
+      setDraft(null);
+    } catch (err) {
+      console.error("Error saving question:", err);
+      toast.error("Failed to save question");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (questionId: string) => {
+    try {
+      await deleteBankQuestion(courseId, questionId);
+      toast.success("Question removed from bank");
+    } catch (err) {
+      console.error("Error deleting question:", err);
+      toast.error("Failed to delete question");
+    }
+  };
+
+  const handleSeed = async () => {
+    if (!seedTopic.trim()) {
+      toast.error("Please enter a topic");
+      return;
+    }
+
+    setIsSeeding(true);
+    try {
+      const { added, dropped } = await seedQuestionsFromAI(courseId, {
+        topic: seedTopic.trim(),
+        difficulty: seedDifficulty,
+        numQuestions: parseInt(seedCount),
+      });
+      toast.success(`Added ${added} AI-generated question${added === 1 ? "" : "s"}`, {
+        description: dropped > 0 ? `${dropped} invalid question${dropped === 1 ? " was" : "s were"} skipped` : undefined,
+      });
+      setIsSeedOpen(false);
+      setSeedTopic("");
+    } catch (err) {
+      console.error("Error seeding question bank:", err);
+      toast.error(err instanceof Error ? err.message : "Failed to generate questions");
+    } finally {
+      setIsSeeding(false);
+    }
+  };
+
+  const updateDraft = (changes: Partial<QuestionDraft>) => {
+    setDraft((current) => (current ? { ...current, ...changes } : current));
+  };
+
+  const toggleCorrectOption = (index: number, checked: boolean) => {
+    if (!draft) return;
+    const current = draft.correct_options || [];
+    updateDraft({
+      correct_options: checked ? [...current, index].sort((a, b) => a - b) : current.filter((i) => i !== index),
+    });
+  };
+
+  const removeOption = (index: number) => {
+    if (!draft?.options) return;
+    updateDraft({
+      options: draft.options.filter((_, i) => i !== index),
+      correct_options: (draft.correct_options || [])
+        .filter((i) => i !== index)
+        .map((i) => (i > index ? i - 1 : i)),
+    });
+  };
+
+  const renderAnswerFields = () => {
+    if (!draft) return null;
+
+    switch (draft.type) {
+      case "multiple_choice":
+      case "multi_select":
+        return (
+          <div className="space-y-2">
+            <Label>Options {draft.type === "multi_select" ? "(check all correct)" : "(select the correct one)"}</Label>
+            <RadioGroup
+              value={draft.type === "multiple_choice" ? String(draft.correct_options?.[0] ?? "") : undefined}
+              onValueChange={(value) => updateDraft({ correct_options: [parseInt(value)] })}
+            >
+              {(draft.options || []).map((option, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  {draft.type === "multi_select" ? (
+                    <Checkbox
+                      checked={draft.correct_options?.includes(index)}
+                      onCheckedChange={(checked) => toggleCorrectOption(index, checked === true)}
+                    />
+                  ) : (
+                    <RadioGroupItem value={String(index)} />
+                  )}
+                  <Input
+                    value={option}
+                    onChange={(e) =>
+                      updateDraft({ options: draft.options!.map((o, i) => (i === index ? e.target.value : o)) })
+                    }
+                    placeholder={`Option ${index + 1}`}
+                  />
+                  <Button type="button" variant="ghost" size="icon" onClick={() => removeOption(index)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </RadioGroup>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => updateDraft({ options: [...(draft.options || []), ""] })}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add Option
+            </Button>
+          </div>
+        );
+      case "true_false":
+        return (
+          <div className="space-y-2">
+            <Label>Correct Answer</Label>
+            <RadioGroup
+              value={String(draft.correct_options?.[0] ?? "")}
+              onValueChange={(value) => updateDraft({ correct_options: [parseInt(value)] })}
+              className="flex gap-6"
+            >
+              {TRUE_FALSE_OPTIONS.map((option, index) => (
+                <label key={option} className="flex items-center gap-2 text-sm">
+                  <RadioGroupItem value={String(index)} />
+                  {option}
+                </label>
+              ))}
+            </RadioGroup>
+          </div>
+        );
+      case "short_answer":
+        return (
+          <div className="space-y-2">
+            <Label>Accepted Answers (one per line, case-insensitive)</Label>
+            <Textarea
+              value={(draft.accepted_answers || []).join("\n")}
+              onChange={(e) =>
+                updateDraft({ accepted_answers: e.target.value.split("\n").map((a) => a.trim()).filter(Boolean) })
+              }
+              rows={3}
+            />
+          </div>
+        );
+      case "numeric":
+        return (
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Correct Value</Label>
+              <Input
+                type="number"
+                step="any"
+                value={draft.numeric_answer ?? ""}
+                onChange={(e) => updateDraft({ numeric_answer: e.target.value === "" ? undefined : parseFloat(e.target.value) })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Tolerance (±)</Label>
+              <Input
+                type="number"
+                step="any"
+                min="0"
+                value={draft.tolerance ?? 0}
+                onChange={(e) => updateDraft({ tolerance: parseFloat(e.target.value) || 0 })}
+              />
+            </div>
+          </div>
+        );
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <CardTitle className="flex items-center gap-2">
+            <Database className="h-5 w-5" />
+            Question Bank
+          </CardTitle>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => setIsSeedOpen(true)}>
+              <Sparkles className="h-4 w-4 mr-1" />
+              Generate with AI
+            </Button>
+            <Button size="sm" onClick={() => setDraft(emptyDraft())}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add Question
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading question bank...</p>
+        ) : questions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No questions yet. Add questions by hand or generate a starting set with AI.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {questions.map((question, index) => (
+              <div key={question.id} className="flex justify-between items-start border rounded-md p-3">
+                <div className="space-y-1">
+                  <p className="text-sm font-medium">
+                    {index + 1}. {question.prompt}
+                  </p>
+                  <div className="flex gap-2">
+                    <Badge variant="outline">{QUESTION_TYPE_LABELS[question.type]}</Badge>
+                    <Badge variant="secondary">{question.points} pt{question.points === 1 ? "" : "s"}</Badge>
+                    {question.source === "ai" && <Badge variant="outline">AI</Badge>}
+                  </div>
+                </div>
+                <div className="flex gap-1">
+                  <Button variant="ghost" size="icon" onClick={() => setDraft({ ...emptyDraft(), ...question })}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => handleDelete(question.id)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!draft} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? "Edit Question" : "Add Question"}</DialogTitle>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Type</Label>
+                  <Select
+                    value={draft.type}
+                    onValueChange={(value) =>
+                      updateDraft({ type: value as QuestionType, correct_options: value === "multi_select" ? [] : [0] })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(QUESTION_TYPE_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Points</Label>
+                  <Input
+                    type="number"
+                    min="0.5"
+                    step="0.5"
+                    value={draft.points}
+                    onChange={(e) => updateDraft({ points: parseFloat(e.target.value) || 0 })}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Question</Label>
+                <Textarea value={draft.prompt} onChange={(e) => updateDraft({ prompt: e.target.value })} rows={3} />
+              </div>
+              {renderAnswerFields()}
+              <div className="space-y-2">
+                <Label>Explanation (shown after grading)</Label>
+                <Textarea
+                  value={draft.explanation || ""}
+                  onChange={(e) => updateDraft({ explanation: e.target.value })}
+                  rows={2}
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save Question
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isSeedOpen} onOpenChange={setIsSeedOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Generate Questions with AI</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Topic</Label>
+              <Input value={seedTopic} onChange={(e) => setSeedTopic(e.target.value)} placeholder="e.g. Binary search trees" />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Difficulty</Label>
+                <Select value={seedDifficulty} onValueChange={setSeedDifficulty}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="easy">Easy</SelectItem>
+                    <SelectItem value="medium">Medium</SelectItem>
+                    <SelectItem value="hard">Hard</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Questions</Label>
+                <Select value={seedCount} onValueChange={setSeedCount}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="5">5</SelectItem>
+                    <SelectItem value="10">10</SelectItem>
+                    <SelectItem value="15">15</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Generated questions are added as multiple choice and can be edited before you use them in a quiz.
+            </p>
+          </div>
+          <DialogFooter>
+            <Button onClick={handleSeed} disabled={isSeeding}>
+              {isSeeding ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Sparkles className="h-4 w-4 mr-2" />}
+              Generate
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
@@ -0,0 +1,178 @@
+import React, { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Plus, Trash2, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { v4 as uuidv4 } from "uuid";
+import { useAuth } from "@/contexts/AuthContext";
+import { RubricCriterion, RubricLevel } from "@/lib/types";
+import { criterionMaxPoints, rubricMaxPoints } from "@/lib/rubrics";
+import { RubricDraft, newCriterion, saveRubric, validateRubric } from "./utils/rubric-utils";
+
+interface RubricEditorProps {
+  rubric: RubricDraft | null; // Closed when null
+  onClose: () => void;
+  onSaved?: (rubricId: string) => void;
+}
+
+export const RubricEditor: React.FC<RubricEditorProps> = ({ rubric, onClose, onSaved }) => {
+  const { user } = useAuth();
+  const [draft, setDraft] = useState<RubricDraft | null>(rubric);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setDraft(rubric);
+  }, [rubric]);
+
+  if (!draft) {
+    return null;
+  }
+
+  const updateCriterion = (criterionId: string, changes: Partial<RubricCriterion>) => {
+    setDraft({
+      ...draft,
+      criteria: draft.criteria.map((criterion) => (criterion.id === criterionId ? { ...criterion, ...changes } : criterion)),
+    });
+  };
+
+  const updateLevel = (criterion: RubricCriterion, levelId: string, changes: Partial<RubricLevel>) => {
+    updateCriterion(criterion.id, {
+      levels: criterion.levels.map((level) => (level.id === levelId ? { ...level, ...changes } : level)),
+    });
+  };
+
+  const handleSave = async () => {
+    if (!user?.id) return;
+    const error = validateRubric(draft);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const rubricId = await saveRubric(draft, user.id);
+      toast.success("Rubric saved");
+      onSaved?.(rubricId);
+      onClose();
+    } catch (error) {
+      console.error("Error saving rubric:", error);
+      toast.error("Failed to save rubric");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[760px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{draft.id ? "Edit Rubric" : "New Rubric"}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="rubric-title">Title</Label>
+            <Input
+              id="rubric-title"
+              value={draft.title}
+              onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+              placeholder="e.g. Persuasive essay"
+            />
+          </div>
+
+          {draft.criteria.map((criterion, index) => (
+            <div key={criterion.id} className="border rounded-md p-3 space-y-3">
+              <div className="flex items-start gap-2">
+                <div className="flex-1 space-y-2">
+                  <Input
+                    value={criterion.title}
+                    onChange={(e) => updateCriterion(criterion.id, { title: e.target.value })}
+                    placeholder={`Criterion ${index + 1}, e.g. Thesis`}
+                  />
+                  <Textarea
+                    value={criterion.description || ""}
+                    onChange={(e) => updateCriterion(criterion.id, { description: e.target.value })}
+                    placeholder="What this criterion assesses (optional)"
+                    rows={2}
+                  />
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setDraft({ ...draft, criteria: draft.criteria.filter((c) => c.id !== criterion.id) })}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+
+              <div className="grid grid-cols-[1fr_2fr_80px_auto] gap-2 text-xs text-muted-foreground">
+                <span>Level</span>
+                <span>Description</span>
+                <span>Points</span>
+                <span />
+              </div>
+              {criterion.levels.map((level) => (
+                <div key={level.id} className="grid grid-cols-[1fr_2fr_80px_auto] gap-2">
+                  <Input value={level.label} onChange={(e) => updateLevel(criterion, level.id, { label: e.target.value })} />
+                  <Input
+                    value={level.description || ""}
+                    onChange={(e) => updateLevel(criterion, level.id, { description: e.target.value })}
+                  />
+                  <Input
+                    type="number"
+                    min={0}
+                    value={level.points}
+                    onChange={(e) => updateLevel(criterion, level.id, { points: Number(e.target.value) || 0 })}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => updateCriterion(criterion.id, { levels: criterion.levels.filter((l) => l.id !== level.id) })}
+                    disabled={criterion.levels.length === 1}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <div className="flex justify-between items-center">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() =>
+                    updateCriterion(criterion.id, {
+                      levels: [...criterion.levels, { id: uuidv4(), label: "", points: 0 }],
+                    })
+                  }
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Level
+                </Button>
+                <span className="text-xs text-muted-foreground">Up to {criterionMaxPoints(criterion)} points</span>
+              </div>
+            </div>
+          ))}
+
+          <div className="flex justify-between items-center">
+            <Button variant="outline" onClick={() => setDraft({ ...draft, criteria: [...draft.criteria, newCriterion()] })}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Criterion
+            </Button>
+            <span className="text-sm font-medium">Total: {rubricMaxPoints(draft.criteria)} points</span>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save Rubric
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,53 @@
+import React from "react";
+import { RubricGrade } from "@/lib/types";
+import { criterionMaxPoints } from "@/lib/rubrics";
+
+interface RubricGradeViewProps {
+  grade: RubricGrade;
+}
+
+// A filled-in rubric, as given when the submission was graded
+export const RubricGradeView: React.FC<RubricGradeViewProps> = ({ grade }) => {
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between items-center">
+        <h4 className="text-sm font-medium">{grade.title}</h4>
+        <span className="text-sm font-medium">
+          {grade.total}/{grade.max_points}
+        </span>
+      </div>
+      <div className="border rounded-md divide-y">
+        {grade.criteria.map((criterion) => {
+          const score = grade.scores.find((s) => s.criterion_id === criterion.id);
+          return (
+            <div key={criterion.id} className="p-3 space-y-2">
+              <div className="flex justify-between items-start gap-4">
+                <div>
+                  <p className="text-sm font-medium">{criterion.title}</p>
+                  {criterion.description && <p className="text-xs text-muted-foreground">{criterion.description}</p>}
+                </div>
+                <span className="text-sm whitespace-nowrap">
+                  {score ? score.points : "—"}/{criterionMaxPoints(criterion)}
+                </span>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {criterion.levels.map((level) => (
+                  <div
+                    key={level.id}
+                    className={`text-xs border rounded px-2 py-1 ${
+                      score?.level_id === level.id ? "border-primary bg-primary/10 font-medium" : "text-muted-foreground"
+                    }`}
+                    title={level.description}
+                  >
+                    {level.label} · {level.points}
+                  </div>
+                ))}
+              </div>
+              {score?.comment && <p className="text-sm bg-muted p-2 rounded-md">{score.comment}</p>}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
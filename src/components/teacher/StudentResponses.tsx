@@ -3,94 +3,183 @@ import React, { useState, useEffect } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { database } from "@/firebase";
-import { ref, onValue, update, query, orderByChild, equalTo } from "firebase/database";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
 import { useAuth } from "@/contexts/AuthContext";
 import { toast } from "sonner";
-import { Check, MessageSquare, Filter } from "lucide-react";
+import { Check, MessageSquare, Filter, ScanSearch, Loader2, Pencil, History } from "lucide-react";
+import { AIContentCheck, Rubric, Submission } from "@/lib/types";
+import { foldDuplicateSubmissions } from "@/lib/submissions";
+import { Unsubscribe, getRepositories } from "@/lib/repositories";
+import { notifyGradePosted } from "@/lib/notifications";
+import { ContentCheckReport } from "./ContentCheckReport";
+import { AnnotatedSubmission } from "./AnnotatedSubmission";
+import { RubricGradeView } from "./RubricGradeView";
+import { SubmissionGrader } from "./SubmissionGrader";
+import { SubmissionHistory } from "./SubmissionHistory";
+import { AttachmentList } from "./AttachmentList";
+import { SubmissionGrade, fetchRubrics } from "./utils/rubric-utils";
+import {
+  CheckableSubmission,
+  getScoreColor,
+  runBulkContentChecks,
+  runContentCheck,
+  subscribeToContentChecks,
+} from "./utils/content-check-utils";
 
 interface StudentResponsesProps {
   courseId?: string;
 }
 
 export const StudentResponses: React.FC<StudentResponsesProps> = ({ courseId }) => {
-  const [submissions, setSubmissions] = useState<any[]>([]);
+  const [submissions, setSubmissions] = useState<Submission[]>([]);
   const [loading, setLoading] = useState(true);
+  const [quizAssignmentIds, setQuizAssignmentIds] = useState<string[]>([]);
+  const [assignmentRubricIds, setAssignmentRubricIds] = useState<Record<string, string>>({});
+  const [rubrics, setRubrics] = useState<Record<string, Rubric>>({});
+  const [gradingId, setGradingId] = useState<string | null>(null);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [checks, setChecks] = useState<Record<string, AIContentCheck>>({});
+  const [includeAI, setIncludeAI] = useState(false);
+  const [bulkProgress, setBulkProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [checkingId, setCheckingId] = useState<string | null>(null);
+  const [expandedCheckId, setExpandedCheckId] = useState<string | null>(null);
   const { user } = useAuth();
 
+  useEffect(() => {
+    if (!courseId) return;
+    return subscribeToContentChecks(courseId, setChecks);
+  }, [courseId]);
+
+  useEffect(() => {
+    const ids = Object.values(assignmentRubricIds);
+    if (ids.length === 0) return;
+    fetchRubrics(ids)
+      .then(setRubrics)
+      .catch((error) => console.error("Error fetching rubrics:", error));
+  }, [assignmentRubricIds]);
+
   useEffect(() => {
     if (!user || !courseId) return;
 
-    // Get assignments for this course
-    const assignmentsRef = query(
-      ref(database, 'assignments'),
-      orderByChild('course_id'),
-      equalTo(courseId)
-    );
-    
-    const unsubscribe = onValue(assignmentsRef, (snapshot) => {
-      if (!snapshot.exists()) {
-        setSubmissions([]);
-        setLoading(false);
-        return;
-      }
-      
-      // Get assignment IDs for this course
-      const assignmentIds: string[] = [];
-      snapshot.forEach((childSnapshot) => {
-        assignmentIds.push(childSnapshot.key!);
+    let unsubscribeSubmissions: Unsubscribe[] = [];
+    const stopSubmissions = () => {
+      unsubscribeSubmissions.forEach((unsubscribeFromAssignment) => unsubscribeFromAssignment());
+      unsubscribeSubmissions = [];
+    };
+
+    // Follow the assignments for this course
+    const unsubscribe = getRepositories().assignments.subscribeByCourse(courseId, (courseAssignments) => {
+      const assignmentIds = courseAssignments.map((assignment) => assignment.id);
+      const rubricIds: Record<string, string> = {};
+      courseAssignments.forEach((assignment) => {
+        if (assignment.rubric_id) {
+          rubricIds[assignment.id] = assignment.rubric_id;
+        }
       });
+      setQuizAssignmentIds(
+        courseAssignments.filter((assignment) => assignment.assignmentType === "quiz").map((assignment) => assignment.id)
+      );
+      setAssignmentRubricIds(rubricIds);
       
       if (assignmentIds.length === 0) {
+        stopSubmissions();
         setSubmissions([]);
         setLoading(false);
         return;
       }
       
-      // Now fetch submissions for these assignments
-      const submissionsRef = ref(database, 'submissions');
-      onValue(submissionsRef, (submissionsSnapshot) => {
-        if (!submissionsSnapshot.exists()) {
-          setSubmissions([]);
+      // Now follow the submissions for each of these assignments
+      stopSubmissions();
+      const byAssignment: Record<string, Submission[]> = {};
+      unsubscribeSubmissions = assignmentIds.map((assignmentId) =>
+        getRepositories().submissions.subscribeByAssignment(assignmentId, (assignmentSubmissions) => {
+          byAssignment[assignmentId] = assignmentSubmissions;
+          setSubmissions(foldDuplicateSubmissions(Object.values(byAssignment).flat()));
           setLoading(false);
-          return;
-        }
-        
-        const submissionsArray: any[] = [];
-        submissionsSnapshot.forEach((childSnapshot) => {
-          const submission = childSnapshot.val();
-          if (assignmentIds.includes(submission.assignment_id)) {
-            submissionsArray.push({
-              id: childSnapshot.key,
-              ...submission
-            });
-          }
-        });
-        
-        setSubmissions(submissionsArray);
-        setLoading(false);
-      });
+        })
+      );
     });
     
-    return () => unsubscribe();
+    return () => {
+      unsubscribe();
+      stopSubmissions();
+    };
   }, [user, courseId]);
 
-  const handleGrade = async (submissionId: string, grade: number, feedback: string) => {
+  const handleGrade = async (
+    submissionId: string,
+    version: number,
+    { grade, feedback, rubric_grade, comments }: SubmissionGrade
+  ) => {
     try {
-      const submissionRef = ref(database, `submissions/${submissionId}`);
-      await update(submissionRef, {
+      await getRepositories().submissions.update(submissionId, {
         grade,
         feedback,
+        // Removes a rubric grade left from before the rubric was detached
+        rubric_grade: rubric_grade || undefined,
+        comments: comments.length > 0 ? comments : undefined,
         graded_at: new Date().toISOString(),
+        graded_version: version,
       });
       
+      setGradingId(null);
       toast.success("Submission graded successfully");
+      const graded = submissions.find((submission) => submission.id === submissionId);
+      if (graded) {
+        notifyGradePosted(graded, grade).catch((error) => console.error("Error sending grade notification:", error));
+      }
     } catch (error) {
       console.error("Error grading submission:", error);
       toast.error("Failed to grade submission");
     }
   };
 
+  // Quiz submissions only hold a score summary, so there is nothing to compare
+  const checkableSubmissions = submissions.filter(
+    (submission) => !quizAssignmentIds.includes(submission.assignment_id) && submission.content?.trim()
+  );
+
+  const withCourse = (submission: CheckableSubmission): CheckableSubmission => ({ ...submission, course_id: submission.course_id || courseId });
+
+  const handleCheckAll = async () => {
+    if (!user?.id || checkableSubmissions.length === 0) return;
+
+    setBulkProgress({ completed: 0, total: checkableSubmissions.length });
+    try {
+      const { checked, failed } = await runBulkContentChecks(
+        checkableSubmissions.map(withCourse),
+        user.id,
+        { includeAI },
+        (completed, total) => setBulkProgress({ completed, total })
+      );
+
+      if (failed > 0) {
+        toast.warning(`Checked ${checked} submissions; ${failed} could not be checked`);
+      } else {
+        toast.success(`Checked ${checked} submissions`);
+      }
+    } finally {
+      setBulkProgress(null);
+    }
+  };
+
+  const handleCheckOne = async (submission: CheckableSubmission) => {
+    if (!user?.id) return;
+
+    setCheckingId(submission.id);
+    try {
+      await runContentCheck(withCourse(submission), user.id, { includeAI });
+      setExpandedCheckId(submission.id);
+    } catch (error) {
+      console.error("Error checking submission:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to check submission");
+    } finally {
+      setCheckingId(null);
+    }
+  };
+
   return (
     <div className="space-y-6">
       <div className="flex flex-col md:flex-row justify-between md:items-center gap-4">
@@ -99,12 +188,39 @@ export const StudentResponses: React.FC<StudentResponsesProps> = ({ courseId })
           <p className="text-muted-foreground">Review and grade student assignment submissions</p>
         </div>
         
-        <Button variant="outline">
-          <Filter className="h-4 w-4 mr-2" />
-          Filter Responses
-        </Button>
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="flex items-center gap-2">
+            <Switch id="include-ai" checked={includeAI} onCheckedChange={setIncludeAI} />
+            <Label htmlFor="include-ai" className="text-sm">Include AI likelihood</Label>
+          </div>
+          <Button
+            variant="outline"
+            onClick={handleCheckAll}
+            disabled={bulkProgress !== null || checkableSubmissions.length === 0}
+          >
+            {bulkProgress ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <ScanSearch className="h-4 w-4 mr-2" />
+            )}
+            Check All for Plagiarism
+          </Button>
+          <Button variant="outline">
+            <Filter className="h-4 w-4 mr-2" />
+            Filter Responses
+          </Button>
+        </div>
       </div>
 
+      {bulkProgress && (
+        <div className="space-y-1">
+          <Progress value={(bulkProgress.completed / bulkProgress.total) * 100} />
+          <p className="text-xs text-muted-foreground">
+            Checked {bulkProgress.completed} of {bulkProgress.total} submissions
+          </p>
+        </div>
+      )}
+
       {loading ? (
         <div className="flex justify-center py-8">
           <p>Loading submissions...</p>
@@ -131,40 +247,154 @@ export const StudentResponses: React.FC<StudentResponsesProps> = ({ courseId })
                     <CardTitle>{submission.assignment_title}</CardTitle>
                     <p className="text-sm text-muted-foreground mt-1">
                       Submitted by: {submission.student_name} • {new Date(submission.submitted_at).toLocaleDateString()}
+                      {(submission.version || 1) > 1 && ` • Version ${submission.version}`}
                     </p>
                   </div>
-                  <Badge variant={submission.grade ? "secondary" : "outline"}>
-                    {submission.grade ? "Graded" : "Pending Review"}
-                  </Badge>
+                  <div className="flex gap-2">
+                    {checks[submission.id] && (
+                      <Badge variant="outline" className={getScoreColor(checks[submission.id].plagiarism_score)}>
+                        Similarity: {checks[submission.id].plagiarism_score.toFixed(0)}%
+                      </Badge>
+                    )}
+                    {checks[submission.id]?.ai_probability !== undefined && (
+                      <Badge variant="outline" className={getScoreColor(checks[submission.id].ai_probability!)}>
+                        AI: {checks[submission.id].ai_probability!.toFixed(0)}%
+                      </Badge>
+                    )}
+                    {submission.auto_grade_status === "completed" && (
+                      <Badge variant="outline">
+                        Auto-score: {submission.auto_grade}/{submission.points}
+                      </Badge>
+                    )}
+                    {submission.auto_grade_status === "failed" && (
+                      <Badge variant="destructive">Auto-grading failed</Badge>
+                    )}
+                    {submission.late && (
+                      <Badge variant="outline" className="border-amber-500 text-amber-500">Late</Badge>
+                    )}
+                    {submission.grade !== undefined &&
+                      submission.graded_version !== undefined &&
+                      submission.graded_version < (submission.version || 1) && (
+                        <Badge variant="outline" className="border-blue-500 text-blue-500">Resubmitted since grading</Badge>
+                      )}
+                    <Badge variant={submission.grade !== undefined ? "secondary" : "outline"}>
+                      {submission.grade !== undefined ? "Graded" : "Pending Review"}
+                    </Badge>
+                  </div>
                 </div>
               </CardHeader>
               <CardContent className="pt-4">
                 <div className="space-y-4">
-                  <div>
-                    <h4 className="text-sm font-medium mb-1">Student Response:</h4>
-                    <p className="text-sm bg-muted p-3 rounded-md">{submission.content}</p>
-                    
-                    {submission.file_url && (
-                      <div className="mt-2">
-                        <a href={submission.file_url} target="_blank" rel="noopener noreferrer" className="text-sm text-blue-500 underline">
-                          View Attachment
-                        </a>
+                  {gradingId === submission.id ? (
+                    <SubmissionGrader
+                      submission={submission}
+                      points={submission.points}
+                      rubric={rubrics[assignmentRubricIds[submission.assignment_id]]}
+                      onSave={(grade) => handleGrade(submission.id, submission.version || 1, grade)}
+                      onCancel={() => setGradingId(null)}
+                    />
+                  ) : (
+                    <div>
+                      <h4 className="text-sm font-medium mb-1">
+                        Student Response:
+                        {submission.language && <span className="ml-2 text-xs text-muted-foreground">{submission.language}</span>}
+                      </h4>
+                      <AnnotatedSubmission
+                        content={submission.content || ""}
+                        comments={submission.comments || []}
+                        language={submission.language}
+                      />
+                      
+                      {submission.file_url && (
+                        <div className="mt-2">
+                          <a href={submission.file_url} target="_blank" rel="noopener noreferrer" className="text-sm text-blue-500 underline">
+                            View Attachment
+                          </a>
+                        </div>
+                      )}
+                      
+                      {submission.attachments?.length > 0 && (
+                        <div className="mt-3">
+                          <h4 className="text-sm font-medium mb-1">Attached Files:</h4>
+                          <AttachmentList attachments={submission.attachments} preview />
+                        </div>
+                      )}
+                    </div>
+                  )}
+                  
+                  {submission.versions?.length > 0 && (
+                    <div className="space-y-2">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setHistoryId(historyId === submission.id ? null : submission.id)}
+                      >
+                        <History className="h-4 w-4 mr-2" />
+                        {historyId === submission.id ? "Hide Versions" : `Compare Versions (${submission.versions.length + 1})`}
+                      </Button>
+                      {historyId === submission.id && <SubmissionHistory submission={submission} />}
+                    </div>
+                  )}
+                  
+                  {!quizAssignmentIds.includes(submission.assignment_id) && (
+                    <div className="space-y-3">
+                      <div className="flex gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleCheckOne(submission)}
+                          disabled={checkingId === submission.id || bulkProgress !== null}
+                        >
+                          {checkingId === submission.id ? (
+                            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                          ) : (
+                            <ScanSearch className="h-4 w-4 mr-2" />
+                          )}
+                          {checks[submission.id] ? "Re-run Check" : "Check Originality"}
+                        </Button>
+                        {checks[submission.id] && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setExpandedCheckId(expandedCheckId === submission.id ? null : submission.id)}
+                          >
+                            {expandedCheckId === submission.id ? "Hide Report" : "View Report"}
+                          </Button>
+                        )}
                       </div>
-                    )}
-                  </div>
+                      {checks[submission.id] && expandedCheckId === submission.id && (
+                        <div className="border rounded-md p-3">
+                          <ContentCheckReport content={submission.content || ""} report={checks[submission.id]} />
+                          <p className="text-xs text-muted-foreground mt-3">
+                            Checked {new Date(checks[submission.id].checked_at).toLocaleString()}
+                          </p>
+                        </div>
+                      )}
+                    </div>
+                  )}
                   
-                  {submission.grade ? (
+                  {gradingId === submission.id ? null : submission.grade !== undefined ? (
                     <div className="space-y-2">
                       <div className="flex justify-between items-center">
                         <h4 className="text-sm font-medium">Feedback:</h4>
-                        <span className="text-sm font-medium">Grade: {submission.grade}/{submission.points}</span>
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm font-medium">
+                            Grade: {submission.grade}/{submission.points}
+                            {submission.auto_grade !== undefined && ` (auto: ${submission.auto_grade})`}
+                          </span>
+                          <Button variant="ghost" size="sm" onClick={() => setGradingId(submission.id)}>
+                            <Pencil className="h-4 w-4 mr-1" />
+                            Edit Grade
+                          </Button>
+                        </div>
                       </div>
+                      {submission.rubric_grade && <RubricGradeView grade={submission.rubric_grade} />}
                       <p className="text-sm bg-muted p-3 rounded-md">{submission.feedback || "No feedback provided."}</p>
                     </div>
                   ) : (
                     <div className="flex space-x-2">
                       <Button 
-                        onClick={() => handleGrade(submission.id, 0, "")} 
+                        onClick={() => setGradingId(submission.id)} 
                         className="flex-1"
                       >
                         <Check className="h-4 w-4 mr-2" />
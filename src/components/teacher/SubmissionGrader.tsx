@@ -0,0 +1,197 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Check, Loader2, MessageSquarePlus } from "lucide-react";
+import { toast } from "sonner";
+import { v4 as uuidv4 } from "uuid";
+import { useAuth } from "@/contexts/AuthContext";
+import { InlineComment, Rubric, RubricCriterionScore, Submission } from "@/lib/types";
+import { buildRubricGrade, criterionMaxPoints, rubricGradeToPoints } from "@/lib/rubrics";
+import { AnnotatedSubmission, TextSelection } from "./AnnotatedSubmission";
+import { SubmissionGrade } from "./utils/rubric-utils";
+
+interface SubmissionGraderProps {
+  submission: Submission;
+  points: number; // The assignment's points
+  rubric?: Rubric;
+  onSave: (grade: SubmissionGrade) => Promise<void>;
+  onCancel: () => void;
+}
+
+export const SubmissionGrader: React.FC<SubmissionGraderProps> = ({ submission, points, rubric, onSave, onCancel }) => {
+  const { user } = useAuth();
+  const [scores, setScores] = useState<RubricCriterionScore[]>(
+    submission.rubric_grade?.rubric_id === rubric?.id ? submission.rubric_grade?.scores || [] : []
+  );
+  const [grade, setGrade] = useState(String(submission.grade ?? submission.auto_grade ?? ""));
+  const [feedback, setFeedback] = useState(submission.feedback || "");
+  const [comments, setComments] = useState<InlineComment[]>(submission.comments || []);
+  const [selection, setSelection] = useState<TextSelection | null>(null);
+  const [commentText, setCommentText] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const rubricGrade = rubric ? buildRubricGrade(rubric, scores) : undefined;
+  const scoreFor = (criterionId: string) => scores.find((score) => score.criterion_id === criterionId);
+
+  const setScore = (criterionId: string, changes: Partial<RubricCriterionScore>) => {
+    const existing = scoreFor(criterionId);
+    const updated = { criterion_id: criterionId, points: 0, ...existing, ...changes };
+    setScores([...scores.filter((score) => score.criterion_id !== criterionId), updated]);
+  };
+
+  const handleAddComment = () => {
+    if (!selection || !commentText.trim() || !user?.id) return;
+    setComments([
+      ...comments,
+      {
+        id: uuidv4(),
+        start: selection.start,
+        end: selection.end,
+        quote: selection.quote,
+        comment: commentText.trim(),
+        author_id: user.id,
+        created_at: new Date().toISOString(),
+      },
+    ]);
+    setSelection(null);
+    setCommentText("");
+    window.getSelection()?.removeAllRanges();
+  };
+
+  const handleSave = async () => {
+    if (rubric && rubric.criteria.some((criterion) => scoreFor(criterion.id)?.level_id === undefined)) {
+      toast.error("Score every criterion of the rubric");
+      return;
+    }
+    const finalGrade = rubricGrade ? rubricGradeToPoints(rubricGrade, points) : Number(grade);
+    if (grade === "" && !rubricGrade) {
+      toast.error("Enter a grade");
+      return;
+    }
+    if (Number.isNaN(finalGrade) || finalGrade < 0 || finalGrade > points) {
+      toast.error(`The grade must be between 0 and ${points}`);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSave({ grade: finalGrade, feedback: feedback.trim(), rubric_grade: rubricGrade, comments });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h4 className="text-sm font-medium mb-1">Student Response:</h4>
+        <p className="text-xs text-muted-foreground mb-2">Select a passage to comment on it.</p>
+        <AnnotatedSubmission
+          content={submission.content || ""}
+          comments={comments}
+          language={submission.language}
+          onSelect={setSelection}
+          onRemoveComment={(id) => setComments(comments.filter((comment) => comment.id !== id))}
+        />
+        {selection && (
+          <div className="mt-2 flex gap-2">
+            <Input
+              value={commentText}
+              onChange={(e) => setCommentText(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleAddComment()}
+              placeholder={`Comment on "${selection.quote.length > 40 ? `${selection.quote.slice(0, 40)}…` : selection.quote}"`}
+              autoFocus
+            />
+            <Button variant="outline" onClick={handleAddComment} disabled={!commentText.trim()}>
+              <MessageSquarePlus className="h-4 w-4 mr-2" />
+              Comment
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {rubric ? (
+        <div className="space-y-2">
+          <div className="flex justify-between items-center">
+            <h4 className="text-sm font-medium">{rubric.title}</h4>
+            <span className="text-sm font-medium">
+              {rubricGrade!.total}/{rubricGrade!.max_points} → {rubricGradeToPoints(rubricGrade!, points)}/{points} points
+            </span>
+          </div>
+          <div className="border rounded-md divide-y">
+            {rubric.criteria.map((criterion) => {
+              const score = scoreFor(criterion.id);
+              return (
+                <div key={criterion.id} className="p-3 space-y-2">
+                  <div className="flex justify-between items-start gap-4">
+                    <div>
+                      <p className="text-sm font-medium">{criterion.title}</p>
+                      {criterion.description && <p className="text-xs text-muted-foreground">{criterion.description}</p>}
+                    </div>
+                    <span className="text-sm whitespace-nowrap">
+                      {score ? score.points : "—"}/{criterionMaxPoints(criterion)}
+                    </span>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {criterion.levels.map((level) => (
+                      <Button
+                        key={level.id}
+                        type="button"
+                        size="sm"
+                        variant={score?.level_id === level.id ? "default" : "outline"}
+                        title={level.description}
+                        onClick={() => setScore(criterion.id, { level_id: level.id, points: level.points })}
+                      >
+                        {level.label} · {level.points}
+                      </Button>
+                    ))}
+                  </div>
+                  <Input
+                    value={score?.comment || ""}
+                    onChange={(e) => setScore(criterion.id, { comment: e.target.value })}
+                    placeholder="Comment on this criterion (optional)"
+                  />
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <Label htmlFor={`grade-${submission.id}`}>Grade (out of {points})</Label>
+          <Input
+            id={`grade-${submission.id}`}
+            type="number"
+            min={0}
+            max={points}
+            value={grade}
+            onChange={(e) => setGrade(e.target.value)}
+          />
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor={`feedback-${submission.id}`}>Feedback</Label>
+        <Textarea
+          id={`feedback-${submission.id}`}
+          value={feedback}
+          onChange={(e) => setFeedback(e.target.value)}
+          placeholder="Overall feedback for the student"
+          rows={3}
+        />
+      </div>
+
+      <div className="flex gap-2">
+        <Button onClick={handleSave} disabled={saving} className="flex-1">
+          {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Check className="h-4 w-4 mr-2" />}
+          Save Grade
+        </Button>
+        <Button variant="outline" onClick={onCancel} disabled={saving}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+};
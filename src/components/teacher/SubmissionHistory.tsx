@@ -0,0 +1,83 @@
+import React, { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Submission } from "@/lib/types";
+import { submissionVersions } from "@/lib/submissions";
+import { diffLines } from "@/lib/text-diff";
+import { AttachmentList } from "./AttachmentList";
+
+interface SubmissionHistoryProps {
+  submission: Submission;
+}
+
+const LINE_STYLES = {
+  same: "",
+  added: "bg-green-500/15",
+  removed: "bg-red-500/15 line-through decoration-red-500/50",
+} as const;
+
+const LINE_MARKS = { same: " ", added: "+", removed: "-" } as const;
+
+// Earlier versions of a resubmitted submission, compared line by line. Starts
+// from the graded version when the student has resubmitted since grading.
+export const SubmissionHistory: React.FC<SubmissionHistoryProps> = ({ submission }) => {
+  const versions = submissionVersions(submission);
+  const current = versions[versions.length - 1];
+  const gradedEarlier =
+    submission.graded_version !== undefined && submission.graded_version < current.version
+      ? submission.graded_version
+      : undefined;
+  const [from, setFrom] = useState(gradedEarlier ?? current.version - 1);
+  const [to, setTo] = useState(current.version);
+
+  const before = versions.find((version) => version.version === from);
+  const after = versions.find((version) => version.version === to);
+  const lines = before && after ? diffLines(before.content, after.content) : [];
+  const changed = lines.filter((line) => line.type !== "same").length;
+
+  const versionSelect = (value: number, onChange: (value: number) => void) => (
+    <Select value={String(value)} onValueChange={(selected) => onChange(Number(selected))}>
+      <SelectTrigger className="w-[260px]">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {versions.map((version) => (
+          <SelectItem key={version.version} value={String(version.version)}>
+            Version {version.version} · {new Date(version.submitted_at).toLocaleString()}
+            {version.late ? " · late" : ""}
+            {version.version === submission.graded_version ? " · graded" : ""}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Label className="text-sm">Compare</Label>
+        {versionSelect(from, setFrom)}
+        <Label className="text-sm">with</Label>
+        {versionSelect(to, setTo)}
+        <Badge variant="outline">{changed === 0 ? "No changes" : `${changed} lines changed`}</Badge>
+      </div>
+      <div className="border rounded-md bg-muted/50 max-h-80 overflow-auto">
+        <pre className="text-sm font-mono p-2">
+          {lines.map((line, index) => (
+            <div key={index} className={LINE_STYLES[line.type]}>
+              <span className="select-none text-muted-foreground mr-2">{LINE_MARKS[line.type]}</span>
+              {line.text || " "}
+            </div>
+          ))}
+        </pre>
+      </div>
+      {after?.attachments && after.attachments.length > 0 && (
+        <div className="space-y-1">
+          <h4 className="text-sm font-medium">Files in version {after.version}</h4>
+          <AttachmentList attachments={after.attachments} preview />
+        </div>
+      )}
+    </div>
+  );
+};
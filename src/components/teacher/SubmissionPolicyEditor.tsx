@@ -0,0 +1,74 @@
+import React from "react";
+import { format } from "date-fns";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { SubmissionPolicy } from "@/lib/types";
+
+interface SubmissionPolicyEditorProps {
+  value: SubmissionPolicy;
+  onChange: (value: SubmissionPolicy) => void;
+}
+
+// datetime-local inputs work in local time without a zone
+const toInputValue = (iso?: string) => (iso ? format(new Date(iso), "yyyy-MM-dd'T'HH:mm") : "");
+const fromInputValue = (value: string) => (value ? new Date(value).toISOString() : undefined);
+
+export const SubmissionPolicyEditor: React.FC<SubmissionPolicyEditorProps> = ({ value, onChange }) => {
+  const setNumber = (key: "max_attempts" | "grace_minutes", input: string) =>
+    onChange({ ...value, [key]: input === "" ? undefined : Math.max(0, parseInt(input) || 0) });
+
+  return (
+    <div className="space-y-4 border rounded-md p-4">
+      <div>
+        <h4 className="text-sm font-medium">Submissions</h4>
+        <p className="text-xs text-muted-foreground">
+          Students resubmit onto the same submission and you can compare their versions while grading.
+        </p>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="max-attempts">Maximum attempts</Label>
+          <Input
+            id="max-attempts"
+            type="number"
+            min="1"
+            value={value.max_attempts ?? ""}
+            onChange={(e) => setNumber("max_attempts", e.target.value)}
+            placeholder="Unlimited"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="grace-minutes">Grace period (minutes)</Label>
+          <Input
+            id="grace-minutes"
+            type="number"
+            min="0"
+            value={value.grace_minutes ?? ""}
+            onChange={(e) => setNumber("grace_minutes", e.target.value)}
+            placeholder="0"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="late-until">Accept late work until</Label>
+          <Input
+            id="late-until"
+            type="datetime-local"
+            value={toInputValue(value.late_until)}
+            onChange={(e) => onChange({ ...value, late_until: fromInputValue(e.target.value) })}
+          />
+          <p className="text-xs text-muted-foreground">Leave empty to close submissions at the due date.</p>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="resubmit-until">Allow resubmissions until</Label>
+          <Input
+            id="resubmit-until"
+            type="datetime-local"
+            value={toInputValue(value.resubmit_until)}
+            onChange={(e) => onChange({ ...value, resubmit_until: fromInputValue(e.target.value) })}
+          />
+          <p className="text-xs text-muted-foreground">Leave empty to allow them while submissions are open.</p>
+        </div>
+      </div>
+    </div>
+  );
+};
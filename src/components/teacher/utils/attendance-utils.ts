@@ -0,0 +1,37 @@
+import { getRepositories } from "@/lib/repositories";
+import { AttendancePolicy } from "@/lib/types";
+
+export async function saveAttendancePolicy(courseId: string, policy: AttendancePolicy, userId: string) {
+  await getRepositories().attendancePolicies.save(courseId, {
+    at_risk_absences: policy.at_risk_absences,
+    lates_per_absence: policy.lates_per_absence,
+    notify_students: policy.notify_students,
+    updated_by: userId,
+    updated_at: new Date().toISOString(),
+  });
+}
+
+// Students without a record for the date are marked present; records already
+// taken for the day are left alone
+export async function markAllPresent(courseId: string, teacherId: string, studentIds: string[], date: string) {
+  const { attendance } = getRepositories();
+  const recorded = new Set(
+    (await attendance.listByCourse(courseId))
+      .filter((record) => record.date.slice(0, 10) === date)
+      .map((record) => record.student_id)
+  );
+  const unrecorded = studentIds.filter((studentId) => !recorded.has(studentId));
+  await Promise.all(
+    unrecorded.map((studentId) =>
+      attendance.create({
+        student_id: studentId,
+        teacher_id: teacherId,
+        courseId,
+        date,
+        status: "present",
+        recorded_at: new Date().toISOString(),
+      })
+    )
+  );
+  return unrecorded.length;
+}
@@ -0,0 +1,30 @@
+import { CodeLanguage, CodeTestCase, CodingAssignmentConfig } from "@/lib/types";
+
+export const CODING_LANGUAGES: { value: CodeLanguage; label: string }[] = [
+  { value: "javascript", label: "JavaScript" },
+  { value: "python", label: "Python" },
+];
+
+export const EMPTY_CODING_CONFIG: CodingAssignmentConfig = {
+  languages: ["javascript"],
+  starter_code: { javascript: "// Read input with readLine()\n" },
+  test_cases: [],
+};
+
+// Students read the assignment, so it only carries the example tests. Hidden
+// tests are stored under coding_tests/{assignmentId}, keyed by test id, where
+// only the course teacher and the grading server can read them.
+export function splitHiddenTests(config: CodingAssignmentConfig): {
+  coding: CodingAssignmentConfig;
+  hiddenTests: Record<string, CodeTestCase> | null;
+} {
+  const hidden = config.test_cases.filter((testCase) => testCase.hidden);
+  return {
+    coding: {
+      ...config,
+      test_cases: config.test_cases.filter((testCase) => !testCase.hidden),
+      hidden_test_count: hidden.length,
+    },
+    hiddenTests: hidden.length > 0 ? Object.fromEntries(hidden.map((testCase) => [testCase.id, testCase])) : null,
+  };
+}
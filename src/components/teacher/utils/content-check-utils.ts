@@ -0,0 +1,201 @@
+import { invokeAIFunction } from "@/lib/ai-client";
+import { getRepositories } from "@/lib/repositories";
+import { AIContentCheck, Submission } from "@/lib/types";
+import { ComparisonSource, compareAgainstSources } from "@/lib/plagiarism";
+
+// The fields of a submission the checker needs; StudentResponses passes its
+// raw records straight through
+export interface CheckableSubmission {
+  id: string;
+  assignment_id: string;
+  assignment_title?: string;
+  course_id?: string;
+  teacher_id?: string;
+  user_id: string;
+  student_name?: string;
+  content?: string;
+}
+
+interface CorpusEntry extends ComparisonSource {
+  userId: string;
+}
+
+export const getScoreColor = (score: number) => {
+  if (score < 30) return "text-green-500";
+  if (score < 70) return "text-yellow-500";
+  return "text-red-500";
+};
+
+const normalizeTitle = (title?: string) => (title || "").trim().toLowerCase();
+
+const hasText = (submission: Submission): submission is Submission & { content: string } =>
+  typeof submission.content === "string" && submission.content.trim() !== "";
+
+const fetchSubmissionsFor = async (assignmentId: string, courseLabel?: string): Promise<CorpusEntry[]> => {
+  const submissions = await getRepositories().submissions.listByAssignment(assignmentId);
+  return submissions.filter(hasText).map((submission) => {
+    const student = submission.student_name || "Unknown student";
+    return {
+      id: submission.id,
+      userId: submission.user_id,
+      label: courseLabel ? `${student} (${courseLabel})` : student,
+      text: submission.content,
+    };
+  });
+};
+
+// Everything a submission is compared with: the other submissions for the same
+// assignment, plus submissions to same-titled assignments the teacher set in
+// other courses, which is how earlier terms of a course appear in the data.
+export async function loadComparisonCorpus(submission: CheckableSubmission): Promise<CorpusEntry[]> {
+  const corpus = await fetchSubmissionsFor(submission.assignment_id);
+
+  if (submission.teacher_id && submission.assignment_title) {
+    const { assignments, courses } = getRepositories();
+    const earlierOfferings = (await assignments.listByTeacher(submission.teacher_id)).filter(
+      (assignment) =>
+        assignment.id !== submission.assignment_id &&
+        normalizeTitle(assignment.title) === normalizeTitle(submission.assignment_title)
+    );
+
+    for (const offering of earlierOfferings) {
+      const course = await courses.get(offering.course_id);
+      corpus.push(...(await fetchSubmissionsFor(offering.id, course?.title || "another course")));
+    }
+  }
+
+  return corpus;
+}
+
+export type ContentAnalysis = Pick<
+  AIContentCheck,
+  "plagiarism_score" | "ai_probability" | "overlap_spans" | "matches" | "sources_compared" | "analysis_results"
+>;
+
+const describeReport = (report: Omit<ContentAnalysis, "analysis_results">) => {
+  const analysis: string[] = [];
+  const matches = report.matches || [];
+
+  if (report.sources_compared === 0) {
+    analysis.push("There were no other submissions to compare against.");
+  } else if (matches.length === 0) {
+    analysis.push(`No overlapping passages found across ${report.sources_compared} other submissions.`);
+  } else {
+    analysis.push(
+      `${report.plagiarism_score}% of the text overlaps with ${matches.length} of ${report.sources_compared} other submissions.`
+    );
+    matches.slice(0, 3).forEach((match) => {
+      analysis.push(`${match.score}% matches ${match.source_label}.`);
+    });
+  }
+
+  return analysis;
+};
+
+// Scores text against the given sources and, when asked, the configured AI
+// model's estimate of how likely the text is to be machine-written
+export async function analyzeText(
+  content: string,
+  sources: ComparisonSource[],
+  options: { includeAI?: boolean } = {}
+): Promise<ContentAnalysis> {
+  const similarity = compareAgainstSources(content, sources);
+
+  const report: ContentAnalysis = {
+    plagiarism_score: similarity.score,
+    overlap_spans: similarity.spans,
+    matches: similarity.matches.map((match) => ({
+      source_submission_id: match.sourceId,
+      source_label: match.sourceLabel,
+      score: match.score,
+      spans: match.spans,
+    })),
+    sources_compared: sources.length,
+    analysis_results: [],
+  };
+  report.analysis_results = describeReport(report);
+
+  // Firebase rejects undefined values, so the AI score is only set when requested
+  if (options.includeAI && content.trim()) {
+    const detection = await invokeAIFunction<{ ai_probability: number; analysis: string[] }>("check-ai-content", {
+      text: content,
+    });
+    report.ai_probability = Math.round(detection.ai_probability * 10) / 10;
+    report.analysis_results.push(...(detection.analysis || []));
+  }
+
+  return report;
+}
+
+export async function runContentCheck(
+  submission: CheckableSubmission,
+  checkedBy: string,
+  options: { includeAI?: boolean; corpus?: CorpusEntry[] } = {}
+): Promise<AIContentCheck> {
+  const corpus = options.corpus || (await loadComparisonCorpus(submission));
+
+  // A student's own resubmissions or other work are not plagiarism
+  const sources = corpus.filter((entry) => entry.id !== submission.id && entry.userId !== submission.user_id);
+  const report = await analyzeText(submission.content || "", sources, options);
+
+  const result: AIContentCheck = {
+    id: submission.id,
+    submission_id: submission.id,
+    assignment_id: submission.assignment_id,
+    ...report,
+    checked_at: new Date().toISOString(),
+    checked_by: checkedBy,
+  };
+  if (submission.course_id) {
+    result.course_id = submission.course_id;
+  }
+
+  // One check per submission; rerunning replaces the previous result
+  await getRepositories().contentChecks.save(result);
+  return result;
+}
+
+// Used by the admin checker for pasted text, which has no assignment to scope to
+export async function checkTextAgainstAllSubmissions(text: string, options: { includeAI?: boolean } = {}) {
+  const submissions = await getRepositories().submissions.list();
+  const sources: ComparisonSource[] = submissions.filter(hasText).map((submission) => ({
+    id: submission.id,
+    label: `${submission.student_name || "Unknown student"} – ${submission.assignment_title || "Untitled assignment"}`,
+    text: submission.content,
+  }));
+  return analyzeText(text, sources, options);
+}
+
+// Checks submissions one after another, loading each assignment's corpus once
+export async function runBulkContentChecks(
+  submissions: CheckableSubmission[],
+  checkedBy: string,
+  options: { includeAI?: boolean },
+  onProgress?: (completed: number, total: number) => void
+): Promise<{ checked: number; failed: number }> {
+  const corpora = new Map<string, CorpusEntry[]>();
+  let checked = 0;
+  let failed = 0;
+
+  for (const submission of submissions) {
+    try {
+      let corpus = corpora.get(submission.assignment_id);
+      if (!corpus) {
+        corpus = await loadComparisonCorpus(submission);
+        corpora.set(submission.assignment_id, corpus);
+      }
+      await runContentCheck(submission, checkedBy, { ...options, corpus });
+      checked++;
+    } catch (error) {
+      console.error(`Content check failed for submission ${submission.id}:`, error);
+      failed++;
+    }
+    onProgress?.(checked + failed, submissions.length);
+  }
+
+  return { checked, failed };
+}
+
+export function subscribeToContentChecks(courseId: string, callback: (checks: Record<string, AIContentCheck>) => void) {
+  return getRepositories().contentChecks.subscribeByCourse(courseId, callback);
+}
@@ -0,0 +1,174 @@
+import { format } from "date-fns";
+import { getRepositories } from "@/lib/repositories";
+import { Course, Enrollment, User } from "@/lib/types";
+import { computeStanding, fetchCourseOverrides, fetchGradebookSettings, lateDays } from "@/lib/gradebook";
+import { Sheet, SpreadsheetFormat, downloadSheet } from "@/lib/spreadsheet";
+import { fetchGradebookCourseData } from "./gradebook-utils";
+
+export type CourseExportKind = "gradebook" | "attendance" | "submissions";
+
+export const COURSE_EXPORTS: { kind: CourseExportKind; label: string; description: string }[] = [
+  { kind: "gradebook", label: "Gradebook", description: "Scores after late penalties and overrides, with final grades" },
+  { kind: "attendance", label: "Attendance", description: "One column per class day, with totals per student" },
+  { kind: "submissions", label: "Submissions", description: "Every submission with its time, lateness, grade and feedback" },
+];
+
+interface CourseRoster {
+  course: Course;
+  enrollments: Enrollment[];
+  users: Map<string, User>;
+}
+
+async function fetchRoster(courseId: string): Promise<CourseRoster> {
+  const { courses, enrollments, users } = getRepositories();
+  const [course, courseEnrollments] = await Promise.all([courses.get(courseId), enrollments.listByCourse(courseId)]);
+  if (!course) {
+    throw new Error("Course not found");
+  }
+  const profiles = await Promise.all(courseEnrollments.map((enrollment) => users.get(enrollment.student_id)));
+  const byId = new Map(profiles.filter((profile): profile is User => !!profile).map((profile) => [profile.id, profile]));
+  return {
+    course,
+    enrollments: [...courseEnrollments].sort((a, b) =>
+      studentName(a, byId.get(a.student_id)).localeCompare(studentName(b, byId.get(b.student_id)))
+    ),
+    users: byId,
+  };
+}
+
+const studentName = (enrollment: Enrollment, user: User | null | undefined) =>
+  user?.name || enrollment.student_name || enrollment.student_id;
+
+const studentColumns = (enrollment: Enrollment, users: Map<string, User>) => {
+  const user = users.get(enrollment.student_id);
+  return [studentName(enrollment, user), enrollment.student_id, user?.email || ""];
+};
+
+// Laid out like a Canvas gradebook export: assignment columns are headed
+// "Title (id)" and the second row holds the points possible
+async function buildGradebookSheet({ course, enrollments, users }: CourseRoster): Promise<Sheet> {
+  const [{ assignments, submissions }, settings, overrides] = await Promise.all([
+    fetchGradebookCourseData(course.id),
+    fetchGradebookSettings(course.id),
+    fetchCourseOverrides(course.id),
+  ]);
+
+  const rows = enrollments.map((enrollment) => {
+    const standing = computeStanding(
+      assignments,
+      submissions[enrollment.student_id] || [],
+      overrides[enrollment.student_id] || {},
+      settings
+    );
+    const items = standing.categories.flatMap((category) => category.items);
+    return [
+      ...studentColumns(enrollment, users),
+      ...assignments.map((assignment) => items.find((item) => item.assignment.id === assignment.id)?.earned ?? null),
+      standing.percent,
+      standing.letter,
+    ];
+  });
+
+  return {
+    name: "Gradebook",
+    rows: [
+      ["Student", "ID", "SIS Login ID", ...assignments.map((a) => `${a.title} (${a.id})`), "Final Score", "Final Grade"],
+      ["Points Possible", "", "", ...assignments.map((a) => a.points), 100, ""],
+      ...rows,
+    ],
+  };
+}
+
+const ATTENDANCE_CODES = { present: "P", late: "L", absent: "A", excused: "E" } as const;
+
+async function buildAttendanceSheet({ course, enrollments, users }: CourseRoster): Promise<Sheet> {
+  const records = await getRepositories().attendance.listByCourse(course.id);
+  const dates = [...new Set(records.map((record) => record.date.slice(0, 10)))].sort();
+
+  const rows = enrollments.map((enrollment) => {
+    const studentRecords = records.filter((record) => record.student_id === enrollment.student_id);
+    const statusOn = (date: string) => studentRecords.find((record) => record.date.slice(0, 10) === date)?.status;
+    const count = (status: keyof typeof ATTENDANCE_CODES) =>
+      studentRecords.filter((record) => record.status === status).length;
+    const attended = count("present") + count("late");
+    // Excused days are left out of the rate
+    const counted = studentRecords.length - count("excused");
+    return [
+      ...studentColumns(enrollment, users),
+      ...dates.map((date) => {
+        const status = statusOn(date);
+        return status ? ATTENDANCE_CODES[status] : "";
+      }),
+      count("present"),
+      count("late"),
+      count("absent"),
+      count("excused"),
+      counted > 0 ? Math.round((attended / counted) * 1000) / 10 : null,
+    ];
+  });
+
+  return {
+    name: "Attendance",
+    rows: [["Student", "ID", "Email", ...dates, "Present", "Late", "Absent", "Excused", "Attendance Rate (%)"], ...rows],
+  };
+}
+
+async function buildSubmissionsSheet({ course, enrollments, users }: CourseRoster): Promise<Sheet> {
+  const { assignments, submissions } = await fetchGradebookCourseData(course.id);
+
+  const rows = enrollments.flatMap((enrollment) =>
+    (submissions[enrollment.student_id] || [])
+      .map((submission) => ({ submission, assignment: assignments.find((a) => a.id === submission.assignment_id) }))
+      .filter(({ assignment }) => assignment)
+      .sort((a, b) => a.submission.submitted_at - b.submission.submitted_at)
+      .map(({ submission, assignment }) => [
+        ...studentColumns(enrollment, users),
+        assignment!.title,
+        assignment!.id,
+        new Date(submission.submitted_at).toISOString(),
+        lateDays(submission.submitted_at, assignment!),
+        submission.grade ?? submission.auto_grade ?? null,
+        assignment!.points,
+        submission.graded_at || "",
+        submission.feedback || "",
+      ])
+  );
+
+  return {
+    name: "Submissions",
+    rows: [
+      [
+        "Student",
+        "ID",
+        "Email",
+        "Assignment",
+        "Assignment ID",
+        "Submitted At",
+        "Days Late",
+        "Grade",
+        "Points Possible",
+        "Graded At",
+        "Feedback",
+      ],
+      ...rows,
+    ],
+  };
+}
+
+const SHEET_BUILDERS: Record<CourseExportKind, (roster: CourseRoster) => Promise<Sheet>> = {
+  gradebook: buildGradebookSheet,
+  attendance: buildAttendanceSheet,
+  submissions: buildSubmissionsSheet,
+};
+
+const fileSlug = (title: string) =>
+  title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "") || "course";
+
+export async function exportCourseData(courseId: string, kind: CourseExportKind, fileFormat: SpreadsheetFormat) {
+  const roster = await fetchRoster(courseId);
+  const sheet = await SHEET_BUILDERS[kind](roster);
+  downloadSheet(`${fileSlug(roster.course.title)}-${kind}-${format(new Date(), "yyyy-MM-dd")}`, sheet, fileFormat);
+}
@@ -0,0 +1,245 @@
+import { getRepositories } from "@/lib/repositories";
+import { Assignment, Enrollment, Submission, User } from "@/lib/types";
+import { dueTime } from "@/lib/gradebook";
+import { notifyGradePosted } from "@/lib/notifications";
+import { fetchGradebookCourseData } from "./gradebook-utils";
+
+export type CourseImportKind = "roster" | "grades";
+
+export interface ImportField {
+  key: string;
+  label: string;
+  aliases: string[]; // Lowercase header names matched automatically
+}
+
+// Field key to column index, -1 when unmapped
+export type ColumnMapping = Record<string, number>;
+
+export type ImportAction =
+  | { type: "enroll"; student: User }
+  | { type: "grade"; student: User; assignment: Assignment; score: number; submission?: Submission };
+
+export interface ImportRowResult {
+  line: number; // Row number, counting the header row
+  student: string;
+  errors: string[];
+  warnings: string[];
+  actions: ImportAction[];
+}
+
+export interface ImportContext {
+  courseId: string;
+  users: User[];
+  enrollments: Enrollment[];
+  assignments: Assignment[];
+  submissions: Record<string, Submission[]>;
+}
+
+const STUDENT_FIELDS: ImportField[] = [
+  { key: "email", label: "Email", aliases: ["email", "e-mail", "email address", "sis login id", "login id", "username"] },
+  { key: "student_id", label: "Student ID", aliases: ["id", "student id", "user id", "uid"] },
+  { key: "name", label: "Name", aliases: ["name", "student", "student name", "full name"] },
+];
+
+const assignmentField = (assignment: Assignment): ImportField => ({
+  key: `assignment:${assignment.id}`,
+  label: `${assignment.title} (${assignment.points} pts)`,
+  aliases: [assignment.title.toLowerCase(), `${assignment.title} (${assignment.id})`.toLowerCase()],
+});
+
+export function importFields(kind: CourseImportKind, assignments: Assignment[]): ImportField[] {
+  return kind === "roster" ? STUDENT_FIELDS : [...STUDENT_FIELDS, ...assignments.map(assignmentField)];
+}
+
+// Canvas and Moodle exports append the id or points in parentheses
+const normalizeHeader = (header: string) => header.trim().toLowerCase();
+const withoutSuffix = (header: string) => normalizeHeader(header).replace(/\s*\([^)]*\)\s*$/, "");
+
+export function autoMapColumns(headers: string[], fields: ImportField[]): ColumnMapping {
+  const used = new Set<number>();
+  return Object.fromEntries(
+    fields.map((field) => {
+      const match = [normalizeHeader, withoutSuffix]
+        .map((normalize) =>
+          headers.findIndex((header, index) => !used.has(index) && field.aliases.includes(normalize(header)))
+        )
+        .find((index) => index >= 0);
+      if (match !== undefined) used.add(match);
+      return [field.key, match ?? -1];
+    })
+  );
+}
+
+export async function loadImportContext(courseId: string): Promise<ImportContext> {
+  const { users, enrollments } = getRepositories();
+  const [allUsers, courseEnrollments, { assignments, submissions }] = await Promise.all([
+    users.list(),
+    enrollments.listByCourse(courseId),
+    fetchGradebookCourseData(courseId),
+  ]);
+  return { courseId, users: allUsers, enrollments: courseEnrollments, assignments, submissions };
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const cell = (row: string[], mapping: ColumnMapping, key: string) => {
+  const index = mapping[key] ?? -1;
+  return index >= 0 ? (row[index] || "").trim() : "";
+};
+
+// Gradebook exports put the points possible on the second line
+const isPointsPossibleRow = (row: string[]) => /^points possible$/i.test((row[0] || "").trim());
+
+function findStudent(row: string[], mapping: ColumnMapping, context: ImportContext, result: ImportRowResult) {
+  const email = cell(row, mapping, "email");
+  const studentId = cell(row, mapping, "student_id");
+  result.student = cell(row, mapping, "name") || email || studentId;
+
+  if (!email && !studentId) {
+    result.errors.push("No email or student ID");
+    return null;
+  }
+  if (email && !EMAIL_PATTERN.test(email)) {
+    result.errors.push(`"${email}" is not a valid email address`);
+    return null;
+  }
+
+  const student = studentId
+    ? context.users.find((user) => user.id === studentId)
+    : context.users.find((user) => user.email?.toLowerCase() === email.toLowerCase());
+  if (!student) {
+    result.errors.push(
+      studentId ? `No account with ID ${studentId}` : `No account with email ${email}; the student needs to sign up first`
+    );
+    return null;
+  }
+  if (student.role !== "student") {
+    result.errors.push(`${student.name} is a ${student.role}, not a student`);
+    return null;
+  }
+  result.student = student.name;
+  return student;
+}
+
+function planRosterRow(row: string[], mapping: ColumnMapping, context: ImportContext, seen: Set<string>, result: ImportRowResult) {
+  const student = findStudent(row, mapping, context, result);
+  if (!student) return;
+
+  if (seen.has(student.id)) {
+    result.warnings.push("Listed more than once; skipped");
+  } else if (context.enrollments.some((enrollment) => enrollment.student_id === student.id)) {
+    result.warnings.push("Already enrolled");
+  } else {
+    result.actions.push({ type: "enroll", student });
+  }
+  seen.add(student.id);
+}
+
+function planGradesRow(row: string[], mapping: ColumnMapping, context: ImportContext, result: ImportRowResult) {
+  const student = findStudent(row, mapping, context, result);
+  if (!student) return;
+
+  if (!context.enrollments.some((enrollment) => enrollment.student_id === student.id)) {
+    result.errors.push("Not enrolled in this course; import the roster first");
+    return;
+  }
+
+  context.assignments.forEach((assignment) => {
+    const value = cell(row, mapping, `assignment:${assignment.id}`);
+    if (value === "" || value === "-") return;
+
+    const score = Number(value.replace(",", "."));
+    if (Number.isNaN(score)) {
+      result.errors.push(`${assignment.title}: "${value}" is not a number`);
+      return;
+    }
+    if (score < 0 || score > assignment.points) {
+      result.errors.push(`${assignment.title}: ${score} is outside 0-${assignment.points}`);
+      return;
+    }
+
+    const submission = (context.submissions[student.id] || [])
+      .filter((s) => s.assignment_id === assignment.id)
+      .sort((a, b) => b.submitted_at - a.submitted_at)[0];
+    if (submission?.grade === score) return;
+    if (submission?.grade !== undefined) {
+      result.warnings.push(`${assignment.title}: replaces ${submission.grade} with ${score}`);
+    }
+    result.actions.push({ type: "grade", student, assignment, score, submission });
+  });
+}
+
+// Checks every row and works out what importing it would change, without
+// writing anything. Rows with errors are left out of the import.
+export function planImport(
+  kind: CourseImportKind,
+  rows: string[][],
+  mapping: ColumnMapping,
+  context: ImportContext
+): ImportRowResult[] {
+  const seen = new Set<string>();
+  return rows.slice(1).flatMap((row, index) => {
+    if (isPointsPossibleRow(row)) return [];
+    const result: ImportRowResult = { line: index + 2, student: "", errors: [], warnings: [], actions: [] };
+    if (kind === "roster") {
+      planRosterRow(row, mapping, context, seen, result);
+    } else {
+      planGradesRow(row, mapping, context, result);
+    }
+    return [result];
+  });
+}
+
+export async function applyImport(results: ImportRowResult[], context: ImportContext, teacherId: string) {
+  const { enrollments, submissions } = getRepositories();
+  const now = new Date().toISOString();
+  let applied = 0;
+
+  for (const result of results.filter((r) => r.errors.length === 0)) {
+    for (const action of result.actions) {
+      if (action.type === "enroll") {
+        await enrollments.create({
+          course_id: context.courseId,
+          student_id: action.student.id,
+          student_name: action.student.name,
+          enrolled_at: now,
+          completed: false,
+          progress: 0,
+        });
+      } else if (action.submission) {
+        await submissions.update(action.submission.id, { grade: action.score, graded_at: now });
+      } else {
+        // Offline work has no submission yet; it counts as handed in on time
+        const { assignment } = action;
+        const due = assignment.due_date ? dueTime(assignment.due_date) : null;
+        await submissions.create({
+          assignment_id: assignment.id,
+          user_id: action.student.id,
+          student_name: action.student.name,
+          course_id: context.courseId,
+          teacher_id: teacherId,
+          assignment_title: assignment.title,
+          points: assignment.points,
+          content: "",
+          submitted_at: due ? Math.min(due.getTime(), Date.now()) : Date.now(),
+          grade: action.score,
+          graded_at: now,
+        });
+      }
+      if (action.type === "grade") {
+        notifyGradePosted(
+          {
+            user_id: action.student.id,
+            course_id: context.courseId,
+            assignment_id: action.assignment.id,
+            assignment_title: action.assignment.title,
+            points: action.assignment.points,
+          },
+          action.score
+        ).catch((error) => console.error("Error sending grade notification:", error));
+      }
+      applied++;
+    }
+  }
+  return applied;
+}
@@ -0,0 +1,54 @@
+import { getRepositories } from "@/lib/repositories";
+import { FINAL_GRADE_KEY } from "@/lib/gradebook";
+import { Assignment, GradeOverride, GradebookSettings, Submission } from "@/lib/types";
+
+export interface GradebookCourseData {
+  assignments: Assignment[];
+  // By student id
+  submissions: Record<string, Submission[]>;
+}
+
+export async function fetchGradebookCourseData(courseId: string): Promise<GradebookCourseData> {
+  const { assignments, submissions } = getRepositories();
+  const courseAssignments = await assignments.listByCourse(courseId);
+  const assignmentSubmissions = await Promise.all(
+    courseAssignments.map((assignment) => submissions.listByAssignment(assignment.id))
+  );
+
+  const byStudent: Record<string, Submission[]> = {};
+  assignmentSubmissions.flat().forEach((submission) => {
+    byStudent[submission.user_id] = [...(byStudent[submission.user_id] || []), submission];
+  });
+
+  courseAssignments.sort((a, b) => (a.due_date || a.created_at || "").localeCompare(b.due_date || b.created_at || ""));
+  return { assignments: courseAssignments, submissions: byStudent };
+}
+
+export async function saveGradebookSettings(courseId: string, settings: GradebookSettings, userId: string) {
+  await getRepositories().gradebooks.saveSettings(courseId, {
+    categories: settings.categories,
+    late_penalty: settings.late_penalty,
+    scale: settings.scale,
+    updated_by: userId,
+    updated_at: new Date().toISOString(),
+  });
+}
+
+export async function setAssignmentCategory(assignmentId: string, categoryId: string | undefined) {
+  await getRepositories().assignments.update(assignmentId, { category_id: categoryId });
+}
+
+export async function setGradeOverride(override: Omit<GradeOverride, "set_at">) {
+  if (!override.reason.trim()) {
+    throw new Error("A reason is required to override a grade");
+  }
+  await getRepositories().gradebooks.saveOverride(override.assignment_id || FINAL_GRADE_KEY, {
+    ...override,
+    reason: override.reason.trim(),
+    set_at: new Date().toISOString(),
+  });
+}
+
+export async function clearGradeOverride(courseId: string, studentId: string, assignmentId?: string) {
+  await getRepositories().gradebooks.removeOverride(courseId, studentId, assignmentId || FINAL_GRADE_KEY);
+}
@@ -0,0 +1,103 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createMemoryRepositories, enrollmentId, getRepositories, setRepositories } from "@/lib/repositories";
+import { BankQuestion, CourseQuiz } from "@/lib/types";
+import {
+  deleteBankQuestion,
+  publishCourseQuiz,
+  saveBankQuestion,
+  subscribeToCourseQuizzes,
+  subscribeToQuestionBank,
+  updateCourseQuizSchedule,
+} from "./quiz-bank-utils";
+
+// Runs the question bank and quiz publishing against the in-memory backend
+
+const latest = <T>(subscribe: (callback: (items: T) => void) => () => void) => {
+  let value: T | undefined;
+  subscribe((items) => {
+    value = items;
+  })();
+  return value!;
+};
+
+const bank = () => latest<BankQuestion[]>((callback) => subscribeToQuestionBank("course-1", callback));
+
+const question = {
+  course_id: "course-1",
+  type: "multiple_choice" as const,
+  prompt: "2 + 2?",
+  options: ["3", "4"],
+  correct_options: [1],
+  points: 1,
+  source: "manual" as const,
+};
+
+beforeEach(() => {
+  setRepositories(
+    createMemoryRepositories({
+      courses: [
+        { id: "course-1", title: "Maths", description: "", instructor_id: "teacher-1", is_archived: false, created_at: "", updated_at: "" },
+      ],
+      enrollments: [
+        { id: enrollmentId("course-1", "student-1"), course_id: "course-1", student_id: "student-1", enrolled_at: "", completed: false },
+      ],
+    })
+  );
+});
+
+describe("question bank", () => {
+  it("adds new questions and edits existing ones in place", async () => {
+    const id = await saveBankQuestion(question);
+    const [saved] = bank();
+    expect(saved).toMatchObject({ ...question, id });
+
+    await saveBankQuestion({ ...saved, prompt: "2 + 3?", options: ["5", "6"], correct_options: [0] });
+    expect(bank()).toEqual([{ ...saved, prompt: "2 + 3?", options: ["5", "6"], correct_options: [0] }]);
+  });
+
+  it("lists questions oldest first and deletes them", async () => {
+    await saveBankQuestion({ ...question, id: "newer", created_at: "2026-02-01T00:00:00.000Z" });
+    await saveBankQuestion({ ...question, id: "older", created_at: "2026-01-01T00:00:00.000Z" });
+    expect(bank().map((saved) => saved.id)).toEqual(["older", "newer"]);
+
+    await deleteBankQuestion("course-1", "older");
+    expect(bank().map((saved) => saved.id)).toEqual(["newer"]);
+  });
+});
+
+describe("publishCourseQuiz", () => {
+  const draft = {
+    course_id: "course-1",
+    title: "Week 1 quiz",
+    question_ids: ["q1"],
+    total_points: 5,
+    closes_at: "2026-03-01T12:00:00.000Z",
+    created_by: "teacher-1",
+  };
+
+  it("creates the quiz's gradebook assignment alongside it", async () => {
+    const published = await publishCourseQuiz(draft, "teacher-1");
+
+    const assignment = await getRepositories().assignments.get(published.assignment_id);
+    expect(assignment).toMatchObject({
+      course_id: "course-1",
+      teacher_id: "teacher-1",
+      title: "Week 1 quiz",
+      due_date: draft.closes_at,
+      points: 5,
+      assignmentType: "quiz",
+      quiz_id: published.id,
+    });
+    expect(latest<CourseQuiz[]>((callback) => subscribeToCourseQuizzes("course-1", callback))).toEqual([published]);
+  });
+
+  it("moves the assignment's due date with the quiz's closing time", async () => {
+    const published = await publishCourseQuiz(draft, "teacher-1");
+    await updateCourseQuizSchedule(published, { opens_at: "2026-02-20T09:00:00.000Z", closes_at: undefined });
+
+    const [quiz] = latest<CourseQuiz[]>((callback) => subscribeToCourseQuizzes("course-1", callback));
+    expect(quiz.opens_at).toBe("2026-02-20T09:00:00.000Z");
+    expect(quiz).not.toHaveProperty("closes_at");
+    expect(await getRepositories().assignments.get(published.assignment_id)).not.toHaveProperty("due_date");
+  });
+});
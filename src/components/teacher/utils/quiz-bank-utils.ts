@@ -0,0 +1,117 @@
+import { invokeAIFunction } from "@/lib/ai-client";
+import { notifyNewAssignment } from "@/lib/notifications";
+import { getRepositories } from "@/lib/repositories";
+import { BankQuestion, CourseQuiz, CourseQuizAttempt } from "@/lib/types";
+import { QuizParseResult } from "../../../../supabase/functions/_shared/quiz-schema";
+
+export const QUESTION_TYPE_LABELS: Record<BankQuestion["type"], string> = {
+  multiple_choice: "Multiple choice",
+  multi_select: "Multi-select",
+  true_false: "True / False",
+  short_answer: "Short answer",
+  numeric: "Numeric",
+};
+
+export function subscribeToQuestionBank(courseId: string, onChange: (questions: BankQuestion[]) => void) {
+  return getRepositories().questionBanks.subscribeByCourse(courseId, (questions) => {
+    onChange([...questions].sort((a, b) => a.created_at.localeCompare(b.created_at)));
+  });
+}
+
+export async function saveBankQuestion(question: Omit<BankQuestion, "id" | "created_at"> & { id?: string; created_at?: string }) {
+  const { questionBanks } = getRepositories();
+  if (question.id) {
+    await questionBanks.save({ ...question, id: question.id, created_at: question.created_at || new Date().toISOString() });
+    return question.id;
+  }
+
+  const { id: _unsaved, ...newQuestion } = question;
+  const created = await questionBanks.create({ ...newQuestion, created_at: new Date().toISOString() });
+  return created.id;
+}
+
+export async function deleteBankQuestion(courseId: string, questionId: string) {
+  await getRepositories().questionBanks.remove(courseId, questionId);
+}
+
+// Seeds the bank with multiple choice questions from the generate-quiz edge function
+export async function seedQuestionsFromAI(
+  courseId: string,
+  options: { topic: string; difficulty: string; numQuestions: number }
+): Promise<{ added: number; dropped: number }> {
+  const data = await invokeAIFunction<QuizParseResult>("generate-quiz", options);
+
+  if (!data?.questions) {
+    throw new Error("Invalid response from quiz generator");
+  }
+
+  const questions = data.questions;
+  for (const question of questions) {
+    await saveBankQuestion({
+      course_id: courseId,
+      type: "multiple_choice",
+      prompt: question.question,
+      options: question.options,
+      correct_options: [question.correctAnswer],
+      explanation: question.explanation,
+      points: 1,
+      source: "ai",
+    });
+  }
+
+  return { added: questions.length, dropped: data.dropped?.length || 0 };
+}
+
+// Publishing creates an assignment alongside the quiz so results land in the
+// same submissions list (and gradebook) as every other graded item.
+export async function publishCourseQuiz(
+  quiz: Omit<CourseQuiz, "id" | "assignment_id" | "created_at">,
+  teacherId: string
+): Promise<CourseQuiz> {
+  const { assignments, courseQuizzes } = getRepositories();
+  const quizId = courseQuizzes.newId();
+  const now = new Date().toISOString();
+
+  const assignment = await assignments.create({
+    course_id: quiz.course_id,
+    teacher_id: teacherId,
+    title: quiz.title,
+    description: quiz.description || "",
+    due_date: quiz.closes_at,
+    points: quiz.total_points,
+    created_at: now,
+    assignmentType: "quiz",
+    quiz_id: quizId,
+  });
+
+  const published: CourseQuiz = {
+    ...quiz,
+    id: quizId,
+    assignment_id: assignment.id,
+    created_at: now,
+  };
+  await courseQuizzes.save(published);
+  notifyNewAssignment({ course_id: quiz.course_id, title: quiz.title, due_date: quiz.closes_at, assignmentType: "quiz" }).catch(
+    (error) => console.error("Error sending quiz notifications:", error)
+  );
+  return published;
+}
+
+export async function updateCourseQuizSchedule(quiz: CourseQuiz, changes: Pick<CourseQuiz, "opens_at" | "closes_at">) {
+  const { assignments, courseQuizzes } = getRepositories();
+  await courseQuizzes.update(quiz.id, {
+    opens_at: changes.opens_at || undefined,
+    closes_at: changes.closes_at || undefined,
+  });
+  await assignments.update(quiz.assignment_id, { due_date: changes.closes_at || undefined });
+}
+
+export function subscribeToCourseQuizzes(courseId: string, onChange: (quizzes: CourseQuiz[]) => void) {
+  return getRepositories().courseQuizzes.subscribeByCourse(courseId, (quizzes) => {
+    onChange([...quizzes].sort((a, b) => b.created_at.localeCompare(a.created_at)));
+  });
+}
+
+export function subscribeToCourseQuizAttempts(courseId: string, onChange: (attempts: CourseQuizAttempt[]) => void) {
+  return getRepositories().courseQuizzes.subscribeAttemptsByCourse(courseId, onChange);
+}
@@ -0,0 +1,65 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createMemoryRepositories, setRepositories } from "@/lib/repositories";
+import { Rubric } from "@/lib/types";
+import { fetchRubrics, saveRubric, subscribeToRubrics } from "./rubric-utils";
+
+// Runs rubric storage against the in-memory backend
+
+const criterion = {
+  id: "c1",
+  title: " Clarity ",
+  levels: [
+    { id: "low", label: "Beginning", points: 1 },
+    { id: "high", label: "Excellent", points: 4 },
+  ],
+};
+
+const teacherRubrics = (teacherId: string) => {
+  let rubrics: Rubric[] = [];
+  subscribeToRubrics(teacherId, (value) => {
+    rubrics = value;
+  })();
+  return rubrics;
+};
+
+beforeEach(() => {
+  setRepositories(createMemoryRepositories());
+});
+
+describe("saveRubric", () => {
+  it("stores trimmed criteria with levels highest first", async () => {
+    const id = await saveRubric({ title: " Essay ", criteria: [criterion] }, "teacher-1");
+
+    const { [id]: rubric } = await fetchRubrics([id]);
+    expect(rubric).toMatchObject({ id, teacher_id: "teacher-1", title: "Essay" });
+    expect(rubric.criteria[0].title).toBe("Clarity");
+    expect(rubric.criteria[0].levels.map((level) => level.id)).toEqual(["high", "low"]);
+  });
+
+  it("keeps the id and creation time when a rubric is edited", async () => {
+    const id = await saveRubric({ title: "Essay", criteria: [criterion] }, "teacher-1");
+    const [created] = teacherRubrics("teacher-1");
+
+    expect(await saveRubric({ ...created, title: "Essay v2" }, "teacher-1")).toBe(id);
+    expect(teacherRubrics("teacher-1")).toEqual([
+      expect.objectContaining({ id, title: "Essay v2", created_at: created.created_at }),
+    ]);
+  });
+});
+
+describe("subscribeToRubrics", () => {
+  it("lists one teacher's rubrics by title", async () => {
+    await saveRubric({ title: "Project", criteria: [criterion] }, "teacher-1");
+    await saveRubric({ title: "Lab", criteria: [criterion] }, "teacher-1");
+    await saveRubric({ title: "Other", criteria: [criterion] }, "teacher-2");
+
+    expect(teacherRubrics("teacher-1").map((rubric) => rubric.title)).toEqual(["Lab", "Project"]);
+  });
+});
+
+describe("fetchRubrics", () => {
+  it("skips ids with no rubric", async () => {
+    const id = await saveRubric({ title: "Essay", criteria: [criterion] }, "teacher-2");
+    expect(Object.keys(await fetchRubrics([id, "missing", id]))).toEqual([id]);
+  });
+});
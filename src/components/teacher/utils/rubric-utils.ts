@@ -0,0 +1,79 @@
+import { v4 as uuidv4 } from "uuid";
+import { InlineComment, Rubric, RubricCriterion, RubricGrade } from "@/lib/types";
+import { getRepositories } from "@/lib/repositories";
+
+export type RubricDraft = Omit<Rubric, "id" | "teacher_id" | "created_at"> & { id?: string; created_at?: string };
+
+export const newCriterion = (): RubricCriterion => ({
+  id: uuidv4(),
+  title: "",
+  levels: [
+    { id: uuidv4(), label: "Excellent", points: 4 },
+    { id: uuidv4(), label: "Proficient", points: 3 },
+    { id: uuidv4(), label: "Developing", points: 2 },
+    { id: uuidv4(), label: "Beginning", points: 1 },
+  ],
+});
+
+export const EMPTY_RUBRIC: RubricDraft = { title: "", criteria: [] };
+
+export function validateRubric(rubric: RubricDraft): string | null {
+  if (!rubric.title.trim()) return "Give the rubric a title";
+  if (rubric.criteria.length === 0) return "Add at least one criterion";
+  for (const criterion of rubric.criteria) {
+    if (!criterion.title.trim()) return "Every criterion needs a title";
+    if (criterion.levels.length === 0) return `"${criterion.title}" needs at least one level`;
+    if (criterion.levels.some((level) => !level.label.trim())) return `Every level of "${criterion.title}" needs a label`;
+    if (criterion.levels.some((level) => level.points < 0)) return "Level points cannot be negative";
+  }
+  return null;
+}
+
+export function subscribeToRubrics(teacherId: string, onChange: (rubrics: Rubric[]) => void) {
+  return getRepositories().rubrics.subscribeByTeacher(teacherId, (rubrics) => {
+    onChange([...rubrics].sort((a, b) => a.title.localeCompare(b.title)));
+  });
+}
+
+// Assignments may use rubrics owned by a co-teacher, so these are read by id
+export async function fetchRubrics(ids: string[]): Promise<Record<string, Rubric>> {
+  const entries = await Promise.all(
+    [...new Set(ids)].map(async (id) => {
+      const rubric = await getRepositories().rubrics.get(id);
+      return rubric ? ([id, rubric] as const) : null;
+    })
+  );
+  return Object.fromEntries(entries.filter((entry): entry is readonly [string, Rubric] => entry !== null));
+}
+
+// Levels are kept highest first so the grading table reads left to right
+const sortLevels = (criteria: RubricCriterion[]) =>
+  criteria.map((criterion) => ({
+    ...criterion,
+    title: criterion.title.trim(),
+    levels: [...criterion.levels].sort((a, b) => b.points - a.points),
+  }));
+
+export async function saveRubric(rubric: RubricDraft, teacherId: string): Promise<string> {
+  const { rubrics } = getRepositories();
+  const now = new Date().toISOString();
+  const saved = {
+    teacher_id: teacherId,
+    title: rubric.title.trim(),
+    criteria: sortLevels(rubric.criteria),
+    created_at: rubric.created_at || now,
+    updated_at: now,
+  };
+  if (rubric.id) {
+    await rubrics.save({ ...saved, id: rubric.id });
+    return rubric.id;
+  }
+  return (await rubrics.create(saved)).id;
+}
+
+export interface SubmissionGrade {
+  grade: number;
+  feedback: string;
+  rubric_grade?: RubricGrade;
+  comments: InlineComment[];
+}
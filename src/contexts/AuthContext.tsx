@@ -11,8 +11,8 @@ import {
   sendEmailVerification,
   User as FirebaseUser
 } from "firebase/auth";
-import { auth, database } from "@/firebase";
-import { ref, set, get, onValue } from "firebase/database";
+import { auth } from "@/firebase";
+import { getRepositories } from "@/lib/repositories";
 
 interface AuthContextType {
   user: User | null;
@@ -32,11 +32,11 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const setupUserInDatabase = async (firebaseUser: FirebaseUser, userData: { name: string, role: UserRole }) => {
     try {
       // Save additional user data to Firebase Realtime Database
-      await set(ref(database, `users/${firebaseUser.uid}`), {
+      await getRepositories().users.create({
+        id: firebaseUser.uid,
         name: userData.name,
-        email: firebaseUser.email,
-        role: userData.role,
-        createdAt: new Date().toISOString()
+        email: firebaseUser.email || undefined,
+        role: userData.role
       });
       
       console.log("User data saved to database");
@@ -56,11 +56,9 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       if (firebaseUser) {
         try {
           // Get user profile data from Firebase Realtime Database
-          const userRef = ref(database, `users/${firebaseUser.uid}`);
-          const snapshot = await get(userRef);
+          const userData = await getRepositories().users.get(firebaseUser.uid);
           
-          if (snapshot.exists()) {
-            const userData = snapshot.val();
+          if (userData) {
             setUser({
               id: firebaseUser.uid,
               name: userData.name || firebaseUser.displayName || '',
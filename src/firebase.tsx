@@ -28,16 +28,20 @@ export const auth = getAuth(app);
 export const database = getDatabase(app);
 export const storage = getStorage(app);
 
+// Outside a browser, as in unit tests, there is no emulator switch to read and
+// nothing here should reach the production database
+const inBrowser = typeof window !== "undefined";
+
 // Connect to emulators if enabled
-const useEmulators = localStorage.getItem("useFirebaseEmulators") === "true";
+const useEmulators = inBrowser && localStorage.getItem("useFirebaseEmulators") === "true";
 
 if (useEmulators) {
   connectAuthEmulator(auth, "http://localhost:9099");
   connectDatabaseEmulator(database, "localhost", 9000);
   connectStorageEmulator(storage, "localhost", 9199);
-  connectFirestoreEmulator(db, "localhost", 8080); // Firestore emulator
+  connectFirestoreEmulator(db, "localhost", 8085); // Off 8080, which the Vite dev server uses
   console.log("Using Firebase local emulators");
-} else {
+} else if (inBrowser) {
   console.log("Using Firebase production services");
 }
 
@@ -58,4 +62,6 @@ async function deleteEmptyCourses() {
 }
 
 // Call this function periodically or on a specific trigger
-deleteEmptyCourses();
+if (inBrowser) {
+  deleteEmptyCourses();
+}
@@ -0,0 +1,22 @@
+import { useCallback } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+
+// Keeps a dashboard's active tab in the `:tab` route segment so tabs can be
+// bookmarked and shared, e.g. /student/quizzes. `isValid` is false when the
+// URL names a tab the dashboard does not have.
+export function useRouteTab<T extends string>(basePath: string, tabs: readonly T[], defaultTab: T) {
+  const { tab } = useParams<{ tab?: string }>();
+  const navigate = useNavigate();
+
+  const isValid = tab === undefined || (tabs as readonly string[]).includes(tab);
+  const activeTab = isValid && tab ? (tab as T) : defaultTab;
+
+  const setTab = useCallback(
+    (next: string) => {
+      navigate(`${basePath}/${next}`);
+    },
+    [basePath, navigate]
+  );
+
+  return { activeTab, setTab, isValid };
+}
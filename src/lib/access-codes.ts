@@ -0,0 +1,194 @@
+import { RecordChanges, getRepositories } from "./repositories";
+import { notifyJoinApproved } from "./notifications";
+import { postAsUser } from "./server-api";
+import { AccessCode, JoinRequest, User } from "./types";
+
+// Course access codes and the join flow built on them. Only the course teacher
+// can read a course's codes; students redeem them through the server (see
+// server/join.cjs), which limits their attempts and enforces expiry, usage
+// caps, revocation and approval mode.
+const JOIN_API_URL = import.meta.env.VITE_JOIN_API_URL || "http://localhost:3000/join";
+
+const CODE_CHARS = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789"; // Removed similar looking characters
+export const ACCESS_CODE_LENGTH = 6;
+
+export interface AccessCodeOptions {
+  section?: string;
+  expires_at?: number;
+  max_uses?: number;
+  requires_approval?: boolean;
+}
+
+export type AccessCodeStatus = "active" | "expired" | "used_up" | "revoked";
+
+export function accessCodeStatus(code: AccessCode, now = Date.now()): AccessCodeStatus {
+  if (!code.is_active) return "revoked";
+  if (code.expires_at !== undefined && code.expires_at <= now) return "expired";
+  if (code.max_uses !== undefined && (code.use_count || 0) >= code.max_uses) return "used_up";
+  return "active";
+}
+
+const generateCode = () => {
+  let code = "";
+  for (let i = 0; i < ACCESS_CODE_LENGTH; i++) {
+    code += CODE_CHARS.charAt(Math.floor(Math.random() * CODE_CHARS.length));
+  }
+  return code;
+};
+
+export function subscribeToAccessCodes(
+  child: "teacher_id" | "course_id",
+  value: string,
+  callback: (codes: AccessCode[]) => void
+) {
+  const { accessCodes } = getRepositories();
+  const subscribe = child === "teacher_id" ? accessCodes.subscribeByTeacher : accessCodes.subscribeByCourse;
+  return subscribe(value, (codes) =>
+    callback(codes.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()))
+  );
+}
+
+export async function createAccessCode(teacherId: string, courseId: string, options: AccessCodeOptions = {}): Promise<AccessCode> {
+  const { accessCodes } = getRepositories();
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const code = generateCode();
+    if (!(await accessCodes.claim(code, teacherId))) continue;
+
+    return accessCodes.create({
+      code,
+      teacher_id: teacherId,
+      course_id: courseId,
+      created_at: new Date().toISOString(),
+      is_active: true,
+      use_count: 0,
+      section: options.section?.trim() || undefined,
+      expires_at: options.expires_at,
+      max_uses: options.max_uses,
+      requires_approval: options.requires_approval || undefined,
+    });
+  }
+  throw new Error("Failed to generate a unique code. Please try again.");
+}
+
+// The code shown on the course page. Courses used to carry it as
+// `access_code`, where any signed-in user could read it; such a code is still
+// shown until the teacher replaces it.
+export function sharedAccessCode(codes: AccessCode[], course: { id: string; access_code?: string }) {
+  const courseCodes = codes.filter((code) => code.course_id === course.id && code.is_active);
+  return courseCodes.find((code) => code.is_shared) || courseCodes.find((code) => code.code === course.access_code);
+}
+
+// Deactivates the code. The course's shareable code moves to the replacement,
+// or is cleared when this was the one being shared.
+export async function revokeAccessCode(code: AccessCode, replacement?: AccessCode) {
+  const { accessCodes, courses } = getRepositories();
+  const changes: { id: string; changes: RecordChanges<AccessCode> }[] = [
+    {
+      id: code.id,
+      changes: {
+        is_active: false,
+        is_shared: undefined,
+        revoked_at: new Date().toISOString(),
+        ...(replacement ? { replaced_by: replacement.id } : {}),
+      },
+    },
+  ];
+
+  const course = await courses.get(code.course_id);
+  if (!code.is_shared && course?.access_code !== code.code) {
+    await accessCodes.updateMany(changes);
+    return;
+  }
+  if (replacement) {
+    changes.push({ id: replacement.id, changes: { is_shared: true } });
+  }
+  await accessCodes.updateMany(changes, {
+    id: code.course_id,
+    changes: { access_code: undefined, updated_at: new Date().toISOString() },
+  });
+}
+
+// Replaces the code with a fresh one carrying the same settings. An expiry
+// that has already passed is not carried over.
+export async function rotateAccessCode(code: AccessCode): Promise<AccessCode> {
+  const replacement = await createAccessCode(code.teacher_id, code.course_id, {
+    section: code.section,
+    expires_at: code.expires_at !== undefined && code.expires_at > Date.now() ? code.expires_at : undefined,
+    max_uses: code.max_uses,
+    requires_approval: code.requires_approval,
+  });
+  await revokeAccessCode(code, replacement);
+  return replacement;
+}
+
+export async function setSharedAccessCode(courseId: string, code: AccessCode) {
+  const { accessCodes } = getRepositories();
+  const previouslyShared = (await accessCodes.listByCourse(courseId)).filter(
+    (other) => other.id !== code.id && other.is_shared
+  );
+  await accessCodes.updateMany(
+    [
+      { id: code.id, changes: { is_shared: true } },
+      ...previouslyShared.map((other) => ({ id: other.id, changes: { is_shared: undefined } })),
+    ],
+    { id: courseId, changes: { access_code: undefined, updated_at: new Date().toISOString() } }
+  );
+}
+
+export interface JoinResult {
+  status: "enrolled" | "pending" | "already_enrolled" | "already_requested";
+  course_title: string;
+}
+
+// Enrolls the student with the code, or files a join request when the code
+// needs the teacher's approval
+export const redeemAccessCode = (input: string) => postAsUser<JoinResult>(`${JOIN_API_URL}/course`, { code: input });
+
+export interface TeacherConnectionResult {
+  status: "connected" | "already_connected";
+  teacher_name: string;
+}
+
+export const connectTeacher = (input: string) =>
+  postAsUser<TeacherConnectionResult>(`${JOIN_API_URL}/teacher`, { code: input });
+
+export function subscribeToJoinRequests(courseId: string, callback: (requests: JoinRequest[]) => void) {
+  return getRepositories().joinRequests.subscribeByCourse(courseId, (requests) =>
+    callback(requests.sort((a, b) => new Date(a.requested_at).getTime() - new Date(b.requested_at).getTime()))
+  );
+}
+
+// Approving counts as a use of the code even past its cap, since the teacher
+// let the student in explicitly
+export async function approveJoinRequest(request: JoinRequest, teacher: User) {
+  const { enrollments, accessCodes, joinRequests } = getRepositories();
+  if (!(await enrollments.find(request.student_id, request.course_id))) {
+    await enrollments.create({
+      course_id: request.course_id,
+      student_id: request.student_id,
+      student_name: request.student_name,
+      enrolled_at: new Date().toISOString(),
+      completed: false,
+      progress: 0,
+      section: request.section,
+      access_code_id: request.access_code_id,
+    });
+    await accessCodes.incrementUseCount(request.access_code_id);
+  }
+  await joinRequests.update(request.id, {
+    status: "approved",
+    decided_at: new Date().toISOString(),
+    decided_by: teacher.id,
+  });
+  notifyJoinApproved(request.student_id, request.course_id).catch((error) =>
+    console.error("Error sending join notification:", error)
+  );
+}
+
+export async function rejectJoinRequest(request: JoinRequest, teacher: User) {
+  await getRepositories().joinRequests.update(request.id, {
+    status: "rejected",
+    decided_at: new Date().toISOString(),
+    decided_by: teacher.id,
+  });
+}
@@ -0,0 +1,62 @@
+import { ref, set, onValue } from "firebase/database";
+import { auth, database } from "@/firebase";
+import { supabase } from "@/integrations/supabase/client";
+import { AISettings } from "./types";
+
+const SETTINGS_PATH = "system_settings/ai";
+
+export const AI_PROVIDER_OPTIONS: { value: AISettings["provider"]; label: string; description: string }[] = [
+  { value: "gemini", label: "Google Gemini", description: "Uses the GEMINI_API_KEY secret" },
+  { value: "deepseek", label: "DeepSeek", description: "Uses the DEEPSEEK_API_KEY secret" },
+  { value: "openai", label: "OpenAI-compatible", description: "Uses OPENAI_API_KEY and the optional OPENAI_BASE_URL secret" },
+  { value: "mock", label: "Mock (offline)", description: "Deterministic sample output, no network access" },
+];
+
+export function subscribeToAISettings(callback: (settings: AISettings | null) => void) {
+  return onValue(ref(database, SETTINGS_PATH), (snapshot) => {
+    callback(snapshot.exists() ? (snapshot.val() as AISettings) : null);
+  });
+}
+
+export async function saveAISettings(settings: Pick<AISettings, "provider" | "model">, userId: string) {
+  const value: AISettings = {
+    provider: settings.provider,
+    updated_by: userId,
+    updated_at: new Date().toISOString(),
+  };
+  if (settings.model?.trim()) {
+    value.model = settings.model.trim();
+  }
+  await set(ref(database, SETTINGS_PATH), value);
+}
+
+// The edge functions return { error } with a non-2xx status; surface that
+// message instead of supabase-js's generic one.
+const readFunctionError = async (error: { message: string; context?: unknown }) => {
+  const context = error.context;
+  if (context instanceof Response) {
+    const body = await context.json().catch(() => null);
+    if (body?.error) return body.error as string;
+  }
+  return error.message;
+};
+
+// Every AI call in the app goes through an edge function. The function reads
+// the admin's provider choice as the signed-in user, with the Firebase ID token
+// sent here, and pairs it with keys it holds as secrets.
+export async function invokeAIFunction<T>(name: string, body: Record<string, unknown>): Promise<T> {
+  const idToken = await auth.currentUser?.getIdToken();
+
+  const { data, error } = await supabase.functions.invoke(name, {
+    body,
+    headers: idToken ? { "x-firebase-token": idToken } : undefined,
+  });
+
+  if (error) {
+    throw new Error(await readFunctionError(error));
+  }
+  if (data?.error) {
+    throw new Error(data.error);
+  }
+  return data as T;
+}
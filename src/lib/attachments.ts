@@ -0,0 +1,157 @@
+import { ref, uploadBytesResumable, getDownloadURL, deleteObject, getBytes, getMetadata } from "firebase/storage";
+import { v4 as uuidv4 } from "uuid";
+import { auth, storage } from "@/firebase";
+import { AttachmentPolicy, FileAttachment, FileScanStatus, FileTypeGroup } from "@/lib/types";
+
+// Mirrored by server/attachments.cjs, which turns an assignment's policy into
+// the limits storage.rules checks submitted files against
+export const FILE_TYPE_GROUPS: Record<FileTypeGroup, { label: string; extensions: string[] }> = {
+  documents: { label: "Documents", extensions: ["pdf", "doc", "docx", "odt", "rtf", "txt", "md"] },
+  images: { label: "Images", extensions: ["png", "jpg", "jpeg", "gif", "webp"] },
+  code: {
+    label: "Source code",
+    extensions: ["js", "jsx", "ts", "tsx", "py", "java", "c", "h", "cpp", "hpp", "cs", "go", "rb", "php", "html", "css", "json", "sql"],
+  },
+  archives: { label: "Zip archives", extensions: ["zip"] },
+};
+
+// Matches the cap in storage.rules, which is what actually enforces it
+export const MAX_FILE_SIZE_MB = 25;
+
+// Files are stored with the type of their extension rather than whatever the
+// browser reports, and storage.rules only accepts these types. Source code and
+// web pages are stored as plain text so they are never served as pages.
+const CONTENT_TYPES: Record<string, string> = {
+  pdf: "application/pdf",
+  doc: "application/msword",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  odt: "application/vnd.oasis.opendocument.text",
+  rtf: "application/rtf",
+  md: "text/markdown",
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  zip: "application/zip",
+};
+
+export const DEFAULT_ATTACHMENT_POLICY: AttachmentPolicy = {
+  allowed_types: ["documents", "images"],
+  max_size_mb: 10,
+  max_files: 5,
+};
+
+// Teachers can hand out any supported file with an assignment
+export const MATERIALS_POLICY: AttachmentPolicy = {
+  allowed_types: ["documents", "images", "code", "archives"],
+  max_size_mb: MAX_FILE_SIZE_MB,
+  max_files: 10,
+};
+
+export const fileExtension = (name: string) => (name.includes(".") ? name.split(".").pop()!.toLowerCase() : "");
+
+export const contentTypeFor = (name: string) => CONTENT_TYPES[fileExtension(name)] || "text/plain";
+
+export const allowedExtensions = (policy: AttachmentPolicy) =>
+  policy.allowed_types.flatMap((group) => FILE_TYPE_GROUPS[group].extensions);
+
+// For the file input's accept attribute
+export const acceptAttribute = (policy: AttachmentPolicy) =>
+  allowedExtensions(policy)
+    .map((extension) => `.${extension}`)
+    .join(",");
+
+export const formatFileSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+// Why the file cannot be attached, or null when it can. storage.rules checks
+// the type and size again for submissions; the file count is only checked here.
+export function fileError(file: File, policy: AttachmentPolicy, attachedCount: number): string | null {
+  if (attachedCount >= policy.max_files) {
+    return `At most ${policy.max_files} file${policy.max_files === 1 ? "" : "s"} can be attached`;
+  }
+  if (!allowedExtensions(policy).includes(fileExtension(file.name))) {
+    return `${file.name}: .${fileExtension(file.name) || "?"} files are not accepted here`;
+  }
+  if (file.size > Math.min(policy.max_size_mb, MAX_FILE_SIZE_MB) * 1024 * 1024) {
+    return `${file.name} is larger than ${policy.max_size_mb} MB`;
+  }
+  return null;
+}
+
+// storage.rules checks the uploader, and the course of the assignment, against these paths
+export const submissionFilePath = (assignmentId: string, userId: string, fileName: string) =>
+  `submissions/${assignmentId}/${userId}/${uuidv4()}-${fileName}`;
+
+export const materialFilePath = (courseId: string, assignmentId: string, fileName: string) =>
+  `materials/${courseId}/${assignmentId}/${uuidv4()}-${fileName}`;
+
+export async function uploadAttachment(
+  file: File,
+  path: string,
+  onProgress?: (percent: number) => void
+): Promise<FileAttachment> {
+  const fileRef = ref(storage, path);
+  const contentType = contentTypeFor(file.name);
+  const task = uploadBytesResumable(fileRef, file, {
+    contentType,
+    // storage.rules only lets the uploader delete the file
+    customMetadata: { uploaded_by: auth.currentUser?.uid || "" },
+  });
+  await new Promise<void>((resolve, reject) => {
+    task.on(
+      "state_changed",
+      (snapshot) => onProgress?.(Math.round((snapshot.bytesTransferred / snapshot.totalBytes) * 100)),
+      reject,
+      () => resolve()
+    );
+  });
+
+  return {
+    name: file.name,
+    path,
+    url: await getDownloadURL(fileRef),
+    content_type: contentType,
+    size: file.size,
+    uploaded_at: new Date().toISOString(),
+  };
+}
+
+// Files are virus-scanned by the server after they are attached (see
+// server/attachment-scans.cjs), which records the result on the file and
+// deletes it if it is infected
+export async function fetchScanStatus(attachment: FileAttachment): Promise<FileScanStatus> {
+  try {
+    const { customMetadata } = await getMetadata(ref(storage, attachment.path));
+    const status = customMetadata?.scan_status;
+    return status === "clean" || status === "unscanned" ? status : "pending";
+  } catch (error) {
+    if ((error as { code?: string }).code === "storage/object-not-found") {
+      return "removed";
+    }
+    throw error;
+  }
+}
+
+export async function removeAttachment(attachment: FileAttachment) {
+  await deleteObject(ref(storage, attachment.path));
+}
+
+export type PreviewKind = "pdf" | "image" | "code" | null;
+
+export function previewKind(attachment: FileAttachment): PreviewKind {
+  const extension = fileExtension(attachment.name);
+  if (extension === "pdf") return "pdf";
+  if (FILE_TYPE_GROUPS.images.extensions.includes(extension)) return "image";
+  if (FILE_TYPE_GROUPS.code.extensions.includes(extension) || extension === "txt" || extension === "md") return "code";
+  return null;
+}
+
+const MAX_PREVIEW_BYTES = 512 * 1024;
+
+// Source files are shown as text; larger ones are cut off rather than loaded whole
+export async function fetchAttachmentText(attachment: FileAttachment): Promise<{ text: string; truncated: boolean }> {
+  const bytes = await getBytes(ref(storage, attachment.path), MAX_PREVIEW_BYTES);
+  return { text: new TextDecoder().decode(bytes), truncated: attachment.size > MAX_PREVIEW_BYTES };
+}
@@ -0,0 +1,129 @@
+import { format } from "date-fns";
+import { getRepositories } from "./repositories";
+import { postAsUser } from "./server-api";
+import { AttendanceSession } from "./types";
+
+// Self check-in for attendance. While a session is open the teacher's screen
+// shows a code (and a QR link carrying it) that rotates every few seconds;
+// students who enter it get the same attendance records the teacher would
+// record by hand. The codes are kept under attendance_session_tokens, which
+// only the teacher can read, and students check in through the server (see
+// server/attendance.cjs), which checks the code, the session window and
+// enrollment and decides present or late by its own clock.
+const ATTENDANCE_API_URL = import.meta.env.VITE_ATTENDANCE_API_URL || "http://localhost:3000/attendance";
+
+export const TOKEN_ROTATE_SECONDS = 15;
+const TOKEN_LENGTH = 6;
+
+export interface CheckInSettings {
+  duration_minutes: number;
+  late_after_minutes: number;
+}
+
+export const DEFAULT_CHECK_IN_SETTINGS: CheckInSettings = {
+  duration_minutes: 15,
+  late_after_minutes: 5,
+};
+
+const generateToken = () => {
+  let token = "";
+  for (let i = 0; i < TOKEN_LENGTH; i++) {
+    token += Math.floor(Math.random() * 10);
+  }
+  return token;
+};
+
+export const isAcceptingCheckIns = (session: AttendanceSession, now = Date.now()) =>
+  session.status === "open" && now < session.closes_at;
+
+// The course's open session, if any, with its current code
+export function subscribeToOpenSession(courseId: string, callback: (session: AttendanceSession | null) => void) {
+  const { attendanceSessions } = getRepositories();
+  let unsubscribeTokens = () => {};
+  const unsubscribeSessions = attendanceSessions.subscribeByCourse(courseId, (sessions) => {
+    unsubscribeTokens();
+    const open = sessions
+      .filter((session) => session.status === "open")
+      .sort((a, b) => b.opened_at - a.opened_at);
+    const session = open[0];
+    if (!session) {
+      unsubscribeTokens = () => {};
+      callback(null);
+      return;
+    }
+    unsubscribeTokens = attendanceSessions.subscribeCodes(session.id, (codes) => {
+      // The codes are removed when the session closes
+      callback(codes ? { ...session, ...codes } : null);
+    });
+  });
+  return () => {
+    unsubscribeTokens();
+    unsubscribeSessions();
+  };
+}
+
+export function openCheckInSession(courseId: string, teacherId: string, settings: CheckInSettings) {
+  const openedAt = Date.now();
+  return getRepositories().attendanceSessions.open(
+    {
+      course_id: courseId,
+      teacher_id: teacherId,
+      date: format(openedAt, "yyyy-MM-dd"),
+      status: "open",
+      opened_at: openedAt,
+      late_after: openedAt + settings.late_after_minutes * 60 * 1000,
+      closes_at: openedAt + settings.duration_minutes * 60 * 1000,
+      token_rotated_at: openedAt,
+    },
+    generateToken()
+  );
+}
+
+export async function rotateSessionToken(session: AttendanceSession) {
+  await getRepositories().attendanceSessions.rotateCode(
+    session.id,
+    { token: generateToken(), previous_token: session.token },
+    Date.now()
+  );
+}
+
+// Closing can record everyone enrolled who has no attendance for the day as
+// absent, so the session leaves a complete register behind
+export async function closeCheckInSession(session: AttendanceSession, markRestAbsent: boolean) {
+  await getRepositories().attendanceSessions.close(session.id, Date.now());
+  if (!markRestAbsent) return;
+
+  const { enrollments, attendance } = getRepositories();
+  const [students, records] = await Promise.all([
+    enrollments.listByCourse(session.course_id),
+    attendance.listByCourse(session.course_id),
+  ]);
+  const recorded = new Set(records.filter((record) => record.date === session.date).map((record) => record.student_id));
+  await Promise.all(
+    students
+      .filter((enrollment) => !recorded.has(enrollment.student_id))
+      .map((enrollment) =>
+        attendance.create({
+          student_id: enrollment.student_id,
+          teacher_id: session.teacher_id,
+          courseId: session.course_id,
+          date: session.date,
+          status: "absent",
+          recorded_at: new Date().toISOString(),
+          session_id: session.id,
+        })
+      )
+  );
+}
+
+// What a scanned QR code opens: the student's attendance tab with the code filled in
+export const checkInUrl = (session: AttendanceSession) =>
+  `${window.location.origin}/student/attendance?session=${encodeURIComponent(session.id)}&code=${session.token}`;
+
+export interface CheckInResult {
+  status: "present" | "late";
+  course_title: string;
+}
+
+export const checkIn = (code: string, sessionId?: string) =>
+  postAsUser<CheckInResult>(`${ATTENDANCE_API_URL}/check-in`, { code, sessionId });
@@ -0,0 +1,122 @@
+import { format, parseISO, startOfWeek } from "date-fns";
+import { getRepositories } from "./repositories";
+import { AttendanceAlertLevel, AttendancePolicy, AttendanceRecord } from "./types";
+
+// Attendance standings, shared by the teacher's tracker and the student's
+// attendance page so both count absences the same way. The policy is read
+// here; only the teacher writes it (see teacher/utils/attendance-utils).
+
+export const DEFAULT_ATTENDANCE_POLICY: AttendancePolicy = {
+  at_risk_absences: 3,
+  lates_per_absence: 3,
+  notify_students: true,
+};
+
+export interface AttendanceStreak {
+  attended: boolean; // Present or late, rather than absent
+  length: number;
+}
+
+export interface AttendanceStanding {
+  present: number;
+  late: number;
+  absent: number;
+  excused: number;
+  recorded: number;
+  rate: number | null; // Percent of days attended, leaving out excused days; null before any count
+  effective_absences: number; // Absences plus the ones lates add up to
+  level: AttendanceAlertLevel | null;
+  current_streak: AttendanceStreak | null;
+  longest_attended_streak: number;
+}
+
+const byDate = (a: AttendanceRecord, b: AttendanceRecord) => a.date.localeCompare(b.date);
+
+export function alertLevel(effectiveAbsences: number, policy: AttendancePolicy): AttendanceAlertLevel | null {
+  if (effectiveAbsences > policy.at_risk_absences) return "at_risk";
+  // One more absence puts the student at risk
+  if (effectiveAbsences === policy.at_risk_absences && effectiveAbsences > 0) return "warning";
+  return null;
+}
+
+// Records for one student in one course
+export function attendanceStanding(records: AttendanceRecord[], policy: AttendancePolicy): AttendanceStanding {
+  const count = (status: AttendanceRecord["status"]) => records.filter((record) => record.status === status).length;
+  const present = count("present");
+  const late = count("late");
+  const absent = count("absent");
+  const excused = count("excused");
+  const counted = present + late + absent;
+  const effectiveAbsences = absent + (policy.lates_per_absence > 0 ? Math.floor(late / policy.lates_per_absence) : 0);
+
+  // Excused days neither break nor extend a streak
+  const days = records.filter((record) => record.status !== "excused").sort(byDate);
+  let longest = 0;
+  let run = 0;
+  days.forEach((record) => {
+    run = record.status === "absent" ? 0 : run + 1;
+    longest = Math.max(longest, run);
+  });
+
+  let currentStreak: AttendanceStreak | null = null;
+  if (days.length > 0) {
+    const attended = days[days.length - 1].status !== "absent";
+    let length = 0;
+    for (let i = days.length - 1; i >= 0 && (days[i].status !== "absent") === attended; i--) length++;
+    currentStreak = { attended, length };
+  }
+
+  return {
+    present,
+    late,
+    absent,
+    excused,
+    recorded: records.length,
+    rate: counted > 0 ? Math.round(((present + late) / counted) * 1000) / 10 : null,
+    effective_absences: effectiveAbsences,
+    level: alertLevel(effectiveAbsences, policy),
+    current_streak: currentStreak,
+    longest_attended_streak: longest,
+  };
+}
+
+export interface AttendanceTrendPoint {
+  week: string; // yyyy-MM-dd of the Monday
+  rate: number | null;
+  recorded: number;
+}
+
+// Attendance rate per week, for the course or for one student
+export function weeklyAttendanceTrend(records: AttendanceRecord[]): AttendanceTrendPoint[] {
+  const weeks = new Map<string, AttendanceRecord[]>();
+  records.forEach((record) => {
+    const week = format(startOfWeek(parseISO(record.date.slice(0, 10)), { weekStartsOn: 1 }), "yyyy-MM-dd");
+    weeks.set(week, [...(weeks.get(week) || []), record]);
+  });
+
+  return [...weeks.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([week, weekRecords]) => {
+      const counted = weekRecords.filter((record) => record.status !== "excused");
+      const attended = counted.filter((record) => record.status === "present" || record.status === "late").length;
+      return {
+        week,
+        rate: counted.length > 0 ? Math.round((attended / counted.length) * 1000) / 10 : null,
+        recorded: weekRecords.length,
+      };
+    });
+}
+
+// Courses without a stored policy use the defaults
+const withDefaults = (stored: Partial<AttendancePolicy> | null): AttendancePolicy => ({
+  ...DEFAULT_ATTENDANCE_POLICY,
+  ...stored,
+});
+
+export async function fetchAttendancePolicy(courseId: string): Promise<AttendancePolicy> {
+  return withDefaults(await getRepositories().attendancePolicies.get(courseId));
+}
+
+export function subscribeToAttendancePolicy(courseId: string, callback: (policy: AttendancePolicy) => void) {
+  return getRepositories().attendancePolicies.subscribe(courseId, (policy) => callback(withDefaults(policy)));
+}
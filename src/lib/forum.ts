@@ -0,0 +1,99 @@
+import { getRepositories } from "./repositories";
+import { ActiveMute, ForumComment, ForumReport, ForumTargetType, ForumThread, User, UserSanction } from "./types";
+
+// Course discussion threads and comments, shared by the student forum and the
+// moderator workspace. Moderation state (hidden, locked, muted) is enforced by
+// the database rules as well; the checks here only keep the UI honest. Hidden
+// posts are only readable by staff and their author, who still sees them so
+// they know what happened.
+
+const byNewest = <T extends { created_at: string }>(a: T, b: T) =>
+  new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
+
+export function subscribeToThreads(courseId: string, callback: (threads: ForumThread[]) => void) {
+  return getRepositories().forum.subscribeThreadsByCourse(courseId, (threads) => callback(threads.sort(byNewest)));
+}
+
+export function subscribeToComments(threadId: string, callback: (comments: ForumComment[]) => void) {
+  return getRepositories().forum.subscribeCommentsByThread(threadId, (comments) =>
+    callback(comments.sort((a, b) => -byNewest(a, b)))
+  );
+}
+
+export function subscribeToVisibleThreads(courseId: string, userId: string, callback: (threads: ForumThread[]) => void) {
+  return getRepositories().forum.subscribeVisibleThreads(courseId, userId, (threads) => callback(threads.sort(byNewest)));
+}
+
+export function subscribeToVisibleComments(threadId: string, userId: string, callback: (comments: ForumComment[]) => void) {
+  return getRepositories().forum.subscribeVisibleComments(threadId, userId, (comments) =>
+    callback(comments.sort((a, b) => -byNewest(a, b)))
+  );
+}
+
+export function createThread(courseId: string, user: User, title: string, content: string): Promise<ForumThread> {
+  return getRepositories().forum.createThread({
+    course_id: courseId,
+    author_id: user.id,
+    author_name: user.name,
+    title: title.trim(),
+    content: content.trim(),
+    status: "visible",
+    visible_in: courseId,
+    created_at: new Date().toISOString(),
+  });
+}
+
+export function addComment(thread: ForumThread, user: User, content: string): Promise<ForumComment> {
+  return getRepositories().forum.createComment({
+    thread_id: thread.id,
+    course_id: thread.course_id,
+    author_id: user.id,
+    author_name: user.name,
+    content: content.trim(),
+    status: "visible",
+    visible_in: thread.id,
+    created_at: new Date().toISOString(),
+  });
+}
+
+export interface ReportTarget {
+  type: ForumTargetType;
+  id: string;
+  thread_id: string;
+  course_id: string;
+  author_id: string;
+}
+
+// False when the reporter already reported it
+export function reportContent(target: ReportTarget, reporter: User, reason: string): Promise<boolean> {
+  const report: Omit<ForumReport, "id"> = {
+    course_id: target.course_id,
+    thread_id: target.thread_id,
+    target_type: target.type,
+    target_id: target.id,
+    target_author_id: target.author_id,
+    reporter_id: reporter.id,
+    reporter_name: reporter.name,
+    reason: reason.trim(),
+    status: "open",
+    created_at: new Date().toISOString(),
+  };
+  return getRepositories().forum.createReport(report);
+}
+
+export const isMuteActive = (mute: ActiveMute | null, now = Date.now()) => mute !== null && mute.until > now;
+
+export function subscribeToMute(courseId: string, userId: string, callback: (mute: ActiveMute | null) => void) {
+  return getRepositories().forum.subscribeMute(courseId, userId, callback);
+}
+
+export function subscribeToUnacknowledgedWarnings(userId: string, callback: (warnings: UserSanction[]) => void) {
+  return getRepositories().forum.subscribeSanctionsByUser(userId, (sanctions) => {
+    const warnings = sanctions.filter((sanction) => sanction.type === "warning" && !sanction.acknowledged);
+    callback(warnings.sort((a, b) => b.issued_at.localeCompare(a.issued_at)));
+  });
+}
+
+export async function acknowledgeWarning(sanctionId: string) {
+  await getRepositories().forum.updateSanction(sanctionId, { acknowledged: true });
+}
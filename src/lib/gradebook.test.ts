@@ -0,0 +1,186 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_GRADEBOOK_SETTINGS, FINAL_GRADE_KEY, computeStanding, lateDays } from "./gradebook";
+import { Assignment, GradeOverride, GradebookSettings, Submission } from "./types";
+
+// Grades one student with plain records and a fixed "now", against the default
+// categories (homework 30, quizzes 20, exams 50) unless a test says otherwise
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const due = Date.parse("2025-03-10T12:00:00Z");
+const now = new Date("2025-04-01T00:00:00Z");
+
+const assignment = (id: string, fields: Partial<Assignment> = {}): Assignment => ({
+  id,
+  course_id: "course-1",
+  title: id,
+  points: 10,
+  due_date: new Date(due).toISOString(),
+  created_at: "",
+  ...fields,
+});
+
+const submission = (assignmentId: string, fields: Partial<Submission> = {}): Submission => ({
+  id: `sub-${assignmentId}`,
+  assignment_id: assignmentId,
+  user_id: "student-1",
+  submitted_at: due - HOUR_MS,
+  ...fields,
+});
+
+const override = (score: number, assignmentId?: string): GradeOverride => ({
+  course_id: "course-1",
+  student_id: "student-1",
+  ...(assignmentId ? { assignment_id: assignmentId } : {}),
+  score,
+  reason: "Regraded",
+  set_by: "teacher-1",
+  set_at: "",
+});
+
+const withCategories = (categories: GradebookSettings["categories"]): GradebookSettings => ({
+  ...DEFAULT_GRADEBOOK_SETTINGS,
+  categories,
+});
+
+describe("lateDays", () => {
+  it("counts each started day after the due date", () => {
+    const hw = assignment("hw");
+    expect(lateDays(due, hw)).toBe(0);
+    expect(lateDays(due + 1, hw)).toBe(1);
+    expect(lateDays(due + DAY_MS, hw)).toBe(1);
+    expect(lateDays(due + DAY_MS + 1, hw)).toBe(2);
+  });
+
+  it("starts counting after the grace period", () => {
+    const hw = assignment("hw", { submission_policy: { grace_minutes: 30 } });
+    expect(lateDays(due + 29 * 60 * 1000, hw)).toBe(0);
+    expect(lateDays(due + 31 * 60 * 1000, hw)).toBe(1);
+  });
+
+  it("treats a plain-day due date as due by the end of that day", () => {
+    const hw = assignment("hw", { due_date: "2025-03-10" });
+    expect(lateDays(new Date("2025-03-10T23:00:00").getTime(), hw)).toBe(0);
+    expect(lateDays(new Date("2025-03-11T01:00:00").getTime(), hw)).toBe(1);
+  });
+
+  it("never counts work late without a due date", () => {
+    expect(lateDays(due + 10 * DAY_MS, assignment("hw", { due_date: undefined }))).toBe(0);
+  });
+
+  it("reads times older submissions stored as ISO strings", () => {
+    const hw = assignment("hw");
+    expect(lateDays(new Date(due + 2 * DAY_MS).toISOString(), hw)).toBe(2);
+    expect(lateDays(new Date(due - HOUR_MS).toISOString(), hw)).toBe(0);
+  });
+
+  it("refuses a time it cannot read instead of counting it on time", () => {
+    expect(() => lateDays("last Tuesday", assignment("hw"))).toThrow("Unreadable submission time");
+  });
+});
+
+describe("computeStanding", () => {
+  it("weights categories and scales up for the ones with nothing graded", () => {
+    const standing = computeStanding(
+      [assignment("hw"), assignment("exam", { category_id: "exams" }), assignment("quiz", { assignmentType: "quiz" })],
+      [submission("hw", { grade: 8 }), submission("exam", { grade: 6 }), submission("quiz")],
+      {},
+      DEFAULT_GRADEBOOK_SETTINGS,
+      now
+    );
+
+    expect(standing.categories.map((category) => category.percent)).toEqual([80, null, 60]);
+    // Quizzes are still pending, so homework and exams share the weight 30:50
+    expect(standing.computed_percent).toBe(67.5);
+    expect(standing.letter).toBe("D");
+    expect(standing).toMatchObject({ submitted: 3, total: 3 });
+    expect(standing.categories[1].items[0].status).toBe("pending");
+  });
+
+  it("takes the late penalty off, up to its cap", () => {
+    const standing = computeStanding(
+      [assignment("a"), assignment("b"), assignment("c")],
+      [
+        submission("a", { grade: 10, submitted_at: due + 2 * HOUR_MS }),
+        submission("b", { grade: 10, submitted_at: due + 8 * DAY_MS }),
+        submission("c", { grade: 3, submitted_at: due + 8 * DAY_MS }),
+      ],
+      {},
+      DEFAULT_GRADEBOOK_SETTINGS,
+      now
+    );
+
+    const [a, b, c] = standing.categories[0].items;
+    expect(a).toMatchObject({ late_days: 1, penalty: 1, earned: 9 });
+    expect(b).toMatchObject({ late_days: 8, penalty: 5, earned: 5 });
+    // Never below zero
+    expect(c).toMatchObject({ raw: 3, penalty: 3, earned: 0 });
+  });
+
+  it("penalises late work whose time was stored as an ISO string", () => {
+    const legacy = { submitted_at: new Date(due + 3 * DAY_MS).toISOString() } as unknown as Partial<Submission>;
+    const standing = computeStanding(
+      [assignment("hw")],
+      [submission("hw", { grade: 10, ...legacy })],
+      {},
+      DEFAULT_GRADEBOOK_SETTINGS,
+      now
+    );
+    expect(standing.categories[0].items[0]).toMatchObject({ late_days: 3, earned: 7 });
+  });
+
+  it("grades the latest resubmission", () => {
+    const standing = computeStanding(
+      [assignment("hw")],
+      [
+        submission("hw", { id: "new", grade: 9, submitted_at: due - HOUR_MS }),
+        submission("hw", { id: "old", grade: 4, submitted_at: due - DAY_MS }),
+      ],
+      {},
+      DEFAULT_GRADEBOOK_SETTINGS,
+      now
+    );
+    expect(standing.categories[0].items[0].earned).toBe(9);
+  });
+
+  it("counts work past its due date as missing and leaves upcoming work out", () => {
+    const standing = computeStanding(
+      [assignment("past"), assignment("future", { due_date: "2025-05-01T00:00:00Z" }), assignment("done")],
+      [submission("done", { grade: 10 })],
+      {},
+      DEFAULT_GRADEBOOK_SETTINGS,
+      now
+    );
+
+    const statuses = standing.categories[0].items.map((item) => item.status);
+    expect(statuses).toEqual(["missing", "upcoming", "graded"]);
+    expect(standing.categories[0]).toMatchObject({ earned: 10, possible: 20, percent: 50 });
+    expect(standing).toMatchObject({ submitted: 1, total: 3 });
+  });
+
+  it("drops the lowest scores but always keeps one", () => {
+    const settings = withCategories([{ id: "homework", name: "Homework", weight: 100, drop_lowest: 5 }]);
+    const standing = computeStanding(
+      [assignment("a"), assignment("b"), assignment("c")],
+      [submission("a", { grade: 2 }), submission("b", { grade: 9 }), submission("c", { grade: 5 })],
+      {},
+      settings,
+      now
+    );
+
+    expect(standing.categories[0].items.map((item) => item.dropped)).toEqual([true, false, true]);
+    expect(standing.computed_percent).toBe(90);
+  });
+
+  it("uses overrides in place of scores and the final grade", () => {
+    const assignments = [assignment("hw"), assignment("missed")];
+    const submissions = [submission("hw", { grade: 4, submitted_at: due + 2 * DAY_MS })];
+
+    const overridden = computeStanding(assignments, submissions, { missed: override(7, "missed") }, DEFAULT_GRADEBOOK_SETTINGS, now);
+    expect(overridden.categories[0].items[1]).toMatchObject({ status: "graded", earned: 7, penalty: 0 });
+    expect(overridden.computed_percent).toBe(45);
+
+    const final = computeStanding(assignments, submissions, { [FINAL_GRADE_KEY]: override(85) }, DEFAULT_GRADEBOOK_SETTINGS, now);
+    expect(final).toMatchObject({ computed_percent: 10, percent: 85, letter: "B" });
+  });
+});
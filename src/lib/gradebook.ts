@@ -0,0 +1,267 @@
+import { getRepositories, toMillis } from "./repositories";
+import {
+  Assignment,
+  CourseOverrides,
+  GradeCategory,
+  GradeOverride,
+  GradebookSettings,
+  LatePenalty,
+  LetterGrade,
+  Submission,
+} from "./types";
+
+// Course grades, shared by the teacher gradebook and the student's progress
+// page so both show the same numbers. Settings and overrides are read here;
+// only the teacher writes them (see teacher/utils/gradebook-utils).
+
+export const FINAL_GRADE_KEY = "final";
+
+export const DEFAULT_GRADEBOOK_SETTINGS: GradebookSettings = {
+  categories: [
+    { id: "homework", name: "Homework", weight: 30, drop_lowest: 0 },
+    { id: "quizzes", name: "Quizzes", weight: 20, drop_lowest: 0 },
+    { id: "exams", name: "Exams", weight: 50, drop_lowest: 0 },
+  ],
+  late_penalty: { percent_per_day: 10, max_percent: 50 },
+  scale: [
+    { letter: "A", min_percent: 90 },
+    { letter: "B", min_percent: 80 },
+    { letter: "C", min_percent: 70 },
+    { letter: "D", min_percent: 60 },
+    { letter: "F", min_percent: 0 },
+  ],
+};
+
+export type GradedItemStatus = "graded" | "pending" | "missing" | "upcoming";
+
+export interface GradedItem {
+  assignment: Assignment;
+  category_id: string;
+  status: GradedItemStatus;
+  possible: number;
+  earned?: number; // After the late penalty; set for graded and missing items
+  raw?: number; // Before the late penalty
+  late_days: number;
+  penalty: number; // Points taken off for lateness
+  override?: GradeOverride;
+  dropped: boolean;
+}
+
+export interface CategoryStanding {
+  category: GradeCategory;
+  items: GradedItem[];
+  earned: number;
+  possible: number;
+  percent: number | null; // Null until something in the category counts
+}
+
+export interface GradeStanding {
+  categories: CategoryStanding[];
+  computed_percent: number | null;
+  percent: number | null; // The final override when there is one
+  letter: string | null;
+  final_override?: GradeOverride;
+  submitted: number;
+  total: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Due dates set in the assignment form are plain days, due by the end of it
+export const dueTime = (dueDate: string) =>
+  /^\d{4}-\d{2}-\d{2}$/.test(dueDate) ? new Date(`${dueDate}T23:59:59.999`) : new Date(dueDate);
+
+// The due date plus the assignment's grace period, or null without a due date.
+// Stored on the assignment as `late_after` for the database rules.
+export function lateAfter(assignment: Pick<Assignment, "due_date" | "submission_policy">): Date | null {
+  if (!assignment.due_date) return null;
+  const grace = assignment.submission_policy?.grace_minutes || 0;
+  return new Date(dueTime(assignment.due_date).getTime() + grace * MINUTE_MS);
+}
+
+// Days are counted from the end of the grace period, the same point after
+// which submissions are flagged late. Older submissions store the time as an
+// ISO string; one that can't be read at all throws rather than passing as on
+// time.
+export function lateDays(submittedAt: number | string, assignment: Pick<Assignment, "due_date" | "submission_policy">) {
+  const after = lateAfter(assignment);
+  if (!after) return 0;
+  const time = toMillis(submittedAt);
+  if (!Number.isFinite(time)) {
+    throw new Error(`Unreadable submission time: ${submittedAt}`);
+  }
+  const late = time - after.getTime();
+  return late > 0 ? Math.ceil(late / DAY_MS) : 0;
+}
+
+export function latePenaltyPoints(possible: number, days: number, penalty: LatePenalty) {
+  return round((possible * Math.min(penalty.max_percent, days * penalty.percent_per_day)) / 100);
+}
+
+export function letterFor(percent: number, scale: LetterGrade[]) {
+  const sorted = [...scale].sort((a, b) => b.min_percent - a.min_percent);
+  return (sorted.find((grade) => percent >= grade.min_percent) || sorted[sorted.length - 1])?.letter ?? null;
+}
+
+// Quizzes go to a "quizzes" category and everything else to the first one,
+// unless the teacher picked a category for the assignment
+export function categoryIdFor(assignment: Assignment, categories: GradeCategory[]) {
+  if (assignment.category_id && categories.some((category) => category.id === assignment.category_id)) {
+    return assignment.category_id;
+  }
+  if (assignment.assignmentType === "quiz" && categories.some((category) => category.id === "quizzes")) {
+    return "quizzes";
+  }
+  return categories[0]?.id;
+}
+
+export function gradeItem(
+  assignment: Assignment,
+  submission: Submission | undefined,
+  override: GradeOverride | undefined,
+  settings: GradebookSettings,
+  now: Date
+): GradedItem {
+  const item: GradedItem = {
+    assignment,
+    category_id: categoryIdFor(assignment, settings.categories),
+    status: "upcoming",
+    possible: assignment.points || 0,
+    late_days: 0,
+    penalty: 0,
+    dropped: false,
+  };
+
+  if (override) {
+    return { ...item, status: "graded", earned: override.score, raw: override.score, override };
+  }
+
+  if (submission) {
+    const raw = submission.grade ?? submission.auto_grade;
+    if (raw === undefined || raw === null) {
+      return { ...item, status: "pending" };
+    }
+    const days = lateDays(submission.submitted_at, assignment);
+    const penalty = Math.min(raw, latePenaltyPoints(item.possible, days, settings.late_penalty));
+    return { ...item, status: "graded", raw, earned: round(raw - penalty), late_days: days, penalty };
+  }
+
+  if (assignment.due_date && dueTime(assignment.due_date) < now) {
+    return { ...item, status: "missing", earned: 0, raw: 0 };
+  }
+  return item;
+}
+
+const counts = (item: GradedItem) => (item.status === "graded" || item.status === "missing") && item.possible > 0;
+
+function standingForCategory(category: GradeCategory, items: GradedItem[]): CategoryStanding {
+  const counted = items.filter(counts);
+  const dropCount = Math.min(category.drop_lowest || 0, Math.max(0, counted.length - 1));
+  const dropped = new Set(
+    [...counted]
+      .sort((a, b) => a.earned! / a.possible - b.earned! / b.possible)
+      .slice(0, dropCount)
+      .map((item) => item.assignment.id)
+  );
+
+  const marked = items.map((item) => (dropped.has(item.assignment.id) ? { ...item, dropped: true } : item));
+  const kept = marked.filter((item) => counts(item) && !item.dropped);
+  const earned = kept.reduce((sum, item) => sum + item.earned!, 0);
+  const possible = kept.reduce((sum, item) => sum + item.possible, 0);
+
+  return {
+    category,
+    items: marked,
+    earned: round(earned),
+    possible,
+    percent: possible > 0 ? round((earned / possible) * 100) : null,
+  };
+}
+
+// A resubmission replaces the earlier attempt
+const latestSubmission = (submissions: Submission[], assignmentId: string) =>
+  submissions
+    .filter((submission) => submission.assignment_id === assignmentId)
+    .reduce<Submission | undefined>(
+      (latest, submission) =>
+        !latest || toMillis(submission.submitted_at) > toMillis(latest.submitted_at) ? submission : latest,
+      undefined
+    );
+
+// One student's standing in one course. Categories with nothing graded yet are
+// left out and the remaining weights scaled up, so early in the term the grade
+// reflects only what has been assessed.
+export function computeStanding(
+  assignments: Assignment[],
+  submissions: Submission[],
+  overrides: Record<string, GradeOverride>,
+  settings: GradebookSettings,
+  now = new Date()
+): GradeStanding {
+  const items = assignments.map((assignment) =>
+    gradeItem(
+      assignment,
+      latestSubmission(submissions, assignment.id),
+      overrides[assignment.id],
+      settings,
+      now
+    )
+  );
+
+  const categories = settings.categories.map((category) =>
+    standingForCategory(
+      category,
+      items.filter((item) => item.category_id === category.id)
+    )
+  );
+
+  const weighted = categories.filter((standing) => standing.percent !== null && standing.category.weight > 0);
+  const totalWeight = weighted.reduce((sum, standing) => sum + standing.category.weight, 0);
+  const computed =
+    totalWeight > 0
+      ? round(weighted.reduce((sum, standing) => sum + standing.percent! * standing.category.weight, 0) / totalWeight)
+      : null;
+
+  const finalOverride = overrides[FINAL_GRADE_KEY];
+  const percent = finalOverride ? finalOverride.score : computed;
+
+  return {
+    categories,
+    computed_percent: computed,
+    percent,
+    letter: percent === null ? null : letterFor(percent, settings.scale),
+    final_override: finalOverride,
+    submitted: items.filter((item) => item.status === "graded" || item.status === "pending").length,
+    total: items.length,
+  };
+}
+
+// Older courses have no gradebook record and use the defaults
+const withDefaults = (stored: Partial<GradebookSettings> | null): GradebookSettings => ({
+  ...DEFAULT_GRADEBOOK_SETTINGS,
+  ...stored,
+  late_penalty: { ...DEFAULT_GRADEBOOK_SETTINGS.late_penalty, ...stored?.late_penalty },
+});
+
+export async function fetchGradebookSettings(courseId: string): Promise<GradebookSettings> {
+  return withDefaults(await getRepositories().gradebooks.getSettings(courseId));
+}
+
+export function subscribeToGradebookSettings(courseId: string, callback: (settings: GradebookSettings) => void) {
+  return getRepositories().gradebooks.subscribeSettings(courseId, (settings) => callback(withDefaults(settings)));
+}
+
+export function fetchStudentOverrides(courseId: string, studentId: string): Promise<Record<string, GradeOverride>> {
+  return getRepositories().gradebooks.getStudentOverrides(courseId, studentId);
+}
+
+export function fetchCourseOverrides(courseId: string): Promise<CourseOverrides> {
+  return getRepositories().gradebooks.getCourseOverrides(courseId);
+}
+
+export function subscribeToCourseOverrides(courseId: string, callback: (overrides: CourseOverrides) => void) {
+  return getRepositories().gradebooks.subscribeCourseOverrides(courseId, callback);
+}
@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import { buildCalendar, escapeText, foldLine, formatUtc } from "./ical";
+
+// Checks the written calendar against RFC 5545: CRLF line ends, lines of at
+// most 75 octets and escaped text values
+
+const octets = (line: string) => new TextEncoder().encode(line).length;
+
+const now = new Date("2026-06-01T08:00:00Z");
+
+describe("escapeText", () => {
+  it("escapes backslashes, separators and newlines", () => {
+    expect(escapeText("a\\b; c, d\r\ne\nf")).toBe("a\\\\b\\; c\\, d\\ne\\nf");
+  });
+});
+
+describe("foldLine", () => {
+  it("leaves short lines alone", () => {
+    expect(foldLine("SUMMARY:Short")).toBe("SUMMARY:Short");
+  });
+
+  it("folds long lines to 75 octets, continuing with a space", () => {
+    const line = `DESCRIPTION:${"x".repeat(200)}`;
+    const folded = foldLine(line);
+    const parts = folded.split("\r\n");
+
+    expect(parts.length).toBe(3);
+    parts.forEach((part) => expect(octets(part)).toBeLessThanOrEqual(75));
+    expect(parts.slice(1).every((part) => part.startsWith(" "))).toBe(true);
+    expect(folded.replace(/\r\n /g, "")).toBe(line);
+  });
+
+  it("never splits a multi-byte character", () => {
+    const line = `SUMMARY:${"é".repeat(40)}${"😀".repeat(20)}`;
+    const parts = foldLine(line).split("\r\n ");
+    parts.forEach((part, index) => expect(octets(part)).toBeLessThanOrEqual(index === 0 ? 75 : 74));
+    expect(parts.join("")).toBe(line);
+  });
+});
+
+describe("formatUtc", () => {
+  it("writes the UTC basic format", () => {
+    expect(formatUtc(new Date("2026-01-02T03:04:05.678Z"))).toBe("20260102T030405Z");
+  });
+});
+
+describe("buildCalendar", () => {
+  it("writes each kind of event time", () => {
+    const calendar = buildCalendar({
+      name: "Sam's calendar, spring",
+      now,
+      events: [
+        { uid: "due-1", summary: "Essay; draft", start: { date: "2026-06-30" }, categories: ["Assignment", "Bio, 101"] },
+        {
+          uid: "class-1",
+          summary: "Biology",
+          start: { localDateTime: "2026-06-01T10:00" },
+          end: { localDateTime: "2026-06-01T11:30" },
+          location: "Hall 2",
+          rrule: "FREQ=WEEKLY;BYDAY=MO",
+        },
+        { uid: "study-1", summary: "Review", start: { dateTime: new Date("2026-06-02T15:00:00Z") }, description: "Ch. 1\nCh. 2" },
+      ],
+    });
+
+    expect(calendar).toBe(
+      [
+        "BEGIN:VCALENDAR",
+        "VERSION:2.0",
+        "PRODID:-//EduConnect//Study Calendar//EN",
+        "CALSCALE:GREGORIAN",
+        "METHOD:PUBLISH",
+        "X-WR-CALNAME:Sam's calendar\\, spring",
+        "BEGIN:VEVENT",
+        "UID:due-1",
+        "DTSTAMP:20260601T080000Z",
+        "DTSTART;VALUE=DATE:20260630",
+        // All-day events end the next day, here across a month end
+        "DTEND;VALUE=DATE:20260701",
+        "SUMMARY:Essay\\; draft",
+        "CATEGORIES:Assignment,Bio\\, 101",
+        "END:VEVENT",
+        "BEGIN:VEVENT",
+        "UID:class-1",
+        "DTSTAMP:20260601T080000Z",
+        "DTSTART:20260601T100000",
+        "DTEND:20260601T113000",
+        "SUMMARY:Biology",
+        "LOCATION:Hall 2",
+        "RRULE:FREQ=WEEKLY;BYDAY=MO",
+        "END:VEVENT",
+        "BEGIN:VEVENT",
+        "UID:study-1",
+        "DTSTAMP:20260601T080000Z",
+        "DTSTART:20260602T150000Z",
+        "DTEND:20260602T150000Z",
+        "SUMMARY:Review",
+        "DESCRIPTION:Ch. 1\\nCh. 2",
+        "END:VEVENT",
+        "END:VCALENDAR",
+        "",
+      ].join("\r\n")
+    );
+  });
+
+  it("folds every long line", () => {
+    const calendar = buildCalendar({
+      name: "Calendar",
+      now,
+      events: [{ uid: "e", summary: "S".repeat(100), start: { date: "2026-06-01" }, description: "D".repeat(300) }],
+    });
+    const lines = calendar.split("\r\n");
+    lines.forEach((line) => expect(octets(line)).toBeLessThanOrEqual(75));
+    expect(calendar.replace(/\r\n /g, "")).toContain(`SUMMARY:${"S".repeat(100)}\r\n`);
+  });
+});
@@ -0,0 +1,119 @@
+// Minimal RFC 5545 (iCalendar) writer for the calendar downloads and feeds.
+// Only the properties the app needs are supported.
+
+export type CalendarEventTime =
+  | { date: string } // All-day, yyyy-MM-dd
+  | { dateTime: Date } // Written in UTC
+  | { localDateTime: string }; // Floating yyyy-MM-ddTHH:mm, follows the viewer's time zone
+
+export interface CalendarEvent {
+  uid: string;
+  summary: string;
+  start: CalendarEventTime;
+  // Defaults to one day for all-day events and to `start` otherwise
+  end?: CalendarEventTime;
+  description?: string;
+  location?: string;
+  categories?: string[];
+  // Without the RRULE: prefix, e.g. FREQ=WEEKLY;BYDAY=MO,WE
+  rrule?: string;
+}
+
+export interface CalendarOptions {
+  name: string;
+  events: CalendarEvent[];
+  now?: Date;
+}
+
+const PRODUCT_ID = "-//EduConnect//Study Calendar//EN";
+const MAX_LINE_OCTETS = 75;
+
+export const escapeText = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+// Lines longer than 75 octets are split, continuing with a single space. Never
+// splits inside a multi-byte UTF-8 character.
+export const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+};
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+export const formatUtc = (date: Date) =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T${pad(date.getUTCHours())}${pad(
+    date.getUTCMinutes()
+  )}${pad(date.getUTCSeconds())}Z`;
+
+const compactDate = (date: string) => date.replace(/-/g, "");
+
+const nextDay = (date: string) => {
+  const value = new Date(`${date}T00:00:00Z`);
+  value.setUTCDate(value.getUTCDate() + 1);
+  return value.toISOString().slice(0, 10);
+};
+
+const timeProperty = (name: string, time: CalendarEventTime) => {
+  if ("date" in time) return `${name};VALUE=DATE:${compactDate(time.date)}`;
+  if ("dateTime" in time) return `${name}:${formatUtc(time.dateTime)}`;
+  return `${name}:${compactDate(time.localDateTime).replace(":", "")}00`;
+};
+
+const eventLines = (event: CalendarEvent, stamp: string) => {
+  const end = event.end || ("date" in event.start ? { date: nextDay(event.start.date) } : event.start);
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `DTSTAMP:${stamp}`,
+    timeProperty("DTSTART", event.start),
+    timeProperty("DTEND", end),
+    `SUMMARY:${escapeText(event.summary)}`,
+  ];
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.categories?.length) lines.push(`CATEGORIES:${event.categories.map(escapeText).join(",")}`);
+  if (event.rrule) lines.push(`RRULE:${event.rrule}`);
+  lines.push("END:VEVENT");
+  return lines;
+};
+
+export function buildCalendar({ name, events, now = new Date() }: CalendarOptions): string {
+  const stamp = formatUtc(now);
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...events.flatMap((event) => eventLines(event, stamp)),
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+export function downloadCalendar(fileName: string, calendar: string) {
+  const url = URL.createObjectURL(new Blob([calendar], { type: "text/calendar;charset=utf-8" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName.endsWith(".ics") ? fileName : `${fileName}.ics`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,201 @@
+import { auth } from "@/firebase";
+import { getRepositories } from "./repositories";
+import { dueTime } from "./gradebook";
+import { Assignment, Notification, NotificationPreferences, NotificationSettings, NotificationType, Submission } from "./types";
+
+// In-app notifications, one record per recipient under notifications/{id}.
+// Users can notify themselves, admins anyone, and teachers the students of
+// their courses, which is why course notifications carry the course; only the
+// recipient can mark one read or delete it. Sending checks the recipient's preferences (and
+// the admins' switch for due-date reminders), so callers just send.
+
+export type NewNotification = Required<Pick<Notification, "title" | "type">> & Partial<Pick<Notification, "content" | "link" | "course_id" | "assignment_id">>;
+
+export const NOTIFICATION_TYPE_OPTIONS: {
+  value: NotificationType;
+  label: string;
+  description: string;
+  studentsOnly: boolean; // Only students are ever sent these
+}[] = [
+  { value: "assignment", label: "New assignments", description: "When a teacher posts an assignment or quiz in your course", studentsOnly: true },
+  { value: "grade", label: "Grades", description: "When your work is graded", studentsOnly: true },
+  { value: "due_soon", label: "Due date reminders", description: "A day before an assignment you haven't submitted is due", studentsOnly: true },
+  { value: "announcement", label: "Announcements", description: "Messages from administrators", studentsOnly: false },
+  { value: "enrollment", label: "Course joins", description: "When a teacher approves your request to join a course", studentsOnly: true },
+  { value: "attendance", label: "Attendance", description: "When your absences reach the course limit", studentsOnly: true },
+];
+
+const DUE_SOON_HOURS = 24;
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  assignment_reminders: true,
+  email_notifications: false,
+};
+
+export const wantsNotification = (preferences: NotificationPreferences, type: NotificationType) =>
+  preferences[type] !== false;
+
+export async function fetchNotificationSettings(): Promise<NotificationSettings> {
+  return { ...DEFAULT_NOTIFICATION_SETTINGS, ...(await getRepositories().notifications.getSettings()) };
+}
+
+export function subscribeToNotificationSettings(callback: (settings: NotificationSettings) => void) {
+  return getRepositories().notifications.subscribeSettings((settings) => {
+    callback({ ...DEFAULT_NOTIFICATION_SETTINGS, ...settings });
+  });
+}
+
+export async function saveNotificationSettings(
+  settings: Pick<NotificationSettings, "assignment_reminders" | "email_notifications">,
+  userId: string
+) {
+  const value: NotificationSettings = {
+    assignment_reminders: settings.assignment_reminders,
+    email_notifications: settings.email_notifications,
+    updated_by: userId,
+    updated_at: new Date().toISOString(),
+  };
+  await getRepositories().notifications.saveSettings(value);
+}
+
+export function fetchNotificationPreferences(userId: string): Promise<NotificationPreferences> {
+  return getRepositories().notifications.getPreferences(userId);
+}
+
+export function subscribeToNotificationPreferences(userId: string, callback: (preferences: NotificationPreferences) => void) {
+  return getRepositories().notifications.subscribePreferences(userId, callback);
+}
+
+export async function saveNotificationPreferences(userId: string, preferences: NotificationPreferences) {
+  await getRepositories().notifications.savePreferences(userId, preferences);
+}
+
+async function isWanted(userId: string, type: NotificationType) {
+  if (type === "due_soon" && !(await fetchNotificationSettings()).assignment_reminders) return false;
+  return wantsNotification(await fetchNotificationPreferences(userId), type);
+}
+
+const newNotification = (userId: string, notification: NewNotification): Omit<Notification, "id"> => ({
+  user_id: userId,
+  title: notification.title,
+  type: notification.type,
+  content: notification.content || undefined,
+  link: notification.link || undefined,
+  course_id: notification.course_id || undefined,
+  assignment_id: notification.assignment_id || undefined,
+  created_at: new Date().toISOString(),
+  read: false,
+  sender_id: auth.currentUser?.uid,
+});
+
+// Null when the recipient has turned this kind of notification off
+export async function sendNotification(userId: string, notification: NewNotification): Promise<Notification | null> {
+  if (!(await isWanted(userId, notification.type))) return null;
+  return getRepositories().notifications.create(newNotification(userId, notification));
+}
+
+export async function notifyUsers(userIds: string[], notification: NewNotification) {
+  const sent = await Promise.all([...new Set(userIds)].map((userId) => sendNotification(userId, notification)));
+  return sent.filter((created): created is Notification => created !== null).length;
+}
+
+export async function notifyCourseStudents(courseId: string, notification: NewNotification) {
+  const students = await getRepositories().enrollments.listByCourse(courseId);
+  return notifyUsers(students.map((enrollment) => enrollment.student_id), { ...notification, course_id: courseId });
+}
+
+// Event notifications. These are sent after the change they announce has been
+// saved, so callers catch and log failures rather than report them.
+
+export async function notifyNewAssignment(assignment: Pick<Assignment, "course_id" | "title" | "due_date" | "assignmentType">) {
+  const course = await getRepositories().courses.get(assignment.course_id);
+  const kind = assignment.assignmentType === "quiz" ? "quiz" : "assignment";
+  return notifyCourseStudents(assignment.course_id, {
+    type: "assignment",
+    title: `New ${kind} in ${course?.title || "your course"}`,
+    content: assignment.due_date
+      ? `${assignment.title}, due ${dueTime(assignment.due_date).toLocaleString()}`
+      : assignment.title,
+    link: "/student/assignments",
+  });
+}
+
+export async function notifyGradePosted(
+  submission: Pick<Submission, "user_id" | "course_id" | "assignment_id" | "assignment_title" | "points">,
+  grade: number
+) {
+  return sendNotification(submission.user_id, {
+    type: "grade",
+    course_id: submission.course_id,
+    assignment_id: submission.assignment_id,
+    title: `${submission.assignment_title || "Your assignment"} has been graded`,
+    content: submission.points ? `You scored ${grade} out of ${submission.points}.` : `You scored ${grade}.`,
+    link: "/student/assignments",
+  });
+}
+
+export async function notifyJoinApproved(studentId: string, courseId: string) {
+  const course = await getRepositories().courses.get(courseId);
+  return sendNotification(studentId, {
+    type: "enrollment",
+    course_id: courseId,
+    title: `You've joined ${course?.title || "a course"}`,
+    content: "Your request to join was approved.",
+    link: "/student/courses",
+  });
+}
+
+export function subscribeToNotifications(userId: string, callback: (notifications: Notification[]) => void) {
+  return getRepositories().notifications.subscribeByUser(userId, (notifications) =>
+    callback(notifications.sort((a, b) => b.created_at.localeCompare(a.created_at)))
+  );
+}
+
+export async function markNotificationRead(notificationId: string) {
+  await getRepositories().notifications.markRead([notificationId]);
+}
+
+export async function markAllNotificationsRead(notifications: Notification[]) {
+  const unread = notifications.filter((notification) => !notification.read);
+  await getRepositories().notifications.markRead(unread.map((notification) => notification.id));
+}
+
+// The server sends these every hour (server/mail-events.cjs); the app also
+// checks when the student opens it, for when the server is not running. Keyed
+// by assignment and student, so each assignment reminds only once.
+export async function sendDueSoonReminders(userId: string, now = new Date()) {
+  if (!(await isWanted(userId, "due_soon"))) return 0;
+
+  const { enrollments, assignments, submissions, notifications } = getRepositories();
+  const [courseEnrollments, submitted] = await Promise.all([
+    enrollments.listByStudent(userId),
+    submissions.listByUser(userId),
+  ]);
+  const submittedIds = new Set(submitted.map((submission) => submission.assignment_id));
+  const courseAssignments = (
+    await Promise.all(courseEnrollments.map((enrollment) => assignments.listByCourse(enrollment.course_id)))
+  ).flat();
+
+  const dueSoon = courseAssignments.filter((assignment) => {
+    if (!assignment.due_date || submittedIds.has(assignment.id)) return false;
+    const hoursLeft = (dueTime(assignment.due_date).getTime() - now.getTime()) / (60 * 60 * 1000);
+    return hoursLeft > 0 && hoursLeft <= DUE_SOON_HOURS;
+  });
+
+  let sent = 0;
+  for (const assignment of dueSoon) {
+    const key = `due_soon_${assignment.id}_${userId}`;
+    if (await notifications.get(key)) continue;
+    await notifications.save({
+      ...newNotification(userId, {
+        type: "due_soon",
+        title: `${assignment.title} is due soon`,
+        content: `Due ${dueTime(assignment.due_date!).toLocaleString()}. You haven't submitted it yet.`,
+        link: "/student/assignments",
+      }),
+      id: key,
+    });
+    sent++;
+  }
+  return sent;
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import { KGRAM_SIZE, WINNOW_WINDOW, compareAgainstSources, fingerprint, mergeSpans } from "./plagiarism";
+
+// Compares made-up essays built from numbered words, so every k-gram is
+// distinct and copied passages can be placed exactly
+
+const words = (from: number, count: number, prefix = "w") =>
+  Array.from({ length: count }, (_, i) => `${prefix}${from + i}`).join(" ");
+
+const source = (id: string, text: string) => ({ id, label: `Essay ${id}`, text });
+
+describe("fingerprint", () => {
+  it("is the same for text differing only in case and punctuation", () => {
+    const hashes = (text: string) => fingerprint(text).map((f) => f.hash);
+    expect(hashes("The quick brown fox jumps over the lazy dog again today")).toEqual(
+      hashes("the QUICK, brown fox -- jumps over; the lazy dog. Again today!")
+    );
+  });
+
+  it("is empty for text shorter than one k-gram", () => {
+    expect(fingerprint(words(0, KGRAM_SIZE - 1))).toEqual([]);
+  });
+
+  it("keeps at least one hash from every window and points back into the text", () => {
+    const text = words(0, 60);
+    const grams = 60 - KGRAM_SIZE + 1;
+    const selected = fingerprint(text);
+
+    expect(selected.length).toBeGreaterThanOrEqual(Math.ceil(grams / WINNOW_WINDOW));
+    expect(selected.length).toBeLessThan(grams);
+    selected.forEach((f) => {
+      expect(text.slice(f.start, f.end).split(" ")).toHaveLength(KGRAM_SIZE);
+    });
+  });
+});
+
+describe("mergeSpans", () => {
+  it("joins overlapping and touching ranges and keeps separate ones apart", () => {
+    expect(
+      mergeSpans([
+        { start: 20, end: 30 },
+        { start: 0, end: 10 },
+        { start: 5, end: 12 },
+        { start: 13, end: 15 },
+      ])
+    ).toEqual([
+      { start: 0, end: 15 },
+      { start: 20, end: 30 },
+    ]);
+  });
+});
+
+describe("compareAgainstSources", () => {
+  it("scores an unrelated text at zero", () => {
+    expect(compareAgainstSources(words(0, 40), [source("a", words(0, 40, "x"))])).toEqual({
+      score: 0,
+      spans: [],
+      matches: [],
+    });
+  });
+
+  it("scores a full copy at 100 and highlights all of it", () => {
+    const text = words(0, 40);
+    const report = compareAgainstSources(text, [source("a", `Intro words here. ${text} And a conclusion.`)]);
+    expect(report.score).toBe(100);
+    expect(report.spans).toEqual([{ start: 0, end: text.length }]);
+  });
+
+  it("always finds a copied passage of k + window - 1 words", () => {
+    const copied = words(1000, KGRAM_SIZE + WINNOW_WINDOW - 1);
+    // Try the passage at every offset, so the guarantee doesn't rest on where
+    // the window boundaries happen to fall
+    for (let offset = 0; offset < WINNOW_WINDOW; offset++) {
+      const text = `${words(0, 20 + offset)} ${copied} ${words(100, 20)}`;
+      const report = compareAgainstSources(text, [source("a", `${words(0, 7, "y")} ${copied} ${words(0, 9, "z")}`)]);
+      const start = text.indexOf(copied);
+      expect(report.score).toBeGreaterThan(0);
+      expect(report.spans).toEqual([{ start, end: start + copied.length }]);
+    }
+  });
+
+  it("reports each source, best match first, and the overall share once", () => {
+    const text = `${words(0, 30)} ${words(100, 30)}`;
+    const report = compareAgainstSources(text, [
+      source("small", `unrelated ${words(110, 10)} words`),
+      source("large", words(0, 30)),
+      source("other", words(0, 30, "q")),
+    ]);
+
+    expect(report.matches.map((match) => match.sourceId)).toEqual(["large", "small"]);
+    expect(report.matches[0].sourceLabel).toBe("Essay large");
+    expect(report.matches[0].score).toBeGreaterThan(report.matches[1].score);
+    expect(report.score).toBeGreaterThan(report.matches[0].score);
+    expect(report.score).toBeLessThan(100);
+    expect(report.spans).toEqual([
+      { start: 0, end: words(0, 30).length },
+      { start: text.indexOf(words(110, 10)), end: text.indexOf(words(110, 10)) + words(110, 10).length },
+    ]);
+  });
+
+  it("counts text found in several sources once in the overall score", () => {
+    const text = words(0, 40);
+    const report = compareAgainstSources(text, [source("a", text), source("b", text)]);
+    expect(report.matches.map((match) => match.score)).toEqual([100, 100]);
+    expect(report.score).toBe(100);
+  });
+
+  it("has nothing to report for text too short to fingerprint", () => {
+    expect(compareAgainstSources("Too short", [source("a", "Too short")])).toEqual({ score: 0, spans: [], matches: [] });
+  });
+});
@@ -0,0 +1,159 @@
+import { TextSpan } from "./types";
+
+// Document fingerprinting with winnowing (Schleimer, Wilkerson & Aiken). Each
+// text is reduced to hashes of word k-grams, and from every window of
+// consecutive hashes only the minimum is kept. Any shared passage of at least
+// k + window - 1 words is guaranteed to produce a shared fingerprint, while
+// the fingerprint set stays small enough to compare every pair of submissions.
+
+export const KGRAM_SIZE = 5;
+export const WINNOW_WINDOW = 4;
+
+interface Token {
+  start: number;
+  end: number;
+  value: string;
+}
+
+export interface Fingerprint {
+  hash: number;
+  // Character range in the original text covered by the k-gram
+  start: number;
+  end: number;
+}
+
+export interface ComparisonSource {
+  id: string;
+  label: string;
+  text: string;
+}
+
+export interface SourceMatch {
+  sourceId: string;
+  sourceLabel: string;
+  // Share of the checked text's fingerprints found in this source, 0-100
+  score: number;
+  spans: TextSpan[];
+}
+
+export interface SimilarityReport {
+  // Share of the checked text's fingerprints found in any source, 0-100
+  score: number;
+  spans: TextSpan[];
+  matches: SourceMatch[];
+}
+
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(/[\p{L}\p{N}_]+/gu)) {
+    tokens.push({ start: match.index!, end: match.index! + match[0].length, value: match[0].toLowerCase() });
+  }
+  return tokens;
+};
+
+// 32-bit FNV-1a, enough to keep accidental collisions between k-grams rare
+const hashGram = (value: string) => {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+const kgrams = (text: string, k: number): Fingerprint[] => {
+  const tokens = tokenize(text);
+  const grams: Fingerprint[] = [];
+  for (let i = 0; i + k <= tokens.length; i++) {
+    grams.push({
+      hash: hashGram(tokens.slice(i, i + k).map((t) => t.value).join(" ")),
+      start: tokens[i].start,
+      end: tokens[i + k - 1].end,
+    });
+  }
+  return grams;
+};
+
+export const fingerprint = (text: string, k = KGRAM_SIZE, window = WINNOW_WINDOW): Fingerprint[] => {
+  const grams = kgrams(text, k);
+  if (grams.length === 0) return [];
+
+  const size = Math.min(window, grams.length);
+  const selected: Fingerprint[] = [];
+  let lastIndex = -1;
+
+  for (let windowStart = 0; windowStart + size <= grams.length; windowStart++) {
+    // Rightmost minimum, so a window that slides past an unchanged minimum
+    // does not select it again
+    let minIndex = windowStart;
+    for (let i = windowStart + 1; i < windowStart + size; i++) {
+      if (grams[i].hash <= grams[minIndex].hash) minIndex = i;
+    }
+    if (minIndex !== lastIndex) {
+      selected.push(grams[minIndex]);
+      lastIndex = minIndex;
+    }
+  }
+
+  return selected;
+};
+
+// Merges overlapping or touching ranges into the passages shown to teachers
+export const mergeSpans = (spans: TextSpan[]): TextSpan[] => {
+  const sorted = [...spans].sort((a, b) => a.start - b.start);
+  const merged: TextSpan[] = [];
+  for (const span of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && span.start <= last.end + 1) {
+      last.end = Math.max(last.end, span.end);
+    } else {
+      merged.push({ ...span });
+    }
+  }
+  return merged;
+};
+
+const toPercent = (matched: number, total: number) => (total > 0 ? Math.round((matched / total) * 1000) / 10 : 0);
+
+// Scores use the winnowed fingerprints; highlighted passages use every shared
+// k-gram, so they cover whole copied sentences rather than sampled fragments.
+export const compareAgainstSources = (text: string, sources: ComparisonSource[]): SimilarityReport => {
+  const target = fingerprint(text);
+  if (target.length === 0) {
+    return { score: 0, spans: [], matches: [] };
+  }
+  const targetGrams = kgrams(text, KGRAM_SIZE);
+
+  const matchedOverall = new Set<number>();
+  const allSpans: TextSpan[] = [];
+  const matches: SourceMatch[] = [];
+
+  for (const source of sources) {
+    const sourceGrams = kgrams(source.text, KGRAM_SIZE);
+    const sourceFingerprints = new Set(fingerprint(source.text).map((f) => f.hash));
+    const matchedIndexes = target.map((f, index) => (sourceFingerprints.has(f.hash) ? index : -1)).filter((i) => i >= 0);
+    if (matchedIndexes.length === 0) continue;
+
+    const sourceHashes = new Set(sourceGrams.map((g) => g.hash));
+    const spans = mergeSpans(
+      targetGrams.filter((g) => sourceHashes.has(g.hash)).map((g) => ({ start: g.start, end: g.end }))
+    );
+
+    matchedIndexes.forEach((index) => matchedOverall.add(index));
+    allSpans.push(...spans);
+    matches.push({
+      sourceId: source.id,
+      sourceLabel: source.label,
+      score: toPercent(matchedIndexes.length, target.length),
+      spans,
+    });
+  }
+
+  matches.sort((a, b) => b.score - a.score);
+
+  return {
+    score: toPercent(matchedOverall.size, target.length),
+    spans: mergeSpans(allSpans),
+    matches,
+  };
+};
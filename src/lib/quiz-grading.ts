@@ -0,0 +1,97 @@
+import { BankQuestion, CourseQuizAttempt, QuizAnswer } from "./types";
+
+export const TRUE_FALSE_OPTIONS = ["True", "False"];
+
+export const isChoiceQuestion = (question: BankQuestion) =>
+  question.type === "multiple_choice" || question.type === "multi_select" || question.type === "true_false";
+
+export const getQuestionOptions = (question: BankQuestion) =>
+  question.type === "true_false" ? TRUE_FALSE_OPTIONS : question.options || [];
+
+const normalizeText = (value: string) => value.trim().toLowerCase().replace(/\s+/g, " ");
+
+// Returns the points earned for a single answer. Multi-select questions give
+// partial credit: each wrong selection cancels out a right one.
+export const gradeQuestion = (question: BankQuestion, answer: QuizAnswer | undefined): number => {
+  if (answer === undefined || answer === null) return 0;
+  const correct = question.correct_options || [];
+
+  switch (question.type) {
+    case "multiple_choice":
+    case "true_false": {
+      const selected = Array.isArray(answer) ? answer : [];
+      return selected.length === 1 && correct.includes(selected[0]) ? question.points : 0;
+    }
+    case "multi_select": {
+      const selected = Array.isArray(answer) ? answer : [];
+      if (correct.length === 0) return 0;
+      const right = selected.filter((index) => correct.includes(index)).length;
+      const wrong = selected.length - right;
+      const ratio = Math.max(0, right - wrong) / correct.length;
+      return Math.round(ratio * question.points * 100) / 100;
+    }
+    case "short_answer": {
+      if (typeof answer !== "string" || !answer.trim()) return 0;
+      const accepted = (question.accepted_answers || []).map(normalizeText);
+      return accepted.includes(normalizeText(answer)) ? question.points : 0;
+    }
+    case "numeric": {
+      const value = typeof answer === "string" ? parseFloat(answer) : NaN;
+      if (!Number.isFinite(value) || question.numeric_answer === undefined) return 0;
+      return Math.abs(value - question.numeric_answer) <= (question.tolerance || 0) ? question.points : 0;
+    }
+    default:
+      return 0;
+  }
+};
+
+export const gradeQuizAnswers = (questions: BankQuestion[], answers: Record<string, QuizAnswer>) => {
+  const questionScores: Record<string, number> = {};
+  let score = 0;
+
+  for (const question of questions) {
+    const earned = gradeQuestion(question, answers[question.id]);
+    questionScores[question.id] = earned;
+    score += earned;
+  }
+
+  return { questionScores, score: Math.round(score * 100) / 100 };
+};
+
+export interface QuestionAnalytics {
+  questionId: string;
+  responses: number;
+  // Share of students earning full credit (classical item difficulty, p-value)
+  difficultyIndex: number | null;
+  // Share of responses selecting each option; empty for non-choice questions
+  optionRates: number[];
+}
+
+export const analyzeQuestion = (question: BankQuestion, attempts: CourseQuizAttempt[]): QuestionAnalytics => {
+  // Every graded question gets a score, so this also counts students who skipped it
+  const submitted = attempts.filter(
+    (attempt) => attempt.status === "submitted" && attempt.question_scores && question.id in attempt.question_scores
+  );
+  const options = getQuestionOptions(question);
+  const optionCounts = new Array(isChoiceQuestion(question) ? options.length : 0).fill(0);
+  let fullCredit = 0;
+
+  for (const attempt of submitted) {
+    const answer = attempt.answers?.[question.id];
+    if ((attempt.question_scores?.[question.id] ?? 0) >= question.points) {
+      fullCredit++;
+    }
+    if (Array.isArray(answer)) {
+      answer.forEach((index) => {
+        if (index >= 0 && index < optionCounts.length) optionCounts[index]++;
+      });
+    }
+  }
+
+  return {
+    questionId: question.id,
+    responses: submitted.length,
+    difficultyIndex: submitted.length > 0 ? fullCredit / submitted.length : null,
+    optionRates: optionCounts.map((count) => (submitted.length > 0 ? count / submitted.length : 0)),
+  };
+};
@@ -0,0 +1,711 @@
+import {
+  DataSnapshot,
+  equalTo,
+  get,
+  onValue,
+  orderByChild,
+  push,
+  query,
+  ref,
+  remove,
+  runTransaction,
+  serverTimestamp,
+  set,
+  update,
+} from "firebase/database";
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  deleteField,
+  doc,
+  getDoc,
+  getDocs,
+  query as firestoreQuery,
+  setDoc,
+  updateDoc,
+  where,
+  writeBatch,
+} from "firebase/firestore";
+import { format } from "date-fns";
+import { database, db } from "@/firebase";
+import { withoutUndefined } from "@/lib/utils";
+import {
+  AIContentCheck,
+  AccessCode,
+  ActiveMute,
+  Assignment,
+  AttendancePolicy,
+  AttendanceRecord,
+  BankQuestion,
+  CalendarFeed,
+  Course,
+  CourseQuiz,
+  CourseQuizAttempt,
+  Enrollment,
+  ForumComment,
+  ForumReport,
+  ForumThread,
+  GradeOverride,
+  GradebookSettings,
+  JoinRequest,
+  ModerationLogEntry,
+  Notification,
+  NotificationPreferences,
+  Rubric,
+  StudyPlan,
+  StudyPlanItem,
+  Submission,
+  TeacherConnection,
+  User,
+  UserSanction,
+  UserXP,
+} from "@/lib/types";
+import { AIGeneratedCourse } from "@/components/student/types/ai-course-types";
+import { Quiz, QuizAttempt } from "@/components/student/types/quiz-types";
+import {
+  AICourseRepository,
+  ModerationRepository,
+  NewRecord,
+  RecordChanges,
+  Repositories,
+  StoredAttendanceSession,
+  StudyPlanRepository,
+  Unsubscribe,
+  enrollmentId,
+  forumReportId,
+  withLateness,
+} from "./types";
+
+// Study plans, AI-generated courses and calendar feeds live in Firestore,
+// everything else in the Realtime Database.
+
+const PLANS = "study_plans";
+const ITEMS = "study_plan_items";
+const AI_COURSES = "courses";
+const CALENDAR_FEEDS = "calendar_feeds";
+const MIGRATED_PLAN_TITLE = "My Study Plan";
+const NOTIFICATION_SETTINGS = "system_settings/notifications";
+
+// In a Realtime Database update, null removes the field
+const removalsAsNull = (changes: object) =>
+  Object.fromEntries(Object.entries(changes).map(([key, field]) => [key, field === undefined ? null : field]));
+
+const removalsAsDeleteField = (changes: object) =>
+  Object.fromEntries(Object.entries(changes).map(([key, field]) => [key, field === undefined ? deleteField() : field]));
+
+function realtimeCollection<T extends { id: string }>(path: string, normalize: (record: T) => T = (record) => record) {
+  const fromValue = (id: string, value: object) => normalize({ ...value, id } as T);
+
+  const fromSnapshot = (snapshot: DataSnapshot) => {
+    const records: T[] = [];
+    snapshot.forEach((childSnapshot) => {
+      records.push(fromValue(childSnapshot.key!, childSnapshot.val()));
+    });
+    return records;
+  };
+
+  const byChild = (child: string, value: string) =>
+    query(ref(database, path), orderByChild(child), equalTo(value));
+
+  return {
+    async get(id: string) {
+      const snapshot = await get(ref(database, `${path}/${id}`));
+      return snapshot.exists() ? fromValue(id, snapshot.val()) : null;
+    },
+    async list() {
+      return fromSnapshot(await get(ref(database, path)));
+    },
+    async listBy(child: string, value: string) {
+      return fromSnapshot(await get(byChild(child, value)));
+    },
+    subscribe(id: string, callback: (record: T | null) => void): Unsubscribe {
+      return onValue(ref(database, `${path}/${id}`), (snapshot) =>
+        callback(snapshot.exists() ? fromValue(id, snapshot.val()) : null)
+      );
+    },
+    subscribeBy(child: string, value: string, callback: (records: T[]) => void): Unsubscribe {
+      return onValue(byChild(child, value), (snapshot) => callback(fromSnapshot(snapshot)));
+    },
+    newId() {
+      return push(ref(database, path)).key!;
+    },
+    async create(record: NewRecord<T>) {
+      const recordRef = push(ref(database, path));
+      const created = withoutUndefined({ ...record, id: recordRef.key! } as T);
+      await set(recordRef, created);
+      return created;
+    },
+    async save(record: T) {
+      await set(ref(database, `${path}/${record.id}`), withoutUndefined(record));
+    },
+    async update(id: string, changes: RecordChanges<T>) {
+      await update(ref(database, `${path}/${id}`), removalsAsNull(changes));
+    },
+    async remove(id: string) {
+      await remove(ref(database, `${path}/${id}`));
+    },
+  };
+}
+
+// Records stored under a key of their own, like per-course settings, rather
+// than in a collection of generated ids
+function realtimeValues<T>(path: string) {
+  return {
+    async get(key: string) {
+      return (await get(ref(database, `${path}/${key}`))).val() as T | null;
+    },
+    subscribe(key: string, callback: (value: T | null) => void): Unsubscribe {
+      return onValue(ref(database, `${path}/${key}`), (snapshot) => callback(snapshot.val()));
+    },
+    async set(key: string, value: T) {
+      await set(ref(database, `${path}/${key}`), withoutUndefined(value as object));
+    },
+    async remove(key: string) {
+      await remove(ref(database, `${path}/${key}`));
+    },
+  };
+}
+
+// Students may only list forum posts by visible_in, which is cleared when a
+// post is hidden, and their own posts by author; the two lists are merged
+function subscribeVisibleAndOwn<T extends ForumThread | ForumComment>(
+  posts: ReturnType<typeof realtimeCollection<T>>,
+  visibleIn: string,
+  authorId: string,
+  belongs: (post: T) => boolean,
+  callback: (posts: T[]) => void
+): Unsubscribe {
+  let visible: T[] = [];
+  let own: T[] = [];
+  const emit = () => {
+    const byId = new Map([...visible, ...own.filter(belongs)].map((post) => [post.id, post]));
+    callback([...byId.values()]);
+  };
+  const unsubscribeVisible = posts.subscribeBy("visible_in", visibleIn, (records) => {
+    visible = records;
+    emit();
+  });
+  const unsubscribeOwn = posts.subscribeBy("author_id", authorId, (records) => {
+    own = records;
+    emit();
+  });
+  return () => {
+    unsubscribeVisible();
+    unsubscribeOwn();
+  };
+}
+
+// The paths of a multi-location update that applies `changes` to the record
+const changePaths = (path: string, changes: object) =>
+  Object.fromEntries(Object.entries(removalsAsNull(changes)).map(([key, field]) => [`${path}/${key}`, field]));
+
+// Older attendance records were written with `course_id`
+const normalizeAttendance = (record: AttendanceRecord) => {
+  const legacy = record as AttendanceRecord & { course_id?: string };
+  return legacy.courseId || !legacy.course_id ? record : { ...record, courseId: legacy.course_id };
+};
+
+// Before plans had items, every task was its own study_plans document with a
+// free-text course, an optional yyyy-MM-dd date and a bare HH:mm time
+interface LegacyStudyTask {
+  id: string;
+  title: string;
+  course?: string;
+  time?: string;
+  date?: string;
+  duration?: number;
+  completed?: boolean;
+  created_at?: string;
+  type?: StudyPlanItem["type"];
+  source_id?: string;
+  description?: string;
+}
+
+const isLegacyTask = (data: Record<string, unknown>) => !("start_date" in data);
+
+const legacyStart = (task: LegacyStudyTask) => {
+  const day = task.date || (task.created_at || new Date().toISOString()).slice(0, 10);
+  const time = /^\d{1,2}:\d{2}$/.test(task.time || "") ? task.time!.padStart(5, "0") : "09:00";
+  return new Date(`${day}T${time}:00`).toISOString();
+};
+
+const itemsFromLegacy = (userId: string, planId: string, tasks: LegacyStudyTask[]) =>
+  tasks.map((task) =>
+    withoutUndefined<StudyPlanItem>({
+      id: task.id,
+      study_plan_id: planId,
+      user_id: userId,
+      title: task.title,
+      description: task.description,
+      course: task.course,
+      due_date: legacyStart(task),
+      duration_minutes: task.duration || 30,
+      is_completed: !!task.completed,
+      type: task.type || "other",
+      source_id: task.source_id,
+    })
+  );
+
+function firestoreStudyPlans(): StudyPlanRepository {
+  const createPlan = async (plan: NewRecord<StudyPlan>) => {
+    const planRef = doc(collection(db, PLANS));
+    const created = withoutUndefined<StudyPlan>({ ...plan, id: planRef.id });
+    await setDoc(planRef, created);
+    return created;
+  };
+
+  // Legacy task documents are moved into the student's hand-made plan, keeping
+  // their ids, the first time their plans are listed
+  const migrateLegacyTasks = async (userId: string, plans: StudyPlan[], tasks: LegacyStudyTask[]) => {
+    let plan = plans.find((candidate) => !candidate.is_ai_generated);
+    if (!plan) {
+      const today = format(new Date(), "yyyy-MM-dd");
+      plan = await createPlan({
+        user_id: userId,
+        title: MIGRATED_PLAN_TITLE,
+        start_date: today,
+        end_date: today,
+        is_ai_generated: false,
+        created_at: new Date().toISOString(),
+      });
+      plans.push(plan);
+    }
+
+    const batch = writeBatch(db);
+    itemsFromLegacy(userId, plan.id, tasks).forEach((item) => batch.set(doc(db, ITEMS, item.id), item));
+    tasks.forEach((task) => batch.delete(doc(db, PLANS, task.id)));
+    await batch.commit();
+  };
+
+  return {
+    async listPlans(userId) {
+      const snapshot = await getDocs(firestoreQuery(collection(db, PLANS), where("user_id", "==", userId)));
+      const plans: StudyPlan[] = [];
+      const legacy: LegacyStudyTask[] = [];
+      snapshot.forEach((planDoc) => {
+        const data = planDoc.data();
+        if (isLegacyTask(data)) {
+          legacy.push({ ...(data as Omit<LegacyStudyTask, "id">), id: planDoc.id });
+        } else {
+          plans.push({ ...(data as StudyPlan), id: planDoc.id });
+        }
+      });
+
+      if (legacy.length > 0) {
+        await migrateLegacyTasks(userId, plans, legacy);
+      }
+      return plans;
+    },
+
+    createPlan,
+
+    async updatePlan(id, changes) {
+      await updateDoc(doc(db, PLANS, id), removalsAsDeleteField(changes));
+    },
+
+    async listItems(userId) {
+      const snapshot = await getDocs(firestoreQuery(collection(db, ITEMS), where("user_id", "==", userId)));
+      return snapshot.docs.map((itemDoc) => ({ ...(itemDoc.data() as StudyPlanItem), id: itemDoc.id }));
+    },
+
+    async createItems(newItems) {
+      const batch = writeBatch(db);
+      const items = newItems.map((newItem) => {
+        const itemRef = doc(collection(db, ITEMS));
+        const item = withoutUndefined<StudyPlanItem>({ ...newItem, id: itemRef.id });
+        batch.set(itemRef, item);
+        return item;
+      });
+      await batch.commit();
+      return items;
+    },
+
+    async updateItems(changes) {
+      const batch = writeBatch(db);
+      changes.forEach((change) => batch.update(doc(db, ITEMS, change.id), removalsAsDeleteField(change.changes)));
+      await batch.commit();
+    },
+
+    async removeItems(ids) {
+      const batch = writeBatch(db);
+      ids.forEach((id) => batch.delete(doc(db, ITEMS, id)));
+      await batch.commit();
+    },
+  };
+}
+
+function firestoreAICourses(): AICourseRepository {
+  return {
+    async listByUser(userId) {
+      const snapshot = await getDocs(firestoreQuery(collection(db, AI_COURSES), where("user_id", "==", userId)));
+      return snapshot.docs.map((courseDoc) => ({ ...(courseDoc.data() as AIGeneratedCourse), id: courseDoc.id }));
+    },
+    async create(course) {
+      const courseRef = await addDoc(collection(db, AI_COURSES), withoutUndefined(course));
+      return { ...course, id: courseRef.id };
+    },
+    async update(id, changes) {
+      await updateDoc(doc(db, AI_COURSES, id), removalsAsDeleteField(changes));
+    },
+  };
+}
+
+function realtimeModeration(): ModerationRepository {
+  const reports = realtimeCollection<ForumReport>("forum_reports");
+  const log = realtimeCollection<ModerationLogEntry>("moderation_log");
+  const sanctions = realtimeCollection<UserSanction>("user_sanctions");
+
+  return {
+    getAssignments: async (userId) =>
+      Object.keys((await get(ref(database, `moderator_assignments/${userId}`))).val() || {}),
+    async saveAssignments(userId, courseIds) {
+      const assignments = Object.fromEntries(courseIds.map((courseId) => [courseId, true]));
+      await set(ref(database, `moderator_assignments/${userId}`), courseIds.length > 0 ? assignments : null);
+    },
+    subscribeReportsByCourse: (courseId, callback) => reports.subscribeBy("course_id", courseId, callback),
+    subscribeLogByCourse: (courseId, callback) => log.subscribeBy("course_id", courseId, callback),
+    subscribeSanctionsByCourse: (courseId, callback) => sanctions.subscribeBy("course_id", courseId, callback),
+    subscribeMutesByCourse: (courseId, callback) =>
+      onValue(ref(database, `forum_mutes/${courseId}`), (snapshot) => callback(snapshot.val() || {})),
+    async apply(changes) {
+      const entry = withoutUndefined<ModerationLogEntry>({ ...changes.log, id: log.newId() });
+      const updates: Record<string, unknown> = { [`moderation_log/${entry.id}`]: entry };
+
+      if (changes.post) {
+        const path = changes.post.type === "thread" ? "forum_threads" : "forum_comments";
+        Object.assign(updates, changePaths(`${path}/${changes.post.id}`, changes.post.changes));
+      }
+      let sanctionId: string | undefined;
+      if (changes.sanction) {
+        sanctionId = sanctions.newId();
+        updates[`user_sanctions/${sanctionId}`] = withoutUndefined({ ...changes.sanction, id: sanctionId });
+      }
+      if (changes.mute) {
+        const { user_id, until } = changes.mute;
+        const mute: ActiveMute | null = until === null ? null : { until, sanction_id: sanctionId! };
+        updates[`forum_mutes/${entry.course_id}/${user_id}`] = mute;
+      }
+      if (changes.report) {
+        Object.assign(updates, changePaths(`forum_reports/${changes.report.id}`, changes.report.changes));
+      }
+
+      await update(ref(database), updates);
+      return entry;
+    },
+  };
+}
+
+export function createFirebaseRepositories(): Repositories {
+  const courses = realtimeCollection<Course>("courses");
+  const enrollments = realtimeCollection<Enrollment>("enrollments");
+  const assignments = realtimeCollection<Assignment>("assignments");
+  const submissions = realtimeCollection<Submission>("submissions", withLateness);
+  const attendance = realtimeCollection<AttendanceRecord>("attendance", normalizeAttendance);
+  const users = realtimeCollection<User>("users");
+  const accessCodes = realtimeCollection<AccessCode>("access_codes");
+  const joinRequests = realtimeCollection<JoinRequest>("join_requests");
+  const sessions = realtimeCollection<StoredAttendanceSession>("attendance_sessions");
+  const policies = realtimeValues<AttendancePolicy>("attendance_policies");
+  const threads = realtimeCollection<ForumThread>("forum_threads");
+  const comments = realtimeCollection<ForumComment>("forum_comments");
+  const sanctions = realtimeCollection<UserSanction>("user_sanctions");
+  const notifications = realtimeCollection<Notification>("notifications");
+  const preferences = realtimeValues<NotificationPreferences>("notification_preferences");
+  const gradebooks = realtimeValues<GradebookSettings>("gradebooks");
+  const overrides = realtimeValues<GradeOverride>("grade_overrides");
+  const checks = realtimeCollection<AIContentCheck>("ai_content_checks");
+  const connections = realtimeCollection<TeacherConnection>("teacher_connections");
+  const courseQuizzes = realtimeCollection<CourseQuiz>("course_quizzes");
+  const quizAttempts = realtimeCollection<CourseQuizAttempt>("course_quiz_attempts");
+  const rubrics = realtimeCollection<Rubric>("rubrics");
+  const practiceQuizzes = realtimeCollection<Quiz>("quizzes");
+  const practiceAttempts = realtimeCollection<QuizAttempt>("quiz_attempts");
+  const xp = realtimeCollection<UserXP>("user_xp");
+
+  return {
+    courses: {
+      ...courses,
+      listByInstructor: (instructorId) => courses.listBy("instructor_id", instructorId),
+      subscribeByInstructor: (instructorId, callback) => courses.subscribeBy("instructor_id", instructorId, callback),
+    },
+    enrollments: {
+      ...enrollments,
+      async create(enrollment) {
+        const id = enrollmentId(enrollment.course_id, enrollment.student_id);
+        const created = withoutUndefined<Enrollment>({ ...enrollment, id });
+        await set(ref(database, `enrollments/${id}`), created);
+        return created;
+      },
+      listByStudent: (studentId) => enrollments.listBy("student_id", studentId),
+      listByCourse: (courseId) => enrollments.listBy("course_id", courseId),
+      subscribeByCourse: (courseId, callback) => enrollments.subscribeBy("course_id", courseId, callback),
+      async find(studentId, courseId) {
+        const studentEnrollments = await enrollments.listBy("student_id", studentId);
+        return studentEnrollments.find((enrollment) => enrollment.course_id === courseId) || null;
+      },
+    },
+    assignments: {
+      ...assignments,
+      listByCourse: (courseId) => assignments.listBy("course_id", courseId),
+      subscribeByCourse: (courseId, callback) => assignments.subscribeBy("course_id", courseId, callback),
+      listByTeacher: (teacherId) => assignments.listBy("teacher_id", teacherId),
+      async save(assignment, hiddenTests) {
+        await assignments.save(assignment);
+        // Written once the assignment exists, since the rules look up its course
+        if (hiddenTests) {
+          await set(ref(database, `coding_tests/${assignment.id}`), hiddenTests);
+        }
+      },
+    },
+    submissions: {
+      ...submissions,
+      listByUser: (userId) => submissions.listBy("user_id", userId),
+      listByAssignment: (assignmentId) => submissions.listBy("assignment_id", assignmentId),
+      subscribeByAssignment: (assignmentId, callback) => submissions.subscribeBy("assignment_id", assignmentId, callback),
+      async find(userId, assignmentId) {
+        const userSubmissions = await submissions.listBy("user_id", userId);
+        return userSubmissions
+          .filter((submission) => submission.assignment_id === assignmentId)
+          .reduce<Submission | null>(
+            (latest, submission) => (!latest || submission.submitted_at > latest.submitted_at ? submission : latest),
+            null
+          );
+      },
+      async submit(submission) {
+        const submissionRef = push(ref(database, "submissions"));
+        await set(submissionRef, withoutUndefined({ ...submission, id: submissionRef.key!, submitted_at: serverTimestamp() }));
+        return (await submissions.get(submissionRef.key!))!;
+      },
+      async resubmit(id, changes) {
+        await update(ref(database, `submissions/${id}`), { ...removalsAsNull(changes), submitted_at: serverTimestamp() });
+        return (await submissions.get(id))!;
+      },
+      serverTime: () =>
+        new Promise<Date>((resolve) => {
+          onValue(
+            ref(database, ".info/serverTimeOffset"),
+            (snapshot) => resolve(new Date(Date.now() + (snapshot.val() || 0))),
+            { onlyOnce: true }
+          );
+        }),
+    },
+    attendance: {
+      ...attendance,
+      listByCourse: (courseId) => attendance.listBy("courseId", courseId),
+      listByStudent: (studentId) => attendance.listBy("student_id", studentId),
+      subscribeByCourse: (courseId, callback) => attendance.subscribeBy("courseId", courseId, callback),
+      subscribeByStudent: (studentId, callback) => attendance.subscribeBy("student_id", studentId, callback),
+    },
+    users: {
+      get: users.get,
+      list: users.list,
+      listByRole: (role) => users.listBy("role", role),
+      update: users.update,
+      remove: users.remove,
+      // The id is the record key, not a stored field. The rules require the
+      // database's time as joined_at.
+      async create({ id, ...user }) {
+        await set(ref(database, `users/${id}`), { ...withoutUndefined(user), joined_at: serverTimestamp() });
+      },
+    },
+    studyPlans: firestoreStudyPlans(),
+    accessCodes: {
+      ...accessCodes,
+      listByCourse: (courseId) => accessCodes.listBy("course_id", courseId),
+      subscribeByCourse: (courseId, callback) => accessCodes.subscribeBy("course_id", courseId, callback),
+      subscribeByTeacher: (teacherId, callback) => accessCodes.subscribeBy("teacher_id", teacherId, callback),
+      // The rules refuse a claim that is taken, without letting the teacher
+      // see whose code it is
+      async claim(code, teacherId) {
+        try {
+          await set(ref(database, `access_code_claims/${code}`), teacherId);
+          return true;
+        } catch {
+          return false;
+        }
+      },
+      async incrementUseCount(id) {
+        await runTransaction(ref(database, `access_codes/${id}/use_count`), (count) => (count || 0) + 1);
+      },
+      async updateMany(changes, course) {
+        await update(ref(database), {
+          ...Object.assign({}, ...changes.map((change) => changePaths(`access_codes/${change.id}`, change.changes))),
+          ...(course ? changePaths(`courses/${course.id}`, course.changes) : {}),
+        });
+      },
+    },
+    joinRequests: {
+      subscribeByCourse: (courseId, callback) => joinRequests.subscribeBy("course_id", courseId, callback),
+      update: joinRequests.update,
+    },
+    attendanceSessions: {
+      subscribeByCourse: (courseId, callback) => sessions.subscribeBy("course_id", courseId, callback),
+      subscribeCodes: (sessionId, callback) =>
+        onValue(ref(database, `attendance_session_tokens/${sessionId}`), (snapshot) =>
+          callback(snapshot.exists() ? { token: snapshot.val().token, previous_token: snapshot.val().previous_token } : null)
+        ),
+      async open(session, token) {
+        const sessionRef = push(ref(database, "attendance_sessions"));
+        const opened = withoutUndefined<StoredAttendanceSession>({ ...session, id: sessionRef.key! });
+        // The course lets the rules check that the teacher teaches it
+        await set(ref(database, `attendance_session_tokens/${opened.id}`), { course_id: session.course_id, token });
+        await set(sessionRef, opened);
+        return { ...opened, token };
+      },
+      async rotateCode(sessionId, codes, rotatedAt) {
+        await update(ref(database), {
+          ...changePaths(`attendance_session_tokens/${sessionId}`, codes),
+          [`attendance_sessions/${sessionId}/token_rotated_at`]: rotatedAt,
+        });
+      },
+      async close(sessionId, closedAt) {
+        await update(ref(database), {
+          [`attendance_sessions/${sessionId}/status`]: "closed",
+          [`attendance_sessions/${sessionId}/closed_at`]: closedAt,
+          [`attendance_session_tokens/${sessionId}`]: null,
+        });
+      },
+    },
+    attendancePolicies: {
+      get: policies.get,
+      subscribe: policies.subscribe,
+      save: policies.set,
+    },
+    forum: {
+      getPost: (type, id) => (type === "thread" ? threads.get(id) : comments.get(id)),
+      subscribeThreadsByCourse: (courseId, callback) => threads.subscribeBy("course_id", courseId, callback),
+      subscribeCommentsByThread: (threadId, callback) => comments.subscribeBy("thread_id", threadId, callback),
+      subscribeVisibleThreads: (courseId, authorId, callback) =>
+        subscribeVisibleAndOwn(threads, courseId, authorId, (thread) => thread.course_id === courseId, callback),
+      subscribeVisibleComments: (threadId, authorId, callback) =>
+        subscribeVisibleAndOwn(comments, threadId, authorId, (comment) => comment.thread_id === threadId, callback),
+      createThread: threads.create,
+      createComment: comments.create,
+      async createReport(report) {
+        const id = forumReportId(report.target_id, report.reporter_id);
+        const reportRef = ref(database, `forum_reports/${id}`);
+        if ((await get(reportRef)).exists()) {
+          return false;
+        }
+        await set(reportRef, withoutUndefined({ ...report, id }));
+        return true;
+      },
+      subscribeMute: (courseId, userId, callback) =>
+        onValue(ref(database, `forum_mutes/${courseId}/${userId}`), (snapshot) => callback(snapshot.val())),
+      subscribeSanctionsByUser: (userId, callback) => sanctions.subscribeBy("user_id", userId, callback),
+      updateSanction: sanctions.update,
+    },
+    notifications: {
+      get: notifications.get,
+      subscribeByUser: (userId, callback) => notifications.subscribeBy("user_id", userId, callback),
+      // The rules require the database's time as sent_at, which the server
+      // emails notifications in the order of
+      async create(notification) {
+        const notificationRef = push(ref(database, "notifications"));
+        const created = withoutUndefined({ ...notification, id: notificationRef.key! });
+        await set(notificationRef, { ...created, sent_at: serverTimestamp() });
+        return created;
+      },
+      async save(notification) {
+        await set(ref(database, `notifications/${notification.id}`), {
+          ...withoutUndefined(notification),
+          sent_at: serverTimestamp(),
+        });
+      },
+      async markRead(ids) {
+        if (ids.length === 0) return;
+        await update(ref(database), Object.fromEntries(ids.map((id) => [`notifications/${id}/read`, true])));
+      },
+      getSettings: async () => (await get(ref(database, NOTIFICATION_SETTINGS))).val(),
+      subscribeSettings: (callback) =>
+        onValue(ref(database, NOTIFICATION_SETTINGS), (snapshot) => callback(snapshot.val())),
+      async saveSettings(settings) {
+        await set(ref(database, NOTIFICATION_SETTINGS), withoutUndefined(settings));
+      },
+      getPreferences: async (userId) => (await preferences.get(userId)) || {},
+      subscribePreferences: (userId, callback) => preferences.subscribe(userId, (value) => callback(value || {})),
+      savePreferences: preferences.set,
+    },
+    gradebooks: {
+      getSettings: gradebooks.get,
+      subscribeSettings: gradebooks.subscribe,
+      saveSettings: gradebooks.set,
+      getCourseOverrides: async (courseId) => (await get(ref(database, `grade_overrides/${courseId}`))).val() || {},
+      getStudentOverrides: async (courseId, studentId) =>
+        (await get(ref(database, `grade_overrides/${courseId}/${studentId}`))).val() || {},
+      subscribeCourseOverrides: (courseId, callback) =>
+        onValue(ref(database, `grade_overrides/${courseId}`), (snapshot) => callback(snapshot.val() || {})),
+      saveOverride: (key, override) => overrides.set(`${override.course_id}/${override.student_id}/${key}`, override),
+      removeOverride: (courseId, studentId, key) => overrides.remove(`${courseId}/${studentId}/${key}`),
+    },
+    contentChecks: {
+      async save(check) {
+        await set(ref(database, `ai_content_checks/${check.id}`), withoutUndefined(check));
+      },
+      subscribeByCourse: (courseId, callback) =>
+        checks.subscribeBy("course_id", courseId, (courseChecks) =>
+          callback(Object.fromEntries(courseChecks.map((check) => [check.id, check])))
+        ),
+    },
+    aiCourses: firestoreAICourses(),
+    calendarFeeds: {
+      async get(userId) {
+        const snapshot = await getDoc(doc(db, CALENDAR_FEEDS, userId));
+        return snapshot.exists() ? (snapshot.data() as CalendarFeed) : null;
+      },
+      async save(userId, feed) {
+        await setDoc(doc(db, CALENDAR_FEEDS, userId), feed);
+      },
+      async remove(userId) {
+        await deleteDoc(doc(db, CALENDAR_FEEDS, userId));
+      },
+    },
+    teacherConnections: {
+      subscribeByStudent: (studentId, callback) => connections.subscribeBy("student_id", studentId, callback),
+    },
+    moderation: realtimeModeration(),
+    questionBanks: {
+      // Banks are stored per course, keyed by question id
+      subscribeByCourse: (courseId, callback) =>
+        onValue(ref(database, `question_banks/${courseId}`), (snapshot) => {
+          const questions: BankQuestion[] = [];
+          snapshot.forEach((childSnapshot) => {
+            questions.push({ ...childSnapshot.val(), id: childSnapshot.key! });
+          });
+          callback(questions);
+        }),
+      async create(question) {
+        const questionRef = push(ref(database, `question_banks/${question.course_id}`));
+        const created = withoutUndefined<BankQuestion>({ ...question, id: questionRef.key! });
+        await set(questionRef, created);
+        return created;
+      },
+      async save(question) {
+        await set(ref(database, `question_banks/${question.course_id}/${question.id}`), withoutUndefined(question));
+      },
+      async remove(courseId, id) {
+        await remove(ref(database, `question_banks/${courseId}/${id}`));
+      },
+    },
+    courseQuizzes: {
+      newId: courseQuizzes.newId,
+      save: courseQuizzes.save,
+      update: courseQuizzes.update,
+      subscribeByCourse: (courseId, callback) => courseQuizzes.subscribeBy("course_id", courseId, callback),
+      subscribeAttemptsByCourse: (courseId, callback) => quizAttempts.subscribeBy("course_id", courseId, callback),
+    },
+    rubrics: {
+      get: rubrics.get,
+      subscribeByTeacher: (teacherId, callback) => rubrics.subscribeBy("teacher_id", teacherId, callback),
+      create: rubrics.create,
+      save: rubrics.save,
+    },
+    practiceQuizzes: {
+      create: practiceQuizzes.create,
+      subscribeByUser: (userId, callback) => practiceQuizzes.subscribeBy("user_id", userId, callback),
+      subscribeAttemptsByUser: (userId, callback) => practiceAttempts.subscribeBy("user_id", userId, callback),
+      listXPByUser: (userId) => xp.listBy("user_id", userId),
+    },
+  };
+}
@@ -0,0 +1,21 @@
+import { createFirebaseRepositories } from "./firebase";
+import { Repositories } from "./types";
+
+export * from "./types";
+export { createFirebaseRepositories } from "./firebase";
+export { createMemoryRepositories, type MemorySeed } from "./memory";
+
+let active: Repositories | null = null;
+
+// Firebase unless another backend was installed with `setRepositories`
+export function getRepositories(): Repositories {
+  if (!active) {
+    active = createFirebaseRepositories();
+  }
+  return active;
+}
+
+// Swaps the backend used by the whole app, e.g. for an in-memory one in tests
+export function setRepositories(repositories: Repositories) {
+  active = repositories;
+}
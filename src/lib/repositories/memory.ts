@@ -0,0 +1,544 @@
+import { v4 as uuidv4 } from "uuid";
+import {
+  AIContentCheck,
+  AccessCode,
+  ActiveMute,
+  Assignment,
+  AttendancePolicy,
+  AttendanceRecord,
+  BankQuestion,
+  CalendarFeed,
+  CodeTestCase,
+  Course,
+  CourseQuiz,
+  CourseQuizAttempt,
+  Enrollment,
+  ForumComment,
+  ForumReport,
+  ForumThread,
+  GradeOverride,
+  GradebookSettings,
+  JoinRequest,
+  ModerationLogEntry,
+  Notification,
+  NotificationPreferences,
+  NotificationSettings,
+  Rubric,
+  StudyPlan,
+  StudyPlanItem,
+  Submission,
+  TeacherConnection,
+  User,
+  UserSanction,
+  UserXP,
+} from "@/lib/types";
+import { AIGeneratedCourse } from "@/components/student/types/ai-course-types";
+import { Quiz, QuizAttempt } from "@/components/student/types/quiz-types";
+import {
+  NewRecord,
+  RecordChanges,
+  Repositories,
+  SessionCodes,
+  StoredAttendanceSession,
+  Unsubscribe,
+  enrollmentId,
+  forumReportId,
+  withLateness,
+} from "./types";
+
+// Keeps everything in process memory, for tests and local prototyping. Records
+// are copied on the way in and out, so callers cannot change stored state by
+// mutating what they got back.
+
+export interface MemorySeed {
+  courses: Course[];
+  enrollments: Enrollment[];
+  assignments: Assignment[];
+  submissions: Submission[];
+  attendance: AttendanceRecord[];
+  users: User[];
+  studyPlans: StudyPlan[];
+  studyPlanItems: StudyPlanItem[];
+  accessCodes: AccessCode[];
+  joinRequests: JoinRequest[];
+  attendanceSessions: StoredAttendanceSession[];
+  forumThreads: ForumThread[];
+  forumComments: ForumComment[];
+  forumReports: ForumReport[];
+  userSanctions: UserSanction[];
+  notifications: Notification[];
+  contentChecks: AIContentCheck[];
+  aiCourses: AIGeneratedCourse[];
+  teacherConnections: TeacherConnection[];
+  moderationLog: ModerationLogEntry[];
+  bankQuestions: BankQuestion[];
+  courseQuizzes: CourseQuiz[];
+  courseQuizAttempts: CourseQuizAttempt[];
+  rubrics: Rubric[];
+  practiceQuizzes: Quiz[];
+  practiceQuizAttempts: QuizAttempt[];
+  userXP: UserXP[];
+}
+
+const copy = <T>(value: T): T => structuredClone(value);
+
+function memoryCollection<T extends { id: string }>(seed: T[] = [], normalize: (record: T) => T = (record) => record) {
+  const records = new Map(seed.map((record) => [record.id, copy(record)]));
+  const listeners = new Set<() => void>();
+
+  const read = (record: T) => normalize(copy(record));
+  const filter = (predicate: (record: T) => boolean) => [...records.values()].filter(predicate).map(read);
+  const notify = () => listeners.forEach((listener) => listener());
+
+  const applyChanges = (id: string, changes: RecordChanges<T>) => {
+    const record = records.get(id);
+    if (!record) {
+      throw new Error(`No record with id ${id}`);
+    }
+    const updated: Record<string, unknown> = { ...record };
+    Object.entries(changes).forEach(([key, value]) => {
+      if (value === undefined) {
+        delete updated[key];
+      } else {
+        updated[key] = copy(value);
+      }
+    });
+    records.set(id, updated as T);
+  };
+
+  return {
+    async get(id: string) {
+      const record = records.get(id);
+      return record ? read(record) : null;
+    },
+    async list() {
+      return filter(() => true);
+    },
+    filter,
+    subscribeWhere(predicate: (record: T) => boolean, callback: (records: T[]) => void): Unsubscribe {
+      const listener = () => callback(filter(predicate));
+      listeners.add(listener);
+      listener();
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    subscribe(id: string, callback: (record: T | null) => void): Unsubscribe {
+      const listener = () => callback(records.has(id) ? read(records.get(id)!) : null);
+      listeners.add(listener);
+      listener();
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    newId: () => uuidv4(),
+    async create(record: NewRecord<T>) {
+      const created = { ...copy(record), id: uuidv4() } as T;
+      records.set(created.id, created);
+      notify();
+      return read(created);
+    },
+    async createMany(newRecords: NewRecord<T>[]) {
+      const created = newRecords.map((record) => ({ ...copy(record), id: uuidv4() }) as T);
+      created.forEach((record) => records.set(record.id, record));
+      notify();
+      return created.map(read);
+    },
+    async save(record: T) {
+      records.set(record.id, copy(record));
+      notify();
+    },
+    async update(id: string, changes: RecordChanges<T>) {
+      applyChanges(id, changes);
+      notify();
+    },
+    // Validates every id before changing anything, like a batched write
+    async updateMany(changes: { id: string; changes: RecordChanges<T> }[]) {
+      const missing = changes.find((change) => !records.has(change.id));
+      if (missing) {
+        throw new Error(`No record with id ${missing.id}`);
+      }
+      changes.forEach((change) => applyChanges(change.id, change.changes));
+      notify();
+    },
+    async remove(id: string) {
+      records.delete(id);
+      notify();
+    },
+    async removeMany(ids: string[]) {
+      ids.forEach((id) => records.delete(id));
+      notify();
+    },
+  };
+}
+
+// Records stored under a key of their own, like per-course settings
+function memoryValues<T>() {
+  const values = new Map<string, T>();
+  const listeners = new Set<() => void>();
+
+  const read = (key: string) => (values.has(key) ? copy(values.get(key)!) : null);
+
+  return {
+    async get(key: string) {
+      return read(key);
+    },
+    // Every stored value whose key starts with `prefix/`, by the rest of the key
+    entries(prefix: string) {
+      return [...values.entries()]
+        .filter(([key]) => key.startsWith(`${prefix}/`))
+        .map(([key, value]) => [key.slice(prefix.length + 1), copy(value)] as const);
+    },
+    subscribe<V>(select: () => V, callback: (value: V) => void): Unsubscribe {
+      const listener = () => callback(select());
+      listeners.add(listener);
+      listener();
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    read,
+    async set(key: string, value: T) {
+      values.set(key, copy(value));
+      listeners.forEach((listener) => listener());
+    },
+    async remove(key: string) {
+      values.delete(key);
+      listeners.forEach((listener) => listener());
+    },
+  };
+}
+
+export function createMemoryRepositories(seed: Partial<MemorySeed> = {}): Repositories {
+  const courses = memoryCollection(seed.courses);
+  const enrollments = memoryCollection(seed.enrollments);
+  const assignments = memoryCollection(seed.assignments);
+  const submissions = memoryCollection(seed.submissions, withLateness);
+  const attendance = memoryCollection(seed.attendance);
+  const users = memoryCollection(seed.users);
+  const plans = memoryCollection(seed.studyPlans);
+  const items = memoryCollection(seed.studyPlanItems);
+  const accessCodes = memoryCollection(seed.accessCodes);
+  const claims = memoryValues<string>();
+  const joinRequests = memoryCollection(seed.joinRequests);
+  const sessions = memoryCollection(seed.attendanceSessions);
+  const sessionCodes = memoryValues<SessionCodes>();
+  const policies = memoryValues<AttendancePolicy>();
+  const threads = memoryCollection(seed.forumThreads);
+  const comments = memoryCollection(seed.forumComments);
+  const reports = memoryCollection(seed.forumReports);
+  const mutes = memoryValues<ActiveMute>();
+  const sanctions = memoryCollection(seed.userSanctions);
+  const notifications = memoryCollection(seed.notifications);
+  const notificationSettings = memoryValues<NotificationSettings>();
+  const preferences = memoryValues<NotificationPreferences>();
+  const gradebooks = memoryValues<GradebookSettings>();
+  const overrides = memoryValues<GradeOverride>();
+  const checks = memoryCollection(seed.contentChecks);
+  const aiCourses = memoryCollection(seed.aiCourses);
+  const calendarFeeds = memoryValues<CalendarFeed>();
+  const connections = memoryCollection(seed.teacherConnections);
+  const moderatorAssignments = memoryValues<string[]>();
+  const moderationLog = memoryCollection(seed.moderationLog);
+  const bankQuestions = memoryCollection(seed.bankQuestions);
+  const courseQuizzes = memoryCollection(seed.courseQuizzes);
+  const courseQuizAttempts = memoryCollection(seed.courseQuizAttempts);
+  const rubrics = memoryCollection(seed.rubrics);
+  const practiceQuizzes = memoryCollection(seed.practiceQuizzes);
+  const practiceAttempts = memoryCollection(seed.practiceQuizAttempts);
+  const xp = memoryCollection(seed.userXP);
+  const hiddenTests = memoryValues<Record<string, CodeTestCase>>();
+
+  // Overrides by student, then by key
+  const courseOverrides = (courseId: string) => {
+    const byStudent: Record<string, Record<string, GradeOverride>> = {};
+    overrides.entries(courseId).forEach(([key, override]) => {
+      const [studentId, overrideKey] = key.split("/");
+      byStudent[studentId] = { ...byStudent[studentId], [overrideKey]: override };
+    });
+    return byStudent;
+  };
+
+  return {
+    courses: {
+      ...courses,
+      listByInstructor: async (instructorId) => courses.filter((course) => course.instructor_id === instructorId),
+      subscribeByInstructor: (instructorId, callback) =>
+        courses.subscribeWhere((course) => course.instructor_id === instructorId, callback),
+    },
+    enrollments: {
+      ...enrollments,
+      async create(enrollment) {
+        const created = { ...enrollment, id: enrollmentId(enrollment.course_id, enrollment.student_id) };
+        await enrollments.save(created);
+        return created;
+      },
+      listByStudent: async (studentId) => enrollments.filter((enrollment) => enrollment.student_id === studentId),
+      listByCourse: async (courseId) => enrollments.filter((enrollment) => enrollment.course_id === courseId),
+      subscribeByCourse: (courseId, callback) =>
+        enrollments.subscribeWhere((enrollment) => enrollment.course_id === courseId, callback),
+      find: async (studentId, courseId) =>
+        enrollments.filter((enrollment) => enrollment.student_id === studentId && enrollment.course_id === courseId)[0] ||
+        null,
+    },
+    assignments: {
+      ...assignments,
+      listByCourse: async (courseId) => assignments.filter((assignment) => assignment.course_id === courseId),
+      subscribeByCourse: (courseId, callback) =>
+        assignments.subscribeWhere((assignment) => assignment.course_id === courseId, callback),
+      listByTeacher: async (teacherId) => assignments.filter((assignment) => assignment.teacher_id === teacherId),
+      async save(assignment, tests) {
+        await assignments.save(assignment);
+        if (tests) {
+          await hiddenTests.set(assignment.id, tests);
+        }
+      },
+    },
+    submissions: {
+      ...submissions,
+      listByUser: async (userId) => submissions.filter((submission) => submission.user_id === userId),
+      listByAssignment: async (assignmentId) =>
+        submissions.filter((submission) => submission.assignment_id === assignmentId),
+      subscribeByAssignment: (assignmentId, callback) =>
+        submissions.subscribeWhere((submission) => submission.assignment_id === assignmentId, callback),
+      find: async (userId, assignmentId) =>
+        submissions
+          .filter((submission) => submission.user_id === userId && submission.assignment_id === assignmentId)
+          .reduce<Submission | null>(
+            (latest, submission) => (!latest || submission.submitted_at > latest.submitted_at ? submission : latest),
+            null
+          ),
+      submit: (submission) => submissions.create({ ...submission, submitted_at: Date.now() }),
+      async resubmit(id, changes) {
+        await submissions.update(id, { ...changes, submitted_at: Date.now() });
+        return (await submissions.get(id))!;
+      },
+      serverTime: async () => new Date(),
+    },
+    attendance: {
+      ...attendance,
+      listByCourse: async (courseId) => attendance.filter((record) => record.courseId === courseId),
+      listByStudent: async (studentId) => attendance.filter((record) => record.student_id === studentId),
+      subscribeByCourse: (courseId, callback) => attendance.subscribeWhere((record) => record.courseId === courseId, callback),
+      subscribeByStudent: (studentId, callback) =>
+        attendance.subscribeWhere((record) => record.student_id === studentId, callback),
+    },
+    users: {
+      get: users.get,
+      list: users.list,
+      listByRole: async (role) => users.filter((user) => user.role === role),
+      create: (user) => users.save({ ...user, joined_at: Date.now() }),
+      update: users.update,
+      remove: users.remove,
+    },
+    studyPlans: {
+      listPlans: async (userId) => plans.filter((plan) => plan.user_id === userId),
+      createPlan: plans.create,
+      updatePlan: plans.update,
+      listItems: async (userId) => items.filter((item) => item.user_id === userId),
+      createItems: items.createMany,
+      updateItems: items.updateMany,
+      removeItems: items.removeMany,
+    },
+    accessCodes: {
+      ...accessCodes,
+      listByCourse: async (courseId) => accessCodes.filter((code) => code.course_id === courseId),
+      subscribeByCourse: (courseId, callback) => accessCodes.subscribeWhere((code) => code.course_id === courseId, callback),
+      subscribeByTeacher: (teacherId, callback) =>
+        accessCodes.subscribeWhere((code) => code.teacher_id === teacherId, callback),
+      async claim(code, teacherId) {
+        if (claims.read(code) !== null) return false;
+        await claims.set(code, teacherId);
+        return true;
+      },
+      async incrementUseCount(id) {
+        const code = await accessCodes.get(id);
+        await accessCodes.update(id, { use_count: (code?.use_count || 0) + 1 });
+      },
+      async updateMany(changes, course) {
+        if (course && !(await courses.get(course.id))) {
+          throw new Error(`No record with id ${course.id}`);
+        }
+        await accessCodes.updateMany(changes);
+        if (course) {
+          await courses.update(course.id, course.changes);
+        }
+      },
+    },
+    joinRequests: {
+      subscribeByCourse: (courseId, callback) =>
+        joinRequests.subscribeWhere((request) => request.course_id === courseId, callback),
+      update: joinRequests.update,
+    },
+    attendanceSessions: {
+      subscribeByCourse: (courseId, callback) => sessions.subscribeWhere((session) => session.course_id === courseId, callback),
+      subscribeCodes: (sessionId, callback) => sessionCodes.subscribe(() => sessionCodes.read(sessionId), callback),
+      async open(session, token) {
+        const opened = await sessions.create(session);
+        await sessionCodes.set(opened.id, { token });
+        return { ...opened, token };
+      },
+      async rotateCode(sessionId, codes, rotatedAt) {
+        await sessions.update(sessionId, { token_rotated_at: rotatedAt });
+        await sessionCodes.set(sessionId, codes);
+      },
+      async close(sessionId, closedAt) {
+        await sessions.update(sessionId, { status: "closed", closed_at: closedAt });
+        await sessionCodes.remove(sessionId);
+      },
+    },
+    attendancePolicies: {
+      get: policies.get,
+      subscribe: (courseId, callback) => policies.subscribe(() => policies.read(courseId), callback),
+      save: policies.set,
+    },
+    forum: {
+      getPost: (type, id) => (type === "thread" ? threads.get(id) : comments.get(id)),
+      subscribeThreadsByCourse: (courseId, callback) =>
+        threads.subscribeWhere((thread) => thread.course_id === courseId, callback),
+      subscribeCommentsByThread: (threadId, callback) =>
+        comments.subscribeWhere((comment) => comment.thread_id === threadId, callback),
+      subscribeVisibleThreads: (courseId, authorId, callback) =>
+        threads.subscribeWhere(
+          (thread) => thread.course_id === courseId && (thread.status === "visible" || thread.author_id === authorId),
+          callback
+        ),
+      subscribeVisibleComments: (threadId, authorId, callback) =>
+        comments.subscribeWhere(
+          (comment) => comment.thread_id === threadId && (comment.status === "visible" || comment.author_id === authorId),
+          callback
+        ),
+      createThread: threads.create,
+      createComment: comments.create,
+      async createReport(report) {
+        const id = forumReportId(report.target_id, report.reporter_id);
+        if (await reports.get(id)) return false;
+        await reports.save({ ...report, id });
+        return true;
+      },
+      subscribeMute: (courseId, userId, callback) =>
+        mutes.subscribe(() => mutes.read(`${courseId}/${userId}`), callback),
+      subscribeSanctionsByUser: (userId, callback) =>
+        sanctions.subscribeWhere((sanction) => sanction.user_id === userId, callback),
+      updateSanction: sanctions.update,
+    },
+    notifications: {
+      get: notifications.get,
+      subscribeByUser: (userId, callback) =>
+        notifications.subscribeWhere((notification) => notification.user_id === userId, callback),
+      create: (notification) => notifications.create({ ...notification, sent_at: Date.now() }),
+      save: (notification) => notifications.save({ ...notification, sent_at: Date.now() }),
+      markRead: (ids) => notifications.updateMany(ids.map((id) => ({ id, changes: { read: true } }))),
+      getSettings: () => notificationSettings.get("notifications"),
+      subscribeSettings: (callback) =>
+        notificationSettings.subscribe(() => notificationSettings.read("notifications"), callback),
+      saveSettings: (settings) => notificationSettings.set("notifications", settings),
+      getPreferences: async (userId) => preferences.read(userId) || {},
+      subscribePreferences: (userId, callback) => preferences.subscribe(() => preferences.read(userId) || {}, callback),
+      savePreferences: preferences.set,
+    },
+    gradebooks: {
+      getSettings: gradebooks.get,
+      subscribeSettings: (courseId, callback) => gradebooks.subscribe(() => gradebooks.read(courseId), callback),
+      saveSettings: gradebooks.set,
+      getCourseOverrides: async (courseId) => courseOverrides(courseId),
+      getStudentOverrides: async (courseId, studentId) => courseOverrides(courseId)[studentId] || {},
+      subscribeCourseOverrides: (courseId, callback) => overrides.subscribe(() => courseOverrides(courseId), callback),
+      saveOverride: (key, override) => overrides.set(`${override.course_id}/${override.student_id}/${key}`, override),
+      removeOverride: (courseId, studentId, key) => overrides.remove(`${courseId}/${studentId}/${key}`),
+    },
+    contentChecks: {
+      save: checks.save,
+      subscribeByCourse: (courseId, callback) =>
+        checks.subscribeWhere(
+          (check) => check.course_id === courseId,
+          (courseChecks) => callback(Object.fromEntries(courseChecks.map((check) => [check.id, check])))
+        ),
+    },
+    aiCourses: {
+      listByUser: async (userId) => aiCourses.filter((course) => course.user_id === userId),
+      create: aiCourses.create,
+      update: aiCourses.update,
+    },
+    calendarFeeds: {
+      get: calendarFeeds.get,
+      save: calendarFeeds.set,
+      remove: calendarFeeds.remove,
+    },
+    teacherConnections: {
+      subscribeByStudent: (studentId, callback) =>
+        connections.subscribeWhere((connection) => connection.student_id === studentId, callback),
+    },
+    moderation: {
+      getAssignments: async (userId) => moderatorAssignments.read(userId) || [],
+      saveAssignments: (userId, courseIds) =>
+        courseIds.length > 0 ? moderatorAssignments.set(userId, courseIds) : moderatorAssignments.remove(userId),
+      subscribeReportsByCourse: (courseId, callback) =>
+        reports.subscribeWhere((report) => report.course_id === courseId, callback),
+      subscribeLogByCourse: (courseId, callback) =>
+        moderationLog.subscribeWhere((entry) => entry.course_id === courseId, callback),
+      subscribeSanctionsByCourse: (courseId, callback) =>
+        sanctions.subscribeWhere((sanction) => sanction.course_id === courseId, callback),
+      subscribeMutesByCourse: (courseId, callback) =>
+        mutes.subscribe(() => Object.fromEntries(mutes.entries(courseId)), callback),
+      // Checks the post and report exist before changing anything, like the
+      // atomic update would fail as a whole
+      async apply(changes) {
+        const posts = changes.post?.type === "thread" ? threads : comments;
+        if (changes.post && !(await posts.get(changes.post.id))) {
+          throw new Error(`No record with id ${changes.post.id}`);
+        }
+        if (changes.report && !(await reports.get(changes.report.id))) {
+          throw new Error(`No record with id ${changes.report.id}`);
+        }
+
+        if (changes.post) {
+          await posts.update(changes.post.id, changes.post.changes);
+        }
+        const sanction = changes.sanction ? await sanctions.create(changes.sanction) : null;
+        if (changes.mute) {
+          const key = `${changes.log.course_id}/${changes.mute.user_id}`;
+          if (changes.mute.until === null) {
+            await mutes.remove(key);
+          } else {
+            await mutes.set(key, { until: changes.mute.until, sanction_id: sanction!.id });
+          }
+        }
+        if (changes.report) {
+          await reports.update(changes.report.id, changes.report.changes);
+        }
+        return moderationLog.create(changes.log);
+      },
+    },
+    questionBanks: {
+      subscribeByCourse: (courseId, callback) =>
+        bankQuestions.subscribeWhere((question) => question.course_id === courseId, callback),
+      create: bankQuestions.create,
+      save: bankQuestions.save,
+      remove: (courseId, id) => bankQuestions.remove(id),
+    },
+    courseQuizzes: {
+      newId: courseQuizzes.newId,
+      save: courseQuizzes.save,
+      update: courseQuizzes.update,
+      subscribeByCourse: (courseId, callback) =>
+        courseQuizzes.subscribeWhere((quiz) => quiz.course_id === courseId, callback),
+      subscribeAttemptsByCourse: (courseId, callback) =>
+        courseQuizAttempts.subscribeWhere((attempt) => attempt.course_id === courseId, callback),
+    },
+    rubrics: {
+      get: rubrics.get,
+      subscribeByTeacher: (teacherId, callback) =>
+        rubrics.subscribeWhere((rubric) => rubric.teacher_id === teacherId, callback),
+      create: rubrics.create,
+      save: rubrics.save,
+    },
+    practiceQuizzes: {
+      create: practiceQuizzes.create,
+      subscribeByUser: (userId, callback) => practiceQuizzes.subscribeWhere((quiz) => quiz.user_id === userId, callback),
+      subscribeAttemptsByUser: (userId, callback) =>
+        practiceAttempts.subscribeWhere((attempt) => attempt.user_id === userId, callback),
+      listXPByUser: async (userId) => xp.filter((entry) => entry.user_id === userId),
+    },
+  };
+}
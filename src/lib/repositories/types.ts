@@ -0,0 +1,356 @@
+import {
+  AIContentCheck,
+  AccessCode,
+  ActiveMute,
+  Assignment,
+  AttendancePolicy,
+  AttendanceRecord,
+  AttendanceSession,
+  BankQuestion,
+  CalendarFeed,
+  CodeTestCase,
+  Course,
+  CourseOverrides,
+  CourseQuiz,
+  CourseQuizAttempt,
+  Enrollment,
+  ForumComment,
+  ForumReport,
+  ForumTargetType,
+  ForumThread,
+  GradeOverride,
+  GradebookSettings,
+  JoinRequest,
+  ModerationLogEntry,
+  Notification,
+  NotificationPreferences,
+  NotificationSettings,
+  Rubric,
+  StudyPlan,
+  StudyPlanItem,
+  Submission,
+  TeacherConnection,
+  User,
+  UserRole,
+  UserSanction,
+  UserXP,
+} from "@/lib/types";
+import { AIGeneratedCourse } from "@/components/student/types/ai-course-types";
+import { Quiz, QuizAttempt } from "@/components/student/types/quiz-types";
+
+// Storage-independent access to the app's records. Every backend returns the
+// shapes declared in `@/lib/types`, with `id` always set from the record key.
+
+export type Unsubscribe = () => void;
+
+export type NewRecord<T extends { id: string }> = Omit<T, "id">;
+
+// Fields set to undefined are removed from the stored record
+export type RecordChanges<T extends { id: string }> = Partial<NewRecord<T>>;
+
+export interface CrudRepository<T extends { id: string }> {
+  get(id: string): Promise<T | null>;
+  create(record: NewRecord<T>): Promise<T>;
+  update(id: string, changes: RecordChanges<T>): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+export interface CourseRepository extends CrudRepository<Course> {
+  list(): Promise<Course[]>;
+  listByInstructor(instructorId: string): Promise<Course[]>;
+  // Called with null while the course does not exist
+  subscribe(id: string, callback: (course: Course | null) => void): Unsubscribe;
+  subscribeByInstructor(instructorId: string, callback: (courses: Course[]) => void): Unsubscribe;
+}
+
+// Enrollments are keyed by course and student, which lets the database rules
+// check whether someone belongs to a course
+export const enrollmentId = (courseId: string, studentId: string) => `${courseId}_${studentId}`;
+
+// Older submissions stored the time as an ISO string
+export const toMillis = (time: number | string) => (typeof time === "string" ? Date.parse(time) : time);
+
+// Work is late when the database's submission time is after the assignment's
+// `late_after`, which is copied onto each submission and version for the rules
+// to check. Older records stored `late` itself instead.
+const lateness = <T extends Pick<Submission, "submitted_at" | "late" | "late_after">>(record: T): T => {
+  const timed = { ...record, submitted_at: toMillis(record.submitted_at) };
+  return timed.late_after === undefined ? timed : { ...timed, late: timed.submitted_at > timed.late_after };
+};
+
+export const withLateness = (submission: Submission): Submission => ({
+  ...lateness(submission),
+  ...(submission.versions ? { versions: submission.versions.map(lateness) } : {}),
+});
+
+export interface EnrollmentRepository extends CrudRepository<Enrollment> {
+  listByStudent(studentId: string): Promise<Enrollment[]>;
+  listByCourse(courseId: string): Promise<Enrollment[]>;
+  subscribeByCourse(courseId: string, callback: (enrollments: Enrollment[]) => void): Unsubscribe;
+  find(studentId: string, courseId: string): Promise<Enrollment | null>;
+}
+
+export interface AssignmentRepository extends CrudRepository<Assignment> {
+  listByCourse(courseId: string): Promise<Assignment[]>;
+  subscribeByCourse(courseId: string, callback: (assignments: Assignment[]) => void): Unsubscribe;
+  listByTeacher(teacherId: string): Promise<Assignment[]>;
+  // An id for an assignment that is not saved yet, so files can be uploaded
+  // under it first
+  newId(): string;
+  // A coding assignment's hidden tests, keyed by test id, are kept apart from
+  // it where only the teacher and the grading server can read them
+  save(assignment: Assignment, hiddenTests?: Record<string, CodeTestCase> | null): Promise<void>;
+}
+
+export interface SubmissionRepository extends CrudRepository<Submission> {
+  list(): Promise<Submission[]>;
+  listByUser(userId: string): Promise<Submission[]>;
+  listByAssignment(assignmentId: string): Promise<Submission[]>;
+  subscribeByAssignment(assignmentId: string, callback: (submissions: Submission[]) => void): Unsubscribe;
+  // The student's latest submission for the assignment
+  find(userId: string, assignmentId: string): Promise<Submission | null>;
+  // Students hand in work with these rather than create and update. The
+  // database stamps the submission time, which its rules check, so the stored
+  // record is read back and returned.
+  submit(submission: Omit<NewRecord<Submission>, "submitted_at">): Promise<Submission>;
+  resubmit(id: string, changes: Omit<RecordChanges<Submission>, "submitted_at">): Promise<Submission>;
+  // The database's clock, which decides whether work is late
+  serverTime(): Promise<Date>;
+}
+
+export interface AttendanceRepository extends CrudRepository<AttendanceRecord> {
+  listByCourse(courseId: string): Promise<AttendanceRecord[]>;
+  listByStudent(studentId: string): Promise<AttendanceRecord[]>;
+  subscribeByCourse(courseId: string, callback: (records: AttendanceRecord[]) => void): Unsubscribe;
+  subscribeByStudent(studentId: string, callback: (records: AttendanceRecord[]) => void): Unsubscribe;
+}
+
+// Users are keyed by their auth uid rather than a generated id
+export interface UserRepository {
+  get(id: string): Promise<User | null>;
+  list(): Promise<User[]>;
+  listByRole(role: UserRole): Promise<User[]>;
+  // Adds the profile of a new account. The database stamps joined_at, which
+  // welcome emails are sent in the order of.
+  create(user: Omit<User, "joined_at">): Promise<void>;
+  update(id: string, changes: RecordChanges<User>): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+export interface StudyPlanRepository {
+  listPlans(userId: string): Promise<StudyPlan[]>;
+  createPlan(plan: NewRecord<StudyPlan>): Promise<StudyPlan>;
+  updatePlan(id: string, changes: RecordChanges<StudyPlan>): Promise<void>;
+  listItems(userId: string): Promise<StudyPlanItem[]>;
+  // Batched: either every item is written or none is
+  createItems(items: NewRecord<StudyPlanItem>[]): Promise<StudyPlanItem[]>;
+  updateItems(changes: { id: string; changes: RecordChanges<StudyPlanItem> }[]): Promise<void>;
+  removeItems(ids: string[]): Promise<void>;
+}
+
+// Courses students generate with AI, which live apart from the courses
+// teachers run
+export interface AICourseRepository {
+  listByUser(userId: string): Promise<AIGeneratedCourse[]>;
+  create(course: NewRecord<AIGeneratedCourse>): Promise<AIGeneratedCourse>;
+  update(id: string, changes: RecordChanges<AIGeneratedCourse>): Promise<void>;
+}
+
+// Keyed by the student's uid
+export interface CalendarFeedRepository {
+  get(userId: string): Promise<CalendarFeed | null>;
+  save(userId: string, feed: CalendarFeed): Promise<void>;
+  remove(userId: string): Promise<void>;
+}
+
+// Connections are made by the server when a student redeems a teacher's code
+export interface TeacherConnectionRepository {
+  subscribeByStudent(studentId: string, callback: (connections: TeacherConnection[]) => void): Unsubscribe;
+}
+
+export interface AccessCodeRepository extends CrudRepository<AccessCode> {
+  listByCourse(courseId: string): Promise<AccessCode[]>;
+  subscribeByCourse(courseId: string, callback: (codes: AccessCode[]) => void): Unsubscribe;
+  subscribeByTeacher(teacherId: string, callback: (codes: AccessCode[]) => void): Unsubscribe;
+  // Codes are claimed once and for all, so no two courses ever share one.
+  // False when the code is already taken.
+  claim(code: string, teacherId: string): Promise<boolean>;
+  incrementUseCount(id: string): Promise<void>;
+  // Written together with the course's changes, so the course page never
+  // shows a code that no longer works
+  updateMany(
+    changes: { id: string; changes: RecordChanges<AccessCode> }[],
+    course?: { id: string; changes: RecordChanges<Course> }
+  ): Promise<void>;
+}
+
+// Join requests are filed by the server when a code needs approval
+export interface JoinRequestRepository {
+  subscribeByCourse(courseId: string, callback: (requests: JoinRequest[]) => void): Unsubscribe;
+  update(id: string, changes: RecordChanges<JoinRequest>): Promise<void>;
+}
+
+// A session's check-in codes are kept apart from it, where only its teacher
+// can read them
+export type SessionCodes = Pick<AttendanceSession, "token" | "previous_token">;
+export type StoredAttendanceSession = Omit<AttendanceSession, keyof SessionCodes>;
+
+export interface AttendanceSessionRepository {
+  subscribeByCourse(courseId: string, callback: (sessions: StoredAttendanceSession[]) => void): Unsubscribe;
+  subscribeCodes(sessionId: string, callback: (codes: SessionCodes | null) => void): Unsubscribe;
+  // The code is written before the session, so students never see a session
+  // they cannot check in to
+  open(session: NewRecord<StoredAttendanceSession>, token: string): Promise<AttendanceSession>;
+  rotateCode(sessionId: string, codes: SessionCodes, rotatedAt: number): Promise<void>;
+  // Also removes the codes
+  close(sessionId: string, closedAt: number): Promise<void>;
+}
+
+// Policies are stored per course; reads are null for courses that never saved
+// one. The alerts they lead to are kept and sent by the server.
+export interface AttendancePolicyRepository {
+  get(courseId: string): Promise<Partial<AttendancePolicy> | null>;
+  subscribe(courseId: string, callback: (policy: Partial<AttendancePolicy> | null) => void): Unsubscribe;
+  save(courseId: string, policy: AttendancePolicy): Promise<void>;
+}
+
+// Reports are keyed by target and reporter, so reporting the same post twice
+// does not add a second entry to the moderation queue
+export const forumReportId = (targetId: string, reporterId: string) => `${targetId}_${reporterId}`;
+
+export interface ForumRepository {
+  getPost(type: ForumTargetType, id: string): Promise<ForumThread | ForumComment | null>;
+  // Everything, hidden or not, for the course's teacher and moderators
+  subscribeThreadsByCourse(courseId: string, callback: (threads: ForumThread[]) => void): Unsubscribe;
+  subscribeCommentsByThread(threadId: string, callback: (comments: ForumComment[]) => void): Unsubscribe;
+  // What students see: visible posts, and their own hidden ones
+  subscribeVisibleThreads(courseId: string, authorId: string, callback: (threads: ForumThread[]) => void): Unsubscribe;
+  subscribeVisibleComments(threadId: string, authorId: string, callback: (comments: ForumComment[]) => void): Unsubscribe;
+  createThread(thread: NewRecord<ForumThread>): Promise<ForumThread>;
+  createComment(comment: NewRecord<ForumComment>): Promise<ForumComment>;
+  // False when the reporter already reported the target
+  createReport(report: NewRecord<ForumReport>): Promise<boolean>;
+  subscribeMute(courseId: string, userId: string, callback: (mute: ActiveMute | null) => void): Unsubscribe;
+  subscribeSanctionsByUser(userId: string, callback: (sanctions: UserSanction[]) => void): Unsubscribe;
+  updateSanction(id: string, changes: RecordChanges<UserSanction>): Promise<void>;
+}
+
+// Everything one moderation action changes. It is written in one atomic
+// update, so the log cannot miss an action that took effect.
+export interface ModerationChanges {
+  log: NewRecord<ModerationLogEntry>;
+  post?: { type: ForumTargetType; id: string; changes: RecordChanges<ForumThread> & RecordChanges<ForumComment> };
+  sanction?: NewRecord<UserSanction>;
+  // Starts a mute in the log's course, tied to the sanction issued with it,
+  // or lifts one when `until` is null
+  mute?: { user_id: string; until: number | null };
+  report?: { id: string; changes: Pick<ForumReport, "status" | "resolved_by" | "resolved_at"> };
+}
+
+export interface ModerationRepository {
+  // The courses an admin assigned the moderator
+  getAssignments(userId: string): Promise<string[]>;
+  saveAssignments(userId: string, courseIds: string[]): Promise<void>;
+  subscribeReportsByCourse(courseId: string, callback: (reports: ForumReport[]) => void): Unsubscribe;
+  subscribeLogByCourse(courseId: string, callback: (entries: ModerationLogEntry[]) => void): Unsubscribe;
+  subscribeSanctionsByCourse(courseId: string, callback: (sanctions: UserSanction[]) => void): Unsubscribe;
+  // Active mutes by user
+  subscribeMutesByCourse(courseId: string, callback: (mutes: Record<string, ActiveMute>) => void): Unsubscribe;
+  apply(changes: ModerationChanges): Promise<ModerationLogEntry>;
+}
+
+export interface NotificationRepository {
+  get(id: string): Promise<Notification | null>;
+  subscribeByUser(userId: string, callback: (notifications: Notification[]) => void): Unsubscribe;
+  create(notification: NewRecord<Notification>): Promise<Notification>;
+  // For notifications keyed by what they are about, like due-date reminders
+  save(notification: Notification): Promise<void>;
+  markRead(ids: string[]): Promise<void>;
+  // The admins' switches, null until first saved
+  getSettings(): Promise<Partial<NotificationSettings> | null>;
+  subscribeSettings(callback: (settings: Partial<NotificationSettings> | null) => void): Unsubscribe;
+  saveSettings(settings: NotificationSettings): Promise<void>;
+  getPreferences(userId: string): Promise<NotificationPreferences>;
+  subscribePreferences(userId: string, callback: (preferences: NotificationPreferences) => void): Unsubscribe;
+  savePreferences(userId: string, preferences: NotificationPreferences): Promise<void>;
+}
+
+// Settings are null for courses that never saved any. Overrides are keyed by
+// assignment id, or by the final grade's key.
+export interface GradebookRepository {
+  getSettings(courseId: string): Promise<Partial<GradebookSettings> | null>;
+  subscribeSettings(courseId: string, callback: (settings: Partial<GradebookSettings> | null) => void): Unsubscribe;
+  saveSettings(courseId: string, settings: GradebookSettings): Promise<void>;
+  getCourseOverrides(courseId: string): Promise<CourseOverrides>;
+  // Students can only read their own
+  getStudentOverrides(courseId: string, studentId: string): Promise<Record<string, GradeOverride>>;
+  subscribeCourseOverrides(courseId: string, callback: (overrides: CourseOverrides) => void): Unsubscribe;
+  saveOverride(key: string, override: GradeOverride): Promise<void>;
+  removeOverride(courseId: string, studentId: string, key: string): Promise<void>;
+}
+
+// One check per submission, keyed by it, so saving again replaces the last
+export interface ContentCheckRepository {
+  save(check: AIContentCheck): Promise<void>;
+  subscribeByCourse(courseId: string, callback: (checks: Record<string, AIContentCheck>) => void): Unsubscribe;
+}
+
+// Only the course's teacher can read its question bank
+export interface QuestionBankRepository {
+  subscribeByCourse(courseId: string, callback: (questions: BankQuestion[]) => void): Unsubscribe;
+  create(question: NewRecord<BankQuestion>): Promise<BankQuestion>;
+  save(question: BankQuestion): Promise<void>;
+  remove(courseId: string, id: string): Promise<void>;
+}
+
+// Attempts are started and graded by the server
+export interface CourseQuizRepository {
+  // An id for a quiz that is not saved yet, so its assignment can point at it
+  newId(): string;
+  save(quiz: CourseQuiz): Promise<void>;
+  update(id: string, changes: RecordChanges<CourseQuiz>): Promise<void>;
+  subscribeByCourse(courseId: string, callback: (quizzes: CourseQuiz[]) => void): Unsubscribe;
+  subscribeAttemptsByCourse(courseId: string, callback: (attempts: CourseQuizAttempt[]) => void): Unsubscribe;
+}
+
+export interface RubricRepository {
+  get(id: string): Promise<Rubric | null>;
+  subscribeByTeacher(teacherId: string, callback: (rubrics: Rubric[]) => void): Unsubscribe;
+  create(rubric: NewRecord<Rubric>): Promise<Rubric>;
+  save(rubric: Rubric): Promise<void>;
+}
+
+// The quizzes students generate to practise. Attempts and the XP they earn are
+// recorded by the server, which scores them.
+export interface PracticeQuizRepository {
+  create(quiz: NewRecord<Quiz>): Promise<Quiz>;
+  subscribeByUser(userId: string, callback: (quizzes: Quiz[]) => void): Unsubscribe;
+  subscribeAttemptsByUser(userId: string, callback: (attempts: QuizAttempt[]) => void): Unsubscribe;
+  listXPByUser(userId: string): Promise<UserXP[]>;
+}
+
+export interface Repositories {
+  courses: CourseRepository;
+  enrollments: EnrollmentRepository;
+  assignments: AssignmentRepository;
+  submissions: SubmissionRepository;
+  attendance: AttendanceRepository;
+  users: UserRepository;
+  studyPlans: StudyPlanRepository;
+  accessCodes: AccessCodeRepository;
+  joinRequests: JoinRequestRepository;
+  attendanceSessions: AttendanceSessionRepository;
+  attendancePolicies: AttendancePolicyRepository;
+  forum: ForumRepository;
+  notifications: NotificationRepository;
+  gradebooks: GradebookRepository;
+  contentChecks: ContentCheckRepository;
+  aiCourses: AICourseRepository;
+  calendarFeeds: CalendarFeedRepository;
+  teacherConnections: TeacherConnectionRepository;
+  moderation: ModerationRepository;
+  questionBanks: QuestionBankRepository;
+  courseQuizzes: CourseQuizRepository;
+  rubrics: RubricRepository;
+  practiceQuizzes: PracticeQuizRepository;
+}
@@ -0,0 +1,13 @@
+import { UserRole } from "./types";
+
+export const USER_ROLES: UserRole[] = ["student", "teacher", "admin", "moderator"];
+
+// Where each role lands after signing in or opening /dashboard
+export const ROLE_HOME_PATHS: Record<UserRole, string> = {
+  admin: "/admin",
+  teacher: "/teacher",
+  student: "/student",
+  moderator: "/moderator",
+};
+
+export const getHomePath = (role?: UserRole) => (role ? ROLE_HOME_PATHS[role] : "/login");
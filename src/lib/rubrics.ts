@@ -0,0 +1,51 @@
+import { InlineComment, Rubric, RubricCriterion, RubricCriterionScore, RubricGrade } from "./types";
+
+export const criterionMaxPoints = (criterion: RubricCriterion) =>
+  criterion.levels.reduce((max, level) => Math.max(max, level.points), 0);
+
+export const rubricMaxPoints = (criteria: RubricCriterion[]) =>
+  criteria.reduce((sum, criterion) => sum + criterionMaxPoints(criterion), 0);
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export function buildRubricGrade(rubric: Rubric, scores: RubricCriterionScore[]): RubricGrade {
+  // Scores for criteria removed from the rubric are left out
+  const kept = scores.filter((score) => rubric.criteria.some((criterion) => criterion.id === score.criterion_id));
+  return {
+    rubric_id: rubric.id,
+    title: rubric.title,
+    criteria: rubric.criteria,
+    scores: kept,
+    total: round(kept.reduce((sum, score) => sum + score.points, 0)),
+    max_points: rubricMaxPoints(rubric.criteria),
+  };
+}
+
+// The rubric total counts toward the assignment's points, so a 16-point rubric
+// on a 10-point assignment scores 12/16 as 7.5
+export const rubricGradeToPoints = (grade: RubricGrade, assignmentPoints: number) =>
+  grade.max_points > 0 ? round((grade.total / grade.max_points) * assignmentPoints) : 0;
+
+export interface AnnotatedSegment {
+  text: string;
+  start: number;
+  comments: InlineComment[];
+}
+
+// Splits content at every comment boundary, so overlapping comments each
+// highlight their own passage
+export function segmentByComments(content: string, comments: InlineComment[]): AnnotatedSegment[] {
+  const valid = comments.filter((comment) => comment.start < comment.end && comment.end <= content.length);
+  const boundaries = [
+    ...new Set([0, content.length, ...valid.flatMap((comment) => [comment.start, comment.end])]),
+  ].sort((a, b) => a - b);
+
+  return boundaries.slice(0, -1).map((start, index) => {
+    const end = boundaries[index + 1];
+    return {
+      text: content.slice(start, end),
+      start,
+      comments: valid.filter((comment) => comment.start <= start && comment.end >= end),
+    };
+  });
+}
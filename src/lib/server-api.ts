@@ -0,0 +1,22 @@
+import { auth } from "@/firebase";
+
+// Calls an endpoint of the local server (see server.cjs) as the signed-in
+// user, who is identified by their Firebase ID token. Throws with the server's
+// error message when the request fails.
+export async function postAsUser<T>(endpoint: string, body: unknown): Promise<T> {
+  const idToken = await auth.currentUser?.getIdToken();
+  if (!idToken) throw new Error("Sign in to continue");
+
+  const response = await fetch(endpoint, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${idToken}` },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `The server responded with ${response.status}`);
+  }
+
+  return (await response.json()) as T;
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { buildXlsx, parseCsv, toCsv } from "./spreadsheet";
+
+// Reads and writes CSV the way spreadsheet apps produce and expect it; XLSX
+// entries are stored uncompressed, so their XML can be read straight from the
+// archive bytes
+
+describe("toCsv", () => {
+  it("quotes fields that need it and ends every row with CRLF", () => {
+    expect(
+      toCsv([
+        ["Name", "Score", "Note"],
+        ["Doe, Jane", 9.5, 'Said "hi"'],
+        ["Sam", null, "Line one\nline two"],
+      ])
+    ).toBe('Name,Score,Note\r\n"Doe, Jane",9.5,"Said ""hi"""\r\nSam,,"Line one\nline two"\r\n');
+  });
+
+  it("keeps text that looks like a formula from running", () => {
+    expect(toCsv([["=SUM(A1:A2)", "+1", "-2", "@cmd", -2]])).toBe("'=SUM(A1:A2),'+1,'-2,'@cmd,-2\r\n");
+  });
+});
+
+describe("parseCsv", () => {
+  it("reads what toCsv writes", () => {
+    const rows = [
+      ["Name", "Score", "Note"],
+      ["Doe, Jane", "9.5", 'Said "hi"'],
+      ["Sam", "", "Line one\r\nline two"],
+    ];
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+
+  it("ignores a byte order mark, bare LF line ends and blank lines", () => {
+    expect(parseCsv("\uFEFFid,name\n\n1,Ana\n   \n2,Ben")).toEqual([
+      ["id", "name"],
+      ["1", "Ana"],
+      ["2", "Ben"],
+    ]);
+  });
+
+  it("keeps empty fields, including trailing ones", () => {
+    expect(parseCsv("a,,c,\r\n,b,,\r\n")).toEqual([
+      ["a", "", "c", ""],
+      ["", "b", "", ""],
+    ]);
+  });
+
+  it("detects semicolon and tab delimiters", () => {
+    expect(parseCsv("name;score\r\nAna;9,5\r\n")).toEqual([
+      ["name", "score"],
+      ["Ana", "9,5"],
+    ]);
+    expect(parseCsv("name\tscore\nAna\t9")).toEqual([
+      ["name", "score"],
+      ["Ana", "9"],
+    ]);
+  });
+
+  it("doesn't count delimiters inside quoted headers", () => {
+    expect(parseCsv('"Last, First";"Score, %"\r\n"Doe, Jane";95\r\n')).toEqual([
+      ["Last, First", "Score, %"],
+      ["Doe, Jane", "95"],
+    ]);
+  });
+
+  it("treats quotes inside an unquoted field as text", () => {
+    expect(parseCsv('title,size\r\n12" ruler,12\r\n')).toEqual([
+      ["title", "size"],
+      ['12" ruler', "12"],
+    ]);
+  });
+});
+
+describe("buildXlsx", () => {
+  const read = async (blob: Blob) => new TextDecoder().decode(await blob.arrayBuffer());
+
+  it("writes a zip with one worksheet per sheet", async () => {
+    const blob = buildXlsx([
+      { name: "Grades", rows: [["Name", "Score"], ["Ana <A>", 9]] },
+      { name: "Grades", rows: [["Other"]] },
+    ]);
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    const text = await read(blob);
+
+    expect(blob.type).toBe("application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+    expect([...bytes.slice(0, 4)]).toEqual([0x50, 0x4b, 0x03, 0x04]);
+    expect(text).toContain('<sheet name="Grades" sheetId="1" r:id="rId1"/>');
+    // Sheet names must be unique
+    expect(text).toContain('<sheet name="Grades 2" sheetId="2" r:id="rId2"/>');
+    expect(text).toContain('<c r="A2" t="inlineStr"><is><t xml:space="preserve">Ana &lt;A&gt;</t></is></c><c r="B2"><v>9</v></c>');
+  });
+
+  it("names sheets within Excel's limits", async () => {
+    const text = await read(buildXlsx([{ name: "Week 1/2: [draft]?", rows: [] }, { name: "", rows: [] }]));
+    expect(text).toContain('<sheet name="Week 1 2   draft" sheetId="1"');
+    expect(text).toContain('<sheet name="Sheet2" sheetId="2"');
+  });
+});
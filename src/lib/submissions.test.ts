@@ -0,0 +1,70 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createMemoryRepositories, enrollmentId, getRepositories, setRepositories } from "@/lib/repositories";
+import { submitWork } from "./submissions";
+
+// Hands work in through the in-memory backend, which stamps submissions with
+// its own clock like the database does
+
+const student = { id: "student-1", name: "Sam" };
+
+const assignment = (lateAfter?: number) => ({
+  id: "a1",
+  course_id: "course-1",
+  title: "Essay",
+  points: 10,
+  late_after: lateAfter,
+});
+
+beforeEach(() => {
+  setRepositories(
+    createMemoryRepositories({
+      enrollments: [
+        { id: enrollmentId("course-1", student.id), course_id: "course-1", student_id: student.id, enrolled_at: "", completed: false },
+      ],
+    })
+  );
+});
+
+describe("submitWork", () => {
+  it("judges lateness by the stored submission time", async () => {
+    const onTime = await submitWork(assignment(Date.now() + 60 * 60 * 1000), student, { content: "Draft" });
+    expect(onTime).toMatchObject({ late: false, version: 1 });
+
+    const lateAfter = Date.now() - 1;
+    const late = await submitWork({ ...assignment(lateAfter), id: "a2" }, student, { content: "Draft" });
+    expect(late).toMatchObject({ late: true, late_after: lateAfter });
+  });
+
+  it("never flags work late when the assignment has no late_after", async () => {
+    const submission = await submitWork(assignment(), student, { content: "Draft" });
+    expect(submission.late).toBeUndefined();
+    expect(submission.late_after).toBeUndefined();
+  });
+
+  it("keeps each version's own lateness when work is resubmitted", async () => {
+    const lateAfter = Date.now() - 1;
+    const first = await submitWork(assignment(lateAfter), student, { content: "Draft" });
+    const second = await submitWork(assignment(lateAfter), student, { content: "Final" });
+
+    expect(second).toMatchObject({ id: first.id, version: 2, content: "Final", late: true });
+    expect(second.versions).toEqual([
+      expect.objectContaining({ version: 1, content: "Draft", late_after: lateAfter, late: true }),
+    ]);
+  });
+
+  it("replaces a stored flag from before late_after was kept", async () => {
+    await getRepositories().submissions.submit({
+      assignment_id: "a1",
+      user_id: student.id,
+      course_id: "course-1",
+      content: "Old",
+      late: true,
+      version: 1,
+    });
+
+    const resubmitted = await submitWork(assignment(Date.now() + 60 * 60 * 1000), student, { content: "New" });
+    expect(resubmitted.late).toBe(false);
+    expect(resubmitted.versions).toEqual([expect.objectContaining({ content: "Old", late: true })]);
+    expect(resubmitted.versions![0]).not.toHaveProperty("late_after");
+  });
+});
@@ -0,0 +1,180 @@
+import { getRepositories } from "@/lib/repositories";
+import { Assignment, Submission, SubmissionPolicy, SubmissionVersion } from "@/lib/types";
+import { dueTime, lateAfter } from "@/lib/gradebook";
+import { withoutUndefined } from "@/lib/utils";
+
+// Students hand in each assignment once and resubmit onto the same record, so
+// teachers see one submission per student with its earlier versions attached.
+
+type SubmittableAssignment = Pick<
+  Assignment,
+  "id" | "course_id" | "title" | "points" | "due_date" | "submission_policy" | "late_after"
+> & {
+  teacher_id?: string;
+};
+
+// What the student hands in; the rest of the record is filled in here.
+// Auto-grades are only written by the server.
+export type SubmittedWork = Pick<Submission, "content" | "language" | "file_url" | "attachments">;
+
+export interface SubmissionWindow {
+  open: boolean;
+  reason?: string; // Why it is closed
+  attempts_used: number;
+  attempts_left: number | null; // Null when unlimited
+  late: boolean; // Whether handing in now would be flagged late
+  closes_at: Date | null;
+}
+
+// Judged by the stored `late_after`, as submissions are once handed in (see
+// withLateness). Assignments saved before it was stored never flag work late;
+// the gradebook still applies its late penalty to them from the submission time.
+export function isLate(submittedAt: number | Date, assignment: Pick<Assignment, "late_after">) {
+  return assignment.late_after !== undefined && new Date(submittedAt).getTime() > assignment.late_after;
+}
+
+// When the assignment stops taking first submissions and resubmissions, or null
+// when it does not. Stored on the assignment in milliseconds as
+// `submissions_close_at` and `resubmissions_close_at` for the database rules,
+// which also enforce `max_attempts`.
+export function submissionDeadlines(assignment: Pick<Assignment, "due_date" | "submission_policy">) {
+  const policy = assignment.submission_policy || {};
+  const submissionsClose = policy.late_until ? new Date(policy.late_until) : lateAfter(assignment);
+  const resubmissionsClose = policy.resubmit_until ? new Date(policy.resubmit_until) : submissionsClose;
+  return { submissions_close: submissionsClose, resubmissions_close: resubmissionsClose };
+}
+
+export const attemptsUsed = (submission: Pick<Submission, "version"> | null | undefined) =>
+  submission ? submission.version || 1 : 0;
+
+export function submissionWindow(
+  assignment: SubmittableAssignment,
+  submission: Pick<Submission, "version"> | null | undefined,
+  now = new Date()
+): SubmissionWindow {
+  const policy = assignment.submission_policy || {};
+  const used = attemptsUsed(submission);
+  const attemptsLeft = policy.max_attempts ? Math.max(0, policy.max_attempts - used) : null;
+  const deadlines = submissionDeadlines(assignment);
+  const closesAt = submission ? deadlines.resubmissions_close : deadlines.submissions_close;
+  const window = { attempts_used: used, attempts_left: attemptsLeft, late: isLate(now, assignment), closes_at: closesAt };
+
+  if (attemptsLeft === 0) {
+    return { ...window, open: false, reason: used === 1 ? "Only one submission is allowed" : "No attempts left" };
+  }
+  if (closesAt && now.getTime() > closesAt.getTime()) {
+    return { ...window, open: false, reason: submission ? "Resubmissions are closed" : "Past due date" };
+  }
+  return { ...window, open: true };
+}
+
+// Why the policy does not work with the due date, or null when it does
+export function submissionPolicyError(policy: SubmissionPolicy, dueDate?: string): string | null {
+  if (policy.max_attempts === 0) {
+    return "Allow at least one attempt";
+  }
+  if (policy.late_until && !dueDate) {
+    return "Set a due date to accept late work";
+  }
+  if (policy.late_until && dueDate && new Date(policy.late_until) <= dueTime(dueDate)) {
+    return "Late work has to be accepted until after the due date";
+  }
+  return null;
+}
+
+// The policy as stored on the assignment, or null when nothing is limited
+export function storedSubmissionPolicy(policy: SubmissionPolicy): SubmissionPolicy | null {
+  const stored = withoutUndefined(policy);
+  return Object.keys(stored).length > 0 ? stored : null;
+}
+
+// Every version of the submission including the current one, oldest first
+export function submissionVersions(submission: Submission): SubmissionVersion[] {
+  return [
+    ...(submission.versions || []),
+    {
+      version: submission.version || 1,
+      content: submission.content || "",
+      language: submission.language,
+      file_url: submission.file_url,
+      attachments: submission.attachments,
+      submitted_at: submission.submitted_at,
+      late_after: submission.late_after,
+      late: submission.late ?? false,
+    },
+  ];
+}
+
+// `late` is worked out from `late_after` on reading, so it is only written back
+// for versions from before `late_after` was kept
+const storedVersion = (version: SubmissionVersion): SubmissionVersion =>
+  withoutUndefined(version.late_after === undefined ? version : { ...version, late: undefined });
+
+// Hands in work for the student, as a new version when they have submitted
+// before. Throws when the assignment's policy no longer accepts submissions.
+export async function submitWork(
+  assignment: SubmittableAssignment,
+  student: { id: string; name: string },
+  work: SubmittedWork
+): Promise<Submission> {
+  const { submissions } = getRepositories();
+  const [existing, now] = await Promise.all([submissions.find(student.id, assignment.id), submissions.serverTime()]);
+
+  const window = submissionWindow(assignment, existing, now);
+  if (!window.open) {
+    throw new Error(window.reason);
+  }
+
+  // Whether the work is late follows from the database's submission time and
+  // the assignment's late_after, which the rules check is copied unchanged, so
+  // work handed in right at the deadline is judged by one clock only
+  const current = {
+    ...work,
+    late_after: assignment.late_after,
+    late: undefined,
+  };
+
+  if (!existing) {
+    return submissions.submit({
+      assignment_id: assignment.id,
+      user_id: student.id,
+      student_name: student.name,
+      course_id: assignment.course_id,
+      teacher_id: assignment.teacher_id,
+      assignment_title: assignment.title,
+      points: assignment.points,
+      ...current,
+      version: 1,
+    });
+  }
+
+  const [previous] = submissionVersions(existing).slice(-1);
+  return submissions.resubmit(existing.id, {
+    ...current,
+    // The auto-grade was for the previous version; the server grades this one
+    auto_grade: undefined,
+    auto_grade_status: undefined,
+    code_submission_id: undefined,
+    version: previous.version + 1,
+    versions: [...(existing.versions || []), previous].map(storedVersion),
+  });
+}
+
+// Before versioning, each submit could add another record for the same student
+// and assignment. Folds those into the latest record's history, so older data
+// reads as versions too.
+export function foldDuplicateSubmissions<T extends Submission>(records: T[]): T[] {
+  const groups = new Map<string, T[]>();
+  records.forEach((record) => {
+    const key = `${record.user_id}/${record.assignment_id}`;
+    groups.set(key, [...(groups.get(key) || []), record]);
+  });
+
+  return [...groups.values()].map((group) => {
+    if (group.length === 1) return group[0];
+    const sorted = [...group].sort((a, b) => a.submitted_at - b.submitted_at);
+    const versions = sorted.flatMap(submissionVersions).map((version, index) => ({ ...version, version: index + 1 }));
+    const current = versions.pop()!;
+    return { ...sorted[sorted.length - 1], version: current.version, versions };
+  });
+}
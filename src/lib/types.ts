@@ -7,6 +7,7 @@ export interface User {
   role: UserRole;
   avatar?: string;
   accessCode?: string; // Added for teacher-student connections
+  joined_at?: number; // Set by the database when the profile is created
 }
 
 export interface Course {
@@ -15,12 +16,14 @@ export interface Course {
   description: string;
   instructor_id: string;
   instructor?: string;
+  instructor_name?: string;
   category?: string;
   prerequisites?: string[];
   startDate?: string;
   endDate?: string;
   schedule?: string[];
   materials?: CourseMaterial[];
+  access_code?: string; // Legacy shareable code, superseded by AccessCode.is_shared
   is_archived: boolean;
   created_at: string;
   updated_at: string;
@@ -42,31 +45,207 @@ export interface CourseMaterial {
 export interface Enrollment {
   id: string;
   course_id: string;
-  user_id: string;
+  student_id: string;
+  student_name?: string;
   enrolled_at: string;
   completed: boolean;
   completion_date?: string;
+  progress?: number; // Percentage
+  section?: string; // From the access code the student joined with
+  access_code_id?: string;
 }
 
 export interface Assignment {
   id: string;
   course_id: string;
+  teacher_id?: string;
   title: string;
   description?: string;
   due_date?: string;
+  late_after?: number; // When work starts counting as late, in milliseconds; kept for the database rules
+  // When first submissions and resubmissions close, in milliseconds; kept for the database rules
+  submissions_close_at?: number;
+  resubmissions_close_at?: number;
   points: number;
+  assignmentType?: string;
+  textContent?: string; // Older AI-generated assignments keep their text here
+  coding?: CodingAssignmentConfig; // Present when assignmentType is "coding"
+  quiz_id?: string; // Present when assignmentType is "quiz"
+  fileURL?: string;
+  category_id?: string; // Gradebook category; defaults by assignment type
+  rubric_id?: string;
+  submission_policy?: SubmissionPolicy;
+  attachment_policy?: AttachmentPolicy; // Students may attach files when set
+  materials?: FileAttachment[]; // Files the teacher handed out with the assignment
   created_at: string;
 }
 
+export type FileTypeGroup = "documents" | "images" | "code" | "archives";
+
+export interface AttachmentPolicy {
+  allowed_types: FileTypeGroup[];
+  max_size_mb: number; // Per file
+  max_files: number;
+}
+
+// Kept on the stored file by the server's virus scan; "unscanned" when no
+// scanner is configured and "removed" once an infected file was deleted
+export type FileScanStatus = "pending" | "clean" | "unscanned" | "removed";
+
+// A file kept in Storage, referenced from the record it belongs to
+export interface FileAttachment {
+  name: string;
+  path: string; // Storage path
+  url: string;
+  content_type: string;
+  size: number; // Bytes
+  uploaded_at: string;
+}
+
+// Limits on how often and until when students may hand in an assignment
+export interface SubmissionPolicy {
+  max_attempts?: number; // Unlimited when unset
+  grace_minutes?: number; // Work handed in this long after the due date is not late
+  late_until?: string; // Late work is accepted until then; none when unset
+  resubmit_until?: string; // Resubmissions close then; defaults to when submissions close
+}
+
+// A version of a submission that has since been replaced by a resubmission
+export interface SubmissionVersion {
+  version: number;
+  content: string;
+  language?: CodeLanguage;
+  file_url?: string;
+  attachments?: FileAttachment[];
+  submitted_at: number;
+  late_after?: number; // The assignment's late_after when this version was handed in
+  late?: boolean; // Worked out from late_after when read; stored on older versions
+}
+
 export interface Submission {
   id: string;
   assignment_id: string;
   user_id: string;
+  student_name?: string;
+  course_id?: string;
+  teacher_id?: string;
+  assignment_title?: string;
+  points?: number;
   content?: string;
   file_url?: string;
-  submitted_at: string;
+  attachments?: FileAttachment[];
+  submitted_at: number; // Milliseconds, by the database's clock
   grade?: number;
   feedback?: string;
+  graded_at?: string;
+  language?: CodeLanguage;
+  code_submission_id?: string;
+  auto_grade?: number; // Points earned from test cases
+  auto_grade_status?: "pending" | "completed" | "failed";
+  rubric_grade?: RubricGrade;
+  comments?: InlineComment[];
+  version?: number; // Starts at 1; unset on submissions from before versioning
+  versions?: SubmissionVersion[]; // Earlier versions, oldest first
+  late_after?: number; // Copied from the assignment when handed in, and checked against it by the rules
+  late?: boolean; // Worked out from late_after when read; stored on older submissions
+  graded_version?: number; // The version the current grade was given for
+}
+
+export interface GradeCategory {
+  id: string;
+  name: string;
+  weight: number; // Percent of the final grade
+  drop_lowest: number; // Lowest scores left out, always keeping at least one
+}
+
+export interface LatePenalty {
+  percent_per_day: number; // Of the assignment's points, per started day late
+  max_percent: number;
+  // The grace period is the assignment's submission_policy.grace_minutes
+}
+
+export interface LetterGrade {
+  letter: string;
+  min_percent: number;
+}
+
+export interface RubricLevel {
+  id: string;
+  label: string; // e.g. "Proficient"
+  description?: string;
+  points: number;
+}
+
+export interface RubricCriterion {
+  id: string;
+  title: string;
+  description?: string;
+  levels: RubricLevel[];
+}
+
+// Owned by a teacher and reusable across their assignments
+export interface Rubric {
+  id: string;
+  teacher_id: string;
+  title: string;
+  criteria: RubricCriterion[];
+  created_at: string;
+  updated_at?: string;
+}
+
+export interface RubricCriterionScore {
+  criterion_id: string;
+  level_id?: string; // Absent when the teacher entered points directly
+  points: number;
+  comment?: string;
+}
+
+// Copied into the submission when it is graded, so later edits to the rubric
+// do not change grades already given
+export interface RubricGrade {
+  rubric_id: string;
+  title: string;
+  criteria: RubricCriterion[];
+  scores: RubricCriterionScore[];
+  total: number;
+  max_points: number;
+}
+
+// Stored per course under gradebooks/{courseId}
+export interface GradebookSettings {
+  categories: GradeCategory[];
+  late_penalty: LatePenalty;
+  scale: LetterGrade[]; // Highest first
+  updated_by?: string;
+  updated_at?: string;
+}
+
+// Replaces the computed score, with the reason shown to the student
+export interface GradeOverride {
+  course_id: string;
+  student_id: string;
+  assignment_id?: string; // Absent when the final course grade is overridden
+  score: number; // Points for an assignment, percent for the final grade
+  reason: string;
+  set_by: string;
+  set_at: string;
+}
+
+// Overrides by student, then by assignment id or FINAL_GRADE_KEY (see @/lib/gradebook)
+export type CourseOverrides = Record<string, Record<string, GradeOverride>>;
+
+export type NotificationType = "assignment" | "grade" | "announcement" | "due_soon" | "enrollment" | "attendance";
+
+// Which kinds of notification a user wants, under notification_preferences/{userId}.
+// Kinds left out are delivered.
+export type NotificationPreferences = Partial<Record<NotificationType, boolean>>;
+
+// Site-wide switches set by admins, under system_settings/notifications
+export interface NotificationSettings {
+  assignment_reminders: boolean; // Due-soon reminders for every user
+  email_notifications: boolean; // Notifications, welcomes and weekly digests also go out by email
+  updated_by?: string;
+  updated_at?: string;
 }
 
 export interface Notification {
@@ -76,15 +255,65 @@ export interface Notification {
   content?: string;
   created_at: string;
   read: boolean;
+  type?: NotificationType;
+  link?: string; // In-app path to open
+  sender_id?: string;
+  course_id?: string; // The course a teacher sent it to the student about
+  assignment_id?: string; // The graded assignment, for grade notifications
+  sent_at?: number; // Set by the database when the notification is stored
 }
 
+export type AttendanceStatus = "present" | "absent" | "late" | "excused";
+
 export interface AttendanceRecord {
   id: string;
   student_id: string;
   teacher_id?: string;
   courseId: string;
-  date: string;
-  status: "present" | "absent" | "late";
+  date: string; // yyyy-MM-dd
+  status: AttendanceStatus;
+  note?: string; // Why an absence was excused
+  recorded_at?: string;
+  // Set when the student checked in themselves during a check-in session
+  session_id?: string;
+  check_in_token?: string;
+  checked_in_at?: number; // Epoch milliseconds
+}
+
+// Stored per course under attendance_policies/{courseId}
+export interface AttendancePolicy {
+  at_risk_absences: number; // Students with more absences than this are at risk
+  lates_per_absence: number; // Lates that add up to one absence; 0 when lates never count
+  notify_students: boolean;
+  updated_by?: string;
+  updated_at?: string;
+}
+
+export type AttendanceAlertLevel = "warning" | "at_risk";
+
+// The last alert sent, under attendance_alerts/{courseId}/{studentId}, which
+// only the server reads and writes (see server/attendance-alerts.cjs)
+export interface AttendanceAlert {
+  level: AttendanceAlertLevel;
+  effective_absences: number;
+  notified_at: string;
+}
+
+export interface AttendanceSession {
+  id: string;
+  course_id: string;
+  teacher_id: string;
+  date: string; // yyyy-MM-dd
+  status: "open" | "closed";
+  // Epoch milliseconds, compared with the server's clock at check-in
+  opened_at: number;
+  late_after: number;
+  closes_at: number;
+  closed_at?: number;
+  // Stored under attendance_session_tokens/{id}, which only the teacher can read
+  token: string;
+  previous_token?: string; // Still accepted, so a code read just before it rotated works
+  token_rotated_at: number;
 }
 
 export interface Message {
@@ -119,19 +348,47 @@ export interface UserXP {
   user_id: string;
   course_id?: string;
   activity_type: "quiz_completion" | "assignment_submission" | "discussion" | "attendance" | "challenge";
+  activity_id?: string; // e.g. the quiz attempt that earned the XP
   xp_amount: number;
   earned_at: string;
 }
 
+export type CodeLanguage = "python" | "javascript" | "java" | "cpp" | "csharp" | "other";
+
+export interface CodeTestCase {
+  id: string;
+  name?: string;
+  input: string; // Fed to the program on stdin
+  expected_output: string;
+  weight?: number; // Defaults to 1
+  hidden?: boolean;
+}
+
+export interface CodeTestResult {
+  test_case_id: string;
+  passed: boolean;
+  actual_output: string;
+  error?: string;
+  duration_ms: number;
+}
+
+export interface CodingAssignmentConfig {
+  languages: CodeLanguage[];
+  starter_code: Partial<Record<CodeLanguage, string>>;
+  test_cases: CodeTestCase[]; // Example tests; hidden ones are kept under coding_tests
+  hidden_test_count?: number;
+}
+
 export interface CodeSubmission {
   id: string;
   user_id: string;
   assignment_id: string;
-  language: "python" | "javascript" | "java" | "cpp" | "csharp" | "other";
+  language: CodeLanguage;
   code_content: string;
-  submitted_at: string;
+  submitted_at: number; // That of the graded submission version
   auto_grade_status?: "pending" | "completed" | "failed";
-  auto_grade_result?: number;
+  auto_grade_result?: number; // Percentage of weighted test cases passed
+  test_results?: CodeTestResult[];
   feedback?: string;
 }
 
@@ -149,20 +406,51 @@ export interface StudyPlan {
 export interface StudyPlanItem {
   id: string;
   study_plan_id: string;
+  user_id: string;
   title: string;
   description?: string;
-  due_date: string;
+  course?: string;
+  due_date: string; // ISO start of the time block
   duration_minutes: number;
   is_completed: boolean;
   completed_at?: string;
   type: "lecture" | "reading" | "assignment" | "quiz" | "exam" | "other";
+  source_id?: string; // Assignment, AI-course module or course the block works towards
+  recurrence_id?: string; // Shared by every occurrence of a recurring task
+}
+
+// Character range in a submission's content, end exclusive
+export interface TextSpan {
+  start: number;
+  end: number;
+}
+
+// Comment on a passage of a submission, shown beside the highlighted text
+export interface InlineComment extends TextSpan {
+  id: string;
+  quote: string; // The passage when the comment was made
+  comment: string;
+  author_id: string;
+  created_at: string;
+}
+
+export interface PlagiarismMatch {
+  source_submission_id: string;
+  source_label: string; // Student and, for earlier offerings, the course
+  score: number; // Share of the checked submission found in this source, 0-100
+  spans: TextSpan[];
 }
 
 export interface AIContentCheck {
   id: string;
   submission_id: string;
-  ai_probability: number;
+  assignment_id?: string;
+  course_id?: string;
+  ai_probability?: number; // Only present when an AI-likelihood check was requested
   plagiarism_score: number;
+  overlap_spans?: TextSpan[];
+  matches?: PlagiarismMatch[];
+  sources_compared?: number;
   analysis_results: string[];
   checked_at: string;
   checked_by: string;
@@ -176,3 +464,188 @@ export interface TeacherConnection {
   connected_at: string;
   status: "active" | "inactive" | "pending";
 }
+
+// The secret URL a student's calendar app subscribes to; one per student
+export interface CalendarFeed {
+  token: string;
+  created_at: string;
+}
+
+export interface AccessCode {
+  id: string;
+  code: string;
+  teacher_id: string;
+  course_id: string;
+  section?: string;
+  created_at: string;
+  is_active: boolean;
+  expires_at?: number; // Epoch milliseconds
+  max_uses?: number;
+  use_count?: number;
+  requires_approval?: boolean; // Joins wait in the course's join request queue
+  revoked_at?: string;
+  replaced_by?: string; // Access code id, when the code was rotated
+  is_shared?: boolean; // The code shown on the course page
+}
+
+export type JoinRequestStatus = "pending" | "approved" | "rejected";
+
+export interface JoinRequest {
+  id: string; // `${course_id}_${student_id}`, so a student has one request per course
+  course_id: string;
+  student_id: string;
+  student_name: string;
+  access_code_id: string;
+  section?: string;
+  requested_at: string;
+  status: JoinRequestStatus;
+  decided_at?: string;
+  decided_by?: string;
+}
+
+export type QuestionType = "multiple_choice" | "multi_select" | "true_false" | "short_answer" | "numeric";
+
+export interface BankQuestion {
+  id: string;
+  course_id: string;
+  type: QuestionType;
+  prompt: string;
+  options?: string[]; // Choice questions; true/false always uses ["True", "False"]
+  correct_options?: number[]; // Indices into options
+  accepted_answers?: string[]; // Short answer, matched case-insensitively
+  numeric_answer?: number;
+  tolerance?: number; // Absolute tolerance for numeric answers
+  points: number;
+  explanation?: string;
+  source: "manual" | "ai";
+  created_at: string;
+}
+
+export interface CourseQuiz {
+  id: string;
+  course_id: string;
+  assignment_id: string; // Gradebook entry created when the quiz is published
+  title: string;
+  description?: string;
+  question_ids: string[];
+  total_points: number;
+  time_limit_minutes?: number;
+  opens_at?: string;
+  closes_at?: string;
+  created_by: string;
+  created_at: string;
+}
+
+// Selected option indices for choice questions, free text otherwise
+export type QuizAnswer = number[] | string;
+
+export interface CourseQuizAttempt {
+  id: string;
+  quiz_id: string;
+  course_id: string;
+  user_id: string;
+  student_name: string;
+  status: "in_progress" | "submitted";
+  answers?: Record<string, QuizAnswer>;
+  question_scores?: Record<string, number>;
+  score?: number;
+  total_points: number;
+  started_at: string;
+  submitted_at?: string;
+}
+
+// Chosen by an admin; API keys stay in the edge function secrets
+export interface AISettings {
+  provider: "gemini" | "deepseek" | "openai" | "mock";
+  model?: string;
+  updated_by?: string;
+  updated_at?: string;
+}
+
+export type ForumContentStatus = "visible" | "hidden";
+
+export interface ForumThread {
+  id: string;
+  course_id: string;
+  author_id: string;
+  author_name: string;
+  title: string;
+  content: string;
+  status: ForumContentStatus;
+  visible_in?: string; // The course while the thread is visible, which students list threads by
+  locked?: boolean; // No new comments while locked
+  created_at: string;
+}
+
+export interface ForumComment {
+  id: string;
+  thread_id: string;
+  course_id: string;
+  author_id: string;
+  author_name: string;
+  content: string;
+  status: ForumContentStatus;
+  visible_in?: string; // The thread while the comment is visible
+  created_at: string;
+}
+
+export type ForumTargetType = "thread" | "comment";
+
+export interface ForumReport {
+  id: string;
+  course_id: string;
+  thread_id: string;
+  target_type: ForumTargetType;
+  target_id: string;
+  target_author_id: string;
+  reporter_id: string;
+  reporter_name: string;
+  reason: string;
+  status: "open" | "resolved" | "dismissed";
+  created_at: string;
+  resolved_by?: string;
+  resolved_at?: string;
+}
+
+export interface UserSanction {
+  id: string;
+  user_id: string;
+  course_id: string;
+  type: "warning" | "mute";
+  reason: string;
+  issued_by: string;
+  issued_at: string;
+  expires_at?: string; // Mutes only
+  acknowledged?: boolean; // Set when the user dismisses a warning
+}
+
+// Under forum_mutes/{courseId}/{userId} while a mute lasts
+export interface ActiveMute {
+  until: number; // Epoch milliseconds, compared with `now` in the database rules
+  sanction_id: string;
+}
+
+export type ModerationActionType =
+  | "hide"
+  | "restore"
+  | "lock"
+  | "unlock"
+  | "warn"
+  | "mute"
+  | "unmute"
+  | "dismiss_report";
+
+// Append-only record of every moderation action
+export interface ModerationLogEntry {
+  id: string;
+  course_id: string;
+  moderator_id: string;
+  moderator_name: string;
+  action: ModerationActionType;
+  target_type: ForumTargetType | "user" | "report";
+  target_id: string;
+  target_user_id?: string;
+  report_id?: string;
+  reason?: string;
+  created_at: string;
+}
@@ -1,7 +1,7 @@
 
-import React, { useState, useEffect } from "react";
-import { useAuth } from "@/contexts/AuthContext";
-import { Navigate, useLocation } from "react-router-dom";
+import React from "react";
+import { Navigate } from "react-router-dom";
+import { useRouteTab } from "@/hooks/use-route-tab";
 import { Header } from "@/components/layout/Header";
 import { Footer } from "@/components/layout/Footer";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -16,38 +16,24 @@ import { Integrations } from "@/components/admin/Integrations";
 import { AiChecker } from "@/components/admin/AiChecker";
 import { LayoutDashboard, Users, BookOpen, FileText, CheckSquare, Settings, MessageSquare, BarChart, Plug, Bot, Sparkles } from "lucide-react";
 
-const AdminDashboard = () => {
-  const { user, isAuthenticated, loading } = useAuth();
-  const location = useLocation();
-  const [activeTab, setActiveTab] = useState("overview");
-
-  // Set initial tab based on location state if provided
-  useEffect(() => {
-    if (location.state && location.state.defaultTab) {
-      setActiveTab(location.state.defaultTab);
-    }
-  }, [location.state]);
+const ADMIN_TABS = [
+  "overview",
+  "users",
+  "courses",
+  "content",
+  "assignments",
+  "settings",
+  "communications",
+  "analytics",
+  "integrations",
+  "ai-checker",
+] as const;
 
-  if (loading) {
-    return (
-      <div className="flex flex-col min-h-screen">
-        <Header />
-        <main className="flex-1 flex items-center justify-center">
-          <div className="text-center">
-            <p className="text-muted-foreground">Loading...</p>
-          </div>
-        </main>
-        <Footer />
-      </div>
-    );
-  }
-
-  if (!isAuthenticated) {
-    return <Navigate to="/login" />;
-  }
+const AdminDashboard = () => {
+  const { activeTab, setTab, isValid } = useRouteTab("/admin", ADMIN_TABS, "overview");
 
-  if (user?.role !== "admin") {
-    return <Navigate to="/dashboard" />;
+  if (!isValid) {
+    return <Navigate to="/admin" replace />;
   }
 
   return (
@@ -61,7 +47,7 @@ const AdminDashboard = () => {
           </p>
         </div>
 
-        <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
+        <Tabs value={activeTab} onValueChange={setTab} className="space-y-6">
           <TabsList className="grid grid-cols-2 md:grid-cols-5 lg:grid-cols-10 gap-2">
             <TabsTrigger value="overview" className="flex items-center gap-2">
               <LayoutDashboard className="h-4 w-4" />
@@ -158,22 +144,22 @@ const AdminDashboard = () => {
                   <QuickActionButton
                     title="Add User"
                     icon={<Users className="h-5 w-5" />}
-                    onClick={() => setActiveTab("users")}
+                    onClick={() => setTab("users")}
                   />
                   <QuickActionButton
                     title="Create Course"
                     icon={<BookOpen className="h-5 w-5" />}
-                    onClick={() => setActiveTab("courses")}
+                    onClick={() => setTab("courses")}
                   />
                   <QuickActionButton
                     title="Send Notification"
                     icon={<MessageSquare className="h-5 w-5" />}
-                    onClick={() => setActiveTab("communications")}
+                    onClick={() => setTab("communications")}
                   />
                   <QuickActionButton
                     title="View Reports"
                     icon={<BarChart className="h-5 w-5" />}
-                    onClick={() => setActiveTab("analytics")}
+                    onClick={() => setTab("analytics")}
                   />
                 </div>
               </div>
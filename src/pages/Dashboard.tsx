@@ -125,7 +125,7 @@ const Dashboard = () => {
                 
                 {user?.role === "student" && (
                   <div 
-                    onClick={() => navigate("/student/ai-planner")}
+                    onClick={() => navigate("/student/planner")}
                     className="bg-white dark:bg-black/20 rounded-lg p-4 flex items-start gap-3 cursor-pointer hover:shadow-md transition-shadow"
                   >
                     <Brain className="h-5 w-5 text-purple-600 dark:text-purple-400 mt-0.5" />
@@ -156,7 +156,7 @@ const Dashboard = () => {
                   if (user?.role === "admin") {
                     navigate("/admin/ai-checker");
                   } else if (user?.role === "student") {
-                    navigate("/student/ai-planner");
+                    navigate("/student/planner");
                   }
                   toast.success("Redirecting to AI features!");
                 }} 
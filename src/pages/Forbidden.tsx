@@ -0,0 +1,30 @@
+import { Link, useLocation } from "react-router-dom";
+import { useEffect } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { getHomePath } from "@/lib/roles";
+
+const Forbidden = () => {
+  const location = useLocation();
+  const { user } = useAuth();
+
+  useEffect(() => {
+    console.error(
+      "403 Error: User attempted to access a route their role does not allow:",
+      location.pathname
+    );
+  }, [location.pathname]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-100">
+      <div className="text-center">
+        <h1 className="text-4xl font-bold mb-4">403</h1>
+        <p className="text-xl text-gray-600 mb-4">You don't have access to this page</p>
+        <Link to={getHomePath(user?.role)} className="text-blue-500 hover:text-blue-700 underline">
+          Go to your dashboard
+        </Link>
+      </div>
+    </div>
+  );
+};
+
+export default Forbidden;
@@ -125,7 +125,7 @@ const Index = () => {
                   </p>
                 </CardContent>
                 <CardFooter>
-                  <Link to="/student/ai-planner" className="w-full">
+                  <Link to="/student/planner" className="w-full">
                     <Button variant="outline" className="w-full">
                       <Brain className="h-4 w-4 mr-2" />
                       Try AI Planner
@@ -152,7 +152,7 @@ const Index = () => {
                   </p>
                 </CardContent>
                 <CardFooter>
-                  <Link to="/student/quiz-generator" className="w-full">
+                  <Link to="/student/quizzes" className="w-full">
                     <Button variant="outline" className="w-full">
                       <TestTube className="h-4 w-4 mr-2" />
                       Try AI Quizzes
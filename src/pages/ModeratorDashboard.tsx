@@ -0,0 +1,101 @@
+import React, { useEffect, useState } from "react";
+import { Navigate } from "react-router-dom";
+import { Header } from "@/components/layout/Header";
+import { Footer } from "@/components/layout/Footer";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Card, CardContent } from "@/components/ui/card";
+import { Flag, History, Loader2, MessageSquare, ShieldAlert } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/contexts/AuthContext";
+import { ReportQueue } from "@/components/moderator/ReportQueue";
+import { ThreadModeration } from "@/components/moderator/ThreadModeration";
+import { UserSanctions } from "@/components/moderator/UserSanctions";
+import { ModerationLog } from "@/components/moderator/ModerationLog";
+import { ModeratedCourse, fetchModeratedCourses } from "@/components/moderator/utils/moderation-utils";
+import { useRouteTab } from "@/hooks/use-route-tab";
+
+const MODERATOR_TABS = ["reports", "threads", "sanctions", "audit"] as const;
+
+const ModeratorDashboard = () => {
+  const { user } = useAuth();
+  const { activeTab, setTab, isValid } = useRouteTab("/moderator", MODERATOR_TABS, "reports");
+  const [courses, setCourses] = useState<ModeratedCourse[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user) return;
+
+    fetchModeratedCourses(user)
+      .then(setCourses)
+      .catch((error) => {
+        console.error("Error loading moderated courses:", error);
+        toast.error("Failed to load your courses");
+      })
+      .finally(() => setLoading(false));
+  }, [user]);
+
+  if (!isValid) {
+    return <Navigate to="/moderator" replace />;
+  }
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      <Header />
+      <main className="flex-1 container mx-auto py-8 px-4">
+        <h1 className="text-3xl font-bold mb-6">Moderator Dashboard</h1>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : courses.length === 0 ? (
+          <Card>
+            <CardContent className="py-8 text-center text-muted-foreground">
+              You have not been assigned to moderate any courses yet. Ask an administrator to assign you.
+            </CardContent>
+          </Card>
+        ) : (
+          <Tabs value={activeTab} onValueChange={setTab}>
+            <TabsList className="mb-6">
+              <TabsTrigger value="reports" className="flex items-center gap-2">
+                <Flag className="h-4 w-4" />
+                Reports
+              </TabsTrigger>
+              <TabsTrigger value="threads" className="flex items-center gap-2">
+                <MessageSquare className="h-4 w-4" />
+                Threads
+              </TabsTrigger>
+              <TabsTrigger value="sanctions" className="flex items-center gap-2">
+                <ShieldAlert className="h-4 w-4" />
+                Sanctions
+              </TabsTrigger>
+              <TabsTrigger value="audit" className="flex items-center gap-2">
+                <History className="h-4 w-4" />
+                Audit Log
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="reports">
+              <ReportQueue courses={courses} />
+            </TabsContent>
+
+            <TabsContent value="threads">
+              <ThreadModeration courses={courses} />
+            </TabsContent>
+
+            <TabsContent value="sanctions">
+              <UserSanctions courses={courses} />
+            </TabsContent>
+
+            <TabsContent value="audit">
+              <ModerationLog courses={courses} />
+            </TabsContent>
+          </Tabs>
+        )}
+      </main>
+      <Footer />
+    </div>
+  );
+};
+
+export default ModeratorDashboard;
@@ -11,10 +11,17 @@ import { StudyPlanner } from "@/components/student/StudyPlanner";
 import { QuizGenerator } from "@/components/student/QuizGenerator";
 import { MyAttendance } from "@/components/student/MyAttendance";
 import { AICourseCreator } from "@/components/student/AICourseCreator";
-import { useState } from "react";
+import { Navigate } from "react-router-dom";
+import { useRouteTab } from "@/hooks/use-route-tab";
+
+const STUDENT_TABS = ["courses", "assignments", "progress", "attendance", "planner", "discussions", "quizzes", "ai-course"] as const;
 
 const StudentDashboard = () => {
-  const [selectedTab, setSelectedTab] = useState("courses");
+  const { activeTab, setTab, isValid } = useRouteTab("/student", STUDENT_TABS, "courses");
+
+  if (!isValid) {
+    return <Navigate to="/student" replace />;
+  }
 
   return (
     <div className="flex flex-col min-h-screen">
@@ -22,7 +29,7 @@ const StudentDashboard = () => {
       <main className="flex-1 container mx-auto py-8 px-4">
         <h1 className="text-3xl font-bold mb-6">Student Dashboard</h1>
         
-        <Tabs defaultValue="courses" value={selectedTab} onValueChange={setSelectedTab}>
+        <Tabs value={activeTab} onValueChange={setTab}>
           <TabsList className="mb-6">
             <TabsTrigger value="courses">My Courses</TabsTrigger>
             <TabsTrigger value="assignments">Assignments</TabsTrigger>
@@ -1,14 +1,24 @@
 
 import React from "react";
+import { Navigate, useNavigate, useParams } from "react-router-dom";
 import { Header } from "@/components/layout/Header";
 import { Footer } from "@/components/layout/Footer";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { CourseCreator } from "@/components/teacher/CourseCreator";
 import { CourseDetails } from "@/components/teacher/CourseDetails";
-import { useState } from "react";
+import { useRouteTab } from "@/hooks/use-route-tab";
+
+const COURSE_TABS = ["assignments", "responses", "quizzes", "gradebook", "attendance", "students"] as const;
 
 const TeacherDashboard = () => {
-  const [selectedCourse, setSelectedCourse] = useState<string | null>(null);
+  const { courseId } = useParams<{ courseId?: string }>();
+  const navigate = useNavigate();
+  const coursePath = `/teacher/courses/${courseId}`;
+  const { activeTab, setTab, isValid } = useRouteTab(coursePath, COURSE_TABS, "assignments");
+
+  if (courseId && !isValid) {
+    return <Navigate to={coursePath} replace />;
+  }
 
   return (
     <div className="flex flex-col min-h-screen">
@@ -16,18 +26,23 @@ const TeacherDashboard = () => {
       <main className="flex-1 container mx-auto py-8 px-4">
         <h1 className="text-3xl font-bold mb-6">Teacher Dashboard</h1>
         
-        {!selectedCourse ? (
+        {!courseId ? (
           <Tabs defaultValue="courses">
             <TabsList className="mb-6">
               <TabsTrigger value="courses">My Courses</TabsTrigger>
             </TabsList>
             
             <TabsContent value="courses">
-              <CourseCreator onCourseSelect={setSelectedCourse} />
+              <CourseCreator onCourseSelect={(id) => navigate(`/teacher/courses/${id}`)} />
             </TabsContent>
           </Tabs>
         ) : (
-          <CourseDetails courseId={selectedCourse} onBack={() => setSelectedCourse(null)} />
+          <CourseDetails
+            courseId={courseId}
+            onBack={() => navigate("/teacher")}
+            activeTab={activeTab}
+            onTabChange={setTab}
+          />
         )}
       </main>
       <Footer />
@@ -0,0 +1,125 @@
+// Edge-function side of the provider abstraction: API keys and endpoints come
+// from function secrets, while the admin's settings in the Realtime Database
+// only choose which configured provider and model to use. The functions read
+// those settings themselves, as the signed-in caller, so the browser can't
+// pick a provider or model the admin didn't.
+import {
+  AI_PROVIDER_NAMES,
+  AIProvider,
+  AIProviderName,
+  createAIProvider,
+} from "./ai-provider.ts";
+import { MOCK_RESPONDERS } from "./mock-responses.ts";
+
+const API_KEY_ENV: Record<AIProviderName, string | null> = {
+  gemini: "GEMINI_API_KEY",
+  deepseek: "DEEPSEEK_API_KEY",
+  openai: "OPENAI_API_KEY",
+  mock: null,
+};
+
+// The app sends the caller's Firebase ID token in this header; Authorization
+// carries the Supabase key
+export const FIREBASE_TOKEN_HEADER = "x-firebase-token";
+
+const DATABASE_URL = (
+  Deno.env.get("FIREBASE_DATABASE_URL") ||
+  "https://educonnect-66985-default-rtdb.asia-southeast1.firebasedatabase.app"
+).replace(/\/$/, "");
+
+export class AuthError extends Error {
+  constructor(public status: 401 | 403, message: string) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
+const firebaseToken = (req: Request) => {
+  const token = req.headers.get(FIREBASE_TOKEN_HEADER);
+  if (!token) {
+    throw new AuthError(401, "Sign in to continue");
+  }
+  return token;
+};
+
+// Reads a path over the database's REST API with the caller's token, so the
+// database verifies the token and applies its rules to the read
+const readAsCaller = async (token: string, path: string): Promise<unknown> => {
+  const response = await fetch(`${DATABASE_URL}/${path}.json?auth=${encodeURIComponent(token)}`);
+  if (response.status === 401) {
+    throw new AuthError(401, "Your session has expired. Sign in again.");
+  }
+  if (!response.ok) {
+    throw new Error(`Could not read ${path}: ${response.status}`);
+  }
+  return response.json();
+};
+
+// The uid is taken from the token unverified; the read that follows is what
+// proves the token genuine, since the database rejects a forged one
+const tokenUid = (token: string) => {
+  try {
+    const payload = token.split(".")[1].replace(/-/g, "+").replace(/_/g, "/");
+    const claims = JSON.parse(atob(payload));
+    const uid = claims.user_id ?? claims.sub;
+    if (typeof uid === "string" && uid) return uid;
+  } catch {
+    // Fall through to the error below
+  }
+  throw new AuthError(401, "Sign in to continue");
+};
+
+export const requireAdmin = async (req: Request) => {
+  const token = firebaseToken(req);
+  const role = await readAsCaller(token, `users/${tokenUid(token)}/role`);
+  if (role !== "admin") {
+    throw new AuthError(403, "Only admins can do this");
+  }
+};
+
+// The status to answer a failed request with: auth failures keep theirs
+export const errorStatus = (error: unknown) => (error instanceof AuthError ? error.status : 500);
+
+export interface AIProviderStatus {
+  provider: AIProviderName;
+  configured: boolean;
+}
+
+const isProviderName = (value: unknown): value is AIProviderName =>
+  typeof value === "string" && (AI_PROVIDER_NAMES as string[]).includes(value);
+
+export const getProviderStatus = (): AIProviderStatus[] =>
+  AI_PROVIDER_NAMES.map((provider) => {
+    const envName = API_KEY_ENV[provider];
+    return { provider, configured: envName === null || !!Deno.env.get(envName) };
+  });
+
+export const isProviderConfigured = (provider: AIProviderName) =>
+  getProviderStatus().some((status) => status.provider === provider && status.configured);
+
+// Builds the provider the admin chose in system_settings/ai. Anything other
+// than a known provider name falls back to the AI_PROVIDER secret, then Gemini.
+export const resolveAIProvider = async (req: Request): Promise<AIProvider> => {
+  const settings = (await readAsCaller(firebaseToken(req), "system_settings/ai")) as
+    | { provider?: unknown; model?: unknown }
+    | null;
+  const fallback = Deno.env.get("AI_PROVIDER");
+  const provider: AIProviderName = isProviderName(settings?.provider)
+    ? settings.provider
+    : isProviderName(fallback)
+      ? fallback
+      : "gemini";
+
+  const envName = API_KEY_ENV[provider];
+  return createAIProvider(
+    {
+      provider,
+      model: typeof settings?.model === "string" && settings.model.trim() ? settings.model.trim() : undefined,
+      // The base URL is a secret too: letting the browser choose it would send
+      // the OpenAI key to an arbitrary host
+      baseUrl: provider === "openai" ? Deno.env.get("OPENAI_BASE_URL") : undefined,
+      apiKey: envName ? Deno.env.get(envName) : undefined,
+    },
+    MOCK_RESPONDERS
+  );
+};
@@ -0,0 +1,203 @@
+import { z } from "zod";
+import { extractJson } from "./quiz-schema.ts";
+
+// A single interface over the language models the platform can talk to. Edge
+// functions build a provider from the admin's settings plus their own secrets,
+// so API keys never reach the browser.
+
+export type AIProviderName = "gemini" | "deepseek" | "openai" | "mock";
+
+export const AI_PROVIDER_NAMES: AIProviderName[] = ["gemini", "deepseek", "openai", "mock"];
+
+export interface AIProviderConfig {
+  provider: AIProviderName;
+  model?: string;
+  // Only used by the OpenAI-compatible provider, e.g. a self-hosted gateway
+  baseUrl?: string;
+  apiKey?: string;
+}
+
+export interface AIRequest {
+  prompt: string;
+  system?: string;
+  temperature?: number;
+  // Identifies the kind of generation so the mock provider can answer it
+  task?: string;
+  params?: Record<string, unknown>;
+}
+
+export interface AIProvider {
+  name: AIProviderName;
+  model: string;
+  generateText(request: AIRequest): Promise<string>;
+}
+
+export class AIProviderError extends Error {
+  constructor(public provider: AIProviderName, message: string) {
+    super(`${provider}: ${message}`);
+    this.name = "AIProviderError";
+  }
+}
+
+export const DEFAULT_MODELS: Record<AIProviderName, string> = {
+  gemini: "gemini-2.0-flash",
+  deepseek: "deepseek-chat",
+  openai: "gpt-4o-mini",
+  mock: "mock-1",
+};
+
+const requireKey = (config: AIProviderConfig) => {
+  if (!config.apiKey) {
+    throw new AIProviderError(config.provider, "API key not configured");
+  }
+  return config.apiKey;
+};
+
+const createGeminiProvider = (config: AIProviderConfig): AIProvider => {
+  const model = config.model || DEFAULT_MODELS.gemini;
+  return {
+    name: "gemini",
+    model,
+    generateText: async (request) => {
+      const apiKey = requireKey(config);
+      const response = await fetch(
+        `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            ...(request.system ? { systemInstruction: { parts: [{ text: request.system }] } } : {}),
+            contents: [{ role: "user", parts: [{ text: request.prompt }] }],
+            generationConfig: { temperature: request.temperature ?? 0.7 },
+          }),
+        }
+      );
+
+      const data = await response.json();
+      if (!response.ok || data.error) {
+        throw new AIProviderError("gemini", data.error?.message || `Request failed with ${response.status}`);
+      }
+
+      const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
+      if (typeof text !== "string") {
+        throw new AIProviderError("gemini", "Response did not contain any text");
+      }
+      return text;
+    },
+  };
+};
+
+// DeepSeek and most self-hosted gateways speak the OpenAI chat completions API
+const createChatCompletionsProvider = (
+  name: AIProviderName,
+  baseUrl: string,
+  config: AIProviderConfig
+): AIProvider => {
+  const model = config.model || DEFAULT_MODELS[name];
+  return {
+    name,
+    model,
+    generateText: async (request) => {
+      const apiKey = requireKey(config);
+      const messages = [
+        ...(request.system ? [{ role: "system", content: request.system }] : []),
+        { role: "user", content: request.prompt },
+      ];
+
+      const response = await fetch(`${baseUrl.replace(/\/$/, "")}/chat/completions`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ model, messages, temperature: request.temperature ?? 0.7 }),
+      });
+
+      const data = await response.json();
+      if (!response.ok || data.error) {
+        throw new AIProviderError(name, data.error?.message || `Request failed with ${response.status}`);
+      }
+
+      const text = data.choices?.[0]?.message?.content;
+      if (typeof text !== "string") {
+        throw new AIProviderError(name, "Response did not contain any text");
+      }
+      return text;
+    },
+  };
+};
+
+export type MockResponder = (request: AIRequest) => string;
+
+// Returns the same output for the same request, with no network access, so the
+// app and its edge functions can be exercised offline.
+export const createMockProvider = (responders: Record<string, MockResponder> = {}): AIProvider => ({
+  name: "mock",
+  model: DEFAULT_MODELS.mock,
+  generateText: async (request) => {
+    const responder = request.task ? responders[request.task] : undefined;
+    if (responder) {
+      return responder(request);
+    }
+    return `Mock response (${hashString(request.prompt).toString(16)}): ${request.prompt.slice(0, 200)}`;
+  },
+});
+
+export const hashString = (value: string) => {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+export const createAIProvider = (
+  config: AIProviderConfig,
+  mockResponders?: Record<string, MockResponder>
+): AIProvider => {
+  switch (config.provider) {
+    case "gemini":
+      return createGeminiProvider(config);
+    case "deepseek":
+      return createChatCompletionsProvider("deepseek", "https://api.deepseek.com/v1", config);
+    case "openai":
+      return createChatCompletionsProvider("openai", config.baseUrl || "https://api.openai.com/v1", config);
+    case "mock":
+      return createMockProvider(mockResponders);
+    default:
+      throw new Error(`Unknown AI provider: ${config.provider}`);
+  }
+};
+
+// Asks for JSON, extracts it from whatever prose or code fences the model adds,
+// and validates it against the schema.
+export const generateJSON = async <T>(
+  provider: AIProvider,
+  request: AIRequest,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>
+): Promise<T> => {
+  const text = await provider.generateText({
+    ...request,
+    system: [request.system, "Respond with valid JSON only, without markdown or commentary."]
+      .filter(Boolean)
+      .join("\n\n"),
+  });
+
+  let raw: unknown;
+  try {
+    raw = extractJson(text);
+  } catch (error) {
+    throw new AIProviderError(provider.name, error instanceof Error ? error.message : "Response was not valid JSON");
+  }
+
+  const result = schema.safeParse(raw);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new AIProviderError(
+      provider.name,
+      `Response did not match the expected format: ${issue.path.join(".") || "root"} ${issue.message}`
+    );
+  }
+  return result.data;
+};
@@ -0,0 +1,85 @@
+// Canned, deterministic answers for the mock provider. Each responder builds a
+// response in the same shape the real models are asked for, derived only from
+// the request parameters, so repeated calls return identical output.
+import { AIRequest, hashString, MockResponder } from "./ai-provider.ts";
+import { scheduleStudyPlan, StudyPlanContextSchema } from "./study-plan.ts";
+
+const param = (request: AIRequest, key: string, fallback: string) => {
+  const value = request.params?.[key];
+  return value === undefined || value === null || value === "" ? fallback : String(value);
+};
+
+const count = (request: AIRequest, key: string, fallback: number, max: number) => {
+  const value = Number(request.params?.[key]);
+  return Number.isFinite(value) && value > 0 ? Math.min(Math.floor(value), max) : fallback;
+};
+
+const mockQuiz: MockResponder = (request) => {
+  const topic = param(request, "topic", "General Knowledge");
+  const questions = Array.from({ length: count(request, "numQuestions", 5, 20) }, (_, i) => ({
+    question: `Sample question ${i + 1} about ${topic}?`,
+    options: ["First option", "Second option", "Third option", "Fourth option"].map((o) => `${o} (${topic})`),
+    correctAnswer: "ABCD"[i % 4],
+    explanation: `Option ${"ABCD"[i % 4]} is the expected answer for sample question ${i + 1}.`,
+  }));
+  return JSON.stringify({ questions });
+};
+
+const mockCourse: MockResponder = (request) => {
+  const title = param(request, "title", "Sample Course");
+  const modules = Array.from({ length: count(request, "durationDays", 3, 30) }, (_, day) => ({
+    title: `Day ${day + 1}: ${title} fundamentals`,
+    description: `Introductory material for day ${day + 1} of ${title}.`,
+    topics: [1, 2].map((n) => ({
+      title: `${title} topic ${day + 1}.${n}`,
+      theory: `This is placeholder theory for topic ${day + 1}.${n} of ${title}.`,
+      practiceQuestions: [1, 2, 3].map((q) => ({
+        question: `Practice question ${q} for topic ${day + 1}.${n}?`,
+        answer: `Answer ${q}.`,
+      })),
+      resources: [
+        { type: "website", title: `${title} reference`, url: "https://example.com", description: "Reference site" },
+      ],
+    })),
+  }));
+  return JSON.stringify({ modules });
+};
+
+const mockAssignment: MockResponder = (request) => {
+  const subject = param(request, "subject", "General Studies");
+  const topic = param(request, "topic", "Sample Topic");
+  return [
+    `${topic} Assignment`,
+    "",
+    `Write a short report on ${topic} as part of your ${subject} studies.`,
+    "",
+    "Learning objectives:",
+    `- Explain the key ideas behind ${topic}`,
+    `- Apply ${topic} to a worked example`,
+    "",
+    "Requirements: 500 to 800 words with at least two cited sources.",
+    "Grading criteria: accuracy 50%, clarity 30%, sources 20%.",
+  ].join("\n");
+};
+
+// The mock plan is the heuristic schedule, so it respects the same context
+const mockStudyPlan: MockResponder = (request) => {
+  const context = StudyPlanContextSchema.safeParse(request.params?.context);
+  return JSON.stringify({ items: context.success ? scheduleStudyPlan(context.data) : [] });
+};
+
+const mockAIDetection: MockResponder = (request) => {
+  const text = param(request, "text", "");
+  return JSON.stringify({
+    ai_probability: hashString(text) % 101,
+    analysis: ["Mock analysis: the score is derived from a hash of the text and carries no meaning."],
+  });
+};
+
+export const MOCK_RESPONDERS: Record<string, MockResponder> = {
+  quiz: mockQuiz,
+  course: mockCourse,
+  assignment: mockAssignment,
+  "study-plan": mockStudyPlan,
+  "ai-detection": mockAIDetection,
+};
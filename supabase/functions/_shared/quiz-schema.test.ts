@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { QUIZ_JSON_INSTRUCTIONS, extractJson, parseQuizQuestions, parseQuizResponse } from "./quiz-schema";
+
+// Feeds the parser quizzes shaped the ways models actually answer, and checks
+// which answer each question ends up with
+
+const question = (correctAnswer: unknown, options = ["Paris", "Rome", "Madrid", "Berlin"]) => ({
+  question: "Which city?",
+  options,
+  correctAnswer,
+  explanation: "Because.",
+});
+
+const answers = (payload: unknown) => parseQuizQuestions(payload).questions.map((q) => q.correctAnswer);
+
+describe("parseQuizQuestions", () => {
+  it("reads letters and option text", () => {
+    expect(answers([question("B"), question("c"), question("Berlin"), question("D. Berlin")])).toEqual([1, 2, 3, 3]);
+  });
+
+  it("takes indices as zero-based once one answer is the first option", () => {
+    expect(answers({ questions: [question(0), question(2), question(3)] })).toEqual([0, 2, 3]);
+  });
+
+  it("takes indices as one-based once one answer is past the last option", () => {
+    expect(answers([question(1), question(4), question(2)])).toEqual([0, 3, 1]);
+  });
+
+  it("takes indices as one-based when the options are numbered from 1", () => {
+    const numbered = ["1. Paris", "2. Rome", "3. Madrid", "4. Berlin"];
+    const result = parseQuizQuestions([question(2, numbered), question(3, numbered)]);
+    expect(result.questions.map((q) => q.correctAnswer)).toEqual([1, 2]);
+    expect(result.questions[0].options).toEqual(["Paris", "Rome", "Madrid", "Berlin"]);
+  });
+
+  it("drops indices that could count from either 0 or 1", () => {
+    // Read as zero-based this quiz would be Rome, Madrid, Rome; one-based it
+    // would be Paris, Rome, Paris
+    const result = parseQuizQuestions([question(1), question(2), question(1), question("D")]);
+    expect(result.questions.map((q) => q.correctAnswer)).toEqual([3]);
+    expect(result.dropped).toEqual([0, 1, 2].map((index) => ({
+      index,
+      reason: "correctAnswer: Answers are numbered and could count from 0 or 1",
+    })));
+  });
+
+  it("drops indices when the quiz numbers them both ways", () => {
+    const result = parseQuizQuestions([question(0), question(4)]);
+    expect(result.questions).toEqual([]);
+    expect(result.dropped.map((dropped) => dropped.reason)).toEqual([
+      "correctAnswer: Answers are numbered inconsistently across the quiz",
+      "correctAnswer: Answers are numbered inconsistently across the quiz",
+    ]);
+  });
+
+  it("reports what is wrong with each invalid question", () => {
+    const result = parseQuizQuestions([question("A", ["Only one"]), { ...question("Z"), question: " " }, question("A")]);
+    expect(result.questions).toHaveLength(1);
+    expect(result.dropped).toEqual([
+      { index: 0, reason: "options: Needs at least 2 options" },
+      { index: 1, reason: "question: Question text is empty" },
+    ]);
+  });
+
+  it("accepts the field names models commonly use instead", () => {
+    const result = parseQuizQuestions([{ text: "Which city?", choices: [{ text: "Paris" }, { text: "Rome" }], answer: "Rome" }]);
+    expect(result.questions).toEqual([{ question: "Which city?", options: ["Paris", "Rome"], correctAnswer: 1, explanation: "" }]);
+  });
+
+  it("rejects a payload without a list of questions", () => {
+    expect(() => parseQuizQuestions({ quiz: [] })).toThrow("Response did not contain a list of questions");
+  });
+});
+
+describe("parseQuizResponse", () => {
+  it("finds the JSON inside fences and prose", () => {
+    const text = 'Here you go:\n```json\n{"questions": [{"question": "Q?", "options": ["a", "b"], "correctAnswer": "A"}]}\n```\nEnjoy!';
+    expect(parseQuizResponse(text).questions[0].correctAnswer).toBe(0);
+  });
+
+  it("fails on responses without JSON", () => {
+    expect(() => extractJson("Sorry, I can't help with that.")).toThrow("Response did not contain JSON");
+  });
+
+  it("parses the example it shows the model", () => {
+    const example = QUIZ_JSON_INSTRUCTIONS.slice(QUIZ_JSON_INSTRUCTIONS.indexOf("{"));
+    expect(parseQuizResponse(example)).toEqual({
+      questions: [
+        {
+          question: "Question text here?",
+          options: ["Option A", "Option B", "Option C", "Option D"],
+          correctAnswer: 0,
+          explanation: "Explanation of why Option A is correct",
+        },
+      ],
+      dropped: [],
+    });
+  });
+});
@@ -0,0 +1,205 @@
+// Shared between the generate-quiz edge function and the web app's QuizGenerator,
+// so both sides agree on what a valid quiz question looks like.
+import { z } from "zod";
+
+export const MIN_OPTIONS = 2;
+export const MAX_OPTIONS = 8;
+
+export const QuizQuestionSchema = z
+  .object({
+    question: z.string().trim().min(1, "Question text is empty"),
+    options: z
+      .array(z.string().trim().min(1, "Option text is empty"))
+      .min(MIN_OPTIONS, `Needs at least ${MIN_OPTIONS} options`)
+      .max(MAX_OPTIONS, `Has more than ${MAX_OPTIONS} options`),
+    correctAnswer: z.number().int("Correct answer must be an option index"),
+    explanation: z.string().trim().default(""),
+  })
+  .refine((q) => q.correctAnswer >= 0 && q.correctAnswer < q.options.length, {
+    message: "Correct answer is out of range",
+    path: ["correctAnswer"],
+  });
+
+export type QuizQuestion = z.infer<typeof QuizQuestionSchema>;
+
+export interface DroppedQuestion {
+  index: number;
+  reason: string;
+}
+
+export interface QuizParseResult {
+  questions: QuizQuestion[];
+  dropped: DroppedQuestion[];
+}
+
+// Models are loose about how they label things, so accept the common variants
+// before validating.
+const RawQuestionSchema = z
+  .object({
+    question: z.unknown(),
+    text: z.unknown(),
+    prompt: z.unknown(),
+    options: z.unknown(),
+    choices: z.unknown(),
+    answers: z.unknown(),
+    correctAnswer: z.unknown(),
+    correct_answer: z.unknown(),
+    answer: z.unknown(),
+    explanation: z.unknown(),
+  })
+  .partial()
+  .passthrough();
+
+type RawQuestion = z.infer<typeof RawQuestionSchema>;
+
+const OPTION_PREFIX = /^\s*(?:[A-Ha-h]|[1-8])\s*[.):]\s+/;
+
+const normalizeOptions = (value: unknown): unknown => {
+  if (!Array.isArray(value)) return value;
+  return value.map((option) => {
+    if (typeof option === "string") return option.replace(OPTION_PREFIX, "").trim();
+    if (option && typeof option === "object" && "text" in option) return String((option as { text: unknown }).text);
+    return option;
+  });
+};
+
+const rawOptions = (q: RawQuestion): unknown => normalizeOptions(q.options ?? q.choices ?? q.answers);
+const rawAnswer = (q: RawQuestion): unknown => q.correctAnswer ?? q.correct_answer ?? q.answer;
+
+// The answer as a number when the model gave an index rather than a letter or
+// the option's text
+const answerIndex = (value: unknown): number | null => {
+  if (typeof value === "number") return value;
+  if (typeof value === "string" && /^-?\d+$/.test(value.trim())) return Number(value.trim());
+  return null;
+};
+
+// Numbered options ("1. Paris") say how the model counts them
+const NUMBERED_FROM_ONE = /^\s*1\s*[.):]\s+/;
+
+// Models are asked for letters, but some still give an index and may count
+// from 1, which a single answer rarely shows. So the quiz is judged as a whole:
+// an index of 0 means zero-based, and an index equal to its question's option
+// count, or options labelled from "1.", means one-based. With both, or neither,
+// no index can be trusted: a one-based quiz whose answers are never the last
+// option reads just like a zero-based one whose answers are never the first.
+const indexOffset = (questions: RawQuestion[]): 0 | 1 | "mixed" | "unknown" => {
+  let oneBased = false;
+  let zeroBased = false;
+  for (const q of questions) {
+    const index = answerIndex(rawAnswer(q));
+    const options = rawOptions(q);
+    const labels = q.options ?? q.choices ?? q.answers;
+    if (index === null) continue;
+    if (index === 0) zeroBased = true;
+    if (Array.isArray(options) && index === options.length) oneBased = true;
+    if (Array.isArray(labels) && typeof labels[0] === "string" && NUMBERED_FROM_ONE.test(labels[0])) oneBased = true;
+  }
+  if (oneBased && zeroBased) return "mixed";
+  if (oneBased) return 1;
+  return zeroBased ? 0 : "unknown";
+};
+
+const NUMBERING_PROBLEMS = {
+  mixed: "Answers are numbered inconsistently across the quiz",
+  unknown: "Answers are numbered and could count from 0 or 1",
+};
+
+// Resolves the answer to a zero-based index. Accepts indices numbered from
+// `offset`, letters ("B") and option text.
+const normalizeAnswer = (value: unknown, options: unknown, offset: 0 | 1): unknown => {
+  const index = answerIndex(value);
+  if (index !== null) return index - offset;
+
+  if (typeof value === "string") {
+    const optionList = Array.isArray(options) ? options : [];
+    const trimmed = value.trim();
+    if (/^[A-Ha-h]$/.test(trimmed)) return trimmed.toUpperCase().charCodeAt(0) - 65;
+    const byText = optionList.findIndex(
+      (option) => typeof option === "string" && option.toLowerCase() === trimmed.replace(OPTION_PREFIX, "").toLowerCase()
+    );
+    return byText >= 0 ? byText : value;
+  }
+
+  return value;
+};
+
+const normalizeQuestion = (q: RawQuestion, offset: 0 | 1): unknown => {
+  const options = rawOptions(q);
+  return {
+    question: q.question ?? q.text ?? q.prompt,
+    options,
+    correctAnswer: normalizeAnswer(rawAnswer(q), options, offset),
+    explanation: typeof q.explanation === "string" ? q.explanation : undefined,
+  };
+};
+
+// Pulls the JSON payload out of a model response, ignoring markdown fences and
+// any prose before or after it.
+export const extractJson = (text: string): unknown => {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const body = (fenced ? fenced[1] : text).trim();
+
+  const start = body.search(/[[{]/);
+  if (start === -1) {
+    throw new Error("Response did not contain JSON");
+  }
+  const closing = body[start] === "{" ? "}" : "]";
+  const end = body.lastIndexOf(closing);
+  if (end <= start) {
+    throw new Error("Response contained incomplete JSON");
+  }
+
+  return JSON.parse(body.slice(start, end + 1));
+};
+
+export const parseQuizQuestions = (payload: unknown): QuizParseResult => {
+  const list = Array.isArray(payload)
+    ? payload
+    : payload && typeof payload === "object" && Array.isArray((payload as { questions?: unknown }).questions)
+      ? (payload as { questions: unknown[] }).questions
+      : null;
+
+  if (!list) {
+    throw new Error("Response did not contain a list of questions");
+  }
+
+  const raws = list.map((raw) => RawQuestionSchema.safeParse(raw));
+  const offset = indexOffset(raws.flatMap((raw) => (raw.success ? [raw.data] : [])));
+
+  const result: QuizParseResult = { questions: [], dropped: [] };
+  raws.forEach((raw, index) => {
+    if (raw.success && typeof offset === "string" && answerIndex(rawAnswer(raw.data)) !== null) {
+      result.dropped.push({ index, reason: `correctAnswer: ${NUMBERING_PROBLEMS[offset]}` });
+      return;
+    }
+
+    const parsed = QuizQuestionSchema.safeParse(
+      raw.success ? normalizeQuestion(raw.data, typeof offset === "string" ? 0 : offset) : list[index]
+    );
+    if (parsed.success) {
+      result.questions.push(parsed.data);
+    } else {
+      const issue = parsed.error.issues[0];
+      const field = issue.path.length > 0 ? `${issue.path.join(".")}: ` : "";
+      result.dropped.push({ index, reason: `${field}${issue.message}` });
+    }
+  });
+
+  return result;
+};
+
+export const parseQuizResponse = (text: string): QuizParseResult => parseQuizQuestions(extractJson(text));
+
+export const QUIZ_JSON_INSTRUCTIONS = `Return ONLY JSON in the following format:
+{
+  "questions": [
+    {
+      "question": "Question text here?",
+      "options": ["Option A", "Option B", "Option C", "Option D"],
+      "correctAnswer": "A",
+      "explanation": "Explanation of why Option A is correct"
+    }
+  ]
+}
+"correctAnswer" is the letter of the correct option, "A" for the first.`;
@@ -0,0 +1,193 @@
+// Shared between the generate-study-plan edge function and the web app's
+// StudyPlanner: the context the student's plan is built from, the shape of a
+// suggested time block, and the heuristic scheduler used when no model is
+// configured.
+import { z } from "zod";
+
+export const MAX_PLAN_DAYS = 14;
+
+const DateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a YYYY-MM-DD date");
+const TimeString = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Expected an HH:MM time");
+
+export const StudyPlanContextSchema = z.object({
+  startDate: DateString,
+  days: z.number().int().min(1).max(MAX_PLAN_DAYS).default(7),
+  hoursPerDay: z.number().min(0.5).max(12),
+  dayStart: TimeString.default("16:00"),
+  courses: z.array(z.object({ id: z.string(), title: z.string() })).default([]),
+  // Unsubmitted assignments; dueDate is the day part of assignments.due_date
+  deadlines: z
+    .array(z.object({ id: z.string(), title: z.string(), course: z.string(), dueDate: DateString }))
+    .default([]),
+  // Unfinished modules of the student's own AI-generated courses
+  modules: z
+    .array(z.object({ id: z.string(), title: z.string(), course: z.string(), day: z.number().int() }))
+    .default([]),
+});
+
+export type StudyPlanContext = z.infer<typeof StudyPlanContextSchema>;
+
+export const STUDY_ITEM_TYPES = ["lecture", "reading", "assignment", "quiz", "exam", "other"] as const;
+
+export const SuggestedStudyItemSchema = z.object({
+  title: z.string().trim().min(1, "Title is empty"),
+  description: z.string().trim().optional(),
+  course: z.string().trim().min(1, "Course is empty"),
+  date: DateString,
+  start_time: TimeString,
+  duration_minutes: z.number().int().min(10).max(240),
+  type: z.enum(STUDY_ITEM_TYPES).catch("other"),
+  // Assignment or module the block works towards, when there is one
+  source_id: z.string().optional(),
+});
+
+export type SuggestedStudyItem = z.infer<typeof SuggestedStudyItemSchema>;
+
+// "heuristic" when the scheduler below produced the plan, otherwise the name
+// of the AI provider that did
+export interface StudyPlanResponse {
+  items: SuggestedStudyItem[];
+  source: string;
+}
+
+export const STUDY_PLAN_JSON_INSTRUCTIONS = `Return JSON only, with this format:
+{
+  "items": [
+    {
+      "title": "What to do in this block",
+      "description": "Optional detail",
+      "course": "Course title from the context",
+      "date": "YYYY-MM-DD",
+      "start_time": "HH:MM",
+      "duration_minutes": 50,
+      "type": "lecture" | "reading" | "assignment" | "quiz" | "exam" | "other",
+      "source_id": "id of the deadline or module this block works towards, if any"
+    }
+  ]
+}`;
+
+// Models get the shape roughly right more often than exactly right, so invalid
+// items are dropped instead of failing the whole plan.
+export const parseStudyPlanItems = (raw: unknown): SuggestedStudyItem[] => {
+  const items = raw && typeof raw === "object" && "items" in raw ? (raw as { items: unknown }).items : raw;
+  if (!Array.isArray(items)) return [];
+  return items.flatMap((item) => {
+    const result = SuggestedStudyItemSchema.safeParse(item);
+    return result.success ? [result.data] : [];
+  });
+};
+
+export const addDays = (date: string, days: number) => {
+  const value = new Date(`${date}T00:00:00Z`);
+  value.setUTCDate(value.getUTCDate() + days);
+  return value.toISOString().slice(0, 10);
+};
+
+export const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+export const fromMinutes = (total: number) =>
+  `${String(Math.floor(total / 60)).padStart(2, "0")}:${String(total % 60).padStart(2, "0")}`;
+
+export const isWithinPlan = (context: StudyPlanContext, item: SuggestedStudyItem) =>
+  item.date >= context.startDate && item.date < addDays(context.startDate, context.days);
+
+const SESSION_MINUTES = 50;
+const MODULE_MINUTES = 45;
+const REVIEW_MINUTES = 30;
+const BREAK_MINUTES = 10;
+const SESSIONS_PER_DEADLINE = 2;
+const END_OF_DAY = 23 * 60;
+
+interface WorkUnit {
+  title: string;
+  description?: string;
+  course: string;
+  type: SuggestedStudyItem["type"];
+  minutes: number;
+  sourceId: string;
+  latestDate?: string;
+}
+
+// Deterministic fallback: deadlines first, earliest due first, split into
+// sessions on separate days; then AI-course modules in course order; then one
+// review per enrolled course if there is room left. Each unit takes the first
+// day with enough of the student's hours left, and work that cannot fit before
+// its due date is left out rather than scheduled late.
+export const scheduleStudyPlan = (context: StudyPlanContext): SuggestedStudyItem[] => {
+  const capacity = Math.round(context.hoursPerDay * 60);
+  const dayStart = toMinutes(context.dayStart);
+  const days = Array.from({ length: context.days }, (_, i) => ({
+    date: addDays(context.startDate, i),
+    used: 0,
+    cursor: dayStart,
+    sources: new Set<string>(),
+  }));
+
+  const deadlines = [...context.deadlines].sort(
+    (a, b) => a.dueDate.localeCompare(b.dueDate) || a.title.localeCompare(b.title)
+  );
+  const modules = [...context.modules].sort((a, b) => a.course.localeCompare(b.course) || a.day - b.day);
+
+  const units: WorkUnit[] = [
+    ...deadlines.flatMap((deadline) =>
+      Array.from({ length: SESSIONS_PER_DEADLINE }, (_, session) => ({
+        title: `${session === 0 ? "Start" : "Finish"} ${deadline.title}`,
+        description: `Due ${deadline.dueDate}`,
+        course: deadline.course,
+        type: "assignment" as const,
+        minutes: SESSION_MINUTES,
+        sourceId: deadline.id,
+        latestDate: deadline.dueDate,
+      }))
+    ),
+    ...modules.map((module) => ({
+      title: `Study ${module.title}`,
+      course: module.course,
+      type: "reading" as const,
+      minutes: MODULE_MINUTES,
+      sourceId: module.id,
+    })),
+    ...context.courses.map((course) => ({
+      title: `Review ${course.title} notes`,
+      course: course.title,
+      type: "lecture" as const,
+      minutes: REVIEW_MINUTES,
+      sourceId: course.id,
+    })),
+  ];
+
+  const items: SuggestedStudyItem[] = [];
+  for (const unit of units) {
+    const day = days.find(
+      (candidate) =>
+        (!unit.latestDate || candidate.date <= unit.latestDate) &&
+        !candidate.sources.has(unit.sourceId) &&
+        candidate.used + unit.minutes <= capacity &&
+        candidate.cursor + unit.minutes <= END_OF_DAY
+    );
+    if (!day) continue;
+
+    const item: SuggestedStudyItem = {
+      title: unit.title,
+      course: unit.course,
+      date: day.date,
+      start_time: fromMinutes(day.cursor),
+      duration_minutes: unit.minutes,
+      type: unit.type,
+      source_id: unit.sourceId,
+    };
+    if (unit.description) {
+      item.description = unit.description;
+    }
+    items.push(item);
+
+    day.used += unit.minutes;
+    day.cursor += unit.minutes + BREAK_MINUTES;
+    day.sources.add(unit.sourceId);
+  }
+
+  return items.sort((a, b) => a.date.localeCompare(b.date) || a.start_time.localeCompare(b.start_time));
+};
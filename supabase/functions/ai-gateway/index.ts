@@ -0,0 +1,62 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { errorStatus, getProviderStatus, requireAdmin, resolveAIProvider } from "../_shared/ai-env.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-firebase-token",
+};
+
+// Used by the admin AI settings: reports which providers have keys configured
+// and sends a test prompt through the selected provider.
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { action, prompt } = await req.json();
+
+    if (action === "status") {
+      return new Response(
+        JSON.stringify({ providers: getProviderStatus() }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (action !== "test") {
+      throw new Error(`Unknown action: ${action}`);
+    }
+
+    // Only admins may send free-form prompts through the configured provider
+    await requireAdmin(req);
+
+    if (!prompt) {
+      throw new Error("Prompt is required");
+    }
+
+    const provider = await resolveAIProvider(req);
+    const startedAt = Date.now();
+    const text = await provider.generateText({ prompt });
+
+    return new Response(
+      JSON.stringify({
+        provider: provider.name,
+        model: provider.model,
+        text,
+        durationMs: Date.now() - startedAt,
+      }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error in ai-gateway:", error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        status: errorStatus(error),
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
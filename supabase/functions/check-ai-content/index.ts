@@ -0,0 +1,66 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { z } from "zod";
+import { errorStatus, resolveAIProvider } from "../_shared/ai-env.ts";
+import { generateJSON } from "../_shared/ai-provider.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-firebase-token",
+};
+
+const AIDetectionSchema = z.object({
+  ai_probability: z.coerce.number().min(0).max(100),
+  analysis: z.array(z.string()).default([]),
+});
+
+// Long submissions are truncated; the opening is enough to judge style
+const MAX_TEXT_LENGTH = 12000;
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { text } = await req.json();
+
+    if (!text || typeof text !== "string") {
+      throw new Error("Text is required");
+    }
+
+    const provider = await resolveAIProvider(req);
+    const sample = text.slice(0, MAX_TEXT_LENGTH);
+
+    const result = await generateJSON(
+      provider,
+      {
+        task: "ai-detection",
+        params: { text: sample },
+        system: `You review student work for signs that it was written by an AI model.
+Estimate the probability (0-100) that the text was generated by AI, and give 2-4 short observations
+about the features that informed the estimate (style, repetition, specificity, structure).
+Be cautious: short or formulaic texts are hard to judge, so avoid extreme values without strong evidence.
+Return JSON in the form {"ai_probability": number, "analysis": ["observation", ...]}.`,
+        prompt: sample,
+        temperature: 0.2,
+      },
+      AIDetectionSchema
+    );
+
+    return new Response(
+      JSON.stringify({ ...result, provider: provider.name }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error in check-ai-content:", error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        status: errorStatus(error),
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
@@ -1,13 +1,11 @@
 
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { GoogleGenerativeAI } from "npm:@google/generative-ai";
-
-const GEMINI_API_KEY = Deno.env.get("GEMINI_API_KEY");
+import { errorStatus, resolveAIProvider } from "../_shared/ai-env.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-firebase-token",
 };
 
 serve(async (req) => {
@@ -17,18 +15,13 @@ serve(async (req) => {
   }
 
   try {
-    if (!GEMINI_API_KEY) {
-      throw new Error("Missing Gemini API key");
-    }
-
     const { subject, topic, difficultyLevel, grade } = await req.json();
 
     if (!subject || !topic) {
       throw new Error("Subject and topic are required");
     }
 
-    const genAI = new GoogleGenerativeAI(GEMINI_API_KEY);
-    const model = genAI.getGenerativeModel({ model: "gemini-1.5-pro" });
+    const provider = await resolveAIProvider(req);
 
     const prompt = `
       Create an educational assignment for students on the subject of ${subject}, 
@@ -48,9 +41,11 @@ serve(async (req) => {
       Format the response in a clear, well-structured way that's ready to be presented to students.
     `;
 
-    const result = await model.generateContent(prompt);
-    const response = result.response;
-    const text = response.text();
+    const text = await provider.generateText({
+      task: "assignment",
+      params: { subject, topic, difficultyLevel, grade },
+      prompt,
+    });
 
     return new Response(
       JSON.stringify({
@@ -69,7 +64,7 @@ serve(async (req) => {
     return new Response(
       JSON.stringify({ error: error.message || "Failed to generate assignment" }),
       {
-        status: 500,
+        status: errorStatus(error),
         headers: { ...corsHeaders, "Content-Type": "application/json" },
       }
     );
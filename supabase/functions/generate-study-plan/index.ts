@@ -1,14 +1,25 @@
-
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-
-const deepseekApiKey = Deno.env.get('DEEPSEEK_API_KEY');
+import { z } from "zod";
+import { generateJSON } from "../_shared/ai-provider.ts";
+import { errorStatus, isProviderConfigured, resolveAIProvider } from "../_shared/ai-env.ts";
+import {
+  isWithinPlan,
+  parseStudyPlanItems,
+  scheduleStudyPlan,
+  STUDY_PLAN_JSON_INSTRUCTIONS,
+  StudyPlanContextSchema,
+  StudyPlanResponse,
+} from "../_shared/study-plan.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-firebase-token',
 };
 
+const respond = (body: StudyPlanResponse) =>
+  new Response(JSON.stringify(body), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -16,72 +27,61 @@ serve(async (req) => {
   }
 
   try {
-    const { date } = await req.json();
-    
-    if (!deepseekApiKey) {
-      throw new Error('DeepSeek API key not configured');
+    const { context: rawContext } = await req.json();
+
+    const parsed = StudyPlanContextSchema.safeParse(rawContext);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      throw new Error(`Invalid study plan context: ${issue.path.join('.') || 'root'} ${issue.message}`);
+    }
+    const context = parsed.data;
+    const provider = await resolveAIProvider(req);
+
+    // Without an API key for the selected provider the plan still comes from
+    // the student's real deadlines, just without a model in the loop
+    if (!isProviderConfigured(provider.name)) {
+      console.log('No key configured for', provider.name, '- using the heuristic scheduler');
+      return respond({ items: scheduleStudyPlan(context), source: 'heuristic' });
     }
 
-    // Make request to DeepSeek API
-    const deepseekResponse = await fetch('https://api.deepseek.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${deepseekApiKey}`,
-        'Content-Type': 'application/json',
+    const raw = await generateJSON(
+      provider,
+      {
+        task: 'study-plan',
+        params: { context },
+        system: `You are a study planning assistant. Build a time-blocked study plan for a student covering
+            ${context.days} days starting ${context.startDate}, from the courses, deadlines and unfinished
+            course modules in the context.
+
+            Rules:
+            1. Schedule at most ${context.hoursPerDay} hours of study per day, with blocks starting no earlier than ${context.dayStart}
+            2. Schedule work for a deadline before its due date, earliest deadlines first
+            3. Split large pieces of work into blocks of 25 to 90 minutes, with breaks between blocks
+            4. Use course titles exactly as given, and set source_id to the id of the deadline or module a block works towards
+
+            ${STUDY_PLAN_JSON_INSTRUCTIONS}`,
+        prompt: `Context:\n${JSON.stringify(context, null, 2)}`,
+        temperature: 0.4,
       },
-      body: JSON.stringify({
-        model: 'deepseek-chat',
-        messages: [
-          {
-            role: 'system',
-            content: `You are an AI study planning assistant. Create a study plan for a student for the date ${date}. 
-            The plan should include courses and tasks. Return your response as JSON only with the following format:
-            {
-              "studyPlan": [
-                {
-                  "id": 1,
-                  "title": "Course Name",
-                  "tasks": [
-                    {
-                      "id": 1,
-                      "title": "Task description",
-                      "duration": 45,
-                      "completed": false,
-                      "time": "9:00 AM"
-                    }
-                  ]
-                }
-              ]
-            }`
-          },
-          { role: 'user', content: `Create a study plan for ${date} focusing on computer science topics` }
-        ],
-        temperature: 0.7,
-      }),
-    });
+      z.unknown()
+    );
 
-    const aiResponse = await deepseekResponse.json();
-    
-    if (aiResponse.error) {
-      throw new Error(`DeepSeek API error: ${aiResponse.error.message}`);
+    const items = parseStudyPlanItems(raw).filter((item) => isWithinPlan(context, item));
+    if (items.length === 0 && (context.deadlines.length > 0 || context.modules.length > 0)) {
+      throw new Error('AI response did not contain any valid study blocks');
     }
-    
-    const studyPlan = JSON.parse(aiResponse.choices[0].message.content);
-    
+
     // Log the successful generation
-    console.log('Successfully generated study plan for:', date);
+    console.log('Successfully generated study plan for:', context.startDate, 'using', provider.name);
 
-    return new Response(
-      JSON.stringify(studyPlan),
-      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+    return respond({ items, source: provider.name });
   } catch (error) {
     console.error('Error in generate-study-plan:', error);
     return new Response(
       JSON.stringify({ error: error.message }),
-      { 
+      {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 500 
+        status: errorStatus(error)
       }
     );
   }